@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withErrorHandling } from '@/middleware/error-middleware';
+import { withSession } from '@/middleware/session-middleware';
+import { validateRequest } from '@/utils/validation/validators';
+import { captureBaseline } from '@/services/debugging/baseline';
+import { BaselineManager, baselineOwner } from '@/services/session/baseline-manager';
+import { CodeAnalysisResult } from '@/types/debugging';
+import { UserSession } from '@/types/session';
+
+const baselineManager = new BaselineManager();
+
+const assetKeySchema = z.string().min(1, 'Asset key is required').max(500);
+
+// Fields of the issues that fingerprints are built from; the rest is kept as sent
+const issueSchema = z.object({
+  rule: z.string(),
+  message: z.string(),
+  line: z.number().int(),
+  endLine: z.number().int().optional(),
+  codeSnippet: z.string().optional()
+}).passthrough();
+
+const captureSchema = z.object({
+  assetKey: assetKeySchema,
+  // The analysis result returned by POST /api/debug-code
+  result: z.object({
+    id: z.string(),
+    code: z.string().max(50000, 'Code too large'),
+    language: z.enum(['sql', 'ampscript', 'ssjs', 'css', 'html', 'javascript', 'cloudpage', 'email']),
+    errors: z.array(issueSchema),
+    warnings: z.array(issueSchema),
+    performanceIssues: z.array(issueSchema),
+    bestPracticeViolations: z.array(issueSchema)
+  }).passthrough()
+});
+
+function assetKeyOf(request: NextRequest): string {
+  return validateRequest(assetKeySchema, request.nextUrl.searchParams.get('assetKey') ?? '');
+}
+
+// GET /api/debug-code/baseline?assetKey= - Get the baseline of an asset
+export const GET = withSession(withErrorHandling(async (request: NextRequest, session: UserSession): Promise<NextResponse> => {
+  const baseline = await baselineManager.getBaseline(baselineOwner(session), assetKeyOf(request));
+
+  if (!baseline) {
+    return NextResponse.json(
+      { success: false, error: 'No baseline for this asset' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: baseline
+  });
+}));
+
+// PUT /api/debug-code/baseline - Record the issues of an analysis as the asset's baseline
+export const PUT = withSession(withErrorHandling(async (request: NextRequest, session: UserSession) => {
+  const body = await request.json();
+  const { assetKey, result } = validateRequest(captureSchema, body);
+
+  const baseline = captureBaseline(result as unknown as CodeAnalysisResult, assetKey);
+  await baselineManager.saveBaseline(baselineOwner(session), baseline);
+
+  return NextResponse.json({
+    success: true,
+    data: baseline
+  }, { status: 200 });
+}));
+
+// DELETE /api/debug-code/baseline?assetKey= - Drop the baseline so every issue is reported again
+export const DELETE = withSession(withErrorHandling(async (request: NextRequest, session: UserSession): Promise<NextResponse> => {
+  if (!await baselineManager.deleteBaseline(baselineOwner(session), assetKeyOf(request))) {
+    return NextResponse.json(
+      { success: false, error: 'No baseline for this asset' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}));
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withErrorHandling } from '@/middleware/error-middleware';
+import { validateRequest } from '@/utils/validation/validators';
+import { EmailBuildService } from '@/services/debugging/email-build.service';
+
+// Email HTML is checked against Gmail's 102KB clipping limit, so allow well above it
+const inlineCssSchema = z.object({
+  html: z.string().min(1, 'HTML is required').max(500000, 'HTML too large')
+});
+
+const emailBuildService = new EmailBuildService();
+
+// POST /api/debug-code/inline-css - Inline <style> rules into style attributes
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const body = await request.json();
+  const { html } = validateRequest(inlineCssSchema, body);
+
+  const result = await emailBuildService.buildEmail(html);
+
+  return NextResponse.json({
+    success: true,
+    data: result
+  }, { status: 200 });
+});
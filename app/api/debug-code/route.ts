@@ -4,13 +4,54 @@ import { CodeAnalysisService } from '@/services/debugging/code-analysis.service'
 import { ServiceFactory } from '@/services/factory/service-factory';
 import { handleApiError } from '@/utils/errors/error-handler';
 import { validateRequest } from '@/utils/validation/validators';
-import { DebugLanguage, DebugMessage } from '@/types/debugging';
+import { SFMCIntegrationService } from '@/services/sfmc/sfmc-integration.service';
+import { ErrorFactory } from '@/utils/errors/error-factory';
+import { DataExtensionSchemaFileSchema } from '@/services/debugging/data-extension-schema';
+import { RuleConfigurationSchema } from '@/services/debugging/rule-config';
+import { RulePackError, parseRulePack } from '@/services/debugging/rule-packs';
+import { RulePackManager } from '@/services/session/rule-pack-manager';
+import { BaselineManager, baselineOwner } from '@/services/session/baseline-manager';
+import { compareWithBaseline } from '@/services/debugging/baseline';
+import { SessionManager } from '@/services/session/session-manager';
+import { UserSession } from '@/types/session';
+import { ReportFormat, exportAnalysisResult } from '@/services/debugging/report-exporters';
+import { AnalysisLevel, CodeAnalysisResult, DebugLanguage, DebugMessage, RuleConfiguration, RulePack, SFMCContext } from '@/types/debugging';
+
+// Levels of the older API: 'all' ran every analysis, and security findings are part of the syntax pass
+const legacyAnalysisLevels: Record<'security' | 'all', AnalysisLevel> = {
+  security: 'syntax',
+  all: 'comprehensive'
+};
+
+const analysisLevelSchema = z
+  .enum(['syntax', 'performance', 'best_practices', 'comprehensive', 'security', 'all'])
+  .default('comprehensive')
+  .transform((level): AnalysisLevel => (level === 'security' || level === 'all' ? legacyAnalysisLevels[level] : level));
+
+const mockFieldValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+// Mock data for offline execution
+const executionContextSchema = z.object({
+  attributes: z.record(mockFieldValueSchema).optional(),
+  personalizationStrings: z.record(mockFieldValueSchema).optional(),
+  dataExtensions: z.record(z.array(z.record(mockFieldValueSchema))).optional(),
+  requestParameters: z.record(z.string()).optional(),
+  now: z.string().datetime({ offset: true }).optional(),
+  httpResponses: z.record(z.object({
+    statusCode: z.number().int().optional(),
+    content: z.string(),
+    headers: z.record(z.string()).optional()
+  })).optional(),
+  soapObjects: z.record(z.array(z.record(mockFieldValueSchema))).optional()
+});
 
 // Input validation schema
 const debugCodeSchema = z.object({
+  mode: z.enum(['analyze', 'execute']).default('analyze'),
   code: z.string().min(1, 'Code is required').max(50000, 'Code too large'),
-  language: z.enum(['sql', 'ampscript', 'ssjs', 'css', 'html', 'javascript']),
-  analysisLevel: z.enum(['syntax', 'performance', 'security', 'all']).default('all'),
+  // cloudpage and email analyse documents that mix HTML, CSS, JavaScript, SSJS and AMPScript
+  language: z.enum(['sql', 'ampscript', 'ssjs', 'css', 'html', 'javascript', 'cloudpage', 'email']),
+  analysisLevel: analysisLevelSchema,
   conversationHistory: z.array(z.object({
     id: z.string(),
     role: z.enum(['user', 'assistant']),
@@ -34,26 +75,105 @@ const debugCodeSchema = z.object({
     includePerformanceMetrics: z.boolean().default(true),
     includeBestPractices: z.boolean().default(true),
     maxSuggestions: z.number().min(1).max(20).default(10)
-  }).default({})
+  }).default({}),
+  context: z.object({
+    // Load the Data Extensions of the session's SFMC connection when none are uploaded
+    connectionId: z.string().min(1).optional(),
+    dataExtensions: DataExtensionSchemaFileSchema.optional(),
+    // Row counts by Data Extension name, for estimating what reads cost
+    rowCounts: z.record(z.number().int().nonnegative()).optional(),
+    queryTarget: z.object({
+      dataExtension: z.string().min(1, 'Target Data Extension is required')
+    }).optional()
+  }).optional(),
+  mockContext: executionContextSchema.optional(),
+  // Project rule configuration, usually the one stored in the user preferences
+  ruleConfig: RuleConfigurationSchema.optional(),
+  // Custom rule packs for this request, on top of the packs uploaded to the
+  // session; they need a session and are validated like uploaded packs
+  rulePacks: z.array(z.unknown()).max(10).optional(),
+  // Report format of the analysis result; also accepted as ?format=
+  format: z.enum(['json', 'sarif', 'junit']).optional(),
+  // Path of the analysed file in SARIF and JUnit reports
+  fileName: z.string().min(1).max(500).optional(),
+  // Asset whose baseline labels the issues as new or existing
+  assetKey: z.string().min(1).max(500).optional()
 });
 
+const reportFormatSchema = z.enum(['json', 'sarif', 'junit']);
+
 export async function POST(request: NextRequest) {
   try {
     // Validate request body
     const body = await request.json();
     const validatedData = validateRequest(debugCodeSchema, body);
 
+    const queryFormat = request.nextUrl.searchParams.get('format');
+    const format = validatedData.format ?? (queryFormat ? validateRequest(reportFormatSchema, queryFormat) : 'json');
+
     // Get debugging service instance
     const debugService = ServiceFactory.getService<CodeAnalysisService>('debugging');
 
+    // Run the code offline against mock data
+    if (validatedData.mode === 'execute') {
+      const result = await debugService.executeCode({
+        code: validatedData.code,
+        language: validatedData.language as DebugLanguage,
+        context: validatedData.mockContext
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: result
+      }, { status: 200 });
+    }
+
+    const session = await loadSession(request);
+
+    // Resolve Data Extension schemas for SQL validation
+    const context = await resolveContext(validatedData.context as DebugCodeContext, session);
+
+    if (validatedData.rulePacks && !session) {
+      return NextResponse.json({
+        success: false,
+        error: 'Rule packs sent with the request require a session'
+      }, { status: 401 });
+    }
+    let inlinePacks: RulePack[];
+    try {
+      inlinePacks = (validatedData.rulePacks ?? []).map(pack => parseRulePack(JSON.stringify(pack), 'json').pack);
+    } catch (error) {
+      if (error instanceof RulePackError) {
+        return NextResponse.json({ success: false, error: error.message, errors: error.errors }, { status: 400 });
+      }
+      throw error;
+    }
+    const rulePacks = await resolveRulePacks(session, inlinePacks);
+
     // Perform code analysis
-    const result = await debugService.analyzeCode({
+    const analysis = await debugService.analyzeCode({
       code: validatedData.code,
       language: validatedData.language as DebugLanguage,
       analysisLevel: validatedData.analysisLevel,
       conversationHistory: validatedData.conversationHistory as DebugMessage[],
-      options: validatedData.options
+      options: validatedData.options,
+      context,
+      ruleConfig: validatedData.ruleConfig as RuleConfiguration | undefined,
+      rulePacks
     });
+    const result = validatedData.assetKey && session ? await applyBaseline(analysis, validatedData.assetKey, session) : analysis;
+
+    if (format !== 'json') {
+      const report = exportAnalysisResult(result, format as ReportFormat, { uri: validatedData.fileName });
+
+      return new NextResponse(report.content, {
+        status: 200,
+        headers: {
+          'Content-Type': report.contentType,
+          'Content-Disposition': `attachment; filename="${report.fileName}"`
+        }
+      });
+    }
 
     return NextResponse.json({
       success: true,
@@ -65,13 +185,89 @@ export async function POST(request: NextRequest) {
   }
 }
 
+type DebugCodeContext = z.infer<typeof debugCodeSchema>['context'];
+
+async function resolveContext(
+  context: DebugCodeContext,
+  session: UserSession | null
+): Promise<SFMCContext | undefined> {
+  if (!context) return undefined;
+
+  const { connectionId, ...sfmcContext } = context;
+  if (!sfmcContext.dataExtensions && connectionId) {
+    if (!session) {
+      throw ErrorFactory.createAuthenticationError('A session is required to load the Data Extensions of a connection');
+    }
+    // The service only answers for the connection it is authenticated with
+    const sfmcService = ServiceFactory.getService<SFMCIntegrationService>('sfmc');
+    sfmcContext.dataExtensions = await sfmcService.getDataExtensionSchemas(connectionId);
+  }
+
+  return sfmcContext;
+}
+
+// Session of the request, whose rule packs and baselines apply to the analysis
+async function loadSession(request: NextRequest): Promise<UserSession | null> {
+  const sessionId = request.cookies.get('session-id')?.value ?? request.headers.get('x-session-id');
+  if (!sessionId) return null;
+
+  const sessionManager = new SessionManager();
+  try {
+    return await sessionManager.getSession(sessionId);
+  } catch (error) {
+    console.error('Failed to load session:', error);
+    return null;
+  } finally {
+    await sessionManager.cleanup();
+  }
+}
+
+/**
+ * Active rule packs of the requesting session and its user, followed by the
+ * packs sent with the request; a pack sent with the request replaces a
+ * stored pack with the same id.
+ */
+async function resolveRulePacks(session: UserSession | null, inline: RulePack[]): Promise<RulePack[]> {
+  if (!session) return inline;
+
+  const rulePackManager = new RulePackManager();
+  try {
+    const stored = await rulePackManager.getActiveRulePacks(session.sessionId, session.userId);
+    const inlineIds = new Set(inline.map(pack => pack.id));
+    return [...stored.filter(pack => !inlineIds.has(pack.id)), ...inline];
+  } catch (error) {
+    console.error('Failed to load rule packs:', error);
+    return inline;
+  } finally {
+    await rulePackManager.cleanup();
+  }
+}
+
+// Analyses of assets without a baseline are returned unlabelled
+async function applyBaseline(result: CodeAnalysisResult, assetKey: string, session: UserSession): Promise<CodeAnalysisResult> {
+  const baselineManager = new BaselineManager();
+  try {
+    const baseline = await baselineManager.getBaseline(baselineOwner(session), assetKey);
+    return baseline ? compareWithBaseline(result, baseline) : result;
+  } finally {
+    await baselineManager.cleanup();
+  }
+}
+
 export async function GET() {
   return NextResponse.json({
     message: 'Code Debugging API',
-    supportedLanguages: ['sql', 'ampscript', 'ssjs', 'css', 'html', 'javascript'],
-    analysisLevels: ['syntax', 'performance', 'security', 'all'],
+    supportedLanguages: ['sql', 'ampscript', 'ssjs', 'css', 'html', 'javascript', 'cloudpage', 'email'],
+    analysisLevels: ['syntax', 'performance', 'best_practices', 'comprehensive'],
+    reportFormats: ['json', 'sarif', 'junit'],
+    modes: {
+      analyze: 'Validate and analyze code',
+      execute: 'Run code offline against mockContext (ampscript, ssjs)'
+    },
     endpoints: {
-      POST: '/api/debug-code - Analyze and debug code'
+      POST: '/api/debug-code - Analyze and debug code, or run it with mode=execute; format=sarif or format=junit returns a report file',
+      inlineCss: 'POST /api/debug-code/inline-css - Inline the CSS of email HTML and check its size against Gmail clipping',
+      baseline: 'GET, PUT, DELETE /api/debug-code/baseline - Record the issues of an asset so later analyses with assetKey label them as new or existing'
     }
   });
 }
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { CodeAnalysisService } from '@/services/debugging/code-analysis.service';
+import { ServiceFactory } from '@/services/factory/service-factory';
+import { handleApiError } from '@/utils/errors/error-handler';
+import { validateRequest } from '@/utils/validation/validators';
+import { RuleConfigurationSchema } from '@/services/debugging/rule-config';
+import { contentAssetToWorkspaceFile } from '@/services/debugging/content-workspace';
+import { AnalysisLevel, RuleConfiguration, WorkspaceFile } from '@/types/debugging';
+import { ContentAsset } from '@/types/sfmc';
+
+const workspaceFileSchema = z.object({
+  name: z.string().min(1, 'File name is required'),
+  code: z.string().max(50000, 'Code too large'),
+  language: z.enum(['sql', 'ampscript', 'ssjs', 'css', 'html', 'javascript', 'cloudpage', 'email']),
+  customerKey: z.string().optional(),
+  assetId: z.number().int().optional()
+});
+
+// Content Builder assets as returned by the asset API
+const contentAssetSchema = z.object({
+  id: z.number().int(),
+  customerKey: z.string().optional(),
+  name: z.string().min(1),
+  assetType: z.object({
+    id: z.number().int(),
+    name: z.string(),
+    displayName: z.string()
+  }),
+  content: z.string().max(50000, 'Content too large').optional(),
+  category: z.object({
+    id: z.number().int(),
+    name: z.string()
+  }).optional()
+}).passthrough();
+
+const workspaceSchema = z.object({
+  files: z.array(workspaceFileSchema).default([]),
+  assets: z.array(contentAssetSchema).default([]),
+  analysisLevel: z.enum(['syntax', 'performance', 'best_practices', 'comprehensive']).default('comprehensive'),
+  ruleConfig: RuleConfigurationSchema.optional()
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = validateRequest(workspaceSchema, body);
+
+    const files: WorkspaceFile[] = [
+      ...(validatedData.files as WorkspaceFile[]),
+      ...(validatedData.assets as unknown as ContentAsset[]).map(contentAssetToWorkspaceFile)
+    ];
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one file or asset is required' },
+        { status: 400 }
+      );
+    }
+
+    const names = new Set(files.map(file => file.name));
+    if (names.size !== files.length) {
+      return NextResponse.json(
+        { error: 'File and asset names must be unique' },
+        { status: 400 }
+      );
+    }
+
+    const debugService = ServiceFactory.getService<CodeAnalysisService>('debugging');
+    const result = await debugService.analyzeWorkspace({
+      files,
+      analysisLevel: validatedData.analysisLevel as AnalysisLevel,
+      ruleConfig: validatedData.ruleConfig as RuleConfiguration | undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    }, { status: 200 });
+
+  } catch (error) {
+    return handleApiError(error, 'Workspace analysis failed');
+  }
+}
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { RealTimeAnalyzer } from '../../../services/debugging/real-time-analyzer'
+import { DocumentUpdate, RealTimeAnalyzer } from '../../../services/debugging/real-time-analyzer'
+import { DocumentVersionError } from '../../../services/debugging/incremental-document'
+import { TextDeltasSchema } from '../../../services/debugging/text-deltas'
 import { PerformanceMetricsCalculator } from '../../../services/debugging/performance-metrics-calculator'
 import { BestPracticesEnforcer } from '../../../services/debugging/best-practices-enforcer'
-import { CodeLanguage, RealTimeAnalysisConfig } from '../../../types/debugging'
+import { AnalysisLanguage, RealTimeAnalysisConfig } from '../../../types/debugging'
+
+// Largest document a session can analyse, as POST /api/debug-code accepts
+const MAX_CODE_LENGTH = 50000
 
 // Initialize analyzers
 const realTimeAnalyzer = new RealTimeAnalyzer()
@@ -13,23 +18,50 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { 
-      code, 
       language, 
       sessionId, 
       analysisType = 'comprehensive',
-      config 
+      config,
+      // Edits since the version the client sent last, instead of the code
+      deltas,
+      baseVersion,
+      version
     } = body
 
     // Validate required fields
-    if (!code || !language || !sessionId) {
+    if ((!body.code && deltas === undefined) || !language || !sessionId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: code or deltas, language, sessionId' },
+        { status: 400 }
+      )
+    }
+
+    const parsedDeltas = deltas === undefined ? undefined : TextDeltasSchema.safeParse(deltas)
+    if (parsedDeltas && !parsedDeltas.success) {
+      const issue = parsedDeltas.error.errors[0]
+      return NextResponse.json(
+        { error: `Invalid deltas: ${issue.path.join('.') || 'deltas'}: ${issue.message}` },
+        { status: 400 }
+      )
+    }
+
+    if (parsedDeltas && typeof baseVersion !== 'number') {
+      return NextResponse.json(
+        { error: 'Missing baseVersion for deltas' },
+        { status: 400 }
+      )
+    }
+
+    const deltaLength = parsedDeltas ? parsedDeltas.data.reduce((total, delta) => total + delta.text.length, 0) : 0
+    if ((typeof body.code === 'string' && body.code.length > MAX_CODE_LENGTH) || deltaLength > MAX_CODE_LENGTH) {
       return NextResponse.json(
-        { error: 'Missing required fields: code, language, sessionId' },
+        { error: `Code too large: at most ${MAX_CODE_LENGTH} characters` },
         { status: 400 }
       )
     }
 
     // Validate language
-    const validLanguages: CodeLanguage[] = ['ampscript', 'ssjs', 'sql', 'html', 'css', 'javascript']
+    const validLanguages: AnalysisLanguage[] = ['ampscript', 'ssjs', 'sql', 'html', 'css', 'javascript', 'cloudpage', 'email']
     if (!validLanguages.includes(language)) {
       return NextResponse.json(
         { error: `Invalid language. Must be one of: ${validLanguages.join(', ')}` },
@@ -42,12 +74,47 @@ export async function POST(request: NextRequest) {
       realTimeAnalyzer.updateConfig(config)
     }
 
+    // Keep the session document in sync so unchanged blocks are not analysed again
+    const update: DocumentUpdate = parsedDeltas
+      ? { language, deltas: parsedDeltas.data, baseVersion, version }
+      : { language, code: body.code, version }
+
+    let document
+    try {
+      document = realTimeAnalyzer.updateDocument(sessionId, update)
+    } catch (error) {
+      if (error instanceof DocumentVersionError) {
+        // The client resends the whole code
+        return NextResponse.json(
+          { error: error.message, currentVersion: error.currentVersion },
+          { status: 409 }
+        )
+      }
+      if (error instanceof RangeError) {
+        return NextResponse.json(
+          { error: `Invalid deltas: ${error.message}` },
+          { status: 400 }
+        )
+      }
+      throw error
+    }
+
+    // Deltas can grow a document past the limit one small edit at a time
+    if (document.text.length > MAX_CODE_LENGTH) {
+      realTimeAnalyzer.clearCache(sessionId)
+      return NextResponse.json(
+        { error: `Code too large: at most ${MAX_CODE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const code = document.text
     let result
 
     switch (analysisType) {
       case 'syntax':
         // Immediate syntax validation
-        const syntaxErrors = await realTimeAnalyzer.validateSyntaxImmediate(code, language)
+        const syntaxErrors = await realTimeAnalyzer.validateDocumentSyntax(document)
         result = {
           type: 'syntax',
           errors: syntaxErrors,
@@ -72,7 +139,7 @@ export async function POST(request: NextRequest) {
 
       case 'best_practices':
         // Best practices enforcement
-        const violations = await realTimeAnalyzer.enforceBestPractices(code, language)
+        const violations = await realTimeAnalyzer.enforceDocumentBestPractices(document)
         result = {
           type: 'best_practices',
           violations,
@@ -97,6 +164,7 @@ export async function POST(request: NextRequest) {
       success: true,
       data: result,
       sessionId,
+      version: document.version,
       timestamp: new Date().toISOString()
     })
 
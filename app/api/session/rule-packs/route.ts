@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { RulePackManager } from '../../../../services/session/rule-pack-manager';
+import { MAX_RULE_PACK_SIZE, RulePackError } from '../../../../services/debugging/rule-packs';
+import { withSession } from '../../../../middleware/session-middleware';
+import { UserSession } from '../../../../types/session';
+import { RulePackScope } from '../../../../types/debugging';
+
+const rulePackManager = new RulePackManager();
+
+const scopeSchema = z.enum(['session', 'user']).default('session');
+
+const uploadSchema = z.object({
+  content: z.string().min(1, 'Rule pack content is required').max(MAX_RULE_PACK_SIZE, 'Rule pack too large'),
+  format: z.enum(['json', 'yaml']).optional(),
+  scope: scopeSchema
+});
+
+const activateSchema = z.object({
+  id: z.string().min(1),
+  version: z.number().int().positive(),
+  scope: scopeSchema
+});
+
+// User packs follow the user across sessions and need a signed-in user
+function ownerOf(session: UserSession, scope: RulePackScope): string | undefined {
+  return scope === 'user' ? session.userId : session.sessionId;
+}
+
+function missingUser(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'User rule packs require a signed-in user' },
+    { status: 400 }
+  );
+}
+
+// GET /api/session/rule-packs - List the session's and the user's rule packs with their versions
+export const GET = withSession(async (request: NextRequest, session: UserSession) => {
+  try {
+    const sessionPacks = await rulePackManager.listRulePacks('session', session.sessionId);
+    const userPacks = session.userId ? await rulePackManager.listRulePacks('user', session.userId) : [];
+
+    return NextResponse.json({
+      success: true,
+      data: [...sessionPacks, ...userPacks]
+    });
+  } catch (error) {
+    console.error('Failed to get rule packs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to get rule packs' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/session/rule-packs - Upload a rule pack as JSON or YAML; the
+// body is either { content, format?, scope? } or the pack itself
+export const POST = withSession(async (request: NextRequest, session: UserSession) => {
+  try {
+    const contentType = request.headers.get('content-type') ?? '';
+    const raw = await request.text();
+    const scope = request.nextUrl.searchParams.get('scope');
+    const upload = contentType.includes('yaml')
+      ? rawUpload(raw, 'yaml', scope)
+      : parseUploadBody(raw, scope);
+
+    const ownerId = ownerOf(session, upload.scope);
+    if (!ownerId) {
+      return missingUser();
+    }
+
+    const stored = await rulePackManager.uploadRulePack(upload.scope, ownerId, upload.content, upload.format);
+
+    return NextResponse.json({
+      success: true,
+      data: stored
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RulePackError) {
+      return NextResponse.json(
+        { success: false, error: error.message, errors: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid upload', errors: error.errors.map(err => ({ path: err.path.join('.'), message: err.message })) },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to upload rule pack:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to upload rule pack' },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/session/rule-packs - Make an earlier version of a pack the active one
+export const PATCH = withSession(async (request: NextRequest, session: UserSession) => {
+  try {
+    const parsed = activateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', errors: parsed.error.errors.map(err => ({ path: err.path.join('.'), message: err.message })) },
+        { status: 400 }
+      );
+    }
+
+    const { id, version, scope } = parsed.data;
+    const ownerId = ownerOf(session, scope);
+    if (!ownerId) {
+      return missingUser();
+    }
+
+    const stored = await rulePackManager.activateVersion(scope, ownerId, id, version);
+    if (!stored) {
+      return NextResponse.json(
+        { success: false, error: `Rule pack ${id} has no version ${version}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: stored
+    });
+  } catch (error) {
+    console.error('Failed to activate rule pack version:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to activate rule pack version' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/session/rule-packs?id=<pack id>&scope=<session|user> - Remove a pack with all its versions
+export const DELETE = withSession(async (request: NextRequest, session: UserSession) => {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    const scope = scopeSchema.safeParse(request.nextUrl.searchParams.get('scope') ?? undefined);
+    if (!id || !scope.success) {
+      return NextResponse.json(
+        { success: false, error: 'A pack id and a valid scope are required' },
+        { status: 400 }
+      );
+    }
+
+    const ownerId = ownerOf(session, scope.data);
+    if (!ownerId) {
+      return missingUser();
+    }
+
+    if (!await rulePackManager.deleteRulePack(scope.data, ownerId, id)) {
+      return NextResponse.json(
+        { success: false, error: `Rule pack ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete rule pack:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete rule pack' },
+      { status: 500 }
+    );
+  }
+});
+
+// JSON bodies with a string content field are uploads; any other JSON is the pack itself
+function parseUploadBody(raw: string, scope: string | null): z.infer<typeof uploadSchema> {
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    // Not JSON, so a YAML pack sent without a YAML content type
+    return rawUpload(raw, 'yaml', scope);
+  }
+
+  if (body && typeof body === 'object' && typeof (body as { content?: unknown }).content === 'string') {
+    return uploadSchema.parse(body);
+  }
+  return rawUpload(raw, 'json', scope);
+}
+
+// A pack sent as the body itself, checked like the content of { content, format, scope }
+function rawUpload(raw: string, format: 'json' | 'yaml', scope: string | null): z.infer<typeof uploadSchema> {
+  return uploadSchema.parse({ content: raw, format, scope: scope ?? undefined });
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withErrorHandling } from '@/middleware/error-middleware';
+import { validateRequest } from '@/utils/validation/validators';
+import { ServiceFactory } from '@/services/factory/service-factory';
+import { SFMCIntegrationService } from '@/services/sfmc/sfmc-integration.service';
+import { assetVersions, diffDeploymentVersions } from '@/services/sfmc/deployment-history';
+import { DeploymentRecord } from '@/types/sfmc';
+
+const historyQuerySchema = z.object({
+  connectionId: z.string().min(1, 'Connection ID is required'),
+  assetKey: z.string().min(1, 'Asset key is required').max(500),
+  // Both or neither: the versions to diff
+  from: z.coerce.number().int().nonnegative().optional(),
+  to: z.coerce.number().int().nonnegative().optional()
+}).refine(query => (query.from === undefined) === (query.to === undefined), {
+  message: 'from and to must be given together',
+  path: ['to']
+});
+
+// GET /api/sfmc/deploy/history?connectionId=&assetKey=[&from=&to=] - List the versions of an asset, or diff two of them
+export const GET = withErrorHandling(async (request: NextRequest): Promise<NextResponse> => {
+  const { connectionId, assetKey, from, to } = validateRequest(
+    historyQuerySchema,
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  // Only the authenticated connection may read its history
+  const sfmcService = ServiceFactory.getService<SFMCIntegrationService>('sfmc');
+  const history: DeploymentRecord[] = await sfmcService.getDeploymentHistory(connectionId, assetKey);
+  if (history.length === 0) {
+    return NextResponse.json(
+      { success: false, error: 'No deployments recorded for this asset' },
+      { status: 404 }
+    );
+  }
+
+  if (from !== undefined && to !== undefined) {
+    return NextResponse.json({
+      success: true,
+      data: diffDeploymentVersions(history, from, to)
+    });
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      assetKey,
+      // Content is left out of the listing; diff two versions to see it
+      deployments: history.map(({ previous, deployed, ...deployment }) => deployment),
+      versions: assetVersions(history).map(({ snapshot, ...version }) => ({
+        ...version,
+        assetId: snapshot.assetId,
+        metadata: snapshot.metadata
+      }))
+    }
+  });
+});
@@ -166,7 +166,7 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
-// Batch deployment endpoint
+// Batch deployment endpoint; with ?dryRun=true only the deployment plan is returned
 export async function PUT(request: NextRequest) {
   try {
     const batchDeploySchema = z.object({
@@ -178,7 +178,9 @@ export async function PUT(request: NextRequest) {
       batchOptions: z.object({
         continueOnError: z.boolean().default(false),
         parallelExecution: z.boolean().default(true),
-        maxConcurrency: z.number().min(1).max(5).default(3)
+        maxConcurrency: z.number().min(1).max(5).default(3),
+        // Deploy even when the code analysis finds errors
+        overrideErrors: z.boolean().default(false)
       }).default({})
     });
 
@@ -187,6 +189,19 @@ export async function PUT(request: NextRequest) {
 
     const sfmcService = ServiceFactory.getService<SFMCIntegrationService>('sfmc');
 
+    if (request.nextUrl.searchParams.get('dryRun') === 'true') {
+      const plan = await sfmcService.planBatchDeploy({
+        connectionId: validatedData.connectionId,
+        deployments: validatedData.deployments,
+        batchOptions: validatedData.batchOptions
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: plan
+      }, { status: 200 });
+    }
+
     const result = await sfmcService.batchDeploy({
       connectionId: validatedData.connectionId,
       deployments: validatedData.deployments,
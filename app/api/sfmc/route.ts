@@ -18,7 +18,7 @@ export async function GET() {
       deployment: {
         POST: '/api/sfmc/deploy - Deploy cloud page or code resource',
         GET: '/api/sfmc/deploy - Get deployment status',
-        PUT: '/api/sfmc/deploy - Batch deployment',
+        PUT: '/api/sfmc/deploy - Batch deployment (?dryRun=true for the deployment plan)',
         DELETE: '/api/sfmc/deploy - Rollback deployment'
       }
     },
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useMemo, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -10,7 +10,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Code, Copy, Download, Settings, MessageSquare, Sparkles } from "lucide-react"
+import { Code, Copy, Download, Settings, MessageSquare, Sparkles, Rocket } from "lucide-react"
+import { DeploymentPlanReview, type BatchDeployment } from "@/components/deployment-plan-review"
 
 interface ConfigurationOptions {
   pageSettings: {
@@ -59,6 +60,15 @@ interface GeneratedOutput {
   testingGuidelines: string
 }
 
+// SFMC customer keys are at most 36 characters
+const toCustomerKey = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 36)
+
+const toResourceType = (type: string): "css" | "javascript" | "html" | "text" => {
+  const resourceType = type.toLowerCase()
+  return resourceType === "css" || resourceType === "javascript" || resourceType === "html" ? resourceType : "text"
+}
+
 export function CloudPagesGenerator() {
   const [configuration, setConfiguration] = useState<ConfigurationOptions>({
     pageSettings: {
@@ -88,6 +98,23 @@ export function CloudPagesGenerator() {
   const [generatedOutput, setGeneratedOutput] = useState<GeneratedOutput | null>(null)
   const [isGenerating, setIsGenerating] = useState(false)
   const [activeTab, setActiveTab] = useState("configuration")
+  const [connectionId, setConnectionId] = useState("")
+
+  const deployments = useMemo<BatchDeployment[]>(() => generatedOutput
+    ? [
+        ...generatedOutput.pages.map((page) => ({
+          cloudPage: { name: page.name, customerKey: toCustomerKey(page.name), content: { html: page.htmlCode } },
+        })),
+        ...generatedOutput.codeResources.map((resource) => ({
+          codeResource: {
+            name: resource.fileName,
+            customerKey: toCustomerKey(resource.fileName),
+            content: resource.code,
+            resourceType: toResourceType(resource.type),
+          },
+        })),
+      ]
+    : [], [generatedOutput])
 
   const handleGeneratePages = async () => {
     if (!currentPrompt.trim()) return
@@ -698,6 +725,31 @@ document.addEventListener('DOMContentLoaded', function() {
                   </Card>
                 )}
 
+                {/* Deployment */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <Rocket className="h-5 w-5 text-orange-500" />
+                      Deploy to SFMC
+                    </CardTitle>
+                    <CardDescription>
+                      Review what the deployment would create or change before confirming it.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="connection-id">Connection ID</Label>
+                      <Input
+                        id="connection-id"
+                        value={connectionId}
+                        onChange={(e) => setConnectionId(e.target.value)}
+                        placeholder="SFMC connection to deploy with"
+                      />
+                    </div>
+                    <DeploymentPlanReview connectionId={connectionId} deployments={deployments} />
+                  </CardContent>
+                </Card>
+
                 {/* Integration Notes */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <Card>
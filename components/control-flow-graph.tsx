@@ -0,0 +1,173 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { CartesianGrid, Cell, ReferenceLine, Scatter, ScatterChart, XAxis, YAxis, ZAxis } from "recharts"
+import { GitBranch } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ControlFlowBlock, ControlFlowGraph } from "@/types/debugging"
+import { complexityHotspots } from "@/services/debugging/control-flow"
+
+interface ControlFlowGraphViewProps {
+  graphs: ControlFlowGraph[]
+  // Called with the source line of a block or hotspot the user picks
+  onSelectLine?: (line: number) => void
+}
+
+interface BlockPoint {
+  x: number
+  y: number
+  z: number
+  block: ControlFlowBlock
+}
+
+const chartConfig = {
+  block: { label: "Block", color: "var(--chart-2)" },
+  hotspot: { label: "Hotspot", color: "var(--chart-1)" }
+} satisfies ChartConfig
+
+// Blocks adding this much cognitive complexity are drawn as hotspots
+const HOTSPOT_COMPLEXITY = 3
+
+/**
+ * Draws the control-flow graph of one function: blocks top to bottom in
+ * source order, indented by nesting, sized by the complexity they add.
+ * Clicking a block or a hotspot selects its line in the editor.
+ */
+export function ControlFlowGraphView({ graphs, onSelectLine }: ControlFlowGraphViewProps) {
+  // Start on the most complex function
+  const [selected, setSelected] = useState<number | null>(null)
+  const mostComplex = useMemo(
+    () => graphs.reduce((best, graph, index) => graph.cognitiveComplexity > graphs[best].cognitiveComplexity ? index : best, 0),
+    [graphs]
+  )
+  const graph = graphs[selected !== null && selected < graphs.length ? selected : mostComplex]
+  const hotspots = useMemo(() => complexityHotspots(graphs), [graphs])
+
+  const points = useMemo<BlockPoint[]>(() => {
+    if (!graph) return []
+    // Entry first and exit last; the blocks in between by line
+    const ordered = [...graph.blocks].sort((a, b) =>
+      rank(a) - rank(b) || a.line - b.line || a.id - b.id
+    )
+    return ordered.map((block, index) => ({ x: block.nesting, y: index, z: Math.max(1, block.complexity), block }))
+  }, [graph])
+
+  if (!graph) return null
+
+  const positions = new Map(points.map(point => [point.block.id, point]))
+  const edges = points.flatMap(point => point.block.successors.flatMap(successor => {
+    const target = positions.get(successor)
+    return target ? [{ from: point, to: target }] : []
+  }))
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <GitBranch className="h-4 w-4" />
+          <span className="font-medium">Control Flow</span>
+        </div>
+        {graphs.length > 1 && (
+          <Select value={String(graphs.indexOf(graph))} onValueChange={value => setSelected(Number(value))}>
+            <SelectTrigger className="h-8 w-48 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {graphs.map((candidate, index) => (
+                <SelectItem key={index} value={String(index)} className="text-xs">
+                  {candidate.name} ({candidate.language === "ssjs" ? "SSJS" : "AMPScript"}, line {candidate.line})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        <Badge variant="outline">Cyclomatic {graph.cyclomaticComplexity}</Badge>
+        <Badge variant="outline">Cognitive {graph.cognitiveComplexity}</Badge>
+        <Badge variant="outline">Nesting {graph.nestingDepth}</Badge>
+        <Badge variant="outline">{graph.blocks.length} blocks</Badge>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: Math.min(480, 80 + points.length * 28) }}>
+        <ScatterChart margin={{ top: 12, right: 24, bottom: 12, left: 24 }}>
+          <CartesianGrid vertical={false} strokeDasharray="3 3" />
+          <XAxis type="number" dataKey="x" hide domain={[-0.5, Math.max(2, graph.nestingDepth + 0.5)]} />
+          <YAxis type="number" dataKey="y" hide reversed domain={[-0.5, points.length - 0.5]} />
+          <ZAxis type="number" dataKey="z" range={[60, 360]} />
+          {edges.map(({ from, to }, index) => (
+            <ReferenceLine
+              key={index}
+              segment={[{ x: from.x, y: from.y }, { x: to.x, y: to.y }]}
+              stroke={to.y <= from.y ? "var(--color-hotspot)" : "var(--muted-foreground)"}
+              strokeOpacity={0.5}
+              strokeDasharray={to.y <= from.y ? "4 3" : undefined}
+              ifOverflow="visible"
+            />
+          ))}
+          <ChartTooltip
+            cursor={false}
+            content={({ active, payload }) => {
+              const point = active ? (payload?.[0]?.payload as BlockPoint | undefined) : undefined
+              if (!point) return null
+              const { block } = point
+              return (
+                <div className="border-border/50 bg-background grid min-w-[10rem] gap-1 rounded-lg border px-2.5 py-1.5 text-xs shadow-xl">
+                  <div className="font-mono font-medium">{block.label}</div>
+                  <div className="text-muted-foreground">
+                    {block.kind} · {block.line === block.endLine ? `line ${block.line}` : `lines ${block.line}-${block.endLine}`}
+                  </div>
+                  <div>Complexity +{block.complexity}, nesting {block.nesting}</div>
+                </div>
+              )
+            }}
+          />
+          <Scatter
+            data={points}
+            isAnimationActive={false}
+            className="cursor-pointer"
+            onClick={(point: { payload?: BlockPoint }) => point.payload && onSelectLine?.(point.payload.block.line)}
+          >
+            {points.map(point => (
+              <Cell
+                key={point.block.id}
+                fill={point.block.complexity >= HOTSPOT_COMPLEXITY ? "var(--color-hotspot)" : "var(--color-block)"}
+              />
+            ))}
+          </Scatter>
+        </ScatterChart>
+      </ChartContainer>
+
+      {hotspots.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-muted-foreground">Hotspots</div>
+          {hotspots.map(({ graph: owner, block }) => (
+            <Button
+              key={`${owner.name}-${owner.line}-${block.id}`}
+              variant="ghost"
+              size="sm"
+              className="h-auto w-full justify-between gap-2 px-2 py-1 text-xs"
+              onClick={() => onSelectLine?.(block.line)}
+            >
+              <span className="truncate font-mono">{block.label}</span>
+              <span className="flex shrink-0 items-center gap-2 text-muted-foreground">
+                {owner.name} · line {block.line}
+                <Badge variant={block.complexity >= HOTSPOT_COMPLEXITY ? "destructive" : "secondary"} className="text-xs">
+                  +{block.complexity}
+                </Badge>
+              </span>
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function rank(block: ControlFlowBlock): number {
+  return block.kind === "entry" ? 0 : block.kind === "exit" ? 2 : 1
+}
@@ -9,16 +9,24 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
 import { Separator } from "@/components/ui/separator"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Progress } from "@/components/ui/progress"
-import { Copy, Download, Bug, User, Bot, Loader2, Send, AlertCircle, CheckCircle, Clock, Zap, Settings, BarChart3, GitCompare, Eye, EyeOff } from "lucide-react"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Copy, Download, Bug, User, Bot, Loader2, Send, AlertCircle, CheckCircle, Clock, Zap, Settings, BarChart3, GitCompare, Eye, EyeOff, Upload, Play, AlignLeft, Flag } from "lucide-react"
 import { useRealTimeAnalysis } from "@/hooks/use-realtime-analysis"
-import type { CodeLanguage } from "@/types/debugging"
+import type { AnalysisBaseline, AnalysisLanguage, BaselineStatus, CodeAnalysisResult, DebugError, EmailBuildResult, ExecutionResult, FormattableLanguage } from "@/types/debugging"
+import type { FormattingOptions } from "@/types/session"
+import { applyFixes } from "@/services/debugging/fix-engine"
+import { FORMATTABLE_LANGUAGES, formatCode } from "@/services/debugging/code-formatter"
+import { exportAnalysisResult, type ReportFormat } from "@/services/debugging/report-exporters"
+import { compareWithBaseline } from "@/services/debugging/baseline"
 import ReactDiffViewer from 'react-diff-viewer-continued'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { oneDark, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism'
 import { useTheme } from "next-themes"
+import { ControlFlowGraphView } from "@/components/control-flow-graph"
 
 interface DebugMessage {
   id: string
@@ -41,6 +49,13 @@ interface CodeComparison {
     warningsFixed: number
     bestPracticesApplied: number
   }
+  // Issues with automatic fixes; when set, the optimized code is the original with the accepted fixes applied
+  fixes?: DebugError[]
+}
+
+// Safe fixes start out accepted; unsafe ones need an explicit opt-in
+function safeFixIndexes(fixes: DebugError[]): Set<number> {
+  return new Set(fixes.flatMap((issue, index) => (issue.fix?.kind === 'safe' ? [index] : [])))
 }
 
 interface LineError {
@@ -142,11 +157,59 @@ WHERE u.created_date > '2024-01-01'
   -- Intentional Error: Missing GROUP BY for aggregate function
   AND COUNT(p.purchase_id) > 5
 ORDER BY u.last_name;`,
+
+  cloudpage: `%%[
+SET @firstName = AttributeValue("FirstName")
+]%%
+<!DOCTYPE html>
+<html>
+<head>
+  <title>Preference Center</title>
+  <style>
+    h1 { color: #333 }
+  </style>
+</head>
+<body>
+  <h1>Hello %%=v(@firstName)=%%</h1>
+  <script runat="server">
+    Platform.Load("Core", "1.1.1");
+    // Intentional Error: @lastName is never set in AMPScript
+    var lastName = Variable.GetValue("@lastName");
+  </script>
+</body>
+</html>`,
+
+  email: `%%[ SET @firstName = AttributeValue("FirstName") ]%%
+<table role="presentation" width="100%">
+  <tr>
+    <td>Hi %%=v(@firstName)=%%</td>
+  </tr>
+</table>
+<!-- Intentional Error: email clients do not run JavaScript -->
+<script>
+  document.title = "Welcome";
+</script>`,
 }
 
+// Languages the /api/debug-code execute mode can run offline
+const RUNNABLE_LANGUAGES: AnalysisLanguage[] = ["ampscript", "ssjs"]
+
+const defaultMockContext = JSON.stringify({
+  attributes: { FirstName: "Jane", LastName: "Doe" },
+  personalizationStrings: { _subscriberkey: "SK-001", emailaddr: "jane.doe@example.com" },
+  dataExtensions: {
+    Orders: [
+      { SubscriberKey: "SK-001", OrderId: "1001", Total: 49.99, OrderDate: "2024-03-01" }
+    ]
+  },
+  requestParameters: {},
+  httpResponses: {},
+  soapObjects: {}
+}, null, 2)
+
 export function DebuggingTool() {
   const [code, setCode] = useState("")
-  const [language, setLanguage] = useState<CodeLanguage>("ampscript")
+  const [language, setLanguage] = useState<AnalysisLanguage>("ampscript")
   const [messages, setMessages] = useState<DebugMessage[]>([])
   const [isDebugging, setIsDebugging] = useState(false)
   const [followUpQuestion, setFollowUpQuestion] = useState("")
@@ -165,11 +228,114 @@ export function DebuggingTool() {
   const [showComparison, setShowComparison] = useState(false)
   const [lineErrors, setLineErrors] = useState<LineError[]>([])
   const [optimizedCode, setOptimizedCode] = useState("")
+  const [acceptedFixes, setAcceptedFixes] = useState<Set<number>>(new Set())
+  const [lastAnalysis, setLastAnalysis] = useState<CodeAnalysisResult | null>(null)
+
+  // Data Extension schemas used by SQL validation
+  const [dataExtensionSchemas, setDataExtensionSchemas] = useState<unknown[] | null>(null)
+  const [schemaError, setSchemaError] = useState<string | null>(null)
+  const [queryTarget, setQueryTarget] = useState("")
+
+  // Offline execution state
+  const [mockContext, setMockContext] = useState(defaultMockContext)
+  const [isRunning, setIsRunning] = useState(false)
+  const [executionResult, setExecutionResult] = useState<ExecutionResult | null>(null)
+  const [executionError, setExecutionError] = useState<string | null>(null)
+
+  // Email HTML with its CSS inlined, built from the optimized code
+  const [emailBuild, setEmailBuild] = useState<EmailBuildResult | null>(null)
+  const [isInlining, setIsInlining] = useState(false)
+  const [inlineError, setInlineError] = useState<string | null>(null)
+
+  // Formatter styles from the session's preferences; defaults until loaded
+  const [formattingPreferences, setFormattingPreferences] = useState<Partial<FormattingOptions>>()
+  const [formatError, setFormatError] = useState<string | null>(null)
+
+  // Baseline of the asset being edited; issues it already has are hidden by default
+  const [assetKey, setAssetKey] = useState("")
+  const [baseline, setBaseline] = useState<AnalysisBaseline | null>(null)
+  const [showNewIssuesOnly, setShowNewIssuesOnly] = useState(true)
+  const [baselineError, setBaselineError] = useState<string | null>(null)
   
   // Refs
   const codeTextareaRef = useRef<HTMLTextAreaElement>(null)
+  const schemaInputRef = useRef<HTMLInputElement>(null)
   const { theme } = useTheme()
 
+  // Apply the accepted fixes to the original code for the diff view
+  const fixPreview = useMemo(() => {
+    if (!codeComparison?.fixes) return null
+    const accepted = codeComparison.fixes.filter((_, index) => acceptedFixes.has(index))
+    const { code: fixedCode, applied, conflicts } = applyFixes(codeComparison.original, accepted)
+    return {
+      code: fixedCode,
+      conflicts: new Set(conflicts),
+      improvements: {
+        ...codeComparison.improvements,
+        errorsFix: applied.filter(issue => issue.severity === 'error').length,
+        warningsFixed: applied.filter(issue => issue.severity !== 'error').length
+      }
+    }
+  }, [codeComparison, acceptedFixes])
+
+  const comparedCode = fixPreview?.code ?? codeComparison?.optimized ?? ""
+
+  useEffect(() => {
+    fetch("/api/session/preferences")
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data?.success) setFormattingPreferences(data.data.codeFormatting)
+      })
+      .catch(() => {})
+  }, [])
+
+  useEffect(() => {
+    setFormatError(null)
+  }, [code, language])
+
+  useEffect(() => {
+    const key = assetKey.trim()
+    setBaseline(null)
+    setBaselineError(null)
+    if (!key) return
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      fetch(`/api/debug-code/baseline?assetKey=${encodeURIComponent(key)}`)
+        .then(response => response.ok ? response.json() : null)
+        .then(data => {
+          if (!cancelled) setBaseline(data?.data ?? null)
+        })
+        .catch(() => {})
+    }, 300)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [assetKey])
+
+  // The inlined HTML is stale as soon as the optimized code changes
+  useEffect(() => {
+    setEmailBuild(null)
+    setInlineError(null)
+  }, [comparedCode])
+
+  const toggleFix = (index: number, accepted: boolean) => {
+    setAcceptedFixes((prev) => {
+      const next = new Set(prev)
+      if (accepted) {
+        next.add(index)
+      } else {
+        next.delete(index)
+      }
+      return next
+    })
+  }
+
+  const acceptSafeFixes = () => {
+    setAcceptedFixes(safeFixIndexes(codeComparison?.fixes || []))
+  }
+
   // Generate session ID
   const sessionId = useMemo(() => `debug_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, [])
 
@@ -180,6 +346,7 @@ export function DebuggingTool() {
     performanceMetrics,
     bestPracticeViolations,
     error: analysisError,
+    lastAnalyzedCode,
     analyzeCode: analyzeCodeRealTime,
     validateSyntaxImmediate,
     hasErrors,
@@ -196,6 +363,24 @@ export function DebuggingTool() {
     enableBestPractices
   })
 
+  // Live issues labelled as new or existing against the asset's baseline
+  const baselineView = useMemo(() => {
+    if (!baseline || !result || baseline.language !== language) return null
+    return compareWithBaseline({
+      code: lastAnalyzedCode,
+      language,
+      errors: result.errors,
+      warnings: result.warnings,
+      bestPracticeViolations
+    }, baseline)
+  }, [baseline, result, bestPracticeViolations, lastAnalyzedCode, language])
+
+  const isShown = (issue: { baselineStatus?: BaselineStatus }) =>
+    !showNewIssuesOnly || issue.baselineStatus !== 'existing'
+  const shownErrors = (baselineView?.errors ?? result?.errors ?? []).filter(isShown)
+  const shownWarnings = (baselineView?.warnings ?? result?.warnings ?? []).filter(isShown)
+  const shownViolations = (baselineView?.bestPracticeViolations ?? bestPracticeViolations).filter(isShown)
+
   // Trigger real-time analysis when code changes
   useEffect(() => {
     if (enableRealTimeAnalysis && code.trim()) {
@@ -336,7 +521,9 @@ export function DebuggingTool() {
       'javascript': 'javascript',
       'sql': 'sql',
       'css': 'css',
-      'html': 'markup'
+      'html': 'markup',
+      'cloudpage': 'markup',
+      'email': 'markup'
     }
     return mapping[lang.toLowerCase()] || 'text'
   }
@@ -384,6 +571,22 @@ export function DebuggingTool() {
   }, [performanceMetrics, showPerformanceCharts])
 
   // Code comparison functionality
+  // Select a source line in the editor, leaving highlight mode since it has no textarea
+  const revealLine = useCallback((line: number) => {
+    setHighlightErrors(false)
+    requestAnimationFrame(() => {
+      const textarea = codeTextareaRef.current
+      if (!textarea) return
+      const lines = code.split('\n')
+      const start = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0)
+      const end = start + (lines[line - 1]?.length ?? 0)
+      textarea.focus()
+      textarea.setSelectionRange(start, end)
+      const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20
+      textarea.scrollTop = Math.max(0, (line - 3) * lineHeight)
+    })
+  }, [code])
+
   const generateOptimizedCode = useCallback(async (originalCode: string, analysisResult: any) => {
     try {
       const response = await fetch('/api/debug-code', {
@@ -394,7 +597,7 @@ export function DebuggingTool() {
         body: JSON.stringify({
           code: originalCode,
           language,
-          analysisLevel: 'optimization',
+          analysisLevel: 'best_practices',
           generateOptimized: true
         })
       })
@@ -452,7 +655,12 @@ export function DebuggingTool() {
           language: userMessage.language,
           conversationHistory: messages,
           generateOptimized: true,
-          analysisLevel: 'comprehensive'
+          analysisLevel: 'comprehensive',
+          assetKey: assetKey.trim() || undefined,
+          context: userMessage.language === "sql" && dataExtensionSchemas ? {
+            dataExtensions: dataExtensionSchemas,
+            queryTarget: queryTarget.trim() ? { dataExtension: queryTarget.trim() } : undefined
+          } : undefined
         }),
       })
 
@@ -473,8 +681,29 @@ export function DebuggingTool() {
 
       setMessages((prev) => [...prev, assistantMessage])
 
+      const analysisResult: CodeAnalysisResult | undefined = data.data
+      setLastAnalysis(analysisResult ?? null)
+      const fixes = analysisResult
+        ? [...analysisResult.errors, ...analysisResult.warnings, ...analysisResult.performanceIssues].filter(issue => issue.fix)
+        : []
+
       // Generate code comparison if optimized code is available
-      if (data.optimizedCode) {
+      if (fixes.length > 0) {
+        setCodeComparison({
+          original: originalCode,
+          optimized: analysisResult?.fixedCode ?? originalCode,
+          language,
+          improvements: {
+            performanceGain: 0,
+            errorsFix: 0,
+            warningsFixed: 0,
+            bestPracticesApplied: 0
+          },
+          fixes
+        })
+        setAcceptedFixes(safeFixIndexes(fixes))
+        setShowComparison(true)
+      } else if (data.optimizedCode) {
         setCodeComparison({
           original: originalCode,
           optimized: data.optimizedCode,
@@ -556,12 +785,113 @@ export function DebuggingTool() {
     }
   }
 
+  const handleRun = async () => {
+    if (!code.trim()) return
+
+    let parsedContext: unknown
+    try {
+      parsedContext = mockContext.trim() ? JSON.parse(mockContext) : undefined
+    } catch (error) {
+      setExecutionError(`Mock context is not valid JSON: ${error instanceof Error ? error.message : "parse error"}`)
+      return
+    }
+
+    setIsRunning(true)
+    setExecutionError(null)
+
+    try {
+      const response = await fetch("/api/debug-code", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          mode: "execute",
+          code,
+          language,
+          mockContext: parsedContext
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || "Failed to run code")
+      }
+
+      setExecutionResult(data.data)
+    } catch (error) {
+      setExecutionResult(null)
+      setExecutionError(error instanceof Error ? error.message : "Failed to run code")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const formatInput = () => {
+    const formatted = formatCode(code, language as FormattableLanguage, formattingPreferences)
+    if (formatted.skipped) {
+      setFormatError(`Not formatted: ${formatted.skipped}`)
+    } else if (formatted.changed) {
+      setCode(formatted.code)
+    }
+  }
+
+  const inlineEmailCss = async () => {
+    setIsInlining(true)
+    setInlineError(null)
+
+    try {
+      const response = await fetch("/api/debug-code/inline-css", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ html: comparedCode }),
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || "Failed to inline CSS")
+      }
+
+      setEmailBuild(data.data)
+    } catch (error) {
+      setEmailBuild(null)
+      setInlineError(error instanceof Error ? error.message : "Failed to inline CSS")
+    } finally {
+      setIsInlining(false)
+    }
+  }
+
+  const handleSchemaUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      try {
+        const parsed = JSON.parse(e.target?.result as string)
+        const schemas = Array.isArray(parsed) ? parsed : parsed?.dataExtensions
+        if (!Array.isArray(schemas)) {
+          throw new Error("Expected an array of Data Extensions")
+        }
+        setDataExtensionSchemas(schemas)
+        setSchemaError(null)
+      } catch (error) {
+        setDataExtensionSchemas(null)
+        setSchemaError(error instanceof Error ? error.message : "Invalid schema file")
+      }
+    }
+    reader.readAsText(file)
+  }
+
   const copyContent = (content: string) => {
     navigator.clipboard.writeText(content)
   }
 
-  const downloadContent = (content: string, filename = "debug-analysis.txt") => {
-    const blob = new Blob([content], { type: "text/plain" })
+  const downloadContent = (content: string, filename = "debug-analysis.txt", type = "text/plain") => {
+    const blob = new Blob([content], { type })
     const url = URL.createObjectURL(blob)
     const a = document.createElement("a")
     a.href = url
@@ -570,6 +900,35 @@ export function DebuggingTool() {
     URL.revokeObjectURL(url)
   }
 
+  const downloadReport = (format: ReportFormat) => {
+    if (!lastAnalysis) return
+    const report = exportAnalysisResult(lastAnalysis, format)
+    downloadContent(report.content, report.fileName, report.contentType)
+  }
+
+  // Record the issues of the last debug analysis as the asset's baseline
+  const saveBaseline = async () => {
+    const key = assetKey.trim()
+    if (!lastAnalysis || !key) return
+
+    setBaselineError(null)
+    try {
+      const response = await fetch("/api/debug-code/baseline", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ assetKey: key, result: lastAnalysis })
+      })
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to save baseline")
+      }
+      setBaseline(data.data)
+      setShowNewIssuesOnly(true)
+    } catch (error) {
+      setBaselineError(error instanceof Error ? error.message : "Failed to save baseline")
+    }
+  }
+
   const extractAnalysisAndCode = (markdown: string) => {
     const codeBlockRegex = /```(\w+)?\n([\s\S]*?)```/g
     const codeBlocks: { language: string; code: string }[] = []
@@ -609,7 +968,7 @@ export function DebuggingTool() {
         <CardContent className="flex-1 flex flex-col space-y-4 min-h-0">
           <div className="flex-shrink-0">
             <label className="text-sm font-medium mb-2 block">Code Language</label>
-            <Select value={language} onValueChange={setLanguage}>
+            <Select value={language} onValueChange={value => setLanguage(value as AnalysisLanguage)}>
               <SelectTrigger className="w-full sm:w-[200px]">
                 <SelectValue />
               </SelectTrigger>
@@ -620,14 +979,49 @@ export function DebuggingTool() {
                 <SelectItem value="css">CSS</SelectItem>
                 <SelectItem value="javascript">JavaScript</SelectItem>
                 <SelectItem value="sql">SQL</SelectItem>
+                <SelectItem value="cloudpage">CloudPage (mixed)</SelectItem>
+                <SelectItem value="email">Email (mixed)</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
+          {language === "sql" && (
+            <div className="flex-shrink-0 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => schemaInputRef.current?.click()}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Load DE schema
+                </Button>
+                {dataExtensionSchemas && (
+                  <Badge variant="secondary" className="text-xs">
+                    {dataExtensionSchemas.length} Data Extensions
+                  </Badge>
+                )}
+                <Input
+                  placeholder="Target Data Extension (optional)"
+                  value={queryTarget}
+                  onChange={(e) => setQueryTarget(e.target.value)}
+                  disabled={!dataExtensionSchemas}
+                  className="h-9 w-full sm:w-[260px]"
+                />
+                <input ref={schemaInputRef} type="file" accept=".json,application/json" onChange={handleSchemaUpload} className="hidden" />
+              </div>
+              {schemaError && (
+                <p className="text-xs text-destructive">{schemaError}</p>
+              )}
+            </div>
+          )}
+
           <div className="flex-1 flex flex-col min-h-0">
             <div className="flex items-center justify-between mb-2">
               <label className="text-sm font-medium">Code Input</label>
               <div className="flex items-center gap-4">
+                {FORMATTABLE_LANGUAGES.includes(language as FormattableLanguage) && (
+                  <Button variant="outline" size="sm" onClick={formatInput} disabled={!code.trim()}>
+                    <AlignLeft className="h-4 w-4 mr-2" />
+                    Format
+                  </Button>
+                )}
                 <div className="flex items-center space-x-2">
                   <Switch
                     id="line-numbers"
@@ -678,6 +1072,9 @@ export function DebuggingTool() {
                 </div>
               )}
             </div>
+            {formatError && (
+              <p className="text-xs text-destructive mt-2">{formatError}</p>
+            )}
           </div>
 
           <Button onClick={handleDebug} disabled={!code.trim() || isDebugging} className="flex-shrink-0">
@@ -687,6 +1084,122 @@ export function DebuggingTool() {
         </CardContent>
       </Card>
 
+      {/* Run Panel */}
+      {RUNNABLE_LANGUAGES.includes(language) && (
+        <Card className="flex flex-col">
+          <CardHeader className="flex-shrink-0">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <div className="h-2 w-2 bg-purple-500 rounded-full"></div>
+                <CardTitle>Run</CardTitle>
+                {executionResult && (
+                  <Badge variant={executionResult.completed ? "secondary" : "destructive"} className="text-xs">
+                    {executionResult.completed ? `Completed in ${executionResult.executionTime}ms` : "Stopped on error"}
+                  </Badge>
+                )}
+              </div>
+              <Button onClick={handleRun} disabled={!code.trim() || isRunning} size="sm">
+                {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+                {isRunning ? "Running..." : "Run"}
+              </Button>
+            </div>
+            <CardDescription>Execute the code offline against mock subscriber attributes and Data Extension rows</CardDescription>
+          </CardHeader>
+
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="mock-context" className="text-sm font-medium mb-2 block">Mock Context (JSON)</Label>
+              <Textarea
+                id="mock-context"
+                value={mockContext}
+                onChange={(e) => setMockContext(e.target.value)}
+                className="h-40 font-mono text-xs"
+              />
+            </div>
+
+            {executionError && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {executionError}
+              </div>
+            )}
+
+            {executionResult && (
+              <Tabs defaultValue="output" className="w-full">
+                <TabsList className="grid w-full grid-cols-4">
+                  <TabsTrigger value="output">Output</TabsTrigger>
+                  <TabsTrigger value="trace">Variables ({executionResult.trace.length})</TabsTrigger>
+                  <TabsTrigger value="calls">Calls ({executionResult.callLog?.length ?? 0})</TabsTrigger>
+                  <TabsTrigger value="errors">Errors ({executionResult.errors.length})</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="output" className="mt-2">
+                  {executionResult.redirectUrl && (
+                    <p className="text-xs text-muted-foreground mb-2">Redirected to {executionResult.redirectUrl}</p>
+                  )}
+                  <pre className="p-3 bg-muted/50 rounded-md text-sm whitespace-pre-wrap max-h-80 overflow-auto">
+                    {executionResult.output || "(no output)"}
+                  </pre>
+                </TabsContent>
+
+                <TabsContent value="trace" className="mt-2">
+                  <div className="max-h-80 overflow-auto space-y-1">
+                    {executionResult.trace.map((entry, index) => (
+                      <div key={index} className="flex items-center gap-3 text-sm font-mono">
+                        <span className="text-muted-foreground w-16">L{entry.line}:{entry.column}</span>
+                        <span className="font-semibold">{entry.variable}</span>
+                        <span className="truncate">= {entry.value}</span>
+                      </div>
+                    ))}
+                    {executionResult.trace.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No variables were set</p>
+                    )}
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="calls" className="mt-2">
+                  <div className="max-h-80 overflow-auto space-y-1">
+                    {executionResult.callLog?.map((call, index) => (
+                      <div key={index} className="flex items-center gap-3 text-sm font-mono">
+                        <span className="text-muted-foreground w-16">{call.line ? `L${call.line}:${call.column}` : ""}</span>
+                        <span className="truncate">{call.target}({call.args.join(", ")})</span>
+                      </div>
+                    ))}
+                    {!executionResult.callLog?.length && (
+                      <p className="text-sm text-muted-foreground">No platform calls were made</p>
+                    )}
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="errors" className="mt-2">
+                  <div className="space-y-2">
+                    {executionResult.errors.map(error => (
+                      <div key={error.id} className="p-3 border border-red-200 rounded-md bg-red-50 dark:bg-red-950/20">
+                        <div className="flex items-center gap-2 text-sm">
+                          <AlertCircle className="h-4 w-4 text-red-500" />
+                          <span className="font-medium">Line {error.line}, Column {error.column}</span>
+                          <Badge variant="outline" className="text-xs">{error.rule}</Badge>
+                        </div>
+                        <p className="text-sm mt-1">{error.message}</p>
+                        {error.fixSuggestion && (
+                          <p className="text-xs text-muted-foreground mt-1">{error.fixSuggestion}</p>
+                        )}
+                      </div>
+                    ))}
+                    {executionResult.errors.length === 0 && (
+                      <div className="flex items-center gap-2 text-sm text-green-600">
+                        <CheckCircle className="h-4 w-4" />
+                        No runtime errors
+                      </div>
+                    )}
+                  </div>
+                </TabsContent>
+              </Tabs>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Real-time Analysis Panel */}
       {showRealTimePanel && (
         <Card className="flex flex-col">
@@ -737,6 +1250,36 @@ export function DebuggingTool() {
               </div>
             </div>
 
+            {/* Baseline */}
+            <div className="flex flex-wrap items-center gap-4 p-3 bg-muted/50 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="asset-key" className="text-sm whitespace-nowrap">Asset</Label>
+                <Input
+                  id="asset-key"
+                  value={assetKey}
+                  onChange={(e) => setAssetKey(e.target.value)}
+                  placeholder="Asset id or customer key"
+                  className="h-8 w-56"
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="new-issues-only"
+                  checked={showNewIssuesOnly}
+                  onCheckedChange={setShowNewIssuesOnly}
+                  disabled={!baselineView}
+                />
+                <Label htmlFor="new-issues-only" className="text-sm">New issues only</Label>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {baselineView
+                  ? `${baselineView.baseline.newCount} new, ${baselineView.baseline.existingCount} existing, ${baselineView.baseline.fixed.length} fixed since ${new Date(baselineView.baseline.baselineCreatedAt).toLocaleDateString()}`
+                  : assetKey.trim()
+                    ? "No baseline for this asset; debug the code and save one"
+                    : "Set an asset to compare with its baseline"}
+              </div>
+            </div>
+
             {/* Analysis Status */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <div className="flex items-center gap-2 p-3 bg-background rounded-lg border">
@@ -818,20 +1361,28 @@ export function DebuggingTool() {
                     </div>
                   </div>
                 )}
+
+                {performanceMetrics.complexity.controlFlow && performanceMetrics.complexity.controlFlow.length > 0 && (
+                  <ControlFlowGraphView
+                    graphs={performanceMetrics.complexity.controlFlow}
+                    onSelectLine={revealLine}
+                  />
+                )}
               </div>
             )}
 
             {/* Errors and Warnings */}
-            {result && (result.errors.length > 0 || result.warnings.length > 0) && (
+            {(shownErrors.length > 0 || shownWarnings.length > 0) && (
               <div className="space-y-3">
                 <Separator />
                 <div className="space-y-2">
-                  {result.errors.map((error, index) => (
+                  {shownErrors.map((error, index) => (
                     <div key={index} className="flex items-start gap-2 p-3 bg-red-50 dark:bg-red-950/20 rounded-lg border border-red-200 dark:border-red-800">
                       <AlertCircle className="h-4 w-4 text-red-500 mt-0.5 flex-shrink-0" />
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2 mb-1">
                           <Badge variant="destructive" className="text-xs">Error</Badge>
+                          {error.baselineStatus === 'existing' && <Badge variant="outline" className="text-xs">Existing</Badge>}
                           <span className="text-xs text-muted-foreground">Line {error.line}</span>
                         </div>
                         <div className="text-sm font-medium">{error.message}</div>
@@ -844,12 +1395,13 @@ export function DebuggingTool() {
                     </div>
                   ))}
                   
-                  {result.warnings.map((warning, index) => (
+                  {shownWarnings.map((warning, index) => (
                     <div key={index} className="flex items-start gap-2 p-3 bg-yellow-50 dark:bg-yellow-950/20 rounded-lg border border-yellow-200 dark:border-yellow-800">
                       <AlertCircle className="h-4 w-4 text-yellow-500 mt-0.5 flex-shrink-0" />
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2 mb-1">
                           <Badge variant="secondary" className="text-xs">Warning</Badge>
+                          {warning.baselineStatus === 'existing' && <Badge variant="outline" className="text-xs">Existing</Badge>}
                           <span className="text-xs text-muted-foreground">Line {warning.line}</span>
                         </div>
                         <div className="text-sm font-medium">{warning.message}</div>
@@ -866,7 +1418,7 @@ export function DebuggingTool() {
             )}
 
             {/* Best Practice Violations */}
-            {enableBestPractices && bestPracticeViolations.length > 0 && (
+            {enableBestPractices && shownViolations.length > 0 && (
               <div className="space-y-3">
                 <Separator />
                 <div className="flex items-center gap-2">
@@ -874,12 +1426,13 @@ export function DebuggingTool() {
                   <span className="font-medium">Best Practice Violations</span>
                 </div>
                 <div className="space-y-2">
-                  {bestPracticeViolations.slice(0, 5).map((violation, index) => (
+                  {shownViolations.slice(0, 5).map((violation, index) => (
                     <div key={index} className="flex items-start gap-2 p-3 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-800">
                       <AlertCircle className="h-4 w-4 text-blue-500 mt-0.5 flex-shrink-0" />
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2 mb-1">
                           <Badge variant="outline" className="text-xs">{violation.category}</Badge>
+                          {violation.baselineStatus === 'existing' && <Badge variant="outline" className="text-xs">Existing</Badge>}
                           <span className="text-xs text-muted-foreground">Line {violation.line}</span>
                         </div>
                         <div className="text-sm font-medium">{violation.message}</div>
@@ -889,9 +1442,9 @@ export function DebuggingTool() {
                       </div>
                     </div>
                   ))}
-                  {bestPracticeViolations.length > 5 && (
+                  {shownViolations.length > 5 && (
                     <div className="text-xs text-muted-foreground text-center py-2">
-                      And {bestPracticeViolations.length - 5} more violations...
+                      And {shownViolations.length - 5} more violations...
                     </div>
                   )}
                 </div>
@@ -964,30 +1517,74 @@ export function DebuggingTool() {
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-muted/50 rounded-lg">
                 <div className="text-center">
                   <div className="text-lg font-bold text-green-600">
-                    +{codeComparison.improvements.performanceGain.toFixed(1)}%
+                    +{(fixPreview ?? codeComparison).improvements.performanceGain.toFixed(1)}%
                   </div>
                   <div className="text-xs text-muted-foreground">Performance</div>
                 </div>
                 <div className="text-center">
                   <div className="text-lg font-bold text-red-600">
-                    -{codeComparison.improvements.errorsFix}
+                    -{(fixPreview ?? codeComparison).improvements.errorsFix}
                   </div>
                   <div className="text-xs text-muted-foreground">Errors Fixed</div>
                 </div>
                 <div className="text-center">
                   <div className="text-lg font-bold text-yellow-600">
-                    -{codeComparison.improvements.warningsFixed}
+                    -{(fixPreview ?? codeComparison).improvements.warningsFixed}
                   </div>
                   <div className="text-xs text-muted-foreground">Warnings Fixed</div>
                 </div>
                 <div className="text-center">
                   <div className="text-lg font-bold text-blue-600">
-                    +{codeComparison.improvements.bestPracticesApplied}
+                    +{(fixPreview ?? codeComparison).improvements.bestPracticesApplied}
                   </div>
                   <div className="text-xs text-muted-foreground">Best Practices</div>
                 </div>
               </div>
 
+              {/* Automatic fixes, accepted or rejected one at a time */}
+              {codeComparison.fixes && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">
+                      Fixes ({acceptedFixes.size} of {codeComparison.fixes.length} accepted)
+                    </span>
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="sm" onClick={acceptSafeFixes}>
+                        Accept safe
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setAcceptedFixes(new Set())}>
+                        Reject all
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="max-h-48 overflow-y-auto border rounded-lg divide-y">
+                    {codeComparison.fixes.map((issue, index) => (
+                      <div key={`${issue.id}_${index}`} className="flex items-start gap-3 p-2 text-sm">
+                        <Checkbox
+                          id={`fix_${index}`}
+                          checked={acceptedFixes.has(index)}
+                          onCheckedChange={(checked) => toggleFix(index, checked === true)}
+                          className="mt-0.5"
+                        />
+                        <Label htmlFor={`fix_${index}`} className="flex-1 flex-col items-start gap-0.5 font-normal">
+                          <div>
+                            {issue.fix?.description}
+                            <span className="text-muted-foreground"> · Line {issue.line} · {issue.rule}</span>
+                          </div>
+                          <div className="text-xs text-muted-foreground">{issue.message}</div>
+                          {fixPreview?.conflicts.has(issue) && (
+                            <div className="text-xs text-yellow-600">Overlaps another accepted fix and was not applied</div>
+                          )}
+                        </Label>
+                        <Badge variant={issue.fix?.kind === 'safe' ? 'secondary' : 'outline'}>
+                          {issue.fix?.kind}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Code Diff Viewer */}
               <div className="border rounded-lg overflow-hidden">
                 <Tabs defaultValue="diff" className="w-full">
@@ -1003,7 +1600,7 @@ export function DebuggingTool() {
                   <TabsContent value="diff" className="mt-0">
                     <ReactDiffViewer
                       oldValue={codeComparison.original}
-                      newValue={codeComparison.optimized}
+                      newValue={comparedCode}
                       splitView={true}
                       useDarkTheme={theme === 'dark'}
                       leftTitle="Original Code"
@@ -1039,10 +1636,21 @@ export function DebuggingTool() {
                       <div className="flex justify-between items-center mb-2">
                         <span className="text-sm font-medium">Optimized Code</span>
                         <div className="flex gap-2">
+                          {(codeComparison.language === 'html' || codeComparison.language === 'email') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={inlineEmailCss}
+                              disabled={isInlining || !comparedCode.trim()}
+                            >
+                              {isInlining ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Zap className="h-3 w-3 mr-1" />}
+                              Inline CSS
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => copyContent(codeComparison.optimized)}
+                            onClick={() => copyContent(comparedCode)}
                           >
                             <Copy className="h-3 w-3 mr-1" />
                             Copy
@@ -1050,7 +1658,7 @@ export function DebuggingTool() {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => downloadContent(codeComparison.optimized, `optimized-${codeComparison.language}.txt`)}
+                            onClick={() => downloadContent(comparedCode, `optimized-${codeComparison.language}.txt`)}
                           >
                             <Download className="h-3 w-3 mr-1" />
                             Download
@@ -1063,8 +1671,61 @@ export function DebuggingTool() {
                         showLineNumbers={true}
                         customStyle={{ margin: 0, fontSize: '14px' }}
                       >
-                        {codeComparison.optimized}
+                        {comparedCode}
                       </SyntaxHighlighter>
+
+                      {inlineError && (
+                        <p className="mt-2 text-xs text-destructive">{inlineError}</p>
+                      )}
+
+                      {/* Email-ready HTML with the CSS inlined */}
+                      {emailBuild && (
+                        <div className="mt-4 space-y-2">
+                          <div className="flex justify-between items-center">
+                            <span className="text-sm font-medium">Inlined HTML</span>
+                            <div className="flex gap-2">
+                              <Button variant="ghost" size="sm" onClick={() => copyContent(emailBuild.html)}>
+                                <Copy className="h-3 w-3 mr-1" />
+                                Copy
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => downloadContent(emailBuild.html, "email-inlined.html", "text/html")}
+                              >
+                                <Download className="h-3 w-3 mr-1" />
+                                Download
+                              </Button>
+                            </div>
+                          </div>
+                          <div className="space-y-1">
+                            <div className="flex justify-between text-xs text-muted-foreground">
+                              <span>
+                                {(emailBuild.size.bytes / 1024).toFixed(1)} KB of {emailBuild.size.limit / 1024} KB before Gmail clips the message
+                              </span>
+                              <Badge variant={emailBuild.size.clipped ? "destructive" : "secondary"}>
+                                {emailBuild.size.clipped ? "Clipped in Gmail" : "Under Gmail limit"}
+                              </Badge>
+                            </div>
+                            <Progress value={Math.min((emailBuild.size.bytes / emailBuild.size.limit) * 100, 100)} />
+                            <div className="text-xs text-muted-foreground">
+                              {emailBuild.inlinedRules} rules inlined into {emailBuild.styledElements} elements
+                              {emailBuild.headRules > 0 && ` · ${emailBuild.headRules} kept in <head> (media queries, :hover, ...)`}
+                            </div>
+                            {emailBuild.issues.map((issue) => (
+                              <div key={issue.id} className="text-xs text-yellow-600">{issue.message}</div>
+                            ))}
+                          </div>
+                          <SyntaxHighlighter
+                            language={mapLanguageForPrism("html")}
+                            style={theme === 'dark' ? oneDark : oneLight}
+                            showLineNumbers={true}
+                            customStyle={{ margin: 0, fontSize: '14px' }}
+                          >
+                            {emailBuild.html}
+                          </SyntaxHighlighter>
+                        </div>
+                      )}
                     </div>
                   </TabsContent>
                 </Tabs>
@@ -1076,11 +1737,32 @@ export function DebuggingTool() {
 
       <Card className="flex flex-col">
         <CardHeader className="flex-shrink-0">
-          <CardTitle className="flex items-center gap-2">
-            <div className="h-2 w-2 bg-orange-500 rounded-full"></div>
-            Debug Analysis
-          </CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <div className="h-2 w-2 bg-orange-500 rounded-full"></div>
+              Debug Analysis
+            </CardTitle>
+            {lastAnalysis && (
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" onClick={() => downloadReport("sarif")}>
+                  <Download className="h-3 w-3 mr-1" />
+                  SARIF
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => downloadReport("junit")}>
+                  <Download className="h-3 w-3 mr-1" />
+                  JUnit
+                </Button>
+                <Button variant="ghost" size="sm" onClick={saveBaseline} disabled={!assetKey.trim()} title="Record these issues as the asset's baseline">
+                  <Flag className="h-3 w-3 mr-1" />
+                  Set Baseline
+                </Button>
+              </div>
+            )}
+          </div>
           <CardDescription>Conversational debugging with context awareness</CardDescription>
+          {baselineError && (
+            <p className="text-xs text-destructive">{baselineError}</p>
+          )}
         </CardHeader>
 
         <CardContent className="flex flex-col space-y-4">
@@ -0,0 +1,182 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { AlertTriangle, CheckCircle2, ClipboardList, Rocket } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import type { DeploymentPlan, DeploymentPlanAction, DeploymentPlanItem } from "@/types/sfmc"
+
+// One entry of a batch deployment, as PUT /api/sfmc/deploy takes it
+export type BatchDeployment =
+  | { cloudPage: { name: string; customerKey: string; content: { html: string } } }
+  | { codeResource: { name: string; customerKey: string; content: string; resourceType: "css" | "javascript" | "text" | "html" } }
+
+interface DeploymentPlanReviewProps {
+  connectionId: string
+  deployments: BatchDeployment[]
+}
+
+interface BatchResult {
+  successfulDeployments: number
+  failedDeployments: number
+}
+
+const actionVariants: Record<DeploymentPlanAction, "default" | "secondary" | "outline"> = {
+  create: "default",
+  update: "secondary",
+  unchanged: "outline"
+}
+
+export function DeploymentPlanReview({ connectionId, deployments }: DeploymentPlanReviewProps) {
+  const [plan, setPlan] = useState<DeploymentPlan | null>(null)
+  const [overrideErrors, setOverrideErrors] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<BatchResult | null>(null)
+
+  // A plan only holds for the content it was made for
+  useEffect(() => {
+    setPlan(null)
+  }, [connectionId, deployments])
+
+  const requestBatch = async (dryRun: boolean) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/sfmc/deploy${dryRun ? "?dryRun=true" : ""}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ connectionId, deployments, batchOptions: { overrideErrors } }),
+      })
+      const body = await response.json()
+      if (!response.ok || !body.success) {
+        throw new Error(body.error?.message ?? body.error ?? "Request failed")
+      }
+
+      if (dryRun) {
+        setPlan(body.data)
+        setResult(null)
+      } else {
+        setResult(body.data)
+        setPlan(null)
+      }
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : "Request failed")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // The plan was made with the override as it was then; recheck against the current switch
+  const withErrors = plan?.items.filter((item) => (item.analysis?.errors.length ?? 0) > 0) ?? []
+  const canConfirm = plan !== null && (withErrors.length === 0 || overrideErrors)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Switch id="override-errors" checked={overrideErrors} onCheckedChange={setOverrideErrors} />
+          <Label htmlFor="override-errors">Deploy despite code analysis errors</Label>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => requestBatch(true)}
+            disabled={isLoading || !connectionId || deployments.length === 0}
+          >
+            <ClipboardList className="mr-2 h-4 w-4" />
+            Review Plan
+          </Button>
+          <Button size="sm" onClick={() => requestBatch(false)} disabled={isLoading || !canConfirm}>
+            <Rocket className="mr-2 h-4 w-4" />
+            Confirm Deployment
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <p className="flex items-center gap-2 text-sm">
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+          {result.successfulDeployments} deployed, {result.failedDeployments} failed
+        </p>
+      )}
+
+      {plan && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Badge>{plan.summary.create} to create</Badge>
+            <Badge variant="secondary">{plan.summary.update} to update</Badge>
+            <Badge variant="outline">{plan.summary.unchanged} unchanged</Badge>
+            {withErrors.length > 0 && (
+              <Badge variant="destructive">
+                {withErrors.length} with errors{overrideErrors ? " (overridden)" : ", blocked"}
+              </Badge>
+            )}
+          </div>
+          {plan.items.map((item) => (
+            <PlanItem key={item.index} item={item} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function PlanItem({ item }: { item: DeploymentPlanItem }) {
+  const changedLines = item.diff.lines.filter((line) => line.type !== "unchanged")
+  const errors = item.analysis?.errors ?? []
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant={actionVariants[item.action]}>{item.action}</Badge>
+        <span className="text-sm font-medium">{item.name}</span>
+        <span className="text-xs text-gray-500">
+          {item.assetKey} · {item.assetType}
+        </span>
+        {item.action !== "unchanged" && (
+          <span className="text-xs">
+            <span className="text-green-600">+{item.diff.added}</span>{" "}
+            <span className="text-red-600">-{item.diff.removed}</span>
+          </span>
+        )}
+      </div>
+
+      {item.diff.metadataChanges.length > 0 && (
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          Changes {item.diff.metadataChanges.map((change) => change.field).join(", ")}
+        </p>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="space-y-1">
+          {errors.map((issue) => (
+            <li key={issue.id} className="flex items-start gap-2 text-xs text-red-600">
+              <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+              Line {issue.line}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {changedLines.length > 0 && (
+        <pre className="bg-gray-900 dark:bg-gray-800 text-xs p-3 rounded-lg overflow-x-auto max-h-64 overflow-y-auto">
+          {changedLines.map((line, index) => (
+            <div key={index} className={line.type === "added" ? "text-green-400" : "text-red-400"}>
+              {line.type === "added" ? `+${line.newLine}` : `-${line.oldLine}`}
+              {"\t"}
+              {line.text}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  )
+}
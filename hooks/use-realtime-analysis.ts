@@ -1,11 +1,12 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { 
-  CodeLanguage, 
+  AnalysisLanguage, 
   LiveAnalysisResult, 
   PerformanceMetrics, 
   BestPracticeViolation,
   RealTimeAnalysisConfig 
 } from '../types/debugging'
+import { computeTextDelta } from '../services/debugging/text-deltas'
 
 interface UseRealTimeAnalysisOptions {
   sessionId: string
@@ -36,6 +37,8 @@ export function useRealTimeAnalysis(options: UseRealTimeAnalysisOptions) {
 
   const abortControllerRef = useRef<AbortController | null>(null)
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null)
+  // Last text sent for the session, so edits can be sent as deltas
+  const documentRef = useRef<{ text: string, language: AnalysisLanguage, version: number } | null>(null)
 
   // Configuration
   const config: RealTimeAnalysisConfig = {
@@ -45,12 +48,51 @@ export function useRealTimeAnalysis(options: UseRealTimeAnalysisOptions) {
     enableBestPractices: options.enableBestPractices ?? true
   }
 
+  /**
+   * Posts the code as deltas against the text sent before, or whole when
+   * there is none or the server no longer has it (409)
+   */
+  const postAnalysis = useCallback(async (
+    code: string,
+    language: AnalysisLanguage,
+    analysisType: 'syntax' | 'performance' | 'best_practices' | 'comprehensive',
+    signal?: AbortSignal
+  ) => {
+    const send = (document: object) => fetch('/api/debug-realtime', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...document,
+        language,
+        sessionId: options.sessionId,
+        analysisType,
+        config
+      }),
+      signal
+    })
+
+    const previous = documentRef.current
+    const version = (previous?.version ?? 0) + 1
+    documentRef.current = { text: code, language, version }
+
+    if (previous && previous.language === language) {
+      const response = await send({ deltas: computeTextDelta(previous.text, code), baseVersion: previous.version, version })
+      if (response.status !== 409) {
+        return response
+      }
+    }
+
+    return send({ code, version })
+  }, [options.sessionId, config])
+
   /**
    * Performs real-time analysis with debouncing
    */
   const analyzeCode = useCallback(async (
     code: string, 
-    language: CodeLanguage,
+    language: AnalysisLanguage,
     analysisType: 'syntax' | 'performance' | 'best_practices' | 'comprehensive' = 'comprehensive'
   ) => {
     // Clear existing debounce timer
@@ -76,20 +118,7 @@ export function useRealTimeAnalysis(options: UseRealTimeAnalysisOptions) {
         // Create new abort controller
         abortControllerRef.current = new AbortController()
 
-        const response = await fetch('/api/debug-realtime', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            code,
-            language,
-            sessionId: options.sessionId,
-            analysisType,
-            config
-          }),
-          signal: abortControllerRef.current.signal
-        })
+        const response = await postAnalysis(code, language, analysisType, abortControllerRef.current.signal)
 
         if (!response.ok) {
           const errorData = await response.json()
@@ -125,28 +154,16 @@ export function useRealTimeAnalysis(options: UseRealTimeAnalysisOptions) {
         }))
       }
     }, config.debounceMs)
-  }, [options.sessionId, config])
+  }, [postAnalysis, config])
 
   /**
    * Performs immediate syntax validation without debouncing
    */
-  const validateSyntaxImmediate = useCallback(async (code: string, language: CodeLanguage) => {
+  const validateSyntaxImmediate = useCallback(async (code: string, language: AnalysisLanguage) => {
     try {
       setState(prev => ({ ...prev, error: null }))
 
-      const response = await fetch('/api/debug-realtime', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          code,
-          language,
-          sessionId: options.sessionId,
-          analysisType: 'syntax',
-          config
-        })
-      })
+      const response = await postAnalysis(code, language, 'syntax')
 
       if (!response.ok) {
         const errorData = await response.json()
@@ -168,7 +185,7 @@ export function useRealTimeAnalysis(options: UseRealTimeAnalysisOptions) {
       }))
       return []
     }
-  }, [options.sessionId, config])
+  }, [postAnalysis])
 
   /**
    * Gets cached analysis result
@@ -207,6 +224,7 @@ export function useRealTimeAnalysis(options: UseRealTimeAnalysisOptions) {
       await fetch(`/api/debug-realtime?sessionId=${options.sessionId}`, {
         method: 'DELETE'
       })
+      documentRef.current = null
 
       setState({
         isAnalyzing: false,
@@ -1,6 +1,7 @@
 import { CacheManager, CacheOptions } from './cache-manager';
 import { Logger } from '../../utils/logging/logger';
 import { DataExtension, SFMCAsset } from '../../types/sfmc';
+import type { SoapObjectDefinition } from '../sfmc/soap-response';
 
 export interface SFMCCacheEntry<T = any> {
   data: T;
@@ -116,6 +117,47 @@ export class SFMCDataCache {
     }
   }
 
+  async getObjectDefinition(instanceId: string, objectType: string): Promise<SoapObjectDefinition | null> {
+    try {
+      const cacheKey = `object_definition:${instanceId}:${objectType}`;
+      const cached = await this.cacheManager.get<SFMCCacheEntry<SoapObjectDefinition>>(cacheKey, {
+        namespace: this.NAMESPACE
+      });
+
+      if (cached) {
+        this.logger.debug('SFMC object definition cache hit', { instanceId, objectType });
+        return cached.data;
+      }
+
+      return null;
+    } catch (error) {
+      this.logger.error('Failed to get cached object definition', error);
+      return null;
+    }
+  }
+
+  async cacheObjectDefinition(instanceId: string, objectType: string, definition: SoapObjectDefinition): Promise<void> {
+    try {
+      const cacheKey = `object_definition:${instanceId}:${objectType}`;
+      const cacheEntry: SFMCCacheEntry<SoapObjectDefinition> = {
+        data: definition,
+        lastModified: new Date().toISOString(),
+        instanceId,
+        endpoint: 'Service.asmx#Describe'
+      };
+
+      // Object definitions only change when attributes are added to the account
+      await this.cacheManager.set(cacheKey, cacheEntry, {
+        namespace: this.NAMESPACE,
+        ttl: this.LONG_TTL
+      });
+
+      this.logger.info('SFMC object definition cached', { instanceId, objectType });
+    } catch (error) {
+      this.logger.error('Failed to cache object definition', error);
+    }
+  }
+
   async getAuthToken(instanceId: string): Promise<string | null> {
     try {
       const cacheKey = `auth_token:${instanceId}`;
@@ -200,6 +242,19 @@ export class SFMCDataCache {
     }
   }
 
+  async invalidateObjectDefinition(instanceId: string, objectType: string): Promise<void> {
+    try {
+      const cacheKey = `object_definition:${instanceId}:${objectType}`;
+      await this.cacheManager.delete(cacheKey, {
+        namespace: this.NAMESPACE
+      });
+
+      this.logger.info('Invalidated object definition cache', { instanceId, objectType });
+    } catch (error) {
+      this.logger.error('Failed to invalidate object definition cache', error);
+    }
+  }
+
   async invalidateAuthToken(instanceId: string): Promise<void> {
     try {
       const cacheKey = `auth_token:${instanceId}`;
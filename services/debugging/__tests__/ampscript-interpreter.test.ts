@@ -0,0 +1,158 @@
+import { AMPScriptInterpreter } from '../runtime/ampscript-interpreter'
+import { ExecutionContext } from '../../../types/debugging'
+
+describe('AMPScriptInterpreter', () => {
+  let interpreter: AMPScriptInterpreter
+
+  const context: ExecutionContext = {
+    attributes: { FirstName: 'ada', 'Member Tier': 'Gold' },
+    personalizationStrings: { _subscriberkey: 'SK-1', emailaddr: 'ada@example.com' },
+    dataExtensions: {
+      Orders: [
+        { SubscriberKey: 'SK-1', OrderId: 'A1', Total: 20, OrderDate: '2024-03-01' },
+        { SubscriberKey: 'SK-1', OrderId: 'A2', Total: 45.5, OrderDate: '2024-03-05' },
+        { SubscriberKey: 'SK-2', OrderId: 'B1', Total: 10, OrderDate: '2024-02-11' }
+      ]
+    },
+    now: '2024-03-10T09:30:00Z'
+  }
+
+  beforeEach(() => {
+    interpreter = new AMPScriptInterpreter()
+  })
+
+  it('should render content, personalization strings and inline output', () => {
+    const result = interpreter.execute(
+      '%%[ SET @name = ProperCase(FirstName) ]%%<p>Hi %%=v(@name)=%% (%%emailaddr%%), tier %%=Uppercase([Member Tier])=%%</p>',
+      context
+    )
+
+    expect(result.errors).toEqual([])
+    expect(result.completed).toBe(true)
+    expect(result.output).toBe('<p>Hi Ada (ada@example.com), tier GOLD</p>')
+  })
+
+  it('should trace every assignment with its location', () => {
+    const result = interpreter.execute('%%[\nVAR @total\nSET @total = 0\nFOR @i = 1 TO 3 DO\n  SET @total = Add(@total, @i)\nNEXT @i\n]%%', context)
+
+    expect(result.trace.filter(entry => entry.variable === '@total').map(entry => entry.value)).toEqual(['0', '1', '3', '6'])
+    expect(result.trace[0]).toMatchObject({ line: 3, column: 1 })
+  })
+
+  it('should read rows from mock Data Extensions', () => {
+    const code = [
+      '%%[',
+      'SET @rows = LookupOrderedRows("Orders", 0, "OrderDate DESC", "SubscriberKey", _subscriberkey)',
+      'FOR @i = 1 TO RowCount(@rows) DO',
+      '  SET @row = Row(@rows, @i)',
+      ']%%%%=Field(@row, "OrderId")=%%:%%=FormatNumber(Field(@row, "Total"), "N2")=%%;%%[',
+      'NEXT @i',
+      'SET @last = Lookup("Orders", "OrderDate", "OrderId", "a2")',
+      ']%%%%=FormatDate(DateAdd(@last, 1, "M"), "MMMM d, yyyy")=%%'
+    ].join('\n')
+
+    const result = interpreter.execute(code, context)
+
+    expect(result.errors).toEqual([])
+    expect(result.output).toBe('A2:45.50;A1:20.00;April 5, 2024')
+    expect(result.trace.find(entry => entry.variable === '@rows')?.value).toBe('[Rowset: 2 rows]')
+  })
+
+  it('should clamp month and year additions to the end of the target month', () => {
+    const result = interpreter.execute(
+      '%%=FormatDate(DateAdd("2024-01-31", 1, "M"), "M/d/yyyy")=%%;%%=FormatDate(DateAdd("2024-02-29", 1, "Y"), "M/d/yyyy")=%%;' +
+        '%%=FormatDate(DateAdd("2024-03-31", -1, "M"), "M/d/yyyy")=%%',
+      context
+    )
+
+    expect(result.errors).toEqual([])
+    expect(result.output).toBe('2/29/2024;2/28/2025;2/29/2024')
+  })
+
+  it('should apply writes to a copy of the mock rows', () => {
+    const result = interpreter.execute(
+      '%%[ UpsertData("Orders", 1, "OrderId", "A1", "Total", 99) InsertData("Orders", "OrderId", "C1", "Total", 5) DeleteData("Orders", "SubscriberKey", "SK-2") ]%%',
+      context
+    )
+
+    expect(result.dataExtensions.Orders.map(row => `${row.OrderId}=${row.Total}`)).toEqual(['A1=99', 'A2=45.5', 'C1=5'])
+    expect(context.dataExtensions!.Orders).toHaveLength(3)
+  })
+
+  it('should evaluate conditions with AMPScript comparison rules', () => {
+    const result = interpreter.execute(
+      '%%[ IF [Member Tier] == "GOLD" AND Now() > "3/9/2024" THEN ]%%vip%%[ ELSEIF Empty(@x) THEN ]%%empty%%[ ELSE ]%%other%%[ ENDIF ]%%',
+      context
+    )
+
+    expect(result.output).toBe('vip')
+  })
+
+  it('should stop at the first runtime error and report where it happened', () => {
+    const result = interpreter.execute('Before\n%%[ SET @x = Divide(10, 0) ]%%After', context)
+
+    expect(result.completed).toBe(false)
+    expect(result.output).toBe('Before\n')
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0]).toMatchObject({
+      line: 2,
+      column: 14,
+      rule: 'ampscript-runtime-error',
+      category: 'runtime',
+      message: 'Divide: division by zero'
+    })
+  })
+
+  it('should report missing attributes, Data Extensions and offline-only functions', () => {
+    const missingAttribute = interpreter.execute('%%=v(LastName)=%%', context)
+    const missingDataExtension = interpreter.execute('%%[ SET @r = LookupRows("Missing", "Id", 1) ]%%', context)
+    const unsupported = interpreter.execute('%%[ SET @r = HTTPGet("https://example.com") ]%%', context)
+    const lenient = interpreter.execute('%%=v(AttributeValue("LastName"))=%%', context)
+
+    expect(missingAttribute.errors[0].rule).toBe('ampscript-runtime-unknown-attribute')
+    expect(missingDataExtension.errors[0].rule).toBe('ampscript-runtime-missing-data-extension')
+    expect(unsupported.errors[0]).toMatchObject({ rule: 'ampscript-runtime-unsupported', column: 14 })
+    expect(lenient.errors).toEqual([])
+  })
+
+  it('should not run scripts that fail to parse', () => {
+    const result = interpreter.execute('%%[ IF @x == 1 THEN SET @y = 2 ]%%', context)
+
+    expect(result.completed).toBe(false)
+    expect(result.trace).toEqual([])
+    expect(result.errors[0].rule).toBe('ampscript-block-structure')
+  })
+
+  it('should stop runaway loops', () => {
+    const result = new AMPScriptInterpreter({ maxIterations: 50 }).execute('%%[ FOR @i = 1 TO 1000 DO SET @x = @i NEXT @i ]%%', context)
+
+    expect(result.errors[0]).toMatchObject({ rule: 'ampscript-runtime-limit' })
+  })
+
+  it('should stop regular expressions that backtrack past the time budget', () => {
+    const started = Date.now()
+    const result = new AMPScriptInterpreter({ timeoutMs: 100 })
+      .execute(`%%[ SET @m = RegExMatch("${'a'.repeat(40)}!", "(a+)+$", 0) ]%%`, context)
+
+    expect(result.errors[0]).toMatchObject({ rule: 'ampscript-timeout', line: 1 })
+    expect(Date.now() - started).toBeLessThan(2000)
+    expect(interpreter.execute('%%=RegExMatch("order-42", "(\\d+)", 1)=%%', context).output).toBe('42')
+  })
+
+  it('should refuse to build strings longer than the limit', () => {
+    const result = new AMPScriptInterpreter({ maxStringLength: 1000 }).execute('%%=Char(65, 100000000)=%%', context)
+
+    expect(result.errors[0]).toMatchObject({ rule: 'ampscript-runtime-limit' })
+  })
+
+  it('should render TreatAsContent and stop at Redirect', () => {
+    const result = interpreter.execute(
+      '%%[ SET @tpl = "Hello %%=v(@n)=%%" SET @n = "Ada" ]%%%%=TreatAsContent(@tpl)=%%%%[ Redirect(CloudPagesURL(42, "sk", _subscriberkey)) ]%%ignored',
+      context
+    )
+
+    expect(result.output).toBe('Hello Ada')
+    expect(result.redirectUrl).toBe('https://cloud.mock.exacttarget.com/42?sk=SK-1')
+    expect(result.completed).toBe(true)
+  })
+})
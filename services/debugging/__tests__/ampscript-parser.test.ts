@@ -0,0 +1,141 @@
+import { parseAMPScript } from '../parsers/ampscript-parser'
+import { tokenizeAMPScript } from '../parsers/ampscript-lexer'
+import { IfStatementNode, SetStatementNode, ForStatementNode } from '../parsers/ampscript-ast'
+
+describe('AMPScript parser', () => {
+  describe('tokenizer', () => {
+    it('should split content, blocks and inline expressions', () => {
+      const { tokens, regions, diagnostics } = tokenizeAMPScript('<p>Hi %%=v(@name)=%%</p>%%[ SET @a = 1 ]%%')
+
+      expect(diagnostics).toHaveLength(0)
+      expect(tokens.map(t => t.type)).toEqual([
+        'content', 'inlineOpen', 'identifier', 'lparen', 'variable', 'rparen', 'inlineClose',
+        'content', 'blockOpen', 'keyword', 'variable', 'operator', 'number', 'blockClose', 'eof'
+      ])
+      expect(regions.map(r => r.kind)).toEqual(['inline', 'block'])
+    })
+
+    it('should treat code without delimiters as a script block', () => {
+      const { tokens } = tokenizeAMPScript('SET @a = "x"')
+
+      expect(tokens[0]).toMatchObject({ type: 'keyword', value: 'SET' })
+      expect(tokens[2]).toMatchObject({ type: 'operator', value: '=' })
+    })
+
+    it('should treat markup and personalization strings without delimiters as content', () => {
+      expect(parseAMPScript('<p>Hello %%FirstName%%</p>').diagnostics).toEqual([])
+      expect(parseAMPScript('Hello %%FirstName%%').diagnostics).toEqual([])
+      expect(tokenizeAMPScript('SET @a = 1', false).tokens.map(t => t.type)).toEqual(['content', 'eof'])
+    })
+
+    it('should unescape doubled quotes in strings', () => {
+      const { tokens } = tokenizeAMPScript('SET @a = "say ""hi"""')
+
+      expect(tokens[3]).toMatchObject({ type: 'string', value: 'say "hi"' })
+    })
+
+    it('should report unclosed blocks at the opening delimiter', () => {
+      const { diagnostics } = tokenizeAMPScript('<p>\n%%[ SET @a = 1\n')
+      const unclosed = diagnostics.find(d => d.rule === 'ampscript-delimiters')
+
+      expect(unclosed?.range.start).toMatchObject({ line: 2, column: 1 })
+    })
+
+    it('should report stray closing delimiters', () => {
+      const { diagnostics } = tokenizeAMPScript('<p>]%%</p>%%[ SET @a = 1 ]%%')
+
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0].range.start.column).toBe(4)
+    })
+  })
+
+  describe('statements', () => {
+    it('should parse multi-line blocks with nested calls', () => {
+      const { program, diagnostics } = parseAMPScript([
+        '%%[',
+        'SET @full = Concat(',
+        '  @first,',
+        '  " ",',
+        '  Uppercase(@last)',
+        ')',
+        ']%%'
+      ].join('\n'))
+
+      expect(diagnostics).toHaveLength(0)
+      const set = program.body[0] as SetStatementNode
+      expect(set.type).toBe('Set')
+      expect(set.value).toMatchObject({ type: 'Call', callee: 'Concat' })
+      expect(set.range.start).toMatchObject({ line: 2, column: 1 })
+      expect(set.range.end).toMatchObject({ line: 6, column: 2 })
+    })
+
+    it('should parse IF blocks that span content between delimiters', () => {
+      const { program, diagnostics } = parseAMPScript(
+        '%%[ IF @tier == "gold" THEN ]%%<b>Gold</b>%%[ ELSEIF @tier == "silver" THEN ]%%Silver%%[ ELSE ]%%Basic%%[ ENDIF ]%%'
+      )
+
+      expect(diagnostics).toHaveLength(0)
+      const statement = program.body[0] as IfStatementNode
+      expect(statement.type).toBe('If')
+      expect(statement.closed).toBe(true)
+      expect(statement.consequent).toEqual([expect.objectContaining({ type: 'Content', text: '<b>Gold</b>' })])
+      expect(statement.elseIfs).toHaveLength(1)
+      expect(statement.alternate).toEqual([expect.objectContaining({ type: 'Content', text: 'Basic' })])
+    })
+
+    it('should parse FOR loops with their counter', () => {
+      const { program, diagnostics } = parseAMPScript(
+        'FOR @i = 1 TO RowCount(@rows) DO\n  SET @row = Row(@rows, @i)\nNEXT @i'
+      )
+
+      expect(diagnostics).toHaveLength(0)
+      const loop = program.body[0] as ForStatementNode
+      expect(loop.counter?.name).toBe('@i')
+      expect(loop.end).toMatchObject({ type: 'Call', callee: 'RowCount' })
+      expect(loop.body).toHaveLength(1)
+    })
+
+    it('should keep operator precedence for AND/OR/NOT', () => {
+      const { program } = parseAMPScript('IF NOT Empty(@a) AND @b == 1 OR @c != 2 THEN SET @x = 1 ENDIF')
+      const statement = program.body[0] as IfStatementNode
+
+      expect(statement.condition).toMatchObject({
+        type: 'Binary',
+        operator: 'OR',
+        left: { type: 'Binary', operator: 'AND', left: { type: 'Unary' } }
+      })
+    })
+  })
+
+  describe('error recovery', () => {
+    it('should flag assignment used as comparison with the operator span', () => {
+      const { diagnostics } = parseAMPScript('IF @a = 1 THEN\nSET @b = 2\nENDIF')
+
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0]).toMatchObject({
+        rule: 'ampscript-comparison',
+        range: { start: { line: 1, column: 7 }, end: { line: 1, column: 8 } }
+      })
+    })
+
+    it('should report IF without ENDIF at the IF keyword', () => {
+      const { diagnostics } = parseAMPScript('%%[\nIF @a == 1 THEN\nSET @b = 2\n]%%')
+
+      expect(diagnostics.map(d => d.rule)).toEqual(['ampscript-block-structure'])
+      expect(diagnostics[0].range.start.line).toBe(2)
+    })
+
+    it('should report stray ENDIF and NEXT', () => {
+      const { diagnostics } = parseAMPScript('SET @a = 1\nENDIF\nNEXT @i')
+
+      expect(diagnostics.map(d => d.rule)).toEqual(['ampscript-block-structure', 'ampscript-loop-structure'])
+    })
+
+    it('should report missing closing parenthesis and keep parsing', () => {
+      const { program, diagnostics } = parseAMPScript('SET @a = Concat(@b, "x"\nSET @c = 1')
+
+      expect(diagnostics[0].rule).toBe('ampscript-parse-error')
+      expect(program.body.filter(s => s.type === 'Set')).toHaveLength(2)
+    })
+  })
+})
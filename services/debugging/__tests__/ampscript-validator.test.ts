@@ -0,0 +1,122 @@
+import { AMPScriptValidator } from '../validators/ampscript-validator'
+
+describe('AMPScriptValidator', () => {
+  let validator: AMPScriptValidator
+
+  beforeEach(() => {
+    validator = new AMPScriptValidator()
+  })
+
+  describe('validateSyntax', () => {
+    it('should accept delimiters that span multiple lines', async () => {
+      const code = [
+        '%%[',
+        'VAR @greeting',
+        'SET @greeting = Concat("Hello ", AttributeValue("FirstName"))',
+        ']%%',
+        '<h1>%%=v(@greeting)=%%</h1>'
+      ].join('\n')
+
+      const errors = await validator.validateSyntax(code)
+
+      expect(errors.filter(e => e.severity === 'error')).toHaveLength(0)
+    })
+
+    it('should report unknown functions with the callee span', async () => {
+      const errors = await validator.validateSyntax('%%[\n  SET @x = Lookupp("DE", "Name", "Id", 1)\n]%%')
+      const unknown = errors.find(e => e.rule === 'ampscript-unknown-function')
+
+      expect(unknown).toMatchObject({ line: 2, column: 12, endLine: 2, endColumn: 19 })
+    })
+
+    it('should match function names case-insensitively', async () => {
+      const errors = await validator.validateSyntax('SET @x = uppercase(requestparameter("q"))')
+
+      expect(errors.find(e => e.rule === 'ampscript-unknown-function')).toBeUndefined()
+    })
+
+    it('should not treat keywords or content as function calls', async () => {
+      const errors = await validator.validateSyntax('<p>Call (555) 123</p>%%[ IF (@a == 1) THEN SET @b = 2 ENDIF ]%%')
+
+      expect(errors.find(e => e.rule === 'ampscript-unknown-function')).toBeUndefined()
+    })
+
+    it('should report comparison errors only in conditions', async () => {
+      const errors = await validator.validateSyntax('SET @a = 1\nIF @a = 1 THEN\n  SET @b = 2\nENDIF')
+      const comparisons = errors.filter(e => e.rule === 'ampscript-comparison')
+
+      expect(comparisons).toHaveLength(1)
+      expect(comparisons[0]).toMatchObject({ line: 2, column: 7 })
+    })
+
+    it('should report unmatched IF at the statement that is not closed', async () => {
+      const errors = await validator.validateSyntax('%%[\nSET @a = 1\nIF @a == 1 THEN\n  SET @b = 2\n]%%')
+      const structure = errors.find(e => e.rule === 'ampscript-block-structure')
+
+      expect(structure?.line).toBe(3)
+    })
+
+    it('should warn about bare variables in inline output', async () => {
+      const errors = await validator.validateSyntax('%%[ SET @a = 1 ]%%%%=@a=%%')
+
+      expect(errors.find(e => e.rule === 'ampscript-output')).toBeDefined()
+    })
+  })
+
+  describe('validateSemantics', () => {
+    it('should report variables used before they are set', async () => {
+      const errors = await validator.validateSemantics('%%[\nSET @b = Concat(@a, "x")\nSET @a = 1\n]%%%%=v(@b)=%%')
+      const undefinedVar = errors.find(e => e.rule === 'ampscript-undefined-variable')
+
+      expect(undefinedVar).toMatchObject({ line: 2, column: 17, message: 'Variable @a used before declaration' })
+    })
+
+    it('should report unused variables at their declaration', async () => {
+      const errors = await validator.validateSemantics('%%[\nVAR @unused\nSET @used = 1\n]%%\n%%=v(@used)=%%')
+      const unused = errors.filter(e => e.rule === 'ampscript-unused-variable')
+
+      expect(unused).toHaveLength(1)
+      expect(unused[0]).toMatchObject({ line: 2, column: 5 })
+    })
+
+    it('should accept RequestParameter values validated on a later line', async () => {
+      const code = [
+        'SET @email = RequestParameter("email")',
+        'IF NOT Empty(@email) THEN',
+        '  InsertData("Signups", "Email", @email)',
+        'ENDIF'
+      ].join('\n')
+
+      const errors = await validator.validateSemantics(code)
+
+      expect(errors.find(e => e.rule === 'ampscript-request-parameter-validation')).toBeUndefined()
+    })
+  })
+
+  describe('analyzePerformance', () => {
+    it('should detect lookups inside multi-line loops', async () => {
+      const code = [
+        'SET @rows = LookupRows("Orders", "Status", "Open")',
+        'FOR @i = 1 TO RowCount(@rows) DO',
+        '  SET @row = Row(@rows, @i)',
+        '  SET @name = Lookup("Customers", "Name", "Id", Field(@row, "CustomerId"))',
+        'NEXT @i'
+      ].join('\n')
+
+      const issues = await validator.analyzePerformance(code)
+
+      expect(issues.find(i => i.rule === 'ampscript-lookup-loop-performance')).toMatchObject({ line: 4 })
+      expect(issues.find(i => i.rule === 'ampscript-nested-loops')).toBeUndefined()
+    })
+
+    it('should detect nested loops', async () => {
+      const code = 'FOR @i = 1 TO 3 DO\n  FOR @j = 1 TO 3 DO\n    Output(@j)\n  NEXT @j\nNEXT @i'
+
+      const issues = await validator.analyzePerformance(code)
+
+      expect(issues.filter(i => i.rule === 'ampscript-nested-loops')).toEqual([
+        expect.objectContaining({ line: 2, column: 3 })
+      ])
+    })
+  })
+})
@@ -0,0 +1,153 @@
+import { AnalysisLanguage, BestPracticeViolation, CodeAnalysisResult, DebugError } from '../../../types/debugging'
+import { captureBaseline, compareWithBaseline } from '../baseline'
+
+function error(rule: string, line: number, severity: DebugError['severity'] = 'warning'): DebugError {
+  return { id: `${rule}-${line}`, rule, line, column: 1, severity, message: rule, category: 'semantic' }
+}
+
+function violation(rule: string, line: number): BestPracticeViolation {
+  return { id: `${rule}-${line}`, rule, line, category: 'maintainability', severity: 'info', message: rule, suggestion: '' }
+}
+
+function analysis(code: string, language: AnalysisLanguage, issues: Partial<CodeAnalysisResult>): CodeAnalysisResult {
+  return {
+    id: 'analysis',
+    code,
+    language,
+    analysisLevel: 'comprehensive',
+    errors: [],
+    warnings: [],
+    performanceIssues: [],
+    bestPracticeViolations: [],
+    optimizationSuggestions: [],
+    confidence: 1,
+    processingTime: 0,
+    createdAt: new Date(),
+    ...issues
+  }
+}
+
+const legacy = [
+  'function load(key) {',
+  '  var rows = Platform.Function.LookupRows("Members", "Key", key)',
+  '  return rows',
+  '}',
+  'function save(row) {',
+  '  var rows = Platform.Function.LookupRows("Members", "Key", key)',
+  '}'
+]
+
+describe('baselines', () => {
+  const baseline = captureBaseline(analysis(legacy.join('\n'), 'ssjs', {
+    warnings: [error('ssjs-lookup-in-function', 2), error('ssjs-lookup-in-function', 6)],
+    bestPracticeViolations: [violation('ssjs-return-value', 3)]
+  }), 'asset-42')
+
+  it('should record one fingerprint per issue without line numbers', () => {
+    expect(baseline.assetKey).toBe('asset-42')
+    expect(baseline.entries.map(entry => [entry.kind, entry.rule, entry.line])).toEqual([
+      ['warning', 'ssjs-lookup-in-function', 2],
+      ['warning', 'ssjs-lookup-in-function', 6],
+      ['best_practice', 'ssjs-return-value', 3]
+    ])
+    // The same line in two functions is two different issues
+    expect(baseline.entries[0].fingerprint).not.toBe(baseline.entries[1].fingerprint)
+  })
+
+  it('should keep matching issues after lines are added above them', () => {
+    const shifted = ['// Loaded by the preference centre', '', ...legacy.map(line => line.replace(/^ {2}/, '    '))].join('\n')
+    const compared = compareWithBaseline(analysis(shifted, 'ssjs', {
+      warnings: [error('ssjs-lookup-in-function', 4), error('ssjs-lookup-in-function', 8)],
+      bestPracticeViolations: [violation('ssjs-return-value', 5)]
+    }), baseline)
+
+    expect(compared.warnings.map(warning => warning.baselineStatus)).toEqual(['existing', 'existing'])
+    expect(compared.bestPracticeViolations[0].baselineStatus).toBe('existing')
+    expect(compared.baseline).toMatchObject({ assetKey: 'asset-42', newCount: 0, existingCount: 3, fixed: [] })
+  })
+
+  it('should label new issues and list the fixed ones', () => {
+    const code = [
+      ...legacy.slice(0, 4),
+      'function save(row) {',
+      '  Write(Stringify(row))',
+      '}',
+      'function remove(key) {',
+      '  var rows = Platform.Function.LookupRows("Members", "Key", key)',
+      '}'
+    ].join('\n')
+    const compared = compareWithBaseline(analysis(code, 'ssjs', {
+      warnings: [error('ssjs-lookup-in-function', 2), error('ssjs-lookup-in-function', 9)],
+      bestPracticeViolations: [violation('ssjs-return-value', 3)]
+    }), baseline)
+
+    expect(compared.warnings.map(warning => [warning.line, warning.baselineStatus])).toEqual([[2, 'existing'], [9, 'new']])
+    expect(compared.baseline.newCount).toBe(1)
+    expect(compared.baseline.fixed.map(entry => entry.line)).toEqual([6])
+  })
+
+  it('should match repeated issues by count', () => {
+    const code = '%%[\nIF @vip THEN\n  SET @a = Lookup("Members", "Name", "Key", @key)\n  SET @a = Lookup("Members", "Name", "Key", @key)\nENDIF\n]%%'
+    const ampscript = captureBaseline(analysis(code, 'ampscript', {
+      performanceIssues: [error('ampscript-repeated-lookup', 3)]
+    }), 'page')
+
+    const compared = compareWithBaseline(analysis(code, 'ampscript', {
+      performanceIssues: [error('ampscript-repeated-lookup', 4), error('ampscript-repeated-lookup', 3)]
+    }), ampscript)
+
+    expect(compared.performanceIssues.map(issue => [issue.line, issue.baselineStatus])).toEqual([[4, 'new'], [3, 'existing']])
+  })
+
+  it('should tell AMPScript branches apart by their condition', () => {
+    const code = (condition: string) => `%%[\nIF ${condition} THEN\n  SET @x = 1\nENDIF\n]%%`
+    const ampscript = captureBaseline(analysis(code('@a == 1'), 'ampscript', { warnings: [error('ampscript-unused-variable', 3)] }), 'page')
+
+    const same = compareWithBaseline(analysis(code('@a  ==  1'), 'ampscript', { warnings: [error('ampscript-unused-variable', 3)] }), ampscript)
+    const other = compareWithBaseline(analysis(code('@b == 1'), 'ampscript', { warnings: [error('ampscript-unused-variable', 3)] }), ampscript)
+
+    expect(same.warnings[0].baselineStatus).toBe('existing')
+    expect(other.warnings[0].baselineStatus).toBe('new')
+  })
+
+  it('should only compare the issue groups the result has', () => {
+    const live = compareWithBaseline({
+      code: legacy.join('\n'),
+      language: 'ssjs',
+      warnings: [error('ssjs-lookup-in-function', 2)]
+    }, baseline)
+
+    expect(live.baseline.fixed.map(entry => entry.line)).toEqual([6])
+    expect((live as Partial<CodeAnalysisResult>).bestPracticeViolations).toBeUndefined()
+  })
+
+  it('should only compare the issue kinds the analysis level reports', () => {
+    const syntax = compareWithBaseline(analysis(legacy.join('\n'), 'ssjs', {
+      analysisLevel: 'syntax',
+      warnings: [error('ssjs-lookup-in-function', 2), error('ssjs-lookup-in-function', 6)]
+    }), baseline)
+
+    expect(syntax.baseline).toMatchObject({ existingCount: 2, fixed: [] })
+    expect(captureBaseline(syntax, 'asset-42').entries.map(entry => entry.kind)).toEqual(['warning', 'warning'])
+  })
+
+  it('should place the issues of a document in their embedded language', () => {
+    const page = (script: string) => [
+      '<html>',
+      '%%[ SET @name = RequestParameter("name") ]%%',
+      '<script runat="server">',
+      script,
+      '</script>',
+      '</html>'
+    ].join('\n')
+    const document = captureBaseline(analysis(page('function track() {\n  Write(x)\n}'), 'cloudpage', {
+      warnings: [error('ssjs-undeclared', 5), error('ampscript-request-parameter', 2)]
+    }), 'landing-page')
+
+    const compared = compareWithBaseline(analysis(page('// tracking\nfunction track() {\n  Write(x)\n}'), 'cloudpage', {
+      warnings: [error('ssjs-undeclared', 6), error('ampscript-request-parameter', 2)]
+    }), document)
+
+    expect(compared.warnings.map(warning => warning.baselineStatus)).toEqual(['existing', 'existing'])
+  })
+})
@@ -0,0 +1,236 @@
+import { FormattableLanguage } from '../../../types/debugging'
+import { FormattingOptions } from '../../../types/session'
+import { FormattingOptionsSchema, formatCode, resolveFormattingOptions } from '../code-formatter'
+
+const lines = (...text: string[]) => text.join('\n') + '\n'
+
+// Formats the code and checks that formatting the result changes nothing
+function format(code: string, language: FormattableLanguage, preferences?: Partial<FormattingOptions>): string {
+  const result = formatCode(code, language, preferences)
+  expect(result.skipped).toBeUndefined()
+  expect(formatCode(result.code, language, preferences).code).toBe(result.code)
+  return result.code
+}
+
+describe('formatCode', () => {
+  describe('AMPScript', () => {
+    it('should put one statement per line and indent IF and FOR bodies', () => {
+      const code = '%%[ var @rows, @row set @rows = lookuprows("Orders","Status","Open") if rowcount(@rows) > 0 then ' +
+        'for @i = 1 to rowcount(@rows) do set @row = row(@rows, @i) next @i elseif @fallback then set @x = 1 else /* nothing */ endif ]%%'
+
+      expect(format(code, 'ampscript', { ampscript: { functionCase: 'canonical' } })).toBe(lines(
+        '%%[',
+        'VAR @rows, @row',
+        'SET @rows = LookupRows("Orders", "Status", "Open")',
+        'IF RowCount(@rows) > 0 THEN',
+        '  FOR @i = 1 TO RowCount(@rows) DO',
+        '    SET @row = Row(@rows, @i)',
+        '  NEXT @i',
+        'ELSEIF @fallback THEN',
+        '  SET @x = 1',
+        'ELSE',
+        '  /* nothing */',
+        'ENDIF',
+        ']%%'
+      ))
+    })
+
+    it('should keep content, single-line blocks and personalization strings as written', () => {
+      const code = lines(
+        '<table>',
+        '  <tr>',
+        '    <td>%%[ if @vip then ]%%VIP%%[ endif ]%%</td>',
+        '    <td>Hi %%= ProperCase( @name ) =%%, %%FirstName%%</td>',
+        '    <td>%%[',
+        '    set @a = 1   set @b = "two"',
+        '    ]%%</td>',
+        '  </tr>',
+        '</table>'
+      )
+
+      expect(format(code, 'ampscript')).toBe(lines(
+        '<table>',
+        '  <tr>',
+        '    <td>%%[ IF @vip THEN ]%%VIP%%[ ENDIF ]%%</td>',
+        '    <td>Hi %%=ProperCase(@name)=%%, %%FirstName%%</td>',
+        '    <td>%%[',
+        '    SET @a = 1',
+        '    SET @b = "two"',
+        '    ]%%</td>',
+        '  </tr>',
+        '</table>'
+      ))
+    })
+
+    it('should apply keyword case, block indentation and blank lines', () => {
+      const code = '%%[\nSET @a = 1\n\n\nIF @a == 1 THEN Output(v(@a)) ENDIF /* done */\n]%%'
+
+      expect(format(code, 'ampscript', { indentSize: 4, ampscript: { keywordCase: 'lower', indentBlockContent: true } })).toBe(lines(
+        '%%[',
+        '    set @a = 1',
+        '',
+        '    if @a == 1 then',
+        '        Output(v(@a))',
+        '    endif /* done */',
+        ']%%'
+      ))
+    })
+
+    it('should leave code with an unterminated string unchanged', () => {
+      const code = '%%[ SET @x = "open ]%%'
+
+      expect(formatCode(code, 'ampscript')).toEqual({
+        language: 'ampscript',
+        code,
+        changed: false,
+        skipped: 'String literal is never closed'
+      })
+    })
+  })
+
+  describe('SQL', () => {
+    const query = [
+      'select s.SubscriberKey, s.EmailAddress, count(*) as Orders from Subscribers s with (nolock)',
+      'inner join Orders o on o.SubscriberKey = s.SubscriberKey and o.Total between 10 and 100',
+      'left outer join Suppressed x on x.SubscriberKey = s.SubscriberKey',
+      "where s.Status = 'Active' and x.SubscriberKey is null or s.Id in (select Id from Vip where Level > -1)",
+      'group by s.SubscriberKey, s.EmailAddress order by Orders desc'
+    ].join(' ')
+
+    it('should put each clause and join on its own line', () => {
+      expect(format(query, 'sql')).toBe(lines(
+        'SELECT',
+        '  s.SubscriberKey,',
+        '  s.EmailAddress,',
+        '  count(*) AS Orders',
+        'FROM Subscribers s WITH (nolock)',
+        'INNER JOIN Orders o ON o.SubscriberKey = s.SubscriberKey',
+        '  AND o.Total BETWEEN 10 AND 100',
+        'LEFT OUTER JOIN Suppressed x ON x.SubscriberKey = s.SubscriberKey',
+        "WHERE s.Status = 'Active'",
+        '  AND x.SubscriberKey IS NULL',
+        '  OR s.Id IN (',
+        '    SELECT Id',
+        '    FROM Vip',
+        '    WHERE Level > -1',
+        '  )',
+        'GROUP BY s.SubscriberKey, s.EmailAddress',
+        'ORDER BY Orders DESC'
+      ))
+    })
+
+    it('should follow the join, comma and keyword case options', () => {
+      const code = 'SELECT DISTINCT TOP 5 a.Id, b.Name FROM A a JOIN B b ON b.Id = a.Id'
+
+      expect(format(code, 'sql', { sql: { alignJoins: false, commaPosition: 'leading', keywordCase: 'lower' } })).toBe(lines(
+        'select distinct top 5',
+        '  a.Id',
+        '  , b.Name',
+        'from A a',
+        '  join B b on b.Id = a.Id'
+      ))
+    })
+
+    it('should keep comments and separate statements', () => {
+      const code = "-- Active subscribers\nSELECT * FROM Subscribers /* all */ WHERE Status = 'Active'; SELECT 1 AS Flag -- check"
+
+      expect(format(code, 'sql')).toBe(lines(
+        '-- Active subscribers',
+        'SELECT *',
+        'FROM Subscribers /* all */',
+        "WHERE Status = 'Active';",
+        '',
+        'SELECT 1 AS Flag -- check'
+      ))
+    })
+  })
+
+  describe('SSJS', () => {
+    it('should indent blocks and switch cases and keep statement line breaks', () => {
+      const code = [
+        '<script runat="server">',
+        'Platform.Load("core","1.1.1")',
+        "var rows = DataExtension.Init('Orders').Rows.Lookup(['Status'], ['Open'])",
+        `for (var i=0;i<rows.length;i++){ switch(rows[i].Type){ case "a": Write('A'); break; default: Write('it\\'s other') } }`,
+        'try { var total = rows.length > 0 ? -rows.length : 0 } catch(e) { Write(Stringify(e)) }',
+        '</script>',
+        '<p>%%=v(@x)=%%</p>'
+      ].join('\n')
+
+      expect(format(code, 'ssjs', { ssjs: { quotes: 'double' } })).toBe(lines(
+        '<script runat="server">',
+        '  Platform.Load("core", "1.1.1")',
+        '  var rows = DataExtension.Init("Orders").Rows.Lookup(["Status"], ["Open"])',
+        '  for (var i = 0; i < rows.length; i++) {',
+        '    switch (rows[i].Type) {',
+        '      case "a":',
+        '        Write("A");',
+        '        break;',
+        '      default:',
+        '        Write("it\'s other")',
+        '    }',
+        '  }',
+        '  try {',
+        '    var total = rows.length > 0 ? -rows.length : 0',
+        '  } catch (e) {',
+        '    Write(Stringify(e))',
+        '  }',
+        '</script>',
+        '<p>%%=v(@x)=%%</p>'
+      ))
+    })
+
+    it('should lay out object literals the way they were opened', () => {
+      const code = [
+        'var payload = {a:1,b:[1,2],fn:function(x){return x/2}}',
+        'var options = {',
+        'name: "n",',
+        'retries: 3}',
+        'if (payload) {}',
+        'else {',
+        'var sum = payload.a +',
+        'options.retries',
+        '}'
+      ].join('\n')
+
+      expect(format(code, 'ssjs')).toBe(lines(
+        'var payload = { a: 1, b: [1, 2], fn: function (x) {',
+        '  return x / 2',
+        '} }',
+        'var options = {',
+        '  name: "n",',
+        '  retries: 3',
+        '}',
+        'if (payload) {} else {',
+        '  var sum = payload.a +',
+        '    options.retries',
+        '}'
+      ))
+    })
+  })
+
+  it('should format the AMPScript and server-side scripts of a CloudPage', () => {
+    const code = '<html>\r\n<body>   \r\n%%[ set @x = 1 ]%%\r\n<script runat=server>\r\nvar y=1\r\n</script>\r\n</body>\r\n</html>'
+
+    expect(format(code, 'cloudpage')).toBe(
+      '<html>\r\n<body>\r\n%%[ SET @x = 1 ]%%\r\n<script runat=server>\r\n  var y = 1\r\n</script>\r\n</body>\r\n</html>\r\n'
+    )
+    expect(format('<p>No scripts</p>', 'html', { insertFinalNewline: false })).toBe('<p>No scripts</p>')
+  })
+})
+
+describe('resolveFormattingOptions', () => {
+  it('should use the shared indent size unless a language sets its own', () => {
+    const options = resolveFormattingOptions({ indentSize: 4, sql: { indentSize: 2 } })
+
+    expect(options.ampscript.indentSize).toBe(4)
+    expect(options.ssjs.indentSize).toBe(4)
+    expect(options.sql).toEqual({ indentSize: 2, keywordCase: 'upper', alignJoins: true, commaPosition: 'trailing' })
+  })
+
+  it('should reject unknown styles', () => {
+    expect(FormattingOptionsSchema.safeParse({ sql: { keywordCase: 'title' } }).success).toBe(false)
+    expect(FormattingOptionsSchema.safeParse({ ssjs: { semicolons: true } }).success).toBe(false)
+    expect(FormattingOptionsSchema.safeParse({ indentSize: 2, ampscript: { functionCase: 'canonical' } }).success).toBe(true)
+  })
+})
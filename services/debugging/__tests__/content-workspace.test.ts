@@ -0,0 +1,126 @@
+import { DebugError, WorkspaceFile } from '../../../types/debugging'
+import { ContentWorkspace, contentAssetToWorkspaceFile } from '../content-workspace'
+import { collectContentEvents } from '../content-events'
+
+function ampscript(name: string, code: string, customerKey?: string): WorkspaceFile {
+  return { name, code, language: 'ampscript', customerKey }
+}
+
+function rules(errors: DebugError[] | undefined): string[] {
+  return (errors ?? []).map(error => error.rule)
+}
+
+describe('collectContentEvents', () => {
+  it('should list variable accesses and includes in execution order', () => {
+    const events = collectContentEvents('%%[ SET @name = ContentBlockByKey("header") ]%%\n%%=v(@name)=%%', 'ampscript')
+
+    expect(events.map(event => event.type === 'include' ? `include ${event.value}` : `${event.kind} ${event.name}`))
+      .toEqual(['include header', 'write @name', 'read @name'])
+  })
+
+  it('should find SSJS content calls and variable accesses in CloudPages', () => {
+    const code = [
+      '<script runat="server">',
+      '  Platform.Function.TreatAsContent(Platform.Function.ContentBlockById(1234));',
+      '  var key = Variable.GetValue("@blockKey");',
+      '  Platform.Function.ContentBlockByKey(key);',
+      '</script>'
+    ].join('\n')
+
+    const events = collectContentEvents(code, 'cloudpage')
+
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'include', function: 'ContentBlockById', by: 'id', value: '1234', line: 2 }),
+      expect.objectContaining({ type: 'variable', kind: 'read', name: '@blockKey', line: 3 }),
+      expect.objectContaining({ type: 'include', function: 'ContentBlockByKey', value: undefined, line: 4 })
+    ])
+  })
+})
+
+describe('ContentWorkspace', () => {
+  it('should accept variables set by the including file before the include', () => {
+    const workspace = new ContentWorkspace([
+      ampscript('page.html', '%%[ SET @firstName = "Jane" ]%%\n%%=ContentBlockByKey("greeting")=%%'),
+      ampscript('greeting', 'Hello %%=v(@firstName)=%%')
+    ])
+
+    const diagnostics = workspace.analyze()
+
+    expect(rules(diagnostics.get('page.html'))).toEqual([])
+    expect(rules(diagnostics.get('greeting'))).toEqual([])
+  })
+
+  it('should report variables used before they are set across includes', () => {
+    const workspace = new ContentWorkspace([
+      ampscript('page.html', '%%=ContentBlockByKey("GREETING-KEY")=%%\n%%[ SET @firstName = "Jane" ]%%'),
+      ampscript('blocks/greeting.html', 'Hello %%=v(@firstName)=%%', 'greeting-key')
+    ])
+
+    const [issue] = workspace.analyze().get('blocks/greeting.html') ?? []
+
+    expect(issue).toMatchObject({ rule: 'workspace-undefined-variable', line: 1, column: 12 })
+    expect(issue.message).toContain('when rendered from page.html')
+  })
+
+  it('should see variables set by an included block in the including file', () => {
+    const workspace = new ContentWorkspace([
+      ampscript('page.html', '%%=ContentBlockByName("Content Builder\\\\Shared\\\\setup")=%%\n%%=v(@total)=%%'),
+      ampscript('Shared/setup.html', '%%[ SET @total = 1 ]%%')
+    ])
+
+    expect(rules(workspace.analyze().get('page.html'))).toEqual([])
+  })
+
+  it('should report circular includes and missing blocks', () => {
+    const workspace = new ContentWorkspace([
+      ampscript('a', '%%=ContentBlockByKey("b")=%%'),
+      ampscript('b', '%%=ContentBlockByKey("a")=%%\n%%=ContentBlockById(99)=%%')
+    ])
+
+    const diagnostics = workspace.analyze()
+
+    expect(rules(diagnostics.get('b'))).toEqual(['workspace-circular-include', 'workspace-missing-block'])
+    expect(diagnostics.get('b')?.[0].message).toBe('Circular include: a → b → a')
+  })
+
+  it('should read variables set in TreatAsContent strings and flag runtime includes', () => {
+    const workspace = new ContentWorkspace([
+      ampscript('page.html', '%%[ TreatAsContent("%%[ SET @a = 1 ]%%") SET @b = ContentBlockByKey(@key) ]%%\n%%=v(@a)=%%')
+    ])
+
+    const diagnostics = workspace.analyze().get('page.html') ?? []
+
+    expect(diagnostics.map(d => `${d.rule} ${d.severity}`)).toEqual([
+      'workspace-dynamic-content info',
+      'workspace-undefined-variable error'
+    ])
+    expect(diagnostics[1].message).toContain('@key')
+  })
+
+  it('should drop single-file variable issues that other files resolve', () => {
+    const workspace = new ContentWorkspace([
+      ampscript('setup', '%%[ SET @total = 1 ]%%'),
+      ampscript('page.html', '%%=ContentBlockByKey("setup")=%%%%=v(@total)=%%')
+    ])
+    const issue = (rule: string, line: number, column: number): DebugError =>
+      ({ id: rule, line, column, severity: 'warning', message: rule, rule, category: 'semantic' })
+
+    expect(workspace.filterFileIssues('setup', [issue('ampscript-unused-variable', 1, 9)])).toEqual([])
+    expect(workspace.filterFileIssues('page.html', [issue('ampscript-undefined-variable', 1, 37)])).toEqual([])
+  })
+
+  it('should convert Content Builder assets into workspace files', () => {
+    const file = contentAssetToWorkspaceFile({
+      id: 42,
+      customerKey: 'welcome-email',
+      name: 'Welcome',
+      assetType: { id: 208, name: 'htmlemail', displayName: 'HTML Email' },
+      content: '<p>Hi</p>',
+      category: { id: 7, name: 'Onboarding' },
+      createdDate: new Date(),
+      modifiedDate: new Date()
+    })
+
+    expect(file).toEqual({ name: 'Onboarding/Welcome', code: '<p>Hi</p>', language: 'email', customerKey: 'welcome-email', assetId: 42 })
+  })
+})
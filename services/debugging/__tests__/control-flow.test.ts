@@ -0,0 +1,129 @@
+import { buildControlFlowGraphs, complexityHotspots } from '../control-flow'
+
+const ssjs = [
+  'function score(items) {',
+  '  var total = 0;',
+  '  for (var i = 0; i < items.length; i++) {',
+  '    if (items[i].active && items[i].value > 0) {',
+  '      total += items[i].value;',
+  '    } else {',
+  '      continue;',
+  '    }',
+  '  }',
+  '  return total;',
+  '}',
+  'var result = score(rows);',
+  'try {',
+  '  Write(result);',
+  '} catch (e) {',
+  '  Write("failed");',
+  '}'
+].join('\n')
+
+describe('buildControlFlowGraphs', () => {
+  it('should build one graph per SSJS function and one for the top-level code', () => {
+    const graphs = buildControlFlowGraphs(ssjs, 'ssjs')
+
+    expect(graphs.map(graph => [graph.name, graph.line, graph.endLine])).toEqual([
+      ['(top level)', 1, 17],
+      ['score', 1, 11]
+    ])
+    expect(graphs[1]).toMatchObject({ cyclomaticComplexity: 4, cognitiveComplexity: 5, nestingDepth: 2 })
+    expect(graphs[0]).toMatchObject({ cyclomaticComplexity: 2, cognitiveComplexity: 1 })
+  })
+
+  it('should score each block by what it adds and link loops back to their header', () => {
+    const score = buildControlFlowGraphs(ssjs, 'ssjs')[1]
+    const block = (line: number) => score.blocks.find(candidate => candidate.line === line)!
+
+    expect(block(3)).toMatchObject({ kind: 'loop', complexity: 1, nesting: 0 })
+    // Nested once, has an else and joins two conditions
+    expect(block(4)).toMatchObject({ kind: 'branch', label: 'if (items[i].active && items[i].value > 0)', complexity: 4, nesting: 1 })
+    expect(block(5).successors).toEqual([block(3).id])
+    expect(block(7)).toMatchObject({ label: 'continue', successors: [block(3).id] })
+    expect(block(10).successors).toEqual([1])
+  })
+
+  it('should branch a switch to each case and loop a do-while back to its body', () => {
+    const code = [
+      'var a = 1;',
+      'switch (a) {',
+      '  case 1: b(); break;',
+      '  case 2: c(); break;',
+      '  default: d();',
+      '}',
+      'do { a--; } while (a > 0);'
+    ].join('\n')
+    const [graph] = buildControlFlowGraphs(code, 'ssjs')
+    const switchBlock = graph.blocks.find(block => block.line === 2)!
+    const body = graph.blocks.find(block => block.kind === 'statements' && block.line === 7)!
+    const loop = graph.blocks.find(block => block.kind === 'loop')!
+
+    expect(switchBlock.successors.map(id => graph.blocks[id].kind)).toEqual(['case', 'case', 'case'])
+    expect(body.successors).toEqual([loop.id])
+    expect(loop.successors).toEqual([body.id, 1])
+    expect(graph.cyclomaticComplexity).toBe(4)
+  })
+
+  it('should chain AMPScript ELSEIF branches without nesting them', () => {
+    const code = [
+      '%%[',
+      'IF @a == 1 THEN',
+      '  SET @b = 1',
+      'ELSEIF @a == 2 THEN',
+      '  SET @b = 2',
+      'ELSE',
+      '  SET @b = 3',
+      'ENDIF',
+      'FOR @i = 1 TO 3 DO',
+      '  SET @c = @i',
+      'NEXT @i',
+      ']%%'
+    ].join('\n')
+    const [graph] = buildControlFlowGraphs(code, 'ampscript')
+
+    expect(graph.blocks.filter(block => block.complexity > 0).map(block => [block.kind, block.label, block.nesting, block.complexity])).toEqual([
+      ['branch', 'IF @a == 1', 0, 1],
+      ['branch', 'ELSEIF @a == 2', 0, 2],
+      ['loop', 'FOR @i = 1 TO 3', 0, 1]
+    ])
+    expect(graph).toMatchObject({ cyclomaticComplexity: 4, cognitiveComplexity: 4, nestingDepth: 1 })
+  })
+
+  it('should place the blocks of a CloudPage on document lines', () => {
+    const page = [
+      '<html>',
+      '<script runat="server">',
+      'if (a) {',
+      '  b();',
+      '}',
+      '</script>',
+      '%%[ IF @x THEN SET @y = 1 ENDIF ]%%',
+      '</html>'
+    ].join('\n')
+    const graphs = buildControlFlowGraphs(page, 'cloudpage')
+
+    expect(graphs.map(graph => [graph.language, graph.line])).toEqual([['ampscript', 1], ['ssjs', 2]])
+    expect(graphs[1].blocks.filter(block => block.kind !== 'entry' && block.kind !== 'exit').map(block => [block.label, block.line])).toEqual([
+      ['if (a)', 3],
+      ['b()', 4]
+    ])
+    expect(graphs[0].blocks.find(block => block.kind === 'branch')!.line).toBe(7)
+  })
+
+  it('should return no graphs for languages without control flow', () => {
+    expect(buildControlFlowGraphs('SELECT 1', 'sql')).toEqual([])
+  })
+})
+
+describe('complexityHotspots', () => {
+  it('should rank the blocks that add the most complexity across graphs', () => {
+    const hotspots = complexityHotspots(buildControlFlowGraphs(ssjs, 'ssjs'), 3)
+
+    expect(hotspots.map(({ graph, block }) => [graph.name, block.line, block.complexity])).toEqual([
+      ['score', 4, 4],
+      ['score', 3, 1],
+      ['(top level)', 15, 1]
+    ])
+  })
+})
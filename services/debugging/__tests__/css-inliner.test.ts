@@ -0,0 +1,153 @@
+import { GMAIL_CLIP_BYTES, inlineCss } from '../css-inliner'
+import { parseHtmlTree } from '../parsers/html-tree'
+
+const template = (styles: string, body: string) => [
+  '<!DOCTYPE html>',
+  '<html>',
+  '<head>',
+  '<title>Welcome</title>',
+  '<style>',
+  styles,
+  '</style>',
+  '</head>',
+  '<body>',
+  body,
+  '</body>',
+  '</html>'
+].join('\n')
+
+const styleOf = (html: string, id: string) => new RegExp(`id="${id}"[^>]*style="([^"]*)"`).exec(html)?.[1]
+
+describe('inlineCss', () => {
+  it('should resolve conflicts by importance, specificity and source order', () => {
+    const html = template(
+      [
+        'p { color: red; font-size: 14px; }',
+        '.lead { color: blue; }',
+        '#hero p.lead { color: green; padding: 4px; }',
+        'p { font-size: 16px; }',
+        '.note { color: gray !important; }'
+      ].join('\n'),
+      [
+        '<div id="hero"><p id="a" class="lead">A</p></div>',
+        '<p id="b" class="lead" style="color: black">B</p>',
+        '<p id="c" class="note" style="color: black">C</p>'
+      ].join('\n')
+    )
+
+    const result = inlineCss(html)
+
+    expect(styleOf(result.html, 'a')).toBe('font-size: 16px; color: green; padding: 4px')
+    expect(styleOf(result.html, 'b')).toBe('font-size: 16px; color: black')
+    expect(styleOf(result.html, 'c')).toBe('font-size: 16px; color: gray !important')
+    expect(result.html).not.toContain('<style')
+    expect(result).toMatchObject({ inlinedRules: 5, headRules: 0, styledElements: 3 })
+  })
+
+  it('should match combinators, attributes and structural pseudo-classes', () => {
+    const html = template(
+      [
+        'table > tr > td:first-child { padding: 0; }',
+        'h1 + p { margin: 0; }',
+        'h1 ~ span { color: red; }',
+        'a[href^="tel:"] { color: inherit; }',
+        '.cta\\:lg { font-size: 20px; }'
+      ].join('\n'),
+      [
+        '<table><tr><td id="first">1<td id="second">2</tr></table>',
+        '<h1>Title</h1><p id="after">x</p><p id="later">y</p><span id="sibling">z</span>',
+        '<a id="tel" href="tel:+1555">Call</a><a id="web" href="https://example.com">Visit</a>',
+        '<a id="cta" class="cta:lg">Go</a>'
+      ].join('\n')
+    )
+
+    const output = inlineCss(html).html
+
+    expect(styleOf(output, 'first')).toBe('padding: 0')
+    expect(styleOf(output, 'second')).toBeUndefined()
+    expect(styleOf(output, 'after')).toBe('margin: 0')
+    expect(styleOf(output, 'later')).toBeUndefined()
+    expect(styleOf(output, 'sibling')).toBe('color: red')
+    expect(styleOf(output, 'tel')).toBe('color: inherit')
+    expect(styleOf(output, 'web')).toBeUndefined()
+    expect(styleOf(output, 'cta')).toBe('font-size: 20px')
+  })
+
+  it('should keep media queries and interactive selectors in a <head> style element', () => {
+    const html = template(
+      [
+        '.button, .button:hover { background-color: #0a0; }',
+        '@media only screen and (max-width: 600px) { .column { width: 100% !important; } }',
+        '@font-face { font-family: Brand; src: url("brand.woff"); }'
+      ].join('\n'),
+      '<a class="button" id="button">Buy</a><td class="column" id="column">x</td>'
+    )
+
+    const result = inlineCss(html)
+
+    expect(styleOf(result.html, 'button')).toBe('background-color: #0a0')
+    expect(styleOf(result.html, 'column')).toBeUndefined()
+    expect(result.headRules).toBe(3)
+    expect(result.html).toContain([
+      '<style type="text/css">',
+      '.button:hover { background-color: #0a0; }',
+      '@media only screen and (max-width: 600px) { .column { width: 100% !important; } }',
+      '@font-face { font-family: Brand; src: url("brand.woff"); }',
+      '</style>',
+      '</head>'
+    ].join('\n'))
+  })
+
+  it('should leave AMPScript and personalization strings untouched', () => {
+    const body = [
+      '%%[ IF @tier > 2 THEN SET @banner = "<p class=\'vip\'>VIP</p>" ENDIF ]%%',
+      '<p id="greeting" class="text" style="color: %%=v(@color)=%%; %%=v(@extraStyles)=%%">Hi %%FirstName%%</p>',
+      '<a id="link" class="text" href="%%=RedirectTo(Concat("https://example.com?id=", _subscriberkey))=%%">Link</a>'
+    ].join('\n')
+    const html = template('.text { font-family: "Helvetica Neue", Arial; color: #333; }', body)
+
+    const output = inlineCss(html).html
+
+    expect(output).toContain('%%[ IF @tier > 2 THEN SET @banner = "<p class=\'vip\'>VIP</p>" ENDIF ]%%')
+    expect(output).toContain('Hi %%FirstName%%')
+    expect(output).toContain('href="%%=RedirectTo(Concat("https://example.com?id=", _subscriberkey))=%%"')
+    expect(styleOf(output, 'greeting')).toBe('font-family: \'Helvetica Neue\', Arial; color: %%=v(@color)=%%; %%=v(@extraStyles)=%%')
+    expect(output).toContain('<a id="link" class="text" href="%%=RedirectTo(Concat("https://example.com?id=", _subscriberkey))=%%" style="font-family: \'Helvetica Neue\', Arial; color: #333">')
+  })
+
+  it('should skip <style> elements marked data-embed and Outlook conditional comments', () => {
+    const html = template(
+      'p { margin: 0; }',
+      '<style data-embed>p { margin: 8px; }</style>\n<!--[if mso]><style>p { margin: 2px; }</style><![endif]-->\n<p id="p">x</p>'
+    )
+
+    const output = inlineCss(html).html
+
+    expect(styleOf(output, 'p')).toBe('margin: 0')
+    expect(output).toContain('<style data-embed>p { margin: 8px; }</style>')
+    expect(output).toContain('<!--[if mso]><style>p { margin: 2px; }</style><![endif]-->')
+  })
+
+  it('should report the size against the Gmail clipping threshold', () => {
+    const small = inlineCss(template('p { color: red; }', '<p>x</p>'))
+    expect(small.size).toMatchObject({ limit: GMAIL_CLIP_BYTES, clipped: false })
+    expect(small.size.bytes).toBeLessThan(small.size.originalBytes)
+    expect(small.issues).toEqual([])
+
+    const rows = Array.from({ length: 1200 }, (_, i) => `<tr><td class="cell">Row ${i} with some text to pad it out</td></tr>`).join('\n')
+    const large = inlineCss(template('.cell { padding: 8px; font-family: Arial, sans-serif; color: #333333; }', `<table>\n${rows}\n</table>`))
+
+    expect(large.size.clipped).toBe(true)
+    expect(large.issues).toEqual([expect.objectContaining({ rule: 'email-gmail-clipping', severity: 'warning', category: 'compatibility' })])
+    expect(large.issues[0].message).toMatch(/^Gmail clips this email: it is \d+\.\d KB, over the 102\.0 KB limit$/)
+  })
+})
+
+describe('parseHtmlTree', () => {
+  it('should close implied elements and ignore markup inside AMPScript', () => {
+    const [table] = parseHtmlTree('<table><tr><td>1<td>2<tr><td>3</table>%%[ SET @x = "<div>" ]%%')
+
+    expect(table.children.map(row => row.children.map(cell => cell.name).join(','))).toEqual(['td,td', 'td'])
+    expect(parseHtmlTree('%%[ SET @x = "<div>" ]%%<p>x</p>').map(element => element.name)).toEqual(['p'])
+  })
+})
@@ -0,0 +1,57 @@
+import {
+  DataExtensionCatalog,
+  DataExtensionSchemaError,
+  parseDataExtensionSchemas
+} from '../data-extension-schema'
+
+describe('parseDataExtensionSchemas', () => {
+  it('should accept a JSON file in the DataExtensionResponse shape', () => {
+    const [members] = parseDataExtensionSchemas(JSON.stringify({
+      dataExtensions: [{
+        name: 'Members',
+        fields: [{ name: 'SubscriberKey', fieldType: 'Text', maxLength: 254, isPrimaryKey: true }],
+        createdDate: '2024-01-01T00:00:00Z'
+      }]
+    }))
+
+    expect(members).toMatchObject({ name: 'Members', isPrimaryKey: true, isTestable: false })
+    expect(members.createdDate).toBeInstanceOf(Date)
+    expect(members.fields[0].isRequired).toBe(false)
+  })
+
+  it('should report the path of invalid fields', () => {
+    expect.assertions(2)
+    try {
+      parseDataExtensionSchemas([{ name: 'Members', fields: [{ name: 'Score', fieldType: 'Float' }] }])
+    } catch (error) {
+      expect(error).toBeInstanceOf(DataExtensionSchemaError)
+      expect((error as DataExtensionSchemaError).errors[0].field).toBe('0.fields.0.fieldType')
+    }
+  })
+
+  it('should reject malformed JSON', () => {
+    expect(() => parseDataExtensionSchemas('{ not json')).toThrow('Invalid JSON format')
+  })
+})
+
+describe('DataExtensionCatalog', () => {
+  const catalog = new DataExtensionCatalog(parseDataExtensionSchemas([{
+    name: 'Members',
+    fields: [
+      { name: 'SubscriberKey', fieldType: 'Text', isPrimaryKey: true },
+      { name: 'Email', fieldType: 'EmailAddress' }
+    ]
+  }]))
+
+  it('should look up Data Extensions and fields case-insensitively', () => {
+    const members = catalog.find('MEMBERS')!
+
+    expect(catalog.field(members, 'email')?.name).toBe('Email')
+    expect(catalog.primaryKey(members).map(field => field.name)).toEqual(['SubscriberKey'])
+  })
+
+  it('should apply SFMC default lengths', () => {
+    expect(DataExtensionCatalog.fieldLength({ fieldType: 'EmailAddress' })).toBe(254)
+    expect(DataExtensionCatalog.fieldLength({ fieldType: 'Text' })).toBeUndefined()
+  })
+})
@@ -0,0 +1,127 @@
+import { SFMCContext } from '../../../types/debugging'
+import { parseDataExtensionSchemas } from '../data-extension-schema'
+import { dataVolumeIssues, estimateDataVolume } from '../data-volume'
+
+const dataExtensions = parseDataExtensionSchemas([
+  { name: 'Members', rowCount: 40000000, fields: [{ name: 'SubscriberKey', fieldType: 'Text', isPrimaryKey: true }, { name: 'Email', fieldType: 'EmailAddress' }] },
+  { name: 'Stores', rowCount: 50, fields: [{ name: 'StoreId', fieldType: 'Number', isPrimaryKey: true }, { name: 'Region', fieldType: 'Text' }] },
+  { name: 'Orders', rowCount: 1000000, fields: [{ name: 'OrderId', fieldType: 'Text', isPrimaryKey: true }, { name: 'SubscriberKey', fieldType: 'Text' }] }
+])
+
+const context: SFMCContext = { dataExtensions }
+
+describe('estimateDataVolume', () => {
+  it('should cost the same lookup by the size of its Data Extension', () => {
+    const small = estimateDataVolume('%%[ SET @rows = LookupRows("Stores", "Region", "North") ]%%', 'ampscript', context)!
+    const large = estimateDataVolume('%%[ SET @rows = LookupRows("Members", "Email", @email) ]%%', 'ampscript', context)!
+
+    expect(small.calls[0]).toMatchObject({ operation: 'LookupRows', dataExtension: 'Stores', strategy: 'scan', rowCount: 50, line: 1, column: 17 })
+    expect(large.calls[0]).toMatchObject({ dataExtension: 'Members', strategy: 'scan', rowCount: 40000000 })
+    expect(large.estimatedTimeMs).toBeGreaterThan(small.estimatedTimeMs * 100)
+  })
+
+  it('should use the index when the lookup filters on the primary key', () => {
+    const estimate = estimateDataVolume('%%[ SET @email = Lookup("Members", "Email", "SubscriberKey", _subscriberkey) ]%%', 'ampscript', context)!
+
+    expect(estimate.calls[0].strategy).toBe('index')
+    expect(estimate.estimatedTimeMs).toBeLessThan(50)
+  })
+
+  it('should multiply lookups by the rows of the rowset a loop walks', () => {
+    const code = [
+      '%%[',
+      'SET @stores = LookupRows("Stores", "Region", "North")',
+      'FOR @i = 1 TO RowCount(@stores) DO',
+      '  SET @members = LookupRows("Members", "Email", Field(Row(@stores, @i), "Email"))',
+      'NEXT @i',
+      ']%%'
+    ].join('\n')
+    const estimate = estimateDataVolume(code, 'ampscript', context)!
+
+    expect(estimate.calls.map(call => [call.dataExtension, call.line, call.executions])).toEqual([
+      ['Stores', 2, 1],
+      ['Members', 4, 50]
+    ])
+    expect(dataVolumeIssues(estimate).map(issue => [issue.rule, issue.line, issue.severity])).toEqual([
+      ['data-volume-script-timeout', 4, 'warning']
+    ])
+  })
+
+  it('should follow SSJS Data Extension handles into loops', () => {
+    const code = [
+      'var stores = DataExtension.Init("Stores").Rows.Retrieve();',
+      'var members = DataExtension.Init("Members");',
+      'for (var i = 0; i < stores.length; i++) {',
+      '  var found = members.Rows.Retrieve({ Property: "Email", SimpleOperator: "equals", Value: stores[i].Email });',
+      '}',
+      'var keys = Platform.Function.LookupRows("Orders", "OrderId", orderId);'
+    ].join('\n')
+    const estimate = estimateDataVolume(code, 'ssjs', context)!
+
+    expect(estimate.calls.map(call => [call.operation, call.dataExtension, call.strategy, call.executions])).toEqual([
+      ['Rows.Retrieve', 'Stores', 'scan', 1],
+      ['Rows.Retrieve', 'Members', 'scan', 50],
+      ['Platform.Function.LookupRows', 'Orders', 'index', 1]
+    ])
+  })
+
+  it('should flag joins without an equality that run past the query time limit', () => {
+    const slow = estimateDataVolume(
+      'SELECT m.SubscriberKey, o.OrderId\nFROM Members m\nINNER JOIN Orders o ON o.SubscriberKey LIKE m.SubscriberKey + \'%\'',
+      'sql',
+      context
+    )!
+    const hashed = estimateDataVolume(
+      'SELECT m.SubscriberKey, o.OrderId\nFROM Members m\nINNER JOIN Orders o ON o.SubscriberKey = m.SubscriberKey',
+      'sql',
+      context
+    )!
+
+    expect(slow.runtime).toBe('query-activity')
+    expect(slow.calls.map(call => [call.operation, call.dataExtension, call.strategy])).toEqual([
+      ['Scan', 'Members', 'scan'],
+      ['INNER JOIN', 'Orders', 'nested-loop'],
+      ['Scan', 'Orders', 'scan']
+    ])
+    expect(dataVolumeIssues(slow)).toMatchObject([{ rule: 'data-volume-query-timeout', line: 3, column: 1 }])
+    expect(hashed.calls[1].strategy).toBe('hash-join')
+    expect(dataVolumeIssues(hashed)).toEqual([])
+  })
+
+  it('should prefer supplied row counts and list Data Extensions without one', () => {
+    const estimate = estimateDataVolume(
+      '%%[ SET @a = LookupRows("Stores", "Region", "North") SET @b = LookupRows("Archive", "Region", "North") ]%%',
+      'ampscript',
+      { dataExtensions, rowCounts: { stores: 5000000 } }
+    )!
+
+    expect(estimate.calls.map(call => call.rowCount)).toEqual([5000000])
+    expect(estimate.unknownDataExtensions).toEqual(['Archive'])
+    expect(estimateDataVolume('%%[ SET @a = LookupRows("Stores", "Region", "North") ]%%', 'ampscript', {})).toBeUndefined()
+  })
+
+  it('should place the reads of a CloudPage and leave emails unflagged', () => {
+    const page = [
+      '<html>',
+      '<script runat="server">',
+      'for (var i = 0; i < 100; i++) {',
+      '  var rows = Platform.Function.LookupRows("Members", "Email", emails[i]);',
+      '}',
+      '</script>',
+      '</html>'
+    ].join('\n')
+
+    const estimate = estimateDataVolume(page, 'cloudpage', context)!
+    expect(estimate.calls).toMatchObject([{ line: 4, column: 14, executions: 100 }])
+    expect(dataVolumeIssues(estimate).map(issue => issue.line)).toEqual([4])
+    expect(dataVolumeIssues(estimateDataVolume(page, 'email', context))).toEqual([])
+  })
+
+  it('should read the timeouts from the rule options', () => {
+    const estimate = estimateDataVolume('%%[ SET @rows = LookupRows("Members", "Email", @email) ]%%', 'ampscript', context)!
+    const ruleConfig = { rules: { 'data-volume-script-timeout': { options: { timeoutSeconds: 5 } } } }
+
+    expect(dataVolumeIssues(estimate)).toEqual([])
+    expect(dataVolumeIssues(estimate, ruleConfig)).toHaveLength(1)
+  })
+})
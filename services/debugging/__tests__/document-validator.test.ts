@@ -0,0 +1,171 @@
+import { DocumentValidator } from '../validators/document-validator'
+import { extractEmbeddedSources, splitDocument } from '../parsers/document-regions'
+import { BestPracticesAnalyzer } from '../analyzers/best-practices-analyzer'
+
+const page = [
+  '%%[ SET @firstName = AttributeValue("FirstName") ]%%',
+  '<html>',
+  '<head>',
+  '<style>',
+  '  h1 { color: %%=v(@color)=%% }',
+  '</style>',
+  '</head>',
+  '<body>',
+  '<script runat="server">',
+  '  var name = Variable.GetValue("@firstName");',
+  '</script>',
+  '<script type="text/javascript">',
+  '  var x = 1',
+  '</script>',
+  '</body>',
+  '</html>'
+].join('\n')
+
+describe('splitDocument', () => {
+  it('should assign every part of the document to one embedded language', () => {
+    const regions = splitDocument(page)
+    const text = (language: string) => regions
+      .filter(region => region.language === language)
+      .map(region => page.slice(region.start, region.end))
+
+    expect(text('ampscript')).toEqual(['%%[ SET @firstName = AttributeValue("FirstName") ]%%', '%%=v(@color)=%%'])
+    expect(text('css')).toEqual(['\n  h1 { color: ', ' }\n'])
+    expect(text('ssjs')).toEqual(['\n  var name = Variable.GetValue("@firstName");\n'])
+    expect(text('javascript')).toEqual(['\n  var x = 1\n'])
+    expect(regions.map(region => page.slice(region.start, region.end)).join('')).toBe(page)
+  })
+
+  it('should keep AMPScript script elements and non-JavaScript scripts out of the client JavaScript', () => {
+    const code = '<script runat="server" language="ampscript">SET @a = 1</script><script type="application/ld+json">{}</script>'
+    const languages = splitDocument(code).map(region => region.language)
+
+    expect(languages).toEqual(['ampscript', 'html'])
+  })
+
+  it('should run unclosed AMPScript to the end of the document', () => {
+    const code = '<p>%%[ SET @a = 1 </p>'
+    const regions = splitDocument(code)
+
+    expect(regions[regions.length - 1]).toMatchObject({ language: 'ampscript', end: code.length })
+  })
+})
+
+describe('EmbeddedSource', () => {
+  it('should map positions in the extracted code back to the document', () => {
+    const css = extractEmbeddedSources(page).find(source => source.language === 'css')!
+
+    expect(css.code).toBe('\n  h1 { color:  }\n')
+    expect(css.toDocumentPosition(2, 3)).toEqual({ line: 5, column: 3 })
+    // The closing brace after the cut-out AMPScript expression
+    expect(css.toDocumentPosition(2, 16)).toEqual({ line: 5, column: 31 })
+  })
+})
+
+describe('DocumentValidator', () => {
+  it('should report issues of each embedded language at document positions', async () => {
+    const errors = await new DocumentValidator('cloudpage').validateSyntax(page)
+    const semicolon = errors.find(e => e.rule === 'js-semicolon')
+
+    expect(semicolon).toMatchObject({ line: 13, language: 'javascript' })
+    expect(errors.every(e => e.line >= 1 && e.line <= 16)).toBe(true)
+  })
+
+  it('should not report the script tags of server scripts', async () => {
+    const validator = new DocumentValidator('cloudpage')
+    const issues = [...await validator.validateSyntax(page), ...await validator.validateSemantics(page)]
+
+    expect(issues.filter(e => /runat/.test(e.message))).toEqual([])
+    expect(issues.some(e => e.rule === 'ampscript-mixed-languages')).toBe(false)
+  })
+
+  it('should only report elements that are never closed as unclosed', async () => {
+    const validator = new DocumentValidator('cloudpage')
+    expect((await validator.validateSyntax(page)).filter(e => e.rule === 'html-unclosed-tag')).toEqual([])
+
+    const unclosed = page.replace('<body>', '<body>\n<div class="card">')
+    expect((await validator.validateSyntax(unclosed)).filter(e => e.rule === 'html-unclosed-tag')).toEqual([
+      expect.objectContaining({ line: 9, column: 1, message: 'Unclosed tag: div' })
+    ])
+  })
+
+  it('should apply fixes from embedded languages to the document', async () => {
+    const validator = new DocumentValidator('cloudpage')
+    const errors = await validator.validateSyntax(page)
+
+    const fixed = await validator.generateFixedCode(page, errors)
+
+    expect(fixed.split('\n')).toContain('  var x = 1;')
+    expect(fixed.split('\n')).toContain('  h1 { color: %%=v(@color)=%% }')
+  })
+
+  it('should warn when SSJS reads an AMPScript variable that is never set', async () => {
+    const code = [
+      '%%[ SET @firstName = "Jane" ]%%',
+      '<script runat="server">',
+      '  var first = Variable.GetValue("@firstName");',
+      '  var last = Variable.GetValue("@lastName");',
+      '  var plain = Platform.Variable.GetValue("firstName");',
+      '</script>'
+    ].join('\n')
+
+    const issues = await new DocumentValidator('cloudpage').validateSemantics(code)
+    const undefinedReads = issues.filter(e => e.rule === 'document-undefined-variable')
+    const prefix = issues.find(e => e.rule === 'document-variable-prefix')
+
+    expect(undefinedReads.map(e => e.line)).toEqual([4])
+    expect(undefinedReads[0].message).toContain('@lastName')
+    expect(prefix).toMatchObject({ line: 5, fix: { kind: 'safe' } })
+  })
+
+  it('should tell when an AMPScript variable is only set after the SSJS that reads it', async () => {
+    const code = '<script runat="server">Variable.GetValue("@total")</script>\n%%[ SET @total = 1 ]%%'
+
+    const issues = await new DocumentValidator('cloudpage').validateSemantics(code)
+
+    expect(issues.find(e => e.rule === 'document-undefined-variable')?.message).toContain('only set after')
+  })
+
+  it('should not report AMPScript variables that SSJS sets or reads as undefined or unused', async () => {
+    const code = [
+      '<script runat="server">',
+      '  Variable.SetValue("@status", "active");',
+      '  var greeting = Variable.GetValue("@greeting");',
+      '</script>',
+      '%%[ SET @greeting = "Hi" ]%%',
+      '<p>%%=v(@status)=%%</p>'
+    ].join('\n')
+
+    const issues = await new DocumentValidator('cloudpage').validateSemantics(code)
+
+    expect(issues.some(e => e.rule === 'ampscript-undefined-variable')).toBe(false)
+    expect(issues.some(e => e.rule === 'ampscript-unused-variable')).toBe(false)
+  })
+
+  it('should flag client-side scripts in emails only', async () => {
+    const email = await new DocumentValidator('email').validateSemantics(page)
+    const cloudpage = await new DocumentValidator('cloudpage').validateSemantics(page)
+
+    expect(email.filter(e => e.rule === 'document-email-script')).toEqual([
+      expect.objectContaining({ line: 12, column: 1 })
+    ])
+    expect(cloudpage.some(e => e.rule === 'document-email-script')).toBe(false)
+  })
+
+  it('should map best practice violations of embedded code to document lines', async () => {
+    const code = `<p>Hello</p>\n<script runat="server">\n  var x = "${'a'.repeat(130)}";\n</script>`
+
+    const violations = await new BestPracticesAnalyzer().analyze(code, 'cloudpage')
+
+    expect(violations.find(v => v.rule === 'line-length')?.line).toBe(3)
+  })
+
+  it('should check trailing whitespace on the lines as written', async () => {
+    const code = '<div>\n  %%[ IF @count == 1 THEN ]%%\n<p>One</p>\n  %%[ ENDIF ]%%\n<p>Done</p>   \n</div>'
+
+    const violations = await new BestPracticesAnalyzer().analyze(code, 'cloudpage')
+
+    expect(violations.filter(v => v.rule === 'structure_trailing_whitespace')).toEqual([
+      expect.objectContaining({ line: 5, column: 11 })
+    ])
+  })
+})
@@ -0,0 +1,161 @@
+import {
+  BUNDLED_EMAIL_SUPPORT_MATRIX,
+  EmailCompatibilityChecker,
+  parseEmailSupportMatrix,
+  updateEmailSupportMatrix
+} from '../email-compatibility'
+import { CSSValidator } from '../validators/css-validator'
+import { HTMLValidator } from '../validators/html-validator'
+import { DocumentValidator } from '../validators/document-validator'
+
+const isEmailRule = (rule: string) => rule.includes('-email-')
+const findings = (issues: Array<{ rule: string, id: string, line: number }>) =>
+  issues.filter(issue => isEmailRule(issue.rule)).map(issue => `${issue.id.replace(/_\d+_\d+$/, '')}@${issue.line}`)
+
+describe('EmailCompatibilityChecker', () => {
+  const checker = new EmailCompatibilityChecker()
+
+  it('should report properties, values, selectors and at-rules with the clients they affect', () => {
+    const css = [
+      '.row { display: flex; color: #333; }',
+      '.card { border-radius: 4px; width: calc(100% - 20px); }',
+      'a[href^="tel"] { color: inherit; }',
+      '@media (prefers-color-scheme: dark) {',
+      '  .card:hover { background-color: #000; }',
+      '}',
+      '@import url("https://example.com/email.css");',
+      '/* position: absolute; is commented out */'
+    ].join('\n')
+
+    expect(findings(checker.checkStylesheet(css))).toEqual([
+      'email_css-display-flex@1',
+      'email_css-border-radius@2',
+      'email_css-calc@2',
+      'email_css-selector-attribute@3',
+      'email_css-media@4',
+      'email_css-media-prefers-color-scheme@4',
+      'email_css-selector-hover@5',
+      'email_css-import@7'
+    ])
+
+    const [flex] = checker.checkStylesheet(css)
+    expect(flex).toMatchObject({
+      rule: 'css-email-client-support',
+      category: 'compatibility',
+      severity: 'warning',
+      line: 1,
+      column: 8,
+      message: 'display: flex is not supported in Outlook for Windows (Word engine) and Gmail apps with non-Google accounts'
+    })
+  })
+
+  it('should name clients with partial support and their notes', () => {
+    const [issue] = checker.checkStylesheet('img { float: left; }')
+
+    expect(issue).toMatchObject({
+      severity: 'info',
+      message: 'float is only partly supported in Outlook for Windows (Word engine) (only on images and tables)'
+    })
+  })
+
+  it('should skip @keyframes steps and match vendor-prefixed names', () => {
+    const css = '@-webkit-keyframes pulse { from { opacity: 0; } to { opacity: 1; } }\n.pulse { -webkit-animation: pulse 1s; }'
+
+    expect(findings(checker.checkStylesheet(css))).toEqual(['email_css-keyframes@1', 'email_css-animation@2'])
+  })
+
+  it('should report class names with escaped characters for Gmail', () => {
+    const [issue] = checker.checkStylesheet('.md\\:w-full { width: 100%; }')
+
+    expect(issue).toMatchObject({ rule: 'css-email-gmail-class-name', column: 1, endColumn: 12 })
+    expect(issue.message).toContain('"md:w-full"')
+  })
+
+  it('should check elements, style attributes and <style> contents of HTML', () => {
+    const html = [
+      '<html><head><style>',
+      '.hero { position: relative; }',
+      '</style></head><body>',
+      '<div style="display: grid; color: red">',
+      '<video src="intro.mp4"></video>',
+      '<!--[if mso]><v:rect><svg></svg></v:rect><![endif]-->',
+      '<!--[if !mso]><!--><div style="max-width: 600px"></div><!--<![endif]-->',
+      '</div></body></html>'
+    ].join('\n')
+
+    expect(findings(checker.checkHTML(html))).toEqual([
+      'email_html-style@1',
+      'email_css-position@2',
+      'email_css-display-grid@4',
+      'email_html-video@5'
+    ])
+
+    const grid = checker.checkHTML(html).find(issue => issue.id.startsWith('email_css-display-grid'))!
+    expect(grid).toMatchObject({ line: 4, column: 13 })
+  })
+
+  it('should report <style> elements above the Gmail size limit', () => {
+    const rules = Array.from({ length: 700 }, (_, i) => `.c${i} { color: #000000; padding: 0; }`).join('\n')
+    const [issue] = checker.checkStyleSizes(`<html>\n<style>${rules}</style>\n<style>.a { color: red; }</style></html>`)
+
+    expect(issue).toMatchObject({ rule: 'html-email-gmail-style-size', line: 2, column: 1, severity: 'warning' })
+    expect(issue.message).toMatch(/its \d+\.\d KB exceed the 16 KB limit/)
+    expect(checker.checkStyleSizes(`<style>${rules}</style>`.slice(0, 1000))).toEqual([])
+  })
+})
+
+describe('email support matrix', () => {
+  it('should validate the bundled matrix and reject unknown clients and patterns', () => {
+    expect(BUNDLED_EMAIL_SUPPORT_MATRIX.clients.map(client => client.id)).toContain('outlook-windows')
+
+    expect(() => parseEmailSupportMatrix({
+      ...BUNDLED_EMAIL_SUPPORT_MATRIX,
+      features: [{ id: 'x', kind: 'css-selector', title: 'x', pattern: '(', support: { hotmail: 'none' } }]
+    })).toThrow(/Unknown client/)
+  })
+
+  it('should let an update replace and add features', () => {
+    const matrix = updateEmailSupportMatrix(BUNDLED_EMAIL_SUPPORT_MATRIX, {
+      version: '2025.01',
+      features: [
+        { id: 'css-display-flex', kind: 'css-value', title: 'display: flex', name: 'display', pattern: '^flex', support: {} },
+        { id: 'css-gap', kind: 'css-property', title: 'gap', name: 'gap', support: { 'outlook-windows': 'none' } }
+      ]
+    })
+    const checker = new EmailCompatibilityChecker(matrix)
+
+    expect(matrix.version).toBe('2025.01')
+    expect(findings(checker.checkStylesheet('.row { display: flex; gap: 8px; }'))).toEqual(['email_css-gap@1'])
+  })
+})
+
+describe('email profile of the validators', () => {
+  it('should only run for the email profile or an email context', async () => {
+    const css = '.row { display: flex; }'
+    const emailContext = { emailContext: { emailType: 'promotional' as const, hasPersonalization: false, hasAMPScript: false } }
+
+    expect(findings(await new CSSValidator().validateSemantics(css))).toEqual([])
+    expect(findings(await new CSSValidator({ profile: 'email' }).validateSemantics(css))).toEqual(['email_css-display-flex@1'])
+    expect(findings(await new CSSValidator().validateSemantics(css, emailContext))).toEqual(['email_css-display-flex@1'])
+    expect(findings(await new HTMLValidator({ profile: 'email' }).validateSemantics('<form action="/x"></form>'))).toEqual(['email_html-form@1'])
+  })
+
+  it('should check each part of an email once, at document positions', async () => {
+    const email = [
+      '<html><head>',
+      '<style>',
+      '.cta { border-radius: 4px; }',
+      '</style></head>',
+      '<body><div style="opacity: 0.5">%%=v(@name)=%%</div></body></html>'
+    ].join('\n')
+
+    const issues = (await new DocumentValidator('email').validateSemantics(email)).filter(issue => isEmailRule(issue.rule))
+
+    expect(issues.map(issue => `${issue.rule}:${issue.language}@${issue.line}:${issue.column}`)).toEqual([
+      'html-email-client-support:html@2:1',
+      'css-email-client-support:html@5:19',
+      'css-email-client-support:css@3:8'
+    ])
+    expect((await new DocumentValidator('cloudpage').validateSemantics(email)).filter(issue => isEmailRule(issue.rule))).toEqual([])
+  })
+})
@@ -0,0 +1,144 @@
+import { CodeFix, DebugError } from '../../../types/debugging'
+import { FixEngine, FixValidator, applyFixes } from '../fix-engine'
+import { lineEdit } from '../parsers/source-text'
+import { AMPScriptValidator } from '../validators/ampscript-validator'
+import { SQLValidator } from '../validators/sql-validator'
+
+function issue(id: string, fix: CodeFix): DebugError {
+  return { id, line: 1, column: 1, severity: 'error', message: id, rule: `test-${id}`, category: 'syntax', fix }
+}
+
+function replace(line: number, column: number, endColumn: number, replacement: string, kind: CodeFix['kind'] = 'safe'): CodeFix {
+  return { kind, description: `Replace with ${replacement}`, edits: [lineEdit(line, column, endColumn, replacement)] }
+}
+
+// Reports every ';;' as a fix that collapses it to ';'
+const doubleSemicolons: FixValidator = {
+  validateSyntax: async (code: string) => {
+    const errors: DebugError[] = []
+    for (let i = code.indexOf(';;'); i !== -1; i = code.indexOf(';;', i + 1)) {
+      errors.push(issue(`semi_${i}`, replace(1, i + 1, i + 3, ';')))
+    }
+    return errors
+  },
+  validateSemantics: async () => []
+}
+
+describe('applyFixes', () => {
+  it('should apply edits on several lines in one pass', () => {
+    const result = applyFixes('a = 1\nb = 2', [
+      issue('one', replace(1, 3, 4, '==')),
+      issue('two', replace(2, 3, 4, '=='))
+    ])
+
+    expect(result.code).toBe('a == 1\nb == 2')
+    expect(result.applied).toHaveLength(2)
+  })
+
+  it('should leave out fixes that overlap a fix earlier in the code', () => {
+    const first = issue('first', replace(1, 1, 4, 'xyz'))
+    const second = issue('second', replace(1, 3, 5, '--'))
+
+    const result = applyFixes('abcdef', [second, first])
+
+    expect(result.code).toBe('xyzdef')
+    expect(result.conflicts).toEqual([second])
+  })
+
+  it('should treat two insertions at the same position as a conflict', () => {
+    const result = applyFixes('abc', [issue('one', replace(1, 2, 2, 'X')), issue('two', replace(1, 2, 2, 'Y'))])
+
+    expect(result.code).toBe('aXbc')
+    expect(result.conflicts.map(e => e.id)).toEqual(['two'])
+  })
+
+  it('should apply a fix reported by several rules only once', () => {
+    const result = applyFixes('abc', [issue('one', replace(1, 2, 3, 'B')), issue('two', replace(1, 2, 3, 'B'))])
+
+    expect(result.code).toBe('aBc')
+    expect(result.applied).toHaveLength(2)
+    expect(result.conflicts).toHaveLength(0)
+  })
+
+  it('should reject a fix whose own edits overlap', () => {
+    const fix: CodeFix = { kind: 'safe', description: 'broken', edits: [lineEdit(1, 1, 3, 'x'), lineEdit(1, 2, 4, 'y')] }
+
+    const result = applyFixes('abcd', [issue('broken', fix)])
+
+    expect(result.code).toBe('abcd')
+    expect(result.conflicts).toHaveLength(1)
+  })
+})
+
+describe('FixEngine', () => {
+  it('should only apply safe fixes by default', async () => {
+    const errors = [issue('safe', replace(1, 1, 2, 'A')), issue('unsafe', replace(1, 3, 4, 'C', 'unsafe'))]
+    const noIssues: FixValidator = { validateSyntax: async () => [], validateSemantics: async () => [] }
+
+    const result = await new FixEngine().fixCode('abc', errors, noIssues)
+
+    expect(result.code).toBe('Abc')
+    expect(result.applied.map(fix => fix.errorId)).toEqual(['safe'])
+
+    const withUnsafe = await new FixEngine({ kinds: ['safe', 'unsafe'] }).fixCode('abc', errors, noIssues)
+    expect(withUnsafe.code).toBe('AbC')
+  })
+
+  it('should revalidate and apply fixes until the code is stable', async () => {
+    const code = 'a;;;;'
+    const errors = await doubleSemicolons.validateSyntax(code)
+
+    const result = await new FixEngine().fixCode(code, errors, doubleSemicolons)
+
+    expect(result.code).toBe('a;')
+    expect(result.stable).toBe(true)
+    expect(result.passes).toBeGreaterThan(1)
+  })
+
+  it('should stop when fixes undo each other', async () => {
+    const flipFlop: FixValidator = {
+      validateSyntax: async (code: string) => [issue('flip', replace(1, 1, 2, code.startsWith('a') ? 'b' : 'a'))],
+      validateSemantics: async () => []
+    }
+
+    const result = await new FixEngine().fixCode('a', await flipFlop.validateSyntax('a'), flipFlop)
+
+    expect(result.stable).toBe(false)
+    expect(result.passes).toBeLessThan(10)
+  })
+
+  it('should stop after maxPasses', async () => {
+    const code = 'a;;;;;;;;'
+    const errors = await doubleSemicolons.validateSyntax(code)
+
+    const result = await new FixEngine({ maxPasses: 1 }).fixCode(code, errors, doubleSemicolons)
+
+    expect(result.passes).toBe(1)
+    expect(result.stable).toBe(false)
+  })
+})
+
+describe('validator fixes', () => {
+  it('should fix AMPScript comparisons and variable output without touching other lines', async () => {
+    const validator = new AMPScriptValidator()
+    const code = '%%[ SET @a = 1\nIF @a = 1 THEN ]%%\n<p>%%=@a=%%</p>\n%%[ ENDIF ]%%'
+    const errors = await validator.validateSyntax(code)
+
+    expect(errors.find(e => e.rule === 'ampscript-comparison')?.fix?.kind).toBe('safe')
+
+    const fixed = await validator.generateFixedCode(code, errors)
+
+    expect(fixed).toBe('%%[ SET @a = 1\nIF @a == 1 THEN ]%%\n<p>%%=v(@a)=%%</p>\n%%[ ENDIF ]%%')
+  })
+
+  it('should offer removing SELECT INTO as an unsafe fix', async () => {
+    const validator = new SQLValidator()
+    const code = 'SELECT SubscriberKey\nINTO Target\nFROM Members'
+    const errors = await validator.validateSyntax(code)
+    const selectInto = errors.find(e => e.rule === 'sfmc-sql-select-into')
+
+    expect(selectInto?.fix?.kind).toBe('unsafe')
+    expect(applyFixes(code, [selectInto!]).code).toBe('SELECT SubscriberKey\n\nFROM Members')
+    expect(await validator.generateFixedCode(code, errors)).toBe(code)
+  })
+})
@@ -0,0 +1,228 @@
+import { performance } from 'perf_hooks'
+import { AnalysisLanguage, BestPracticeViolation, DebugError, LanguageValidator, TextDelta } from '../../../types/debugging'
+import { AMPScriptValidator } from '../validators/ampscript-validator'
+import { SSJSValidator } from '../validators/ssjs-validator'
+import { DocumentValidator } from '../validators/document-validator'
+import { BestPracticesAnalyzer } from '../analyzers/best-practices-analyzer'
+import { DocumentVersionError, IncrementalDocument, splitAnalysisBlocks } from '../incremental-document'
+import { TextDeltasSchema, applyTextDeltas, computeTextDelta } from '../text-deltas'
+
+// CloudPage of about 9 lines per section, with a few issues of each kind
+function cloudPage(sections: number): string {
+  const lines = ['<!DOCTYPE html>', '<html>', '<head>', '<style>']
+  for (let i = 0; i < sections; i++) lines.push(`  .item-${i} { color: #333; margin: 0 auto; }`)
+  lines.push('</style>', '</head>', '<body>', '%%[ VAR @shared, @unused ]%%')
+
+  for (let i = 0; i < sections; i++) {
+    lines.push(
+      `%%[ SET @name${i} = AttributeValue("Field${i}")`,
+      i % 25 === 0 ? `IF @name${i} = "x" THEN ]%%` : `IF NOT EMPTY(@name${i}) THEN ]%%`,
+      `<div class="item-${i}"><p>Hello %%=v(@name${i})=%%</p></div>`,
+      '%%[ ENDIF ]%%',
+      '<script runat="server">',
+      `  var v${i} = Variable.GetValue("@name${i}")${i % 30 === 0 ? '' : ';'}`,
+      `  Write(v${i});`,
+      '</script>'
+    )
+  }
+
+  lines.push('%%[ SET @shared = 1 ]%%', '<script>', '  var x = 1;', '</script>', '</body>', '</html>')
+  return lines.join('\n')
+}
+
+// Indented CloudPage with AMPScript blocks spread over several lines
+function preferencePage(rows: number): string {
+  const lines = ['<!DOCTYPE html>', '<html>', '<head>', '<style>', '  body { font-family: Arial; }', '</style>', '</head>', '<body>']
+  for (let i = 0; i < rows; i++) {
+    lines.push(
+      '  <div class="row">',
+      `  %%[ IF RequestParameter("f${i}") == "1" THEN`,
+      `    SET @v${i} = Lookup("Prefs", "Value", "Key", "k${i}")`,
+      '  ]%%',
+      `    <p>Value:  %%=v(@v${i})=%%</p>`,
+      '  %%[ ENDIF ]%%',
+      '   <span>Saved</span> ',
+      '  </div>',
+      '<script runat="server">',
+      `  var x${i} = Platform.Function.Lookup("Prefs", "Value", "Key", "k${i}");`,
+      `  if (x${i}) { Write(x${i}) }`,
+      '</script>'
+    )
+  }
+  lines.push('</body>', '</html>')
+  return lines.join('\n')
+}
+
+function ssjsScript(functions: number): string {
+  const lines = ['<script runat="server">', 'Platform.Load("core", "1");']
+  for (let i = 0; i < functions; i++) {
+    lines.push(`function load${i}(key) {`, `  var rows = DataExtension.Init("DE${i}").Rows.Lookup(["Key"], [key])`, '  return rows;', '}')
+  }
+  lines.push('</script>')
+  return lines.join('\n')
+}
+
+const signature = (issue: DebugError | BestPracticeViolation) =>
+  `${issue.rule}|${issue.line}|${issue.column}|${issue.severity}|${issue.message}`
+
+const signatures = (issues: Array<DebugError | BestPracticeViolation>) => issues.map(signature).sort()
+
+const replaceLine = (text: string, line: number, replacement: string) => {
+  const lines = text.split('\n')
+  lines[line] = replacement
+  return lines.join('\n')
+}
+
+const lineOf = (text: string, content: string) => text.split('\n').indexOf(content)
+
+async function elapsed(run: () => Promise<unknown>): Promise<number> {
+  const start = performance.now()
+  await run()
+  return performance.now() - start
+}
+
+describe('text deltas', () => {
+  it('should apply deltas in order and describe an edit as one delta', () => {
+    expect(applyTextDeltas('SET @a = 1', [{ start: 4, end: 6, text: '@name' }, { start: 12, end: 13, text: '2' }])).toBe('SET @name = 2')
+
+    const previous = 'line 1\nline 2\nline 3'
+    const next = 'line 1\nline two\nline 3'
+    const deltas = computeTextDelta(previous, next)
+
+    expect(deltas).toEqual([{ start: 12, end: 13, text: 'two' }])
+    expect(applyTextDeltas(previous, deltas)).toBe(next)
+    expect(computeTextDelta(next, next)).toEqual([])
+  })
+
+  it('should reject deltas outside the text', () => {
+    expect(() => applyTextDeltas('abc', [{ start: 2, end: 5, text: '' }])).toThrow(RangeError)
+  })
+
+  it('should reject deltas without text', () => {
+    expect(() => applyTextDeltas('abc', [{ start: 0, end: 1 } as TextDelta])).toThrow(TypeError)
+    expect(TextDeltasSchema.safeParse([{ start: 0, end: 1 }]).success).toBe(false)
+    expect(TextDeltasSchema.safeParse([null]).success).toBe(false)
+    expect(TextDeltasSchema.safeParse([{ start: 0, end: 1, text: 'x' }]).success).toBe(true)
+  })
+})
+
+describe('splitAnalysisBlocks', () => {
+  it('should not cut inside embedded scripts, styles or AMPScript IF statements', () => {
+    const page = cloudPage(40)
+    const blocks = splitAnalysisBlocks(page, 'cloudpage')
+    const lines = page.split('\n')
+
+    expect(blocks.length).toBeGreaterThan(5)
+    expect(blocks.map(block => block.text).join('\n')).toBe(page)
+    blocks.slice(1).forEach(block => {
+      expect(lines[block.startLine]).not.toMatch(/^(\s+var|\s+Write|IF|<div|\s+\.item)/)
+      expect(block.text).toMatch(/%%\[|%%=/)
+    })
+  })
+
+  it('should keep SQL in one block', () => {
+    expect(splitAnalysisBlocks('SELECT a\nFROM b\n'.repeat(50), 'sql')).toHaveLength(1)
+  })
+})
+
+describe('IncrementalDocument', () => {
+  const cases: Array<[AnalysisLanguage, LanguageValidator, string, string, string]> = [
+    ['cloudpage', new DocumentValidator('cloudpage'), cloudPage(60), '%%[ SET @name7 = AttributeValue("Field7")', '%%[ SET @name7 = Lookup("Members", "Name", "Id", 7)'],
+    ['ssjs', new SSJSValidator(), ssjsScript(80), '  return rows;', '  return rows'],
+    ['ampscript', new AMPScriptValidator(), cloudPage(30), '%%[ SET @shared = 1 ]%%', '%%[ SET @other = 1 ]%%']
+  ]
+
+  it.each(cases)('should report the same %s issues as validating the whole code', async (language, validator, code, line, edited) => {
+    const document = new IncrementalDocument(language, code, 1)
+    expect(signatures(await document.validateSyntax(validator))).toEqual(signatures(await validator.validateSyntax(code)))
+
+    const next = replaceLine(code, lineOf(code, line), edited)
+    document.applyDeltas(computeTextDelta(code, next), 1, 2)
+
+    expect(signatures(await document.validateSyntax(validator))).toEqual(signatures(await validator.validateSyntax(next)))
+  })
+
+  it('should report VAR declarations as uninitialised only when no block sets them', async () => {
+    const validator = new DocumentValidator('cloudpage')
+    const page = cloudPage(40)
+    const document = new IncrementalDocument('cloudpage', page)
+
+    const issues = (await document.validateSyntax(validator)).filter(issue => issue.rule === 'ampscript-var-init')
+    expect(issues.map(issue => issue.message)).toEqual(['Variable @unused declared but not initialized'])
+
+    document.replace(replaceLine(page, lineOf(page, '%%[ SET @shared = 1 ]%%'), ''), 1)
+    const after = (await document.validateSyntax(validator)).filter(issue => issue.rule === 'ampscript-var-init')
+    expect(after.map(issue => issue.message).sort()).toEqual([
+      'Variable @shared declared but not initialized',
+      'Variable @unused declared but not initialized'
+    ])
+  })
+
+  it('should report the same best practice violations as analysing the whole code', async () => {
+    const analyzer = new BestPracticesAnalyzer()
+    const page = cloudPage(60)
+    const document = new IncrementalDocument('cloudpage', page)
+    await document.enforceBestPractices(analyzer)
+
+    const next = replaceLine(page, lineOf(page, '  Write(v12);'), '  Write(v12); eval(v12);')
+    document.replace(next, 1)
+
+    expect(signatures(await document.enforceBestPractices(analyzer))).toEqual(signatures(await analyzer.analyze(next, 'cloudpage')))
+  })
+
+  it('should report the same best practice violations as analysing the whole page when lines are indented', async () => {
+    const analyzer = new BestPracticesAnalyzer()
+    const page = preferencePage(40)
+    const document = new IncrementalDocument('cloudpage', page)
+
+    expect(document.getBlocks().length).toBeGreaterThan(5)
+    expect(signatures(await document.enforceBestPractices(analyzer))).toEqual(signatures(await analyzer.analyze(page, 'cloudpage')))
+  })
+
+  it('should re-validate only the edited block of a 2,000 line CloudPage, faster than the whole page', async () => {
+    const validator = new DocumentValidator('cloudpage')
+    const page = cloudPage(220)
+    expect(page.split('\n').length).toBeGreaterThan(1990)
+
+    const document = new IncrementalDocument('cloudpage', page)
+    await document.validateSyntax(validator)
+    await validator.validateSyntax(page)
+
+    let text = page
+    const full: number[] = []
+    const incremental: number[] = []
+    for (let edit = 0; edit < 5; edit++) {
+      const next = replaceLine(text, lineOf(text, `  Write(v${100 + edit});`), `  Write(v${100 + edit} + "!");`)
+      document.applyDeltas(computeTextDelta(text, next), edit, edit + 1)
+      text = next
+
+      incremental.push(await elapsed(() => document.validateSyntax(validator)))
+      expect(document.stats.reanalyzed).toBe(1)
+      full.push(await elapsed(() => validator.validateSyntax(text)))
+    }
+
+    const median = (times: number[]) => [...times].sort((a, b) => a - b)[Math.floor(times.length / 2)]
+    expect(document.stats.blocks).toBeGreaterThan(20)
+    expect(median(incremental) * 2).toBeLessThan(median(full))
+  })
+
+  it('should keep the blocks after an inserted line', async () => {
+    const validator = new DocumentValidator('cloudpage')
+    const page = cloudPage(120)
+    const document = new IncrementalDocument('cloudpage', page)
+    await document.validateSyntax(validator)
+
+    const at = page.indexOf('%%[ SET @name60')
+    document.applyDeltas([{ start: at, end: at, text: '<p>New paragraph</p>\n' }], 0, 1)
+    await document.validateSyntax(validator)
+
+    expect(document.stats.reanalyzed).toBeLessThanOrEqual(2)
+  })
+
+  it('should reject deltas based on another version', () => {
+    const document = new IncrementalDocument('ampscript', '%%[ SET @a = 1 ]%%', 3)
+
+    expect(() => document.applyDeltas([{ start: 0, end: 0, text: ' ' }], 2, 4)).toThrow(DocumentVersionError)
+    expect(document.version).toBe(3)
+  })
+})
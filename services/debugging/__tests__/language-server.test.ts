@@ -0,0 +1,228 @@
+import { PassThrough } from 'stream'
+import { AnalysisLanguage, CodeAnalysisRequest, CodeAnalysisResult, LanguageValidator } from '../../../types/debugging'
+import { AMPScriptValidator } from '../validators/ampscript-validator'
+import { SSJSValidator } from '../validators/ssjs-validator'
+import { DocumentValidator } from '../validators/document-validator'
+import { JsonRpcConnection, JsonRpcMessage, MessageReader, encodeMessage } from '../lsp/json-rpc'
+import { CodeAction, Diagnostic, LanguageServerServices, SFMCLanguageServer, detectLanguage } from '../lsp/language-server'
+
+const validators: Partial<Record<AnalysisLanguage, LanguageValidator>> = {
+  ampscript: new AMPScriptValidator(),
+  ssjs: new SSJSValidator(),
+  cloudpage: new DocumentValidator('cloudpage')
+}
+
+// Validators only, standing in for the services that need the full service setup
+const services: LanguageServerServices = {
+  analysis: {
+    analyzeCode: async (request: CodeAnalysisRequest): Promise<CodeAnalysisResult> => {
+      const validator = validators[request.language]!
+      const errors = await validator.validateSyntax(request.code)
+      return {
+        id: 'analysis',
+        code: request.code,
+        language: request.language,
+        analysisLevel: request.analysisLevel,
+        errors,
+        warnings: [],
+        performanceIssues: [],
+        bestPracticeViolations: [],
+        optimizationSuggestions: [],
+        fixedCode: await validator.generateFixedCode(request.code, errors),
+        confidence: 1,
+        processingTime: 0,
+        createdAt: new Date()
+      }
+    }
+  },
+  realtime: {
+    analyzeCodeRealTime: async (code: string, language: AnalysisLanguage) => {
+      const errors = await validators[language]!.validateSyntax(code)
+      return { errors, warnings: [], suggestions: [], isValid: errors.length === 0, lastUpdated: new Date() }
+    },
+    clearCache: () => {}
+  }
+}
+
+class TestClient {
+  readonly messages: JsonRpcMessage[] = []
+  readonly exitCodes: number[] = []
+  private readonly input = new PassThrough()
+  private nextId = 1
+
+  constructor() {
+    const output = new PassThrough()
+    const reader = new MessageReader(message => this.messages.push(message), error => { throw error })
+    output.on('data', chunk => reader.feed(chunk))
+
+    const connection = new JsonRpcConnection(this.input, output)
+    new SFMCLanguageServer(connection, services, code => this.exitCodes.push(code))
+    connection.listen()
+  }
+
+  async request(method: string, params?: unknown): Promise<JsonRpcMessage> {
+    const id = this.nextId++
+    this.input.write(encodeMessage({ jsonrpc: '2.0', id, method, params }))
+    return this.waitFor(message => message.id === id)
+  }
+
+  notify(method: string, params?: unknown): void {
+    this.input.write(encodeMessage({ jsonrpc: '2.0', method, params }))
+  }
+
+  async diagnostics(uri: string, count = 1): Promise<Diagnostic[]> {
+    const published = () => this.messages.filter(m => m.method === 'textDocument/publishDiagnostics' && (m.params as any).uri === uri)
+    await this.waitFor(() => published().length >= count)
+    return (published()[count - 1].params as any).diagnostics
+  }
+
+  private async waitFor(predicate: (message: JsonRpcMessage) => boolean): Promise<JsonRpcMessage> {
+    for (let attempt = 0; attempt < 200; attempt++) {
+      const message = this.messages.find(predicate)
+      if (message) return message
+      await new Promise(resolve => setTimeout(resolve, 5))
+    }
+    throw new Error('Timed out waiting for a message from the server')
+  }
+}
+
+const comparison = '%%[ SET @a = 1\nIF @a = 1 THEN ]%%\n<p>%%=@a=%%</p>\n%%[ ENDIF ]%%'
+
+async function openDocument(client: TestClient, uri: string, text: string, languageId = 'ampscript') {
+  await client.request('initialize', { capabilities: {} })
+  client.notify('textDocument/didOpen', { textDocument: { uri, languageId, version: 1, text } })
+  return client.diagnostics(uri)
+}
+
+describe('MessageReader', () => {
+  it('should split messages that arrive in arbitrary chunks', () => {
+    const messages: JsonRpcMessage[] = []
+    const reader = new MessageReader(message => messages.push(message), error => { throw error })
+    const stream = encodeMessage({ jsonrpc: '2.0', method: 'a', params: { text: 'ünïcode' } }) + encodeMessage({ jsonrpc: '2.0', id: 1, result: null })
+    const bytes = Buffer.from(stream, 'utf8')
+
+    for (let i = 0; i < bytes.length; i += 7) reader.feed(bytes.subarray(i, i + 7))
+
+    expect(messages).toEqual([
+      { jsonrpc: '2.0', method: 'a', params: { text: 'ünïcode' } },
+      { jsonrpc: '2.0', id: 1, result: null }
+    ])
+  })
+})
+
+describe('SFMCLanguageServer', () => {
+  it('should advertise diagnostics, hovers and code actions on initialize', async () => {
+    const client = new TestClient()
+
+    const response = await client.request('initialize', { capabilities: {} })
+
+    expect((response.result as any).capabilities).toMatchObject({
+      textDocumentSync: { openClose: true, change: 1 },
+      hoverProvider: true,
+      codeActionProvider: { codeActionKinds: ['quickfix', 'source.fixAll'] }
+    })
+  })
+
+  it('should publish validator issues as 0-based diagnostics when a document opens', async () => {
+    const diagnostics = await openDocument(new TestClient(), 'file:///page.amp', comparison)
+    const issue = diagnostics.find(d => d.code === 'ampscript-comparison')
+
+    expect(issue).toMatchObject({ source: 'sfmc', severity: 1 })
+    expect(issue?.range.start.line).toBe(1)
+  })
+
+  it('should re-analyse edited documents with the realtime analyzer', async () => {
+    const client = new TestClient()
+    await openDocument(client, 'file:///page.amp', comparison)
+
+    client.notify('textDocument/didChange', {
+      textDocument: { uri: 'file:///page.amp', version: 2 },
+      contentChanges: [{ text: '%%[ SET @a = 1 ]%%' }]
+    })
+
+    expect(await client.diagnostics('file:///page.amp', 2)).toEqual([])
+  })
+
+  it('should turn structured fixes into quick fixes and offer a fix-all action', async () => {
+    const client = new TestClient()
+    const diagnostics = await openDocument(client, 'file:///page.amp', comparison)
+    const issue = diagnostics.find(d => d.code === 'ampscript-comparison')!
+
+    const response = await client.request('textDocument/codeAction', {
+      textDocument: { uri: 'file:///page.amp' },
+      range: issue.range,
+      context: { diagnostics: [issue] }
+    })
+    const [quickFix, fixAll] = response.result as CodeAction[]
+
+    expect(quickFix).toMatchObject({ kind: 'quickfix', isPreferred: true })
+    expect(quickFix.edit?.changes['file:///page.amp'][0].newText).toBe('==')
+    expect(fixAll.kind).toBe('source.fixAll.sfmc')
+    expect(fixAll.edit?.changes['file:///page.amp'][0].newText).toBe('%%[ SET @a = 1\nIF @a == 1 THEN ]%%\n<p>%%=v(@a)=%%</p>\n%%[ ENDIF ]%%')
+  })
+
+  it('should offer fix suggestions without edits as a command', async () => {
+    const client = new TestClient()
+    await openDocument(client, 'file:///page.amp', '%%[ SET @a = 1 ]%%')
+    const diagnostic: Diagnostic = {
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+      severity: 2,
+      code: 'test-rule',
+      source: 'sfmc',
+      message: 'Test',
+      data: { fixSuggestion: 'Cache the lookup result' }
+    }
+
+    const response = await client.request('textDocument/codeAction', {
+      textDocument: { uri: 'file:///page.amp' },
+      range: diagnostic.range,
+      context: { diagnostics: [diagnostic], only: ['quickfix'] }
+    })
+    const [action] = response.result as CodeAction[]
+    await client.request('workspace/executeCommand', { command: action.command!.command, arguments: action.command!.arguments })
+
+    expect(action.title).toBe('Cache the lookup result')
+    expect(client.messages.find(m => m.method === 'window/showMessage')?.params).toEqual({ type: 3, message: 'Cache the lookup result' })
+  })
+
+  it('should document AMPScript functions and SSJS functions in CloudPages on hover', async () => {
+    const client = new TestClient()
+    const page = '%%[ SET @rows = LookupRows("Members", "Status", "Active") ]%%\n<script runat="server">\n  var value = Platform.Function.Lookup("Members", "Name", "Id", 1);\n</script>'
+    await openDocument(client, 'file:///page.html', page, 'html')
+
+    const ampscript = await client.request('textDocument/hover', { textDocument: { uri: 'file:///page.html' }, position: { line: 0, character: 18 } })
+    const ssjs = await client.request('textDocument/hover', { textDocument: { uri: 'file:///page.html' }, position: { line: 2, character: 34 } })
+
+    expect((ampscript.result as any).contents.value).toContain('LookupRows(dataExtension, field1, value1 [, ...])')
+    expect((ssjs.result as any).contents.value).toContain('Platform.Function.Lookup(dataExtension, returnField')
+    expect((ssjs.result as any).range).toEqual({ start: { line: 2, character: 14 }, end: { line: 2, character: 38 } })
+  })
+
+  it('should clear diagnostics on close and exit cleanly after shutdown', async () => {
+    const client = new TestClient()
+    await openDocument(client, 'file:///page.amp', comparison)
+
+    client.notify('textDocument/didClose', { textDocument: { uri: 'file:///page.amp' } })
+    expect(await client.diagnostics('file:///page.amp', 2)).toEqual([])
+
+    await client.request('shutdown')
+    client.notify('exit')
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(client.exitCodes).toEqual([0])
+  })
+
+  it('should answer unknown requests with MethodNotFound', async () => {
+    const response = await new TestClient().request('textDocument/rename', {})
+
+    expect(response.error?.code).toBe(-32601)
+  })
+})
+
+describe('detectLanguage', () => {
+  it('should prefer the language id and fall back to the file extension', () => {
+    expect(detectLanguage('file:///a.txt', 'ampscript')).toBe('ampscript')
+    expect(detectLanguage('file:///page.html', 'html')).toBe('cloudpage')
+    expect(detectLanguage('file:///script.ssjs', 'plaintext')).toBe('ssjs')
+    expect(detectLanguage('file:///notes.txt', 'plaintext')).toBeUndefined()
+  })
+})
@@ -0,0 +1,61 @@
+import { ChildProcess, spawn } from 'child_process'
+import path from 'path'
+import { JsonRpcMessage, MessageReader, encodeMessage } from '../lsp/json-rpc'
+
+const SERVER = path.join(__dirname, '../lsp/server.ts')
+
+// Starts the server as `npm run lsp` does and talks to it over stdio
+describe('language server process', () => {
+  let server: ChildProcess
+  let messages: JsonRpcMessage[]
+  let waiting: (() => void) | undefined
+  let stderr: string
+
+  const send = (message: JsonRpcMessage) => server.stdin!.write(encodeMessage(message))
+
+  const response = async (id: number): Promise<JsonRpcMessage> => {
+    while (!messages.some(message => message.id === id)) {
+      await new Promise<void>((resolve, reject) => {
+        waiting = resolve
+        server.once('exit', code => reject(new Error(`Server exited with ${code}: ${stderr}`)))
+      })
+    }
+    return messages.find(message => message.id === id)!
+  }
+
+  beforeEach(() => {
+    messages = []
+    stderr = ''
+    server = spawn(process.execPath, [require.resolve('tsx/cli'), SERVER], { stdio: 'pipe' })
+
+    const reader = new MessageReader(message => {
+      messages.push(message)
+      waiting?.()
+    }, error => {
+      throw error
+    })
+    server.stdout!.on('data', chunk => reader.feed(chunk))
+    server.stderr!.on('data', chunk => {
+      stderr += chunk
+    })
+  })
+
+  afterEach(() => {
+    if (server.exitCode === null) server.kill()
+  })
+
+  it('should answer initialize and exit cleanly after shutdown', async () => {
+    send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { processId: null, rootUri: null, capabilities: {} } })
+
+    const initialized = await response(1)
+    expect(initialized.error).toBeUndefined()
+    expect(initialized.result).toMatchObject({ capabilities: expect.any(Object) })
+
+    const exited = new Promise<number | null>(resolve => server.once('exit', resolve))
+    send({ jsonrpc: '2.0', id: 2, method: 'shutdown' })
+    await response(2)
+    send({ jsonrpc: '2.0', method: 'exit' })
+
+    expect(await exited).toBe(0)
+  }, 60000)
+})
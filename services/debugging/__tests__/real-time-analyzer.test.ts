@@ -1,5 +1,6 @@
 import { RealTimeAnalyzer } from '../real-time-analyzer'
 import { CodeLanguage } from '../../../types/debugging'
+import { DocumentVersionError } from '../incremental-document'
 
 describe('RealTimeAnalyzer', () => {
   let analyzer: RealTimeAnalyzer
@@ -104,6 +105,35 @@ describe('RealTimeAnalyzer', () => {
     })
   })
 
+  describe('session documents', () => {
+    const edit = (sessionId: string) =>
+      analyzer.updateDocument(sessionId, { language: 'javascript', deltas: [{ start: 0, end: 0, text: '// ' }], baseVersion: 0 })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should drop the least recently used documents over the limit', () => {
+      analyzer.updateDocument('first', { language: 'javascript', code: 'var a = 1', version: 0 })
+      analyzer.updateDocument('second', { language: 'javascript', code: 'var b = 1', version: 0 })
+      edit('first')
+      for (let index = 0; index < 199; index++) {
+        analyzer.updateDocument(`session-${index}`, { language: 'javascript', code: 'var c = 1' })
+      }
+
+      expect(() => edit('second')).toThrow(DocumentVersionError)
+      expect(analyzer.updateDocument('first', { language: 'javascript', code: '// var a = 1' }).version).toBe(1)
+    })
+
+    it('should drop documents of idle sessions', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0)
+      analyzer.updateDocument('idle', { language: 'javascript', code: 'var a = 1', version: 0 })
+
+      now.mockReturnValue(31 * 60 * 1000)
+      expect(() => edit('idle')).toThrow(DocumentVersionError)
+    })
+  })
+
   describe('configuration', () => {
     it('should update configuration', () => {
       const newConfig = {
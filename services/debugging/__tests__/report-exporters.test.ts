@@ -0,0 +1,177 @@
+import { CodeAnalysisResult } from '../../../types/debugging'
+import { exportAnalysisResult, toJUnit, toSarif } from '../report-exporters'
+
+function analysisResult(overrides: Partial<CodeAnalysisResult> = {}): CodeAnalysisResult {
+  return {
+    id: 'analysis_1',
+    code: 'SELECT * FROM Subscribers',
+    language: 'sql',
+    analysisLevel: 'comprehensive',
+    errors: [],
+    warnings: [],
+    performanceIssues: [],
+    bestPracticeViolations: [],
+    optimizationSuggestions: [],
+    confidence: 0.9,
+    processingTime: 1500,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  }
+}
+
+const result = analysisResult({
+  errors: [{
+    id: 'e1',
+    line: 1,
+    column: 8,
+    endLine: 1,
+    endColumn: 9,
+    severity: 'error',
+    message: 'Unknown column "<Email>"',
+    rule: 'sql-unknown-column',
+    category: 'semantic',
+    fixSuggestion: 'Use EmailAddress'
+  }],
+  warnings: [{
+    id: 'w1',
+    line: 1,
+    column: 1,
+    severity: 'info',
+    message: 'Consider TOP',
+    rule: 'sql-top',
+    category: 'performance'
+  }],
+  performanceIssues: [{
+    id: 'p1',
+    line: 1,
+    column: 8,
+    severity: 'warning',
+    message: 'SELECT * reads every column',
+    rule: 'sql-select-star',
+    category: 'performance',
+    fix: {
+      kind: 'unsafe',
+      description: 'List the columns',
+      edits: [{ line: 1, column: 8, endLine: 1, endColumn: 9, replacement: 'SubscriberKey' }]
+    }
+  }],
+  bestPracticeViolations: [{
+    id: 'b1',
+    rule: 'select-star',
+    category: 'performance',
+    severity: 'warning',
+    message: 'Avoid SELECT *',
+    line: 1,
+    column: 7,
+    suggestion: 'Specify explicit column names',
+    documentation: 'Explicit columns are faster'
+  }]
+})
+
+describe('toSarif', () => {
+  it('should report every issue list with rule ids, levels and locations', () => {
+    const log = toSarif(result, { uri: 'queries/subscribers.sql' })
+    const [run] = log.runs
+
+    expect(log.version).toBe('2.1.0')
+    expect(run.tool.driver.rules.map(rule => rule.id)).toEqual(['sql-unknown-column', 'sql-top', 'sql-select-star', 'select-star'])
+    expect(run.results.map(r => `${r.ruleId} ${r.level}`)).toEqual([
+      'sql-unknown-column error',
+      'sql-top note',
+      'sql-select-star warning',
+      'select-star warning'
+    ])
+    expect(run.results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'queries/subscribers.sql' },
+      region: { startLine: 1, startColumn: 8, endLine: 1, endColumn: 9 }
+    })
+    expect(run.results[0].properties.fixSuggestion).toBe('Use EmailAddress')
+  })
+
+  it('should make best practice columns 1-based', () => {
+    const [run] = toSarif(result).runs
+
+    expect(run.results[3].locations[0].physicalLocation.region).toEqual({ startLine: 1, startColumn: 8 })
+    expect(run.results[3].ruleIndex).toBe(3)
+  })
+
+  it('should carry structured fixes as SARIF fixes', () => {
+    const [run] = toSarif(result).runs
+
+    expect(run.results[2].fixes).toEqual([{
+      description: { text: 'List the columns' },
+      artifactChanges: [{
+        artifactLocation: { uri: 'code.sql' },
+        replacements: [{
+          deletedRegion: { startLine: 1, startColumn: 8, endLine: 1, endColumn: 9 },
+          insertedContent: { text: 'SubscriberKey' }
+        }]
+      }]
+    }])
+    expect(run.results[0].fixes).toBeUndefined()
+  })
+
+  it('should carry taint paths as code flows', () => {
+    const [run] = toSarif(analysisResult({
+      language: 'ampscript',
+      errors: [{
+        id: 't1',
+        line: 2,
+        column: 4,
+        severity: 'error',
+        message: 'Untrusted input is written to the page without HTMLEncode or URLEncode',
+        rule: 'ampscript-taint-output',
+        category: 'security',
+        taintPath: [
+          { kind: 'source', line: 1, column: 12, description: 'RequestParameter("q")' },
+          { kind: 'sink', line: 2, column: 4, description: '%%= =%% output' }
+        ]
+      }]
+    })).runs
+
+    expect(run.results[0].codeFlows![0].threadFlows[0].locations).toEqual([
+      {
+        location: {
+          physicalLocation: { artifactLocation: { uri: 'code.amp' }, region: { startLine: 1, startColumn: 12 } },
+          message: { text: 'RequestParameter("q")' }
+        },
+        kinds: ['source']
+      },
+      {
+        location: {
+          physicalLocation: { artifactLocation: { uri: 'code.amp' }, region: { startLine: 2, startColumn: 4 } },
+          message: { text: '%%= =%% output' }
+        },
+        kinds: ['sink']
+      }
+    ])
+  })
+})
+
+describe('toJUnit', () => {
+  it('should write a failing test case for each error and warning', () => {
+    const xml = toJUnit(result, { uri: 'subscribers.sql' })
+
+    expect(xml).toContain('<testsuites name="SFMC Code Debugger" tests="4" failures="3" errors="0" time="1.500">')
+    expect(xml).toContain('<testsuite name="subscribers.sql Errors" tests="1" failures="1"')
+    expect(xml).toContain('<failure message="Unknown column &quot;&lt;Email&gt;&quot;" type="error">')
+    expect(xml).toContain('Fix: Use EmailAddress')
+    expect(xml).toContain('<testcase name="sql-top at subscribers.sql:1:1" classname="subscribers.sql.warnings" time="0"><system-out>')
+  })
+
+  it('should write a passing test case for a clean result', () => {
+    const xml = toJUnit(analysisResult({ createdAt: '2024-01-01T00:00:00.000Z' as unknown as Date }))
+
+    expect(xml).toContain('tests="1" failures="0"')
+    expect(xml).toContain('<testcase name="code.sql has no issues"')
+    expect(xml).toContain('timestamp="2024-01-01T00:00:00.000Z"')
+  })
+})
+
+describe('exportAnalysisResult', () => {
+  it('should name and type the report after its format', () => {
+    expect(exportAnalysisResult(result, 'sarif')).toMatchObject({ contentType: 'application/sarif+json', fileName: 'analysis-sql.sarif' })
+    expect(exportAnalysisResult(result, 'junit')).toMatchObject({ contentType: 'application/xml', fileName: 'analysis-sql.junit.xml' })
+    expect(JSON.parse(exportAnalysisResult(result, 'json').content).id).toBe('analysis_1')
+  })
+})
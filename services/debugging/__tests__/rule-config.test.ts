@@ -0,0 +1,52 @@
+import { RuleConfiguration } from '../../../types/debugging'
+import { RuleConfigurationSchema, applyRuleConfiguration, ruleOption } from '../rule-config'
+import { BestPracticesAnalyzer } from '../analyzers/best-practices-analyzer'
+
+describe('rule configuration', () => {
+  const config: RuleConfiguration = {
+    rules: {
+      'ssjs-semicolon': { enabled: false },
+      'ssjs-de-constructor': { severity: 'info' },
+      'line-length': { options: { max: 40 } }
+    }
+  }
+
+  it('should drop disabled rules and override severities', () => {
+    const issues = [
+      { rule: 'ssjs-semicolon', line: 1, severity: 'error' as const },
+      { rule: 'SSJS-DE-CONSTRUCTOR', line: 2, severity: 'error' as const },
+      { rule: 'ssjs-script-tag', line: 3, severity: 'error' as const }
+    ]
+
+    expect(applyRuleConfiguration(issues, config)).toEqual([
+      { rule: 'SSJS-DE-CONSTRUCTOR', line: 2, severity: 'info' },
+      { rule: 'ssjs-script-tag', line: 3, severity: 'error' }
+    ])
+    expect(issues[1].severity).toBe('error')
+  })
+
+  it('should fall back to the default for missing or mistyped options', () => {
+    const mistyped: RuleConfiguration = { rules: { 'line-length': { options: { max: 'wide' } } } }
+
+    expect(ruleOption(config, 'line-length', 'max', 120)).toBe(40)
+    expect(ruleOption(mistyped, 'line-length', 'max', 120)).toBe(120)
+    expect(ruleOption(undefined, 'line-length', 'max', 120)).toBe(120)
+  })
+
+  it('should pass rule options to the best practices thresholds', async () => {
+    const line = `var greeting = "${'x'.repeat(50)}";`
+    const analyzer = new BestPracticesAnalyzer()
+
+    const defaults = await analyzer.analyze(line, 'javascript')
+    const configured = await analyzer.analyze(line, 'javascript', config)
+
+    expect(defaults.some(v => v.rule === 'line-length')).toBe(false)
+    expect(configured.find(v => v.rule === 'line-length')?.message).toContain('40 characters')
+  })
+
+  it('should reject invalid severities', () => {
+    const result = RuleConfigurationSchema.safeParse({ rules: { 'sql-select-star': { severity: 'fatal' } } })
+
+    expect(result.success).toBe(false)
+  })
+})
@@ -0,0 +1,132 @@
+import { BestPracticesAnalyzer } from '../analyzers/best-practices-analyzer'
+import { compileRulePack, MAX_RULE_PACK_SIZE, parseRulePack, RulePackError, validateRulePack } from '../rule-packs'
+
+const yamlPack = `
+id: acme
+name: ACME conventions
+rules:
+  - id: no-lookup-rows
+    pattern: LookupRows\\(
+    languages: [ampscript]
+    category: performance
+    severity: warning
+    message: Use LookupOrderedRows with a row limit
+    documentation: https://example.com/rules/no-lookup-rows
+    fix:
+      template: LookupOrderedRows(
+      kind: unsafe
+  - id: no-debug-output
+    pattern: 'Write\\("DEBUG'
+    languages: [all]
+    category: maintainability
+    severity: info
+    message: Remove debug output
+`
+
+describe('parseRulePack', () => {
+  it('should read YAML and JSON packs', () => {
+    const { pack, format } = parseRulePack(yamlPack)
+    expect(format).toBe('yaml')
+    expect(pack.rules.map(rule => rule.id)).toEqual(['no-lookup-rows', 'no-debug-output'])
+
+    const json = parseRulePack(JSON.stringify(pack))
+    expect(json.format).toBe('json')
+    expect(json.pack).toEqual(pack)
+  })
+
+  it('should report every invalid field with its path', () => {
+    const content = JSON.stringify({
+      id: 'acme',
+      name: 'ACME',
+      rules: [
+        { id: 'a', pattern: '(', languages: ['ampscript'], category: 'naming', severity: 'warning', message: 'x' },
+        { id: 'a', pattern: 'x', languages: ['cobol'], category: 'naming', severity: 'fatal', message: 'x' }
+      ]
+    })
+
+    try {
+      parseRulePack(content)
+      fail('Expected a RulePackError')
+    } catch (error) {
+      expect(error).toBeInstanceOf(RulePackError)
+      expect((error as RulePackError).errors.map(err => err.path)).toEqual(
+        expect.arrayContaining(['rules.0.pattern', 'rules.1.languages.0', 'rules.1.severity'])
+      )
+    }
+  })
+
+  it('should reject patterns that repeat a repeated group or alternatives', () => {
+    const withPattern = (pattern: string) => ({
+      id: 'acme',
+      name: 'ACME',
+      rules: [{ id: 'a', pattern, languages: ['ssjs'], category: 'performance', severity: 'warning', message: 'x' }]
+    })
+
+    for (const pattern of ['(a+)+$', '(\\w*\\s)*x', '((ab)*c){2,}', '(?:x|(y+))*', '(a|a)*$', '(a|aa)+$', '(foo|bar)*\\s+']) {
+      expect(() => validateRulePack(withPattern(pattern))).toThrow(RulePackError)
+    }
+    for (const pattern of ['(ab)+', '(a+)?', '[(a+)]+', '\\(a+\\)+', '(foo|bar)\\s+', 'a|b+', '[|]+']) {
+      expect(() => validateRulePack(withPattern(pattern))).not.toThrow()
+    }
+  })
+
+  it('should reject content that is not JSON or YAML', () => {
+    expect(() => parseRulePack('{ "id": ', 'json')).toThrow('Invalid JSON format')
+    expect(() => parseRulePack('id: [unclosed')).toThrow(RulePackError)
+  })
+
+  it('should reject packs longer than the upload limit', () => {
+    expect(() => parseRulePack(`description: ${'x'.repeat(MAX_RULE_PACK_SIZE)}`)).toThrow('Rule pack too large')
+  })
+})
+
+describe('rule pack enforcement', () => {
+  const { pack } = parseRulePack(yamlPack)
+  const analyzer = new BestPracticesAnalyzer()
+
+  it('should prefix rule ids with the pack id', () => {
+    expect(compileRulePack(pack).map(rule => rule.id)).toEqual(['acme/no-lookup-rows', 'acme/no-debug-output'])
+  })
+
+  it('should report pack violations next to the built-in ones', async () => {
+    const code = '%%[ SET @rows = LookupRows("Members", "Status", "active") ]%%'
+    const violations = await analyzer.analyze(code, 'ampscript', undefined, [pack])
+
+    const custom = violations.filter(violation => violation.rule === 'acme/no-lookup-rows')
+    expect(custom).toHaveLength(1)
+    expect(custom[0]).toMatchObject({
+      line: 1,
+      column: code.indexOf('LookupRows'),
+      category: 'performance',
+      severity: 'warning',
+      documentation: 'https://example.com/rules/no-lookup-rows'
+    })
+    expect(violations.some(violation => !violation.rule.startsWith('acme/'))).toBe(true)
+    expect((await analyzer.analyze(code, 'ampscript')).some(violation => violation.rule.startsWith('acme/'))).toBe(false)
+  })
+
+  it('should only check the languages a rule lists', async () => {
+    const violations = await analyzer.analyze('var rows = LookupRows("Members");', 'ssjs', undefined, [pack])
+    expect(violations.some(violation => violation.rule === 'acme/no-lookup-rows')).toBe(false)
+  })
+
+  it('should turn the fix template into an edit of the match', async () => {
+    const code = '%%[\nSET @rows = LookupRows("Members", "Status", "active")\n]%%'
+    const [violation] = (await analyzer.analyze(code, 'ampscript', undefined, [pack]))
+      .filter(violation => violation.rule === 'acme/no-lookup-rows')
+
+    expect(violation.fix).toMatchObject({ kind: 'unsafe', edits: [{ line: 2, column: 13, endLine: 2, endColumn: 24, replacement: 'LookupOrderedRows(' }] })
+    const [edit] = violation.fix!.edits
+    const line = code.split('\n')[edit.line - 1]
+    expect(line.slice(0, edit.column - 1) + edit.replacement + line.slice(edit.endColumn - 1)).toBe('SET @rows = LookupOrderedRows("Members", "Status", "active")')
+  })
+
+  it('should map fixes to document positions in CloudPages', async () => {
+    const code = '<html>\n<body>\n%%[ SET @rows = LookupRows("Members", "Status", "active") ]%%\n</body>\n</html>'
+    const [violation] = (await analyzer.analyze(code, 'cloudpage', undefined, [pack]))
+      .filter(violation => violation.rule === 'acme/no-lookup-rows')
+
+    expect(violation.line).toBe(3)
+    expect(violation.fix!.edits[0]).toMatchObject({ line: 3, column: code.split('\n')[2].indexOf('LookupRows') + 1 })
+  })
+})
@@ -0,0 +1,121 @@
+import { parseSql } from '../parsers/sql-parser'
+import { tokenizeSql } from '../parsers/sql-lexer'
+import { SqlSelectCore, SqlSelectStatement, sqlFlattenSources } from '../parsers/sql-ast'
+
+const firstCore = (source: string): SqlSelectCore => {
+  const { script } = parseSql(source)
+  return (script.statements[0] as SqlSelectStatement).query as SqlSelectCore
+}
+
+describe('SQL parser', () => {
+  describe('tokenizer', () => {
+    it('should tokenize bracketed identifiers, N strings and variables', () => {
+      const { tokens, diagnostics } = tokenizeSql("SELECT [First Name] FROM x WHERE y = N'it''s' AND z = @id")
+
+      expect(diagnostics).toHaveLength(0)
+      expect(tokens[1]).toMatchObject({ type: 'identifier', value: 'First Name', quoted: true })
+      expect(tokens.find(t => t.type === 'string')?.value).toBe("it's")
+      expect(tokens.find(t => t.type === 'variable')?.value).toBe('@id')
+    })
+
+    it('should keep comments out of the token stream', () => {
+      const { tokens, comments } = tokenizeSql('SELECT a -- trailing\n/* block */ FROM b')
+
+      expect(tokens.map(t => t.value)).toEqual(['SELECT', 'a', 'FROM', 'b', ''])
+      expect(comments).toHaveLength(2)
+    })
+  })
+
+  describe('queries', () => {
+    it('should parse a multi-line query with joins and aliases', () => {
+      const core = firstCore([
+        'SELECT',
+        '  s.SubscriberKey,',
+        '  o.EventDate AS OpenDate',
+        'FROM ENT._Subscribers s WITH (NOLOCK)',
+        'INNER JOIN _Open AS o',
+        '  ON o.SubscriberKey = s.SubscriberKey',
+        "WHERE s.Status = 'active'"
+      ].join('\n'))
+
+      expect(core.columns.map(c => c.alias)).toEqual([undefined, 'OpenDate'])
+      expect(sqlFlattenSources(core.from)).toEqual([
+        expect.objectContaining({ type: 'Table', name: '_Subscribers', parts: ['ENT', '_Subscribers'], alias: 's' }),
+        expect.objectContaining({ type: 'Table', name: '_Open', alias: 'o' })
+      ])
+      expect(core.from[0]).toMatchObject({ type: 'Join', joinType: 'INNER', on: { type: 'Binary', operator: '=' } })
+      expect(core.where?.range.start).toMatchObject({ line: 7, column: 7 })
+    })
+
+    it('should parse TOP, ORDER BY, window functions and CAST', () => {
+      const { script, diagnostics } = parseSql(
+        'SELECT TOP 10 PERCENT CAST(a AS VARCHAR(50)) x, ROW_NUMBER() OVER (PARTITION BY b ORDER BY c DESC) rn FROM t ORDER BY x'
+      )
+      const core = (script.statements[0] as SqlSelectStatement).query as SqlSelectCore
+
+      expect(diagnostics).toHaveLength(0)
+      expect(core.top).toMatchObject({ percent: true, value: { type: 'Literal', value: '10' } })
+      expect(core.columns[0].expression).toMatchObject({ type: 'Function', name: 'CAST', dataType: 'VARCHAR(50)' })
+      expect(core.columns[1].expression).toMatchObject({ type: 'Function', name: 'ROW_NUMBER', over: { partitionBy: [{ name: 'b' }] } })
+      expect(core.orderBy).toHaveLength(1)
+    })
+
+    it('should treat LEFT( as a function and LEFT JOIN as a join', () => {
+      const core = firstCore('SELECT LEFT(a.Zip, 5) FROM a LEFT OUTER JOIN b ON a.id = b.id')
+
+      expect(core.columns[0].expression).toMatchObject({ type: 'Function', name: 'LEFT' })
+      expect(core.from[0]).toMatchObject({ type: 'Join', joinType: 'LEFT' })
+    })
+
+    it('should parse predicates and subqueries', () => {
+      const core = firstCore(
+        "SELECT a FROM t WHERE b NOT IN (SELECT c FROM u) AND d BETWEEN 1 AND 5 AND e IS NOT NULL AND NOT EXISTS (SELECT 1 FROM v WHERE v.x = t.x) AND f LIKE '%y'"
+      )
+
+      expect(core.where).toMatchObject({ type: 'Binary', operator: 'AND' })
+      const text = JSON.stringify(core.where)
+      expect(text).toContain('"type":"In"')
+      expect(text).toContain('"type":"Between"')
+      expect(text).toContain('"type":"IsNull"')
+      expect(text).toContain('"type":"Exists"')
+    })
+
+    it('should parse CTEs and UNION ALL', () => {
+      const { script, diagnostics } = parseSql(
+        'WITH recent AS (SELECT SubscriberKey FROM _Open) SELECT SubscriberKey FROM recent UNION ALL SELECT SubscriberKey FROM _Click'
+      )
+      const statement = script.statements[0] as SqlSelectStatement
+
+      expect(diagnostics).toHaveLength(0)
+      expect(statement.ctes.map(cte => cte.name)).toEqual(['recent'])
+      expect(statement.query).toMatchObject({ type: 'SetOperation', operator: 'UNION ALL' })
+    })
+  })
+
+  describe('error recovery', () => {
+    it('should record unsupported statements and continue', () => {
+      const { script } = parseSql("DECLARE @x INT\nUPDATE t SET a = 1\nSELECT a FROM t")
+
+      expect(script.statements.map(s => s.type === 'Unsupported' ? s.keyword : s.type)).toEqual(['DECLARE', 'UPDATE', 'Select'])
+    })
+
+    it('should keep INSERT ... SELECT as one statement', () => {
+      const { script } = parseSql('INSERT INTO target SELECT a FROM source')
+
+      expect(script.statements).toHaveLength(1)
+      expect(script.statements[0]).toMatchObject({ type: 'Unsupported', keyword: 'INSERT' })
+    })
+
+    it('should report missing closing parentheses', () => {
+      const { diagnostics } = parseSql('SELECT COUNT(a FROM t')
+
+      expect(diagnostics[0]).toMatchObject({ rule: 'sql-parentheses' })
+    })
+
+    it('should report LIMIT as an SFMC dialect error', () => {
+      const { diagnostics } = parseSql('SELECT a FROM t LIMIT 10')
+
+      expect(diagnostics.map(d => d.rule)).toEqual(['sfmc-sql-limit'])
+    })
+  })
+})
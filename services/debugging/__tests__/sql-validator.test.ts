@@ -0,0 +1,274 @@
+import { SQLValidator } from '../validators/sql-validator'
+import { parseDataExtensionSchemas } from '../data-extension-schema'
+import { SFMCContext } from '../../../types/debugging'
+
+const dataExtensions = parseDataExtensionSchemas([
+  {
+    name: 'Members',
+    fields: [
+      { name: 'SubscriberKey', fieldType: 'Text', maxLength: 254, isPrimaryKey: true },
+      { name: 'Email', fieldType: 'EmailAddress' },
+      { name: 'FirstName', fieldType: 'Text', maxLength: 100 },
+      { name: 'Points', fieldType: 'Number' },
+      { name: 'JoinDate', fieldType: 'Date' }
+    ]
+  },
+  {
+    name: 'Opens',
+    fields: [
+      { name: 'SubscriberKey', fieldType: 'Text', maxLength: 254 },
+      { name: 'EventDate', fieldType: 'Date' }
+    ]
+  },
+  {
+    name: 'Engaged',
+    fields: [
+      { name: 'SubscriberKey', fieldType: 'Text', maxLength: 254, isPrimaryKey: true },
+      { name: 'FirstName', fieldType: 'Text', maxLength: 50 },
+      { name: 'LastOpen', fieldType: 'Date' }
+    ]
+  }
+])
+
+describe('SQLValidator', () => {
+  let validator: SQLValidator
+
+  beforeEach(() => {
+    validator = new SQLValidator()
+  })
+
+  describe('validateSyntax', () => {
+    it('should accept a valid query formatted across many lines', async () => {
+      const code = [
+        'SELECT',
+        '  s.SubscriberKey,',
+        '  s.EmailAddress',
+        'FROM',
+        '  _Subscribers s',
+        '  INNER JOIN _Sent snt',
+        '    ON snt.SubscriberKey = s.SubscriberKey',
+        "WHERE s.Status = 'active'"
+      ].join('\n')
+
+      const errors = await validator.validateSyntax(code)
+
+      expect(errors.filter(e => e.severity === 'error')).toHaveLength(0)
+      expect(errors.find(e => e.rule === 'sql-join-on')).toBeUndefined()
+    })
+
+    it('should reject variables, temp tables and SELECT INTO', async () => {
+      const errors = await validator.validateSyntax('SELECT a INTO #staging FROM #source WHERE b = @value')
+      const rules = errors.map(e => e.rule)
+
+      expect(rules).toContain('sfmc-sql-select-into')
+      expect(rules).toContain('sfmc-sql-temp-tables')
+      expect(rules).toContain('sfmc-sql-variables')
+    })
+
+    it('should reject statements other than SELECT', async () => {
+      const errors = await validator.validateSyntax("UPDATE Members SET Status = 'x'")
+
+      expect(errors.find(e => e.rule === 'sfmc-sql-unsupported-statement')).toMatchObject({ line: 1, column: 1 })
+    })
+
+    it('should reject ORDER BY without TOP, including in subqueries', async () => {
+      const errors = await validator.validateSyntax(
+        'SELECT TOP 5 a FROM (SELECT a FROM t ORDER BY a) x ORDER BY a'
+      )
+      const orderBy = errors.filter(e => e.rule === 'sfmc-sql-order-by-without-top')
+
+      expect(orderBy).toHaveLength(1)
+      expect(orderBy[0].column).toBe(47)
+    })
+
+    it('should reject recursive CTEs', async () => {
+      const errors = await validator.validateSyntax(
+        'WITH tree AS (SELECT id FROM nodes UNION ALL SELECT n.id FROM nodes n JOIN tree t ON n.parent = t.id) SELECT id FROM tree'
+      )
+
+      expect(errors.filter(e => e.rule === 'sfmc-sql-recursive-cte')).toHaveLength(1)
+    })
+
+    it('should flag non-aggregated columns missing from GROUP BY', async () => {
+      const errors = await validator.validateSyntax(
+        'SELECT Region, City, COUNT(*) FROM Members GROUP BY Region'
+      )
+      const grouping = errors.filter(e => e.rule === 'sql-aggregate-group-by')
+
+      expect(grouping).toHaveLength(1)
+      expect(grouping[0]).toMatchObject({ column: 16, message: expect.stringContaining('City') })
+    })
+
+    it('should report JOIN without ON at the join keyword', async () => {
+      const errors = await validator.validateSyntax('SELECT a.x\nFROM a\nLEFT JOIN b\nWHERE a.y = 1')
+
+      expect(errors.find(e => e.rule === 'sql-join-on')).toMatchObject({ line: 3, column: 1 })
+    })
+  })
+
+  describe('validateSemantics', () => {
+    it('should resolve aliases declared on other lines', async () => {
+      const code = 'SELECT\n  s.SubscriberKey,\n  o.EventDate\nFROM _Subscribers s\nJOIN _Open o\n  ON o.SubscriberKey = s.SubscriberKey'
+
+      const errors = await validator.validateSemantics(code)
+
+      expect(errors.find(e => e.rule === 'sql-unknown-table-alias')).toBeUndefined()
+    })
+
+    it('should report qualifiers that are not in scope', async () => {
+      const errors = await validator.validateSemantics('SELECT s.SubscriberKey, x.Email FROM _Subscribers s')
+      const unknown = errors.filter(e => e.rule === 'sql-unknown-table-alias')
+
+      expect(unknown).toHaveLength(1)
+      expect(unknown[0]).toMatchObject({ column: 25, message: 'Unknown table alias or table name: x' })
+    })
+
+    it('should resolve correlated references against the outer query', async () => {
+      const errors = await validator.validateSemantics(
+        'SELECT s.SubscriberKey, (SELECT MAX(o.EventDate) FROM _Open o WHERE o.SubscriberKey = s.SubscriberKey) LastOpen FROM _Subscribers s'
+      )
+
+      expect(errors.find(e => e.rule === 'sql-unknown-table-alias')).toBeUndefined()
+      expect(errors.find(e => e.rule === 'sql-subquery-performance')).toBeDefined()
+    })
+
+    it('should not treat derived table columns as correlated', async () => {
+      const errors = await validator.validateSemantics(
+        'SELECT d.SubscriberKey FROM (SELECT o.SubscriberKey FROM _Open o) d'
+      )
+
+      expect(errors.find(e => e.rule === 'sql-subquery-performance')).toBeUndefined()
+      expect(errors.find(e => e.rule === 'sql-unknown-table-alias')).toBeUndefined()
+    })
+  })
+
+  describe('validateSemantics with Data Extension schemas', () => {
+    const context: SFMCContext = { dataExtensions }
+    const targeting: SFMCContext = { dataExtensions, queryTarget: { dataExtension: 'Engaged' } }
+
+    it('should report unknown Data Extensions and fields', async () => {
+      const errors = await validator.validateSemantics(
+        'SELECT m.SubscriberKey, m.Phone FROM Members m JOIN Missing x ON x.SubscriberKey = m.SubscriberKey',
+        context
+      )
+
+      expect(errors.find(e => e.rule === 'sql-unknown-field')).toMatchObject({
+        column: 25,
+        message: 'Field Phone does not exist in Data Extension Members'
+      })
+      expect(errors.find(e => e.rule === 'sql-unknown-data-extension')).toMatchObject({ column: 53 })
+    })
+
+    it('should report unqualified columns that exist in several sources', async () => {
+      const errors = await validator.validateSemantics(
+        'SELECT SubscriberKey, EventDate FROM Members m JOIN Opens o ON o.SubscriberKey = m.SubscriberKey',
+        context
+      )
+      const ambiguous = errors.filter(e => e.rule === 'sql-ambiguous-column')
+
+      expect(ambiguous).toHaveLength(1)
+      expect(ambiguous[0]).toMatchObject({ severity: 'error', column: 8 })
+    })
+
+    it('should report comparisons between incompatible types', async () => {
+      const errors = await validator.validateSemantics(
+        "SELECT SubscriberKey FROM Members WHERE Points = 'gold' AND JoinDate > '2024-01-01' AND FirstName = '42'",
+        context
+      )
+      const mismatches = errors.filter(e => e.rule === 'sql-type-mismatch')
+
+      expect(mismatches).toHaveLength(1)
+      expect(mismatches[0]).toMatchObject({ severity: 'error', column: 48 })
+      expect(errors.find(e => e.rule === 'sql-implicit-conversion')).toBeUndefined()
+    })
+
+    it('should check output columns against the target Data Extension', async () => {
+      const errors = await validator.validateSemantics(
+        'SELECT SubscriberKey, FirstName, Email AS Address FROM Members',
+        targeting
+      )
+
+      expect(errors.find(e => e.rule === 'sfmc-sql-target-length')).toMatchObject({ severity: 'warning', column: 23 })
+      expect(errors.find(e => e.rule === 'sfmc-sql-target-field')?.message).toContain('Address')
+      expect(errors.find(e => e.rule === 'sfmc-sql-target-primary-key')).toBeUndefined()
+    })
+
+    it('should require the target primary key', async () => {
+      const errors = await validator.validateSemantics('SELECT FirstName FROM Members', targeting)
+
+      expect(errors.find(e => e.rule === 'sfmc-sql-target-primary-key')).toMatchObject({ severity: 'error' })
+    })
+
+    it('should warn when rows may collide on the target primary key', async () => {
+      const errors = await validator.validateSemantics(
+        'SELECT o.SubscriberKey, o.EventDate AS LastOpen FROM Opens o',
+        targeting
+      )
+
+      expect(errors.find(e => e.rule === 'sfmc-sql-target-primary-key')).toMatchObject({ severity: 'warning', column: 8 })
+    })
+
+    it('should accept queries deduplicated on the target primary key', async () => {
+      const grouped = await validator.validateSemantics(
+        'SELECT o.SubscriberKey, MAX(o.EventDate) AS LastOpen FROM Opens o GROUP BY o.SubscriberKey',
+        targeting
+      )
+      const ranked = await validator.validateSemantics(
+        [
+          'SELECT r.SubscriberKey, r.EventDate AS LastOpen',
+          'FROM (',
+          '  SELECT o.SubscriberKey, o.EventDate,',
+          '    ROW_NUMBER() OVER (PARTITION BY o.SubscriberKey ORDER BY o.EventDate DESC) AS rn',
+          '  FROM Opens o',
+          ') r',
+          'WHERE r.rn = 1'
+        ].join('\n'),
+        targeting
+      )
+      const joined = await validator.validateSemantics(
+        'SELECT m.SubscriberKey, m.FirstName FROM Members m LEFT JOIN Engaged e ON e.SubscriberKey = m.SubscriberKey',
+        targeting
+      )
+
+      expect(grouped.find(e => e.rule === 'sfmc-sql-target-primary-key')).toBeUndefined()
+      expect(ranked.find(e => e.rule === 'sfmc-sql-target-primary-key')).toBeUndefined()
+      expect(joined.find(e => e.rule === 'sfmc-sql-target-primary-key')).toBeUndefined()
+    })
+  })
+
+  describe('analyzePerformance', () => {
+    it('should flag functions wrapping columns but not constant expressions', async () => {
+      const issues = await validator.analyzePerformance(
+        "SELECT SubscriberKey FROM _Open WHERE UPPER(Domain) = 'X' AND EventDate > DATEADD(DAY, -7, GETDATE())"
+      )
+      const functions = issues.filter(i => i.rule === 'sql-function-in-where')
+
+      expect(functions).toHaveLength(1)
+      expect(functions[0].column).toBe(39)
+    })
+
+    it('should flag unfiltered system tables', async () => {
+      const issues = await validator.analyzePerformance('SELECT SubscriberKey\nFROM _Sent')
+
+      expect(issues.find(i => i.rule === 'sfmc-system-table-filtering')).toMatchObject({ line: 2, column: 6 })
+    })
+
+    it('should flag UNION without ALL', async () => {
+      const issues = await validator.analyzePerformance('SELECT a FROM t WHERE b = 1 UNION SELECT a FROM u WHERE b = 2')
+
+      expect(issues.find(i => i.rule === 'sfmc-performance-optimization')).toMatchObject({ column: 29 })
+    })
+  })
+
+  describe('getOptimizationSuggestions', () => {
+    it('should rewrite IN subqueries as EXISTS', async () => {
+      const suggestions = await validator.getOptimizationSuggestions(
+        "SELECT s.SubscriberKey FROM _Subscribers s WHERE s.SubscriberKey IN (SELECT o.SubscriberKey FROM _Open o WHERE o.IsUnique = 1)"
+      )
+
+      expect(suggestions.find(s => s.id.startsWith('exists_instead_of_in'))?.afterCode).toBe(
+        'EXISTS (SELECT 1 FROM _Open o WHERE o.IsUnique = 1 AND o.SubscriberKey = s.SubscriberKey)'
+      )
+    })
+  })
+})
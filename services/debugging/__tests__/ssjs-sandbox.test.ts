@@ -0,0 +1,157 @@
+import { SSJSSandbox } from '../runtime/ssjs-sandbox'
+import { ExecutionContext } from '../../../types/debugging'
+
+describe('SSJSSandbox', () => {
+  let sandbox: SSJSSandbox
+
+  const context: ExecutionContext = {
+    attributes: { FirstName: 'Ada' },
+    requestParameters: { id: '42' },
+    dataExtensions: {
+      Members: [
+        { SubscriberKey: 'SK-1', Email: 'ada@example.com', Points: 120 },
+        { SubscriberKey: 'SK-2', Email: 'alan@example.com', Points: 80 }
+      ]
+    },
+    httpResponses: {
+      'https://api.example.com/offers': { statusCode: 200, content: '{"offer":"10OFF"}' }
+    },
+    soapObjects: {
+      Subscriber: [
+        { SubscriberKey: 'SK-1', Status: 'Active', EmailAddress: 'ada@example.com' },
+        { SubscriberKey: 'SK-3', Status: 'Unsubscribed', EmailAddress: 'grace@example.com' }
+      ]
+    },
+    now: '2024-03-10T09:30:00Z'
+  }
+
+  beforeEach(() => {
+    sandbox = new SSJSSandbox()
+  })
+
+  it('should run server script blocks in order with the surrounding content', () => {
+    const result = sandbox.execute(
+      '<h1>Hi</h1>\n<script runat="server">\nPlatform.Load("Core", "1.1.1");\nvar name = Platform.Function.AttributeValue("FirstName");\n</script>\n<p><script runat="server">Write(name + " #" + Request.GetQueryStringParameter("id"));</script></p>',
+      context
+    )
+
+    expect(result.errors).toEqual([])
+    expect(result.completed).toBe(true)
+    expect(result.output).toBe('<h1>Hi</h1>\n\n<p>Ada #42</p>')
+  })
+
+  it('should back DataExtension rows with fixture data without changing it', () => {
+    const code = [
+      'Platform.Load("Core", "1.1.1");',
+      'var de = DataExtension.Init("Members");',
+      'var rows = de.Rows.Retrieve({ Property: "Points", SimpleOperator: "greaterThan", Value: 100 });',
+      'de.Rows.Add({ SubscriberKey: "SK-9", Email: "new@example.com", Points: 0 });',
+      'de.Rows.Update({ Points: 200 }, ["SubscriberKey"], ["SK-2"]);',
+      'Write(rows.length + ":" + rows[0].Email + ":" + (rows instanceof Array));'
+    ].join('\n')
+
+    const result = sandbox.execute(code, context)
+
+    expect(result.output).toBe('1:ada@example.com:true')
+    expect(result.dataExtensions.Members.map(row => row.Points)).toEqual([120, 200, 0])
+    expect(context.dataExtensions!.Members).toHaveLength(2)
+  })
+
+  it('should stub HTTP and WSProxy with fixtures', () => {
+    const code = [
+      'Platform.Load("core", "1");',
+      'var offer = Platform.Function.ParseJSON(HTTP.Get("https://api.example.com/offers").Content).offer;',
+      'var api = new Script.Util.WSProxy();',
+      'var res = api.retrieve("Subscriber", ["SubscriberKey"], { Property: "Status", SimpleOperator: "equals", Value: "Active" });',
+      'Write(offer + " " + res.Results.length + " " + res.Results[0].SubscriberKey);'
+    ].join('\n')
+
+    const result = sandbox.execute(code, context)
+
+    expect(result.errors).toEqual([])
+    expect(result.output).toBe('10OFF 1 SK-1')
+  })
+
+  it('should record every platform call with its location', () => {
+    const result = sandbox.execute('Platform.Load("Core", "1");\nvar v = Platform.Function.Lookup("Members", "Email", "SubscriberKey", "SK-2");', context)
+
+    expect(result.callLog).toEqual([
+      { target: 'Platform.Load', args: ['"Core"', '"1"'], line: 1, column: 10 },
+      { target: 'Platform.Function.Lookup', args: ['"Members"', '"Email"', '"SubscriberKey"', '"SK-2"'], line: 2, column: 27 }
+    ])
+  })
+
+  it('should report uncaught exceptions at their original position', () => {
+    const result = sandbox.execute('<p>x</p>\n<script runat="server">\nvar a = 1;\nnull.value;\nWrite("never");\n</script>', context)
+
+    expect(result.completed).toBe(false)
+    expect(result.output).toBe('<p>x</p>\n')
+    expect(result.errors[0]).toMatchObject({ line: 4, rule: 'ssjs-runtime-error', category: 'runtime' })
+    expect(result.errors[0].message).toMatch(/^TypeError: /)
+  })
+
+  it('should require Platform.Load before Core objects', () => {
+    const result = sandbox.execute('var de = DataExtension.Init("Members");', context)
+
+    expect(result.errors[0]).toMatchObject({ rule: 'ssjs-core-not-loaded', line: 1 })
+  })
+
+  it('should let scripts catch stub errors', () => {
+    const result = sandbox.execute(
+      'try { Platform.Function.HTTPGet("https://unknown.example.com"); } catch (e) { Write("caught: " + e.message); }',
+      context
+    )
+
+    expect(result.completed).toBe(true)
+    expect(result.output).toBe('caught: No fixture response for GET https://unknown.example.com')
+  })
+
+  it('should isolate the script from Node and dynamic code', () => {
+    const result = sandbox.execute('Write(typeof require + " " + typeof process); eval("1");', context)
+
+    expect(result.output).toBe('undefined undefined')
+    expect(result.errors[0].message).toContain('EvalError')
+  })
+
+  it('should keep platform stubs from reaching the host realm', () => {
+    const escapes = [
+      'Write.constructor("return process")()',
+      'Platform.Function.Lookup.constructor("return process")()',
+      'Platform.Load("Core", "1"); DataExtension.Init("Members").Rows.Retrieve().constructor.constructor("return process")()'
+    ]
+
+    for (const code of escapes) {
+      const result = sandbox.execute(code, context)
+      expect(result.errors[0].message).toContain('EvalError')
+    }
+
+    const caught = sandbox.execute(
+      'try { Platform.Function.HTTPGet("https://unknown.example.com"); } catch (e) { Write(e.constructor.constructor === Function); }',
+      context
+    )
+    expect(caught.output).toBe('true')
+  })
+
+  it('should stop scripts that run too long', () => {
+    const result = new SSJSSandbox({ timeoutMs: 50 }).execute('while (true) {}', context)
+
+    expect(result.errors[0].rule).toBe('ssjs-timeout')
+  })
+
+  it('should bound promise jobs and stack formatting by the timeout', () => {
+    const timed = new SSJSSandbox({ timeoutMs: 50 })
+    const microtask = timed.execute('Promise.resolve().then(function () { while (true) {} });', context)
+    const stackTrace = timed.execute('Error.prepareStackTrace = function () { while (true) {} }; throw new Error("x");', context)
+
+    expect(microtask.errors[0].rule).toBe('ssjs-timeout')
+    expect(stackTrace.completed).toBe(false)
+  })
+
+  it('should report syntax errors and unsupported functions', () => {
+    const syntax = sandbox.execute('<script runat="server">\nvar x = ;\n</script>', context)
+    const unsupported = sandbox.execute('Platform.Function.ContentBlockByKey("header");', context)
+
+    expect(syntax.errors[0]).toMatchObject({ rule: 'ssjs-syntax-error', line: 2 })
+    expect(unsupported.errors[0]).toMatchObject({ rule: 'ssjs-runtime-unsupported' })
+  })
+})
@@ -0,0 +1,126 @@
+import { SuppressionTracker } from '../suppressions'
+import { SSJSValidator } from '../validators/ssjs-validator'
+import { AMPScriptValidator } from '../validators/ampscript-validator'
+
+function issue(rule: string, line: number) {
+  return { rule, line, severity: 'warning' as const }
+}
+
+describe('SuppressionTracker', () => {
+  it('should silence the next line for the named rules only', () => {
+    const code = [
+      'var de = DataExtension.Init("Members")',
+      '// sfmc-debug-disable-next-line ssjs-semicolon',
+      'var rows = de.Rows.Retrieve()'
+    ].join('\n')
+    const tracker = new SuppressionTracker(code, 'ssjs')
+
+    const kept = tracker.filter([issue('ssjs-semicolon', 1), issue('ssjs-semicolon', 3), issue('ssjs-de-init', 3)])
+
+    expect(kept).toEqual([issue('ssjs-semicolon', 1), issue('ssjs-de-init', 3)])
+    expect(tracker.unused()).toHaveLength(0)
+  })
+
+  it('should silence the line a disable-line comment is on', () => {
+    const tracker = new SuppressionTracker('SELECT * FROM Members -- sfmc-debug-disable-line sql-select-star', 'sql')
+
+    expect(tracker.filter([issue('sql-select-star', 1)])).toHaveLength(0)
+  })
+
+  it('should apply disable until a matching enable', () => {
+    const code = [
+      '%%[ /* sfmc-debug-disable ampscript-output */ ]%%',
+      '%%=@a=%%',
+      '%%[ /* sfmc-debug-enable ampscript-output */ ]%%',
+      '%%=@b=%%'
+    ].join('\n')
+    const tracker = new SuppressionTracker(code, 'ampscript')
+
+    const kept = tracker.filter([issue('ampscript-output', 2), issue('ampscript-output', 4)])
+
+    expect(kept).toEqual([issue('ampscript-output', 4)])
+  })
+
+  it('should treat a directive without rules as covering every rule', () => {
+    const tracker = new SuppressionTracker('<!-- sfmc-debug-disable-next-line -->\n<img src="a.png">', 'html')
+
+    expect(tracker.filter([issue('html-accessibility-alt', 2), issue('html-doctype', 2)])).toHaveLength(0)
+  })
+
+  it('should match rule ids case-insensitively', () => {
+    const tracker = new SuppressionTracker('a { color: red } /* sfmc-debug-disable-line CSS-Missing-Semicolon */', 'css')
+
+    expect(tracker.filter([issue('css-missing-semicolon', 1)])).toHaveLength(0)
+  })
+
+  it('should report directives and rules that silenced nothing', () => {
+    const code = [
+      '/* sfmc-debug-disable-next-line js-semicolon, js-var-usage */',
+      'var total = 1',
+      '/* sfmc-debug-disable-next-line */',
+      'let count = 2;'
+    ].join('\n')
+    const tracker = new SuppressionTracker(code, 'javascript')
+
+    tracker.filter([issue('js-semicolon', 2)])
+
+    expect(tracker.unused()).toEqual([
+      { kind: 'disable-next-line', rules: ['js-var-usage'], line: 1, column: 1 },
+      { kind: 'disable-next-line', rules: [], line: 3, column: 1 }
+    ])
+  })
+
+  it('should ignore directives in comment forms the language does not have', () => {
+    const tracker = new SuppressionTracker('-- sfmc-debug-disable-next-line css-missing-semicolon\na { color: red }', 'css')
+
+    expect(tracker.directives).toHaveLength(0)
+  })
+
+  it('should only read the outer comment when comment forms are nested', () => {
+    const tracker = new SuppressionTracker('/* -- sfmc-debug-disable sql-select-star */\nSELECT * FROM Members', 'sql')
+
+    expect(tracker.directives).toHaveLength(0)
+  })
+
+  it('should not read comment markers inside strings and URLs as comments', () => {
+    const ssjs = new SuppressionTracker([
+      'var url = "https://example.com/page"; // sfmc-debug-disable-line ssjs-semicolon',
+      "var dashes = 'a--b' /* sfmc-debug-disable-next-line */"
+    ].join('\n'), 'ssjs')
+    const sql = new SuppressionTracker("SELECT 'a--b' AS Code FROM Members -- sfmc-debug-disable-line sql-select-star", 'sql')
+
+    expect(ssjs.directives).toEqual([
+      { kind: 'disable-line', rules: ['ssjs-semicolon'], line: 1, column: 39 },
+      { kind: 'disable-next-line', rules: [], line: 2, column: 21 }
+    ])
+    expect(sql.directives).toEqual([{ kind: 'disable-line', rules: ['sql-select-star'], line: 1, column: 36 }])
+  })
+
+  it('should find directives in each language of a document', () => {
+    const page = [
+      '<!-- sfmc-debug-disable-next-line html-accessibility-alt -->',
+      '<img src="a.png">',
+      '<script runat="server">',
+      '  var link = "http://example.com"; // sfmc-debug-disable-line ssjs-semicolon',
+      '</script>',
+      '%%[ /* sfmc-debug-disable-line ampscript-output */ ]%%'
+    ].join('\n')
+
+    expect(new SuppressionTracker(page, 'cloudpage').directives.map(directive => [directive.line, directive.column])).toEqual([
+      [1, 1], [4, 36], [6, 5]
+    ])
+  })
+
+  it('should silence validator issues in SSJS and AMPScript code', async () => {
+    const ssjs = '<script runat="server">\n/* sfmc-debug-disable-next-line ssjs-de-constructor */\nvar de = new DataExtension("Members");\n</script>'
+    const ssjsIssues = await new SSJSValidator().validateSyntax(ssjs)
+
+    expect(ssjsIssues.some(e => e.rule === 'ssjs-de-constructor')).toBe(true)
+    expect(new SuppressionTracker(ssjs, 'ssjs').filter(ssjsIssues).some(e => e.rule === 'ssjs-de-constructor')).toBe(false)
+
+    const ampscript = '%%[ /* sfmc-debug-disable-next-line ampscript-comparison */ ]%%\n%%[ IF @a = 1 THEN ENDIF ]%%'
+    const ampscriptIssues = await new AMPScriptValidator().validateSyntax(ampscript)
+
+    expect(new SuppressionTracker(ampscript, 'ampscript').filter(ampscriptIssues).some(e => e.rule === 'ampscript-comparison')).toBe(false)
+  })
+})
@@ -0,0 +1,180 @@
+import { analyzeTaint, isTaintRule } from '../taint-analysis'
+import { AMPScriptValidator } from '../validators/ampscript-validator'
+import { DocumentValidator } from '../validators/document-validator'
+
+const rules = (code: string, language: Parameters<typeof analyzeTaint>[1]) =>
+  analyzeTaint(code, language).map(finding => `${finding.rule}@${finding.line}`)
+
+describe('analyzeTaint', () => {
+  describe('AMPScript', () => {
+    it('should report request parameters written to the page with the path they took', () => {
+      const code = [
+        '%%[',
+        'SET @raw = RequestParameter("name")',
+        'SET @greeting = Concat("Hello ", @raw)',
+        ']%%',
+        '<p>%%=v(@greeting)=%%</p>'
+      ].join('\n')
+
+      const [finding] = analyzeTaint(code, 'ampscript')
+
+      expect(finding).toMatchObject({ rule: 'ampscript-taint-output', category: 'security', severity: 'error', line: 5, column: 7 })
+      expect(finding.taintPath).toEqual([
+        { kind: 'source', line: 2, column: 12, description: 'RequestParameter("name")' },
+        { kind: 'propagation', line: 2, column: 5, description: 'assigned to @raw' },
+        { kind: 'propagation', line: 3, column: 5, description: 'assigned to @greeting' },
+        { kind: 'sink', line: 5, column: 7, description: '%%= =%% output' }
+      ])
+      expect(finding.message).toContain('RequestParameter("name") → assigned to @raw → assigned to @greeting → %%= =%% output')
+    })
+
+    it('should accept encoded output but still report encoded redirects and post bodies', () => {
+      const code = [
+        '%%[ SET @url = QueryParameter("next")',
+        'SET @safe = HTMLEncode(@url)',
+        'SET @body = Concat(\'{"email":"\', AttributeValue("Email"), \'"}\')',
+        'HTTPPost2("https://api.example.com", "application/json", @body, true, @response, @headers)',
+        'Redirect(URLEncode(@url)) ]%%',
+        '%%=v(@safe)=%% %%=URLEncode(@url)=%%'
+      ].join('\n')
+
+      expect(rules(code, 'ampscript')).toEqual(['ampscript-taint-http-post@4', 'ampscript-taint-redirect@5'])
+    })
+
+    it('should forget taint when a variable is overwritten, unless only inside a branch', () => {
+      const code = [
+        '%%[ SET @id = RequestParameter("id")',
+        'IF @flag == 1 THEN SET @id = "1" ENDIF ]%%',
+        '%%=v(@id)=%%',
+        '%%[ SET @id = Lookup("Members", "Id", "Key", 1) ]%%',
+        '%%=v(@id)=%%'
+      ].join('\n')
+
+      expect(rules(code, 'ampscript')).toEqual(['ampscript-taint-output@3'])
+    })
+
+    it('should not taint the rows a data extension lookup returns for request values', () => {
+      const code = [
+        '%%[ SET @email = RequestParameter("email")',
+        'SET @rows = LookupRows("Members", "Email", @email)',
+        'SET @name = Field(Row(@rows, 1), "Name")',
+        'SET @status = Lookup("Members", "Status", "Email", Trim(@email)) ]%%',
+        '%%=v(@name)=%% %%=v(@status)=%%'
+      ].join('\n')
+
+      expect(analyzeTaint(code, 'ampscript')).toEqual([])
+    })
+
+    it('should offer to wrap the output in HTMLEncode', () => {
+      const [finding] = analyzeTaint('%%=RequestParameter("q")=%%', 'ampscript')
+
+      expect(finding.fix).toMatchObject({ kind: 'unsafe', description: 'Wrap the value in HTMLEncode' })
+      expect(finding.fix!.edits.map(edit => [edit.column, edit.endColumn, edit.replacement])).toEqual([[4, 4, 'HTMLEncode('], [25, 25, ')']])
+    })
+
+    it('should be part of the semantic checks of the AMPScript validator', async () => {
+      const issues = await new AMPScriptValidator().validateSemantics('%%[ SET @q = RequestParameter("q") ]%%\n%%=v(@q)=%%')
+      expect(issues.filter(issue => isTaintRule(issue.rule)).map(issue => issue.rule)).toEqual(['ampscript-taint-output'])
+    })
+  })
+
+  describe('SSJS', () => {
+    it('should report unencoded writes, redirects, post bodies, filters and SQL strings', () => {
+      const code = [
+        '<script runat="server">',
+        'Platform.Load("core", "1.1.1");',
+        'var email = Request.GetQueryStringParameter("email");',
+        '// Write(email) in a comment is ignored',
+        'Write("<p>" + email + "</p>");',
+        'Write(Platform.Function.HTMLEncode(email));',
+        'Platform.Response.Redirect(Request.GetFormField("next"));',
+        'HTTP.Post("https://api.example.com", "application/json", Stringify({ email: email }));',
+        'var filter = {',
+        '  Property: "EmailAddress",',
+        '  SimpleOperator: "equals",',
+        '  Value: email',
+        '};',
+        'var sql = "SELECT SubscriberKey FROM Members WHERE Email = \'" + email + "\'";',
+        '</script>'
+      ].join('\n')
+
+      expect(rules(code, 'ssjs')).toEqual([
+        'ssjs-taint-output@5',
+        'ssjs-taint-redirect@7',
+        'ssjs-taint-http-post@8',
+        'ssjs-taint-wsproxy-filter@12',
+        'ssjs-taint-sql@14'
+      ])
+      const [output] = analyzeTaint(code, 'ssjs')
+      expect(output.taintPath!.map(step => step.description)).toEqual([
+        'Request.GetQueryStringParameter("email")',
+        'assigned to email',
+        'Write()'
+      ])
+    })
+
+    it('should not report values that do not come from the request', () => {
+      const code = [
+        '<script runat="server">',
+        'var email = Request.GetQueryStringParameter("email");',
+        'email = "fixed@example.com";',
+        'var label = "email";',
+        'Write(email + label);',
+        '</script>'
+      ].join('\n')
+
+      expect(analyzeTaint(code, 'ssjs')).toEqual([])
+    })
+
+    it('should not taint data extension rows looked up by request values', () => {
+      const code = [
+        '<script runat="server">',
+        'var email = Request.GetQueryStringParameter("email");',
+        'var rows = Platform.Function.LookupRows("Members", "Email", email);',
+        'var members = DataExtension.Init("Members").Rows.Lookup(["Email"], [email]);',
+        'Write(rows[0].Name + members[0].Name);',
+        'Write(email);',
+        '</script>'
+      ].join('\n')
+
+      expect(rules(code, 'ssjs')).toEqual(['ssjs-taint-output@6'])
+    })
+  })
+
+  describe('documents', () => {
+    it('should follow AMPScript variables into SSJS and back', () => {
+      const page = [
+        '<html><body>',
+        '%%[ SET @search = RequestParameter("q") ]%%',
+        '<script runat="server">',
+        'var search = Variable.GetValue("@search");',
+        'Variable.SetValue("@label", "Results for " + search);',
+        '</script>',
+        '<h1>%%=v(@label)=%%</h1>',
+        '</body></html>'
+      ].join('\n')
+
+      const [finding] = analyzeTaint(page, 'cloudpage')
+
+      expect(finding).toMatchObject({ rule: 'ampscript-taint-output', line: 7, language: 'ampscript' })
+      expect(finding.taintPath!.map(step => `${step.line}:${step.description}`)).toEqual([
+        '2:RequestParameter("q")',
+        '2:assigned to @search',
+        '4:read by Variable.GetValue("@search")',
+        '4:assigned to search',
+        '5:assigned to @label by Variable.SetValue',
+        '7:%%= =%% output'
+      ])
+    })
+
+    it('should be reported once by the document validator', async () => {
+      const page = '<p>%%=RequestParameter("q")=%%</p>\n<script runat="server">Write(Request.GetQueryStringParameter("q"));</script>'
+      const issues = await new DocumentValidator('cloudpage').validateSemantics(page)
+
+      expect(issues.filter(issue => isTaintRule(issue.rule)).map(issue => `${issue.rule}@${issue.line}`)).toEqual([
+        'ampscript-taint-output@1',
+        'ssjs-taint-output@2'
+      ])
+    })
+  })
+})
@@ -1,26 +1,99 @@
-import { BestPracticeViolation, CodeLanguage, ErrorSeverity, BestPracticeCategory } from '../../../types/debugging'
+import { AnalysisLanguage, BestPracticeViolation, CodeLanguage, ErrorSeverity, BestPracticeCategory, RuleConfiguration, RulePack } from '../../../types/debugging'
 import { BestPracticesEnforcer } from '../best-practices-enforcer'
+import { compileRulePack } from '../rule-packs'
+import { ruleOption } from '../rule-config'
+import { extractEmbeddedSources, isDocumentLanguage } from '../parsers/document-regions'
 
 export class BestPracticesAnalyzer {
+  // Rules that look at the code as a whole rather than at single lines
+  static readonly STRUCTURE_RULES: readonly string[] = ['no-code-duplication', 'function-length']
+
+  // Rules about the text of a line. In a document they are checked on the
+  // lines as written, since the other languages are cut out of the lines of
+  // each embedded source.
+  private static readonly LINE_TEXT_RULES: readonly string[] = ['structure_trailing_whitespace', 'line-length']
+
   private enforcer: BestPracticesEnforcer
 
   constructor() {
     this.enforcer = new BestPracticesEnforcer()
   }
 
-  async analyze(code: string, language: CodeLanguage): Promise<BestPracticeViolation[]> {
+  /**
+   * Rule options from the project configuration tune the thresholds of
+   * line-length, nesting-depth and function-length (option "max"). Rules of
+   * the given rule packs are checked along with the built-in ones.
+   */
+  async analyze(code: string, language: AnalysisLanguage, ruleConfig?: RuleConfiguration, rulePacks: RulePack[] = []): Promise<BestPracticeViolation[]> {
+    if (isDocumentLanguage(language)) {
+      const lineTextRules = BestPracticesAnalyzer.LINE_TEXT_RULES
+      const violations = await this.analyzeDocument(code, (source, sourceLanguage) => this.analyze(source, sourceLanguage, ruleConfig, rulePacks))
+      return this.deduplicateViolations([
+        ...violations.filter(violation => !lineTextRules.includes(violation.rule)),
+        ...await this.enforcer.enforceRulesById(code, lineTextRules),
+        ...code.split('\n').flatMap((line, index) => this.checkLineLength(line, index + 1, ruleConfig))
+      ])
+    }
+
     // Use the new rule-based enforcer for comprehensive analysis
-    const ruleBasedViolations = await this.enforcer.enforceRules(code, language)
+    const ruleBasedViolations = await this.enforcer.enforceRules(code, language, rulePacks.flatMap(compileRulePack))
     
     // Combine with legacy analysis for additional checks
-    const legacyViolations = await this.performLegacyAnalysis(code, language)
+    const legacyViolations = await this.performLegacyAnalysis(code, language, ruleConfig)
     
     // Merge and deduplicate violations
     const allViolations = [...ruleBasedViolations, ...legacyViolations]
     return this.deduplicateViolations(allViolations)
   }
 
-  private async performLegacyAnalysis(code: string, language: CodeLanguage): Promise<BestPracticeViolation[]> {
+  /**
+   * Runs only the STRUCTURE_RULES checks, for incremental analysis that
+   * reuses the line-based results of unchanged code
+   */
+  async analyzeStructure(code: string, language: AnalysisLanguage, ruleConfig?: RuleConfiguration): Promise<BestPracticeViolation[]> {
+    if (isDocumentLanguage(language)) {
+      return this.analyzeDocument(code, (source, sourceLanguage) => this.analyzeStructure(source, sourceLanguage, ruleConfig))
+    }
+
+    return this.analyzeOverallStructure(code, language, ruleConfig)
+  }
+
+  /**
+   * Analyses each embedded language of a CloudPage or email on its own and
+   * maps the violations back to document lines
+   */
+  private async analyzeDocument(
+    code: string,
+    analyze: (source: string, language: CodeLanguage) => Promise<BestPracticeViolation[]>
+  ): Promise<BestPracticeViolation[]> {
+    const results = await Promise.all(extractEmbeddedSources(code).map(async source => {
+      const violations = await analyze(source.code, source.language)
+      return violations.map(violation => {
+        // Enforcer columns are 0-based
+        const position = source.toDocumentPosition(violation.line, (violation.column ?? 0) + 1)
+        return {
+          ...violation,
+          id: `${source.language}_${violation.id}`,
+          line: position.line,
+          ...(violation.column !== undefined && { column: position.column - 1 }),
+          ...(violation.fix && {
+            fix: {
+              ...violation.fix,
+              edits: violation.fix.edits.map(edit => {
+                const start = source.toDocumentPosition(edit.line, edit.column)
+                const end = source.toDocumentPosition(edit.endLine, edit.endColumn)
+                return { ...edit, line: start.line, column: start.column, endLine: end.line, endColumn: end.column }
+              })
+            }
+          })
+        }
+      })
+    }))
+    // The AMPScript source holds the HTML too, so the same issue can come from two sources
+    return this.deduplicateViolations(results.flat())
+  }
+
+  private async performLegacyAnalysis(code: string, language: CodeLanguage, ruleConfig?: RuleConfiguration): Promise<BestPracticeViolation[]> {
     const violations: BestPracticeViolation[] = []
     const lines = code.split('\n')
 
@@ -32,7 +105,7 @@ export class BestPracticesAnalyzer {
       violations.push(...this.analyzeNamingConventions(line, lineNumber, language))
       
       // Analyze code structure
-      violations.push(...this.analyzeCodeStructure(line, lineNumber, language))
+      violations.push(...this.analyzeCodeStructure(line, lineNumber, language, ruleConfig))
       
       // Analyze security practices
       violations.push(...this.analyzeSecurityPractices(line, lineNumber, language))
@@ -48,7 +121,7 @@ export class BestPracticesAnalyzer {
     }
 
     // Analyze overall code structure
-    violations.push(...this.analyzeOverallStructure(code, language))
+    violations.push(...this.analyzeOverallStructure(code, language, ruleConfig))
 
     return violations
   }
@@ -84,26 +157,28 @@ export class BestPracticesAnalyzer {
     return violations
   }
 
-  private analyzeCodeStructure(line: string, lineNumber: number, language: CodeLanguage): BestPracticeViolation[] {
-    const violations: BestPracticeViolation[] = []
+  private checkLineLength(line: string, lineNumber: number, ruleConfig?: RuleConfiguration): BestPracticeViolation[] {
+    const maxLineLength = ruleOption(ruleConfig, 'line-length', 'max', 120)
+    if (line.length <= maxLineLength) return []
+
+    return [{
+      id: `long_line_${lineNumber}`,
+      rule: 'line-length',
+      category: 'structure' as BestPracticeCategory,
+      severity: 'warning' as ErrorSeverity,
+      message: `Line exceeds recommended length of ${maxLineLength} characters`,
+      line: lineNumber,
+      suggestion: 'Break long lines into multiple lines for better readability',
+      documentation: 'Long lines can be difficult to read and maintain'
+    }]
+  }
 
-    // Check line length
-    if (line.length > 120) {
-      violations.push({
-        id: `long_line_${lineNumber}`,
-        rule: 'line-length',
-        category: 'structure' as BestPracticeCategory,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Line exceeds recommended length of 120 characters',
-        line: lineNumber,
-        suggestion: 'Break long lines into multiple lines for better readability',
-        documentation: 'Long lines can be difficult to read and maintain'
-      })
-    }
+  private analyzeCodeStructure(line: string, lineNumber: number, language: CodeLanguage, ruleConfig?: RuleConfiguration): BestPracticeViolation[] {
+    const violations: BestPracticeViolation[] = this.checkLineLength(line, lineNumber, ruleConfig)
 
     // Check for deep nesting
     const indentLevel = this.getIndentLevel(line)
-    if (indentLevel > 4) {
+    if (indentLevel > ruleOption(ruleConfig, 'nesting-depth', 'max', 4)) {
       violations.push({
         id: `deep_nesting_${lineNumber}`,
         rule: 'nesting-depth',
@@ -246,7 +321,7 @@ export class BestPracticesAnalyzer {
     return violations
   }
 
-  private analyzeOverallStructure(code: string, language: CodeLanguage): BestPracticeViolation[] {
+  private analyzeOverallStructure(code: string, language: CodeLanguage, ruleConfig?: RuleConfiguration): BestPracticeViolation[] {
     const violations: BestPracticeViolation[] = []
 
     // Check for code duplication
@@ -266,8 +341,9 @@ export class BestPracticesAnalyzer {
 
     // Check function length
     const functions = this.extractFunctions(code, language)
+    const maxFunctionLength = ruleOption(ruleConfig, 'function-length', 'max', 50)
     functions.forEach(func => {
-      if (func.lineCount > 50) {
+      if (func.lineCount > maxFunctionLength) {
         violations.push({
           id: `long_function_${func.startLine}`,
           rule: 'function-length',
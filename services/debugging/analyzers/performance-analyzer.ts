@@ -1,5 +1,8 @@
-import { PerformanceMetrics, ComplexityMetrics, MemoryMetrics, PerformanceRecommendation, CodeLanguage } from '../../../types/debugging'
+import { PerformanceMetrics, ComplexityMetrics, MemoryMetrics, PerformanceRecommendation, CodeLanguage, AnalysisLanguage, SFMCContext } from '../../../types/debugging'
 import { PerformanceMetricsCalculator } from '../performance-metrics-calculator'
+import { dataVolumeRecommendations, estimateDataVolume } from '../data-volume'
+import { buildControlFlowGraphs } from '../control-flow'
+import { extractEmbeddedSources, isDocumentLanguage } from '../parsers/document-regions'
 
 export class PerformanceAnalyzer {
   private metricsCalculator: PerformanceMetricsCalculator
@@ -8,9 +11,13 @@ export class PerformanceAnalyzer {
     this.metricsCalculator = new PerformanceMetricsCalculator()
   }
 
-  async analyze(code: string, language: CodeLanguage): Promise<PerformanceMetrics> {
+  async analyze(code: string, language: AnalysisLanguage, context?: SFMCContext): Promise<PerformanceMetrics> {
+    if (isDocumentLanguage(language)) {
+      return this.analyzeDocument(code, language, context)
+    }
+
     // Use the new performance metrics calculator for comprehensive analysis
-    const detailedMetrics = await this.metricsCalculator.calculateMetrics(code, language)
+    const detailedMetrics = await this.metricsCalculator.calculateMetrics(code, language, context)
     
     // Combine with legacy analysis for backward compatibility
     const legacyRecommendations = this.generateRecommendations(code, language, detailedMetrics.complexity)
@@ -24,6 +31,55 @@ export class PerformanceAnalyzer {
     }
   }
 
+  /**
+   * Adds up the metrics of the embedded languages of a CloudPage or email.
+   * Nesting depth is the deepest of any language. Data Extension reads are
+   * estimated over the whole document, where AMPScript and SSJS share the
+   * page's time.
+   */
+  private async analyzeDocument(code: string, language: AnalysisLanguage, context?: SFMCContext): Promise<PerformanceMetrics> {
+    const total: PerformanceMetrics = {
+      complexity: { cyclomaticComplexity: 0, cognitiveComplexity: 0, nestingDepth: 0, linesOfCode: 0 },
+      estimatedExecutionTime: 0,
+      memoryUsage: { estimatedMemoryUsage: 0, variableCount: 0, stringConcatenations: 0, arrayOperations: 0 },
+      apiCallCount: 0,
+      loopComplexity: 0,
+      recommendations: []
+    }
+
+    for (const source of extractEmbeddedSources(code)) {
+      const metrics = await this.analyze(source.code, source.language)
+
+      total.complexity.cyclomaticComplexity += metrics.complexity.cyclomaticComplexity
+      total.complexity.cognitiveComplexity += metrics.complexity.cognitiveComplexity
+      total.complexity.nestingDepth = Math.max(total.complexity.nestingDepth, metrics.complexity.nestingDepth)
+      total.complexity.linesOfCode += metrics.complexity.linesOfCode
+      total.estimatedExecutionTime += metrics.estimatedExecutionTime
+      total.memoryUsage.estimatedMemoryUsage += metrics.memoryUsage.estimatedMemoryUsage
+      total.memoryUsage.variableCount += metrics.memoryUsage.variableCount
+      total.memoryUsage.stringConcatenations += metrics.memoryUsage.stringConcatenations
+      total.memoryUsage.arrayOperations += metrics.memoryUsage.arrayOperations
+      total.apiCallCount += metrics.apiCallCount
+      total.loopComplexity += metrics.loopComplexity
+      total.recommendations.push(...metrics.recommendations.map(recommendation => ({
+        ...recommendation,
+        line: recommendation.line === undefined ? undefined : source.toDocumentPosition(recommendation.line, 1).line
+      })))
+    }
+
+    // Built over the document so the blocks carry document lines
+    total.complexity.controlFlow = buildControlFlowGraphs(code, language)
+
+    const dataVolume = estimateDataVolume(code, language, context)
+    if (dataVolume) {
+      total.dataVolume = dataVolume
+      total.estimatedExecutionTime += dataVolume.estimatedTimeMs
+      total.recommendations.push(...dataVolumeRecommendations(dataVolume))
+    }
+
+    return total
+  }
+
   private analyzeComplexity(code: string, language: CodeLanguage): ComplexityMetrics {
     const lines = code.split('\n').filter(line => line.trim() !== '')
     const linesOfCode = lines.length
@@ -0,0 +1,329 @@
+import {
+  AnalysisBaseline,
+  AnalysisLanguage,
+  AnalysisLevel,
+  BaselineComparison,
+  BaselineEntry,
+  BaselineIssueKind,
+  BestPracticeViolation,
+  CodeAnalysisResult,
+  DebugError
+} from '../../types/debugging'
+import { tokenizeAMPScript } from './parsers/ampscript-lexer'
+import { DocumentRegion, isDocumentLanguage, splitDocument } from './parsers/document-regions'
+import { LineIndex } from './parsers/source-text'
+
+/**
+ * The issues of an analysis, grouped the way CodeAnalysisResult groups them.
+ * Groups the analysis level did not run, or left undefined, are not
+ * compared, so a syntax-only result does not report the baseline's
+ * performance issues as fixed.
+ */
+export interface BaselineSource {
+  code: string
+  language: AnalysisLanguage
+  analysisLevel?: AnalysisLevel
+  errors?: DebugError[]
+  warnings?: DebugError[]
+  performanceIssues?: DebugError[]
+  bestPracticeViolations?: BestPracticeViolation[]
+}
+
+type BaselineIssue = DebugError | BestPracticeViolation
+
+// Issue group of each kind
+const ISSUE_GROUPS: Record<BaselineIssueKind, 'errors' | 'warnings' | 'performanceIssues' | 'bestPracticeViolations'> = {
+  error: 'errors',
+  warning: 'warnings',
+  performance: 'performanceIssues',
+  best_practice: 'bestPracticeViolations'
+}
+
+// Issue kinds each analysis level reports; errors and warnings come from every level
+const LEVEL_KINDS: Record<AnalysisLevel, BaselineIssueKind[]> = {
+  syntax: ['error', 'warning'],
+  performance: ['error', 'warning', 'performance'],
+  best_practices: ['error', 'warning', 'best_practice'],
+  comprehensive: ['error', 'warning', 'performance', 'best_practice']
+}
+
+const MAX_SNIPPET_LINES = 5
+const MAX_HEADER_LENGTH = 200
+
+// A block of code and the text that opens it: a function or if head, a CSS
+// selector, or the condition of an AMPScript IF or FOR
+interface CodeBlock {
+  start: number
+  end: number
+  header: string
+}
+
+/**
+ * Records the issues of an analysis as the baseline of an asset
+ */
+export function captureBaseline(result: CodeAnalysisResult, assetKey: string): AnalysisBaseline {
+  const fingerprinter = new IssueFingerprinter(result.code, result.language)
+
+  return {
+    assetKey,
+    language: result.language,
+    analysisId: result.id,
+    createdAt: new Date().toISOString(),
+    entries: issueKinds(result).flatMap(kind => issuesOf(result, kind).map(issue => ({
+      fingerprint: fingerprinter.fingerprint(kind, issue),
+      kind,
+      rule: issue.rule,
+      message: issue.message,
+      line: issue.line
+    })))
+  }
+}
+
+/**
+ * Labels every issue of an analysis as new or existing against the baseline
+ * of its asset. Issues with the same fingerprint are matched by count: when
+ * the baseline has two and the analysis three, one of them is new. Baseline
+ * entries left unmatched are listed as fixed.
+ */
+export function compareWithBaseline<T extends BaselineSource>(
+  source: T,
+  baseline: AnalysisBaseline
+): T & { baseline: BaselineComparison } {
+  const fingerprinter = new IssueFingerprinter(source.code, source.language)
+  const kinds = issueKinds(source)
+
+  const remaining = new Map<string, BaselineEntry[]>()
+  baseline.entries
+    .filter(entry => kinds.includes(entry.kind))
+    .forEach(entry => remaining.set(entry.fingerprint, [...(remaining.get(entry.fingerprint) ?? []), entry]))
+
+  let newCount = 0
+  let existingCount = 0
+
+  const label = <I extends BaselineIssue>(issues: I[], kind: BaselineIssueKind): I[] => {
+    const statuses = new Map<I, 'new' | 'existing'>()
+    // Earlier occurrences of a fingerprint are the ones that existed before
+    const ordered = [...issues].sort((a, b) => a.line - b.line)
+    ordered.forEach(issue => {
+      const matches = remaining.get(fingerprinter.fingerprint(kind, issue))
+      if (matches && matches.length > 0) {
+        matches.shift()
+        statuses.set(issue, 'existing')
+        existingCount++
+      } else {
+        statuses.set(issue, 'new')
+        newCount++
+      }
+    })
+    return issues.map(issue => ({ ...issue, baselineStatus: statuses.get(issue) }))
+  }
+
+  const labelled: Partial<BaselineSource> = {
+    errors: source.errors && label(source.errors, 'error'),
+    warnings: source.warnings && label(source.warnings, 'warning'),
+    performanceIssues: source.performanceIssues && label(source.performanceIssues, 'performance'),
+    bestPracticeViolations: source.bestPracticeViolations && label(source.bestPracticeViolations, 'best_practice')
+  }
+
+  return {
+    ...source,
+    ...labelled,
+    baseline: {
+      assetKey: baseline.assetKey,
+      baselineCreatedAt: baseline.createdAt,
+      newCount,
+      existingCount,
+      fixed: Array.from(remaining.values()).flat().sort((a, b) => a.line - b.line)
+    }
+  }
+}
+
+function issueKinds(source: BaselineSource): BaselineIssueKind[] {
+  const analysed = source.analysisLevel ? LEVEL_KINDS[source.analysisLevel] : Object.keys(ISSUE_GROUPS) as BaselineIssueKind[]
+  return analysed.filter(kind => source[ISSUE_GROUPS[kind]] !== undefined)
+}
+
+function issuesOf(source: BaselineSource, kind: BaselineIssueKind): BaselineIssue[] {
+  return source[ISSUE_GROUPS[kind]] ?? []
+}
+
+/**
+ * Fingerprints issues by what they are and where they sit in the code
+ * structure rather than by line: the rule id, the blocks enclosing the issue
+ * and the text of the lines it was reported on with whitespace collapsed.
+ */
+class IssueFingerprinter {
+  private readonly lines: string[]
+  private readonly lineIndex: LineIndex
+  private blocks?: CodeBlock[]
+  private regions?: DocumentRegion[]
+
+  constructor(private readonly code: string, private readonly language: AnalysisLanguage) {
+    this.lines = code.split(/\r?\n/)
+    this.lineIndex = new LineIndex(code)
+  }
+
+  fingerprint(kind: BaselineIssueKind, issue: BaselineIssue): string {
+    const key = [kind, issue.rule.toLowerCase(), this.enclosingBlock(issue.line), this.snippet(issue)].join('\u0000')
+    return hash(key, 0x811c9dc5) + hash(key, 0x050c5d1f)
+  }
+
+  private snippet(issue: BaselineIssue): string {
+    if (issue.line < 1 || issue.line > this.lines.length) {
+      return normalise(('codeSnippet' in issue && issue.codeSnippet) || '')
+    }
+
+    const endLine = 'endLine' in issue && issue.endLine ? issue.endLine : issue.line
+    const last = Math.min(endLine, issue.line + MAX_SNIPPET_LINES - 1, this.lines.length)
+    return this.lines.slice(issue.line - 1, last).map(normalise).join('\n')
+  }
+
+  // Headers of the blocks around the start of the line, outermost first.
+  // Documents prefix them with the embedded language of the line.
+  private enclosingBlock(line: number): string {
+    const offset = this.lineIndex.offsetAt(line, 1)
+    const path = this.codeBlocks()
+      .filter(block => block.start < offset && offset < block.end)
+      .map(block => block.header)
+      .join(' > ')
+
+    if (!isDocumentLanguage(this.language)) return path
+
+    const region = this.documentRegions().find(candidate => candidate.start <= offset && offset < candidate.end)
+    const language = region?.language ?? 'html'
+    return path ? `${language}: ${path}` : language
+  }
+
+  private codeBlocks(): CodeBlock[] {
+    if (this.blocks) return this.blocks
+
+    switch (this.language) {
+      case 'ampscript':
+        this.blocks = ampscriptBlocks(this.code)
+        break
+      case 'ssjs':
+      case 'javascript':
+      case 'css':
+        this.blocks = braceBlocks(this.code, [{ start: 0, end: this.code.length }])
+        break
+      case 'cloudpage':
+      case 'email':
+        this.blocks = this.documentBlocks()
+        break
+      default:
+        this.blocks = []
+    }
+    return this.blocks
+  }
+
+  private documentBlocks(): CodeBlock[] {
+    const regions = this.documentRegions()
+    const groups = new Map<number, DocumentRegion[]>()
+    regions
+      .filter(region => region.language === 'ssjs' || region.language === 'javascript' || region.language === 'css')
+      .forEach(region => groups.set(region.group, [...(groups.get(region.group) ?? []), region]))
+
+    const braces = Array.from(groups.values()).flatMap(group => braceBlocks(this.code, group))
+    const ampscript = regions.some(region => region.language === 'ampscript') ? ampscriptBlocks(this.code, false) : []
+    return [...braces, ...ampscript].sort((a, b) => a.start - b.start)
+  }
+
+  private documentRegions(): DocumentRegion[] {
+    if (!this.regions) this.regions = splitDocument(this.code)
+    return this.regions
+  }
+}
+
+// IF and FOR statements, from the keyword to the matching ENDIF or NEXT
+function ampscriptBlocks(code: string, bareScript?: boolean): CodeBlock[] {
+  const { tokens } = tokenizeAMPScript(code, bareScript)
+  const blocks: CodeBlock[] = []
+  const open: { start: number, header: string }[] = []
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'keyword') return
+
+    if (token.value === 'IF' || token.value === 'FOR') {
+      const body = tokens.findIndex((candidate, i) =>
+        i > index && candidate.type === 'keyword' && (candidate.value === 'THEN' || candidate.value === 'DO'))
+      const headerEnd = body === -1 ? token.range.end.offset : tokens[body].range.end.offset
+      open.push({ start: token.range.start.offset, header: header(code.slice(token.range.start.offset, headerEnd)) })
+    } else if ((token.value === 'ENDIF' || token.value === 'NEXT') && open.length > 0) {
+      blocks.push({ ...open.pop()!, end: token.range.end.offset })
+    }
+  })
+
+  open.forEach(block => blocks.push({ ...block, end: code.length }))
+  return blocks.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Curly-brace blocks of SSJS, JavaScript or CSS spread over the given spans
+ * of the code. The header of a block is the text between the previous
+ * statement or block boundary and its opening brace, without comments.
+ */
+function braceBlocks(code: string, spans: { start: number, end: number }[]): CodeBlock[] {
+  const blocks: CodeBlock[] = []
+  const open: { start: number, header: string }[] = []
+  let pending = ''
+
+  spans.forEach(span => {
+    let i = span.start
+    while (i < span.end) {
+      const char = code[i]
+      const next = code[i + 1]
+
+      if (char === '/' && next === '*') {
+        const close = code.indexOf('*/', i + 2)
+        i = close === -1 || close >= span.end ? span.end : close + 2
+        pending += ' '
+      } else if (char === '/' && next === '/') {
+        const close = code.indexOf('\n', i)
+        i = close === -1 || close >= span.end ? span.end : close
+      } else if (char === '"' || char === "'" || char === '`') {
+        const start = i
+        i++
+        while (i < span.end && code[i] !== char && code[i] !== '\n') i += code[i] === '\\' ? 2 : 1
+        i = Math.min(i + 1, span.end)
+        pending += code.slice(start, i)
+      } else if (char === '{') {
+        open.push({ start: i, header: header(pending) })
+        pending = ''
+        i++
+      } else if (char === '}') {
+        if (open.length > 0) blocks.push({ ...open.pop()!, end: i + 1 })
+        pending = ''
+        i++
+      } else if (char === ';') {
+        pending = ''
+        i++
+      } else {
+        pending += char
+        i++
+      }
+    }
+    pending += ' '
+  })
+
+  const end = spans.length > 0 ? spans[spans.length - 1].end : 0
+  open.forEach(block => blocks.push({ ...block, end }))
+  return blocks.sort((a, b) => a.start - b.start)
+}
+
+function header(text: string): string {
+  return normalise(text.replace(/<\/?script\b[^>]*>/gi, ' ')).slice(0, MAX_HEADER_LENGTH)
+}
+
+function normalise(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+// 32-bit FNV-1a as 8 hex digits
+function hash(text: string, seed: number): string {
+  let value = seed
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i)
+    value = Math.imul(value, 0x01000193)
+  }
+  return (value >>> 0).toString(16).padStart(8, '0')
+}
@@ -2,10 +2,12 @@ import {
   CodeLanguage, 
   BestPracticeViolation, 
   BestPracticeCategory, 
-  ErrorSeverity 
+  CodeFix,
+  ErrorSeverity,
+  FixKind
 } from '../../types/debugging'
 
-interface BestPracticeRule {
+export interface BestPracticeRule {
   id: string
   name: string
   category: BestPracticeCategory
@@ -15,6 +17,8 @@ interface BestPracticeRule {
   suggestion: string
   documentation?: string
   languages: CodeLanguage[]
+  // Replacement for the matched text, as in String.prototype.replace
+  fix?: { template: string, kind: FixKind, description: string }
 }
 
 export class BestPracticesEnforcer {
@@ -25,13 +29,14 @@ export class BestPracticesEnforcer {
   }
 
   /**
-   * Analyzes code for best practice violations
+   * Analyzes code for best practice violations. Extra rules, such as those
+   * of uploaded rule packs, are checked after the built-in ones.
    */
-  async enforceRules(code: string, language: CodeLanguage): Promise<BestPracticeViolation[]> {
+  async enforceRules(code: string, language: CodeLanguage, extraRules: BestPracticeRule[] = []): Promise<BestPracticeViolation[]> {
     const violations: BestPracticeViolation[] = []
     const lines = code.split('\n')
     
-    const applicableRules = this.rules.filter(rule => 
+    const applicableRules = [...this.rules, ...extraRules].filter(rule => 
       rule.languages.includes(language) || rule.languages.includes('all' as CodeLanguage)
     )
 
@@ -49,6 +54,15 @@ export class BestPracticesEnforcer {
     })
   }
 
+  /**
+   * Checks only the rules with the given ids, whatever their languages
+   */
+  async enforceRulesById(code: string, ruleIds: readonly string[]): Promise<BestPracticeViolation[]> {
+    const lines = code.split('\n')
+    const rules = this.rules.filter(rule => ruleIds.includes(rule.id))
+    return (await Promise.all(rules.map(rule => this.checkRule(rule, code, lines)))).flat()
+  }
+
   /**
    * Gets all available rules for a specific language
    */
@@ -83,39 +97,38 @@ export class BestPracticesEnforcer {
           const column = line.indexOf(match)
           violations.push({
             id: `${rule.id}_${index}_${column}`,
-            rule: rule.name,
+            rule: rule.id,
             category: rule.category,
             severity: rule.severity,
             message: rule.message,
             line: index + 1,
             column,
             suggestion: rule.suggestion,
-            documentation: rule.documentation
+            documentation: rule.documentation,
+            ...(rule.fix && { fix: this.createFix(rule, match, index + 1, column) })
           })
         })
       }
     })
 
     // Check entire code for multi-line patterns
-    const globalMatches = code.match(rule.pattern)
-    if (globalMatches && rule.pattern.global) {
-      // For global patterns, find line numbers
-      globalMatches.forEach(match => {
-        const matchIndex = code.indexOf(match)
+    if (rule.pattern.global) {
+      Array.from(code.matchAll(rule.pattern)).forEach(({ 0: match, index: matchIndex = 0 }) => {
         const lineNumber = code.substring(0, matchIndex).split('\n').length
         const lineStart = code.lastIndexOf('\n', matchIndex) + 1
         const column = matchIndex - lineStart
 
         violations.push({
           id: `${rule.id}_global_${matchIndex}`,
-          rule: rule.name,
+          rule: rule.id,
           category: rule.category,
           severity: rule.severity,
           message: rule.message,
           line: lineNumber,
           column,
           suggestion: rule.suggestion,
-          documentation: rule.documentation
+          documentation: rule.documentation,
+          ...(rule.fix && { fix: this.createFix(rule, match, lineNumber, column) })
         })
       })
     }
@@ -123,6 +136,21 @@ export class BestPracticesEnforcer {
     return violations
   }
 
+  // Replaces the match, which starts at a 0-based column, with the fix template
+  private createFix(rule: BestPracticeRule, match: string, line: number, column: number): CodeFix {
+    const fix = rule.fix!
+    const replacement = match.replace(new RegExp(rule.pattern.source, rule.pattern.flags.replace('g', '')), fix.template)
+    const matchLines = match.split('\n')
+    const endLine = line + matchLines.length - 1
+    const endColumn = (matchLines.length === 1 ? column + 1 : 1) + matchLines[matchLines.length - 1].length
+
+    return {
+      kind: fix.kind,
+      description: fix.description,
+      edits: [{ line, column: column + 1, endLine, endColumn, replacement }]
+    }
+  }
+
   private initializeRules(): BestPracticeRule[] {
     return [
       // Naming conventions
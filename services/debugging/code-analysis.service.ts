@@ -1,4 +1,4 @@
-import { BaseService } from '../base/base-service'
+import { AbstractBaseService } from '../base/base-service'
 import { 
   CodeAnalysisRequest, 
   CodeAnalysisResult, 
@@ -8,8 +8,16 @@ import {
   PerformanceMetrics,
   BestPracticeViolation,
   CodeLanguage,
+  AnalysisLanguage,
   AnalysisLevel,
-  LanguageValidator
+  LanguageValidator,
+  CodeInterpreter,
+  CodeExecutionRequest,
+  ExecutionResult,
+  WorkspaceAnalysisRequest,
+  WorkspaceAnalysisResult,
+  WorkspaceFileResult,
+  SFMCContext
 } from '../../types/debugging'
 import { CodeAnalysisCache } from '../cache/code-analysis-cache'
 import { AMPScriptValidator } from './validators/ampscript-validator'
@@ -18,29 +26,54 @@ import { SQLValidator } from './validators/sql-validator'
 import { HTMLValidator } from './validators/html-validator'
 import { CSSValidator } from './validators/css-validator'
 import { JavaScriptValidator } from './validators/javascript-validator'
+import { DocumentValidator } from './validators/document-validator'
+import { AMPScriptInterpreter } from './runtime/ampscript-interpreter'
+import { SSJSSandbox } from './runtime/ssjs-sandbox'
 import { PerformanceAnalyzer } from './analyzers/performance-analyzer'
 import { BestPracticesAnalyzer } from './analyzers/best-practices-analyzer'
+import { FixEngine } from './fix-engine'
+import { dataVolumeIssues } from './data-volume'
+import { RuleIssue, applyRuleConfiguration } from './rule-config'
+import { SuppressionTracker } from './suppressions'
+import { ContentWorkspace } from './content-workspace'
+import { IncrementalDocument } from './incremental-document'
 
-export class CodeAnalysisService extends BaseService {
-  private validators: Map<CodeLanguage, LanguageValidator>
+export class CodeAnalysisService extends AbstractBaseService {
+  private validators: Map<AnalysisLanguage, LanguageValidator>
+  private interpreters: Map<CodeLanguage, CodeInterpreter>
   private performanceAnalyzer: PerformanceAnalyzer
   private bestPracticesAnalyzer: BestPracticesAnalyzer
+  private fixEngine: FixEngine
 
   constructor() {
     super('CodeAnalysisService')
     
     // Initialize validators for each supported language
-    this.validators = new Map([
+    this.validators = new Map<AnalysisLanguage, LanguageValidator>([
       ['ampscript', new AMPScriptValidator()],
       ['ssjs', new SSJSValidator()],
       ['sql', new SQLValidator()],
       ['html', new HTMLValidator()],
       ['css', new CSSValidator()],
-      ['javascript', new JavaScriptValidator()]
+      ['javascript', new JavaScriptValidator()],
+      // CloudPages and emails mixing several languages
+      ['cloudpage', new DocumentValidator('cloudpage')],
+      ['email', new DocumentValidator('email')]
+    ])
+
+    // Languages that can be executed offline against mock data
+    this.interpreters = new Map<CodeLanguage, CodeInterpreter>([
+      ['ampscript', new AMPScriptInterpreter()],
+      ['ssjs', new SSJSSandbox()]
     ])
 
     this.performanceAnalyzer = new PerformanceAnalyzer()
     this.bestPracticesAnalyzer = new BestPracticesAnalyzer()
+    this.fixEngine = new FixEngine()
+  }
+
+  async initialize(): Promise<void> {
+    this.initialized = true
   }
 
   async analyzeCode(request: CodeAnalysisRequest): Promise<CodeAnalysisResult> {
@@ -58,17 +91,25 @@ export class CodeAnalysisService extends BaseService {
         throw new Error(`Unsupported language: ${request.language}`)
       }
 
+      // Inline sfmc-debug-* directives and the project rule configuration decide which issues are reported
+      const suppressions = new SuppressionTracker(request.code, request.language)
+      const select = <T extends RuleIssue>(issues: T[]): T[] =>
+        suppressions.filter(applyRuleConfiguration(issues, request.ruleConfig))
+
       // Perform syntax and semantic analysis
-      const syntaxErrors = await validator.validateSyntax(request.code)
-      const semanticIssues = await validator.validateSemantics(request.code)
+      const syntaxErrors = select(await validator.validateSyntax(request.code))
+      const semanticIssues = select(await validator.validateSemantics(request.code, request.context))
       
       // Perform performance analysis if requested
       let performanceMetrics: PerformanceMetrics | undefined
       let performanceIssues: DebugError[] = []
       
       if (request.analysisLevel === 'performance' || request.analysisLevel === 'comprehensive') {
-        performanceMetrics = await this.performanceAnalyzer.analyze(request.code, request.language)
-        performanceIssues = await validator.analyzePerformance(request.code)
+        performanceMetrics = await this.performanceAnalyzer.analyze(request.code, request.language, request.context)
+        performanceIssues = select([
+          ...await validator.analyzePerformance(request.code),
+          ...dataVolumeIssues(performanceMetrics.dataVolume, request.ruleConfig)
+        ])
       }
 
       // Perform best practices analysis if requested
@@ -76,14 +117,14 @@ export class CodeAnalysisService extends BaseService {
       let optimizationSuggestions: OptimizationSuggestion[] = []
       
       if (request.analysisLevel === 'best_practices' || request.analysisLevel === 'comprehensive') {
-        bestPracticeViolations = await this.bestPracticesAnalyzer.analyze(request.code, request.language)
+        bestPracticeViolations = select(await this.bestPracticesAnalyzer.analyze(request.code, request.language, request.ruleConfig, request.rulePacks))
         optimizationSuggestions = await validator.getOptimizationSuggestions(request.code)
       }
 
       // Generate fixed code if errors were found
       let fixedCode: string | undefined
       if (syntaxErrors.length > 0 || semanticIssues.length > 0) {
-        fixedCode = await validator.generateFixedCode(request.code, [...syntaxErrors, ...semanticIssues])
+        fixedCode = await this.generateFixedCode(request, validator, [...syntaxErrors, ...semanticIssues])
       }
 
       const processingTime = Date.now() - startTime
@@ -93,13 +134,15 @@ export class CodeAnalysisService extends BaseService {
         code: request.code,
         language: request.language,
         analysisLevel: request.analysisLevel,
-        errors: syntaxErrors,
+        // Semantic errors, such as taint findings, are reported with the syntax errors
+        errors: [...syntaxErrors, ...semanticIssues.filter(issue => issue.severity === 'error')],
         warnings: semanticIssues.filter(issue => issue.severity === 'warning'),
         performanceIssues,
         bestPracticeViolations,
         optimizationSuggestions,
         performanceMetrics,
         fixedCode,
+        unusedSuppressions: suppressions.unused(),
         confidence: this.calculateConfidence(syntaxErrors, semanticIssues, performanceIssues),
         processingTime,
         createdAt: new Date()
@@ -115,12 +158,87 @@ export class CodeAnalysisService extends BaseService {
       return result
 
     } catch (error) {
-      this.logger.error('Code analysis failed', error)
+      this.logger.error('Code analysis failed', { error })
       throw error
     }
   }
 
-  async validateSyntax(code: string, language: CodeLanguage): Promise<DebugError[]> {
+  /**
+   * Analyses files that render each other through ContentBlockByKey,
+   * ContentBlockById, ContentBlockByName and TreatAsContent. Each file is
+   * analysed on its own first; the cross-file diagnostics are then added to
+   * the result of the file they were found in.
+   */
+  async analyzeWorkspace(request: WorkspaceAnalysisRequest): Promise<WorkspaceAnalysisResult> {
+    const startTime = Date.now()
+    const workspace = new ContentWorkspace(request.files)
+    const crossFile = workspace.analyze()
+    const files: WorkspaceFileResult[] = []
+
+    for (const file of request.files) {
+      const result = await this.analyzeCode({
+        code: file.code,
+        language: file.language,
+        analysisLevel: request.analysisLevel,
+        context: request.context,
+        ruleConfig: request.ruleConfig
+      })
+      const diagnostics = new SuppressionTracker(file.code, file.language)
+        .filter(applyRuleConfiguration(crossFile.get(file.name) ?? [], request.ruleConfig))
+
+      files.push({
+        name: file.name,
+        result: {
+          ...result,
+          errors: [
+            ...workspace.filterFileIssues(file.name, result.errors),
+            ...diagnostics.filter(issue => issue.severity === 'error')
+          ],
+          warnings: [
+            ...workspace.filterFileIssues(file.name, result.warnings),
+            ...diagnostics.filter(issue => issue.severity !== 'error')
+          ]
+        }
+      })
+    }
+
+    const includes = workspace.includes
+    const processingTime = Date.now() - startTime
+
+    this.logger.info('Workspace analysis completed', {
+      files: files.length,
+      includes: includes.length,
+      processingTime
+    })
+
+    return {
+      id: this.generateId(),
+      files,
+      includes,
+      processingTime,
+      createdAt: new Date()
+    }
+  }
+
+  async executeCode(request: CodeExecutionRequest): Promise<ExecutionResult> {
+    const interpreter = this.interpreters.get(request.language)
+    if (!interpreter) {
+      throw new Error(`Offline execution is not supported for ${request.language}`)
+    }
+
+    const result = interpreter.execute(request.code, request.context)
+
+    this.logger.info('Code execution completed', {
+      language: request.language,
+      completed: result.completed,
+      runtimeErrors: result.errors.length,
+      executionTime: result.executionTime
+    })
+
+    return result
+  }
+
+  async validateSyntax(code: string, language: AnalysisLanguage): Promise<DebugError[]> {
     const validator = this.validators.get(language)
     if (!validator) {
       throw new Error(`Unsupported language: ${language}`)
@@ -129,14 +247,51 @@ export class CodeAnalysisService extends BaseService {
     return await validator.validateSyntax(code)
   }
 
-  async analyzePerformance(code: string, language: CodeLanguage): Promise<PerformanceMetrics> {
-    return await this.performanceAnalyzer.analyze(code, language)
+  async analyzePerformance(code: string, language: AnalysisLanguage, context?: SFMCContext): Promise<PerformanceMetrics> {
+    return await this.performanceAnalyzer.analyze(code, language, context)
   }
 
-  async getBestPracticeViolations(code: string, language: CodeLanguage): Promise<BestPracticeViolation[]> {
+  async getBestPracticeViolations(code: string, language: AnalysisLanguage): Promise<BestPracticeViolation[]> {
     return await this.bestPracticesAnalyzer.analyze(code, language)
   }
 
+  /**
+   * Same issues as validateSyntax, reusing the results of the blocks of the
+   * document that did not change since its last validation
+   */
+  async validateSyntaxIncremental(document: IncrementalDocument): Promise<DebugError[]> {
+    const validator = this.validators.get(document.language)
+    if (!validator) {
+      throw new Error(`Unsupported language: ${document.language}`)
+    }
+
+    return await document.validateSyntax(validator)
+  }
+
+  async getBestPracticeViolationsIncremental(document: IncrementalDocument): Promise<BestPracticeViolation[]> {
+    return await document.enforceBestPractices(this.bestPracticesAnalyzer)
+  }
+
+  /**
+   * Runs the fix engine with the validator passes filtered the same way as
+   * the reported issues, so a disabled or suppressed rule is not fixed in a
+   * later pass either
+   */
+  private async generateFixedCode(
+    request: CodeAnalysisRequest,
+    validator: LanguageValidator,
+    issues: DebugError[]
+  ): Promise<string> {
+    const select = (code: string, found: DebugError[]) =>
+      new SuppressionTracker(code, request.language).filter(applyRuleConfiguration(found, request.ruleConfig))
+
+    const result = await this.fixEngine.fixCode(request.code, issues, {
+      validateSyntax: async code => select(code, await validator.validateSyntax(code)),
+      validateSemantics: async code => select(code, await validator.validateSemantics(code, request.context))
+    })
+    return result.code
+  }
+
   private calculateConfidence(
     syntaxErrors: DebugError[], 
     semanticIssues: DebugError[], 
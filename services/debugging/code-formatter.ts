@@ -0,0 +1,126 @@
+import { z } from 'zod'
+import {
+  AMPScriptFormatOptions,
+  FormatResult,
+  FormattableLanguage,
+  SSJSFormatOptions,
+  SqlFormatOptions
+} from '../../types/debugging'
+import { FormattingOptions } from '../../types/session'
+import { hasAMPScriptDelimiters } from './parsers/ampscript-lexer'
+import { formatAMPScript } from './formatters/ampscript-formatter'
+import { formatSSJS, formatServerScripts } from './formatters/ssjs-formatter'
+import { formatSql } from './formatters/sql-formatter'
+import { UnformattableCodeError, trimLineEnds } from './formatters/format-text'
+
+export const FORMATTABLE_LANGUAGES: FormattableLanguage[] = ['ampscript', 'ssjs', 'sql', 'html', 'cloudpage', 'email']
+
+const indentSize = z.number().int().min(1).max(8)
+const keywordCase = z.enum(['upper', 'lower'])
+
+export const FormattingOptionsSchema = z.object({
+  indentSize: indentSize.optional(),
+  insertFinalNewline: z.boolean().optional(),
+  trimTrailingWhitespace: z.boolean().optional(),
+  ampscript: z.object({
+    indentSize: indentSize.optional(),
+    keywordCase: keywordCase.optional(),
+    functionCase: z.enum(['canonical', 'preserve']).optional(),
+    indentBlockContent: z.boolean().optional()
+  }).strict().optional(),
+  ssjs: z.object({
+    indentSize: indentSize.optional(),
+    quotes: z.enum(['single', 'double', 'preserve']).optional()
+  }).strict().optional(),
+  sql: z.object({
+    indentSize: indentSize.optional(),
+    keywordCase: keywordCase.optional(),
+    alignJoins: z.boolean().optional(),
+    commaPosition: z.enum(['trailing', 'leading']).optional()
+  }).strict().optional()
+})
+
+export interface ResolvedFormattingOptions {
+  insertFinalNewline: boolean
+  trimTrailingWhitespace: boolean
+  ampscript: AMPScriptFormatOptions
+  ssjs: SSJSFormatOptions
+  sql: SqlFormatOptions
+}
+
+/**
+ * Fills in the formatter styles of every language from the user's
+ * codeFormatting preferences. A language without its own indentSize uses the
+ * shared one.
+ */
+export function resolveFormattingOptions(preferences: Partial<FormattingOptions> = {}): ResolvedFormattingOptions {
+  const indent = preferences.indentSize ?? 2
+
+  return {
+    insertFinalNewline: preferences.insertFinalNewline ?? true,
+    trimTrailingWhitespace: preferences.trimTrailingWhitespace ?? true,
+    ampscript: {
+      indentSize: indent,
+      keywordCase: 'upper',
+      functionCase: 'preserve',
+      indentBlockContent: false,
+      ...preferences.ampscript
+    },
+    ssjs: {
+      indentSize: indent,
+      quotes: 'preserve',
+      ...preferences.ssjs
+    },
+    sql: {
+      indentSize: indent,
+      keywordCase: 'upper',
+      alignJoins: true,
+      commaPosition: 'trailing',
+      ...preferences.sql
+    }
+  }
+}
+
+/**
+ * Formats code with the style from the user's preferences. Formatting is
+ * deterministic and idempotent: formatting the result again returns it
+ * unchanged. HTML, CloudPages and emails get their AMPScript and
+ * <script runat="server"> blocks formatted and their markup kept as written.
+ * Code that does not tokenize cleanly is returned unchanged with the reason
+ * in `skipped`.
+ */
+export function formatCode(code: string, language: FormattableLanguage, preferences?: Partial<FormattingOptions>): FormatResult {
+  const options = resolveFormattingOptions(preferences)
+  const crlf = code.includes('\r\n')
+  const source = crlf ? code.replace(/\r\n/g, '\n') : code
+
+  let formatted: string
+  try {
+    formatted = formatSource(source, language, options)
+  } catch (error) {
+    if (!(error instanceof UnformattableCodeError)) throw error
+    return { language, code, changed: false, skipped: error.message }
+  }
+
+  if (options.trimTrailingWhitespace) formatted = trimLineEnds(formatted)
+  if (options.insertFinalNewline && formatted && !formatted.endsWith('\n')) formatted += '\n'
+  if (crlf) formatted = formatted.replace(/\n/g, '\r\n')
+
+  return { language, code: formatted, changed: formatted !== code }
+}
+
+function formatSource(source: string, language: FormattableLanguage, options: ResolvedFormattingOptions): string {
+  switch (language) {
+    case 'ampscript':
+      return formatAMPScript(source, options.ampscript)
+    case 'ssjs':
+      return formatSSJS(source, options.ssjs)
+    case 'sql':
+      return formatSql(source, options.sql)
+    default: {
+      // Markup without AMPScript would otherwise be read as a bare script block
+      const withAMPScript = hasAMPScriptDelimiters(source) ? formatAMPScript(source, options.ampscript) : source
+      return formatServerScripts(withAMPScript, options.ssjs) ?? withAMPScript
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { AnalysisLanguage } from '../../types/debugging'
+import { parseAMPScript } from './parsers/ampscript-parser'
+import { AMPScriptExpression, walkAMPScript } from './parsers/ampscript-ast'
+import { extractEmbeddedSources, isDocumentLanguage } from './parsers/document-regions'
+import { LineIndex } from './parsers/source-text'
+
+// Read or write of an AMPScript variable, from AMPScript or through the SSJS Variable object
+export interface VariableAccess {
+  type: 'variable'
+  name: string
+  // AMPScript variable names are case-insensitive
+  key: string
+  kind: 'read' | 'write' | 'declare'
+  language: 'ampscript' | 'ssjs'
+  // Execution order; a SET writes its variable after the value is evaluated
+  offset: number
+  line: number
+  column: number
+}
+
+// Call that renders other content: a Content Builder block or a string of AMPScript
+export interface ContentInclude {
+  type: 'include'
+  function: string
+  by: 'key' | 'id' | 'name' | 'content'
+  // Literal argument; undefined when the block is chosen at runtime
+  value?: string
+  language: 'ampscript' | 'ssjs'
+  offset: number
+  line: number
+  column: number
+}
+
+export type ContentEvent = VariableAccess | ContentInclude
+
+const CONTENT_FUNCTIONS: Record<string, ContentInclude['by']> = {
+  contentblockbykey: 'key',
+  contentblockbyid: 'id',
+  contentblockbyname: 'name',
+  treatascontent: 'content'
+}
+
+const SSJS_VARIABLE_PATTERN = /\b(?:Platform\.)?Variable\.(GetValue|SetValue)\s*\(\s*(["'])([^"'\n]+)\2/g
+const SSJS_CONTENT_PATTERN = /\bPlatform\.Function\.(ContentBlockByKey|ContentBlockById|ContentBlockByName|TreatAsContent)\s*\(\s*/g
+const SSJS_LITERAL_PATTERN = /(["'])((?:\\.|(?!\1)[^\\\n])*)\1|(\d+)\b/y
+
+/**
+ * Lists the AMPScript variable accesses and content includes of a file in
+ * execution order. AMPScript and SSJS files are read as a whole; CloudPages
+ * and emails through their embedded AMPScript and SSJS regions.
+ */
+export function collectContentEvents(code: string, language: AnalysisLanguage): ContentEvent[] {
+  const lineIndex = new LineIndex(code)
+  const events: ContentEvent[] = []
+  const position = (offset: number) => {
+    const { line, column } = lineIndex.positionAt(offset)
+    return { line, column }
+  }
+
+  const addAMPScript = (source: string, at: (offset: number) => number, bareScript?: boolean) => {
+    const { program } = parseAMPScript(source, bareScript)
+    const variable = (name: string, kind: VariableAccess['kind'], nameOffset: number, offset = nameOffset) => {
+      events.push({ type: 'variable', name, key: name.toLowerCase(), kind, language: 'ampscript', offset: at(offset), ...position(at(nameOffset)) })
+    }
+
+    walkAMPScript(program.body, node => {
+      if (node.type === 'Var') {
+        node.variables.forEach(v => variable(v.name, 'declare', v.range.start.offset))
+        return false
+      }
+      if (node.type === 'Set') variable(node.target.name, 'write', node.target.range.start.offset, node.range.end.offset)
+      if (node.type === 'For' && node.counter) variable(node.counter.name, 'write', node.counter.range.start.offset)
+      if (node.type === 'Variable') variable(node.name, 'read', node.range.start.offset)
+      if (node.type === 'Call') {
+        const by = CONTENT_FUNCTIONS[node.callee.toLowerCase()]
+        if (!by || isContentCall(node.args[0])) return
+        const offset = at(node.range.start.offset)
+        events.push({ type: 'include', function: node.callee, by, value: literalValue(node.args[0]), language: 'ampscript', offset, ...position(offset) })
+      }
+    })
+  }
+
+  const addSSJS = (source: string, toDocumentOffset: (offset: number) => number) => {
+    for (const match of source.matchAll(SSJS_VARIABLE_PATTERN)) {
+      const nameOffset = toDocumentOffset((match.index ?? 0) + match[0].length - match[3].length - 1)
+      events.push({
+        type: 'variable',
+        name: match[3],
+        key: match[3].toLowerCase(),
+        kind: match[1] === 'GetValue' ? 'read' : 'write',
+        language: 'ssjs',
+        offset: nameOffset,
+        ...position(nameOffset)
+      })
+    }
+
+    for (const match of source.matchAll(SSJS_CONTENT_PATTERN)) {
+      const argumentStart = (match.index ?? 0) + match[0].length
+      if (source.startsWith('Platform.Function.ContentBlock', argumentStart)) continue
+
+      SSJS_LITERAL_PATTERN.lastIndex = argumentStart
+      const literal = SSJS_LITERAL_PATTERN.exec(source)
+      const offset = toDocumentOffset(match.index ?? 0)
+      events.push({
+        type: 'include',
+        function: match[1],
+        by: CONTENT_FUNCTIONS[match[1].toLowerCase()],
+        value: literal ? literal[2] ?? literal[3] : undefined,
+        language: 'ssjs',
+        offset,
+        ...position(offset)
+      })
+    }
+  }
+
+  if (language === 'ampscript') addAMPScript(code, offset => offset)
+  if (language === 'ssjs') addSSJS(code, offset => offset)
+  if (isDocumentLanguage(language)) {
+    extractEmbeddedSources(code).forEach(source => {
+      if (source.language === 'ampscript') addAMPScript(source.code, offset => source.toDocumentOffset(offset), false)
+      if (source.language === 'ssjs') addSSJS(source.code, offset => source.toDocumentOffset(offset))
+    })
+  }
+
+  return events.sort((a, b) => a.offset - b.offset)
+}
+
+export function isVariableAccess(event: ContentEvent): event is VariableAccess {
+  return event.type === 'variable'
+}
+
+// TreatAsContent(ContentBlockByKey(...)) is reported once, for the inner call
+function isContentCall(argument: AMPScriptExpression | undefined): boolean {
+  return argument?.type === 'Call' && CONTENT_FUNCTIONS[argument.callee.toLowerCase()] !== undefined
+}
+
+function literalValue(argument: AMPScriptExpression | undefined): string | undefined {
+  if (argument?.type === 'String') return argument.value
+  if (argument?.type === 'Number') return argument.raw
+  return undefined
+}
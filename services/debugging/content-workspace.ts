@@ -0,0 +1,240 @@
+import { AnalysisLanguage, DebugError, WorkspaceFile, WorkspaceInclude } from '../../types/debugging'
+import { ContentAsset } from '../../types/sfmc'
+import { ContentEvent, ContentInclude, collectContentEvents, isVariableAccess } from './content-events'
+
+const EMAIL_ASSET_TYPES = ['htmlemail', 'templatebasedemail', 'textonlyemail']
+
+// Single-file variable checks that the workspace analysis replaces
+const REPLACED_VARIABLE_RULES = ['ampscript-undefined-variable', 'document-undefined-variable']
+
+interface RenderState {
+  // Variables set so far, across every file rendered in this pass
+  known: Set<string>
+  // Files being rendered, outermost first
+  chain: string[]
+}
+
+/**
+ * Converts a Content Builder asset into a workspace file. Emails are
+ * analysed in email mode, blocks and pages as CloudPage content.
+ */
+export function contentAssetToWorkspaceFile(asset: ContentAsset): WorkspaceFile {
+  const language: AnalysisLanguage = EMAIL_ASSET_TYPES.includes(asset.assetType.name.toLowerCase()) ? 'email' : 'cloudpage'
+
+  return {
+    name: asset.category ? `${asset.category.name}/${asset.name}` : asset.name,
+    code: asset.content ?? '',
+    language,
+    customerKey: asset.customerKey,
+    assetId: asset.id
+  }
+}
+
+/**
+ * A set of files that render each other through ContentBlockByKey,
+ * ContentBlockById, ContentBlockByName and TreatAsContent. Every file that
+ * no other file includes is rendered as an entry point, following includes
+ * in execution order, to find:
+ *
+ *   - variables read before any file in the include chain sets them
+ *   - includes that lead back to a file that is still being rendered
+ *   - blocks that are not part of the workspace
+ *
+ * Files that are only reachable through a cycle are rendered on their own.
+ */
+export class ContentWorkspace {
+  private readonly events = new Map<string, ContentEvent[]>()
+  private readonly diagnostics = new Map<string, Map<string, DebugError>>()
+  private readonly reportedReads = new Set<string>()
+
+  constructor(private readonly files: WorkspaceFile[]) {
+    files.forEach(file => this.events.set(file.name, collectContentEvents(file.code, file.language)))
+  }
+
+  resolve(include: ContentInclude): WorkspaceFile | undefined {
+    const value = include.value?.toLowerCase()
+    if (value === undefined) return undefined
+
+    switch (include.by) {
+      case 'key':
+        return this.files.find(file => file.customerKey?.toLowerCase() === value) ??
+          this.files.find(file => baseName(file.name) === value)
+      case 'id':
+        return this.files.find(file => file.assetId !== undefined && String(file.assetId) === value)
+      case 'name':
+        return this.files.find(file => baseName(file.name) === baseName(value))
+      default:
+        return undefined
+    }
+  }
+
+  get includes(): WorkspaceInclude[] {
+    return this.files.flatMap(file => this.includesOf(file).map(include => ({
+      file: file.name,
+      line: include.line,
+      column: include.column,
+      function: include.function,
+      value: include.value,
+      target: this.resolve(include)?.name
+    })))
+  }
+
+  /**
+   * Cross-file diagnostics, keyed by the name of the file they were found in
+   */
+  analyze(): Map<string, DebugError[]> {
+    this.diagnostics.clear()
+    this.reportedReads.clear()
+
+    const included = new Set(this.files.flatMap(file =>
+      this.includesOf(file).map(include => this.resolve(include)?.name).filter(name => name && name !== file.name)
+    ))
+    const rendered = new Set<string>()
+    const entries = [
+      ...this.files.filter(file => !included.has(file.name)),
+      ...this.files.filter(file => included.has(file.name))
+    ]
+
+    entries.forEach(file => {
+      if (rendered.has(file.name)) return
+      this.render(file, this.events.get(file.name) ?? [], { known: new Set(), chain: [file.name] }, rendered)
+    })
+
+    return new Map(this.files.map(file => [file.name, Array.from(this.diagnostics.get(file.name)?.values() ?? [])]))
+  }
+
+  /**
+   * Drops single-file variable issues the workspace analysis decides
+   * differently: undefined variables are re-checked across includes, and a
+   * variable is not unused when another file reads it
+   */
+  filterFileIssues(name: string, issues: DebugError[]): DebugError[] {
+    const accesses = (this.events.get(name) ?? []).filter(isVariableAccess)
+
+    return issues.filter(issue => {
+      if (REPLACED_VARIABLE_RULES.includes(issue.rule)) return false
+      if (issue.rule !== 'ampscript-unused-variable') return true
+
+      const written = accesses.find(access => access.line === issue.line && access.column === issue.column)
+      return !written || !this.isReadOutside(name, written.key)
+    })
+  }
+
+  private includesOf(file: WorkspaceFile): ContentInclude[] {
+    return (this.events.get(file.name) ?? []).filter((event): event is ContentInclude => event.type === 'include')
+  }
+
+  private isReadOutside(name: string, key: string): boolean {
+    return Array.from(this.events.entries()).some(([file, events]) =>
+      file !== name && events.some(event => event.type === 'variable' && event.kind === 'read' && event.key === key)
+    )
+  }
+
+  private render(file: WorkspaceFile, events: ContentEvent[], state: RenderState, rendered: Set<string>, at?: ContentInclude): void {
+    rendered.add(file.name)
+
+    events.forEach(event => {
+      // Events of inline TreatAsContent strings are reported at the call
+      const position = at ?? event
+
+      if (event.type === 'variable') {
+        if (event.kind !== 'read') {
+          state.known.add(event.key)
+        } else if (!state.known.has(event.key)) {
+          this.reportUndefinedRead(file, event.name, event.key, event.language, position, state.chain)
+        }
+        return
+      }
+
+      if (event.value === undefined) {
+        this.report(file.name, {
+          id: `dynamic_content_${position.line}_${position.column}`,
+          line: position.line,
+          column: position.column,
+          severity: 'info',
+          message: `${event.function} is called with a value chosen at runtime; the included content is not analysed`,
+          rule: 'workspace-dynamic-content',
+          category: 'semantic',
+          fixSuggestion: 'Use a literal key or id so the included block can be checked'
+        })
+        return
+      }
+
+      if (event.by === 'content') {
+        if (event.value.includes('%%')) {
+          this.render(file, collectContentEvents(event.value, 'ampscript'), state, rendered, at ?? event)
+        }
+        return
+      }
+
+      const target = this.resolve(event)
+      if (!target) {
+        this.report(file.name, {
+          id: `missing_block_${position.line}_${position.column}`,
+          line: position.line,
+          column: position.column,
+          severity: 'error',
+          message: `${event.function}: no content block with ${event.by} "${event.value}" in the workspace`,
+          rule: 'workspace-missing-block',
+          category: 'semantic',
+          fixSuggestion: 'Add the block to the workspace or check the key, id or name'
+        })
+        return
+      }
+
+      if (state.chain.includes(target.name)) {
+        this.report(file.name, {
+          id: `circular_include_${position.line}_${position.column}`,
+          line: position.line,
+          column: position.column,
+          severity: 'error',
+          message: `Circular include: ${[...state.chain, target.name].join(' → ')}`,
+          rule: 'workspace-circular-include',
+          category: 'semantic',
+          fixSuggestion: 'Remove the include that leads back to a block that is already being rendered'
+        })
+        return
+      }
+
+      state.chain.push(target.name)
+      this.render(target, this.events.get(target.name) ?? [], state, rendered)
+      state.chain.pop()
+    })
+  }
+
+  private reportUndefinedRead(
+    file: WorkspaceFile,
+    name: string,
+    key: string,
+    language: 'ampscript' | 'ssjs',
+    position: { line: number, column: number },
+    chain: string[]
+  ): void {
+    const readKey = `${file.name}\u0000${key}`
+    if (this.reportedReads.has(readKey)) return
+    this.reportedReads.add(readKey)
+
+    const from = chain.length > 1 ? ` when rendered from ${chain.slice(0, -1).join(' → ')}` : ''
+    this.report(file.name, {
+      id: `undefined_variable_${position.line}_${position.column}`,
+      line: position.line,
+      column: position.column,
+      severity: language === 'ampscript' ? 'error' : 'warning',
+      message: `Variable ${name} is used before it is set${from}`,
+      rule: 'workspace-undefined-variable',
+      category: 'semantic',
+      fixSuggestion: `SET ${name} before the read, or before the ContentBlock call that renders this file`
+    })
+  }
+
+  private report(file: string, error: DebugError): void {
+    const errors = this.diagnostics.get(file) ?? new Map<string, DebugError>()
+    if (!errors.has(error.id)) errors.set(error.id, error)
+    this.diagnostics.set(file, errors)
+  }
+}
+
+// File name without folders and extension, lower-cased for matching
+function baseName(name: string): string {
+  return name.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '').toLowerCase()
+}
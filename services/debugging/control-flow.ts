@@ -0,0 +1,554 @@
+import { AnalysisLanguage, ControlFlowBlock, ControlFlowBlockKind, ControlFlowGraph } from '../../types/debugging'
+import { AMPScriptExpression, AMPScriptStatement, ElseIfClauseNode } from './parsers/ampscript-ast'
+import { tokenizeAMPScript } from './parsers/ampscript-lexer'
+import { parseAMPScript } from './parsers/ampscript-parser'
+import { extractEmbeddedSources, isDocumentLanguage } from './parsers/document-regions'
+import { LineIndex } from './parsers/source-text'
+import { closingParen, maskSSJS, readExpression } from './parsers/ssjs-text'
+
+interface Span {
+  start: number
+  end: number
+}
+
+// Statements reduced to what decides the flow of control. Branches, loops,
+// switches and catches carry the span of their head, the rest the span of
+// the statement.
+type FlowStatement =
+  | { type: 'simple', span: Span }
+  | { type: 'jump', jump: 'return' | 'throw' | 'break' | 'continue', span: Span }
+  | { type: 'branch', span: Span, consequent: FlowStatement[], alternate?: FlowStatement[], elseIf: boolean }
+  | { type: 'loop', span: Span, body: FlowStatement[], postTest: boolean }
+  | { type: 'switch', span: Span, cases: FlowCase[] }
+  | { type: 'try', span: Span, block: FlowStatement[], handler?: { span: Span, body: FlowStatement[] }, finalizer?: FlowStatement[] }
+
+interface FlowCase {
+  span: Span
+  body: FlowStatement[]
+}
+
+interface FlowFunction {
+  name: string
+  span: Span
+  body: FlowStatement[]
+}
+
+// Code a graph is built from, with the positions mapped to the analysed document
+interface FlowSource {
+  language: 'ampscript' | 'ssjs'
+  text: string
+  at: (offset: number) => number
+  // Logical operators of the span, in order: &&, || and ? in SSJS, AND and OR in AMPScript
+  operators: (span: Span) => string[]
+}
+
+// Where break and continue go from the current statement
+interface JumpTargets {
+  breaks?: number[]
+  continueTarget?: number
+}
+
+const MAX_LABEL_LENGTH = 60
+const TOP_LEVEL = '(top level)'
+
+const SSJS_WORD_PATTERN = /[A-Za-z_$][\w$]*/y
+const SSJS_FUNCTION_PATTERN = /function\b\s*([A-Za-z_$][\w$]*)?\s*\(/y
+const SSJS_FUNCTION_KEYWORD_PATTERN = /\bfunction\b/g
+const SSJS_FUNCTION_NAME_PATTERN = /([A-Za-z_$][\w$]*)\s*[:=]\s*$/
+const SSJS_OPERATOR_PATTERN = /&&|\|\||\?(?![?.])/g
+const SSJS_SCRIPT_TAG_PATTERN = /<\/?script\b[^>]*>/gi
+
+/**
+ * Builds the control-flow graphs of AMPScript and SSJS: one for each SSJS
+ * function and one for the code outside functions. CloudPages and emails
+ * get the graphs of their AMPScript and server-side scripts, with lines in
+ * the document.
+ *
+ * Each block adds to the cognitive complexity of its graph: branches, loops
+ * and catches 1 plus their nesting (else-if branches only 1, an else 1
+ * more), and every run of the same logical operator 1. Cyclomatic
+ * complexity is edges - blocks + 2 plus the && and || operators and
+ * conditional expressions.
+ */
+export function buildControlFlowGraphs(code: string, language: AnalysisLanguage): ControlFlowGraph[] {
+  const lineIndex = new LineIndex(code)
+  const graphs = (source: string, sourceLanguage: string, at: (offset: number) => number, bareScript?: boolean): ControlFlowGraph[] => {
+    if (sourceLanguage === 'ampscript') return ampscriptGraphs(source, at, lineIndex, bareScript)
+    if (sourceLanguage === 'ssjs') return ssjsGraphs(source, at, lineIndex)
+    return []
+  }
+
+  if (isDocumentLanguage(language)) {
+    return extractEmbeddedSources(code)
+      .flatMap(source => graphs(source.code, source.language, offset => source.toDocumentOffset(offset), false))
+      .sort((a, b) => a.line - b.line)
+  }
+  return graphs(code, language, offset => offset)
+}
+
+/**
+ * The blocks that add the most cognitive complexity, with the graph they
+ * belong to
+ */
+export function complexityHotspots(
+  graphs: ControlFlowGraph[],
+  limit = 5
+): Array<{ graph: ControlFlowGraph, block: ControlFlowBlock }> {
+  return graphs
+    .flatMap(graph => graph.blocks.map(block => ({ graph, block })))
+    .filter(({ block }) => block.complexity > 0)
+    .sort((a, b) => b.block.complexity - a.block.complexity || a.block.line - b.block.line)
+    .slice(0, limit)
+}
+
+function ampscriptGraphs(source: string, at: (offset: number) => number, lineIndex: LineIndex, bareScript?: boolean): ControlFlowGraph[] {
+  const { program } = parseAMPScript(source, bareScript)
+  const body = ampscriptStatements(program.body)
+  if (body.length === 0) return []
+
+  const logical = tokenizeAMPScript(source, bareScript).tokens
+    .filter(token => token.type === 'keyword' && (token.value === 'AND' || token.value === 'OR'))
+  const flowSource: FlowSource = {
+    language: 'ampscript',
+    text: source,
+    at,
+    operators: span => logical
+      .filter(token => token.range.start.offset >= span.start && token.range.end.offset <= span.end)
+      .map(token => token.value)
+  }
+
+  return [new GraphBuilder(flowSource, lineIndex).build({ name: TOP_LEVEL, span: { start: 0, end: source.length }, body })]
+}
+
+function ampscriptStatements(statements: AMPScriptStatement[]): FlowStatement[] {
+  return statements.flatMap((statement): FlowStatement[] => {
+    switch (statement.type) {
+      case 'If':
+        return [ampscriptBranch(
+          statement.keywordRange.start.offset,
+          statement.condition,
+          statement.consequent,
+          statement.elseIfs,
+          statement.alternate,
+          false
+        )]
+      case 'For':
+        return [{
+          type: 'loop',
+          span: { start: statement.keywordRange.start.offset, end: (statement.end ?? statement.counter)?.range.end.offset ?? statement.keywordRange.end.offset },
+          body: ampscriptStatements(statement.body),
+          postTest: false
+        }]
+      // Markup around the code does not change the flow
+      case 'Content':
+      case 'Personalization':
+        return []
+      default:
+        return [{ type: 'simple', span: { start: statement.range.start.offset, end: statement.range.end.offset } }]
+    }
+  })
+}
+
+// ELSEIF clauses become branches nested in the alternate of the one before
+function ampscriptBranch(
+  start: number,
+  condition: AMPScriptExpression | null,
+  consequent: AMPScriptStatement[],
+  elseIfs: ElseIfClauseNode[],
+  alternate: AMPScriptStatement[] | null,
+  elseIf: boolean
+): FlowStatement {
+  const [next, ...rest] = elseIfs
+  return {
+    type: 'branch',
+    span: { start, end: condition?.range.end.offset ?? start },
+    consequent: ampscriptStatements(consequent),
+    alternate: next
+      ? [ampscriptBranch(next.range.start.offset, next.condition, next.body, rest, alternate, true)]
+      : alternate ? ampscriptStatements(alternate) : undefined,
+    elseIf
+  }
+}
+
+function ssjsGraphs(source: string, at: (offset: number) => number, lineIndex: LineIndex): ControlFlowGraph[] {
+  // Server-side script regions of documents keep their tags
+  const structure = maskSSJS(source).structure.replace(SSJS_SCRIPT_TAG_PATTERN, tag => ' '.repeat(tag.length))
+  const parser = new SSJSFlowParser(structure)
+  const topLevel: FlowFunction = { name: TOP_LEVEL, span: { start: 0, end: source.length }, body: parser.statements(0, structure.length) }
+
+  const flowSource: FlowSource = {
+    language: 'ssjs',
+    text: source,
+    at,
+    operators: span => Array.from(structure.slice(span.start, span.end).matchAll(SSJS_OPERATOR_PATTERN), match => match[0])
+  }
+
+  return [...(topLevel.body.length > 0 ? [topLevel] : []), ...parser.functions]
+    .sort((a, b) => a.span.start - b.span.start)
+    .map(flowFunction => new GraphBuilder(flowSource, lineIndex).build(flowFunction))
+}
+
+/**
+ * Reads the statements of SSJS with comments and strings masked. Function
+ * declarations and function expressions are collected as functions of their
+ * own; in the code around them they do not change the flow.
+ */
+class SSJSFlowParser {
+  readonly functions: FlowFunction[] = []
+
+  constructor(private readonly structure: string) {}
+
+  statements(start: number, end: number): FlowStatement[] {
+    const statements: FlowStatement[] = []
+    let i = this.skip(start, end)
+    while (i < end) {
+      const [parsed, next] = this.statement(i, end)
+      statements.push(...parsed)
+      i = this.skip(Math.max(next, i + 1), end)
+    }
+    return statements
+  }
+
+  // The statement at start and the offset after it
+  private statement(start: number, end: number): [FlowStatement[], number] {
+    const structure = this.structure
+
+    if (structure[start] === '{') {
+      const close = Math.min(closingParen(structure, start), end)
+      return [this.statements(start + 1, close), close + 1]
+    }
+
+    const word = this.word(start)
+    switch (word) {
+      case 'function': {
+        const declared = this.functionAt(start, end)
+        if (declared) return [[], declared]
+        break
+      }
+      case 'if': {
+        const head = this.head(start, word, end)
+        if (!head) break
+        const [consequent, afterConsequent] = this.statement(this.skip(head.end, end), end)
+        const elseAt = this.skip(afterConsequent, end)
+        if (this.word(elseAt) !== 'else') {
+          return [[{ type: 'branch', span: head, consequent, elseIf: false }], afterConsequent]
+        }
+
+        const alternateAt = this.skip(elseAt + 4, end)
+        const [alternate, afterAlternate] = this.statement(alternateAt, end)
+        if (this.word(alternateAt) === 'if' && alternate.length === 1 && alternate[0].type === 'branch') {
+          alternate[0].elseIf = true
+        }
+        return [[{ type: 'branch', span: head, consequent, alternate, elseIf: false }], afterAlternate]
+      }
+      case 'for':
+      case 'while': {
+        const head = this.head(start, word, end)
+        if (!head) break
+        const [body, next] = this.statement(this.skip(head.end, end), end)
+        return [[{ type: 'loop', span: head, body, postTest: false }], next]
+      }
+      case 'do': {
+        const [body, afterBody] = this.statement(this.skip(start + 2, end), end)
+        const whileAt = this.skip(afterBody, end)
+        const head = this.word(whileAt) === 'while' ? this.head(whileAt, 'while', end) : undefined
+        return [[{ type: 'loop', span: head ?? { start, end: start + 2 }, body, postTest: true }], head?.end ?? afterBody]
+      }
+      case 'switch': {
+        const head = this.head(start, word, end)
+        const open = head && this.skip(head.end, end)
+        if (!head || open === undefined || structure[open] !== '{') break
+        const close = Math.min(closingParen(structure, open), end)
+        return [[{ type: 'switch', span: head, cases: this.cases(open + 1, close) }], close + 1]
+      }
+      case 'try':
+        return this.tryStatement(start, end)
+      case 'return':
+      case 'throw':
+      case 'break':
+      case 'continue': {
+        const statementEnd = Math.min(readExpression(structure, start, ';\n'), end)
+        this.functionExpressions(start, statementEnd)
+        return [[{ type: 'jump', jump: word, span: { start, end: statementEnd } }], statementEnd]
+      }
+    }
+
+    const statementEnd = Math.min(readExpression(structure, start, ';\n'), end)
+    this.functionExpressions(start, statementEnd)
+    return [[{ type: 'simple', span: { start, end: statementEnd } }], statementEnd]
+  }
+
+  private tryStatement(start: number, end: number): [FlowStatement[], number] {
+    const structure = this.structure
+    const blockAt = this.skip(start + 3, end)
+    const [block, afterBlock] = this.statement(blockAt, end)
+    const statement: Extract<FlowStatement, { type: 'try' }> = { type: 'try', span: { start, end: start + 3 }, block }
+    let next = afterBlock
+
+    let clauseAt = this.skip(next, end)
+    if (this.word(clauseAt) === 'catch') {
+      const head = structure[this.skip(clauseAt + 5, end)] === '(' ? this.head(clauseAt, 'catch', end) : undefined
+      const span = head ?? { start: clauseAt, end: clauseAt + 5 }
+      const [body, afterHandler] = this.statement(this.skip(span.end, end), end)
+      statement.handler = { span, body }
+      next = afterHandler
+      clauseAt = this.skip(next, end)
+    }
+    if (this.word(clauseAt) === 'finally') {
+      const [finalizer, afterFinalizer] = this.statement(this.skip(clauseAt + 7, end), end)
+      statement.finalizer = finalizer
+      next = afterFinalizer
+    }
+
+    return [[statement], next]
+  }
+
+  private cases(start: number, end: number): FlowCase[] {
+    const cases: FlowCase[] = []
+    let i = this.skip(start, end)
+    while (i < end) {
+      const word = this.word(i)
+      if (word === 'case' || word === 'default') {
+        const colon = Math.min(readExpression(this.structure, i, ':'), end)
+        cases.push({ span: { start: i, end: colon + 1 }, body: [] })
+        i = this.skip(colon + 1, end)
+        continue
+      }
+
+      const [parsed, next] = this.statement(i, end)
+      cases[cases.length - 1]?.body.push(...parsed)
+      i = this.skip(Math.max(next, i + 1), end)
+    }
+    return cases
+  }
+
+  // Span from the keyword to the parenthesis closing its condition
+  private head(start: number, keyword: string, end: number): Span | undefined {
+    const open = this.skip(start + keyword.length, end)
+    if (this.structure[open] !== '(') return undefined
+    return { start, end: Math.min(closingParen(this.structure, open), end) + 1 }
+  }
+
+  // Collects the function starting at start; returns the offset after it
+  private functionAt(start: number, end: number, name?: string): number | undefined {
+    SSJS_FUNCTION_PATTERN.lastIndex = start
+    const match = SSJS_FUNCTION_PATTERN.exec(this.structure)
+    if (!match) return undefined
+
+    const close = closingParen(this.structure, start + match[0].length - 1)
+    const open = this.skip(close + 1, end)
+    if (this.structure[open] !== '{') return undefined
+
+    const bodyEnd = Math.min(closingParen(this.structure, open), end)
+    this.functions.push({
+      name: match[1] ?? name ?? '(anonymous)',
+      span: { start, end: bodyEnd + 1 },
+      body: this.statements(open + 1, bodyEnd)
+    })
+    return bodyEnd + 1
+  }
+
+  // Function expressions inside a statement, named after what they are assigned to
+  private functionExpressions(start: number, end: number): void {
+    SSJS_FUNCTION_KEYWORD_PATTERN.lastIndex = start
+    let match: RegExpExecArray | null
+    while ((match = SSJS_FUNCTION_KEYWORD_PATTERN.exec(this.structure)) && match.index < end) {
+      const name = SSJS_FUNCTION_NAME_PATTERN.exec(this.structure.slice(Math.max(start, match.index - 100), match.index))?.[1]
+      const next = this.functionAt(match.index, end, name)
+      SSJS_FUNCTION_KEYWORD_PATTERN.lastIndex = next ?? match.index + 8
+    }
+  }
+
+  private word(offset: number): string | undefined {
+    SSJS_WORD_PATTERN.lastIndex = offset
+    return SSJS_WORD_PATTERN.exec(this.structure)?.[0]
+  }
+
+  // Skips whitespace and empty statements
+  private skip(offset: number, end: number): number {
+    let i = offset
+    while (i < end && /[\s;]/.test(this.structure[i])) i++
+    return i
+  }
+}
+
+/**
+ * Turns the statements of a function into basic blocks. Consecutive simple
+ * statements share a block; branches, loops, case labels and catches start
+ * blocks of their own.
+ */
+class GraphBuilder {
+  private readonly blocks: ControlFlowBlock[] = []
+  // Blocks followed by the start of a do-while body, which the loop jumps
+  // back to; statements after them start a new block
+  private readonly sealed = new Set<number>()
+  private exit = -1
+  private operatorCount = 0
+
+  constructor(private readonly source: FlowSource, private readonly lineIndex: LineIndex) {}
+
+  build(flowFunction: FlowFunction): ControlFlowGraph {
+    const { span } = flowFunction
+    const entry = this.block('entry', span, 0, 0, flowFunction.name)
+    this.exit = this.block('exit', { start: span.end, end: span.end }, 0, 0, 'exit')
+    this.sequence(flowFunction.body, [entry], 0, {}).forEach(end => this.edge(end, this.exit))
+
+    const edges = this.blocks.reduce((total, block) => total + block.successors.length, 0)
+    const nested = this.blocks.filter(block => block.kind === 'branch' || block.kind === 'loop' || block.kind === 'catch')
+    return {
+      name: flowFunction.name,
+      language: this.source.language,
+      line: this.line(span.start),
+      endLine: this.line(Math.max(span.start, span.end - 1)),
+      blocks: this.blocks,
+      cyclomaticComplexity: Math.max(1, edges - this.blocks.length + 2) + this.operatorCount,
+      cognitiveComplexity: this.blocks.reduce((total, block) => total + block.complexity, 0),
+      nestingDepth: nested.length === 0 ? 0 : Math.max(...nested.map(block => block.nesting)) + 1
+    }
+  }
+
+  // Adds the statements after the blocks in ends; returns the blocks the
+  // flow leaves the statements from
+  private sequence(statements: FlowStatement[], ends: number[], nesting: number, targets: JumpTargets): number[] {
+    return statements.reduce((current, statement) => this.statement(statement, current, nesting, targets), ends)
+  }
+
+  private statement(statement: FlowStatement, ends: number[], nesting: number, targets: JumpTargets): number[] {
+    switch (statement.type) {
+      case 'simple':
+        return [this.simple(statement.span, ends, nesting)]
+
+      case 'jump': {
+        const block = this.simple(statement.span, ends, nesting)
+        if (statement.jump === 'break' && targets.breaks) {
+          targets.breaks.push(block)
+        } else if (statement.jump === 'continue' && targets.continueTarget !== undefined) {
+          this.edge(block, targets.continueTarget)
+        } else {
+          this.edge(block, this.exit)
+        }
+        return []
+      }
+
+      case 'branch': {
+        const alternateIsElseIf = statement.alternate?.length === 1 && statement.alternate[0].type === 'branch' && statement.alternate[0].elseIf
+        const complexity = 1 + (statement.elseIf ? 0 : nesting) + (statement.alternate && !alternateIsElseIf ? 1 : 0)
+        const branch = this.decision('branch', statement.span, ends, nesting, complexity)
+        const consequent = this.sequence(statement.consequent, [branch], nesting + 1, targets)
+        const alternate = statement.alternate
+          ? this.sequence(statement.alternate, [branch], alternateIsElseIf ? nesting : nesting + 1, targets)
+          : [branch]
+        return unique([...consequent, ...alternate])
+      }
+
+      case 'loop': {
+        const breaks: number[] = []
+        if (statement.postTest) {
+          // The condition of a do-while comes after its body and jumps back to the start
+          const condition = this.decision('loop', statement.span, [], nesting, 1 + nesting)
+          ends.forEach(end => this.sealed.add(end))
+          const first = this.blocks.length
+          const body = this.sequence(statement.body, ends, nesting + 1, { breaks, continueTarget: condition })
+          body.forEach(end => this.edge(end, condition))
+          this.edge(condition, first < this.blocks.length ? first : condition)
+          if (first === this.blocks.length) ends.forEach(end => this.edge(end, condition))
+          return unique([condition, ...breaks])
+        }
+
+        const head = this.decision('loop', statement.span, ends, nesting, 1 + nesting)
+        this.sequence(statement.body, [head], nesting + 1, { breaks, continueTarget: head })
+          .forEach(end => this.edge(end, head))
+        return unique([head, ...breaks])
+      }
+
+      case 'switch': {
+        const breaks: number[] = []
+        const head = this.decision('branch', statement.span, ends, nesting, 1 + nesting)
+        let fallthrough: number[] = []
+        statement.cases.forEach(flowCase => {
+          const label = this.block('case', flowCase.span, nesting + 1, 0)
+          this.edge(head, label)
+          fallthrough.forEach(end => this.edge(end, label))
+          fallthrough = this.sequence(flowCase.body, [label], nesting + 1, { ...targets, breaks })
+        })
+        const hasDefault = statement.cases.some(flowCase => /^default\b/.test(this.source.text.slice(flowCase.span.start, flowCase.span.end)))
+        return unique([...breaks, ...fallthrough, ...(hasDefault ? [] : [head])])
+      }
+
+      case 'try': {
+        const first = this.blocks.length
+        const block = this.sequence(statement.block, ends, nesting, targets)
+        let handler: number[] = []
+        if (statement.handler) {
+          const catchBlock = this.decision('catch', statement.handler.span, [], nesting, 1 + nesting)
+          // Anything in the try block may throw; one edge stands for all of them
+          const from = first < catchBlock ? first : ends[0]
+          if (from !== undefined) this.edge(from, catchBlock)
+          handler = this.sequence(statement.handler.body, [catchBlock], nesting + 1, targets)
+        }
+        const after = unique([...block, ...handler])
+        return statement.finalizer ? this.sequence(statement.finalizer, after, nesting, targets) : after
+      }
+    }
+  }
+
+  // Appends a simple statement to the open block before it, or starts a block
+  private simple(span: Span, ends: number[], nesting: number): number {
+    const previous = ends.length === 1 ? this.blocks[ends[0]] : undefined
+    if (previous && previous.kind === 'statements' && previous.successors.length === 0 && !this.sealed.has(previous.id)) {
+      previous.endLine = this.line(Math.max(span.start, span.end - 1))
+      previous.complexity += this.logicalComplexity(span)
+      return previous.id
+    }
+
+    const block = this.block('statements', span, nesting, this.logicalComplexity(span))
+    ends.forEach(end => this.edge(end, block))
+    return block
+  }
+
+  private decision(kind: ControlFlowBlockKind, span: Span, ends: number[], nesting: number, complexity: number): number {
+    const block = this.block(kind, span, nesting, complexity + this.logicalComplexity(span))
+    ends.forEach(end => this.edge(end, block))
+    return block
+  }
+
+  private block(kind: ControlFlowBlockKind, span: Span, nesting: number, complexity: number, label?: string): number {
+    const id = this.blocks.length
+    this.blocks.push({
+      id,
+      kind,
+      label: label ?? this.label(span),
+      line: this.line(span.start),
+      endLine: this.line(Math.max(span.start, span.end - 1)),
+      successors: [],
+      nesting,
+      complexity
+    })
+    return id
+  }
+
+  private edge(from: number, to: number): void {
+    const successors = this.blocks[from].successors
+    if (!successors.includes(to)) successors.push(to)
+  }
+
+  // 1 for every run of the same logical operator; conditional expressions count 1 each
+  private logicalComplexity(span: Span): number {
+    const operators = this.source.operators(span)
+    this.operatorCount += operators.length
+    return operators.filter((operator, index) => operator === '?' || operator !== operators[index - 1]).length
+  }
+
+  private label(span: Span): string {
+    const text = this.source.text.slice(span.start, span.end).split('\n')[0].replace(/\s+/g, ' ').trim()
+    return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text
+  }
+
+  private line(offset: number): number {
+    return this.lineIndex.positionAt(this.source.at(offset)).line
+  }
+}
+
+function unique(blocks: number[]): number[] {
+  return Array.from(new Set(blocks))
+}
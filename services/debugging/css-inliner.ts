@@ -0,0 +1,522 @@
+import { DebugError, EmailBuildResult, EmailSizeReport } from '../../types/debugging'
+import { HtmlElement, flattenHtmlTree, maskAMPScript, parseHtmlTree } from './parsers/html-tree'
+import { LineIndex } from './parsers/source-text'
+
+// Gmail clips messages whose HTML is larger than 102KB
+export const GMAIL_CLIP_BYTES = 102 * 1024
+
+// Elements that are not rendered, so rules are never inlined into them
+const NON_VISUAL_ELEMENTS = ['head', 'title', 'meta', 'link', 'style', 'script', 'base']
+
+// Pseudo-classes that only depend on the document and can be inlined
+const INLINABLE_PSEUDO_CLASSES = ['first-child', 'last-child', 'only-child']
+
+type Combinator = ' ' | '>' | '+' | '~'
+
+interface AttributeSelector {
+  name: string
+  operator?: string
+  value?: string
+  ignoreCase: boolean
+}
+
+interface CompoundSelector {
+  tag?: string
+  ids: string[]
+  classes: string[]
+  attributes: AttributeSelector[]
+  pseudoClasses: string[]
+}
+
+interface ComplexSelector {
+  // Compounds from left to right; each combinator joins a compound to the one before it
+  compounds: CompoundSelector[]
+  combinators: Combinator[]
+  specificity: [number, number, number]
+}
+
+interface Declaration {
+  property: string
+  value: string
+  important: boolean
+}
+
+interface StyleRule {
+  selectors: string[]
+  body: string
+  declarations: Declaration[]
+}
+
+// Rules in source order; at-rules are copied to <head> as written
+type StylesheetItem = StyleRule | string
+
+interface CascadedDeclaration extends Declaration {
+  // important, inline, ids, classes, types, source order
+  priority: number[]
+}
+
+interface TextEdit {
+  start: number
+  end: number
+  replacement: string
+}
+
+/**
+ * Moves the rules of <style> elements into the style attributes of the
+ * elements they select, resolving conflicts by importance, specificity and
+ * source order. Media queries and other at-rules, and rules whose selectors
+ * depend on interaction such as :hover, are kept in one <style> element in
+ * <head>. Only style attributes and <style> elements are edited, so AMPScript
+ * and personalization strings come out exactly as they went in.
+ *
+ * <style> elements with a data-embed attribute and those inside conditional
+ * comments are left alone.
+ */
+export function inlineCss(html: string): EmailBuildResult {
+  const roots = parseHtmlTree(html)
+  const elements = flattenHtmlTree(roots)
+  const styleElements = elements.filter(element => element.name === 'style' && !element.attributes.has('data-embed'))
+
+  const edits: TextEdit[] = []
+  const matched = new Map<HtmlElement, CascadedDeclaration[]>()
+  const headRules: string[] = []
+  let inlinedRules = 0
+  let order = 0
+
+  styleElements.forEach(styleElement => {
+    const contentEnd = closingTagIndex(html, styleElement)
+    parseStylesheet(html.slice(styleElement.end, contentEnd)).forEach(rule => {
+      if (typeof rule === 'string') {
+        headRules.push(rule)
+        return
+      }
+
+      const kept: string[] = []
+      rule.selectors.forEach(text => {
+        const selector = parseSelector(text)
+        if (!selector) {
+          kept.push(text)
+          return
+        }
+
+        inlinedRules++
+        const ruleOrder = order++
+        elements
+          .filter(element => isRendered(element) && matchesSelector(element, selector, roots))
+          .forEach(element => {
+            const declarations = matched.get(element) ?? []
+            rule.declarations.forEach(declaration => declarations.push({
+              ...declaration,
+              priority: [Number(declaration.important), 0, ...selector.specificity, ruleOrder]
+            }))
+            matched.set(element, declarations)
+          })
+      })
+      if (kept.length > 0) headRules.push(`${kept.join(', ')} {${rule.body}}`)
+    })
+
+    edits.push({ ...lineRange(html, styleElement.start, closingTagEnd(html, contentEnd)), replacement: '' })
+  })
+
+  let styledElements = 0
+  matched.forEach((declarations, element) => {
+    const inline = element.style ? parseDeclarations(html.slice(element.style.start, element.style.end)) : []
+    inline.forEach(declaration => declarations.push({
+      ...declaration,
+      priority: [Number(declaration.important), 1, 0, 0, 0, order++]
+    }))
+
+    const cascaded = cascade(declarations)
+    if (cascaded.length === 0) return
+
+    const style = serializeDeclarations(cascaded, element.style ? quoteOf(html, element) : '"')
+    styledElements++
+    edits.push(element.style
+      ? { start: element.style.start, end: element.style.end, replacement: style }
+      : { start: tagInsertPoint(html, element), end: tagInsertPoint(html, element), replacement: ` style="${style}"` })
+  })
+
+  if (headRules.length > 0) {
+    const block = `<style type="text/css">\n${headRules.map(rule => rule.trim()).join('\n')}\n</style>`
+    const headClose = maskAMPScript(html).search(/<\/head\s*>/i)
+    edits.push(headClose !== -1
+      ? { start: headClose, end: headClose, replacement: `${block}\n` }
+      : { start: styleElements[0].start, end: styleElements[0].start, replacement: block })
+  }
+
+  const output = applyEdits(html, edits)
+  const size = measureEmailSize(output, html)
+
+  return {
+    html: output,
+    inlinedRules,
+    headRules: headRules.length,
+    styledElements,
+    size,
+    issues: sizeIssues(output, size)
+  }
+}
+
+/**
+ * Size of the email HTML in UTF-8 bytes against Gmail's clipping threshold
+ */
+export function measureEmailSize(html: string, original = html): EmailSizeReport {
+  const bytes = utf8Length(html)
+  return { bytes, originalBytes: utf8Length(original), limit: GMAIL_CLIP_BYTES, clipped: bytes > GMAIL_CLIP_BYTES }
+}
+
+function sizeIssues(html: string, size: EmailSizeReport): DebugError[] {
+  if (size.bytes <= size.limit * 0.9) return []
+
+  // Point at where Gmail cuts the message off, or at the end when it is only close
+  const { line, column } = new LineIndex(html).positionAt(size.clipped ? byteOffsetToIndex(html, size.limit) : html.length)
+  return [{
+    id: `gmail_clipping_${line}_${column}`,
+    line,
+    column,
+    severity: size.clipped ? 'warning' : 'info',
+    message: size.clipped
+      ? `Gmail clips this email: it is ${formatKilobytes(size.bytes)}, over the ${formatKilobytes(size.limit)} limit`
+      : `This email is ${formatKilobytes(size.bytes)}, close to the ${formatKilobytes(size.limit)} at which Gmail clips messages`,
+    rule: 'email-gmail-clipping',
+    category: 'compatibility',
+    fixSuggestion: 'Remove unused styles and markup; content that AMPScript adds at send time counts too'
+  }]
+}
+
+function cascade(declarations: CascadedDeclaration[]): CascadedDeclaration[] {
+  const winners = new Map<string, CascadedDeclaration>()
+  declarations.forEach(declaration => {
+    // Declarations written by AMPScript have no property and are all kept
+    const key = declaration.property || `%%${declaration.value}`
+    const current = winners.get(key)
+    if (!current || comparePriority(declaration.priority, current.priority) >= 0) {
+      winners.set(key, declaration)
+    }
+  })
+  // Lowest priority first, so later shorthands and longhands still override each other correctly
+  return Array.from(winners.values()).sort((a, b) => comparePriority(a.priority, b.priority))
+}
+
+function comparePriority(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i]
+  }
+  return 0
+}
+
+function serializeDeclarations(declarations: Declaration[], quote: string): string {
+  const other = quote === '"' ? '\'' : '"'
+  return declarations
+    .map(({ property, value, important }) => property ? `${property}: ${value}${important ? ' !important' : ''}` : value)
+    .map(text => replaceOutsideAMPScript(text, quote, other))
+    .join('; ')
+}
+
+/**
+ * Parses the rules of a stylesheet. Comments are dropped; AMPScript in
+ * selectors and values is kept as written.
+ */
+function parseStylesheet(css: string): StylesheetItem[] {
+  const masked = maskCss(css)
+  const items: StylesheetItem[] = []
+  let pos = 0
+
+  while (pos < masked.length) {
+    const open = masked.indexOf('{', pos)
+    const semicolon = masked.indexOf(';', pos)
+    const prelude = masked.slice(pos, open === -1 ? masked.length : open).trim()
+
+    // Statements such as @import
+    if (semicolon !== -1 && (open === -1 || semicolon < open)) {
+      const statement = css.slice(pos, semicolon + 1).trim()
+      if (statement.startsWith('@')) items.push(statement)
+      pos = semicolon + 1
+      continue
+    }
+    if (open === -1) break
+
+    const close = matchingBrace(masked, open)
+    const start = pos + (masked.slice(pos, open).length - masked.slice(pos, open).trimStart().length)
+    if (prelude.startsWith('@')) {
+      items.push(css.slice(start, close + 1))
+    } else if (prelude) {
+      const body = css.slice(open + 1, close)
+      items.push({
+        selectors: splitTopLevel(css.slice(start, open), masked.slice(start, open), ',').map(selector => selector.trim()).filter(Boolean),
+        body,
+        declarations: parseDeclarations(body)
+      })
+    }
+    pos = close + 1
+  }
+
+  return items
+}
+
+function parseDeclarations(text: string): Declaration[] {
+  const masked = maskCss(text)
+  return splitTopLevel(text, masked, ';').flatMap(part => {
+    const trimmed = part.trim()
+    if (!trimmed) return []
+
+    const colon = maskCss(trimmed).indexOf(':')
+    // AMPScript that writes whole declarations is kept as it is
+    if (colon <= 0) return [{ property: '', value: trimmed, important: false }]
+
+    const property = trimmed.slice(0, colon).trim()
+    const value = trimmed.slice(colon + 1).trim()
+    const important = /!\s*important$/i.test(value)
+    return [{
+      property: property.startsWith('--') ? property : property.toLowerCase(),
+      value: important ? value.replace(/\s*!\s*important$/i, '') : value,
+      important
+    }]
+  })
+}
+
+function parseSelector(text: string): ComplexSelector | null {
+  const compounds: CompoundSelector[] = []
+  const combinators: Combinator[] = []
+  const specificity: [number, number, number] = [0, 0, 0]
+  let pos = 0
+
+  const ident = () => {
+    const match = /^-?(?:[_a-zA-Z\u00a0-\uffff]|\\.)(?:[\w\u00a0-\uffff-]|\\.)*/.exec(text.slice(pos))
+    if (!match) return null
+    pos += match[0].length
+    return match[0].replace(/\\(.)/g, '$1')
+  }
+
+  while (pos < text.length) {
+    const compound: CompoundSelector = { ids: [], classes: [], attributes: [], pseudoClasses: [] }
+    let empty = true
+
+    if (text[pos] === '*') {
+      pos++
+      empty = false
+    } else {
+      const tag = ident()
+      if (tag) {
+        compound.tag = tag.toLowerCase()
+        specificity[2]++
+        empty = false
+      }
+    }
+
+    for (;;) {
+      const char = text[pos]
+      if (char === '#' || char === '.') {
+        pos++
+        const name = ident()
+        if (!name) return null
+        if (char === '#') {
+          compound.ids.push(name)
+          specificity[0]++
+        } else {
+          compound.classes.push(name)
+          specificity[1]++
+        }
+      } else if (char === '[') {
+        const close = text.indexOf(']', pos)
+        const attribute = close === -1
+          ? null
+          : /^\s*([\w-]+)\s*(?:([~|^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\s\]]+))\s*(i)?)?\s*$/.exec(text.slice(pos + 1, close))
+        if (!attribute) return null
+        compound.attributes.push({
+          name: attribute[1].toLowerCase(),
+          operator: attribute[2],
+          value: attribute[3] ?? attribute[4] ?? attribute[5],
+          ignoreCase: !!attribute[6]
+        })
+        specificity[1]++
+        pos = close + 1
+      } else if (char === ':') {
+        pos++
+        const name = ident()?.toLowerCase()
+        // Pseudo-elements, interaction states and functional pseudo-classes stay in <head>
+        if (!name || !INLINABLE_PSEUDO_CLASSES.includes(name) || text[pos] === '(') return null
+        compound.pseudoClasses.push(name)
+        specificity[1]++
+      } else {
+        break
+      }
+      empty = false
+    }
+
+    if (empty) return null
+    compounds.push(compound)
+
+    const whitespace = /^\s*/.exec(text.slice(pos))![0].length
+    pos += whitespace
+    if (pos >= text.length) break
+
+    const char = text[pos]
+    if (char === '>' || char === '+' || char === '~') {
+      combinators.push(char)
+      pos++
+      pos += /^\s*/.exec(text.slice(pos))![0].length
+    } else if (whitespace > 0) {
+      combinators.push(' ')
+    } else {
+      return null
+    }
+  }
+
+  return compounds.length > 0 && compounds.length === combinators.length + 1
+    ? { compounds, combinators, specificity }
+    : null
+}
+
+function matchesSelector(element: HtmlElement, selector: ComplexSelector, roots: HtmlElement[], index = selector.compounds.length - 1): boolean {
+  if (!matchesCompound(element, selector.compounds[index], roots)) return false
+  if (index === 0) return true
+
+  const siblings = element.parent?.children ?? roots
+  const position = siblings.indexOf(element)
+  switch (selector.combinators[index - 1]) {
+    case '>':
+      return !!element.parent && matchesSelector(element.parent, selector, roots, index - 1)
+    case '+':
+      return position > 0 && matchesSelector(siblings[position - 1], selector, roots, index - 1)
+    case '~':
+      return siblings.slice(0, position).some(sibling => matchesSelector(sibling, selector, roots, index - 1))
+    default:
+      for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+        if (matchesSelector(ancestor, selector, roots, index - 1)) return true
+      }
+      return false
+  }
+}
+
+function matchesCompound(element: HtmlElement, compound: CompoundSelector, roots: HtmlElement[]): boolean {
+  if (compound.tag && compound.tag !== element.name) return false
+  if (compound.ids.some(id => element.attributes.get('id') !== id)) return false
+
+  const classes = (element.attributes.get('class') ?? '').split(/\s+/)
+  if (compound.classes.some(name => !classes.includes(name))) return false
+  if (!compound.attributes.every(attribute => matchesAttribute(element, attribute))) return false
+
+  const siblings = element.parent?.children ?? roots
+  return compound.pseudoClasses.every(pseudo =>
+    pseudo === 'first-child' ? siblings[0] === element
+      : pseudo === 'last-child' ? siblings[siblings.length - 1] === element
+        : siblings.length === 1
+  )
+}
+
+function matchesAttribute(element: HtmlElement, selector: AttributeSelector): boolean {
+  const raw = element.attributes.get(selector.name)
+  if (raw === undefined) return false
+  if (!selector.operator || selector.value === undefined) return true
+
+  const value = selector.ignoreCase ? raw.toLowerCase() : raw
+  const expected = selector.ignoreCase ? selector.value.toLowerCase() : selector.value
+  switch (selector.operator) {
+    case '=': return value === expected
+    case '~=': return value.split(/\s+/).includes(expected)
+    case '|=': return value === expected || value.startsWith(`${expected}-`)
+    case '^=': return expected !== '' && value.startsWith(expected)
+    case '$=': return expected !== '' && value.endsWith(expected)
+    default: return expected !== '' && value.includes(expected)
+  }
+}
+
+function isRendered(element: HtmlElement): boolean {
+  return !NON_VISUAL_ELEMENTS.includes(element.name) && !hasAncestor(element, 'head')
+}
+
+function hasAncestor(element: HtmlElement, name: string): boolean {
+  for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+    if (ancestor.name === name) return true
+  }
+  return false
+}
+
+function closingTagIndex(html: string, element: HtmlElement): number {
+  const index = html.toLowerCase().indexOf(`</${element.name}`, element.end)
+  return index === -1 ? html.length : index
+}
+
+function closingTagEnd(html: string, from: number): number {
+  const end = html.indexOf('>', from)
+  return end === -1 ? html.length : end + 1
+}
+
+// Widens a range to its whole line when nothing else is on it
+function lineRange(html: string, start: number, end: number): { start: number, end: number } {
+  const lineStart = html.lastIndexOf('\n', start - 1) + 1
+  const newline = html.indexOf('\n', end)
+  const lineEnd = newline === -1 ? html.length : newline
+  return html.slice(lineStart, start).trim() === '' && html.slice(end, lineEnd).trim() === ''
+    ? { start: lineStart, end: newline === -1 ? lineEnd : lineEnd + 1 }
+    : { start, end }
+}
+
+function tagInsertPoint(html: string, element: HtmlElement): number {
+  const tag = html.slice(element.start, element.end)
+  return element.start + tag.length - (tag.endsWith('/>') ? 2 : 1) - (/\s\/?>$/.test(tag) ? 1 : 0)
+}
+
+function quoteOf(html: string, element: HtmlElement): string {
+  return element.style?.quoted ? html[element.style.start - 1] : '"'
+}
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start || b.end - a.end)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.replacement + result.slice(edit.end), text)
+}
+
+// Masks comments, strings and AMPScript so their braces and separators are ignored
+function maskCss(css: string): string {
+  return maskAMPScript(css)
+    .replace(/\/\*[\s\S]*?(?:\*\/|$)/g, comment => comment.replace(/[^\n]/g, ' '))
+    .replace(/"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|\([^()]*\)/g, literal => literal.replace(/[^\n]/g, '_'))
+}
+
+function matchingBrace(masked: string, open: number): number {
+  let depth = 0
+  for (let i = open; i < masked.length; i++) {
+    if (masked[i] === '{') depth++
+    if (masked[i] === '}' && --depth === 0) return i
+  }
+  return masked.length
+}
+
+function splitTopLevel(text: string, masked: string, separator: string): string[] {
+  const parts: string[] = []
+  let start = 0
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] === separator) {
+      parts.push(text.slice(start, i))
+      start = i + 1
+    }
+  }
+  parts.push(text.slice(start))
+  return parts
+}
+
+function replaceOutsideAMPScript(text: string, from: string, to: string): string {
+  const masked = maskAMPScript(text)
+  return Array.from(text, (char, index) => (char === from && masked[index] === from ? to : char)).join('')
+}
+
+function utf8Length(text: string): number {
+  return new TextEncoder().encode(text).length
+}
+
+function byteOffsetToIndex(text: string, bytes: number): number {
+  let total = 0
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    // Each half of a surrogate pair counts for two of the four bytes
+    total += code < 0x80 ? 1 : code < 0x800 || (code >= 0xd800 && code < 0xe000) ? 2 : 3
+    if (total > bytes) return i
+  }
+  return text.length
+}
+
+function formatKilobytes(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} KB`
+}
@@ -0,0 +1,106 @@
+import { z } from 'zod'
+import { DataExtension, DataExtensionField } from '../../types/sfmc'
+
+const DataExtensionFieldSchema = z.object({
+  name: z.string().min(1, 'Field name is required'),
+  fieldType: z.enum(['Text', 'Number', 'Date', 'Boolean', 'EmailAddress', 'Phone', 'Decimal']),
+  maxLength: z.number().int().positive().optional(),
+  isPrimaryKey: z.boolean().default(false),
+  isRequired: z.boolean().default(false),
+  defaultValue: z.string().optional(),
+  description: z.string().optional()
+})
+
+const DataExtensionSchema = z.object({
+  objectID: z.string().default(''),
+  name: z.string().min(1, 'Data Extension name is required'),
+  description: z.string().optional(),
+  fields: z.array(DataExtensionFieldSchema),
+  isPrimaryKey: z.boolean().optional(),
+  isTestable: z.boolean().default(false),
+  isRetainable: z.boolean().default(false),
+  rowCount: z.number().int().nonnegative().optional(),
+  createdDate: z.coerce.date().default(() => new Date()),
+  modifiedDate: z.coerce.date().default(() => new Date())
+}).transform(dataExtension => ({
+  ...dataExtension,
+  isPrimaryKey: dataExtension.isPrimaryKey ?? dataExtension.fields.some(field => field.isPrimaryKey)
+}))
+
+// Uploaded files may hold a plain array or the DataExtensionResponse shape
+export const DataExtensionSchemaFileSchema = z.preprocess(
+  file => (file && typeof file === 'object' && 'dataExtensions' in file ? file.dataExtensions : file),
+  z.array(DataExtensionSchema)
+)
+
+// Lengths SFMC applies to field types that have no configurable maxLength
+const DEFAULT_FIELD_LENGTHS: Partial<Record<DataExtensionField['fieldType'], number>> = {
+  EmailAddress: 254,
+  Phone: 50
+}
+
+export class DataExtensionSchemaError extends Error {
+  constructor(message: string, public errors: Array<{ field: string, message: string }>) {
+    super(message)
+    this.name = 'DataExtensionSchemaError'
+  }
+}
+
+/**
+ * Validates Data Extension schemas uploaded as JSON
+ */
+export function parseDataExtensionSchemas(input: unknown): DataExtension[] {
+  let data = input
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input)
+    } catch (error) {
+      throw new DataExtensionSchemaError('Invalid JSON format', [
+        { field: '', message: error instanceof Error ? error.message : 'Unknown error' }
+      ])
+    }
+  }
+
+  const result = DataExtensionSchemaFileSchema.safeParse(data)
+  if (!result.success) {
+    throw new DataExtensionSchemaError(
+      'Data Extension schema validation failed',
+      result.error.errors.map(err => ({ field: err.path.join('.'), message: err.message }))
+    )
+  }
+
+  return result.data
+}
+
+/**
+ * Case-insensitive lookup of Data Extensions and their fields, matching how
+ * SFMC resolves names in queries
+ */
+export class DataExtensionCatalog {
+  private readonly byName = new Map<string, DataExtension>()
+
+  constructor(dataExtensions: DataExtension[] = []) {
+    dataExtensions.forEach(dataExtension => this.byName.set(dataExtension.name.toLowerCase(), dataExtension))
+  }
+
+  get size(): number {
+    return this.byName.size
+  }
+
+  find(name: string): DataExtension | undefined {
+    return this.byName.get(name.toLowerCase())
+  }
+
+  field(dataExtension: DataExtension, name: string): DataExtensionField | undefined {
+    const lower = name.toLowerCase()
+    return dataExtension.fields.find(field => field.name.toLowerCase() === lower)
+  }
+
+  primaryKey(dataExtension: DataExtension): DataExtensionField[] {
+    return dataExtension.fields.filter(field => field.isPrimaryKey)
+  }
+
+  static fieldLength(field: Pick<DataExtensionField, 'fieldType' | 'maxLength'>): number | undefined {
+    return field.maxLength ?? DEFAULT_FIELD_LENGTHS[field.fieldType]
+  }
+}
@@ -0,0 +1,605 @@
+import {
+  AnalysisLanguage,
+  DataAccessStrategy,
+  DataAccessCost,
+  DataVolumeEstimate,
+  DataVolumeRuntime,
+  DebugError,
+  PerformanceRecommendation,
+  RuleConfiguration,
+  SFMCContext
+} from '../../types/debugging'
+import { DataExtensionCatalog } from './data-extension-schema'
+import { parseAMPScript } from './parsers/ampscript-parser'
+import { AMPScriptExpression, CallExpressionNode, ForStatementNode, isLoopNode, walkAMPScript } from './parsers/ampscript-ast'
+import { extractEmbeddedSources, isDocumentLanguage } from './parsers/document-regions'
+import { LineIndex } from './parsers/source-text'
+import { parseSql } from './parsers/sql-parser'
+import { SqlExpression, SqlQuery, SqlTableSource, sqlExpressionSubqueries, sqlSelectCores, walkSqlExpression } from './parsers/sql-ast'
+import { argumentsOf, closingParen, maskSSJS, readExpression } from './parsers/ssjs-text'
+import { ruleOption } from './rule-config'
+
+// Rough costs in milliseconds. They rank reads and get the order of magnitude
+// right; they do not predict the run time of a particular account.
+const COST = {
+  // Round trip of one lookup function or Rows call
+  call: 5,
+  // Per level of the primary key index
+  indexProbe: 0.5,
+  // Reading one row while scanning a Data Extension for a lookup
+  scanRow: 0.0005,
+  // Handing one returned row to the script
+  readRow: 0.02,
+  // Reading one row in a query activity
+  queryScanRow: 0.00005,
+  // Building and probing the hash table of an equality join, per input row
+  hashJoinRow: 0.0001,
+  // Comparing one pair of rows of a join without an equality condition
+  nestedLoopPair: 0.0000001
+}
+
+// LookupRows and Rows.Lookup return at most 2000 rows, Rows.Retrieve 2500
+const LOOKUP_ROW_LIMIT = 2000
+const RETRIEVE_ROW_LIMIT = 2500
+// Iterations assumed for loops whose bound cannot be worked out
+const DEFAULT_LOOP_ITERATIONS = 10
+// Reads slower than this get a recommendation of their own
+const SLOW_READ_MS = 1000
+
+const DEFAULT_SCRIPT_TIMEOUT_SECONDS = 30
+const DEFAULT_QUERY_TIME_LIMIT_MINUTES = 30
+
+// Arguments of a lookup function: where the filter columns start, and the
+// argument holding the number of rows to return
+interface LookupSignature {
+  filterIndex: number
+  countIndex?: number
+  rowLimit: number
+}
+
+// AMPScript lookups take their filters as column, value pairs
+const AMPSCRIPT_LOOKUPS: Record<string, LookupSignature> = {
+  lookup: { filterIndex: 2, rowLimit: 1 },
+  lookuprows: { filterIndex: 1, rowLimit: LOOKUP_ROW_LIMIT },
+  lookuprowscs: { filterIndex: 1, rowLimit: LOOKUP_ROW_LIMIT },
+  lookuporderedrows: { filterIndex: 3, countIndex: 1, rowLimit: LOOKUP_ROW_LIMIT },
+  lookuporderedrowscs: { filterIndex: 3, countIndex: 1, rowLimit: LOOKUP_ROW_LIMIT }
+}
+
+// Platform.Function lookups take one argument with the filter columns, a
+// string or an array of strings
+const SSJS_LOOKUPS: Record<string, LookupSignature> = {
+  Lookup: { filterIndex: 2, rowLimit: 1 },
+  LookupRows: { filterIndex: 1, rowLimit: LOOKUP_ROW_LIMIT },
+  LookupOrderedRows: { filterIndex: 3, countIndex: 1, rowLimit: LOOKUP_ROW_LIMIT }
+}
+
+const SSJS_INIT_PATTERN = /\bDataExtension\.Init\s*\(/g
+const SSJS_CHAINED_ROWS_PATTERN = /^\s*\.\s*Rows\s*\.\s*(Retrieve|Lookup)\s*\(/
+const SSJS_ROWS_PATTERN = /\b([A-Za-z_$][\w$]*)\.Rows\.(Retrieve|Lookup)\s*\(/g
+const SSJS_PLATFORM_LOOKUP_PATTERN = /\bPlatform\.Function\.(Lookup|LookupRows|LookupOrderedRows)\s*\(/g
+const SSJS_LOOP_PATTERN = /\b(for|while)\s*\(/g
+const SSJS_ASSIGNED_PATTERN = /([A-Za-z_$][\w$]*)\s*=\s*$/
+const SSJS_STRING_PATTERN = /(["'])((?:\\.|(?!\1)[^\\\n])*)\1/g
+const SSJS_FILTER_PROPERTY_PATTERN = /(["']?)Property\1\s*:\s*(["'])([^"'\n]*)\2/g
+const SSJS_OR_FILTER_PATTERN = /(["']?)LogicalOperator\1\s*:\s*(["'])OR\2/i
+
+// A lookup function or Rows call of AMPScript or SSJS
+interface LookupRead {
+  operation: string
+  dataExtension: string
+  // Offset of the call in the analysed code
+  offset: number
+  // Columns the read filters on; undefined when it reads every row
+  filterColumns?: string[]
+  // Most rows the call returns
+  rowLimit: number
+  executions: number
+}
+
+/**
+ * Estimates what the Data Extension reads of the code cost from the row
+ * counts of the Data Extensions: AMPScript and SSJS lookups and Rows calls,
+ * multiplied by the loops around them, and the table scans and joins of
+ * SQL queries. Row counts come from context.rowCounts or from the
+ * Data Extensions of the context.
+ *
+ * Lookups count as indexed when they filter on every primary key column of
+ * the Data Extension; without a schema they count as scans. Returns
+ * undefined when no row count is known or the language does not read Data
+ * Extensions.
+ */
+export function estimateDataVolume(
+  code: string,
+  language: AnalysisLanguage,
+  context?: SFMCContext
+): DataVolumeEstimate | undefined {
+  const runtime = runtimeOf(language, context)
+  if (!context || !runtime) return undefined
+
+  const estimator = new DataVolumeEstimator(code, context)
+  if (!estimator.hasRowCounts) return undefined
+
+  if (language === 'sql') sqlReads(code, estimator)
+  if (language === 'ampscript') ampscriptReads(code, offset => offset, estimator)
+  if (language === 'ssjs') ssjsReads(code, offset => offset, estimator)
+  if (isDocumentLanguage(language)) {
+    extractEmbeddedSources(code).forEach(source => {
+      const at = (offset: number) => source.toDocumentOffset(offset)
+      if (source.language === 'ampscript') ampscriptReads(source.code, at, estimator, false)
+      if (source.language === 'ssjs') ssjsReads(source.code, at, estimator)
+    })
+  }
+
+  return estimator.estimate(runtime)
+}
+
+/**
+ * Flags CloudPage code whose reads are likely to run past the script timeout
+ * and queries likely to hit the query activity time limit. The issue is put
+ * on the most expensive read. Emails are not flagged: a slow send shows up
+ * as a slow send, not as a failure.
+ */
+export function dataVolumeIssues(estimate: DataVolumeEstimate | undefined, ruleConfig?: RuleConfiguration): DebugError[] {
+  if (!estimate || estimate.calls.length === 0) return []
+
+  const slowest = estimate.calls.reduce((current, call) => call.estimatedTimeMs > current.estimatedTimeMs ? call : current)
+  const total = formatDuration(estimate.estimatedTimeMs)
+
+  if (estimate.runtime === 'cloudpage') {
+    const rule = 'data-volume-script-timeout'
+    const timeoutSeconds = ruleOption(ruleConfig, rule, 'timeoutSeconds', DEFAULT_SCRIPT_TIMEOUT_SECONDS)
+    if (estimate.estimatedTimeMs <= timeoutSeconds * 1000) return []
+
+    return [timeoutIssue(
+      rule,
+      slowest,
+      `Data Extension reads are estimated at ${total} per page load, over the ${timeoutSeconds} second script timeout`,
+      'Filter lookups on the primary key, move lookups out of loops, or prepare the data in a query activity'
+    )]
+  }
+
+  if (estimate.runtime === 'query-activity') {
+    const rule = 'data-volume-query-timeout'
+    const timeLimitMinutes = ruleOption(ruleConfig, rule, 'timeLimitMinutes', DEFAULT_QUERY_TIME_LIMIT_MINUTES)
+    if (estimate.estimatedTimeMs <= timeLimitMinutes * 60000) return []
+
+    return [timeoutIssue(
+      rule,
+      slowest,
+      `The query is estimated to run ${total}, over the ${timeLimitMinutes} minute limit of query activities`,
+      'Join on key columns with an equality, filter the large Data Extensions first, or split the query into steps that write to intermediate Data Extensions'
+    )]
+  }
+
+  return []
+}
+
+/**
+ * Recommendations for the reads that take more than a second on their own
+ */
+export function dataVolumeRecommendations(estimate: DataVolumeEstimate): PerformanceRecommendation[] {
+  return estimate.calls
+    .filter(call => call.estimatedTimeMs > SLOW_READ_MS)
+    .map(call => ({
+      type: 'optimization' as const,
+      message: `${describeCall(call)}${STRATEGY_HINTS[call.strategy]}`,
+      impact: call.estimatedTimeMs > 10 * SLOW_READ_MS ? 'high' as const : 'medium' as const,
+      line: call.line
+    }))
+}
+
+const STRATEGY_HINTS: Record<DataAccessStrategy, string> = {
+  index: '. Cache the result instead of repeating the lookup.',
+  scan: '. Filter on the primary key so the lookup can use the index.',
+  'hash-join': '. Filter the joined Data Extensions before joining them.',
+  'nested-loop': '. Join on an equality of key columns.'
+}
+
+function timeoutIssue(rule: string, slowest: DataAccessCost, message: string, fixSuggestion: string): DebugError {
+  return {
+    id: `${rule}_${slowest.line}_${slowest.column}`,
+    line: slowest.line,
+    column: slowest.column,
+    severity: 'warning',
+    message: `${message}. Slowest: ${describeCall(slowest)}`,
+    rule,
+    category: 'performance',
+    fixSuggestion
+  }
+}
+
+function describeCall(call: DataAccessCost): string {
+  const repeated = call.executions > 1 ? ` across ${call.executions} loop iterations` : ''
+  return `${call.operation} on ${call.dataExtension} (${call.rowCount.toLocaleString('en-US')} rows) takes about ${formatDuration(call.estimatedTimeMs)}${repeated}`
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)} ms`
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`
+  if (ms < 3600000) return `${(ms / 60000).toFixed(1)} min`
+  return `${(ms / 3600000).toFixed(1)} h`
+}
+
+function runtimeOf(language: AnalysisLanguage, context?: SFMCContext): DataVolumeRuntime | undefined {
+  switch (language) {
+    case 'sql':
+      return 'query-activity'
+    case 'cloudpage':
+    case 'email':
+      return language
+    case 'ampscript':
+    case 'ssjs':
+      return context?.emailContext ? 'email' : 'cloudpage'
+    default:
+      return undefined
+  }
+}
+
+class DataVolumeEstimator {
+  private readonly calls: DataAccessCost[] = []
+  private readonly unknown = new Map<string, string>()
+  private readonly catalog: DataExtensionCatalog
+  private readonly rowCounts = new Map<string, number>()
+  private readonly lineIndex: LineIndex
+  readonly hasRowCounts: boolean
+
+  constructor(code: string, context: SFMCContext) {
+    this.catalog = new DataExtensionCatalog(context.dataExtensions)
+    Object.entries(context.rowCounts ?? {}).forEach(([name, rows]) => this.rowCounts.set(name.toLowerCase(), rows))
+    this.lineIndex = new LineIndex(code)
+    this.hasRowCounts = this.rowCounts.size > 0 ||
+      (context.dataExtensions ?? []).some(dataExtension => dataExtension.rowCount !== undefined)
+  }
+
+  // Row count of a Data Extension, without recording it as unknown
+  knownRows(name: string): number | undefined {
+    return this.rowCounts.get(name.toLowerCase()) ?? this.catalog.find(name)?.rowCount
+  }
+
+  rows(name: string): number | undefined {
+    const rows = this.knownRows(name)
+    if (rows === undefined) this.unknown.set(name.toLowerCase(), name)
+    return rows
+  }
+
+  lookup(read: LookupRead): void {
+    const rows = this.rows(read.dataExtension)
+    if (rows === undefined) return
+
+    const strategy = this.usesPrimaryKey(read.dataExtension, read.filterColumns) ? 'index' : 'scan'
+    const search = strategy === 'index' ? COST.indexProbe * Math.log2(rows + 1) : COST.scanRow * rows
+    const returned = strategy === 'index' ? 1 : Math.min(rows, read.rowLimit)
+    this.record(read.operation, read.dataExtension, read.offset, strategy, rows, read.executions, COST.call + search + COST.readRow * returned)
+  }
+
+  record(
+    operation: string,
+    dataExtension: string,
+    offset: number,
+    strategy: DataAccessStrategy,
+    rowCount: number,
+    executions: number,
+    perExecutionMs: number
+  ): void {
+    const { line, column } = this.lineIndex.positionAt(offset)
+    this.calls.push({ operation, dataExtension, line, column, strategy, rowCount, executions, estimatedTimeMs: perExecutionMs * executions })
+  }
+
+  estimate(runtime: DataVolumeRuntime): DataVolumeEstimate {
+    const calls = [...this.calls].sort((a, b) => a.line - b.line || a.column - b.column)
+    return {
+      runtime,
+      calls,
+      estimatedTimeMs: calls.reduce((total, call) => total + call.estimatedTimeMs, 0),
+      unknownDataExtensions: Array.from(this.unknown.values())
+    }
+  }
+
+  private usesPrimaryKey(name: string, columns?: string[]): boolean {
+    const dataExtension = this.catalog.find(name)
+    const primaryKey = dataExtension ? this.catalog.primaryKey(dataExtension) : []
+    if (!columns || primaryKey.length === 0) return false
+
+    const filtered = new Set(columns.map(column => column.toLowerCase()))
+    return primaryKey.every(field => filtered.has(field.name.toLowerCase()))
+  }
+}
+
+function ampscriptReads(source: string, at: (offset: number) => number, estimator: DataVolumeEstimator, bareScript?: boolean): void {
+  const { program } = parseAMPScript(source, bareScript)
+
+  // Last value set to each variable, to follow loop bounds back to a rowset
+  const values = new Map<string, AMPScriptExpression>()
+  walkAMPScript(program.body, node => {
+    if (node.type === 'Set' && node.value) values.set(node.target.name.toLowerCase(), node.value)
+  })
+
+  const numberOf = (expression: AMPScriptExpression | null | undefined, depth = 0): number | undefined => {
+    if (!expression || depth > 5) return undefined
+    if (expression.type === 'Number') return expression.value
+    if (expression.type === 'Variable') return numberOf(values.get(expression.name.toLowerCase()), depth + 1)
+    if (expression.type === 'Call' && expression.callee.toLowerCase() === 'rowcount') {
+      const rowset = expression.args[0]
+      const lookup = rowset?.type === 'Variable' ? values.get(rowset.name.toLowerCase()) : rowset
+      return lookup?.type === 'Call' ? returnedRows(lookup) : undefined
+    }
+    return undefined
+  }
+
+  const returnedRows = (call: CallExpressionNode): number | undefined => {
+    const signature = AMPSCRIPT_LOOKUPS[call.callee.toLowerCase()]
+    const name = signature && stringValue(call.args[0])
+    const rows = name ? estimator.knownRows(name) : undefined
+    return rows === undefined ? undefined : Math.min(rows, rowLimitOf(signature, numberOf(call.args[signature.countIndex ?? -1])))
+  }
+
+  const iterations = (loop: ForStatementNode): number => {
+    const start = numberOf(loop.start)
+    const end = numberOf(loop.end)
+    return start === undefined || end === undefined ? DEFAULT_LOOP_ITERATIONS : Math.abs(end - start) + 1
+  }
+
+  walkAMPScript(program.body, (node, ancestors) => {
+    if (node.type !== 'Call') return
+    const signature = AMPSCRIPT_LOOKUPS[node.callee.toLowerCase()]
+    const name = signature && stringValue(node.args[0])
+    if (!name) return
+
+    const filterColumns: string[] = []
+    for (let i = signature.filterIndex; i < node.args.length; i += 2) {
+      const column = stringValue(node.args[i])
+      if (column) filterColumns.push(column)
+    }
+
+    // The bounds of a loop are evaluated once, only its body repeats
+    const executions = ancestors
+      .filter(isLoopNode)
+      .filter(loop => !loop.end || node.range.start.offset > loop.end.range.end.offset)
+      .reduce((product, loop) => product * iterations(loop), 1)
+
+    estimator.lookup({
+      operation: node.callee,
+      dataExtension: name,
+      offset: at(node.range.start.offset),
+      filterColumns,
+      rowLimit: rowLimitOf(signature, numberOf(node.args[signature.countIndex ?? -1])),
+      executions
+    })
+  })
+}
+
+function stringValue(expression: AMPScriptExpression | undefined): string | undefined {
+  return expression?.type === 'String' ? expression.value : undefined
+}
+
+// LookupOrderedRows returns the number of rows asked for; 0 means all of them
+function rowLimitOf(signature: LookupSignature, count: number | undefined): number {
+  return count !== undefined && count > 0 ? Math.min(count, signature.rowLimit) : signature.rowLimit
+}
+
+function ssjsReads(source: string, at: (offset: number) => number, estimator: DataVolumeEstimator): void {
+  const { code, structure } = maskSSJS(source)
+  const reads: Array<LookupRead & { assignedTo?: string }> = []
+  // Variables holding the result of DataExtension.Init, by the Data Extension name
+  const handles = new Map<string, string>()
+
+  const assignedTo = (offset: number) => SSJS_ASSIGNED_PATTERN.exec(structure.slice(Math.max(0, offset - 200), offset))?.[1]
+
+  const rowsRead = (method: string, open: number, name: string, offset: number) => {
+    const args = argumentsOf(structure, open)
+    const filterColumns = method === 'Lookup'
+      ? args[0] && stringsIn(code.slice(args[0].start, args[0].end))
+      : args[0] && retrieveFilterColumns(code, structure, code.slice(args[0].start, args[0].end).trim())
+    reads.push({
+      operation: `Rows.${method}`,
+      dataExtension: name,
+      offset,
+      filterColumns,
+      rowLimit: method === 'Lookup' ? LOOKUP_ROW_LIMIT : RETRIEVE_ROW_LIMIT,
+      executions: 1,
+      assignedTo: assignedTo(offset)
+    })
+  }
+
+  for (const match of structure.matchAll(SSJS_INIT_PATTERN)) {
+    const open = match.index! + match[0].length - 1
+    const name = stringArgument(code, structure, open, 0)
+    if (!name) continue
+
+    const close = closingParen(structure, open)
+    const chained = SSJS_CHAINED_ROWS_PATTERN.exec(structure.slice(close + 1))
+    if (chained) {
+      rowsRead(chained[1], close + chained[0].length, name, match.index!)
+    } else {
+      const variable = assignedTo(match.index!)
+      if (variable) handles.set(variable, name)
+    }
+  }
+
+  for (const match of structure.matchAll(SSJS_ROWS_PATTERN)) {
+    const name = handles.get(match[1])
+    if (name) rowsRead(match[2], match.index! + match[0].length - 1, name, match.index!)
+  }
+
+  for (const match of structure.matchAll(SSJS_PLATFORM_LOOKUP_PATTERN)) {
+    const open = match.index! + match[0].length - 1
+    const name = stringArgument(code, structure, open, 0)
+    if (!name) continue
+
+    const signature = SSJS_LOOKUPS[match[1]]
+    const args = argumentsOf(structure, open)
+    const filter = args[signature.filterIndex]
+    const count = signature.countIndex === undefined ? undefined : args[signature.countIndex]
+    reads.push({
+      operation: `Platform.Function.${match[1]}`,
+      dataExtension: name,
+      offset: match.index!,
+      filterColumns: filter ? stringsIn(code.slice(filter.start, filter.end)) : [],
+      rowLimit: rowLimitOf(signature, count && Number(code.slice(count.start, count.end).trim())),
+      executions: 1,
+      assignedTo: assignedTo(match.index!)
+    })
+  }
+
+  // Rows held by the variables assigned from reads, for loops over their length
+  const rowsets = new Map<string, number | undefined>()
+  reads.forEach(read => {
+    if (!read.assignedTo) return
+    const rows = estimator.knownRows(read.dataExtension)
+    rowsets.set(read.assignedTo, rows === undefined ? undefined : Math.min(rows, read.rowLimit))
+  })
+
+  const loops = Array.from(structure.matchAll(SSJS_LOOP_PATTERN)).map(match => {
+    const open = match.index! + match[0].length - 1
+    const close = closingParen(structure, open)
+    let start = close + 1
+    while (start < structure.length && /\s/.test(structure[start])) start++
+    const end = structure[start] === '{' ? closingParen(structure, start) : readExpression(structure, start, ';\n')
+    return { start, end, iterations: ssjsLoopIterations(structure.slice(open + 1, close), rowsets) }
+  })
+
+  reads.forEach(read => estimator.lookup({
+    ...read,
+    offset: at(read.offset),
+    executions: loops
+      .filter(loop => loop.start <= read.offset && read.offset < loop.end)
+      .reduce((product, loop) => product * loop.iterations, 1)
+  }))
+}
+
+function ssjsLoopIterations(header: string, rowsets: Map<string, number | undefined>): number {
+  const length = /([A-Za-z_$][\w$]*)\.length\b/.exec(header)
+  if (length && rowsets.has(length[1])) return rowsets.get(length[1]) ?? DEFAULT_LOOP_ITERATIONS
+
+  const bound = /<(=?)\s*(\d+)\b/.exec(header)
+  if (bound) return Number(bound[2]) + (bound[1] ? 1 : 0)
+
+  return DEFAULT_LOOP_ITERATIONS
+}
+
+function stringArgument(code: string, structure: string, open: number, index: number): string | undefined {
+  const arg = argumentsOf(structure, open)[index]
+  if (!arg) return undefined
+  const literal = /^(["'])(.*)\1$/.exec(code.slice(arg.start, arg.end).trim())
+  return literal?.[2]
+}
+
+function stringsIn(text: string): string[] {
+  return Array.from(text.matchAll(SSJS_STRING_PATTERN), match => match[2])
+}
+
+// Columns compared by a Rows.Retrieve filter, written inline or assigned to
+// a variable. A filter joined with OR cannot use the primary key.
+function retrieveFilterColumns(code: string, structure: string, argument: string): string[] {
+  let filter = argument
+  if (/^[A-Za-z_$][\w$]*$/.test(argument)) {
+    const assignment = new RegExp(`\\b${argument.replace(/\$/g, '\\$')}\\s*=\\s*\\{`).exec(structure)
+    if (!assignment) return []
+    const open = assignment.index + assignment[0].length - 1
+    filter = code.slice(open, closingParen(structure, open) + 1)
+  }
+
+  if (SSJS_OR_FILTER_PATTERN.test(filter)) return []
+  return Array.from(filter.matchAll(SSJS_FILTER_PROPERTY_PATTERN), match => match[3])
+}
+
+function sqlReads(source: string, estimator: DataVolumeEstimator): void {
+  parseSql(source).script.statements.forEach(statement => {
+    if (statement.type !== 'Select') return
+
+    const ctes = new Map<string, number | undefined>()
+    statement.ctes.forEach(cte => ctes.set(cte.name.toLowerCase(), queryRows(cte.query, ctes, estimator)))
+    queryRows(statement.query, ctes, estimator)
+  })
+}
+
+// Records the scans and joins of a query and returns the rows it produces,
+// when the row counts of its sources are known
+function queryRows(query: SqlQuery, ctes: Map<string, number | undefined>, estimator: DataVolumeEstimator): number | undefined {
+  const counts = sqlSelectCores(query).map(core => {
+    const expressions = [
+      ...core.columns.map(column => column.expression),
+      ...(core.where ? [core.where] : []),
+      ...(core.having ? [core.having] : [])
+    ]
+    expressions.forEach(expression => sqlExpressionSubqueries(expression).forEach(subquery => queryRows(subquery, ctes, estimator)))
+
+    if (core.from.length === 0) return 1
+
+    // Comma-separated sources are joined by the WHERE clause, if at all
+    const joinedByWhere = core.where !== undefined && hasColumnEquality(core.where)
+    return core.from.slice(1).reduce<number | undefined>((left, source) => {
+      const right = sourceRows(source, ctes, estimator)
+      if (left === undefined || right === undefined) return undefined
+      return joinRows('JOIN', source, source.range.start.offset, left, right, joinedByWhere, !joinedByWhere, estimator)
+    }, sourceRows(core.from[0], ctes, estimator))
+  })
+
+  return counts.some(count => count === undefined)
+    ? undefined
+    : counts.reduce<number>((total, count) => total + count!, 0)
+}
+
+function sourceRows(source: SqlTableSource, ctes: Map<string, number | undefined>, estimator: DataVolumeEstimator): number | undefined {
+  switch (source.type) {
+    case 'Table': {
+      if (source.parts.length === 1 && ctes.has(source.name.toLowerCase())) return ctes.get(source.name.toLowerCase())
+      if (source.temporary) return undefined
+
+      const rows = estimator.rows(source.name)
+      if (rows !== undefined) {
+        estimator.record('Scan', source.name, source.range.start.offset, 'scan', rows, 1, rows * COST.queryScanRow)
+      }
+      return rows
+    }
+    case 'Derived':
+      return queryRows(source.query, ctes, estimator)
+    case 'Join': {
+      const left = sourceRows(source.left, ctes, estimator)
+      const right = sourceRows(source.right, ctes, estimator)
+      if (left === undefined || right === undefined) return undefined
+
+      const equality = source.on !== undefined && hasColumnEquality(source.on)
+      return joinRows(`${source.joinType} JOIN`, source.right, source.keywordRange.start.offset, left, right, equality, source.joinType === 'CROSS', estimator)
+    }
+  }
+}
+
+// Records a join and returns the rows it produces. Equality joins are hashed;
+// anything else compares every pair of rows.
+function joinRows(
+  operation: string,
+  right: SqlTableSource,
+  offset: number,
+  leftRows: number,
+  rightRows: number,
+  equality: boolean,
+  cross: boolean,
+  estimator: DataVolumeEstimator
+): number {
+  const name = sourceName(right)
+  if (equality && !cross) {
+    estimator.record(operation, name, offset, 'hash-join', rightRows, 1, (leftRows + rightRows) * COST.hashJoinRow)
+    return Math.max(leftRows, rightRows)
+  }
+
+  estimator.record(operation, name, offset, 'nested-loop', rightRows, 1, leftRows * rightRows * COST.nestedLoopPair)
+  return cross ? leftRows * rightRows : Math.max(leftRows, rightRows)
+}
+
+function sourceName(source: SqlTableSource): string {
+  if (source.type === 'Table') return source.name
+  if (source.type === 'Derived') return source.alias ?? 'derived table'
+  return sourceName(source.right)
+}
+
+function hasColumnEquality(expression: SqlExpression): boolean {
+  let found = false
+  walkSqlExpression(expression, node => {
+    if (node.type === 'Binary' && node.operator === '=' && node.left.type === 'Column' && node.right.type === 'Column') {
+      found = true
+    }
+  })
+  return found
+}
@@ -0,0 +1,33 @@
+import { AbstractBaseService } from '../base/base-service'
+import { EmailBuildResult } from '../../types/debugging'
+import { inlineCss } from './css-inliner'
+
+/**
+ * Turns validated email HTML into what gets pasted into Content Builder:
+ * CSS inlined into style attributes, with the final size checked against
+ * Gmail's clipping threshold.
+ */
+export class EmailBuildService extends AbstractBaseService {
+  constructor() {
+    super('EmailBuildService')
+  }
+
+  async initialize(): Promise<void> {
+    this.initialized = true
+  }
+
+  async buildEmail(html: string): Promise<EmailBuildResult> {
+    const startTime = Date.now()
+    const result = inlineCss(html)
+
+    this.logger.info('Built email HTML', {
+      inlinedRules: result.inlinedRules,
+      headRules: result.headRules,
+      bytes: result.size.bytes,
+      clipped: result.size.clipped,
+      processingTime: Date.now() - startTime
+    })
+
+    return result
+  }
+}
@@ -0,0 +1,401 @@
+import { z } from 'zod'
+import {
+  DebugError,
+  EmailClientFeature,
+  EmailClientSupportMatrix,
+  ErrorSeverity,
+  ValidationProfile
+} from '../../types/debugging'
+import { LineIndex } from './parsers/source-text'
+import bundledMatrix from './data/email-client-support.json'
+
+const EmailClientFeatureSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(['css-property', 'css-value', 'css-selector', 'css-at-rule', 'html-element']),
+  title: z.string().min(1),
+  name: z.string().optional(),
+  pattern: z.string().optional(),
+  support: z.record(z.enum(['none', 'partial'])),
+  notes: z.record(z.string()).optional(),
+  fixSuggestion: z.string().optional(),
+  severity: z.enum(['error', 'warning', 'info']).optional()
+}).superRefine((feature, context) => {
+  if (feature.kind === 'css-selector' ? !feature.pattern : feature.kind !== 'css-value' && !feature.name) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [feature.kind === 'css-selector' ? 'pattern' : 'name'],
+      message: `Required for ${feature.kind} features`
+    })
+  }
+  if (!feature.pattern) return
+  try {
+    new RegExp(feature.pattern, 'i')
+  } catch (error) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pattern'],
+      message: error instanceof Error ? error.message : 'Invalid regular expression'
+    })
+  }
+})
+
+export const EmailClientSupportMatrixSchema = z.object({
+  version: z.string().min(1),
+  clients: z.array(z.object({ id: z.string().min(1), name: z.string().min(1) })).min(1),
+  features: z.array(EmailClientFeatureSchema),
+  limits: z.object({
+    gmailStyleBytes: z.number().int().positive(),
+    gmailClassNamePattern: z.string()
+  })
+}).superRefine((matrix, context) => {
+  const clients = new Set(matrix.clients.map(client => client.id))
+  matrix.features.forEach((feature, index) => {
+    Object.keys(feature.support).filter(id => !clients.has(id)).forEach(id => {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['features', index, 'support', id], message: `Unknown client "${id}"` })
+    })
+  })
+})
+
+/**
+ * Validates a support matrix, e.g. a newer copy of the bundled one
+ */
+export function parseEmailSupportMatrix(data: unknown): EmailClientSupportMatrix {
+  return EmailClientSupportMatrixSchema.parse(data)
+}
+
+/**
+ * Applies an update to a support matrix. Clients and features of the update
+ * replace those with the same id; the others are added.
+ */
+export function updateEmailSupportMatrix(
+  base: EmailClientSupportMatrix,
+  update: Partial<EmailClientSupportMatrix>
+): EmailClientSupportMatrix {
+  const merge = <T extends { id: string }>(current: T[], updated: T[] = []) => [
+    ...current.map(entry => updated.find(candidate => candidate.id === entry.id) ?? entry),
+    ...updated.filter(entry => !current.some(candidate => candidate.id === entry.id))
+  ]
+
+  return parseEmailSupportMatrix({
+    version: update.version ?? base.version,
+    clients: merge(base.clients, update.clients),
+    features: merge(base.features, update.features),
+    limits: { ...base.limits, ...update.limits }
+  })
+}
+
+export const BUNDLED_EMAIL_SUPPORT_MATRIX = parseEmailSupportMatrix(bundledMatrix)
+
+// Options of the HTML and CSS validators
+export interface ValidationProfileOptions {
+  profile?: ValidationProfile
+  supportMatrix?: EmailClientSupportMatrix
+}
+
+interface StyleItem {
+  kind: 'selector' | 'declaration' | 'at-rule'
+  start: number
+  end: number
+  name: string
+  value: string
+}
+
+type BlockContext = 'rules' | 'declarations' | 'skip'
+
+const VENDOR_PREFIX = /^-(webkit|moz|ms|o)-/
+const GROUPING_AT_RULES = ['media', 'supports', 'document']
+
+/**
+ * Checks HTML and CSS against the email client support matrix. Findings
+ * are compatibility issues that name the clients which drop or only partly
+ * render a feature.
+ */
+export class EmailCompatibilityChecker {
+  private readonly patterns = new Map<EmailClientFeature, RegExp>()
+  private readonly clientNames: Map<string, string>
+  private readonly classNamePattern: RegExp
+
+  constructor(private readonly matrix: EmailClientSupportMatrix = BUNDLED_EMAIL_SUPPORT_MATRIX) {
+    matrix.features.forEach(feature => {
+      if (feature.pattern) this.patterns.set(feature, new RegExp(feature.pattern, 'i'))
+    })
+    this.clientNames = new Map(matrix.clients.map(client => [client.id, client.name]))
+    this.classNamePattern = new RegExp(matrix.limits.gmailClassNamePattern)
+  }
+
+  checkStylesheet(css: string): DebugError[] {
+    const lineIndex = new LineIndex(css)
+    return this.checkStyleItems(scanStyles(css, 'rules'), lineIndex, [])
+  }
+
+  /**
+   * Checks elements, <style> contents and style attributes. Markup inside
+   * HTML comments is skipped, which covers <!--[if mso]> blocks, and markup
+   * inside <!--[if !mso]><!--> blocks is not reported for Outlook.
+   */
+  checkHTML(html: string): DebugError[] {
+    const lineIndex = new LineIndex(html)
+    const text = maskComments(html, /<!--[\s\S]*?(?:-->|$)/g)
+    const hiddenFromOutlook = findNonMsoRanges(html)
+    const excludedAt = (offset: number) =>
+      hiddenFromOutlook.some(([start, end]) => offset >= start && offset < end) ? ['outlook-windows'] : []
+    const issues: DebugError[] = []
+
+    const tagPattern = /<([a-zA-Z][\w-]*)\b([^>]*)>/g
+    let match: RegExpExecArray | null
+    while ((match = tagPattern.exec(text))) {
+      const name = match[1].toLowerCase()
+      const excluded = excludedAt(match.index)
+
+      this.matrix.features
+        .filter(feature => feature.kind === 'html-element' && feature.name === name)
+        .forEach(feature => this.report(issues, feature, lineIndex, match!.index, match!.index + name.length + 1, excluded))
+
+      const style = /(^|\s)style\s*=\s*(["'])([\s\S]*?)\2/i.exec(match[2])
+      if (style) {
+        const start = match.index + 1 + match[1].length + style.index + style[0].length - style[3].length - 1
+        issues.push(...this.checkStyleItems(scanStyles(style[3], 'declarations', start), lineIndex, excluded))
+      }
+
+      if (name === 'style' || name === 'script') {
+        const contentStart = match.index + match[0].length
+        const close = text.toLowerCase().indexOf(`</${name}`, contentStart)
+        const contentEnd = close === -1 ? text.length : close
+        if (name === 'style') {
+          issues.push(...this.checkStyleItems(scanStyles(text.slice(contentStart, contentEnd), 'rules', contentStart), lineIndex, excluded))
+        }
+        tagPattern.lastIndex = contentEnd
+      }
+    }
+
+    return [...issues, ...this.checkStyleSizes(html)]
+  }
+
+  /**
+   * Gmail ignores <style> elements above its size limit, so none of their
+   * rules apply
+   */
+  checkStyleSizes(html: string): DebugError[] {
+    const lineIndex = new LineIndex(html)
+    const limit = this.matrix.limits.gmailStyleBytes
+    const issues: DebugError[] = []
+
+    const stylePattern = /<style\b[^>]*>([\s\S]*?)(?:<\/style\s*>|$)/gi
+    let match: RegExpExecArray | null
+    while ((match = stylePattern.exec(html))) {
+      const bytes = utf8Length(match[1])
+      if (bytes <= limit) continue
+
+      const { line, column } = lineIndex.positionAt(match.index)
+      issues.push({
+        id: `email_gmail_style_size_${line}_${column}`,
+        line,
+        column,
+        severity: 'warning',
+        message: `Gmail ignores this <style> element: its ${formatKilobytes(bytes)} exceed the ${formatKilobytes(limit)} limit`,
+        rule: 'html-email-gmail-style-size',
+        category: 'compatibility',
+        fixSuggestion: 'Inline the styles or move rules that only some clients need into a second, smaller <style> element'
+      })
+    }
+
+    return issues
+  }
+
+  private checkStyleItems(items: StyleItem[], lineIndex: LineIndex, excluded: string[]): DebugError[] {
+    const issues: DebugError[] = []
+
+    items.forEach(item => {
+      const name = item.name.replace(VENDOR_PREFIX, '')
+      this.matrix.features.filter(feature => this.matches(feature, item, name)).forEach(feature => {
+        this.report(issues, feature, lineIndex, item.start, item.end, excluded)
+      })
+
+      if (item.kind === 'selector' && !excluded.includes('gmail')) {
+        issues.push(...this.checkClassNames(item, lineIndex))
+      }
+    })
+
+    return issues
+  }
+
+  private matches(feature: EmailClientFeature, item: StyleItem, name: string): boolean {
+    const pattern = this.patterns.get(feature)
+    switch (feature.kind) {
+      case 'css-property':
+        return item.kind === 'declaration' && feature.name === name
+      case 'css-value':
+        return item.kind === 'declaration' && (!feature.name || feature.name === name) && !!pattern?.test(item.value)
+      case 'css-at-rule':
+        return item.kind === 'at-rule' && feature.name === name && (!pattern || pattern.test(item.value))
+      case 'css-selector':
+        return item.kind === 'selector' && !!pattern?.test(item.value)
+      default:
+        return false
+    }
+  }
+
+  private checkClassNames(item: StyleItem, lineIndex: LineIndex): DebugError[] {
+    const issues: DebugError[] = []
+    const classPattern = /\.((?:\\.|[\w-])+)/g
+
+    let match: RegExpExecArray | null
+    while ((match = classPattern.exec(item.value))) {
+      const className = match[1].replace(/\\(.)/g, '$1')
+      if (this.classNamePattern.test(className)) continue
+
+      const { line, column } = lineIndex.positionAt(item.start + match.index)
+      issues.push({
+        id: `email_gmail_class_name_${line}_${column}`,
+        line,
+        column,
+        endLine: line,
+        endColumn: column + match[0].length,
+        severity: 'warning',
+        message: `Gmail drops rules for the class name "${className}"; it only keeps letters, digits, "-" and "_"`,
+        rule: 'css-email-gmail-class-name',
+        category: 'compatibility',
+        fixSuggestion: 'Rename the class without escaped characters'
+      })
+    }
+
+    return issues
+  }
+
+  private report(
+    issues: DebugError[],
+    feature: EmailClientFeature,
+    lineIndex: LineIndex,
+    start: number,
+    end: number,
+    excluded: string[]
+  ): void {
+    const affected = Object.entries(feature.support).filter(([client]) => !excluded.includes(client))
+    if (affected.length === 0) return
+
+    const unsupported = affected.filter(([, support]) => support === 'none').map(([client]) => this.clientName(client))
+    const partial = affected.filter(([, support]) => support === 'partial').map(([client]) => {
+      const note = feature.notes?.[client]
+      return note ? `${this.clientName(client)} (${note})` : this.clientName(client)
+    })
+
+    const message = unsupported.length > 0
+      ? `${feature.title} is not supported in ${joinNames(unsupported)}` +
+        (partial.length > 0 ? ` and only partly in ${joinNames(partial)}` : '')
+      : `${feature.title} is only partly supported in ${joinNames(partial)}`
+
+    const startPosition = lineIndex.positionAt(start)
+    const endPosition = lineIndex.positionAt(end)
+    issues.push({
+      id: `email_${feature.id}_${startPosition.line}_${startPosition.column}`,
+      line: startPosition.line,
+      column: startPosition.column,
+      endLine: endPosition.line,
+      endColumn: endPosition.column,
+      severity: feature.severity ?? (unsupported.length > 0 ? 'warning' : 'info') as ErrorSeverity,
+      message,
+      rule: feature.kind === 'html-element' ? 'html-email-client-support' : 'css-email-client-support',
+      category: 'compatibility',
+      fixSuggestion: feature.fixSuggestion ?? `Provide a fallback for clients without ${feature.title}`
+    })
+  }
+
+  private clientName(id: string): string {
+    return this.clientNames.get(id) ?? id
+  }
+}
+
+/**
+ * Splits CSS into selectors, declarations and at-rules. Declarations of
+ * @keyframes and other blocks without rules are skipped.
+ */
+function scanStyles(css: string, context: BlockContext, base = 0): StyleItem[] {
+  const text = maskComments(css, /\/\*[\s\S]*?(?:\*\/|$)/g)
+  const items: StyleItem[] = []
+  const blocks: BlockContext[] = [context]
+  let start = 0
+
+  // The end of the text closes the last declaration, as in style attributes
+  for (let i = 0; i <= text.length; i++) {
+    const char = i === text.length ? ';' : text[i]
+    if (char === '"' || char === '\'') {
+      const close = text.indexOf(char, i + 1)
+      i = close === -1 ? text.length : close
+      continue
+    }
+    if (char !== '{' && char !== '}' && char !== ';') continue
+
+    const segment = text.slice(start, i)
+    const content = segment.trim()
+    const itemStart = base + start + (segment.length - segment.trimStart().length)
+    const itemEnd = itemStart + content.length
+    const current = blocks[blocks.length - 1] ?? 'rules'
+
+    if (char === '{') {
+      const atRule = /^@([\w-]+)\s*([\s\S]*)$/.exec(content)
+      if (current === 'skip' || current === 'declarations') {
+        blocks.push('skip')
+      } else if (atRule) {
+        const name = atRule[1].toLowerCase()
+        items.push({ kind: 'at-rule', start: itemStart, end: itemEnd, name, value: atRule[2] })
+        const unprefixed = name.replace(VENDOR_PREFIX, '')
+        blocks.push(GROUPING_AT_RULES.includes(unprefixed) ? 'rules' : unprefixed === 'keyframes' ? 'skip' : 'declarations')
+      } else {
+        items.push({ kind: 'selector', start: itemStart, end: itemEnd, name: content, value: content })
+        blocks.push('declarations')
+      }
+    } else if (content && current !== 'skip') {
+      const atRule = /^@([\w-]+)\s*([\s\S]*)$/.exec(content)
+      const colon = content.indexOf(':')
+      if (atRule) {
+        items.push({ kind: 'at-rule', start: itemStart, end: itemEnd, name: atRule[1].toLowerCase(), value: atRule[2] })
+      } else if (current === 'declarations' && colon > 0) {
+        items.push({
+          kind: 'declaration',
+          start: itemStart,
+          end: itemEnd,
+          name: content.slice(0, colon).trim().toLowerCase(),
+          value: content.slice(colon + 1).trim()
+        })
+      }
+    }
+
+    if (char === '}' && blocks.length > 1) blocks.pop()
+    start = i + 1
+  }
+
+  return items
+}
+
+// Replaces comments with spaces so offsets stay the same
+function maskComments(text: string, pattern: RegExp): string {
+  return text.replace(pattern, comment => comment.replace(/[^\n]/g, ' '))
+}
+
+// Content of <!--[if !mso]><!--> ... <!--<![endif]--> blocks, which Outlook for Windows skips
+function findNonMsoRanges(html: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = []
+  const openPattern = /<!--\[if\s+!mso[^\]]*\]><!-->/gi
+
+  let match: RegExpExecArray | null
+  while ((match = openPattern.exec(html))) {
+    const start = match.index + match[0].length
+    const close = html.slice(start).search(/<!--<!\[endif\]-->/i)
+    ranges.push([start, close === -1 ? html.length : start + close])
+  }
+
+  return ranges
+}
+
+function joinNames(names: string[]): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0]
+}
+
+function utf8Length(text: string): number {
+  return new TextEncoder().encode(text).length
+}
+
+function formatKilobytes(bytes: number): string {
+  const kilobytes = bytes / 1024
+  return `${Number.isInteger(kilobytes) ? kilobytes : kilobytes.toFixed(1)} KB`
+}
@@ -0,0 +1,171 @@
+import { DebugError, FixKind, LanguageValidator, TextEdit } from '../../types/debugging'
+import { LineIndex } from './parsers/source-text'
+
+export interface FixEngineOptions {
+  // Kinds of fix the engine applies; unsafe fixes are opt-in
+  kinds: FixKind[]
+  // Upper bound on apply-and-revalidate rounds
+  maxPasses: number
+}
+
+const DEFAULT_OPTIONS: FixEngineOptions = {
+  kinds: ['safe'],
+  maxPasses: 10
+}
+
+export interface AppliedFix {
+  errorId: string
+  rule: string
+  kind: FixKind
+  description: string
+  pass: number
+}
+
+export interface FixEngineResult {
+  code: string
+  applied: AppliedFix[]
+  passes: number
+  // False when the passes ran out, or fixes kept undoing each other, while
+  // fixable issues remained
+  stable: boolean
+}
+
+export interface FixApplication {
+  code: string
+  applied: DebugError[]
+  // Fixes left out because their edits overlap a fix applied before them
+  conflicts: DebugError[]
+}
+
+// The passes the engine re-runs after each round of edits
+export type FixValidator = Pick<LanguageValidator, 'validateSyntax' | 'validateSemantics'>
+
+interface OffsetEdit {
+  start: number
+  end: number
+  replacement: string
+}
+
+/**
+ * Applies the fixes of the given errors to code in a single pass. Fixes are
+ * taken in source order; a fix whose edits overlap one already taken is left
+ * out as a whole, since its positions would no longer point at the text it
+ * was computed for.
+ */
+export function applyFixes(code: string, errors: DebugError[]): FixApplication {
+  const lineIndex = new LineIndex(code)
+  const candidates = errors
+    .filter(error => error.fix && error.fix.edits.length > 0)
+    .map(error => ({ error, edits: toOffsetEdits(lineIndex, error.fix!.edits) }))
+    .sort((a, b) => (a.edits[0]?.start ?? 0) - (b.edits[0]?.start ?? 0))
+
+  const accepted: OffsetEdit[] = []
+  const applied: DebugError[] = []
+  const conflicts: DebugError[] = []
+
+  candidates.forEach(({ error, edits }) => {
+    if (edits.length === 0) {
+      conflicts.push(error)
+      return
+    }
+
+    // Several rules can report the same fix for one problem
+    if (edits.every(edit => accepted.some(other => sameEdit(edit, other)))) {
+      applied.push(error)
+      return
+    }
+
+    if (edits.some(edit => accepted.some(other => overlaps(edit, other)))) {
+      conflicts.push(error)
+      return
+    }
+
+    accepted.push(...edits)
+    applied.push(error)
+  })
+
+  return { code: spliceEdits(code, accepted), applied, conflicts }
+}
+
+/**
+ * Applies fixes repeatedly: after each pass the validator runs again on the
+ * new code, so fixes that conflicted, or problems that only show once
+ * another is fixed, are picked up in the next pass. Stops once no applicable
+ * fix is left.
+ */
+export class FixEngine {
+  private readonly options: FixEngineOptions
+
+  constructor(options: Partial<FixEngineOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  async fixCode(code: string, errors: DebugError[], validator: FixValidator): Promise<FixEngineResult> {
+    const applied: AppliedFix[] = []
+    const seen = new Set([code])
+    let current = code
+    let pending = this.applicable(errors)
+    let passes = 0
+
+    while (pending.length > 0 && passes < this.options.maxPasses) {
+      passes++
+      const result = applyFixes(current, pending)
+
+      // Fixes that undo each other would otherwise loop until maxPasses
+      if (result.applied.length === 0 || seen.has(result.code)) {
+        return { code: current, applied, passes, stable: false }
+      }
+
+      result.applied.forEach(error => applied.push({
+        errorId: error.id,
+        rule: error.rule,
+        kind: error.fix!.kind,
+        description: error.fix!.description,
+        pass: passes
+      }))
+
+      current = result.code
+      seen.add(current)
+      pending = this.applicable([
+        ...await validator.validateSyntax(current),
+        ...await validator.validateSemantics(current)
+      ])
+    }
+
+    return { code: current, applied, passes, stable: pending.length === 0 }
+  }
+
+  private applicable(errors: DebugError[]): DebugError[] {
+    return errors.filter(error => error.fix && this.options.kinds.includes(error.fix.kind))
+  }
+}
+
+function toOffsetEdits(lineIndex: LineIndex, edits: TextEdit[]): OffsetEdit[] {
+  const offsets = edits
+    .map(edit => ({
+      start: lineIndex.offsetAt(edit.line, edit.column),
+      end: lineIndex.offsetAt(edit.endLine, edit.endColumn),
+      replacement: edit.replacement
+    }))
+    .sort((a, b) => a.start - b.start)
+
+  // A fix must not contradict itself
+  const valid = offsets.every((edit, i) => edit.start <= edit.end && (i === 0 || !overlaps(offsets[i - 1], edit)))
+  return valid ? offsets : []
+}
+
+function overlaps(a: OffsetEdit, b: OffsetEdit): boolean {
+  // Two edits at the same position have no defined order
+  if (a.start === b.start) return true
+  return a.start < b.end && b.start < a.end
+}
+
+function sameEdit(a: OffsetEdit, b: OffsetEdit): boolean {
+  return a.start === b.start && a.end === b.end && a.replacement === b.replacement
+}
+
+function spliceEdits(code: string, edits: OffsetEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.replacement + text.slice(edit.end), code)
+}
@@ -0,0 +1,188 @@
+import { AMPScriptFormatOptions } from '../../../types/debugging'
+import { AMPScriptToken, tokenizeAMPScript } from '../parsers/ampscript-lexer'
+import { AMPScriptComment } from '../parsers/ampscript-ast'
+import { findFunctionDoc } from '../lsp/function-docs'
+import { LineBuilder, UnformattableCodeError, hasBlankLine, hasLineBreak, lastLineIndent } from './format-text'
+
+type ScriptItem = AMPScriptToken | (AMPScriptComment & { type: 'comment' })
+
+const STATEMENT_KEYWORDS = ['VAR', 'SET', 'IF', 'ELSEIF', 'ELSE', 'ENDIF', 'FOR', 'NEXT']
+// Keywords after which the statements of a branch or loop body follow
+const BODY_KEYWORDS = ['THEN', 'DO', 'ELSE']
+const DEDENT_KEYWORDS = ['ELSEIF', 'ELSE', 'ENDIF', 'NEXT']
+const VALUE_START: AMPScriptToken['type'][] = ['identifier', 'variable', 'string', 'number', 'boolean', 'attribute']
+const VALUE_END: AMPScriptToken['type'][] = ['identifier', 'variable', 'string', 'number', 'boolean', 'attribute', 'rparen']
+
+const OPEN_TYPES: AMPScriptToken['type'][] = ['blockOpen', 'inlineOpen', 'scriptOpen']
+const CLOSE_TYPES: AMPScriptToken['type'][] = ['blockClose', 'inlineClose', 'scriptClose']
+
+/**
+ * Pretty-prints the AMPScript in a template: one statement per line inside
+ * %%[ ]%% and <script language="ampscript"> blocks, with IF/ELSEIF/ELSE and
+ * FOR/NEXT bodies indented and keywords in one case. Inline expressions are
+ * compacted to %%=v(@x)=%%. Content between blocks, string literals and
+ * comments are kept as written. Input without delimiters is formatted as the
+ * body of a single block.
+ */
+export function formatAMPScript(source: string, options: AMPScriptFormatOptions): string {
+  const lexed = tokenizeAMPScript(source)
+  const problem = lexed.diagnostics.find(diagnostic => diagnostic.severity === 'error')
+  if (problem) throw new UnformattableCodeError(problem.message)
+
+  const { tokens, comments } = lexed
+  const printer = new AMPScriptPrinter(source, options)
+
+  if (!tokens.some(token => token.type === 'content' || OPEN_TYPES.includes(token.type))) {
+    return printer.statements(itemsBetween(tokens, comments, 0, source.length)).render(options.indentSize)
+  }
+
+  let output = ''
+  let i = 0
+  while (tokens[i].type !== 'eof') {
+    const token = tokens[i]
+
+    if (!OPEN_TYPES.includes(token.type)) {
+      output += source.slice(token.range.start.offset, token.range.end.offset)
+      i++
+      continue
+    }
+
+    let close = i + 1
+    while (!CLOSE_TYPES.includes(tokens[close].type)) close++
+    const closeToken = tokens[close]
+    const items = itemsBetween(tokens.slice(i + 1, close), comments, token.range.end.offset, closeToken.range.start.offset)
+    const open = source.slice(token.range.start.offset, token.range.end.offset)
+    const end = source.slice(closeToken.range.start.offset, closeToken.range.end.offset)
+
+    if (token.type === 'inlineOpen') {
+      output += `%%=${printer.inline(items)}=%%`
+    } else {
+      const lines = printer.statements(items)
+      const singleLine = !hasLineBreak(source, token.range.start.offset, closeToken.range.end.offset)
+
+      if (singleLine && lines.lines.length <= 1) {
+        const body = lines.render(0)
+        output += body ? `${open} ${body} ${end}` : `${open} ${end}`
+      } else {
+        const base = lastLineIndent(output)
+        const body = lines.render(options.indentSize, base + (options.indentBlockContent ? ' '.repeat(options.indentSize) : ''))
+        output += `${open}\n${body}${body ? '\n' : ''}${base}${end}`
+      }
+    }
+    i = close + 1
+  }
+
+  return output
+}
+
+function itemsBetween(tokens: AMPScriptToken[], comments: AMPScriptComment[], start: number, end: number): ScriptItem[] {
+  const inside = comments
+    .filter(comment => comment.range.start.offset >= start && comment.range.end.offset <= end)
+    .map(comment => ({ ...comment, type: 'comment' as const }))
+
+  return [...tokens.filter(token => token.type !== 'eof'), ...inside]
+    .sort((a, b) => a.range.start.offset - b.range.start.offset)
+}
+
+class AMPScriptPrinter {
+  constructor(private readonly source: string, private readonly options: AMPScriptFormatOptions) {}
+
+  statements(items: ScriptItem[]): LineBuilder {
+    const builder = new LineBuilder()
+    let depth = 0
+    let previous: ScriptItem | undefined
+    let previousToken: AMPScriptToken | undefined
+
+    items.forEach((item, index) => {
+      if (item.type === 'comment') {
+        this.appendComment(builder, item, previous)
+        previous = item
+        return
+      }
+
+      if (depth === 0 && this.startsStatement(item, previousToken)) {
+        if (previous && hasBlankLine(this.source, previous.range.end.offset, item.range.start.offset)) builder.blankLine()
+        builder.newLine(DEDENT_KEYWORDS.includes(this.keyword(item)) ? builder.indent - 1 : builder.indent)
+      } else if (previous?.type === 'comment' && hasLineBreak(this.source, previous.range.end.offset, item.range.start.offset)) {
+        builder.newLine()
+      }
+
+      builder.append(this.text(item, items[index + 1]), this.spaceBefore(item, previousToken))
+      if (item.type === 'lparen') depth++
+      if (item.type === 'rparen') depth = Math.max(0, depth - 1)
+
+      if (depth === 0 && BODY_KEYWORDS.includes(this.keyword(item))) {
+        builder.newLine(builder.indent + 1)
+      }
+
+      previous = item
+      previousToken = item
+    })
+
+    builder.flush()
+    return builder
+  }
+
+  inline(items: ScriptItem[]): string {
+    let text = ''
+    let previous: ScriptItem | undefined
+
+    items.forEach((item, index) => {
+      if (item.type === 'comment') {
+        text += (text ? ' ' : '') + item.text
+      } else {
+        const space = previous?.type === 'comment' || this.spaceBefore(item, previous)
+        text += (text && space ? ' ' : '') + this.text(item, items[index + 1])
+      }
+      previous = item
+    })
+
+    return text
+  }
+
+  private appendComment(builder: LineBuilder, comment: AMPScriptComment, previous: ScriptItem | undefined): void {
+    const text = comment.text
+    if (!previous || hasLineBreak(this.source, previous.range.end.offset, comment.range.start.offset)) {
+      if (previous && hasBlankLine(this.source, previous.range.end.offset, comment.range.start.offset)) builder.blankLine()
+      builder.newLine()
+      builder.append(text)
+      builder.newLine()
+    } else {
+      builder.append(text)
+    }
+  }
+
+  private startsStatement(token: AMPScriptToken, previous: AMPScriptToken | undefined): boolean {
+    if (!previous) return true
+    const keyword = this.keyword(token)
+    if (STATEMENT_KEYWORDS.includes(keyword)) return true
+    // NEXT may name its loop counter
+    if (this.keyword(previous) === 'NEXT') return token.type !== 'variable'
+    if (this.keyword(previous) === 'ENDIF') return true
+    return VALUE_START.includes(token.type) && VALUE_END.includes(previous.type)
+  }
+
+  private spaceBefore(token: AMPScriptToken, previous: AMPScriptToken | undefined): boolean {
+    if (!previous) return false
+    if (previous.type === 'lparen') return false
+    if (token.type === 'rparen' || token.type === 'comma') return false
+    if (token.type === 'lparen') return previous.type !== 'identifier'
+    return true
+  }
+
+  private keyword(item: ScriptItem): string {
+    return item.type === 'keyword' ? item.value : ''
+  }
+
+  private text(token: AMPScriptToken, next: ScriptItem | undefined): string {
+    if (token.type === 'keyword') {
+      return this.options.keywordCase === 'upper' ? token.value : token.value.toLowerCase()
+    }
+
+    const raw = this.source.slice(token.range.start.offset, token.range.end.offset)
+    if (token.type === 'identifier' && this.options.functionCase === 'canonical') {
+      if (next?.type === 'lparen') return findFunctionDoc('ampscript', raw)?.name ?? raw
+    }
+    return raw
+  }
+}
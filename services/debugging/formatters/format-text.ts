@@ -0,0 +1,88 @@
+/**
+ * Thrown when code does not tokenize cleanly. Formatting it could move text
+ * across an unterminated string or delimiter and change what it does, so the
+ * code is left alone instead.
+ */
+export class UnformattableCodeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnformattableCodeError'
+  }
+}
+
+export interface FormattedLine {
+  // Nesting level; rendered as indentSize spaces per level
+  indent: number
+  text: string
+}
+
+/**
+ * Collects the lines a formatter produces. Text is appended to the current
+ * line, with an optional separating space, until a new line is started.
+ */
+export class LineBuilder {
+  readonly lines: FormattedLine[] = []
+  // Level of the current line, and of continuation lines after a flush
+  indent = 0
+  private text = ''
+  private blankLinePending = false
+
+  get isLineEmpty(): boolean {
+    return this.text === ''
+  }
+
+  append(text: string, space = true): void {
+    if (this.blankLinePending && this.lines.length > 0) {
+      this.lines.push({ indent: 0, text: '' })
+    }
+    this.blankLinePending = false
+    this.text += this.text && space ? ` ${text}` : text
+  }
+
+  newLine(indent = this.indent): void {
+    this.flush()
+    this.indent = Math.max(0, indent)
+  }
+
+  // Separates what follows with an empty line, unless nothing follows
+  blankLine(): void {
+    this.flush()
+    this.blankLinePending = true
+  }
+
+  flush(): void {
+    if (this.text) {
+      this.lines.push({ indent: this.indent, text: this.text })
+      this.text = ''
+    }
+  }
+
+  render(indentSize: number, baseIndent = ''): string {
+    this.flush()
+    return this.lines
+      .map(line => line.text ? baseIndent + ' '.repeat(indentSize * line.indent) + line.text : '')
+      .join('\n')
+  }
+}
+
+/**
+ * Whether the source between two offsets contains a line break, i.e. the
+ * text at `end` started a line of its own in the original code
+ */
+export function hasLineBreak(source: string, start: number, end: number): boolean {
+  return source.slice(start, end).includes('\n')
+}
+
+// Whether the original code left an empty line between two offsets
+export function hasBlankLine(source: string, start: number, end: number): boolean {
+  return /\n[ \t\r]*\n/.test(source.slice(start, end))
+}
+
+export function trimLineEnds(text: string): string {
+  return text.replace(/[ \t]+(?=\n|$)/g, '')
+}
+
+// Leading whitespace of the last line of text
+export function lastLineIndent(text: string): string {
+  return /^[ \t]*/.exec(text.slice(text.lastIndexOf('\n') + 1))![0]
+}
@@ -0,0 +1,256 @@
+import { SqlFormatOptions } from '../../../types/debugging'
+import { SqlComment, SqlToken, tokenizeSql } from '../parsers/sql-lexer'
+import { LineBuilder, UnformattableCodeError, hasBlankLine, hasLineBreak } from './format-text'
+
+type SqlItem = SqlToken | (SqlComment & { type: 'comment' })
+
+// A query, or a parenthesised expression inside one
+interface SqlLevel {
+  kind: 'query' | 'group'
+  indent: number
+  clause: string
+  conditionIndent: number
+  // BETWEEN operators still waiting for their AND
+  between: number
+  multiColumnSelect: boolean
+  selectListStarted: boolean
+  afterTop: boolean
+}
+
+const CLAUSE_KEYWORDS = ['SELECT', 'FROM', 'WHERE', 'GROUP', 'HAVING', 'ORDER', 'UNION', 'INTERSECT', 'EXCEPT', 'VALUES', 'SET']
+// Only start a clause at the beginning of a statement; elsewhere they are
+// table hints (WITH (NOLOCK)) or part of another clause (DELETE FROM)
+const STATEMENT_KEYWORDS = ['WITH', 'INSERT', 'UPDATE', 'DELETE']
+const JOIN_KEYWORDS = ['INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'OUTER', 'JOIN', 'APPLY']
+const CONDITION_CLAUSES = ['WHERE', 'HAVING', 'ON']
+const SELECT_MODIFIERS = ['DISTINCT', 'ALL', 'TOP', 'PERCENT']
+// Clauses that end a select list
+const SELECT_LIST_END = ['FROM', 'WHERE', 'GROUP', 'HAVING', 'ORDER', 'UNION', 'INTERSECT', 'EXCEPT', 'INTO']
+
+/**
+ * Pretty-prints T-SQL as used by Query Activities: one clause per line,
+ * select lists with more than one column one column per line, JOINs on lines
+ * of their own with their ON condition, AND/OR conditions of WHERE, HAVING
+ * and ON indented below the clause, and subqueries indented inside their
+ * parentheses. Keywords are upper- or lower-cased; identifiers, literals and
+ * comments are kept as written.
+ */
+export function formatSql(source: string, options: SqlFormatOptions): string {
+  const lexed = tokenizeSql(source)
+  const problem = lexed.diagnostics.find(diagnostic => diagnostic.severity === 'error')
+  if (problem) throw new UnformattableCodeError(problem.message)
+
+  const items: SqlItem[] = [
+    ...lexed.tokens.filter(token => token.type !== 'eof'),
+    ...lexed.comments.map(comment => ({ ...comment, type: 'comment' as const }))
+  ].sort((a, b) => a.range.start.offset - b.range.start.offset)
+
+  return new SqlPrinter(source, items, options).print()
+}
+
+class SqlPrinter {
+  private readonly builder = new LineBuilder()
+  private readonly levels: SqlLevel[] = [this.level('query', 0)]
+  private previous?: SqlItem
+  private previousToken?: SqlToken
+  private unary = false
+
+  constructor(
+    private readonly source: string,
+    private readonly items: SqlItem[],
+    private readonly options: SqlFormatOptions
+  ) {}
+
+  print(): string {
+    this.items.forEach((item, index) => {
+      if (item.type === 'comment') {
+        this.printComment(item)
+      } else {
+        this.printToken(item, index)
+        this.previousToken = item
+      }
+      this.previous = item
+    })
+
+    return this.builder.render(this.options.indentSize)
+  }
+
+  private printComment(comment: SqlComment): void {
+    const text = comment.text
+    const previous = this.previous
+
+    if (!previous || hasLineBreak(this.source, previous.range.end.offset, comment.range.start.offset)) {
+      if (previous && hasBlankLine(this.source, previous.range.end.offset, comment.range.start.offset)) this.builder.blankLine()
+      this.builder.newLine()
+      this.builder.append(text)
+      this.builder.newLine()
+    } else {
+      this.builder.append(text)
+      if (text.startsWith('--')) this.builder.newLine()
+    }
+  }
+
+  private printToken(token: SqlToken, index: number): void {
+    const level = this.levels[this.levels.length - 1]
+    const keyword = token.type === 'keyword' ? token.value : ''
+
+    if (this.previous?.type === 'comment' && hasLineBreak(this.source, this.previous.range.end.offset, token.range.start.offset)) {
+      this.builder.newLine()
+    }
+
+    if (level.kind === 'query') {
+      this.layoutClause(token, keyword, level, index)
+    }
+    if (keyword === 'BETWEEN') level.between++
+
+    if (token.type === 'rparen' && this.levels.length > 1) {
+      const closed = this.levels.pop()!
+      if (closed.kind === 'query') this.builder.newLine(closed.indent - 1)
+      this.builder.append(')', false)
+      return
+    }
+
+    if (token.type === 'comma' && level.kind === 'query' && level.clause === 'SELECT' && level.multiColumnSelect) {
+      if (this.options.commaPosition === 'leading') {
+        this.builder.newLine(level.indent + 1)
+        this.builder.append(',')
+      } else {
+        this.builder.append(',', false)
+        this.builder.newLine(level.indent + 1)
+      }
+      return
+    }
+
+    const space = !this.unary && this.spaceBefore(token)
+    this.unary = token.type === 'operator' && (token.value === '-' || token.value === '+') && this.isOperandPosition()
+    this.builder.append(this.text(token), space)
+
+    if (token.type === 'lparen') {
+      const next = this.nextToken(index)
+      const subquery = next?.type === 'keyword' && (next.value === 'SELECT' || next.value === 'WITH')
+      this.levels.push(this.level(subquery ? 'query' : 'group', this.builder.indent + 1))
+    } else if (token.type === 'semicolon' && this.levels.length === 1) {
+      this.levels[0] = this.level('query', 0)
+      this.builder.blankLine()
+      this.builder.newLine(0)
+    }
+  }
+
+  private layoutClause(token: SqlToken, keyword: string, level: SqlLevel, index: number): void {
+    const statementStart = !this.previousToken || this.previousToken.type === 'semicolon'
+
+    if (CLAUSE_KEYWORDS.includes(keyword) || (statementStart && STATEMENT_KEYWORDS.includes(keyword))) {
+      this.builder.newLine(level.indent)
+      level.clause = keyword
+      level.conditionIndent = level.indent + 1
+      if (keyword === 'SELECT') {
+        level.multiColumnSelect = this.hasMultipleColumns(index)
+        level.selectListStarted = false
+      }
+      return
+    }
+
+    const previousKeyword = this.previousToken?.type === 'keyword' ? this.previousToken.value : ''
+    const next = this.nextToken(index)
+    const functionCall = (keyword === 'LEFT' || keyword === 'RIGHT') && next?.type === 'lparen'
+
+    if (JOIN_KEYWORDS.includes(keyword) && !JOIN_KEYWORDS.includes(previousKeyword) && !functionCall) {
+      const indent = this.options.alignJoins ? level.indent : level.indent + 1
+      this.builder.newLine(indent)
+      level.clause = 'JOIN'
+      level.conditionIndent = indent + 1
+      return
+    }
+
+    if (keyword === 'ON' && level.clause === 'JOIN') {
+      level.clause = 'ON'
+      return
+    }
+
+    if (keyword === 'AND' && level.between > 0) {
+      level.between--
+      return
+    }
+
+    if ((keyword === 'AND' || keyword === 'OR') && CONDITION_CLAUSES.includes(level.clause)) {
+      this.builder.newLine(level.conditionIndent)
+      return
+    }
+
+    if (level.clause === 'SELECT' && level.multiColumnSelect && !level.selectListStarted) {
+      if (SELECT_MODIFIERS.includes(keyword) || level.afterTop) {
+        level.afterTop = keyword === 'TOP'
+      } else {
+        this.builder.newLine(level.indent + 1)
+        level.selectListStarted = true
+      }
+    }
+  }
+
+  // Whether the select list starting after the SELECT at index has a comma
+  // outside parentheses
+  private hasMultipleColumns(index: number): boolean {
+    let depth = 0
+    for (let i = index + 1; i < this.items.length; i++) {
+      const item = this.items[i]
+      if (item.type === 'lparen') depth++
+      if (item.type === 'rparen' && --depth < 0) return false
+      if (depth > 0) continue
+      if (item.type === 'comma') return true
+      if (item.type === 'semicolon') return false
+      if (item.type === 'keyword' && SELECT_LIST_END.includes(item.value)) return false
+    }
+    return false
+  }
+
+  private spaceBefore(token: SqlToken): boolean {
+    const previous = this.previousToken
+    if (!previous || this.builder.isLineEmpty) return false
+    if (previous.type === 'lparen' || previous.type === 'dot') return false
+    if (['rparen', 'comma', 'dot', 'semicolon'].includes(token.type)) return false
+
+    if (token.type === 'lparen') {
+      // Function calls keep the spacing they were written with, so a table
+      // name followed by a column list is not mistaken for one
+      const written = /\s/.test(this.source.slice(previous.range.end.offset, token.range.start.offset))
+      if (previous.type === 'identifier') return written
+      if (previous.type === 'keyword' && (previous.value === 'LEFT' || previous.value === 'RIGHT')) return written
+    }
+    return true
+  }
+
+  private isOperandPosition(): boolean {
+    const previous = this.previousToken
+    if (!previous) return true
+    if (previous.type === 'keyword') return previous.value !== 'END' && previous.value !== 'NULL'
+    return ['operator', 'lparen', 'comma'].includes(previous.type)
+  }
+
+  private text(token: SqlToken): string {
+    if (token.type === 'keyword') {
+      return this.options.keywordCase === 'upper' ? token.value : token.value.toLowerCase()
+    }
+    return this.source.slice(token.range.start.offset, token.range.end.offset)
+  }
+
+  private nextToken(index: number): SqlToken | undefined {
+    for (let i = index + 1; i < this.items.length; i++) {
+      const item = this.items[i]
+      if (item.type !== 'comment') return item
+    }
+    return undefined
+  }
+
+  private level(kind: SqlLevel['kind'], indent: number): SqlLevel {
+    return {
+      kind,
+      indent,
+      clause: '',
+      conditionIndent: indent + 1,
+      between: 0,
+      multiColumnSelect: false,
+      selectListStarted: false,
+      afterTop: false
+    }
+  }
+}
@@ -0,0 +1,449 @@
+import { SSJSFormatOptions } from '../../../types/debugging'
+import { splitDocument } from '../parsers/document-regions'
+import { LineBuilder, UnformattableCodeError, hasBlankLine, hasLineBreak, lastLineIndent } from './format-text'
+
+type ScriptTokenType = 'word' | 'number' | 'string' | 'regex' | 'punctuator' | 'comment'
+
+interface ScriptToken {
+  type: ScriptTokenType
+  value: string
+  start: number
+  end: number
+}
+
+// An open bracket and how its contents are laid out
+interface Bracket {
+  kind: 'block' | 'object' | 'paren' | 'array'
+  // Level of the line the bracket was opened on
+  indent: number
+  multiline: boolean
+  keyword: string
+  ternaries: number
+  switchBody: boolean
+  // Statement level to return to when a block closes
+  outerStatementIndent: number
+}
+
+const PUNCTUATORS = [
+  '>>>=', '===', '!==', '>>>', '<<=', '>>=', '...', '&&', '||', '==', '!=', '<=', '>=', '++', '--',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<', '>>', '=>',
+  '{', '}', '(', ')', '[', ']', ';', ',', '.', '<', '>', '+', '-', '*', '/', '%', '&', '|', '^', '!', '~', '?', ':', '='
+]
+
+const KEYWORDS = [
+  'break', 'case', 'catch', 'continue', 'default', 'delete', 'do', 'else', 'finally', 'for', 'function',
+  'if', 'in', 'instanceof', 'new', 'return', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void',
+  'while', 'with'
+]
+
+// Words after which a slash starts a regular expression rather than a division
+const REGEX_PREFIX_WORDS = ['return', 'typeof', 'instanceof', 'in', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else']
+const BLOCK_KEYWORDS = ['else', 'try', 'finally', 'do']
+const CONTINUATION_KEYWORDS = ['else', 'catch', 'finally']
+
+/**
+ * Pretty-prints server-side JavaScript: brace-delimited blocks and switch
+ * cases indented, one statement per line, and consistent spacing around
+ * operators, commas and keywords. Line breaks between statements are kept,
+ * so code relying on automatic semicolon insertion keeps its meaning.
+ * Object and array literals stay on one line unless they were written with a
+ * line break after the opening bracket. When the code contains
+ * <script runat="server"> blocks, only their contents are formatted.
+ */
+export function formatSSJS(source: string, options: SSJSFormatOptions): string {
+  const formatted = formatServerScripts(source, options)
+  return formatted ?? formatScript(source, options).render(options.indentSize)
+}
+
+/**
+ * Formats the <script runat="server"> blocks of a CloudPage or email and
+ * keeps everything else as written. Returns undefined when there are none.
+ */
+export function formatServerScripts(source: string, options: SSJSFormatOptions): string | undefined {
+  const blocks = splitDocument(source).filter(region => region.language === 'ssjs')
+  if (blocks.length === 0) return undefined
+
+  let output = ''
+  let pos = 0
+  for (const block of blocks) {
+    // The region is the script body; the tags around it are markup
+    output += source.slice(pos, block.start)
+
+    const body = formatScript(source.slice(block.start, block.end), options)
+    const base = lastLineIndent(output)
+    const rendered = body.render(options.indentSize, base + ' '.repeat(options.indentSize))
+
+    output += rendered ? `\n${rendered}\n${base}` : ''
+    pos = block.end
+  }
+
+  return output + source.slice(pos)
+}
+
+function formatScript(code: string, options: SSJSFormatOptions): LineBuilder {
+  return new ScriptPrinter(code, tokenizeScript(code), options).print()
+}
+
+function tokenizeScript(code: string): ScriptToken[] {
+  const tokens: ScriptToken[] = []
+  let pos = 0
+  let significant: ScriptToken | undefined
+
+  const push = (type: ScriptTokenType, end: number) => {
+    const token = { type, value: code.slice(pos, end), start: pos, end }
+    tokens.push(token)
+    if (type !== 'comment') significant = token
+    pos = end
+  }
+
+  while (pos < code.length) {
+    const char = code[pos]
+    const next = code[pos + 1] || ''
+
+    if (/\s/.test(char)) {
+      pos++
+    } else if (char === '/' && next === '/') {
+      const end = code.indexOf('\n', pos)
+      push('comment', end === -1 ? code.length : end)
+    } else if (char === '/' && next === '*') {
+      const end = code.indexOf('*/', pos + 2)
+      if (end === -1) throw new UnformattableCodeError('Comment is never closed with */')
+      push('comment', end + 2)
+    } else if (char === '"' || char === '\'') {
+      push('string', scanQuoted(code, pos, char, 'String literal is never closed'))
+    } else if (char === '/' && regexAllowed(significant)) {
+      const end = scanQuoted(code, pos, '/', 'Regular expression is never closed')
+      push('regex', end + (/^[a-z]*/.exec(code.slice(end))![0].length))
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(next))) {
+      push('number', pos + /^(?:0[xX][\da-fA-F]+|\d*\.?\d+(?:[eE][+-]?\d+)?)/.exec(code.slice(pos))![0].length)
+    } else if (/[A-Za-z_$]/.test(char)) {
+      push('word', pos + /^[\w$]+/.exec(code.slice(pos))![0].length)
+    } else {
+      const punctuator = PUNCTUATORS.find(candidate => code.startsWith(candidate, pos))
+      if (!punctuator) throw new UnformattableCodeError(`Unexpected character '${char}'`)
+      push('punctuator', pos + punctuator.length)
+    }
+  }
+
+  return tokens
+}
+
+// End offset of a string or regular expression literal starting at start
+function scanQuoted(code: string, start: number, quote: string, message: string): number {
+  let inClass = false
+  for (let i = start + 1; i < code.length; i++) {
+    const char = code[i]
+    if (char === '\\') {
+      i++
+    } else if (char === '\n') {
+      break
+    } else if (quote === '/' && (char === '[' || char === ']')) {
+      inClass = char === '['
+    } else if (char === quote && !inClass) {
+      return i + 1
+    }
+  }
+  throw new UnformattableCodeError(message)
+}
+
+function regexAllowed(previous: ScriptToken | undefined): boolean {
+  if (!previous) return true
+  if (previous.type === 'word') return REGEX_PREFIX_WORDS.includes(previous.value)
+  if (previous.type === 'punctuator') return ![')', ']', '}'].includes(previous.value)
+  return false
+}
+
+class ScriptPrinter {
+  private readonly builder = new LineBuilder()
+  private readonly brackets: Bracket[] = [this.bracket('block', 0, false, '')]
+  private previous?: ScriptToken
+  private previousToken?: ScriptToken
+  // Keyword before the parentheses that were closed last, e.g. catch
+  private closedParenKeyword = ''
+  private closedBlock?: Bracket
+  private prefixOperator = false
+  private caseLabelPending = false
+  // Level of the statements in the innermost block; lines continuing a
+  // statement are indented one level further
+  private statementIndent = 0
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: ScriptToken[],
+    private readonly options: SSJSFormatOptions
+  ) {}
+
+  print(): LineBuilder {
+    for (let i = 0; i < this.tokens.length; i++) {
+      const token = this.tokens[i]
+      const next = this.tokens[i + 1]
+
+      if (token.type === 'comment') {
+        this.printComment(token)
+      } else if (this.isEmptyPair(token, next)) {
+        this.printEmptyPair(token, next)
+        this.previous = this.previousToken = next
+        i++
+        continue
+      } else {
+        this.printToken(token, next)
+        this.previousToken = token
+      }
+      this.previous = token
+    }
+
+    this.builder.flush()
+    return this.builder
+  }
+
+  private printComment(comment: ScriptToken): void {
+    const text = comment.value
+    const previous = this.previous
+
+    if (!previous || hasLineBreak(this.source, previous.end, comment.start)) {
+      if (previous && hasBlankLine(this.source, previous.end, comment.start)) this.builder.blankLine()
+      this.builder.newLine(this.lineIndent())
+      this.builder.append(text)
+      this.builder.newLine()
+    } else {
+      this.builder.append(text)
+      if (text.startsWith('//')) this.builder.newLine()
+    }
+  }
+
+  private printToken(token: ScriptToken, next: ScriptToken | undefined): void {
+    const top = this.brackets[this.brackets.length - 1]
+    const value = token.value
+
+    this.breakLine(token, top)
+
+    if (token.type === 'punctuator') {
+      switch (value) {
+        case '{': return this.openBrace(token, next, top)
+        case '}': return this.closeBracket('}')
+        case ']': return this.closeBracket(']')
+        case ')':
+          this.closeBracket(')')
+          return
+        case '(':
+        case '[':
+          this.append(value, this.spaceBeforeOpen(value))
+          this.brackets.push(this.bracket(
+            value === '(' ? 'paren' : 'array',
+            this.builder.indent,
+            value === '[' && this.startsOwnLine(token, next),
+            this.previousToken?.type === 'word' ? this.previousToken.value : ''
+          ))
+          if (value === '[' && this.brackets[this.brackets.length - 1].multiline) this.builder.newLine(this.builder.indent + 1)
+          return
+        case ';':
+          this.append(';', false)
+          if (top.kind === 'block') this.builder.newLine(this.statementIndent)
+          return
+        case ',':
+          this.append(',', false)
+          if (top.multiline && top.kind !== 'block') this.builder.newLine()
+          return
+        case '.':
+          this.append('.', false)
+          this.prefixOperator = true
+          return
+        case '?':
+          top.ternaries++
+          this.append('?')
+          return
+        case ':':
+          return this.colon(top)
+        case '++':
+        case '--':
+          if (this.isOperand(this.previousToken)) {
+            this.append(value, false)
+          } else {
+            this.append(value)
+            this.prefixOperator = true
+          }
+          return
+        case '!':
+        case '~':
+          this.append(value)
+          this.prefixOperator = true
+          return
+        case '-':
+        case '+':
+          this.append(value)
+          this.prefixOperator = !this.isOperand(this.previousToken)
+          return
+        default:
+          this.append(value)
+          return
+      }
+    }
+
+    if (token.type === 'word' && (value === 'case' || value === 'default') && top.switchBody && this.builder.isLineEmpty) {
+      this.builder.newLine(top.indent + 1)
+      this.caseLabelPending = true
+    }
+
+    this.append(token.type === 'string' ? this.quote(value) : value)
+  }
+
+  // Keeps the line breaks between statements and ends the line after a
+  // closed block, except where the next token continues the statement
+  private breakLine(token: ScriptToken, top: Bracket): void {
+    const previous = this.previousToken
+    if (!previous || this.builder.isLineEmpty) return
+
+    const value = token.type === 'punctuator' || token.type === 'word' ? token.value : ''
+    const continues = [')', ']', ',', ';', '.'].includes(value) ||
+      (previous.value === '}' && CONTINUATION_KEYWORDS.includes(value)) ||
+      (previous.value === '}' && value === 'while' && this.closedBlock?.keyword === 'do')
+
+    if (this.previous?.type === 'comment' && hasLineBreak(this.source, this.previous.end, token.start)) {
+      this.builder.newLine(this.lineIndent())
+      return
+    }
+    if (top.kind !== 'block' || continues) return
+
+    if (hasLineBreak(this.source, previous.end, token.start) && !(value === '{' && this.isBlockBrace(top))) {
+      const continuation = previous.type === 'punctuator' && ![')', ']', '}', ';', '{', '++', '--'].includes(previous.value)
+      if (hasBlankLine(this.source, previous.end, token.start)) this.builder.blankLine()
+      this.builder.newLine(continuation ? this.statementIndent + 1 : this.statementIndent)
+    } else if (previous.value === '}' && this.closedBlock?.kind === 'block' && !['(', '{'].includes(value)) {
+      this.builder.newLine(this.statementIndent)
+    }
+  }
+
+  // Level of a new line that is not a continuation
+  private lineIndent(): number {
+    const top = this.brackets[this.brackets.length - 1]
+    return top.kind === 'block' ? this.statementIndent : this.builder.indent
+  }
+
+  private openBrace(token: ScriptToken, next: ScriptToken | undefined, top: Bracket): void {
+    const block = this.isBlockBrace(top)
+    const opener = block ? this.blockKeyword() : ''
+    const bracket = this.bracket(block ? 'block' : 'object', this.builder.indent, block || this.startsOwnLine(token, next), opener)
+    bracket.switchBody = block && opener === 'switch'
+
+    this.append('{', !this.builder.isLineEmpty && !['(', '['].includes(this.previousToken?.value ?? '('))
+    this.brackets.push(bracket)
+    if (block) {
+      bracket.outerStatementIndent = this.statementIndent
+      this.statementIndent = bracket.indent + 1
+    }
+    if (bracket.multiline) this.builder.newLine(bracket.indent + 1)
+  }
+
+  private closeBracket(value: string): void {
+    const bracket = this.brackets.length > 1 ? this.brackets.pop()! : this.bracket('block', 0, false, '')
+
+    if (bracket.multiline) {
+      this.builder.newLine(bracket.indent)
+      this.builder.append(value)
+    } else {
+      this.append(value, value === '}')
+    }
+
+    if (value === ')') this.closedParenKeyword = bracket.keyword
+    if (value === '}') this.closedBlock = bracket
+    if (bracket.kind === 'block') this.statementIndent = bracket.outerStatementIndent
+  }
+
+  private colon(top: Bracket): void {
+    if (top.ternaries > 0) {
+      top.ternaries--
+      this.append(':')
+    } else if (this.caseLabelPending) {
+      this.append(':', false)
+      this.caseLabelPending = false
+      this.statementIndent = top.indent + 2
+      this.builder.newLine(this.statementIndent)
+    } else {
+      this.append(':', false)
+    }
+  }
+
+  private isEmptyPair(token: ScriptToken, next: ScriptToken | undefined): next is ScriptToken {
+    // Comments between the brackets keep them apart
+    return token.type === 'punctuator' && next?.type === 'punctuator' &&
+      ((token.value === '{' && next.value === '}') || (token.value === '[' && next.value === ']'))
+  }
+
+  private printEmptyPair(token: ScriptToken, next: ScriptToken): void {
+    const top = this.brackets[this.brackets.length - 1]
+    this.breakLine(token, top)
+
+    if (token.value === '[') {
+      this.append('[]', this.spaceBeforeOpen('['))
+      return
+    }
+    const block = this.isBlockBrace(top)
+    this.append('{}', !this.builder.isLineEmpty && !['(', '['].includes(this.previousToken?.value ?? '('))
+    this.closedBlock = this.bracket(block ? 'block' : 'object', this.builder.indent, false, block ? this.blockKeyword() : '')
+  }
+
+  private isBlockBrace(top: Bracket): boolean {
+    const previous = this.previousToken
+    if (!previous) return true
+    if (previous.value === ')' || previous.value === '=>') return true
+    if (previous.type === 'word' && BLOCK_KEYWORDS.includes(previous.value)) return true
+    if (top.kind !== 'block') return false
+    // Statement position: a nested block, or the body of a case label
+    return [';', '{', '}', ':'].includes(previous.value)
+  }
+
+  private blockKeyword(): string {
+    const previous = this.previousToken
+    if (previous?.value === ')') return this.closedParenKeyword
+    return previous?.type === 'word' ? previous.value : ''
+  }
+
+  private spaceBeforeOpen(value: string): boolean {
+    const previous = this.previousToken
+    if (!previous) return false
+    if (previous.type === 'word') return KEYWORDS.includes(previous.value) && previous.value !== 'this'
+    if (previous.type === 'string') return value === '('
+    return ![')', ']'].includes(previous.value)
+  }
+
+  private isOperand(token: ScriptToken | undefined): boolean {
+    if (!token) return false
+    if (token.type === 'word') return !KEYWORDS.includes(token.value) || token.value === 'this'
+    return token.type !== 'punctuator' || [')', ']', '}'].includes(token.value)
+  }
+
+  private append(text: string, space = true): void {
+    const previous = this.previousToken?.value
+    const afterOpen = previous === '(' || previous === '['
+    this.builder.append(text, space && !this.prefixOperator && !afterOpen)
+    this.prefixOperator = false
+  }
+
+  private startsOwnLine(token: ScriptToken, next: ScriptToken | undefined): boolean {
+    return next !== undefined && hasLineBreak(this.source, token.end, next.start)
+  }
+
+  private quote(literal: string): string {
+    const target = this.options.quotes === 'single' ? '\'' : '"'
+    const quote = literal[0]
+    if (this.options.quotes === 'preserve' || quote === target) return literal
+
+    const body = literal.slice(1, -1)
+    if (body.includes(target)) return literal
+
+    let converted = ''
+    for (let i = 0; i < body.length; i++) {
+      if (body[i] === '\\') {
+        converted += body[i + 1] === quote ? quote : body.slice(i, i + 2)
+        i++
+      } else {
+        converted += body[i]
+      }
+    }
+    return target + converted + target
+  }
+
+  private bracket(kind: Bracket['kind'], indent: number, multiline: boolean, keyword: string): Bracket {
+    return { kind, indent, multiline, keyword, ternaries: 0, switchBody: false, outerStatementIndent: 0 }
+  }
+}
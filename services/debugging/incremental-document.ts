@@ -0,0 +1,293 @@
+import {
+  AnalysisLanguage,
+  BestPracticeViolation,
+  DebugError,
+  LanguageValidator,
+  TextDelta
+} from '../../types/debugging'
+import { BestPracticesAnalyzer } from './analyzers/best-practices-analyzer'
+import { collectContentEvents, isVariableAccess } from './content-events'
+import { splitDocument } from './parsers/document-regions'
+import { applyTextDeltas } from './text-deltas'
+
+// Line range of the document that is analysed on its own
+export interface DocumentBlock {
+  // 0-based line the block starts at
+  startLine: number
+  text: string
+}
+
+export interface IncrementalRunStats {
+  blocks: number
+  reanalyzed: number
+}
+
+interface BlockResult<T> {
+  issues: T[]
+  // AMPScript variables the block SETs, and the variable declared at each
+  // "line:column" of the block
+  assigned?: Set<string>
+  declared?: Map<string, string>
+}
+
+const AMPSCRIPT_LANGUAGES: AnalysisLanguage[] = ['ampscript', 'cloudpage', 'email']
+
+// Blocks are cut where the hash of the lines around a cut hits, so an edit
+// only moves the boundaries next to it
+const MIN_BLOCK_LINES = 8
+const MAX_BLOCK_LINES = 64
+const CUT_MODULUS = 8
+
+const AMPSCRIPT_OPEN_PATTERN = /%%\[|%%=|<script\b[^>]*\blanguage\s*=\s*["']?ampscript/i
+// Strings, comments and variables are matched so keywords inside them are skipped
+const NESTING_PATTERN = /"[^"]*"|'[^']*'|\/\*[\s\S]*?\*\/|@\w+|\b(IF|FOR|ENDIF|NEXT)\b/gi
+
+const VAR_INIT_RULE = 'ampscript-var-init'
+
+/**
+ * Raised when deltas were computed against another version of the document
+ * than the one held; the client has to send the whole text again
+ */
+export class DocumentVersionError extends Error {
+  constructor(message: string, public readonly currentVersion?: number) {
+    super(message)
+    this.name = 'DocumentVersionError'
+  }
+}
+
+/**
+ * Document of a realtime session that is kept in sync through text deltas.
+ * The text is cut into blocks of lines that can be validated on their own;
+ * results are cached per block text, so after an edit only the changed
+ * blocks are analysed again. Checks that need the whole document (the
+ * structureRules of a validator, BestPracticesAnalyzer.STRUCTURE_RULES) are
+ * dropped from the block results and run once over the full text.
+ */
+export class IncrementalDocument {
+  private blocks?: DocumentBlock[]
+  private readonly syntaxResults = new Map<string, BlockResult<DebugError>>()
+  private readonly bestPracticeResults = new Map<string, BlockResult<BestPracticeViolation>>()
+  private lastRun: IncrementalRunStats = { blocks: 0, reanalyzed: 0 }
+
+  constructor(readonly language: AnalysisLanguage, private current: string, private currentVersion = 0) {}
+
+  get text(): string {
+    return this.current
+  }
+
+  get version(): number {
+    return this.currentVersion
+  }
+
+  // Blocks of the most recent validateSyntax or enforceBestPractices run
+  get stats(): IncrementalRunStats {
+    return this.lastRun
+  }
+
+  replace(text: string, version: number): void {
+    this.current = text
+    this.currentVersion = version
+    this.blocks = undefined
+  }
+
+  applyDeltas(deltas: TextDelta[], baseVersion: number, version: number): void {
+    if (baseVersion !== this.currentVersion) {
+      throw new DocumentVersionError(`Deltas are based on version ${baseVersion} but the document is at version ${this.currentVersion}`, this.currentVersion)
+    }
+    this.replace(applyTextDeltas(this.current, deltas), version)
+  }
+
+  getBlocks(): DocumentBlock[] {
+    this.blocks ??= splitAnalysisBlocks(this.current, this.language)
+    return this.blocks
+  }
+
+  async validateSyntax(validator: LanguageValidator): Promise<DebugError[]> {
+    const text = this.current
+    const structureRules = new Set(validator.structureRules ?? [])
+    const tracksVariables = AMPSCRIPT_LANGUAGES.includes(this.language)
+
+    const results = await this.analyzeBlocks(this.getBlocks(), this.syntaxResults, async code => ({
+      issues: (await validator.validateSyntax(code)).filter(issue => !structureRules.has(issue.rule)),
+      ...(tracksVariables && this.collectAssignments(code))
+    }))
+
+    const issues = results.flatMap(({ block, result }) => result.issues
+      .filter(issue => issue.rule !== VAR_INIT_RULE || !this.isAssignedElsewhere(issue, result, results.map(r => r.result)))
+      .map(issue => shiftIssue(issue, block.startLine)))
+
+    return [...issues, ...(await validator.validateStructure?.(text) ?? [])]
+  }
+
+  async enforceBestPractices(analyzer: Pick<BestPracticesAnalyzer, 'analyze' | 'analyzeStructure'>): Promise<BestPracticeViolation[]> {
+    const text = this.current
+    const structureRules = new Set(BestPracticesAnalyzer.STRUCTURE_RULES)
+
+    const results = await this.analyzeBlocks(this.getBlocks(), this.bestPracticeResults, async code => ({
+      issues: (await analyzer.analyze(code, this.language)).filter(violation => !structureRules.has(violation.rule))
+    }))
+
+    // Violation columns are relative to their line, so only lines move
+    const violations = results.flatMap(({ block, result }) => block.startLine === 0
+      ? result.issues
+      : result.issues.map(violation => ({ ...violation, id: `${violation.id}@${block.startLine + 1}`, line: violation.line + block.startLine })))
+
+    return [...violations, ...(await analyzer.analyzeStructure(text, this.language))]
+  }
+
+  private async analyzeBlocks<T>(
+    blocks: DocumentBlock[],
+    cache: Map<string, BlockResult<T>>,
+    analyze: (code: string) => Promise<BlockResult<T>>
+  ): Promise<Array<{ block: DocumentBlock, result: BlockResult<T> }>> {
+    const results: Array<{ block: DocumentBlock, result: BlockResult<T> }> = []
+    let reanalyzed = 0
+
+    for (const block of blocks) {
+      let result = cache.get(block.text)
+      if (!result) {
+        result = await analyze(block.text)
+        cache.set(block.text, result)
+        reanalyzed++
+      }
+      results.push({ block, result })
+    }
+
+    // Keep only the results of the current blocks
+    const current = new Set(blocks.map(block => block.text))
+    Array.from(cache.keys()).filter(text => !current.has(text)).forEach(text => cache.delete(text))
+
+    this.lastRun = { blocks: blocks.length, reanalyzed }
+    return results
+  }
+
+  private collectAssignments(code: string): Pick<BlockResult<DebugError>, 'assigned' | 'declared'> {
+    const accesses = collectContentEvents(code, this.language)
+      .filter(isVariableAccess)
+      .filter(access => access.language === 'ampscript')
+
+    return {
+      assigned: new Set(accesses.filter(access => access.kind === 'write').map(access => access.key)),
+      declared: new Map(accesses.filter(access => access.kind === 'declare').map(access => [`${access.line}:${access.column}`, access.key]))
+    }
+  }
+
+  /**
+   * A VAR is only reported as never initialised when no block of the
+   * document SETs the variable
+   */
+  private isAssignedElsewhere(issue: DebugError, own: BlockResult<DebugError>, results: BlockResult<DebugError>[]): boolean {
+    const key = own.declared?.get(`${issue.line}:${issue.column}`)
+    return key !== undefined && results.some(result => result !== own && result.assigned?.has(key))
+  }
+}
+
+/**
+ * Cuts a document into line-aligned blocks that validate the same on their
+ * own as within the document. SQL is parsed as one statement list and stays
+ * one block. AMPScript, CloudPages and emails are only cut outside embedded
+ * scripts and styles and outside AMPScript IF and FOR statements; every
+ * AMPScript block keeps at least one AMPScript delimiter so plain content
+ * is not read as a bare script.
+ */
+export function splitAnalysisBlocks(text: string, language: AnalysisLanguage): DocumentBlock[] {
+  const lines = text.split('\n')
+  const cuttable = cuttableLines(text, lines, language)
+  const ranges: Array<[number, number]> = []
+
+  let start = 0
+  for (let i = 1; i < lines.length; i++) {
+    const size = i - start
+    if (cuttable[i] && (size >= MAX_BLOCK_LINES || (size >= MIN_BLOCK_LINES && hashLines(lines[i - 1], lines[i]) % CUT_MODULUS === 0))) {
+      ranges.push([start, i])
+      start = i
+    }
+  }
+  ranges.push([start, lines.length])
+
+  const blocks: DocumentBlock[] = []
+  ranges.forEach(([from, to]) => {
+    const text = lines.slice(from, to).join('\n')
+    const previous = blocks[blocks.length - 1]
+    if (previous && AMPSCRIPT_LANGUAGES.includes(language) && (needsDelimiter(previous.text, language) || needsDelimiter(text, language))) {
+      previous.text += '\n' + text
+      return
+    }
+    blocks.push({ startLine: from, text })
+  })
+  return blocks
+}
+
+// Whether each line may start a block
+function cuttableLines(text: string, lines: string[], language: AnalysisLanguage): boolean[] {
+  if (language === 'sql') return lines.map(() => false)
+  if (!AMPSCRIPT_LANGUAGES.includes(language)) return lines.map(() => true)
+
+  const regions = splitDocument(text).filter(region => region.language !== 'html')
+  const nesting = regions
+    .filter(region => region.language === 'ampscript')
+    .flatMap(region => nestingChanges(text.slice(region.start, region.end), region.start))
+
+  const cuttable: boolean[] = []
+  let regionIndex = 0
+  let nestingIndex = 0
+  let depth = 0
+  let offset = 0
+
+  lines.forEach(line => {
+    while (nestingIndex < nesting.length && nesting[nestingIndex].offset < offset) {
+      // A stray ENDIF or NEXT does not open anything
+      depth = Math.max(0, depth + nesting[nestingIndex++].change)
+    }
+    while (regionIndex < regions.length && regions[regionIndex].end < offset) regionIndex++
+
+    // Embedded sources are cut out of the HTML without their line breaks, so
+    // the line break before a block has to be HTML for the lines to stay the same
+    const region = regions[regionIndex]
+    cuttable.push(depth === 0 && !(region && region.start < offset))
+    offset += line.length + 1
+  })
+  return cuttable
+}
+
+function nestingChanges(code: string, offset: number): Array<{ offset: number, change: number }> {
+  return Array.from(code.matchAll(NESTING_PATTERN))
+    .filter(match => match[1])
+    .map(match => {
+      const keyword = match[1].toUpperCase()
+      return { offset: offset + match.index!, change: keyword === 'IF' || keyword === 'FOR' ? 1 : -1 }
+    })
+}
+
+// AMPScript files without delimiters are a bare script, and a stray ]%% is
+// only reported next to real AMPScript, as in the whole document
+function needsDelimiter(text: string, language: AnalysisLanguage): boolean {
+  if (AMPSCRIPT_OPEN_PATTERN.test(text)) return false
+  return language === 'ampscript' || text.includes(']%%')
+}
+
+function shiftIssue(issue: DebugError, lines: number): DebugError {
+  if (lines === 0) return issue
+
+  return {
+    ...issue,
+    // Issue ids are only unique within the block they were found in
+    id: `${issue.id}@${lines + 1}`,
+    line: issue.line + lines,
+    ...(issue.endLine !== undefined && { endLine: issue.endLine + lines }),
+    ...(issue.fix && {
+      fix: { ...issue.fix, edits: issue.fix.edits.map(edit => ({ ...edit, line: edit.line + lines, endLine: edit.endLine + lines })) }
+    })
+  }
+}
+
+// FNV-1a
+function hashLines(...lines: string[]): number {
+  const text = lines.join('\n')
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
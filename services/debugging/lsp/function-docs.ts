@@ -0,0 +1,143 @@
+export interface FunctionDoc {
+  name: string
+  signature: string
+  description: string
+}
+
+const AMPSCRIPT_FUNCTION_DOCS: FunctionDoc[] = [
+  // Output and content
+  { name: 'v', signature: 'v(value)', description: 'Outputs the value of a variable or expression, usually inside an inline %%= =%% block.' },
+  { name: 'Output', signature: 'Output(value)', description: 'Writes the result of an expression to the rendered content from within a code block.' },
+  { name: 'OutputLine', signature: 'OutputLine(value)', description: 'Writes the result of an expression followed by a line break.' },
+  { name: 'AttributeValue', signature: 'AttributeValue(attributeName)', description: 'Returns the value of a subscriber attribute or sendable Data Extension field, or an empty string when it does not exist.' },
+  { name: 'TreatAsContent', signature: 'TreatAsContent(content)', description: 'Renders a string as content, evaluating any AMPScript it contains.' },
+  { name: 'TreatAsContentArea', signature: 'TreatAsContentArea(key, content [, impressionRegion])', description: 'Renders a string as content and caches it under the given key for the send.' },
+  { name: 'ContentBlockByKey', signature: 'ContentBlockByKey(customerKey [, regionName, throwOnError, defaultContent, statusVariable])', description: 'Renders the Content Builder block with the given customer key.' },
+  { name: 'ContentBlockById', signature: 'ContentBlockById(id [, regionName, throwOnError, defaultContent, statusVariable])', description: 'Renders the Content Builder block with the given asset id.' },
+  { name: 'ContentBlockByName', signature: 'ContentBlockByName(path [, regionName, throwOnError, defaultContent, statusVariable])', description: 'Renders the Content Builder block at the given folder path, for example "Content Builder\\Shared\\Header".' },
+
+  // Strings
+  { name: 'Concat', signature: 'Concat(value1, value2 [, ...])', description: 'Joins the string values of its arguments.' },
+  { name: 'Length', signature: 'Length(value)', description: 'Returns the number of characters in a string.' },
+  { name: 'Substring', signature: 'Substring(value, start [, length])', description: 'Returns part of a string. The start position is 1-based.' },
+  { name: 'Replace', signature: 'Replace(value, search, replacement)', description: 'Replaces every occurrence of a substring.' },
+  { name: 'Uppercase', signature: 'Uppercase(value)', description: 'Converts a string to upper case.' },
+  { name: 'Lowercase', signature: 'Lowercase(value)', description: 'Converts a string to lower case.' },
+  { name: 'ProperCase', signature: 'ProperCase(value)', description: 'Capitalises the first letter of every word.' },
+  { name: 'Trim', signature: 'Trim(value)', description: 'Removes leading and trailing whitespace.' },
+  { name: 'IndexOf', signature: 'IndexOf(value, search)', description: 'Returns the 1-based position of a substring, or 0 when it is not found.' },
+  { name: 'Char', signature: 'Char(asciiCode [, repeat])', description: 'Returns the character for an ASCII code, optionally repeated.' },
+  { name: 'RegExMatch', signature: 'RegExMatch(value, pattern, groupOrName [, options...])', description: 'Returns the given group of the first match of a regular expression, or an empty string.' },
+  { name: 'BuildRowsetFromString', signature: 'BuildRowsetFromString(value, delimiter)', description: 'Splits a string into a rowset with one field per row.' },
+  { name: 'URLEncode', signature: 'URLEncode(url [, spacesOnly, encodeUnicode])', description: 'URL-encodes a string.' },
+  { name: 'HTMLEncode', signature: 'HTMLEncode(value [, convertLineBreaks, replaceWhitespace, encodeUnicode])', description: 'Encodes characters that have a meaning in HTML.' },
+  { name: 'Base64Encode', signature: 'Base64Encode(value [, charset])', description: 'Encodes a string as Base64.' },
+  { name: 'Base64Decode', signature: 'Base64Decode(value [, charset, throwOnError])', description: 'Decodes a Base64 string.' },
+  { name: 'MD5', signature: 'MD5(value [, charset])', description: 'Returns the MD5 hash of a string as hex.' },
+  { name: 'SHA1', signature: 'SHA1(value [, charset])', description: 'Returns the SHA-1 hash of a string as hex.' },
+  { name: 'SHA256', signature: 'SHA256(value [, charset])', description: 'Returns the SHA-256 hash of a string as hex.' },
+  { name: 'GUID', signature: 'GUID()', description: 'Returns a new globally unique identifier.' },
+
+  // Numbers and logic
+  { name: 'Add', signature: 'Add(number1, number2)', description: 'Returns the sum of two numbers.' },
+  { name: 'Subtract', signature: 'Subtract(number1, number2)', description: 'Returns the difference of two numbers.' },
+  { name: 'Multiply', signature: 'Multiply(number1, number2)', description: 'Returns the product of two numbers.' },
+  { name: 'Divide', signature: 'Divide(number1, number2)', description: 'Returns the quotient of two numbers.' },
+  { name: 'Mod', signature: 'Mod(number1, number2)', description: 'Returns the remainder of a division.' },
+  { name: 'Random', signature: 'Random(lowerBound, upperBound)', description: 'Returns a random integer between the bounds, inclusive.' },
+  { name: 'FormatNumber', signature: 'FormatNumber(number, format [, culture])', description: 'Formats a number with a .NET format string such as "N2".' },
+  { name: 'FormatCurrency', signature: 'FormatCurrency(number, culture [, decimals, symbol])', description: 'Formats a number as currency for a culture code.' },
+  { name: 'IIF', signature: 'IIF(condition, valueIfTrue, valueIfFalse)', description: 'Returns one of two values depending on a condition. Both values are evaluated.' },
+  { name: 'Empty', signature: 'Empty(value)', description: 'Returns true when the value is null or an empty string.' },
+  { name: 'IsNull', signature: 'IsNull(value)', description: 'Returns true when the value is null.' },
+  { name: 'RaiseError', signature: 'RaiseError(message [, skipSend, errorCode, errorNumber, continueSend])', description: 'Stops rendering with an error; in emails it can skip the send for the current subscriber.' },
+
+  // Dates
+  { name: 'Now', signature: 'Now([useSendTime])', description: 'Returns the current system date and time (Central Standard Time, no daylight saving).' },
+  { name: 'DateAdd', signature: 'DateAdd(date, number, datePart)', description: 'Adds an interval to a date. datePart is Y, M, D, H or MI.' },
+  { name: 'DateDiff', signature: 'DateDiff(date1, date2, datePart)', description: 'Returns the number of datePart boundaries between two dates.' },
+  { name: 'DatePart', signature: 'DatePart(date, datePart)', description: 'Returns a part of a date such as the year or month.' },
+  { name: 'FormatDate', signature: 'FormatDate(date, dateFormat [, timeFormat, culture])', description: 'Formats a date with a .NET format string or a format name.' },
+  { name: 'Format', signature: 'Format(value, format [, dataType, culture])', description: 'Formats a value with a .NET format string.' },
+  { name: 'StringToDate', signature: 'StringToDate(value [, culture])', description: 'Parses a string into a date.' },
+  { name: 'SystemDateToLocalDate', signature: 'SystemDateToLocalDate(date)', description: 'Converts a system date to the time zone of the account user.' },
+
+  // Data Extensions
+  { name: 'Lookup', signature: 'Lookup(dataExtension, returnField, field1, value1 [, ...])', description: 'Returns a single field of the first row that matches all field/value pairs. Each call queries the Data Extension.' },
+  { name: 'LookupRows', signature: 'LookupRows(dataExtension, field1, value1 [, ...])', description: 'Returns a rowset of up to 2,000 matching rows.' },
+  { name: 'LookupOrderedRows', signature: 'LookupOrderedRows(dataExtension, count, orderBy, field1, value1 [, ...])', description: 'Returns up to count matching rows sorted by orderBy, for example "Date DESC".' },
+  { name: 'RowCount', signature: 'RowCount(rowset)', description: 'Returns the number of rows in a rowset.' },
+  { name: 'Row', signature: 'Row(rowset, index)', description: 'Returns a row of a rowset. The index is 1-based.' },
+  { name: 'Field', signature: 'Field(row, fieldName [, throwOnMissing])', description: 'Returns the value of a field in a row.' },
+  { name: 'InsertData', signature: 'InsertData(dataExtension, field1, value1 [, ...])', description: 'Inserts a row into a Data Extension on landing pages and CloudPages. Use InsertDE in emails.' },
+  { name: 'UpdateData', signature: 'UpdateData(dataExtension, keyCount, keyField1, keyValue1 [, ...], field1, value1 [, ...])', description: 'Updates the rows matching the key fields and returns the number of rows updated.' },
+  { name: 'UpsertData', signature: 'UpsertData(dataExtension, keyCount, keyField1, keyValue1 [, ...], field1, value1 [, ...])', description: 'Updates the matching rows or inserts a row when none match.' },
+  { name: 'DeleteData', signature: 'DeleteData(dataExtension, field1, value1 [, ...])', description: 'Deletes the rows matching all field/value pairs and returns the number of rows deleted.' },
+  { name: 'ClaimRow', signature: 'ClaimRow(dataExtension, isClaimedField, field1, value1 [, ...])', description: 'Claims an unclaimed row, for example a coupon code, and returns it.' },
+
+  // HTTP and Salesforce
+  { name: 'HTTPGet', signature: 'HTTPGet(url [, continueOnError, emptyContentHandling, statusVariable])', description: 'Returns the content of a GET request. Responses are cached per send.' },
+  { name: 'HTTPPost', signature: 'HTTPPost(url, contentType, content, responseVariable [, headerName, headerValue ...])', description: 'Posts content to a URL and writes the response to a variable; returns the status code.' },
+  { name: 'RetrieveSalesforceObjects', signature: 'RetrieveSalesforceObjects(objectType, fields, field1, operator1, value1 [, ...])', description: 'Returns a rowset of Salesforce records matching the criteria.' },
+  { name: 'CreateSalesforceObject', signature: 'CreateSalesforceObject(objectType, fieldCount, field1, value1 [, ...])', description: 'Creates a Salesforce record and returns its id.' },
+  { name: 'UpdateSingleSalesforceObject', signature: 'UpdateSingleSalesforceObject(objectType, id, field1, value1 [, ...])', description: 'Updates a Salesforce record; returns 1 on success.' },
+
+  // Requests and pages
+  { name: 'RequestParameter', signature: 'RequestParameter(name)', description: 'Returns a query string or form parameter of the current page request.' },
+  { name: 'QueryParameter', signature: 'QueryParameter(name)', description: 'Returns a query string parameter of the current page request.' },
+  { name: 'CloudPagesURL', signature: 'CloudPagesURL(pageId [, name1, value1 ...])', description: 'Returns the URL of a CloudPage with its parameters encrypted in the qs parameter.' },
+  { name: 'Redirect', signature: 'Redirect(url [, permanent])', description: 'Redirects a landing page or CloudPage request.' },
+  { name: 'RedirectTo', signature: 'RedirectTo(url)', description: 'Tracks a link whose URL comes from a variable or field in emails.' },
+
+  // SOAP objects
+  { name: 'CreateObject', signature: 'CreateObject(objectType)', description: 'Creates an API object for the Invoke functions.' },
+  { name: 'SetObjectProperty', signature: 'SetObjectProperty(object, property, value)', description: 'Sets a property of an API object.' },
+  { name: 'InvokeCreate', signature: 'InvokeCreate(object, statusMessage, errorCode [, options])', description: 'Creates the API object; returns the status code.' },
+  { name: 'InvokeRetrieve', signature: 'InvokeRetrieve(retrieveRequest, status [, requestId])', description: 'Runs a RetrieveRequest object and returns a rowset of results.' }
+]
+
+const SSJS_FUNCTION_DOCS: FunctionDoc[] = [
+  { name: 'Platform.Load', signature: 'Platform.Load("core", "1.1.5")', description: 'Loads the Core library. Required before using DataExtension, Subscriber and other Core objects.' },
+  { name: 'Platform.Response.Write', signature: 'Platform.Response.Write(value)', description: 'Writes a string to the rendered content.' },
+  { name: 'Platform.Response.Redirect', signature: 'Platform.Response.Redirect(url [, permanent])', description: 'Redirects the current page request.' },
+  { name: 'Platform.Request.GetQueryStringParameter', signature: 'Platform.Request.GetQueryStringParameter(name)', description: 'Returns a query string parameter of the current page request.' },
+  { name: 'Platform.Request.GetFormField', signature: 'Platform.Request.GetFormField(name)', description: 'Returns a posted form field of the current page request.' },
+  { name: 'Variable.GetValue', signature: 'Variable.GetValue("@name")', description: 'Returns the value of an AMPScript variable. The name includes the @ prefix.' },
+  { name: 'Variable.SetValue', signature: 'Variable.SetValue("@name", value)', description: 'Sets an AMPScript variable so later AMPScript can read it. The name includes the @ prefix.' },
+  { name: 'Write', signature: 'Write(value)', description: 'Writes a string to the rendered content. Shorthand for Platform.Response.Write.' },
+  { name: 'Stringify', signature: 'Stringify(value)', description: 'Serialises a value as JSON.' },
+  { name: 'DataExtension.Init', signature: 'DataExtension.Init(customerKey)', description: 'Returns a Core Data Extension object for the given external key. Requires Platform.Load("core").' },
+  { name: 'Rows.Retrieve', signature: 'de.Rows.Retrieve([filter])', description: 'Returns up to 2,500 rows of a Data Extension, optionally filtered.' },
+  { name: 'Rows.Lookup', signature: 'de.Rows.Lookup(fields, values [, count, orderBy])', description: 'Returns the rows matching the field values.' },
+  { name: 'Rows.Add', signature: 'de.Rows.Add(rows)', description: 'Adds one or more rows to a Data Extension.' },
+  { name: 'Rows.Update', signature: 'de.Rows.Update(values, keyFields, keyValues)', description: 'Updates the rows matching the key fields.' },
+  { name: 'Rows.Remove', signature: 'de.Rows.Remove(fields, values)', description: 'Removes the rows matching the field values.' },
+  { name: 'WSProxy', signature: 'new Script.Util.WSProxy()', description: 'SOAP API client with retrieve, create, update, delete, perform and describe methods.' },
+  { name: 'Script.Util.WSProxy', signature: 'new Script.Util.WSProxy()', description: 'SOAP API client with retrieve, create, update, delete, perform and describe methods.' },
+  { name: 'Script.Util.HttpRequest', signature: 'new Script.Util.HttpRequest(url)', description: 'HTTP client supporting any method, headers and a body; call send() to run the request.' },
+  { name: 'HTTP.Get', signature: 'HTTP.Get(url [, headerNames, headerValues])', description: 'Runs a GET request and returns an object with StatusCode and Content.' },
+  { name: 'HTTP.Post', signature: 'HTTP.Post(url, contentType, content [, headerNames, headerValues])', description: 'Runs a POST request and returns an object with StatusCode and Response.' }
+]
+
+const AMPSCRIPT_BY_NAME = new Map(AMPSCRIPT_FUNCTION_DOCS.map(doc => [doc.name.toLowerCase(), doc]))
+const SSJS_BY_NAME = new Map(SSJS_FUNCTION_DOCS.map(doc => [doc.name.toLowerCase(), doc]))
+
+/**
+ * Documentation of an AMPScript function or an SSJS function or object
+ * path such as DataExtension.Init. Platform.Function.X is the SSJS form of
+ * the AMPScript function X and shares its documentation.
+ */
+export function findFunctionDoc(language: 'ampscript' | 'ssjs', name: string): FunctionDoc | undefined {
+  const key = name.toLowerCase()
+  if (language === 'ampscript') return AMPSCRIPT_BY_NAME.get(key)
+
+  const platformFunction = key.match(/^platform\.function\.(\w+)$/)
+  if (platformFunction) {
+    const doc = AMPSCRIPT_BY_NAME.get(platformFunction[1])
+    return doc && { ...doc, name: `Platform.Function.${doc.name}`, signature: `Platform.Function.${doc.signature}` }
+  }
+
+  // Rows and Fields are reached through a Data Extension object, e.g. de.Rows.Retrieve
+  const direct = SSJS_BY_NAME.get(key) ?? SSJS_BY_NAME.get(key.replace(/^platform\./, ''))
+  return direct ?? SSJS_BY_NAME.get(key.split('.').slice(-2).join('.'))
+}
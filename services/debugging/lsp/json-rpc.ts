@@ -0,0 +1,162 @@
+export type JsonRpcId = number | string | null
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: JsonRpcId
+  method?: string
+  params?: unknown
+  result?: unknown
+  error?: { code: number, message: string, data?: unknown }
+}
+
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerNotInitialized: -32002
+} as const
+
+/**
+ * Error a request handler throws to answer with a specific JSON-RPC error
+ * code; any other error is answered as an internal error
+ */
+export class ResponseError extends Error {
+  constructor(public readonly code: number, message: string, public readonly data?: unknown) {
+    super(message)
+    this.name = 'ResponseError'
+  }
+}
+
+type RequestHandler = (params: any) => unknown | Promise<unknown>
+type NotificationHandler = (params: any) => void | Promise<void>
+
+const HEADER_END = '\r\n\r\n'
+
+export function encodeMessage(message: JsonRpcMessage): string {
+  const body = JSON.stringify(message)
+  return `Content-Length: ${Buffer.byteLength(body, 'utf8')}\r\n\r\n${body}`
+}
+
+/**
+ * Splits a byte stream into the Content-Length framed messages of the
+ * Language Server Protocol base protocol
+ */
+export class MessageReader {
+  private buffer = Buffer.alloc(0)
+
+  constructor(private readonly onMessage: (message: JsonRpcMessage) => void, private readonly onError: (error: Error) => void) {}
+
+  feed(chunk: Buffer | string): void {
+    this.buffer = Buffer.concat([this.buffer, typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk])
+
+    while (true) {
+      const headerEnd = this.buffer.indexOf(HEADER_END)
+      if (headerEnd === -1) return
+
+      const headers = this.buffer.subarray(0, headerEnd).toString('ascii')
+      const length = headers.match(/^Content-Length:\s*(\d+)\s*$/im)
+      if (!length) {
+        // Drop the malformed header and look for the next message
+        this.buffer = this.buffer.subarray(headerEnd + HEADER_END.length)
+        this.onError(new Error(`Message header without Content-Length: ${headers}`))
+        continue
+      }
+
+      const bodyStart = headerEnd + HEADER_END.length
+      const bodyEnd = bodyStart + Number(length[1])
+      if (this.buffer.length < bodyEnd) return
+
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8')
+      this.buffer = this.buffer.subarray(bodyEnd)
+
+      try {
+        this.onMessage(JSON.parse(body))
+      } catch (error) {
+        this.onError(error instanceof Error ? error : new Error(String(error)))
+      }
+    }
+  }
+}
+
+/**
+ * JSON-RPC 2.0 connection over a pair of streams, as used by language
+ * servers on stdio. Requests are answered with the value their handler
+ * returns or throws; unknown requests get MethodNotFound and unknown
+ * notifications are ignored.
+ */
+export class JsonRpcConnection {
+  private readonly requestHandlers = new Map<string, RequestHandler>()
+  private readonly notificationHandlers = new Map<string, NotificationHandler>()
+  private readonly closeHandlers: Array<() => void> = []
+  private readonly reader: MessageReader
+
+  constructor(
+    private readonly input: NodeJS.ReadableStream,
+    private readonly output: NodeJS.WritableStream
+  ) {
+    this.reader = new MessageReader(
+      message => { void this.dispatch(message) },
+      error => this.send({ jsonrpc: '2.0', id: null, error: { code: ErrorCodes.ParseError, message: error.message } })
+    )
+  }
+
+  listen(): void {
+    this.input.on('data', (chunk: Buffer | string) => this.reader.feed(chunk))
+    this.input.on('end', () => this.closeHandlers.forEach(handler => handler()))
+  }
+
+  onRequest(method: string, handler: RequestHandler): void {
+    this.requestHandlers.set(method, handler)
+  }
+
+  onNotification(method: string, handler: NotificationHandler): void {
+    this.notificationHandlers.set(method, handler)
+  }
+
+  onClose(handler: () => void): void {
+    this.closeHandlers.push(handler)
+  }
+
+  sendNotification(method: string, params?: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params })
+  }
+
+  private async dispatch(message: JsonRpcMessage): Promise<void> {
+    if (!message.method) return
+
+    // Notifications have no id
+    if (message.id === undefined) {
+      try {
+        await this.notificationHandlers.get(message.method)?.(message.params)
+      } catch (error) {
+        this.sendNotification('window/logMessage', { type: 1, message: `${message.method} failed: ${errorMessage(error)}` })
+      }
+      return
+    }
+
+    const handler = this.requestHandlers.get(message.method)
+    if (!handler) {
+      this.send({ jsonrpc: '2.0', id: message.id, error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${message.method}` } })
+      return
+    }
+
+    try {
+      const result = await handler(message.params)
+      this.send({ jsonrpc: '2.0', id: message.id, result: result ?? null })
+    } catch (error) {
+      const code = error instanceof ResponseError ? error.code : ErrorCodes.InternalError
+      const data = error instanceof ResponseError ? error.data : undefined
+      this.send({ jsonrpc: '2.0', id: message.id, error: { code, message: errorMessage(error), ...(data !== undefined && { data }) } })
+    }
+  }
+
+  private send(message: JsonRpcMessage): void {
+    this.output.write(encodeMessage(message))
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
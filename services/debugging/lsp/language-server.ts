@@ -0,0 +1,413 @@
+import type { CodeAnalysisService } from '../code-analysis.service'
+import type { RealTimeAnalyzer } from '../real-time-analyzer'
+import {
+  AnalysisLanguage,
+  AnalysisLevel,
+  BestPracticeViolation,
+  CodeFix,
+  DebugError,
+  ErrorSeverity,
+  RuleConfiguration,
+  TextEdit
+} from '../../../types/debugging'
+import { isDocumentLanguage, splitDocument } from '../parsers/document-regions'
+import { LineIndex } from '../parsers/source-text'
+import { applyRuleConfiguration } from '../rule-config'
+import { SuppressionTracker } from '../suppressions'
+import { findFunctionDoc } from './function-docs'
+import { ErrorCodes, JsonRpcConnection, ResponseError } from './json-rpc'
+
+// Language Server Protocol structures the server sends and receives
+export interface Position {
+  line: number
+  character: number
+}
+
+export interface Range {
+  start: Position
+  end: Position
+}
+
+export interface Diagnostic {
+  range: Range
+  severity: 1 | 2 | 3 | 4
+  code: string
+  source: string
+  message: string
+  data?: DiagnosticData
+}
+
+interface DiagnosticData {
+  fix?: CodeFix
+  fixSuggestion?: string
+}
+
+interface LspTextEdit {
+  range: Range
+  newText: string
+}
+
+export interface CodeAction {
+  title: string
+  kind: string
+  diagnostics?: Diagnostic[]
+  isPreferred?: boolean
+  edit?: { changes: Record<string, LspTextEdit[]> }
+  command?: { title: string, command: string, arguments: unknown[] }
+}
+
+interface OpenDocument {
+  uri: string
+  language: AnalysisLanguage
+  version: number
+  text: string
+  // Latest analysis started for the document; older ones are not published
+  generation: number
+}
+
+export interface LanguageServerOptions {
+  ruleConfig?: RuleConfiguration
+  analysisLevel?: AnalysisLevel
+}
+
+// The parts of the analysis services the server uses
+export interface LanguageServerServices {
+  analysis: Pick<CodeAnalysisService, 'analyzeCode'>
+  realtime: Pick<RealTimeAnalyzer, 'analyzeCodeRealTime' | 'clearCache'>
+}
+
+export const SHOW_FIX_SUGGESTION_COMMAND = 'sfmc.showFixSuggestion'
+
+const SOURCE = 'sfmc'
+
+const SEVERITIES: Record<ErrorSeverity, Diagnostic['severity']> = {
+  error: 1,
+  warning: 2,
+  info: 3
+}
+
+// HTML files in SFMC projects are CloudPages or emails that embed AMPScript and SSJS
+const LANGUAGE_IDS: Record<string, AnalysisLanguage> = {
+  ampscript: 'ampscript',
+  ssjs: 'ssjs',
+  sql: 'sql',
+  css: 'css',
+  javascript: 'javascript',
+  html: 'cloudpage',
+  cloudpage: 'cloudpage',
+  email: 'email'
+}
+
+const FILE_EXTENSIONS: Record<string, AnalysisLanguage> = {
+  amp: 'ampscript',
+  ampscript: 'ampscript',
+  ssjs: 'ssjs',
+  sql: 'sql',
+  css: 'css',
+  js: 'javascript',
+  html: 'cloudpage',
+  htm: 'cloudpage'
+}
+
+const WORD_PATTERN = /[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*/g
+
+/**
+ * Language server for SFMC code. Documents are analysed with the
+ * CodeAnalysisService when they are opened or saved, and with the debounced
+ * RealTimeAnalyzer while they are edited. Diagnostics carry their structured
+ * fix, which code actions turn into edits; documents with fixes also get a
+ * fix-all action from the fix engine. Hovers document AMPScript and SSJS
+ * functions.
+ */
+export class SFMCLanguageServer {
+  private readonly documents = new Map<string, OpenDocument>()
+  private options: LanguageServerOptions = {}
+  private shutdownRequested = false
+
+  constructor(
+    private readonly connection: JsonRpcConnection,
+    private readonly services: LanguageServerServices,
+    private readonly onExit: (code: number) => void = () => {}
+  ) {
+    connection.onRequest('initialize', params => this.initialize(params))
+    connection.onRequest('shutdown', () => {
+      this.shutdownRequested = true
+      return null
+    })
+    connection.onNotification('exit', () => this.onExit(this.shutdownRequested ? 0 : 1))
+
+    connection.onNotification('textDocument/didOpen', params => this.didOpen(params))
+    connection.onNotification('textDocument/didChange', params => this.didChange(params))
+    connection.onNotification('textDocument/didSave', params => this.didSave(params))
+    connection.onNotification('textDocument/didClose', params => this.didClose(params))
+
+    connection.onRequest('textDocument/codeAction', params => this.codeActions(params))
+    connection.onRequest('textDocument/hover', params => this.hover(params))
+    connection.onRequest('workspace/executeCommand', params => this.executeCommand(params))
+  }
+
+  private initialize(params: { initializationOptions?: LanguageServerOptions }) {
+    this.options = params?.initializationOptions ?? {}
+
+    return {
+      capabilities: {
+        // Full document sync: every change sends the whole text
+        textDocumentSync: { openClose: true, change: 1, save: { includeText: false } },
+        hoverProvider: true,
+        codeActionProvider: { codeActionKinds: ['quickfix', 'source.fixAll'] },
+        executeCommandProvider: { commands: [SHOW_FIX_SUGGESTION_COMMAND] }
+      },
+      serverInfo: { name: 'sfmc-language-server', version: '0.1.0' }
+    }
+  }
+
+  private async didOpen(params: { textDocument: { uri: string, languageId: string, version: number, text: string } }) {
+    const { uri, languageId, version, text } = params.textDocument
+    const language = detectLanguage(uri, languageId)
+    if (!language) return
+
+    const document: OpenDocument = { uri, language, version, text, generation: 0 }
+    this.documents.set(uri, document)
+    await this.analyzeFully(document)
+  }
+
+  private async didChange(params: { textDocument: { uri: string, version: number }, contentChanges: Array<{ text: string }> }) {
+    const document = this.documents.get(params.textDocument.uri)
+    const change = params.contentChanges[params.contentChanges.length - 1]
+    if (!document || !change) return
+
+    document.text = change.text
+    document.version = params.textDocument.version
+    await this.analyzeLive(document)
+  }
+
+  private async didSave(params: { textDocument: { uri: string } }) {
+    const document = this.documents.get(params.textDocument.uri)
+    if (document) await this.analyzeFully(document)
+  }
+
+  private didClose(params: { textDocument: { uri: string } }) {
+    const { uri } = params.textDocument
+    if (!this.documents.delete(uri)) return
+
+    this.services.realtime.clearCache(uri)
+    this.connection.sendNotification('textDocument/publishDiagnostics', { uri, diagnostics: [] })
+  }
+
+  /**
+   * Errors, warnings, performance issues and best practice violations of
+   * the whole analysis
+   */
+  private async analyzeFully(document: OpenDocument): Promise<void> {
+    const generation = ++document.generation
+    const result = await this.services.analysis.analyzeCode({
+      code: document.text,
+      language: document.language,
+      analysisLevel: this.options.analysisLevel ?? 'comprehensive',
+      ruleConfig: this.options.ruleConfig
+    })
+
+    const lines = document.text.split('\n')
+    this.publish(document, generation, [
+      ...[...result.errors, ...result.warnings, ...result.performanceIssues].map(error => toDiagnostic(error, lines)),
+      ...result.bestPracticeViolations.map(violation => violationToDiagnostic(violation, lines))
+    ])
+  }
+
+  /**
+   * Syntax diagnostics while typing. The realtime analyzer does not know
+   * the project rules, so they and inline suppressions are applied here.
+   */
+  private async analyzeLive(document: OpenDocument): Promise<void> {
+    const generation = ++document.generation
+    const { text, language } = document
+    const result = await this.services.realtime.analyzeCodeRealTime(text, language, document.uri)
+
+    const issues = new SuppressionTracker(text, language)
+      .filter(applyRuleConfiguration([...result.errors, ...result.warnings], this.options.ruleConfig))
+    const lines = text.split('\n')
+    this.publish(document, generation, issues.map(error => toDiagnostic(error, lines)))
+  }
+
+  private publish(document: OpenDocument, generation: number, diagnostics: Diagnostic[]): void {
+    // The document was closed or analysed again in the meantime
+    if (this.documents.get(document.uri) !== document || document.generation !== generation) return
+
+    this.connection.sendNotification('textDocument/publishDiagnostics', {
+      uri: document.uri,
+      version: document.version,
+      diagnostics
+    })
+  }
+
+  private async codeActions(params: { textDocument: { uri: string }, context: { diagnostics: Diagnostic[], only?: string[] } }): Promise<CodeAction[]> {
+    const document = this.documents.get(params.textDocument.uri)
+    if (!document) return []
+
+    const { uri } = document
+    const ours = params.context.diagnostics.filter(diagnostic => diagnostic.source === SOURCE)
+    const wants = (kind: string) => !params.context.only || params.context.only.some(only => kind === only || kind.startsWith(`${only}.`))
+    const actions: CodeAction[] = []
+
+    if (wants('quickfix')) {
+      ours.forEach(diagnostic => {
+        const { fix, fixSuggestion } = diagnostic.data ?? {}
+        if (fix && fix.edits.length > 0) {
+          actions.push({
+            title: fix.description,
+            kind: 'quickfix',
+            diagnostics: [diagnostic],
+            isPreferred: fix.kind === 'safe',
+            edit: { changes: { [uri]: fix.edits.map(toLspEdit) } }
+          })
+        } else if (fixSuggestion) {
+          actions.push({
+            title: fixSuggestion,
+            kind: 'quickfix',
+            diagnostics: [diagnostic],
+            command: { title: fixSuggestion, command: SHOW_FIX_SUGGESTION_COMMAND, arguments: [fixSuggestion] }
+          })
+        }
+      })
+    }
+
+    // Running the fix engine is only worth it when something can be fixed
+    const fixable = ours.some(diagnostic => diagnostic.data?.fix)
+    if (wants('source.fixAll') && (fixable || params.context.only)) {
+      const { fixedCode } = await this.services.analysis.analyzeCode({
+        code: document.text,
+        language: document.language,
+        analysisLevel: 'syntax',
+        ruleConfig: this.options.ruleConfig
+      })
+
+      if (fixedCode !== undefined && fixedCode !== document.text) {
+        actions.push({
+          title: 'Fix all auto-fixable SFMC issues',
+          kind: 'source.fixAll.sfmc',
+          edit: { changes: { [uri]: [{ range: documentRange(document.text), newText: fixedCode }] } }
+        })
+      }
+    }
+
+    return actions
+  }
+
+  private hover(params: { textDocument: { uri: string }, position: Position }) {
+    const document = this.documents.get(params.textDocument.uri)
+    if (!document) return null
+
+    const { line, character } = params.position
+    const word = wordAt(document.text.split('\n')[line] ?? '', character)
+    const language = scriptLanguageAt(document, line, character)
+    if (!word || !language) return null
+
+    const doc = findFunctionDoc(language, word.text)
+    if (!doc) return null
+
+    return {
+      contents: {
+        kind: 'markdown',
+        value: `\`\`\`${language === 'ssjs' ? 'javascript' : 'ampscript'}\n${doc.signature}\n\`\`\`\n\n${doc.description}`
+      },
+      range: { start: { line, character: word.start }, end: { line, character: word.end } }
+    }
+  }
+
+  private executeCommand(params: { command: string, arguments?: unknown[] }) {
+    if (params.command !== SHOW_FIX_SUGGESTION_COMMAND) {
+      throw new ResponseError(ErrorCodes.InvalidParams, `Unknown command ${params.command}`)
+    }
+
+    this.connection.sendNotification('window/showMessage', { type: 3, message: String(params.arguments?.[0] ?? '') })
+    return null
+  }
+}
+
+export function detectLanguage(uri: string, languageId: string): AnalysisLanguage | undefined {
+  const extension = uri.match(/\.([A-Za-z]+)$/)?.[1].toLowerCase()
+  return LANGUAGE_IDS[languageId.toLowerCase()] ?? (extension ? FILE_EXTENSIONS[extension] : undefined)
+}
+
+/**
+ * Converts an issue to a diagnostic. Issues without an end position cover
+ * the word they start at.
+ */
+export function toDiagnostic(error: DebugError, lines: string[]): Diagnostic {
+  const start = { line: Math.max(error.line - 1, 0), character: Math.max(error.column - 1, 0) }
+  const end = error.endLine !== undefined && error.endColumn !== undefined
+    ? { line: error.endLine - 1, character: Math.max(error.endColumn - 1, 0) }
+    : wordEnd(lines, start)
+
+  return {
+    range: { start, end },
+    severity: SEVERITIES[error.severity],
+    code: error.rule,
+    source: SOURCE,
+    message: error.message,
+    data: { fix: error.fix, fixSuggestion: error.fixSuggestion }
+  }
+}
+
+// Best practice columns are 0-based
+function violationToDiagnostic(violation: BestPracticeViolation, lines: string[]): Diagnostic {
+  const start = { line: Math.max(violation.line - 1, 0), character: violation.column ?? 0 }
+
+  return {
+    range: { start, end: violation.column === undefined ? { line: start.line, character: lines[start.line]?.length ?? 0 } : wordEnd(lines, start) },
+    severity: SEVERITIES[violation.severity],
+    code: violation.rule,
+    source: SOURCE,
+    message: violation.message,
+    data: { fix: violation.fix, fixSuggestion: violation.suggestion }
+  }
+}
+
+function toLspEdit(edit: TextEdit): LspTextEdit {
+  return {
+    range: {
+      start: { line: edit.line - 1, character: edit.column - 1 },
+      end: { line: edit.endLine - 1, character: edit.endColumn - 1 }
+    },
+    newText: edit.replacement
+  }
+}
+
+function wordEnd(lines: string[], start: Position): Position {
+  const text = lines[start.line] ?? ''
+  const word = text.slice(start.character).match(/^[@\w.]+/)
+  const length = word ? word[0].length : Math.min(1, text.length - start.character)
+  return { line: start.line, character: start.character + Math.max(length, 0) }
+}
+
+function documentRange(text: string): Range {
+  const lines = text.split('\n')
+  return { start: { line: 0, character: 0 }, end: { line: lines.length - 1, character: lines[lines.length - 1].length } }
+}
+
+/**
+ * Dotted name under the cursor, up to the end of the hovered segment:
+ * hovering Platform in Platform.Function.Lookup gives Platform
+ */
+function wordAt(line: string, character: number): { text: string, start: number, end: number } | undefined {
+  for (const match of line.matchAll(WORD_PATTERN)) {
+    const start = match.index ?? 0
+    const end = start + match[0].length
+    if (character < start || character > end) continue
+
+    const segmentEnd = line.indexOf('.', character)
+    const cut = segmentEnd === -1 || segmentEnd > end ? end : segmentEnd
+    return { text: line.slice(start, cut), start, end: cut }
+  }
+  return undefined
+}
+
+function scriptLanguageAt(document: OpenDocument, line: number, character: number): 'ampscript' | 'ssjs' | undefined {
+  const { language, text } = document
+  if (language === 'ampscript' || language === 'ssjs') return language
+  if (!isDocumentLanguage(language)) return undefined
+
+  const offset = new LineIndex(text).offsetAt(line + 1, character + 1)
+  const region = splitDocument(text).find(region => offset >= region.start && offset < region.end)
+  return region?.language === 'ampscript' || region?.language === 'ssjs' ? region.language : undefined
+}
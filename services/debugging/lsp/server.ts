@@ -0,0 +1,25 @@
+import { CodeAnalysisService } from '../code-analysis.service'
+import { RealTimeAnalyzer } from '../real-time-analyzer'
+import { JsonRpcConnection } from './json-rpc'
+import { SFMCLanguageServer } from './language-server'
+
+/**
+ * Language server over stdio, for editors such as VS Code:
+ *
+ *   npm run lsp
+ *
+ * stdout carries the protocol, so console output of the services goes to stderr.
+ */
+console.log = console.info = console.debug = (...args: unknown[]) => console.error(...args)
+
+const connection = new JsonRpcConnection(process.stdin, process.stdout)
+
+new SFMCLanguageServer(
+  connection,
+  { analysis: new CodeAnalysisService(), realtime: new RealTimeAnalyzer() },
+  code => process.exit(code)
+)
+
+// The client went away without asking the server to exit
+connection.onClose(() => process.exit(1))
+connection.listen()
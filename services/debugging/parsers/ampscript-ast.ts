@@ -0,0 +1,219 @@
+import { SourceRange } from '../../../types/debugging'
+
+// AMPScript syntax tree produced by parseAMPScript. Every node carries the
+// source range it was parsed from so diagnostics can point at exact spans.
+
+export interface AMPScriptNodeBase {
+  range: SourceRange
+}
+
+// Expressions
+
+export interface StringLiteralNode extends AMPScriptNodeBase {
+  type: 'String'
+  value: string
+}
+
+export interface NumberLiteralNode extends AMPScriptNodeBase {
+  type: 'Number'
+  value: number
+  raw: string
+}
+
+export interface BooleanLiteralNode extends AMPScriptNodeBase {
+  type: 'Boolean'
+  value: boolean
+}
+
+export interface VariableNode extends AMPScriptNodeBase {
+  type: 'Variable'
+  name: string
+}
+
+export interface AttributeNode extends AMPScriptNodeBase {
+  type: 'Attribute'
+  name: string
+  bracketed: boolean
+}
+
+export interface CallExpressionNode extends AMPScriptNodeBase {
+  type: 'Call'
+  callee: string
+  calleeRange: SourceRange
+  args: AMPScriptExpression[]
+}
+
+export interface BinaryExpressionNode extends AMPScriptNodeBase {
+  type: 'Binary'
+  operator: '==' | '!=' | '<' | '>' | '<=' | '>=' | 'AND' | 'OR'
+  operatorRange: SourceRange
+  left: AMPScriptExpression
+  right: AMPScriptExpression
+}
+
+export interface UnaryExpressionNode extends AMPScriptNodeBase {
+  type: 'Unary'
+  operator: 'NOT'
+  argument: AMPScriptExpression
+}
+
+export type AMPScriptExpression =
+  | StringLiteralNode
+  | NumberLiteralNode
+  | BooleanLiteralNode
+  | VariableNode
+  | AttributeNode
+  | CallExpressionNode
+  | BinaryExpressionNode
+  | UnaryExpressionNode
+
+// Statements
+
+export interface ContentNode extends AMPScriptNodeBase {
+  type: 'Content'
+  text: string
+}
+
+export interface PersonalizationNode extends AMPScriptNodeBase {
+  type: 'Personalization'
+  name: string
+}
+
+export interface InlineOutputNode extends AMPScriptNodeBase {
+  type: 'InlineOutput'
+  expression: AMPScriptExpression | null
+}
+
+export interface VarStatementNode extends AMPScriptNodeBase {
+  type: 'Var'
+  variables: VariableNode[]
+}
+
+export interface SetStatementNode extends AMPScriptNodeBase {
+  type: 'Set'
+  target: VariableNode
+  value: AMPScriptExpression | null
+}
+
+export interface ElseIfClauseNode extends AMPScriptNodeBase {
+  type: 'ElseIf'
+  condition: AMPScriptExpression | null
+  body: AMPScriptStatement[]
+}
+
+export interface IfStatementNode extends AMPScriptNodeBase {
+  type: 'If'
+  keywordRange: SourceRange
+  condition: AMPScriptExpression | null
+  consequent: AMPScriptStatement[]
+  elseIfs: ElseIfClauseNode[]
+  alternate: AMPScriptStatement[] | null
+  closed: boolean
+}
+
+export interface ForStatementNode extends AMPScriptNodeBase {
+  type: 'For'
+  keywordRange: SourceRange
+  counter: VariableNode | null
+  start: AMPScriptExpression | null
+  end: AMPScriptExpression | null
+  direction: 'TO' | 'DOWNTO'
+  body: AMPScriptStatement[]
+  nextVariable: VariableNode | null
+  closed: boolean
+}
+
+export interface ExpressionStatementNode extends AMPScriptNodeBase {
+  type: 'ExpressionStatement'
+  expression: AMPScriptExpression
+}
+
+export type AMPScriptStatement =
+  | ContentNode
+  | PersonalizationNode
+  | InlineOutputNode
+  | VarStatementNode
+  | SetStatementNode
+  | IfStatementNode
+  | ForStatementNode
+  | ExpressionStatementNode
+
+export type AMPScriptNode = AMPScriptStatement | AMPScriptExpression | ElseIfClauseNode
+
+// Document level
+
+export interface AMPScriptRegion extends AMPScriptNodeBase {
+  kind: 'block' | 'inline' | 'script'
+  closed: boolean
+}
+
+export interface AMPScriptComment extends AMPScriptNodeBase {
+  text: string
+}
+
+export interface AMPScriptProgram extends AMPScriptNodeBase {
+  type: 'Program'
+  body: AMPScriptStatement[]
+  regions: AMPScriptRegion[]
+  comments: AMPScriptComment[]
+}
+
+/**
+ * Visits every node in source order. The callback receives the chain of
+ * ancestors (outermost first); returning false skips the node's children.
+ */
+export function walkAMPScript(
+  nodes: AMPScriptNode[],
+  visit: (node: AMPScriptNode, ancestors: AMPScriptNode[]) => boolean | void,
+  ancestors: AMPScriptNode[] = []
+): void {
+  for (const node of nodes) {
+    if (visit(node, ancestors) === false) {
+      continue
+    }
+    const children = childrenOf(node)
+    if (children.length > 0) {
+      walkAMPScript(children, visit, [...ancestors, node])
+    }
+  }
+}
+
+function childrenOf(node: AMPScriptNode): AMPScriptNode[] {
+  switch (node.type) {
+    case 'InlineOutput':
+      return node.expression ? [node.expression] : []
+    case 'Var':
+      return node.variables
+    case 'Set':
+      return node.value ? [node.value] : []
+    case 'If': {
+      const children: AMPScriptNode[] = []
+      if (node.condition) children.push(node.condition)
+      children.push(...node.consequent, ...node.elseIfs)
+      if (node.alternate) children.push(...node.alternate)
+      return children
+    }
+    case 'ElseIf':
+      return node.condition ? [node.condition, ...node.body] : node.body
+    case 'For': {
+      const children: AMPScriptNode[] = []
+      if (node.start) children.push(node.start)
+      if (node.end) children.push(node.end)
+      return [...children, ...node.body]
+    }
+    case 'ExpressionStatement':
+      return [node.expression]
+    case 'Call':
+      return node.args
+    case 'Binary':
+      return [node.left, node.right]
+    case 'Unary':
+      return [node.argument]
+    default:
+      return []
+  }
+}
+
+export function isLoopNode(node: AMPScriptNode): node is ForStatementNode {
+  return node.type === 'For'
+}
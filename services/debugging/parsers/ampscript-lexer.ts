@@ -0,0 +1,459 @@
+import { SourceRange } from '../../../types/debugging'
+import { LineIndex, ParseDiagnostic, rangeEdit } from './source-text'
+import { AMPScriptComment, AMPScriptRegion } from './ampscript-ast'
+
+export type AMPScriptTokenType =
+  | 'content'
+  | 'personalization'
+  | 'blockOpen'
+  | 'blockClose'
+  | 'inlineOpen'
+  | 'inlineClose'
+  | 'scriptOpen'
+  | 'scriptClose'
+  | 'keyword'
+  | 'identifier'
+  | 'attribute'
+  | 'variable'
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'eof'
+
+export interface AMPScriptToken {
+  type: AMPScriptTokenType
+  value: string
+  range: SourceRange
+}
+
+export interface AMPScriptLexResult {
+  tokens: AMPScriptToken[]
+  regions: AMPScriptRegion[]
+  comments: AMPScriptComment[]
+  diagnostics: ParseDiagnostic[]
+  lineIndex: LineIndex
+}
+
+export const AMPSCRIPT_KEYWORDS = [
+  'VAR', 'SET', 'IF', 'THEN', 'ELSEIF', 'ELSE', 'ENDIF', 'FOR', 'TO', 'DOWNTO', 'DO', 'NEXT',
+  'AND', 'OR', 'NOT'
+]
+
+const SCRIPT_OPEN_PATTERN = /<script\b[^>]*\blanguage\s*=\s*["']?ampscript["']?[^>]*>/iy
+const SCRIPT_CLOSE_PATTERN = /<\/script\s*>/iy
+const PERSONALIZATION_PATTERN = /%%[A-Za-z_][\w-]*%%/y
+const DELIMITER_PATTERN = /%%\[|%%=|<script\b[^>]*\blanguage\s*=\s*["']?ampscript/i
+const CONTENT_PATTERN = /<\/?[A-Za-z][^<>]*>|%%[A-Za-z_][\w-]*%%/
+
+type LexMode = 'content' | 'block' | 'inline' | 'script'
+
+/**
+ * Tokenizes AMPScript embedded in content. Text outside %%[ ]%%, %%= =%% and
+ * <script language="ampscript"> regions becomes content tokens. A bare
+ * script is lexed as one script block instead, so snippets can be analysed;
+ * callers lexing code embedded in a document pass false.
+ */
+export function tokenizeAMPScript(source: string, bareScript: boolean = isBareAMPScript(source)): AMPScriptLexResult {
+  return new AMPScriptLexer(source).tokenize(bareScript)
+}
+
+export function hasAMPScriptDelimiters(source: string): boolean {
+  return DELIMITER_PATTERN.test(source)
+}
+
+/**
+ * AMPScript statements without delimiters. Markup and personalization
+ * strings such as %%FirstName%% make the source content instead.
+ */
+export function isBareAMPScript(source: string): boolean {
+  return !hasAMPScriptDelimiters(source) && !CONTENT_PATTERN.test(source)
+}
+
+class AMPScriptLexer {
+  private readonly lineIndex: LineIndex
+  private readonly tokens: AMPScriptToken[] = []
+  private readonly regions: AMPScriptRegion[] = []
+  private readonly comments: AMPScriptComment[] = []
+  private readonly diagnostics: ParseDiagnostic[] = []
+  private pos = 0
+  private mode: LexMode = 'content'
+  private regionStart = 0
+
+  constructor(private readonly source: string) {
+    this.lineIndex = new LineIndex(source)
+  }
+
+  tokenize(bareScript: boolean): AMPScriptLexResult {
+    if (bareScript) {
+      this.mode = 'block'
+      this.lexScript(true)
+    } else {
+      while (this.pos < this.source.length) {
+        if (this.mode === 'content') {
+          this.lexContent()
+        } else {
+          this.lexScript(false)
+        }
+      }
+      if (this.mode !== 'content') {
+        this.reportUnclosedRegion()
+      }
+    }
+
+    this.tokens.push(this.token('eof', '', this.source.length, this.source.length))
+
+    return {
+      tokens: this.tokens,
+      regions: this.regions,
+      comments: this.comments,
+      diagnostics: this.diagnostics,
+      lineIndex: this.lineIndex
+    }
+  }
+
+  private lexContent(): void {
+    const start = this.pos
+
+    while (this.pos < this.source.length) {
+      if (this.startsWith('%%[')) {
+        this.flushContent(start)
+        this.openRegion('block', 'blockOpen', 3)
+        return
+      }
+      if (this.startsWith('%%=')) {
+        this.flushContent(start)
+        this.openRegion('inline', 'inlineOpen', 3)
+        return
+      }
+      if (this.source[this.pos] === '<') {
+        const scriptMatch = this.matchAt(SCRIPT_OPEN_PATTERN)
+        if (scriptMatch) {
+          this.flushContent(start)
+          this.openRegion('script', 'scriptOpen', scriptMatch.length)
+          return
+        }
+      }
+      if (this.startsWith('%%')) {
+        const personalization = this.matchAt(PERSONALIZATION_PATTERN)
+        if (personalization) {
+          this.flushContent(start)
+          this.tokens.push(this.token(
+            'personalization',
+            personalization.slice(2, -2),
+            this.pos,
+            this.pos + personalization.length
+          ))
+          this.pos += personalization.length
+          return
+        }
+      }
+      if (this.startsWith(']%%')) {
+        this.diagnostics.push({
+          rule: 'ampscript-delimiters',
+          message: 'Unmatched AMPScript delimiters. ]%% has no corresponding %%[',
+          severity: 'error',
+          range: this.lineIndex.rangeOf(this.pos, this.pos + 3),
+          fixSuggestion: 'Add %%[ at the beginning of the block or remove the stray ]%%',
+          fix: {
+            kind: 'unsafe',
+            description: 'Remove the stray ]%%',
+            edits: [rangeEdit(this.lineIndex.rangeOf(this.pos, this.pos + 3), '')]
+          }
+        })
+      }
+      this.pos++
+    }
+
+    this.flushContent(start)
+  }
+
+  private lexScript(implicit: boolean): void {
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos]
+
+      if (/\s/.test(char)) {
+        this.pos++
+        continue
+      }
+
+      if (!implicit && this.tryCloseRegion()) {
+        return
+      }
+
+      if (this.startsWith('/*')) {
+        this.lexComment()
+        continue
+      }
+
+      if (this.startsWith('<!--')) {
+        const end = this.source.indexOf('-->', this.pos + 4)
+        const stop = end === -1 ? this.source.length : end + 3
+        this.comments.push({ text: this.source.slice(this.pos, stop), range: this.lineIndex.rangeOf(this.pos, stop) })
+        this.pos = stop
+        continue
+      }
+
+      if (char === '@') {
+        this.lexWord('variable', this.pos + 1)
+        continue
+      }
+
+      if (char === '"' || char === "'") {
+        this.lexString(char)
+        continue
+      }
+
+      if (/\d/.test(char) || (char === '-' && /\d/.test(this.source[this.pos + 1] || '') && this.previousAllowsNumber())) {
+        this.lexNumber()
+        continue
+      }
+
+      if (char === '[') {
+        this.lexBracketedAttribute()
+        continue
+      }
+
+      if (/[A-Za-z_]/.test(char)) {
+        this.lexWord('identifier', this.pos)
+        continue
+      }
+
+      const operator = ['==', '!=', '<>', '<=', '>=', '<', '>', '='].find(op => this.startsWith(op))
+      if (operator) {
+        this.tokens.push(this.token('operator', operator === '<>' ? '!=' : operator, this.pos, this.pos + operator.length))
+        this.pos += operator.length
+        continue
+      }
+
+      if (char === '(' || char === ')' || char === ',') {
+        const type = char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'comma'
+        this.tokens.push(this.token(type, char, this.pos, this.pos + 1))
+        this.pos++
+        continue
+      }
+
+      this.diagnostics.push({
+        rule: 'ampscript-unexpected-character',
+        message: `Unexpected character '${char}' in AMPScript`,
+        severity: 'error',
+        range: this.lineIndex.rangeOf(this.pos, this.pos + 1),
+        fixSuggestion: 'Remove the character or move it outside the AMPScript block'
+      })
+      this.pos++
+    }
+  }
+
+  private tryCloseRegion(): boolean {
+    let closeType: AMPScriptTokenType | undefined
+    let length = 0
+
+    if (this.mode === 'block' && this.startsWith(']%%')) {
+      closeType = 'blockClose'
+      length = 3
+    } else if (this.mode === 'inline' && this.startsWith('=%%')) {
+      closeType = 'inlineClose'
+      length = 3
+    } else if (this.mode === 'script') {
+      const match = this.matchAt(SCRIPT_CLOSE_PATTERN)
+      if (match) {
+        closeType = 'scriptClose'
+        length = match.length
+      }
+    }
+
+    if (!closeType) {
+      if (this.startsWith('%%[') || this.startsWith('%%=')) {
+        // A new region opening inside an unterminated one; close the current
+        // region here so the rest of the document still tokenizes sensibly.
+        this.reportUnclosedRegion()
+        this.mode = 'content'
+        return true
+      }
+      return false
+    }
+
+    this.tokens.push(this.token(closeType, this.source.slice(this.pos, this.pos + length), this.pos, this.pos + length))
+    this.pos += length
+    this.regions.push({
+      kind: this.mode as AMPScriptRegion['kind'],
+      closed: true,
+      range: this.lineIndex.rangeOf(this.regionStart, this.pos)
+    })
+    this.mode = 'content'
+    return true
+  }
+
+  private openRegion(kind: AMPScriptRegion['kind'], type: AMPScriptTokenType, length: number): void {
+    this.regionStart = this.pos
+    this.tokens.push(this.token(type, this.source.slice(this.pos, this.pos + length), this.pos, this.pos + length))
+    this.pos += length
+    this.mode = kind
+  }
+
+  private reportUnclosedRegion(): void {
+    const open = this.source.slice(this.regionStart, this.regionStart + 3)
+    const expected = this.mode === 'inline' ? '=%%' : this.mode === 'script' ? '</script>' : ']%%'
+    this.regions.push({
+      kind: this.mode as AMPScriptRegion['kind'],
+      closed: false,
+      range: this.lineIndex.rangeOf(this.regionStart, this.pos)
+    })
+    this.diagnostics.push({
+      rule: 'ampscript-delimiters',
+      message: `Unmatched AMPScript delimiters. ${this.mode === 'script' ? '<script>' : open} is never closed with ${expected}`,
+      severity: 'error',
+      range: this.lineIndex.rangeOf(this.regionStart, this.regionStart + (this.mode === 'script' ? 7 : 3)),
+      fixSuggestion: `Add ${expected} at the end`,
+      fix: {
+        // The block may have been meant to end earlier than the end of the code
+        kind: 'unsafe',
+        description: `Add ${expected} at the end`,
+        edits: [rangeEdit(this.lineIndex.rangeOf(this.source.length, this.source.length), expected)]
+      }
+    })
+  }
+
+  private lexComment(): void {
+    const start = this.pos
+    const end = this.source.indexOf('*/', start + 2)
+    const stop = end === -1 ? this.source.length : end + 2
+
+    if (end === -1) {
+      this.diagnostics.push({
+        rule: 'ampscript-unterminated-comment',
+        message: 'Comment is never closed with */',
+        severity: 'error',
+        range: this.lineIndex.rangeOf(start, start + 2),
+        fixSuggestion: 'Add */ to close the comment'
+      })
+    }
+
+    this.comments.push({ text: this.source.slice(start, stop), range: this.lineIndex.rangeOf(start, stop) })
+    this.pos = stop
+  }
+
+  private lexWord(type: 'variable' | 'identifier', nameStart: number): void {
+    const start = this.pos
+    let end = nameStart
+    while (end < this.source.length && /[\w]/.test(this.source[end])) {
+      end++
+    }
+
+    const text = this.source.slice(start, end)
+
+    if (type === 'variable') {
+      if (end === nameStart) {
+        this.diagnostics.push({
+          rule: 'ampscript-parse-error',
+          message: 'Expected a variable name after @',
+          severity: 'error',
+          range: this.lineIndex.rangeOf(start, start + 1),
+          fixSuggestion: 'Use a variable name such as @firstName'
+        })
+      }
+      this.tokens.push(this.token('variable', text, start, end))
+    } else if (AMPSCRIPT_KEYWORDS.includes(text.toUpperCase())) {
+      this.tokens.push(this.token('keyword', text.toUpperCase(), start, end))
+    } else if (/^(true|false)$/i.test(text)) {
+      this.tokens.push(this.token('boolean', text.toLowerCase(), start, end))
+    } else {
+      this.tokens.push(this.token('identifier', text, start, end))
+    }
+
+    this.pos = end
+  }
+
+  private lexString(quote: string): void {
+    const start = this.pos
+    let value = ''
+    let i = start + 1
+
+    while (i < this.source.length) {
+      if (this.source[i] === quote) {
+        if (this.source[i + 1] === quote) {
+          value += quote
+          i += 2
+          continue
+        }
+        this.tokens.push(this.token('string', value, start, i + 1))
+        this.pos = i + 1
+        return
+      }
+      value += this.source[i]
+      i++
+    }
+
+    // Unterminated: stop at the closing delimiter of the region, if any
+    const closer = this.mode === 'inline' ? '=%%' : ']%%'
+    const delimiter = this.source.indexOf(closer, start + 1)
+    const stop = delimiter === -1 ? this.source.length : delimiter
+
+    this.diagnostics.push({
+      rule: 'ampscript-unterminated-string',
+      message: 'String literal is never closed',
+      severity: 'error',
+      range: this.lineIndex.rangeOf(start, stop),
+      fixSuggestion: `Add a closing ${quote} to the string`
+    })
+    this.tokens.push(this.token('string', this.source.slice(start + 1, stop), start, stop))
+    this.pos = stop
+  }
+
+  private lexNumber(): void {
+    const match = /-?\d+(\.\d+)?/y
+    match.lastIndex = this.pos
+    const result = match.exec(this.source)!
+    this.tokens.push(this.token('number', result[0], this.pos, this.pos + result[0].length))
+    this.pos += result[0].length
+  }
+
+  private lexBracketedAttribute(): void {
+    const start = this.pos
+    const end = this.source.indexOf(']', start + 1)
+
+    if (end === -1 || this.source.slice(start + 1, end).includes('\n')) {
+      this.diagnostics.push({
+        rule: 'ampscript-parse-error',
+        message: 'Bracketed attribute name is never closed with ]',
+        severity: 'error',
+        range: this.lineIndex.rangeOf(start, start + 1),
+        fixSuggestion: 'Close the attribute name with ]'
+      })
+      this.pos++
+      return
+    }
+
+    this.tokens.push(this.token('attribute', this.source.slice(start + 1, end), start, end + 1))
+    this.pos = end + 1
+  }
+
+  private previousAllowsNumber(): boolean {
+    const previous = this.tokens[this.tokens.length - 1]
+    if (!previous) return true
+    return ['operator', 'lparen', 'comma', 'keyword', 'blockOpen', 'inlineOpen', 'scriptOpen'].includes(previous.type)
+  }
+
+  private flushContent(start: number): void {
+    if (this.pos > start) {
+      this.tokens.push(this.token('content', this.source.slice(start, this.pos), start, this.pos))
+    }
+  }
+
+  private startsWith(text: string): boolean {
+    return this.source.startsWith(text, this.pos)
+  }
+
+  private matchAt(pattern: RegExp): string | undefined {
+    pattern.lastIndex = this.pos
+    const match = pattern.exec(this.source)
+    return match ? match[0] : undefined
+  }
+
+  private token(type: AMPScriptTokenType, value: string, start: number, end: number): AMPScriptToken {
+    return { type, value, range: this.lineIndex.rangeOf(start, end) }
+  }
+}
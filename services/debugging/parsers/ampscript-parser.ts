@@ -0,0 +1,570 @@
+import { SourceRange } from '../../../types/debugging'
+import { LineIndex, ParseDiagnostic, rangeEdit } from './source-text'
+import { AMPScriptToken, AMPScriptTokenType, tokenizeAMPScript } from './ampscript-lexer'
+import {
+  AMPScriptExpression,
+  AMPScriptProgram,
+  AMPScriptStatement,
+  BinaryExpressionNode,
+  ElseIfClauseNode,
+  ForStatementNode,
+  IfStatementNode,
+  SetStatementNode,
+  VarStatementNode,
+  VariableNode
+} from './ampscript-ast'
+
+export interface AMPScriptParseResult {
+  program: AMPScriptProgram
+  diagnostics: ParseDiagnostic[]
+  lineIndex: LineIndex
+}
+
+/**
+ * Parses AMPScript (including surrounding content) into a syntax tree.
+ * The parser recovers from errors so a best-effort tree is always returned
+ * together with the diagnostics found along the way. bareScript is passed
+ * on to tokenizeAMPScript.
+ */
+export function parseAMPScript(source: string, bareScript?: boolean): AMPScriptParseResult {
+  const lexed = tokenizeAMPScript(source, bareScript)
+  const parser = new AMPScriptParser(lexed.tokens, lexed.diagnostics)
+  const body = parser.parseProgram()
+
+  return {
+    program: {
+      type: 'Program',
+      body,
+      regions: lexed.regions,
+      comments: lexed.comments,
+      range: lexed.lineIndex.rangeOf(0, source.length)
+    },
+    diagnostics: lexed.diagnostics,
+    lineIndex: lexed.lineIndex
+  }
+}
+
+type BlockTerminator = 'ELSEIF' | 'ELSE' | 'ENDIF' | 'NEXT'
+
+const DELIMITER_TOKENS: AMPScriptTokenType[] = ['blockOpen', 'blockClose', 'scriptOpen', 'scriptClose']
+
+const INLINE_STOP_TOKENS: AMPScriptTokenType[] = [
+  'inlineClose', 'eof', 'content', 'personalization', 'blockOpen', 'inlineOpen', 'scriptOpen'
+]
+
+class AMPScriptParser {
+  private index = 0
+
+  constructor(
+    private readonly tokens: AMPScriptToken[],
+    private readonly diagnostics: ParseDiagnostic[]
+  ) {}
+
+  parseProgram(): AMPScriptStatement[] {
+    const body: AMPScriptStatement[] = []
+
+    while (!this.check('eof')) {
+      const terminator = this.peekTerminator()
+      if (terminator) {
+        const token = this.advance()
+        this.reportStrayTerminator(token, terminator)
+        continue
+      }
+      const statement = this.parseStatement()
+      if (statement) body.push(statement)
+    }
+
+    return body
+  }
+
+  private parseStatementsUntil(terminators: BlockTerminator[]): AMPScriptStatement[] {
+    const body: AMPScriptStatement[] = []
+
+    while (!this.check('eof')) {
+      const terminator = this.peekTerminator()
+      if (terminator && terminators.includes(terminator)) {
+        break
+      }
+      if (terminator) {
+        this.reportStrayTerminator(this.advance(), terminator)
+        continue
+      }
+      const statement = this.parseStatement()
+      if (statement) body.push(statement)
+    }
+
+    return body
+  }
+
+  private parseStatement(): AMPScriptStatement | null {
+    const token = this.peek()
+
+    if (DELIMITER_TOKENS.includes(token.type)) {
+      this.advance()
+      return null
+    }
+
+    switch (token.type) {
+      case 'content':
+        this.advance()
+        return { type: 'Content', text: token.value, range: token.range }
+      case 'personalization':
+        this.advance()
+        return { type: 'Personalization', name: token.value, range: token.range }
+      case 'inlineOpen':
+        return this.parseInlineOutput()
+      case 'keyword':
+        switch (token.value) {
+          case 'VAR':
+            return this.parseVar()
+          case 'SET':
+            return this.parseSet()
+          case 'IF':
+            return this.parseIf()
+          case 'FOR':
+            return this.parseFor()
+        }
+        break
+      case 'identifier': {
+        const expression = this.parseExpression()
+        if (expression && expression.type !== 'Call') {
+          this.error(expression.range, `Unexpected '${token.value}'. Statements must be SET, VAR, IF, FOR or a function call`)
+        }
+        return expression ? { type: 'ExpressionStatement', expression, range: expression.range } : null
+      }
+    }
+
+    this.advance()
+    this.error(token.range, `Unexpected ${this.describe(token)}`)
+    return null
+  }
+
+  private parseInlineOutput(): AMPScriptStatement {
+    const open = this.advance()
+    let expression: AMPScriptExpression | null = null
+
+    if (this.check('inlineClose')) {
+      this.error(open.range, 'Inline AMPScript expression is empty')
+    } else {
+      expression = this.parseExpression()
+      while (!INLINE_STOP_TOKENS.includes(this.peek().type)) {
+        const extra = this.advance()
+        this.error(extra.range, `Unexpected ${this.describe(extra)} in inline expression`)
+      }
+    }
+
+    const close = this.check('inlineClose') ? this.advance() : null
+    const end = close ? close.range.end : expression ? expression.range.end : open.range.end
+
+    return { type: 'InlineOutput', expression, range: this.span(open.range, end) }
+  }
+
+  private parseVar(): VarStatementNode {
+    const keyword = this.advance()
+    const variables: VariableNode[] = []
+
+    do {
+      if (!this.check('variable')) {
+        this.error(this.peek().range, 'Expected a variable name after VAR')
+        break
+      }
+      variables.push(this.variableNode(this.advance()))
+    } while (this.match('comma'))
+
+    const end = variables.length > 0 ? variables[variables.length - 1].range.end : keyword.range.end
+    return { type: 'Var', variables, range: this.span(keyword.range, end) }
+  }
+
+  private parseSet(): SetStatementNode | null {
+    const keyword = this.advance()
+
+    if (!this.check('variable')) {
+      this.error(this.peek().range, 'Expected a variable name after SET')
+      return null
+    }
+    const target = this.variableNode(this.advance())
+
+    if (!this.checkValue('operator', '=')) {
+      this.error(this.peek().range, `Expected = after SET ${target.name}`)
+      return { type: 'Set', target, value: null, range: this.span(keyword.range, target.range.end) }
+    }
+    this.advance()
+
+    const value = this.parseExpression()
+    const end = value ? value.range.end : target.range.end
+    return { type: 'Set', target, value, range: this.span(keyword.range, end) }
+  }
+
+  private parseIf(): IfStatementNode {
+    const keyword = this.advance()
+    const condition = this.parseCondition('IF')
+    const consequent = this.parseStatementsUntil(['ELSEIF', 'ELSE', 'ENDIF'])
+    const elseIfs: ElseIfClauseNode[] = []
+    let alternate: AMPScriptStatement[] | null = null
+
+    while (this.checkValue('keyword', 'ELSEIF')) {
+      const elseIfKeyword = this.advance()
+      const elseIfCondition = this.parseCondition('ELSEIF')
+      const body = this.parseStatementsUntil(['ELSEIF', 'ELSE', 'ENDIF'])
+      const end = body.length > 0 ? body[body.length - 1].range.end : this.previous().range.end
+      elseIfs.push({ type: 'ElseIf', condition: elseIfCondition, body, range: this.span(elseIfKeyword.range, end) })
+    }
+
+    if (this.checkValue('keyword', 'ELSE')) {
+      this.advance()
+      alternate = this.parseStatementsUntil(['ENDIF'])
+    }
+
+    let closed = false
+    if (this.checkValue('keyword', 'ENDIF')) {
+      this.advance()
+      closed = true
+    } else {
+      this.diagnostics.push({
+        rule: 'ampscript-block-structure',
+        message: 'IF statement is missing a matching ENDIF',
+        severity: 'error',
+        range: keyword.range,
+        fixSuggestion: 'Add missing ENDIF statements'
+      })
+    }
+
+    return {
+      type: 'If',
+      keywordRange: keyword.range,
+      condition,
+      consequent,
+      elseIfs,
+      alternate,
+      closed,
+      range: this.span(keyword.range, this.previous().range.end)
+    }
+  }
+
+  private parseFor(): ForStatementNode {
+    const keyword = this.advance()
+    let counter: VariableNode | null = null
+    let start: AMPScriptExpression | null = null
+    let end: AMPScriptExpression | null = null
+    let direction: 'TO' | 'DOWNTO' = 'TO'
+
+    if (this.check('variable')) {
+      counter = this.variableNode(this.advance())
+    } else {
+      this.error(this.peek().range, 'Expected a counter variable after FOR')
+    }
+
+    if (this.checkValue('operator', '=')) {
+      this.advance()
+      start = this.parseExpression()
+    } else {
+      this.error(this.peek().range, 'Expected = after the FOR counter variable')
+    }
+
+    if (this.checkValue('keyword', 'TO') || this.checkValue('keyword', 'DOWNTO')) {
+      direction = this.advance().value as 'TO' | 'DOWNTO'
+      end = this.parseExpression()
+    } else {
+      this.error(this.peek().range, 'Expected TO or DOWNTO in FOR statement')
+    }
+
+    if (this.checkValue('keyword', 'DO')) {
+      this.advance()
+    } else {
+      this.error(this.peek().range, 'Expected DO at the end of the FOR statement')
+    }
+
+    const body = this.parseStatementsUntil(['NEXT'])
+    let nextVariable: VariableNode | null = null
+    let closed = false
+
+    if (this.checkValue('keyword', 'NEXT')) {
+      this.advance()
+      closed = true
+      if (this.check('variable')) {
+        nextVariable = this.variableNode(this.advance())
+        if (counter && nextVariable.name.toLowerCase() !== counter.name.toLowerCase()) {
+          this.error(nextVariable.range, `NEXT ${nextVariable.name} does not match FOR counter ${counter.name}`)
+        }
+      }
+    } else {
+      this.diagnostics.push({
+        rule: 'ampscript-loop-structure',
+        message: 'FOR loop is missing a matching NEXT',
+        severity: 'error',
+        range: keyword.range,
+        fixSuggestion: 'Add missing NEXT statements'
+      })
+    }
+
+    return {
+      type: 'For',
+      keywordRange: keyword.range,
+      counter,
+      start,
+      end,
+      direction,
+      body,
+      nextVariable,
+      closed,
+      range: this.span(keyword.range, this.previous().range.end)
+    }
+  }
+
+  private parseCondition(keyword: 'IF' | 'ELSEIF'): AMPScriptExpression | null {
+    const condition = this.parseExpression()
+
+    if (this.checkValue('keyword', 'THEN')) {
+      this.advance()
+    } else {
+      this.diagnostics.push({
+        rule: 'ampscript-missing-then',
+        message: `${keyword} condition must be followed by THEN`,
+        severity: 'error',
+        range: condition ? condition.range : this.peek().range,
+        fixSuggestion: 'Add THEN after the condition'
+      })
+    }
+
+    return condition
+  }
+
+  // Expressions, lowest precedence first: OR, AND, NOT, comparison, primary
+
+  private parseExpression(): AMPScriptExpression | null {
+    return this.parseOr()
+  }
+
+  private parseOr(): AMPScriptExpression | null {
+    let left = this.parseAnd()
+    while (left && this.checkValue('keyword', 'OR')) {
+      const operator = this.advance()
+      const right = this.parseAnd()
+      if (!right) return left
+      left = this.binary('OR', operator.range, left, right)
+    }
+    return left
+  }
+
+  private parseAnd(): AMPScriptExpression | null {
+    let left = this.parseNot()
+    while (left && this.checkValue('keyword', 'AND')) {
+      const operator = this.advance()
+      const right = this.parseNot()
+      if (!right) return left
+      left = this.binary('AND', operator.range, left, right)
+    }
+    return left
+  }
+
+  private parseNot(): AMPScriptExpression | null {
+    if (this.checkValue('keyword', 'NOT')) {
+      const operator = this.advance()
+      const argument = this.parseNot()
+      if (!argument) return null
+      return { type: 'Unary', operator: 'NOT', argument, range: this.span(operator.range, argument.range.end) }
+    }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): AMPScriptExpression | null {
+    let left = this.parsePrimary()
+
+    while (left && this.check('operator')) {
+      const operator = this.advance()
+      let value = operator.value as BinaryExpressionNode['operator'] | '='
+
+      if (value === '=') {
+        // Single = is assignment; AMPScript comparisons require ==
+        this.diagnostics.push({
+          rule: 'ampscript-comparison',
+          message: 'Use == for comparison, not = (assignment)',
+          severity: 'error',
+          range: operator.range,
+          fixSuggestion: 'Replace = with == for comparison',
+          fix: {
+            kind: 'safe',
+            description: 'Replace = with ==',
+            edits: [rangeEdit(operator.range, '==')]
+          }
+        })
+        value = '=='
+      }
+
+      const right = this.parsePrimary()
+      if (!right) return left
+      left = this.binary(value, operator.range, left, right)
+    }
+
+    return left
+  }
+
+  private parsePrimary(): AMPScriptExpression | null {
+    const token = this.peek()
+
+    switch (token.type) {
+      case 'string':
+        this.advance()
+        return { type: 'String', value: token.value, range: token.range }
+      case 'number':
+        this.advance()
+        return { type: 'Number', value: parseFloat(token.value), raw: token.value, range: token.range }
+      case 'boolean':
+        this.advance()
+        return { type: 'Boolean', value: token.value === 'true', range: token.range }
+      case 'variable':
+        this.advance()
+        return this.variableNode(token)
+      case 'attribute':
+        this.advance()
+        return { type: 'Attribute', name: token.value, bracketed: true, range: token.range }
+      case 'identifier':
+        this.advance()
+        if (this.check('lparen')) {
+          return this.parseCallArguments(token)
+        }
+        return { type: 'Attribute', name: token.value, bracketed: false, range: token.range }
+      case 'lparen': {
+        this.advance()
+        const inner = this.parseExpression()
+        if (this.check('rparen')) {
+          this.advance()
+        } else {
+          this.error(this.peek().range, 'Expected ) to close the parenthesized expression')
+        }
+        return inner
+      }
+    }
+
+    this.error(token.range, `Expected an expression but found ${this.describe(token)}`)
+    return null
+  }
+
+  private parseCallArguments(callee: AMPScriptToken): AMPScriptExpression {
+    const open = this.advance()
+    const args: AMPScriptExpression[] = []
+
+    if (!this.check('rparen')) {
+      do {
+        if (this.check('rparen')) {
+          this.error(this.previous().range, 'Trailing comma in function arguments')
+          break
+        }
+        const arg = this.parseExpression()
+        if (!arg) break
+        args.push(arg)
+      } while (this.match('comma'))
+    }
+
+    let end = args.length > 0 ? args[args.length - 1].range.end : open.range.end
+    if (this.check('rparen')) {
+      end = this.advance().range.end
+    } else {
+      this.diagnostics.push({
+        rule: 'ampscript-parse-error',
+        message: `Missing ) to close call to ${callee.value}`,
+        severity: 'error',
+        range: this.span(callee.range, end),
+        fixSuggestion: 'Add the missing closing parenthesis'
+      })
+    }
+
+    return {
+      type: 'Call',
+      callee: callee.value,
+      calleeRange: callee.range,
+      args,
+      range: this.span(callee.range, end)
+    }
+  }
+
+  // Helpers
+
+  private peekTerminator(): BlockTerminator | undefined {
+    const token = this.peek()
+    if (token.type === 'keyword' && ['ELSEIF', 'ELSE', 'ENDIF', 'NEXT'].includes(token.value)) {
+      return token.value as BlockTerminator
+    }
+    return undefined
+  }
+
+  private reportStrayTerminator(token: AMPScriptToken, terminator: BlockTerminator): void {
+    const isLoop = terminator === 'NEXT'
+    this.diagnostics.push({
+      rule: isLoop ? 'ampscript-loop-structure' : 'ampscript-block-structure',
+      message: isLoop ? 'NEXT without a matching FOR' : `${terminator} without a matching IF`,
+      severity: 'error',
+      range: token.range,
+      fixSuggestion: isLoop ? 'Remove extra NEXT statements' : `Remove extra ${terminator} statements`
+    })
+    if (isLoop && this.check('variable')) {
+      this.advance()
+    }
+  }
+
+  private binary(
+    operator: BinaryExpressionNode['operator'],
+    operatorRange: SourceRange,
+    left: AMPScriptExpression,
+    right: AMPScriptExpression
+  ): BinaryExpressionNode {
+    return { type: 'Binary', operator, operatorRange, left, right, range: this.span(left.range, right.range.end) }
+  }
+
+  private variableNode(token: AMPScriptToken): VariableNode {
+    return { type: 'Variable', name: token.value, range: token.range }
+  }
+
+  private span(start: SourceRange, end: SourceRange['end']): SourceRange {
+    return { start: start.start, end }
+  }
+
+  private error(range: SourceRange, message: string): void {
+    this.diagnostics.push({
+      rule: 'ampscript-parse-error',
+      message,
+      severity: 'error',
+      range,
+      fixSuggestion: 'Check the statement syntax against the AMPScript reference'
+    })
+  }
+
+  private describe(token: AMPScriptToken): string {
+    if (token.type === 'eof') return 'end of input'
+    if (token.type === 'content') return 'content'
+    return `'${token.value}'`
+  }
+
+  private peek(): AMPScriptToken {
+    return this.tokens[this.index]
+  }
+
+  private previous(): AMPScriptToken {
+    return this.tokens[Math.max(0, this.index - 1)]
+  }
+
+  private advance(): AMPScriptToken {
+    const token = this.tokens[this.index]
+    if (token.type !== 'eof') {
+      this.index++
+    }
+    return token
+  }
+
+  private check(type: AMPScriptTokenType): boolean {
+    return this.peek().type === type
+  }
+
+  private checkValue(type: AMPScriptTokenType, value: string): boolean {
+    const token = this.peek()
+    return token.type === type && token.value === value
+  }
+
+  private match(type: AMPScriptTokenType): boolean {
+    if (this.check(type)) {
+      this.advance()
+      return true
+    }
+    return false
+  }
+}
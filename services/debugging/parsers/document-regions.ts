@@ -0,0 +1,217 @@
+import { AnalysisLanguage, CodeLanguage, DocumentLanguage } from '../../../types/debugging'
+import { LineIndex } from './source-text'
+
+// Languages that can appear inside a CloudPage or email document
+export type EmbeddedLanguage = Exclude<CodeLanguage, 'sql'>
+
+/**
+ * Span of a composite document written in one language. Spans of the same
+ * group come from one element, e.g. the CSS of a <style> element on either
+ * side of an inline AMPScript expression.
+ */
+export interface DocumentRegion {
+  language: EmbeddedLanguage
+  start: number
+  end: number
+  group: number
+}
+
+interface Segment {
+  virtualStart: number
+  originalStart: number
+  length: number
+}
+
+const DOCUMENT_LANGUAGES: DocumentLanguage[] = ['cloudpage', 'email']
+
+const ELEMENT_PATTERN = /%%\[|%%=|<(script|style)\b([^>]*)>/gi
+const ELEMENT_CLOSE_PATTERNS = {
+  script: /<\/script\s*>/gi,
+  style: /<\/style\s*>/gi
+}
+
+const CLIENT_SCRIPT_TYPE_PATTERN = /\btype\s*=\s*["']?([^"'\s>]+)/i
+const CLIENT_SCRIPT_TYPES = ['text/javascript', 'application/javascript', 'module']
+
+// Order in which the embedded languages of a document are analysed
+const EXTRACTION_ORDER: EmbeddedLanguage[] = ['html', 'css', 'javascript', 'ampscript', 'ssjs']
+
+export function isDocumentLanguage(language: AnalysisLanguage): language is DocumentLanguage {
+  return (DOCUMENT_LANGUAGES as string[]).includes(language)
+}
+
+/**
+ * Splits a CloudPage or email into the regions of each embedded language.
+ * The regions cover the whole document without overlapping:
+ *
+ *   %%[ ]%%, %%= =%% and <script language="ampscript">   ampscript
+ *   contents of <script runat="server">                   ssjs
+ *   contents of <script> and <style>                      javascript, css
+ *   everything else                                       html
+ *
+ * AMPScript inside <style> and client <script> elements is split out of the
+ * CSS and JavaScript. Scripts of other types (templates, JSON) stay HTML.
+ */
+export function splitDocument(source: string): DocumentRegion[] {
+  const regions: DocumentRegion[] = []
+  let group = 0
+  let pos = 0
+
+  const push = (language: EmbeddedLanguage, start: number, end: number, regionGroup = group++) => {
+    if (end > start) regions.push({ language, start, end, group: regionGroup })
+  }
+
+  ELEMENT_PATTERN.lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = ELEMENT_PATTERN.exec(source)) !== null) {
+    const start = match.index
+    push('html', pos, start)
+
+    if (!match[1]) {
+      const end = findClose(source, match[0] === '%%[' ? ']%%' : '=%%', start + 3)
+      push('ampscript', start, end)
+      pos = end
+    } else {
+      const tag = match[1].toLowerCase() as 'script' | 'style'
+      const attributes = match[2]
+      const contentStart = start + match[0].length
+      const close = ELEMENT_CLOSE_PATTERNS[tag]
+      close.lastIndex = contentStart
+      const closeMatch = close.exec(source)
+      const contentEnd = closeMatch ? closeMatch.index : source.length
+      const end = closeMatch ? contentEnd + closeMatch[0].length : source.length
+
+      const language = tag === 'style' ? 'css' : scriptLanguage(attributes)
+      if (language === 'ampscript') {
+        push(language, start, end)
+      } else if (language === 'html') {
+        push('html', start, end)
+      } else if (language === 'ssjs') {
+        // Server scripts are SSJS as a whole; inline AMPScript delimiters in them are plain text
+        push('html', start, contentStart)
+        push('ssjs', contentStart, contentEnd)
+        push('html', contentEnd, end)
+      } else {
+        push('html', start, contentStart)
+        pushEmbedded(source, language, contentStart, contentEnd, group++, push)
+        push('html', contentEnd, end)
+      }
+      pos = end
+    }
+    ELEMENT_PATTERN.lastIndex = pos
+  }
+
+  push('html', pos, source.length)
+  return regions
+}
+
+/**
+ * The code of one embedded language, cut out of a composite document. Maps
+ * positions in the extracted code back to the document.
+ */
+export class EmbeddedSource {
+  readonly code: string
+  private readonly segments: Segment[] = []
+  private readonly lineIndex: LineIndex
+
+  constructor(
+    readonly language: EmbeddedLanguage,
+    source: string,
+    regions: DocumentRegion[],
+    private readonly documentIndex: LineIndex
+  ) {
+    let code = ''
+    regions.forEach((region, index) => {
+      // Separate regions of different elements so statements do not run together
+      if (index > 0 && region.group !== regions[index - 1].group && separatesGroups(language)) {
+        code += '\n'
+      }
+      this.segments.push({ virtualStart: code.length, originalStart: region.start, length: region.end - region.start })
+      code += source.slice(region.start, region.end)
+    })
+    this.code = code
+    this.lineIndex = new LineIndex(code)
+  }
+
+  /**
+   * Converts an offset in the extracted code to an offset in the document.
+   * Offsets in a separator map to the end of the preceding region.
+   */
+  toDocumentOffset(offset: number): number {
+    let segment = this.segments[0]
+    for (const candidate of this.segments) {
+      if (candidate.virtualStart > offset) break
+      segment = candidate
+    }
+    return segment.originalStart + Math.min(Math.max(0, offset - segment.virtualStart), segment.length)
+  }
+
+  toDocumentPosition(line: number, column: number): { line: number, column: number } {
+    const position = this.documentIndex.positionAt(this.toDocumentOffset(this.lineIndex.offsetAt(line, column)))
+    return { line: position.line, column: position.column }
+  }
+}
+
+/**
+ * Extracts the code of each embedded language found in the document. The
+ * AMPScript source keeps the surrounding HTML as content so stray delimiters
+ * are still reported.
+ */
+export function extractEmbeddedSources(source: string): EmbeddedSource[] {
+  const regions = splitDocument(source)
+  const documentIndex = new LineIndex(source)
+
+  return EXTRACTION_ORDER.flatMap(language => {
+    if (!regions.some(region => region.language === language)) return []
+    const included = regions.filter(region =>
+      region.language === language || (language === 'ampscript' && region.language === 'html')
+    )
+    return [new EmbeddedSource(language, source, included, documentIndex)]
+  })
+}
+
+function separatesGroups(language: EmbeddedLanguage): boolean {
+  return language !== 'html' && language !== 'ampscript'
+}
+
+function scriptLanguage(attributes: string): 'ampscript' | 'ssjs' | 'javascript' | 'html' {
+  if (/runat\s*=\s*["']?server/i.test(attributes)) {
+    return /language\s*=\s*["']?ampscript/i.test(attributes) ? 'ampscript' : 'ssjs'
+  }
+  const type = CLIENT_SCRIPT_TYPE_PATTERN.exec(attributes)?.[1].toLowerCase()
+  return !type || CLIENT_SCRIPT_TYPES.includes(type) ? 'javascript' : 'html'
+}
+
+// Splits inline AMPScript out of the contents of a <style> or client <script> element
+function pushEmbedded(
+  source: string,
+  language: 'css' | 'javascript',
+  start: number,
+  end: number,
+  group: number,
+  push: (language: EmbeddedLanguage, start: number, end: number, group?: number) => void
+): void {
+  let pos = start
+  let open = source.indexOf('%%', pos)
+
+  while (open !== -1 && open < end) {
+    const delimiter = source.slice(open, open + 3)
+    if (delimiter !== '%%[' && delimiter !== '%%=') {
+      open = source.indexOf('%%', open + 2)
+      continue
+    }
+    const close = Math.min(findClose(source, delimiter === '%%[' ? ']%%' : '=%%', open + 3), end)
+    push(language, pos, open, group)
+    push('ampscript', open, close)
+    pos = close
+    open = source.indexOf('%%', pos)
+  }
+
+  push(language, pos, end, group)
+}
+
+// Unclosed AMPScript runs to the end of the document, as in the AMPScript lexer
+function findClose(source: string, delimiter: string, from: number): number {
+  const index = source.indexOf(delimiter, from)
+  return index === -1 ? source.length : index + delimiter.length
+}
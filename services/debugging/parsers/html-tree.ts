@@ -0,0 +1,158 @@
+/**
+ * Element of an HTML document with the source offsets needed to edit its
+ * start tag in place
+ */
+export interface HtmlElement {
+  name: string
+  attributes: Map<string, string>
+  // Offsets of the start tag, from "<" to after ">"
+  start: number
+  end: number
+  // Value range of the style attribute, without the quotes
+  style?: { start: number, end: number, quoted: boolean }
+  parent?: HtmlElement
+  children: HtmlElement[]
+}
+
+const VOID_ELEMENTS = [
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr'
+]
+
+const RAW_TEXT_ELEMENTS = ['script', 'style', 'textarea', 'title']
+
+// Start tags that close an open element of the listed names
+const IMPLIED_END_TAGS: Record<string, string[]> = {
+  li: ['li'],
+  p: ['p'],
+  option: ['option'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  tr: ['td', 'th', 'tr']
+}
+
+const ATTRIBUTE_PATTERN = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+
+/**
+ * Builds the element tree of an HTML document, e.g. an email template.
+ * AMPScript blocks, inline expressions and personalization strings are
+ * opaque: markup inside them is not parsed, and they may appear inside start
+ * tags. Comments, including Outlook conditional comments, are skipped.
+ * Returns the top-level elements.
+ */
+export function parseHtmlTree(html: string): HtmlElement[] {
+  const text = maskAMPScript(html)
+  const roots: HtmlElement[] = []
+  const open: HtmlElement[] = []
+  let pos = 0
+
+  while (pos < text.length) {
+    const lt = text.indexOf('<', pos)
+    if (lt === -1) break
+
+    if (text.startsWith('<!--', lt)) {
+      pos = skipTo(text, '-->', lt + 4)
+      continue
+    }
+    if (text[lt + 1] === '!' || text[lt + 1] === '?') {
+      pos = skipTo(text, '>', lt + 2)
+      continue
+    }
+
+    const close = /^<\/([a-zA-Z][\w:-]*)[^>]*>/.exec(text.slice(lt, lt + 200))
+    if (close) {
+      const name = close[1].toLowerCase()
+      const index = open.map(element => element.name).lastIndexOf(name)
+      if (index !== -1) open.length = index
+      pos = lt + close[0].length
+      continue
+    }
+
+    const tag = /^<([a-zA-Z][\w:-]*)/.exec(text.slice(lt, lt + 100))
+    if (!tag) {
+      pos = lt + 1
+      continue
+    }
+
+    const end = findTagEnd(text, lt + tag[0].length)
+    const name = tag[1].toLowerCase()
+    const element: HtmlElement = { name, attributes: new Map(), start: lt, end, children: [] }
+    readAttributes(html, text, lt + tag[0].length, end, element)
+
+    const implied = IMPLIED_END_TAGS[name]
+    while (implied && open.length > 0 && implied.includes(open[open.length - 1].name)) open.pop()
+
+    const parent = open[open.length - 1]
+    if (parent) {
+      element.parent = parent
+      parent.children.push(element)
+    } else {
+      roots.push(element)
+    }
+
+    pos = end
+    if (RAW_TEXT_ELEMENTS.includes(name)) {
+      const closeIndex = text.toLowerCase().indexOf(`</${name}`, end)
+      pos = closeIndex === -1 ? text.length : closeIndex
+    } else if (!VOID_ELEMENTS.includes(name) && !text.slice(lt, end).endsWith('/>')) {
+      open.push(element)
+    }
+  }
+
+  return roots
+}
+
+/**
+ * Every element of the tree in document order
+ */
+export function flattenHtmlTree(roots: HtmlElement[]): HtmlElement[] {
+  return roots.flatMap(element => [element, ...flattenHtmlTree(element.children)])
+}
+
+/**
+ * Replaces AMPScript blocks, inline expressions and personalization strings
+ * with characters that carry no markup meaning, keeping offsets
+ */
+export function maskAMPScript(source: string): string {
+  return source.replace(/%%\[[\s\S]*?(?:\]%%|$)|%%=[\s\S]*?(?:=%%|$)|%%[\w-]+%%/g, match => match.replace(/[^\n]/g, '_'))
+}
+
+function findTagEnd(text: string, from: number): number {
+  let quote = ''
+  for (let i = from; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === quote) quote = ''
+    } else if (char === '"' || char === '\'') {
+      quote = char
+    } else if (char === '>') {
+      return i + 1
+    }
+  }
+  return text.length
+}
+
+function readAttributes(html: string, text: string, from: number, to: number, element: HtmlElement): void {
+  const segment = text.slice(from, to)
+  ATTRIBUTE_PATTERN.lastIndex = 0
+
+  let match: RegExpExecArray | null
+  while ((match = ATTRIBUTE_PATTERN.exec(segment))) {
+    const name = match[1].toLowerCase()
+    const value = match[2] ?? match[3] ?? match[4] ?? ''
+    const quoted = match[2] !== undefined || match[3] !== undefined
+    const valueEnd = from + match.index + match[0].length - (quoted ? 1 : 0)
+    const valueStart = valueEnd - value.length
+
+    // The original text, with any AMPScript in the value restored
+    element.attributes.set(name, html.slice(valueStart, valueEnd))
+    if (name === 'style' && match[0].includes('=')) {
+      element.style = { start: valueStart, end: valueEnd, quoted }
+    }
+  }
+}
+
+function skipTo(text: string, delimiter: string, from: number): number {
+  const index = text.indexOf(delimiter, from)
+  return index === -1 ? text.length : index + delimiter.length
+}
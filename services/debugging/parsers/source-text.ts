@@ -0,0 +1,100 @@
+import { CodeFix, ErrorSeverity, SourcePosition, SourceRange, TextEdit } from '../../../types/debugging'
+
+/**
+ * Diagnostic produced while tokenizing or parsing source code
+ */
+export interface ParseDiagnostic {
+  rule: string
+  message: string
+  severity: ErrorSeverity
+  range: SourceRange
+  fixSuggestion?: string
+  fix?: CodeFix
+}
+
+/**
+ * Maps character offsets to 1-based line and column positions
+ */
+export class LineIndex {
+  private readonly lineStarts: number[] = [0]
+
+  constructor(private readonly text: string) {
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') {
+        this.lineStarts.push(i + 1)
+      }
+    }
+  }
+
+  get lineCount(): number {
+    return this.lineStarts.length
+  }
+
+  positionAt(offset: number): SourcePosition {
+    const clamped = Math.max(0, Math.min(offset, this.text.length))
+
+    let low = 0
+    let high = this.lineStarts.length - 1
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2)
+      if (this.lineStarts[mid] <= clamped) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+
+    return {
+      offset: clamped,
+      line: low + 1,
+      column: clamped - this.lineStarts[low] + 1
+    }
+  }
+
+  rangeOf(start: number, end: number): SourceRange {
+    return {
+      start: this.positionAt(start),
+      end: this.positionAt(end)
+    }
+  }
+
+  offsetAt(line: number, column: number): number {
+    const lineIndex = Math.max(0, Math.min(line - 1, this.lineStarts.length - 1))
+    return Math.min(this.lineStarts[lineIndex] + Math.max(0, column - 1), this.text.length)
+  }
+}
+
+/**
+ * Converts a source range into the location fields carried by DebugError
+ */
+export function rangeToLocation(range: SourceRange): {
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+} {
+  return {
+    line: range.start.line,
+    column: range.start.column,
+    endLine: range.end.line,
+    endColumn: range.end.column
+  }
+}
+
+export function sliceRange(source: string, range: SourceRange): string {
+  return source.slice(range.start.offset, range.end.offset)
+}
+
+/**
+ * Edit that replaces the text of a source range
+ */
+export function rangeEdit(range: SourceRange, replacement: string): TextEdit {
+  return { ...rangeToLocation(range), replacement }
+}
+
+/**
+ * Edit within a single line, for validators that scan code line by line
+ */
+export function lineEdit(line: number, column: number, endColumn: number, replacement: string): TextEdit {
+  return { line, column, endLine: line, endColumn, replacement }
+}
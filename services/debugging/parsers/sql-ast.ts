@@ -0,0 +1,312 @@
+import { SourceRange } from '../../../types/debugging'
+
+// Syntax tree for the T-SQL subset accepted by Automation Studio query
+// activities and Query Studio. Nodes carry the source range they came from.
+
+export interface SqlNodeBase {
+  range: SourceRange
+}
+
+// Expressions
+
+export interface SqlColumnRef extends SqlNodeBase {
+  type: 'Column'
+  name: string
+  qualifier?: string
+  qualifierRange?: SourceRange
+}
+
+export interface SqlLiteral extends SqlNodeBase {
+  type: 'Literal'
+  kind: 'string' | 'number' | 'null' | 'datePart'
+  value: string
+}
+
+export interface SqlVariable extends SqlNodeBase {
+  type: 'Variable'
+  name: string
+}
+
+export interface SqlStar extends SqlNodeBase {
+  type: 'Star'
+  qualifier?: string
+}
+
+export interface SqlWindowSpec extends SqlNodeBase {
+  partitionBy: SqlExpression[]
+  orderBy: SqlOrderByItem[]
+}
+
+export interface SqlFunctionCall extends SqlNodeBase {
+  type: 'Function'
+  name: string
+  nameRange: SourceRange
+  args: SqlExpression[]
+  distinct: boolean
+  dataType?: string
+  over?: SqlWindowSpec
+}
+
+export interface SqlBinaryExpression extends SqlNodeBase {
+  type: 'Binary'
+  operator: string
+  operatorRange: SourceRange
+  left: SqlExpression
+  right: SqlExpression
+}
+
+export interface SqlUnaryExpression extends SqlNodeBase {
+  type: 'Unary'
+  operator: 'NOT' | '-' | '+'
+  argument: SqlExpression
+}
+
+export interface SqlIsNullExpression extends SqlNodeBase {
+  type: 'IsNull'
+  expression: SqlExpression
+  negated: boolean
+}
+
+export interface SqlBetweenExpression extends SqlNodeBase {
+  type: 'Between'
+  expression: SqlExpression
+  low: SqlExpression
+  high: SqlExpression
+  negated: boolean
+}
+
+export interface SqlInExpression extends SqlNodeBase {
+  type: 'In'
+  expression: SqlExpression
+  values: SqlExpression[]
+  query?: SqlQuery
+  negated: boolean
+}
+
+export interface SqlExistsExpression extends SqlNodeBase {
+  type: 'Exists'
+  query: SqlQuery
+}
+
+export interface SqlSubqueryExpression extends SqlNodeBase {
+  type: 'Subquery'
+  query: SqlQuery
+}
+
+export interface SqlCaseExpression extends SqlNodeBase {
+  type: 'Case'
+  operand?: SqlExpression
+  whens: Array<{ when: SqlExpression, then: SqlExpression }>
+  elseResult?: SqlExpression
+}
+
+export type SqlExpression =
+  | SqlColumnRef
+  | SqlLiteral
+  | SqlVariable
+  | SqlStar
+  | SqlFunctionCall
+  | SqlBinaryExpression
+  | SqlUnaryExpression
+  | SqlIsNullExpression
+  | SqlBetweenExpression
+  | SqlInExpression
+  | SqlExistsExpression
+  | SqlSubqueryExpression
+  | SqlCaseExpression
+
+// Table sources
+
+export interface SqlTableReference extends SqlNodeBase {
+  type: 'Table'
+  name: string
+  parts: string[]
+  alias?: string
+  temporary: boolean
+}
+
+export interface SqlDerivedTable extends SqlNodeBase {
+  type: 'Derived'
+  query: SqlQuery
+  alias?: string
+}
+
+export interface SqlJoin extends SqlNodeBase {
+  type: 'Join'
+  joinType: 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS'
+  keywordRange: SourceRange
+  left: SqlTableSource
+  right: SqlTableSource
+  on?: SqlExpression
+}
+
+export type SqlTableSource = SqlTableReference | SqlDerivedTable | SqlJoin
+
+// Queries
+
+export interface SqlSelectItem extends SqlNodeBase {
+  expression: SqlExpression
+  alias?: string
+}
+
+export interface SqlOrderByItem extends SqlNodeBase {
+  expression: SqlExpression
+  direction: 'ASC' | 'DESC'
+}
+
+export interface SqlTopClause extends SqlNodeBase {
+  value: SqlExpression
+  percent: boolean
+  withTies: boolean
+}
+
+export interface SqlSelectCore extends SqlNodeBase {
+  type: 'SelectCore'
+  keywordRange: SourceRange
+  distinct: boolean
+  top?: SqlTopClause
+  columns: SqlSelectItem[]
+  into?: SqlTableReference
+  from: SqlTableSource[]
+  where?: SqlExpression
+  groupBy: SqlExpression[]
+  having?: SqlExpression
+  orderBy: SqlOrderByItem[]
+}
+
+export interface SqlSetOperation extends SqlNodeBase {
+  type: 'SetOperation'
+  operator: 'UNION' | 'UNION ALL' | 'INTERSECT' | 'EXCEPT'
+  operatorRange: SourceRange
+  left: SqlQuery
+  right: SqlQuery
+  orderBy: SqlOrderByItem[]
+}
+
+export type SqlQuery = SqlSelectCore | SqlSetOperation
+
+export interface SqlCommonTableExpression extends SqlNodeBase {
+  name: string
+  columns: string[]
+  query: SqlQuery
+}
+
+export interface SqlSelectStatement extends SqlNodeBase {
+  type: 'Select'
+  ctes: SqlCommonTableExpression[]
+  query: SqlQuery
+}
+
+export interface SqlUnsupportedStatement extends SqlNodeBase {
+  type: 'Unsupported'
+  keyword: string
+}
+
+export type SqlStatement = SqlSelectStatement | SqlUnsupportedStatement
+
+export interface SqlScript extends SqlNodeBase {
+  statements: SqlStatement[]
+}
+
+/**
+ * Returns the immediate child expressions of an expression. Subqueries are
+ * not entered; use sqlExpressionSubqueries to reach them.
+ */
+export function sqlExpressionChildren(expression: SqlExpression): SqlExpression[] {
+  switch (expression.type) {
+    case 'Function': {
+      const children = [...expression.args]
+      if (expression.over) {
+        children.push(...expression.over.partitionBy, ...expression.over.orderBy.map(item => item.expression))
+      }
+      return children
+    }
+    case 'Binary':
+      return [expression.left, expression.right]
+    case 'Unary':
+      return [expression.argument]
+    case 'IsNull':
+      return [expression.expression]
+    case 'Between':
+      return [expression.expression, expression.low, expression.high]
+    case 'In':
+      return [expression.expression, ...expression.values]
+    case 'Case': {
+      const children: SqlExpression[] = []
+      if (expression.operand) children.push(expression.operand)
+      expression.whens.forEach(clause => children.push(clause.when, clause.then))
+      if (expression.elseResult) children.push(expression.elseResult)
+      return children
+    }
+    default:
+      return []
+  }
+}
+
+/**
+ * Returns subqueries that appear directly inside an expression tree
+ */
+export function sqlExpressionSubqueries(expression: SqlExpression): SqlQuery[] {
+  const queries: SqlQuery[] = []
+  walkSqlExpression(expression, node => {
+    if (node.type === 'Subquery' || node.type === 'Exists') {
+      queries.push(node.query)
+    } else if (node.type === 'In' && node.query) {
+      queries.push(node.query)
+    }
+  })
+  return queries
+}
+
+/**
+ * Visits an expression and its descendants without entering subqueries
+ */
+export function walkSqlExpression(
+  expression: SqlExpression,
+  visit: (node: SqlExpression, parents: SqlExpression[]) => void,
+  parents: SqlExpression[] = []
+): void {
+  visit(expression, parents)
+  const nextParents = [...parents, expression]
+  sqlExpressionChildren(expression).forEach(child => walkSqlExpression(child, visit, nextParents))
+}
+
+/**
+ * Lists the SELECT cores of a query, flattening set operations
+ */
+export function sqlSelectCores(query: SqlQuery): SqlSelectCore[] {
+  return query.type === 'SelectCore' ? [query] : [...sqlSelectCores(query.left), ...sqlSelectCores(query.right)]
+}
+
+/**
+ * Lists the base tables and derived tables of a FROM clause, flattening joins
+ */
+export function sqlFlattenSources(sources: SqlTableSource[]): Array<SqlTableReference | SqlDerivedTable> {
+  const result: Array<SqlTableReference | SqlDerivedTable> = []
+  const visit = (source: SqlTableSource) => {
+    if (source.type === 'Join') {
+      visit(source.left)
+      visit(source.right)
+    } else {
+      result.push(source)
+    }
+  }
+  sources.forEach(visit)
+  return result
+}
+
+/**
+ * Lists the joins of a FROM clause in source order
+ */
+export function sqlJoins(sources: SqlTableSource[]): SqlJoin[] {
+  const result: SqlJoin[] = []
+  const visit = (source: SqlTableSource) => {
+    if (source.type === 'Join') {
+      visit(source.left)
+      result.push(source)
+      visit(source.right)
+    }
+  }
+  sources.forEach(visit)
+  return result
+}
@@ -0,0 +1,225 @@
+import { SourceRange } from '../../../types/debugging'
+import { LineIndex, ParseDiagnostic, rangeEdit } from './source-text'
+
+export type SqlTokenType =
+  | 'keyword'
+  | 'identifier'
+  | 'string'
+  | 'number'
+  | 'variable'
+  | 'tempTable'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'dot'
+  | 'semicolon'
+  | 'eof'
+
+export interface SqlToken {
+  type: SqlTokenType
+  value: string
+  range: SourceRange
+  quoted?: boolean
+}
+
+export interface SqlComment {
+  text: string
+  range: SourceRange
+}
+
+export interface SqlLexResult {
+  tokens: SqlToken[]
+  comments: SqlComment[]
+  diagnostics: ParseDiagnostic[]
+  lineIndex: LineIndex
+}
+
+// Reserved words that cannot be used as unquoted aliases
+export const SQL_RESERVED_WORDS = [
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER', 'JOIN', 'INNER', 'LEFT', 'RIGHT',
+  'FULL', 'OUTER', 'CROSS', 'APPLY', 'ON', 'AS', 'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'LIKE',
+  'BETWEEN', 'EXISTS', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'UNION', 'ALL', 'INTERSECT',
+  'EXCEPT', 'DISTINCT', 'TOP', 'PERCENT', 'WITH', 'INTO', 'INSERT', 'UPDATE', 'DELETE', 'CREATE',
+  'ALTER', 'DROP', 'DECLARE', 'SET', 'EXEC', 'EXECUTE', 'TRUNCATE', 'MERGE', 'ASC', 'DESC',
+  'OVER', 'PARTITION', 'LIMIT', 'OFFSET', 'FETCH', 'VALUES', 'USE', 'GO', 'BEGIN', 'WHILE', 'IF'
+]
+
+const RESERVED = new Set(SQL_RESERVED_WORDS)
+
+/**
+ * Tokenizes T-SQL. Keywords are upper-cased; quoted identifiers ([Name] or
+ * "Name") keep their original text and are flagged as quoted.
+ */
+export function tokenizeSql(source: string): SqlLexResult {
+  const lineIndex = new LineIndex(source)
+  const tokens: SqlToken[] = []
+  const comments: SqlComment[] = []
+  const diagnostics: ParseDiagnostic[] = []
+  let pos = 0
+
+  const push = (type: SqlTokenType, value: string, start: number, end: number, quoted?: boolean) => {
+    tokens.push({ type, value, range: lineIndex.rangeOf(start, end), ...(quoted ? { quoted } : {}) })
+  }
+
+  while (pos < source.length) {
+    const char = source[pos]
+    const next = source[pos + 1] || ''
+
+    if (/\s/.test(char)) {
+      pos++
+      continue
+    }
+
+    if (char === '-' && next === '-') {
+      const end = source.indexOf('\n', pos)
+      const stop = end === -1 ? source.length : end
+      comments.push({ text: source.slice(pos, stop), range: lineIndex.rangeOf(pos, stop) })
+      pos = stop
+      continue
+    }
+
+    if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', pos + 2)
+      const stop = end === -1 ? source.length : end + 2
+      if (end === -1) {
+        diagnostics.push({
+          rule: 'sql-unterminated-comment',
+          message: 'Comment is never closed with */',
+          severity: 'error',
+          range: lineIndex.rangeOf(pos, pos + 2),
+          fixSuggestion: 'Add */ to close the comment',
+          fix: {
+            // The comment may have been meant to end before the end of the code
+            kind: 'unsafe',
+            description: 'Close the comment at the end of the code',
+            edits: [rangeEdit(lineIndex.rangeOf(source.length, source.length), ' */')]
+          }
+        })
+      }
+      comments.push({ text: source.slice(pos, stop), range: lineIndex.rangeOf(pos, stop) })
+      pos = stop
+      continue
+    }
+
+    if (char === "'" || ((char === 'N' || char === 'n') && next === "'")) {
+      const start = pos
+      let i = char === "'" ? pos + 1 : pos + 2
+      let value = ''
+      let closed = false
+      while (i < source.length) {
+        if (source[i] === "'") {
+          if (source[i + 1] === "'") {
+            value += "'"
+            i += 2
+            continue
+          }
+          closed = true
+          i++
+          break
+        }
+        value += source[i]
+        i++
+      }
+      if (!closed) {
+        diagnostics.push({
+          rule: 'sql-unterminated-string',
+          message: 'String literal is never closed',
+          severity: 'error',
+          range: lineIndex.rangeOf(start, i),
+          fixSuggestion: "Add a closing ' to the string"
+        })
+      }
+      push('string', value, start, i)
+      pos = i
+      continue
+    }
+
+    if (char === '[' || char === '"') {
+      const close = char === '[' ? ']' : '"'
+      const end = source.indexOf(close, pos + 1)
+      if (end === -1) {
+        diagnostics.push({
+          rule: 'sql-parse-error',
+          message: `Quoted identifier is never closed with ${close}`,
+          severity: 'error',
+          range: lineIndex.rangeOf(pos, pos + 1),
+          fixSuggestion: `Add ${close} to close the identifier`
+        })
+        push('identifier', source.slice(pos + 1), pos, source.length, true)
+        pos = source.length
+        continue
+      }
+      push('identifier', source.slice(pos + 1, end), pos, end + 1, true)
+      pos = end + 1
+      continue
+    }
+
+    if (/\d/.test(char) || (char === '.' && /\d/.test(next))) {
+      const match = /\d*\.?\d+(?:[eE][+-]?\d+)?/y
+      match.lastIndex = pos
+      const result = match.exec(source)!
+      push('number', result[0], pos, pos + result[0].length)
+      pos += result[0].length
+      continue
+    }
+
+    if (char === '@' || char === '#') {
+      const match = /[@#]{1,2}[\w$#@]*/y
+      match.lastIndex = pos
+      const result = match.exec(source)!
+      push(char === '@' ? 'variable' : 'tempTable', result[0], pos, pos + result[0].length)
+      pos += result[0].length
+      continue
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /[A-Za-z_][\w$#@]*/y
+      match.lastIndex = pos
+      const word = match.exec(source)![0]
+      const upper = word.toUpperCase()
+      if (RESERVED.has(upper)) {
+        push('keyword', upper, pos, pos + word.length)
+      } else {
+        push('identifier', word, pos, pos + word.length)
+      }
+      pos += word.length
+      continue
+    }
+
+    const operator = ['<>', '!=', '<=', '>=', '!<', '!>', '=', '<', '>', '+', '-', '*', '/', '%']
+      .find(op => source.startsWith(op, pos))
+    if (operator) {
+      push('operator', operator === '!=' ? '<>' : operator, pos, pos + operator.length)
+      pos += operator.length
+      continue
+    }
+
+    const punctuation: Record<string, SqlTokenType> = {
+      '(': 'lparen', ')': 'rparen', ',': 'comma', '.': 'dot', ';': 'semicolon'
+    }
+    if (punctuation[char]) {
+      push(punctuation[char], char, pos, pos + 1)
+      pos++
+      continue
+    }
+
+    diagnostics.push({
+      rule: 'sql-parse-error',
+      message: `Unexpected character '${char}'`,
+      severity: 'error',
+      range: lineIndex.rangeOf(pos, pos + 1),
+      fixSuggestion: 'Remove the character',
+      fix: {
+        kind: 'unsafe',
+        description: `Remove '${char}'`,
+        edits: [rangeEdit(lineIndex.rangeOf(pos, pos + 1), '')]
+      }
+    })
+    pos++
+  }
+
+  push('eof', '', source.length, source.length)
+
+  return { tokens, comments, diagnostics, lineIndex }
+}
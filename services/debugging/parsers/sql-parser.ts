@@ -0,0 +1,999 @@
+import { SourcePosition, SourceRange } from '../../../types/debugging'
+import { LineIndex, ParseDiagnostic } from './source-text'
+import { SqlComment, SqlToken, SqlTokenType, tokenizeSql } from './sql-lexer'
+import {
+  SqlCommonTableExpression,
+  SqlExpression,
+  SqlFunctionCall,
+  SqlJoin,
+  SqlOrderByItem,
+  SqlQuery,
+  SqlScript,
+  SqlSelectCore,
+  SqlSelectItem,
+  SqlStatement,
+  SqlTableReference,
+  SqlTableSource,
+  SqlTopClause,
+  SqlWindowSpec
+} from './sql-ast'
+
+export interface SqlParseResult {
+  script: SqlScript
+  comments: SqlComment[]
+  diagnostics: ParseDiagnostic[]
+  lineIndex: LineIndex
+}
+
+// Statements other than SELECT that the parser recognises but SFMC rejects
+const UNSUPPORTED_STATEMENTS = [
+  'INSERT', 'UPDATE', 'DELETE', 'CREATE', 'ALTER', 'DROP', 'DECLARE', 'SET', 'EXEC', 'EXECUTE',
+  'TRUNCATE', 'MERGE', 'USE', 'GO', 'BEGIN', 'WHILE', 'IF'
+]
+
+// Keywords that belong to an unsupported statement rather than starting a new one
+const STATEMENT_CONTINUATIONS: Record<string, string[]> = {
+  INSERT: ['SELECT', 'WITH'],
+  UPDATE: ['SET'],
+  MERGE: ['UPDATE', 'INSERT', 'DELETE', 'SET'],
+  CREATE: ['SELECT', 'WITH', 'BEGIN'],
+  ALTER: ['SELECT', 'WITH', 'BEGIN', 'SET']
+}
+
+// Functions whose first argument is a date part name such as DAY or MONTH
+const DATE_PART_FUNCTIONS = ['DATEADD', 'DATEDIFF', 'DATEDIFF_BIG', 'DATEPART', 'DATENAME', 'DATETRUNC']
+
+const CLAUSE_KEYWORDS = ['FROM', 'WHERE', 'GROUP', 'HAVING', 'ORDER', 'UNION', 'INTERSECT', 'EXCEPT', 'INTO']
+
+const JOIN_KEYWORDS = ['JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS']
+
+const COMPARISON_OPERATORS = ['=', '<>', '<', '>', '<=', '>=', '!<', '!>']
+
+/**
+ * Parses a T-SQL script into statements. Recovers from errors at statement
+ * and clause boundaries so a best-effort tree is always returned.
+ */
+export function parseSql(source: string): SqlParseResult {
+  const lexed = tokenizeSql(source)
+  const parser = new SqlParser(lexed.tokens, lexed.diagnostics)
+  const statements = parser.parseScript()
+
+  return {
+    script: { statements, range: lexed.lineIndex.rangeOf(0, source.length) },
+    comments: lexed.comments,
+    diagnostics: lexed.diagnostics,
+    lineIndex: lexed.lineIndex
+  }
+}
+
+class SqlParser {
+  private index = 0
+
+  constructor(
+    private readonly tokens: SqlToken[],
+    private readonly diagnostics: ParseDiagnostic[]
+  ) {}
+
+  parseScript(): SqlStatement[] {
+    const statements: SqlStatement[] = []
+
+    while (!this.check('eof')) {
+      if (this.match('semicolon')) continue
+
+      const start = this.index
+      const statement = this.parseStatement()
+      if (statement) statements.push(statement)
+
+      if (!this.check('semicolon') && !this.check('eof')) {
+        const token = this.peek()
+        if (!this.isStatementStart(token)) {
+          this.error(token.range, `Unexpected ${this.describe(token)}`)
+          this.skipToStatementEnd()
+        }
+      }
+      if (this.index === start) this.advance()
+    }
+
+    return statements
+  }
+
+  private parseStatement(): SqlStatement | null {
+    const token = this.peek()
+
+    if (this.checkKeyword('WITH') || this.checkKeyword('SELECT') || this.check('lparen')) {
+      const ctes = this.checkKeyword('WITH') ? this.parseCtes() : []
+      const query = this.parseQuery()
+      if (!query) return null
+      return { type: 'Select', ctes, query, range: this.span(token.range, this.previous().range.end) }
+    }
+
+    if (token.type === 'keyword' && UNSUPPORTED_STATEMENTS.includes(token.value)) {
+      this.advance()
+      this.skipToStatementEnd(token.value)
+      return { type: 'Unsupported', keyword: token.value, range: this.span(token.range, this.previous().range.end) }
+    }
+
+    this.error(token.range, `Expected SELECT but found ${this.describe(token)}`)
+    this.skipToStatementEnd()
+    return null
+  }
+
+  private parseCtes(): SqlCommonTableExpression[] {
+    this.advance()
+    const ctes: SqlCommonTableExpression[] = []
+
+    do {
+      const nameToken = this.peek()
+      if (nameToken.type !== 'identifier') {
+        this.error(nameToken.range, 'Expected a name for the common table expression')
+        return ctes
+      }
+      this.advance()
+
+      const columns: string[] = []
+      if (this.match('lparen')) {
+        do {
+          if (this.check('identifier')) columns.push(this.advance().value)
+        } while (this.match('comma'))
+        this.expect('rparen', 'Expected ) after CTE column list')
+      }
+
+      if (!this.matchKeyword('AS')) {
+        this.error(this.peek().range, 'Expected AS after the CTE name')
+      }
+      this.expect('lparen', 'Expected ( before the CTE query')
+      const query = this.parseQuery()
+      this.expect('rparen', 'Expected ) after the CTE query')
+
+      if (query) {
+        ctes.push({ name: nameToken.value, columns, query, range: this.span(nameToken.range, this.previous().range.end) })
+      }
+    } while (this.match('comma'))
+
+    return ctes
+  }
+
+  // Queries
+
+  private parseQuery(): SqlQuery | null {
+    let left = this.parseQueryTerm()
+    if (!left) return null
+
+    while (this.checkKeyword('UNION') || this.checkKeyword('INTERSECT') || this.checkKeyword('EXCEPT')) {
+      const operatorToken = this.advance()
+      let operator = operatorToken.value as 'UNION' | 'INTERSECT' | 'EXCEPT' | 'UNION ALL'
+      let operatorEnd = operatorToken.range.end
+      if (operator === 'UNION' && this.checkKeyword('ALL')) {
+        operatorEnd = this.advance().range.end
+        operator = 'UNION ALL'
+      }
+      const right = this.parseQueryTerm()
+      if (!right) return left
+      left = {
+        type: 'SetOperation',
+        operator,
+        operatorRange: { start: operatorToken.range.start, end: operatorEnd },
+        left,
+        right,
+        orderBy: [],
+        range: this.span(left.range, right.range.end)
+      }
+    }
+
+    if (this.checkKeyword('ORDER')) {
+      const orderBy = this.parseOrderBy()
+      left.orderBy = orderBy
+      left.range = this.span(left.range, this.previous().range.end)
+    }
+
+    if (this.checkKeyword('LIMIT') || this.checkKeyword('OFFSET')) {
+      const token = this.advance()
+      this.diagnostics.push({
+        rule: token.value === 'LIMIT' ? 'sfmc-sql-limit' : 'sfmc-sql-unsupported-syntax',
+        message: token.value === 'LIMIT'
+          ? 'LIMIT is not supported in SFMC SQL - use SELECT TOP n instead'
+          : 'OFFSET/FETCH paging is not supported in SFMC query activities',
+        severity: 'error',
+        range: token.range,
+        fixSuggestion: 'Use SELECT TOP n to limit the number of rows'
+      })
+      this.skipWhile(token => !this.isClauseBoundary(token))
+    }
+
+    return left
+  }
+
+  private parseQueryTerm(): SqlQuery | null {
+    if (this.check('lparen') && this.peekAt(1).type === 'keyword' && this.peekAt(1).value === 'SELECT') {
+      const open = this.advance()
+      const query = this.parseQuery()
+      this.expect('rparen', 'Expected ) to close the parenthesized query')
+      if (query) query.range = this.span(open.range, this.previous().range.end)
+      return query
+    }
+
+    if (!this.checkKeyword('SELECT')) {
+      this.error(this.peek().range, `Expected SELECT but found ${this.describe(this.peek())}`)
+      return null
+    }
+
+    return this.parseSelectCore()
+  }
+
+  private parseSelectCore(): SqlSelectCore {
+    const keyword = this.advance()
+    let distinct = false
+    let top: SqlTopClause | undefined
+
+    if (this.matchKeyword('DISTINCT')) {
+      distinct = true
+    } else {
+      this.matchKeyword('ALL')
+    }
+
+    if (this.checkKeyword('TOP')) {
+      top = this.parseTop()
+    }
+
+    const columns = this.parseSelectList()
+
+    let into: SqlTableReference | undefined
+    if (this.matchKeyword('INTO')) {
+      const target = this.parseTableReference()
+      if (target?.type === 'Table') into = target
+    }
+
+    let from: SqlTableSource[] = []
+    if (this.matchKeyword('FROM')) {
+      from = this.parseFromList()
+    }
+
+    let where: SqlExpression | undefined
+    if (this.matchKeyword('WHERE')) {
+      where = this.parseExpression() || undefined
+    }
+
+    let groupBy: SqlExpression[] = []
+    if (this.checkKeyword('GROUP')) {
+      this.advance()
+      this.expectKeyword('BY')
+      groupBy = this.parseExpressionList()
+    }
+
+    let having: SqlExpression | undefined
+    if (this.matchKeyword('HAVING')) {
+      having = this.parseExpression() || undefined
+    }
+
+    return {
+      type: 'SelectCore',
+      keywordRange: keyword.range,
+      distinct,
+      top,
+      columns,
+      into,
+      from,
+      where,
+      groupBy,
+      having,
+      orderBy: [],
+      range: this.span(keyword.range, this.previous().range.end)
+    }
+  }
+
+  private parseTop(): SqlTopClause | undefined {
+    const keyword = this.advance()
+    let value: SqlExpression | null
+
+    if (this.match('lparen')) {
+      value = this.parseExpression()
+      this.expect('rparen', 'Expected ) after TOP expression')
+    } else {
+      value = this.parsePrimary()
+    }
+
+    if (!value) return undefined
+
+    const percent = this.matchKeyword('PERCENT')
+    let withTies = false
+    if (this.checkKeyword('WITH') && this.peekAt(1).type === 'identifier' && this.peekAt(1).value.toUpperCase() === 'TIES') {
+      this.advance()
+      this.advance()
+      withTies = true
+    }
+
+    return { value, percent, withTies, range: this.span(keyword.range, this.previous().range.end) }
+  }
+
+  private parseSelectList(): SqlSelectItem[] {
+    const items: SqlSelectItem[] = []
+
+    do {
+      const start = this.peek()
+      if (this.isClauseBoundary(start)) {
+        this.error(start.range, 'Expected a column expression in the SELECT list')
+        break
+      }
+
+      const expression = this.parseExpression(true)
+      if (!expression) {
+        this.skipWhile(token => token.type !== 'comma' && !this.isClauseBoundary(token))
+        continue
+      }
+
+      const alias = this.parseAlias(true)
+      items.push({ expression, alias, range: this.span(expression.range, this.previous().range.end) })
+    } while (this.match('comma'))
+
+    return items
+  }
+
+  private parseFromList(): SqlTableSource[] {
+    const sources: SqlTableSource[] = []
+
+    do {
+      const source = this.parseJoinedTable()
+      if (source) sources.push(source)
+    } while (this.match('comma'))
+
+    return sources
+  }
+
+  private parseJoinedTable(): SqlTableSource | null {
+    let left = this.parseTableReference()
+    if (!left) return null
+
+    while (this.isJoinStart()) {
+      const first = this.advance()
+      let joinType: SqlJoin['joinType'] = 'INNER'
+
+      if (first.value !== 'JOIN') {
+        joinType = first.value as SqlJoin['joinType']
+        this.matchKeyword('OUTER')
+        if (joinType === 'CROSS' && this.checkKeyword('APPLY')) {
+          this.diagnostics.push({
+            rule: 'sfmc-sql-unsupported-syntax',
+            message: 'CROSS APPLY is not supported in SFMC query activities',
+            severity: 'error',
+            range: this.span(first.range, this.peek().range.end)
+          })
+          this.advance()
+        } else {
+          this.expectKeyword('JOIN')
+        }
+      }
+
+      const keywordRange = this.span(first.range, this.previous().range.end)
+      const right = this.parseTableReference()
+      if (!right) return left
+
+      let on: SqlExpression | undefined
+      if (this.matchKeyword('ON')) {
+        on = this.parseExpression() || undefined
+      }
+
+      left = {
+        type: 'Join',
+        joinType,
+        keywordRange,
+        left,
+        right,
+        on,
+        range: this.span(left.range, this.previous().range.end)
+      }
+    }
+
+    return left
+  }
+
+  private parseTableReference(): SqlTableSource | null {
+    const token = this.peek()
+
+    if (token.type === 'lparen') {
+      this.advance()
+      if (!this.checkKeyword('SELECT') && !this.check('lparen')) {
+        // Parenthesized join: FROM (a JOIN b ON ...)
+        const inner = this.parseJoinedTable()
+        this.expect('rparen', 'Expected ) to close the table source')
+        return inner
+      }
+      const query = this.parseQuery()
+      this.expect('rparen', 'Expected ) to close the derived table')
+      if (!query) return null
+      const alias = this.parseAlias(false)
+      if (!alias) {
+        this.error(this.previous().range, 'Derived tables must have an alias')
+      }
+      return { type: 'Derived', query, alias, range: this.span(token.range, this.previous().range.end) }
+    }
+
+    if (token.type === 'tempTable') {
+      this.advance()
+      const alias = this.parseAlias(false)
+      return {
+        type: 'Table',
+        name: token.value,
+        parts: [token.value],
+        alias,
+        temporary: true,
+        range: this.span(token.range, this.previous().range.end)
+      }
+    }
+
+    if (token.type === 'variable') {
+      this.advance()
+      this.error(token.range, `Table variables such as ${token.value} are not supported`)
+      return null
+    }
+
+    if (token.type !== 'identifier') {
+      this.error(token.range, `Expected a table name but found ${this.describe(token)}`)
+      return null
+    }
+
+    const parts = [this.advance().value]
+    while (this.check('dot')) {
+      this.advance()
+      if (this.check('identifier')) {
+        parts.push(this.advance().value)
+      } else if (this.check('dot')) {
+        parts.push('')
+      } else {
+        this.error(this.peek().range, 'Expected a name after .')
+        break
+      }
+    }
+    const nameEnd = this.previous().range.end
+    const alias = this.parseAlias(false)
+    this.skipTableHints()
+
+    return {
+      type: 'Table',
+      name: parts[parts.length - 1],
+      parts,
+      alias,
+      temporary: false,
+      range: this.span(token.range, alias ? this.previous().range.end : nameEnd)
+    }
+  }
+
+  private skipTableHints(): void {
+    // WITH (NOLOCK) and similar hints are accepted and ignored
+    if (this.checkKeyword('WITH') && this.peekAt(1).type === 'lparen') {
+      this.advance()
+      this.advance()
+      this.skipWhile(token => token.type !== 'rparen')
+      this.match('rparen')
+    }
+  }
+
+  private parseAlias(allowString: boolean): string | undefined {
+    if (this.matchKeyword('AS')) {
+      const token = this.peek()
+      if (token.type === 'identifier' || (allowString && token.type === 'string')) {
+        return this.advance().value
+      }
+      this.error(token.range, 'Expected an alias after AS')
+      return undefined
+    }
+    if (this.check('identifier')) {
+      return this.advance().value
+    }
+    return undefined
+  }
+
+  private parseOrderBy(): SqlOrderByItem[] {
+    this.advance()
+    this.expectKeyword('BY')
+    const items: SqlOrderByItem[] = []
+
+    do {
+      const expression = this.parseExpression()
+      if (!expression) break
+      let direction: 'ASC' | 'DESC' = 'ASC'
+      if (this.checkKeyword('ASC') || this.checkKeyword('DESC')) {
+        direction = this.advance().value as 'ASC' | 'DESC'
+      }
+      items.push({ expression, direction, range: this.span(expression.range, this.previous().range.end) })
+    } while (this.match('comma'))
+
+    return items
+  }
+
+  // Expressions, lowest precedence first
+
+  private parseExpressionList(): SqlExpression[] {
+    const expressions: SqlExpression[] = []
+    do {
+      const expression = this.parseExpression()
+      if (!expression) break
+      expressions.push(expression)
+    } while (this.match('comma'))
+    return expressions
+  }
+
+  private parseExpression(allowStar = false): SqlExpression | null {
+    return this.parseOr(allowStar)
+  }
+
+  private parseOr(allowStar: boolean): SqlExpression | null {
+    let left = this.parseAnd(allowStar)
+    while (left && this.checkKeyword('OR')) {
+      const operator = this.advance()
+      const right = this.parseAnd(false)
+      if (!right) return left
+      left = this.binary('OR', operator.range, left, right)
+    }
+    return left
+  }
+
+  private parseAnd(allowStar: boolean): SqlExpression | null {
+    let left = this.parseNot(allowStar)
+    while (left && this.checkKeyword('AND')) {
+      const operator = this.advance()
+      const right = this.parseNot(false)
+      if (!right) return left
+      left = this.binary('AND', operator.range, left, right)
+    }
+    return left
+  }
+
+  private parseNot(allowStar: boolean): SqlExpression | null {
+    if (this.checkKeyword('NOT') && !(this.peekAt(1).type === 'keyword' && this.peekAt(1).value === 'EXISTS')) {
+      const operator = this.advance()
+      const argument = this.parseNot(false)
+      if (!argument) return null
+      return { type: 'Unary', operator: 'NOT', argument, range: this.span(operator.range, argument.range.end) }
+    }
+    return this.parsePredicate(allowStar)
+  }
+
+  private parsePredicate(allowStar: boolean): SqlExpression | null {
+    if (this.checkKeyword('EXISTS') || (this.checkKeyword('NOT') && this.peekAt(1).value === 'EXISTS')) {
+      const start = this.peek()
+      const negated = this.matchKeyword('NOT')
+      this.advance()
+      this.expect('lparen', 'Expected ( after EXISTS')
+      const query = this.parseQuery()
+      this.expect('rparen', 'Expected ) to close the EXISTS subquery')
+      if (!query) return null
+      const exists: SqlExpression = { type: 'Exists', query, range: this.span(start.range, this.previous().range.end) }
+      return negated ? { type: 'Unary', operator: 'NOT', argument: exists, range: exists.range } : exists
+    }
+
+    const left = this.parseAdditive(allowStar)
+    if (!left) return null
+
+    const token = this.peek()
+
+    if (token.type === 'operator' && COMPARISON_OPERATORS.includes(token.value)) {
+      this.advance()
+      const right = this.parseAdditive(false)
+      if (!right) return left
+      return this.binary(token.value, token.range, left, right)
+    }
+
+    if (token.type === 'operator' && token.value === '==') {
+      return left
+    }
+
+    if (this.checkKeyword('IS')) {
+      this.advance()
+      const negated = this.matchKeyword('NOT')
+      this.expectKeyword('NULL')
+      return { type: 'IsNull', expression: left, negated, range: this.span(left.range, this.previous().range.end) }
+    }
+
+    const negated = this.checkKeyword('NOT') &&
+      ['LIKE', 'IN', 'BETWEEN'].includes(this.peekAt(1).value) && this.peekAt(1).type === 'keyword'
+    if (negated) this.advance()
+
+    if (this.checkKeyword('LIKE')) {
+      const operator = this.advance()
+      const right = this.parseAdditive(false)
+      if (!right) return left
+      return this.binary(negated ? 'NOT LIKE' : 'LIKE', operator.range, left, right)
+    }
+
+    if (this.checkKeyword('BETWEEN')) {
+      this.advance()
+      const low = this.parseAdditive(false)
+      this.expectKeyword('AND')
+      const high = this.parseAdditive(false)
+      if (!low || !high) return left
+      return { type: 'Between', expression: left, low, high, negated, range: this.span(left.range, high.range.end) }
+    }
+
+    if (this.checkKeyword('IN')) {
+      this.advance()
+      this.expect('lparen', 'Expected ( after IN')
+      if (this.checkKeyword('SELECT')) {
+        const query = this.parseQuery()
+        this.expect('rparen', 'Expected ) to close the IN subquery')
+        if (!query) return left
+        return { type: 'In', expression: left, values: [], query, negated, range: this.span(left.range, this.previous().range.end) }
+      }
+      const values = this.parseExpressionList()
+      this.expect('rparen', 'Expected ) to close the IN list')
+      return { type: 'In', expression: left, values, negated, range: this.span(left.range, this.previous().range.end) }
+    }
+
+    return left
+  }
+
+  private parseAdditive(allowStar: boolean): SqlExpression | null {
+    let left = this.parseMultiplicative(allowStar)
+    while (left && this.check('operator') && ['+', '-'].includes(this.peek().value)) {
+      const operator = this.advance()
+      const right = this.parseMultiplicative(false)
+      if (!right) return left
+      left = this.binary(operator.value, operator.range, left, right)
+    }
+    return left
+  }
+
+  private parseMultiplicative(allowStar: boolean): SqlExpression | null {
+    let left = this.parseUnary(allowStar)
+    while (left && this.check('operator') && ['*', '/', '%'].includes(this.peek().value)) {
+      const operator = this.advance()
+      const right = this.parseUnary(false)
+      if (!right) return left
+      left = this.binary(operator.value, operator.range, left, right)
+    }
+    return left
+  }
+
+  private parseUnary(allowStar: boolean): SqlExpression | null {
+    if (this.check('operator') && ['-', '+'].includes(this.peek().value)) {
+      const operator = this.advance()
+      const argument = this.parseUnary(false)
+      if (!argument) return null
+      return {
+        type: 'Unary',
+        operator: operator.value as '-' | '+',
+        argument,
+        range: this.span(operator.range, argument.range.end)
+      }
+    }
+    return this.parsePrimary(allowStar)
+  }
+
+  private parsePrimary(allowStar = false): SqlExpression | null {
+    const token = this.peek()
+
+    switch (token.type) {
+      case 'string':
+        this.advance()
+        return { type: 'Literal', kind: 'string', value: token.value, range: token.range }
+      case 'number':
+        this.advance()
+        return { type: 'Literal', kind: 'number', value: token.value, range: token.range }
+      case 'variable':
+        this.advance()
+        return { type: 'Variable', name: token.value, range: token.range }
+      case 'operator':
+        if (token.value === '*' && allowStar) {
+          this.advance()
+          return { type: 'Star', range: token.range }
+        }
+        break
+      case 'lparen': {
+        this.advance()
+        if (this.checkKeyword('SELECT')) {
+          const query = this.parseQuery()
+          this.expect('rparen', 'Expected ) to close the subquery')
+          if (!query) return null
+          return { type: 'Subquery', query, range: this.span(token.range, this.previous().range.end) }
+        }
+        const inner = this.parseExpression()
+        this.expect('rparen', 'Expected ) to close the parenthesized expression')
+        if (inner) inner.range = this.span(token.range, this.previous().range.end)
+        return inner
+      }
+      case 'keyword':
+        if (token.value === 'NULL') {
+          this.advance()
+          return { type: 'Literal', kind: 'null', value: 'NULL', range: token.range }
+        }
+        if (token.value === 'CASE') {
+          return this.parseCase()
+        }
+        if ((token.value === 'LEFT' || token.value === 'RIGHT') && this.peekAt(1).type === 'lparen') {
+          this.advance()
+          return this.parseFunctionCall(token)
+        }
+        break
+      case 'identifier':
+        return this.parseIdentifierExpression(allowStar)
+    }
+
+    this.error(token.range, `Expected an expression but found ${this.describe(token)}`)
+    if (!this.isClauseBoundary(token) && token.type !== 'rparen' && token.type !== 'comma') {
+      this.advance()
+    }
+    return null
+  }
+
+  private parseIdentifierExpression(allowStar: boolean): SqlExpression | null {
+    const first = this.advance()
+
+    if (this.check('lparen') && !first.quoted) {
+      return this.parseFunctionCall(first)
+    }
+
+    const parts: SqlToken[] = [first]
+    while (this.check('dot')) {
+      this.advance()
+      if (this.check('identifier')) {
+        parts.push(this.advance())
+      } else if (allowStar && this.check('operator') && this.peek().value === '*') {
+        const star = this.advance()
+        return {
+          type: 'Star',
+          qualifier: parts[parts.length - 1].value,
+          range: this.span(first.range, star.range.end)
+        }
+      } else {
+        this.error(this.peek().range, 'Expected a column name after .')
+        break
+      }
+    }
+
+    const column = parts[parts.length - 1]
+    const qualifier = parts.length > 1 ? parts[parts.length - 2] : undefined
+
+    return {
+      type: 'Column',
+      name: column.value,
+      qualifier: qualifier?.value,
+      qualifierRange: qualifier?.range,
+      range: this.span(first.range, column.range.end)
+    }
+  }
+
+  private parseFunctionCall(nameToken: SqlToken): SqlFunctionCall {
+    const name = nameToken.value.toUpperCase()
+    this.advance()
+    const args: SqlExpression[] = []
+    let distinct = false
+    let dataType: string | undefined
+
+    if (name === 'CONVERT' || name === 'TRY_CONVERT') {
+      dataType = this.parseDataType()
+      if (this.match('comma')) {
+        args.push(...this.parseExpressionList())
+      }
+    } else if (!this.check('rparen')) {
+      distinct = this.matchKeyword('DISTINCT')
+      const datePart = this.peek()
+      const first = DATE_PART_FUNCTIONS.includes(name) && datePart.type === 'identifier' && this.peekAt(1).type === 'comma'
+        ? { type: 'Literal' as const, kind: 'datePart' as const, value: this.advance().value.toUpperCase(), range: datePart.range }
+        : this.parseExpression(name === 'COUNT')
+      if (first) args.push(first)
+
+      if ((name === 'CAST' || name === 'TRY_CAST') && this.matchKeyword('AS')) {
+        dataType = this.parseDataType()
+      } else {
+        while (this.match('comma')) {
+          const arg = this.parseExpression()
+          if (!arg) break
+          args.push(arg)
+        }
+      }
+    }
+
+    this.expect('rparen', `Expected ) to close call to ${nameToken.value}`)
+
+    let over: SqlWindowSpec | undefined
+    if (this.checkKeyword('OVER')) {
+      over = this.parseWindowSpec()
+    }
+
+    return {
+      type: 'Function',
+      name,
+      nameRange: nameToken.range,
+      args,
+      distinct,
+      dataType,
+      over,
+      range: this.span(nameToken.range, this.previous().range.end)
+    }
+  }
+
+  private parseWindowSpec(): SqlWindowSpec {
+    const keyword = this.advance()
+    let partitionBy: SqlExpression[] = []
+    let orderBy: SqlOrderByItem[] = []
+
+    this.expect('lparen', 'Expected ( after OVER')
+    if (this.matchKeyword('PARTITION')) {
+      this.expectKeyword('BY')
+      partitionBy = this.parseExpressionList()
+    }
+    if (this.checkKeyword('ORDER')) {
+      orderBy = this.parseOrderBy()
+    }
+    this.expect('rparen', 'Expected ) to close the OVER clause')
+
+    return { partitionBy, orderBy, range: this.span(keyword.range, this.previous().range.end) }
+  }
+
+  private parseDataType(): string | undefined {
+    const token = this.peek()
+    if (token.type !== 'identifier') {
+      this.error(token.range, 'Expected a data type')
+      return undefined
+    }
+    this.advance()
+    let dataType = token.value.toUpperCase()
+
+    if (this.match('lparen')) {
+      const size: string[] = []
+      do {
+        const part = this.peek()
+        if (part.type === 'number' || part.type === 'identifier') {
+          size.push(this.advance().value.toUpperCase())
+        }
+      } while (this.match('comma'))
+      this.expect('rparen', 'Expected ) after the data type size')
+      dataType += `(${size.join(',')})`
+    }
+
+    return dataType
+  }
+
+  private parseCase(): SqlExpression | null {
+    const keyword = this.advance()
+    let operand: SqlExpression | undefined
+    const whens: Array<{ when: SqlExpression, then: SqlExpression }> = []
+    let elseResult: SqlExpression | undefined
+
+    if (!this.checkKeyword('WHEN')) {
+      operand = this.parseExpression() || undefined
+    }
+
+    while (this.matchKeyword('WHEN')) {
+      const when = this.parseExpression()
+      this.expectKeyword('THEN')
+      const then = this.parseExpression()
+      if (when && then) whens.push({ when, then })
+    }
+
+    if (whens.length === 0) {
+      this.error(keyword.range, 'CASE expression requires at least one WHEN clause')
+    }
+
+    if (this.matchKeyword('ELSE')) {
+      elseResult = this.parseExpression() || undefined
+    }
+
+    this.expectKeyword('END')
+
+    return { type: 'Case', operand, whens, elseResult, range: this.span(keyword.range, this.previous().range.end) }
+  }
+
+  // Helpers
+
+  private binary(operator: string, operatorRange: SourceRange, left: SqlExpression, right: SqlExpression): SqlExpression {
+    return { type: 'Binary', operator, operatorRange, left, right, range: this.span(left.range, right.range.end) }
+  }
+
+  private isJoinStart(): boolean {
+    const token = this.peek()
+    if (token.type !== 'keyword' || !JOIN_KEYWORDS.includes(token.value)) return false
+    // LEFT( and RIGHT( are string functions, not joins
+    return this.peekAt(1).type !== 'lparen'
+  }
+
+  private isClauseBoundary(token: SqlToken): boolean {
+    if (token.type === 'eof' || token.type === 'semicolon' || token.type === 'rparen') return true
+    return token.type === 'keyword' && (CLAUSE_KEYWORDS.includes(token.value) || this.isStatementStart(token))
+  }
+
+  private isStatementStart(token: SqlToken): boolean {
+    return token.type === 'keyword' && (token.value === 'SELECT' || token.value === 'WITH' || UNSUPPORTED_STATEMENTS.includes(token.value))
+  }
+
+  private skipToStatementEnd(keyword?: string): void {
+    const continuations = (keyword && STATEMENT_CONTINUATIONS[keyword]) || []
+    let depth = 0
+    while (!this.check('eof')) {
+      const token = this.peek()
+      if (token.type === 'lparen') depth++
+      if (token.type === 'rparen') depth = Math.max(0, depth - 1)
+      if (token.type === 'semicolon' && depth === 0) return
+      if (depth === 0 && this.isStatementStart(token) && !continuations.includes(token.value)) return
+      this.advance()
+    }
+  }
+
+  private skipWhile(predicate: (token: SqlToken) => boolean): void {
+    while (!this.check('eof') && predicate(this.peek())) {
+      this.advance()
+    }
+  }
+
+  private span(start: SourceRange, end: SourcePosition): SourceRange {
+    return { start: start.start, end }
+  }
+
+  private error(range: SourceRange, message: string): void {
+    this.diagnostics.push({
+      rule: 'sql-parse-error',
+      message,
+      severity: 'error',
+      range,
+      fixSuggestion: 'Check the query syntax against the SFMC SQL reference'
+    })
+  }
+
+  private expect(type: SqlTokenType, message: string): boolean {
+    if (this.check(type)) {
+      this.advance()
+      return true
+    }
+    const token = this.peek()
+    this.diagnostics.push({
+      rule: type === 'rparen' || type === 'lparen' ? 'sql-parentheses' : 'sql-parse-error',
+      message,
+      severity: 'error',
+      range: token.type === 'eof' ? this.previous().range : token.range,
+      fixSuggestion: type === 'rparen' ? 'Add missing closing parentheses' : undefined
+    })
+    return false
+  }
+
+  private expectKeyword(keyword: string): boolean {
+    if (this.matchKeyword(keyword)) return true
+    this.error(this.peek().range, `Expected ${keyword} but found ${this.describe(this.peek())}`)
+    return false
+  }
+
+  private describe(token: SqlToken): string {
+    return token.type === 'eof' ? 'end of query' : `'${token.value}'`
+  }
+
+  private peek(): SqlToken {
+    return this.tokens[this.index]
+  }
+
+  private peekAt(offset: number): SqlToken {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]
+  }
+
+  private previous(): SqlToken {
+    return this.tokens[Math.max(0, this.index - 1)]
+  }
+
+  private advance(): SqlToken {
+    const token = this.tokens[this.index]
+    if (token.type !== 'eof') this.index++
+    return token
+  }
+
+  private check(type: SqlTokenType): boolean {
+    return this.peek().type === type
+  }
+
+  private checkKeyword(keyword: string): boolean {
+    const token = this.peek()
+    return token.type === 'keyword' && token.value === keyword
+  }
+
+  private match(type: SqlTokenType): boolean {
+    if (this.check(type)) {
+      this.advance()
+      return true
+    }
+    return false
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (this.checkKeyword(keyword)) {
+      this.advance()
+      return true
+    }
+    return false
+  }
+}
@@ -0,0 +1,162 @@
+import { SqlParseResult } from './sql-parser'
+import {
+  SqlColumnRef,
+  SqlCommonTableExpression,
+  SqlDerivedTable,
+  SqlExpression,
+  SqlQuery,
+  SqlSelectCore,
+  SqlSetOperation,
+  SqlTableReference,
+  sqlFlattenSources,
+  sqlJoins,
+  walkSqlExpression
+} from './sql-ast'
+
+export type SqlClause = 'select' | 'join' | 'where' | 'groupBy' | 'having' | 'orderBy'
+
+export interface ScopeSource {
+  // Alias, or the table name when the source is not aliased
+  name: string
+  node: SqlTableReference | SqlDerivedTable
+  // CTE definition when the source refers to a common table expression
+  cte?: SqlCommonTableExpression
+}
+
+/**
+ * Tables visible to one SELECT. Subqueries keep a parent link so correlated
+ * references resolve against the enclosing query.
+ */
+export interface QueryScope {
+  core: SqlSelectCore
+  kind: 'statement' | 'cte' | 'derived' | 'subquery' | 'exists'
+  sources: ScopeSource[]
+  parent?: QueryScope
+  depth: number
+  statementIndex: number
+  withinCte?: SqlCommonTableExpression
+}
+
+export interface ClauseExpression {
+  clause: SqlClause
+  expression: SqlExpression
+}
+
+export interface ColumnUse {
+  column: SqlColumnRef
+  scope: QueryScope
+  clause: SqlClause
+}
+
+export interface SqlScopeAnalysis {
+  scopes: QueryScope[]
+  setOperations: SqlSetOperation[]
+  columns: ColumnUse[]
+}
+
+/**
+ * Builds a scope for every SELECT in the script, in source order. Derived
+ * tables see only the enclosing query's parent; expression subqueries see
+ * the query they appear in.
+ */
+export function analyzeSqlScopes(parse: SqlParseResult): SqlScopeAnalysis {
+  const scopes: QueryScope[] = []
+  const setOperations: SqlSetOperation[] = []
+
+  parse.script.statements.forEach((statement, statementIndex) => {
+    if (statement.type !== 'Select') return
+
+    const ctes = new Map<string, SqlCommonTableExpression>()
+
+    const visitQuery = (
+      query: SqlQuery,
+      kind: QueryScope['kind'],
+      parent: QueryScope | undefined,
+      depth: number,
+      withinCte?: SqlCommonTableExpression
+    ) => {
+      if (query.type === 'SetOperation') {
+        setOperations.push(query)
+        visitQuery(query.left, kind, parent, depth, withinCte)
+        visitQuery(query.right, kind, parent, depth, withinCte)
+        return
+      }
+
+      const sources: ScopeSource[] = sqlFlattenSources(query.from).map(node => ({
+        name: node.alias || (node.type === 'Table' ? node.name : ''),
+        node,
+        cte: node.type === 'Table' && node.parts.length === 1 ? ctes.get(node.name.toLowerCase()) : undefined
+      }))
+      const scope: QueryScope = { core: query, kind, sources, parent, depth, statementIndex, withinCte }
+      scopes.push(scope)
+
+      sources.forEach(source => {
+        if (source.node.type === 'Derived') {
+          visitQuery(source.node.query, 'derived', parent, depth + 1, withinCte)
+        }
+      })
+
+      sqlScopeExpressions(scope).forEach(({ expression }) => {
+        walkSqlExpression(expression, node => {
+          if (node.type === 'Exists') {
+            visitQuery(node.query, 'exists', scope, depth + 1, withinCte)
+          } else if (node.type === 'Subquery' || (node.type === 'In' && node.query)) {
+            visitQuery(node.query!, 'subquery', scope, depth + 1, withinCte)
+          }
+        })
+      })
+    }
+
+    statement.ctes.forEach(cte => {
+      visitQuery(cte.query, 'cte', undefined, 0, cte)
+      ctes.set(cte.name.toLowerCase(), cte)
+    })
+    visitQuery(statement.query, 'statement', undefined, 0)
+  })
+
+  const columns: ColumnUse[] = []
+  scopes.forEach(scope => {
+    sqlScopeExpressions(scope).forEach(({ clause, expression }) => {
+      walkSqlExpression(expression, node => {
+        if (node.type === 'Column') columns.push({ column: node, scope, clause })
+      })
+    })
+  })
+
+  return { scopes, setOperations, columns }
+}
+
+/**
+ * Lists the expressions evaluated in a scope, tagged with their clause
+ */
+export function sqlScopeExpressions({ core }: QueryScope): ClauseExpression[] {
+  const expressions: ClauseExpression[] = []
+  const add = (clause: SqlClause, expression?: SqlExpression) => {
+    if (expression) expressions.push({ clause, expression })
+  }
+
+  add('select', core.top?.value)
+  core.columns.forEach(item => add('select', item.expression))
+  sqlJoins(core.from).forEach(join => add('join', join.on))
+  add('where', core.where)
+  core.groupBy.forEach(expression => add('groupBy', expression))
+  add('having', core.having)
+  core.orderBy.forEach(item => add('orderBy', item.expression))
+
+  return expressions
+}
+
+export function findScopeSource(scope: QueryScope, qualifier: string): ScopeSource | undefined {
+  return scope.sources.find(source => source.name.toLowerCase() === qualifier.toLowerCase())
+}
+
+/**
+ * Resolves a table alias or name against a scope and its enclosing scopes
+ */
+export function resolveScopeQualifier(scope: QueryScope, qualifier: string): ScopeSource | undefined {
+  for (let current: QueryScope | undefined = scope; current; current = current.parent) {
+    const source = findScopeSource(current, qualifier)
+    if (source) return source
+  }
+  return undefined
+}
@@ -0,0 +1,101 @@
+// Text helpers for SSJS. The SSJS checks work on the source text rather
+// than a syntax tree; masking comments and string contents keeps brackets
+// and keywords inside them from being read as code.
+
+// Blanks comments in code, and comments and string contents in structure.
+// Both keep the offsets and line breaks of the source; comments lists the
+// spans that were blanked as comments.
+export function maskSSJS(source: string): { code: string, structure: string, comments: Array<{ start: number, end: number }> } {
+  let code = ''
+  let structure = ''
+  const comments: Array<{ start: number, end: number }> = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+    const next = source[i + 1]
+
+    if (char === '/' && (next === '/' || next === '*')) {
+      const close = next === '/' ? source.indexOf('\n', i) : source.indexOf('*/', i + 2)
+      const end = close === -1 ? source.length : next === '/' ? close : close + 2
+      const blank = source.slice(i, end).replace(/[^\n]/g, ' ')
+      code += blank
+      structure += blank
+      comments.push({ start: i, end })
+      i = end
+    } else if (char === '"' || char === "'" || char === '`') {
+      let end = i + 1
+      while (end < source.length && source[end] !== char && !(char !== '`' && source[end] === '\n')) {
+        end += source[end] === '\\' ? 2 : 1
+      }
+      end = Math.min(end + 1, source.length)
+      code += source.slice(i, end)
+      structure += char + source.slice(i + 1, end - 1).replace(/[^\n]/g, ' ') + (end - i > 1 ? source[end - 1] : '')
+      i = end
+    } else {
+      code += char
+      structure += char
+      i++
+    }
+  }
+
+  return { code, structure, comments }
+}
+
+/**
+ * End of the expression starting at start: the first stop character outside
+ * brackets, or the bracket that closes the enclosing one. Line breaks only
+ * end expressions that do not continue on the next line.
+ */
+export function readExpression(structure: string, start: number, stops: string): number {
+  let depth = 0
+  for (let i = start; i < structure.length; i++) {
+    const char = structure[i]
+    if (char === '(' || char === '[' || char === '{') {
+      depth++
+    } else if (char === ')' || char === ']' || char === '}') {
+      if (depth === 0) return i
+      depth--
+    } else if (depth === 0 && stops.includes(char) && (char !== '\n' || !continuesAfterLineBreak(structure, start, i))) {
+      return i
+    }
+  }
+  return structure.length
+}
+
+function continuesAfterLineBreak(structure: string, start: number, lineBreak: number): boolean {
+  const before = structure.slice(start, lineBreak).trimEnd()
+  const after = /\s*(\S?)/y
+  after.lastIndex = lineBreak + 1
+  const next = after.exec(structure)?.[1] ?? ''
+  return before === '' || /[-+*/=(,?:&|]$/.test(before) || /^[-+*/?:.&|]$/.test(next)
+}
+
+export function closingParen(structure: string, open: number): number {
+  return readExpression(structure, open + 1, '')
+}
+
+export function argumentsOf(structure: string, open: number): Array<{ start: number, end: number }> {
+  const close = closingParen(structure, open)
+  const args: Array<{ start: number, end: number }> = []
+  let start = open + 1
+  while (start < close) {
+    const end = Math.min(readExpression(structure, start, ','), close)
+    args.push({ start, end })
+    start = end + 1
+  }
+  return args
+}
+
+// Offset of the brace that opens the block around offset, or 0 at the top level
+export function enclosingBrace(structure: string, offset: number): number {
+  let depth = 0
+  for (let i = offset - 1; i >= 0; i--) {
+    if (structure[i] === '}') depth++
+    if (structure[i] === '{') {
+      if (depth === 0) return i
+      depth--
+    }
+  }
+  return 0
+}
@@ -3,14 +3,19 @@ import {
   PerformanceMetrics, 
   ComplexityMetrics, 
   MemoryMetrics, 
-  PerformanceRecommendation 
+  PerformanceRecommendation,
+  SFMCContext
 } from '../../types/debugging'
+import { dataVolumeRecommendations, estimateDataVolume } from './data-volume'
+import { buildControlFlowGraphs } from './control-flow'
 
 export class PerformanceMetricsCalculator {
   /**
-   * Calculates comprehensive performance metrics for code
+   * Calculates comprehensive performance metrics for code. With the row
+   * counts of the Data Extensions in the context, the estimated execution
+   * time includes what the Data Extension reads cost.
    */
-  async calculateMetrics(code: string, language: CodeLanguage): Promise<PerformanceMetrics> {
+  async calculateMetrics(code: string, language: CodeLanguage, context?: SFMCContext): Promise<PerformanceMetrics> {
     const startTime = performance.now()
     
     const [complexity, memoryUsage, apiCallCount, loopComplexity] = await Promise.all([
@@ -23,19 +28,22 @@ export class PerformanceMetricsCalculator {
     const calculationTime = performance.now() - startTime
     const estimatedExecutionTime = this.estimateExecutionTime(code, language, complexity, apiCallCount, loopComplexity)
     const recommendations = this.generateRecommendations(complexity, memoryUsage, apiCallCount, loopComplexity, calculationTime)
+    const dataVolume = estimateDataVolume(code, language, context)
 
     return {
       complexity,
-      estimatedExecutionTime,
+      estimatedExecutionTime: estimatedExecutionTime + (dataVolume?.estimatedTimeMs ?? 0),
       memoryUsage,
       apiCallCount,
       loopComplexity,
-      recommendations
+      recommendations: dataVolume ? [...recommendations, ...dataVolumeRecommendations(dataVolume)] : recommendations,
+      ...(dataVolume && { dataVolume })
     }
   }
 
   /**
-   * Calculates code complexity metrics
+   * Calculates code complexity metrics. AMPScript and SSJS also get their
+   * control-flow graphs, which locate the complexity in functions and blocks.
    */
   private async calculateComplexityMetrics(code: string, language: CodeLanguage): Promise<ComplexityMetrics> {
     const lines = code.split('\n').filter(line => line.trim().length > 0)
@@ -45,7 +53,8 @@ export class PerformanceMetricsCalculator {
       cyclomaticComplexity: this.calculateCyclomaticComplexity(code, language),
       cognitiveComplexity: this.calculateCognitiveComplexity(code, language),
       nestingDepth: this.calculateNestingDepth(code, language),
-      linesOfCode
+      linesOfCode,
+      ...((language === 'ampscript' || language === 'ssjs') && { controlFlow: buildControlFlowGraphs(code, language) })
     }
   }
 
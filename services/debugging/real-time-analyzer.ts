@@ -1,18 +1,34 @@
 import { 
-  CodeLanguage, 
+  AnalysisLanguage, 
   DebugError, 
   OptimizationSuggestion, 
   RealTimeAnalysisConfig, 
   LiveAnalysisResult,
   PerformanceMetrics,
-  BestPracticeViolation
+  BestPracticeViolation,
+  TextDelta
 } from '../../types/debugging'
 import { CodeAnalysisService } from './code-analysis.service'
+import { DocumentVersionError, IncrementalDocument } from './incremental-document'
+
+// Session documents kept for delta updates; the least recently used are dropped first
+const MAX_DOCUMENTS = 200
+
+// Sessions that stopped editing lose their document after this long
+const DOCUMENT_IDLE_MS = 30 * 60 * 1000
+
+// New text of a session document, either whole or as deltas against the
+// version the client last sent
+export type DocumentUpdate =
+  | { language: AnalysisLanguage, code: string, version?: number }
+  | { language: AnalysisLanguage, deltas: TextDelta[], baseVersion: number, version?: number }
 
 export class RealTimeAnalyzer {
   private analysisService: CodeAnalysisService
   private debounceTimers: Map<string, NodeJS.Timeout> = new Map()
   private analysisCache: Map<string, LiveAnalysisResult> = new Map()
+  // In least recently used order
+  private documents: Map<string, { document: IncrementalDocument, lastUsed: number }> = new Map()
   private config: RealTimeAnalysisConfig
 
   constructor(config: RealTimeAnalysisConfig = {
@@ -30,9 +46,11 @@ export class RealTimeAnalyzer {
    */
   async analyzeCodeRealTime(
     code: string, 
-    language: CodeLanguage, 
+    language: AnalysisLanguage, 
     sessionId: string
   ): Promise<LiveAnalysisResult> {
+    const document = this.updateDocument(sessionId, { language, code })
+
     return new Promise((resolve) => {
       // Clear existing timer for this session
       const existingTimer = this.debounceTimers.get(sessionId)
@@ -43,7 +61,7 @@ export class RealTimeAnalyzer {
       // Set new debounced timer
       const timer = setTimeout(async () => {
         try {
-          const result = await this.performLiveAnalysis(code, language)
+          const result = await this.performLiveAnalysis(document)
           this.analysisCache.set(sessionId, result)
           resolve(result)
         } catch (error) {
@@ -63,10 +81,86 @@ export class RealTimeAnalyzer {
     })
   }
 
+  /**
+   * Brings the document of a session up to date. Deltas must be based on the
+   * current version of the document; a DocumentVersionError asks the client
+   * to send the whole text instead.
+   */
+  updateDocument(sessionId: string, update: DocumentUpdate): IncrementalDocument {
+    this.evictDocuments(Date.now())
+    const document = this.documents.get(sessionId)?.document
+    const current = document?.language === update.language ? document : undefined
+
+    if ('deltas' in update) {
+      if (!current) {
+        throw new DocumentVersionError(`Session ${sessionId} has no ${update.language} document to apply deltas to`)
+      }
+      current.applyDeltas(update.deltas, update.baseVersion, update.version ?? update.baseVersion + 1)
+      return this.useDocument(sessionId, current)
+    }
+
+    if (current) {
+      if (current.text !== update.code || update.version !== undefined) {
+        current.replace(update.code, update.version ?? current.version + 1)
+      }
+      return this.useDocument(sessionId, current)
+    }
+
+    const created = new IncrementalDocument(update.language, update.code, update.version)
+    this.useDocument(sessionId, created)
+    this.evictDocuments(Date.now())
+    return created
+  }
+
+  // Moves the document of a session to the most recently used end
+  private useDocument(sessionId: string, document: IncrementalDocument): IncrementalDocument {
+    this.documents.delete(sessionId)
+    this.documents.set(sessionId, { document, lastUsed: Date.now() })
+    return document
+  }
+
+  // Drops idle sessions and the least recently used ones over the limit, with their cached results
+  private evictDocuments(now: number): void {
+    for (const [sessionId, { lastUsed }] of this.documents) {
+      if (this.documents.size <= MAX_DOCUMENTS && now - lastUsed < DOCUMENT_IDLE_MS) return
+      this.clearCache(sessionId)
+    }
+  }
+
+  /**
+   * Validates the syntax of a session document, re-validating only the
+   * blocks that changed since the last run
+   */
+  async validateDocumentSyntax(document: IncrementalDocument): Promise<DebugError[]> {
+    if (!this.config.enableLiveValidation) {
+      return []
+    }
+
+    try {
+      return await this.analysisService.validateSyntaxIncremental(document)
+    } catch (error) {
+      console.error('Incremental syntax validation failed:', error)
+      return []
+    }
+  }
+
+  async enforceDocumentBestPractices(document: IncrementalDocument): Promise<BestPracticeViolation[]> {
+    if (!this.config.enableBestPractices) {
+      return []
+    }
+
+    try {
+      return await this.analysisService.getBestPracticeViolationsIncremental(document)
+    } catch (error) {
+      console.error('Incremental best practices enforcement failed:', error)
+      return []
+    }
+  }
+
   /**
    * Performs immediate syntax validation without debouncing
    */
-  async validateSyntaxImmediate(code: string, language: CodeLanguage): Promise<DebugError[]> {
+  async validateSyntaxImmediate(code: string, language: AnalysisLanguage): Promise<DebugError[]> {
     if (!this.config.enableLiveValidation) {
       return []
     }
@@ -82,7 +176,7 @@ export class RealTimeAnalyzer {
   /**
    * Calculates performance metrics for code execution time estimation
    */
-  async calculatePerformanceMetrics(code: string, language: CodeLanguage): Promise<PerformanceMetrics> {
+  async calculatePerformanceMetrics(code: string, language: AnalysisLanguage): Promise<PerformanceMetrics> {
     if (!this.config.enablePerformanceMetrics) {
       return this.createEmptyPerformanceMetrics()
     }
@@ -111,7 +205,7 @@ export class RealTimeAnalyzer {
   /**
    * Enforces best practices with rule-based suggestions
    */
-  async enforceBestPractices(code: string, language: CodeLanguage): Promise<BestPracticeViolation[]> {
+  async enforceBestPractices(code: string, language: AnalysisLanguage): Promise<BestPracticeViolation[]> {
     if (!this.config.enableBestPractices) {
       return []
     }
@@ -136,6 +230,7 @@ export class RealTimeAnalyzer {
    */
   clearCache(sessionId: string): void {
     this.analysisCache.delete(sessionId)
+    this.documents.delete(sessionId)
     const timer = this.debounceTimers.get(sessionId)
     if (timer) {
       clearTimeout(timer)
@@ -150,10 +245,11 @@ export class RealTimeAnalyzer {
     this.config = { ...this.config, ...newConfig }
   }
 
-  private async performLiveAnalysis(code: string, language: CodeLanguage): Promise<LiveAnalysisResult> {
+  private async performLiveAnalysis(document: IncrementalDocument): Promise<LiveAnalysisResult> {
+    const version = document.version
     const [errors, bestPracticeViolations] = await Promise.all([
-      this.validateSyntaxImmediate(code, language),
-      this.enforceBestPractices(code, language)
+      this.validateDocumentSyntax(document),
+      this.enforceDocumentBestPractices(document)
     ])
 
     // Separate errors and warnings
@@ -176,11 +272,12 @@ export class RealTimeAnalyzer {
       warnings,
       suggestions,
       isValid: actualErrors.length === 0,
-      lastUpdated: new Date()
+      lastUpdated: new Date(),
+      version
     }
   }
 
-  private estimateExecutionTime(code: string, language: CodeLanguage, metrics: PerformanceMetrics): number {
+  private estimateExecutionTime(code: string, language: AnalysisLanguage, metrics: PerformanceMetrics): number {
     // Base execution time estimation based on language and complexity
     const baseTimeMs = this.getBaseExecutionTime(language)
     const complexityMultiplier = 1 + (metrics.complexity.cyclomaticComplexity * 0.1)
@@ -190,7 +287,7 @@ export class RealTimeAnalyzer {
     return baseTimeMs * complexityMultiplier * loopMultiplier * apiCallMultiplier
   }
 
-  private getBaseExecutionTime(language: CodeLanguage): number {
+  private getBaseExecutionTime(language: AnalysisLanguage): number {
     // Base execution times in milliseconds for different languages
     const baseTimes = {
       'ampscript': 50,    // AMPScript is typically slower due to SFMC processing
@@ -198,7 +295,9 @@ export class RealTimeAnalyzer {
       'sql': 100,         // SQL queries can vary widely, using conservative estimate
       'html': 5,          // HTML parsing is very fast
       'css': 10,          // CSS processing is fast
-      'javascript': 15    // Client-side JavaScript is fast
+      'javascript': 15,   // Client-side JavaScript is fast
+      'cloudpage': 60,    // CloudPages run AMPScript and SSJS alongside the markup
+      'email': 60         // Emails are rendered per subscriber with the same mix
     }
 
     return baseTimes[language] || 25
@@ -0,0 +1,325 @@
+import { BestPracticeViolation, CodeAnalysisResult, DebugError, ErrorSeverity } from '../../types/debugging'
+
+export type ReportFormat = 'json' | 'sarif' | 'junit'
+
+export interface ReportOptions {
+  // Path of the analysed file as the CI or review tool knows it
+  uri?: string
+  toolName?: string
+  toolVersion?: string
+}
+
+export interface ExportedReport {
+  content: string
+  contentType: string
+  fileName: string
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+const DEFAULT_TOOL_NAME = 'SFMC Code Debugger'
+const DEFAULT_TOOL_VERSION = '0.1.0'
+
+const SARIF_LEVELS: Record<ErrorSeverity, 'error' | 'warning' | 'note'> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note'
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  sql: 'sql',
+  ampscript: 'amp',
+  ssjs: 'ssjs',
+  css: 'css',
+  html: 'html',
+  javascript: 'js',
+  cloudpage: 'html',
+  email: 'html'
+}
+
+// Issue of any of the result lists, with columns made 1-based
+interface ReportIssue {
+  group: ReportGroup
+  rule: string
+  severity: ErrorSeverity
+  category: string
+  message: string
+  line: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+  suggestion?: string
+  documentation?: string
+  language?: string
+  fix?: DebugError['fix']
+  taintPath?: DebugError['taintPath']
+  baselineStatus?: DebugError['baselineStatus']
+}
+
+type ReportGroup = 'errors' | 'warnings' | 'performanceIssues' | 'bestPracticeViolations'
+
+const GROUP_NAMES: Record<ReportGroup, string> = {
+  errors: 'Errors',
+  warnings: 'Warnings',
+  performanceIssues: 'Performance',
+  bestPracticeViolations: 'Best practices'
+}
+
+/**
+ * Serialises an analysis result for CI and code review tools. JSON is the
+ * result as the API returns it; SARIF 2.1.0 and JUnit XML carry the errors,
+ * warnings, performance issues and best practice violations.
+ */
+export function exportAnalysisResult(
+  result: CodeAnalysisResult,
+  format: ReportFormat,
+  options: ReportOptions = {}
+): ExportedReport {
+  const baseName = `analysis-${result.language}`
+
+  switch (format) {
+    case 'sarif':
+      return {
+        content: JSON.stringify(toSarif(result, options), null, 2),
+        contentType: 'application/sarif+json',
+        fileName: `${baseName}.sarif`
+      }
+    case 'junit':
+      return {
+        content: toJUnit(result, options),
+        contentType: 'application/xml',
+        fileName: `${baseName}.junit.xml`
+      }
+    default:
+      return {
+        content: JSON.stringify(result, null, 2),
+        contentType: 'application/json',
+        fileName: `${baseName}.json`
+      }
+  }
+}
+
+/**
+ * SARIF 2.1.0 log with one run. Every distinct rule becomes a reporting
+ * descriptor; issues with a structured fix carry it as a SARIF fix, and
+ * security findings their source-to-sink path as a code flow.
+ */
+export function toSarif(result: CodeAnalysisResult, options: ReportOptions = {}) {
+  const uri = artifactUri(result, options)
+  const issues = collectIssues(result)
+  const ruleIds = Array.from(new Set(issues.map(issue => issue.rule)))
+
+  const rules = ruleIds.map(id => {
+    const first = issues.find(issue => issue.rule === id)!
+    return {
+      id,
+      shortDescription: { text: first.message },
+      ...(first.documentation && { fullDescription: { text: first.documentation } }),
+      ...(first.suggestion && { help: { text: first.suggestion } }),
+      defaultConfiguration: { level: SARIF_LEVELS[first.severity] },
+      properties: { category: first.category }
+    }
+  })
+
+  const results = issues.map(issue => ({
+    ruleId: issue.rule,
+    ruleIndex: ruleIds.indexOf(issue.rule),
+    level: SARIF_LEVELS[issue.severity],
+    message: { text: issue.message },
+    // Set when the result was compared with the asset's baseline
+    ...(issue.baselineStatus && { baselineState: issue.baselineStatus === 'existing' ? 'unchanged' : 'new' }),
+    locations: [{
+      physicalLocation: {
+        artifactLocation: { uri },
+        region: sarifRegion(issue)
+      }
+    }],
+    ...(issue.taintPath && {
+      codeFlows: [{
+        threadFlows: [{
+          locations: issue.taintPath.map(step => ({
+            location: {
+              physicalLocation: {
+                artifactLocation: { uri },
+                region: { startLine: step.line, startColumn: step.column }
+              },
+              message: { text: step.description }
+            },
+            kinds: [step.kind]
+          }))
+        }]
+      }]
+    }),
+    ...(issue.fix && issue.fix.edits.length > 0 && {
+      fixes: [{
+        description: { text: issue.fix.description },
+        artifactChanges: [{
+          artifactLocation: { uri },
+          replacements: issue.fix.edits.map(edit => ({
+            deletedRegion: {
+              startLine: edit.line,
+              startColumn: edit.column,
+              endLine: edit.endLine,
+              endColumn: edit.endColumn
+            },
+            insertedContent: { text: edit.replacement }
+          }))
+        }]
+      }]
+    }),
+    properties: {
+      category: issue.category,
+      group: issue.group,
+      ...(issue.suggestion && { fixSuggestion: issue.suggestion }),
+      ...(issue.fix && { fixKind: issue.fix.kind }),
+      ...(issue.language && { language: issue.language })
+    }
+  }))
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: options.toolName ?? DEFAULT_TOOL_NAME,
+          version: options.toolVersion ?? DEFAULT_TOOL_VERSION,
+          rules
+        }
+      },
+      artifacts: [{ location: { uri }, sourceLanguage: result.language }],
+      invocations: [{
+        executionSuccessful: true,
+        endTimeUtc: toDate(result.createdAt).toISOString()
+      }],
+      results
+    }]
+  }
+}
+
+/**
+ * JUnit XML with a test suite per result list and a test case per issue.
+ * Errors and warnings are failures; info issues pass and keep their message
+ * in system-out. A clean result is a single passing test case.
+ */
+export function toJUnit(result: CodeAnalysisResult, options: ReportOptions = {}): string {
+  const uri = artifactUri(result, options)
+  const issues = collectIssues(result)
+  const seconds = (result.processingTime / 1000).toFixed(3)
+  const timestamp = toDate(result.createdAt).toISOString()
+  const failing = (issue: ReportIssue) => issue.severity !== 'info'
+
+  const suites = (Object.keys(GROUP_NAMES) as ReportGroup[])
+    .map(group => ({ group, issues: issues.filter(issue => issue.group === group) }))
+    .filter(suite => suite.issues.length > 0)
+    .map(suite => {
+      const cases = suite.issues.map(issue => {
+        const location = `${uri}:${issue.line}${issue.column !== undefined ? `:${issue.column}` : ''}`
+        const details = [
+          `${location} ${issue.message}`,
+          `Rule: ${issue.rule} (${issue.category})`,
+          ...(issue.suggestion ? [`Fix: ${issue.suggestion}`] : [])
+        ].join('\n')
+        const body = failing(issue)
+          ? `<failure message="${escapeXml(issue.message)}" type="${issue.severity}">${escapeXml(details)}</failure>`
+          : `<system-out>${escapeXml(details)}</system-out>`
+
+        return `      <testcase name="${escapeXml(`${issue.rule} at ${location}`)}" classname="${escapeXml(`${uri}.${suite.group}`)}" time="0">${body}</testcase>`
+      })
+
+      return [
+        `    <testsuite name="${escapeXml(`${uri} ${GROUP_NAMES[suite.group]}`)}" tests="${suite.issues.length}" failures="${suite.issues.filter(failing).length}" errors="0" skipped="0" timestamp="${timestamp}" time="${seconds}">`,
+        ...cases,
+        '    </testsuite>'
+      ].join('\n')
+    })
+
+  if (suites.length === 0) {
+    suites.push([
+      `    <testsuite name="${escapeXml(uri)}" tests="1" failures="0" errors="0" skipped="0" timestamp="${timestamp}" time="${seconds}">`,
+      `      <testcase name="${escapeXml(`${uri} has no issues`)}" classname="${escapeXml(uri)}" time="${seconds}"/>`,
+      '    </testsuite>'
+    ].join('\n'))
+  }
+
+  const failures = issues.filter(failing).length
+  const tests = Math.max(issues.length, 1)
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(options.toolName ?? DEFAULT_TOOL_NAME)}" tests="${tests}" failures="${failures}" errors="0" time="${seconds}">`,
+    ...suites,
+    '</testsuites>',
+    ''
+  ].join('\n')
+}
+
+function collectIssues(result: CodeAnalysisResult): ReportIssue[] {
+  const fromError = (group: ReportGroup) => (error: DebugError): ReportIssue => ({
+    group,
+    rule: error.rule,
+    severity: error.severity,
+    category: error.category,
+    message: error.message,
+    line: error.line,
+    column: error.column,
+    endLine: error.endLine,
+    endColumn: error.endColumn,
+    suggestion: error.fixSuggestion,
+    language: error.language,
+    fix: error.fix,
+    taintPath: error.taintPath,
+    baselineStatus: error.baselineStatus
+  })
+  const fromViolation = (violation: BestPracticeViolation): ReportIssue => ({
+    group: 'bestPracticeViolations',
+    rule: violation.rule,
+    severity: violation.severity,
+    category: violation.category,
+    message: violation.message,
+    line: violation.line,
+    // Best practice columns are 0-based
+    column: violation.column !== undefined ? violation.column + 1 : undefined,
+    suggestion: violation.suggestion,
+    documentation: violation.documentation,
+    fix: violation.fix,
+    baselineStatus: violation.baselineStatus
+  })
+
+  return [
+    ...result.errors.map(fromError('errors')),
+    ...result.warnings.map(fromError('warnings')),
+    ...result.performanceIssues.map(fromError('performanceIssues')),
+    ...result.bestPracticeViolations.map(fromViolation)
+  ]
+}
+
+function sarifRegion(issue: ReportIssue) {
+  const startLine = Math.max(issue.line, 1)
+  return {
+    startLine,
+    ...(issue.column !== undefined && { startColumn: Math.max(issue.column, 1) }),
+    ...(issue.endLine !== undefined && { endLine: Math.max(issue.endLine, startLine) }),
+    ...(issue.endColumn !== undefined && { endColumn: Math.max(issue.endColumn, 1) })
+  }
+}
+
+function artifactUri(result: CodeAnalysisResult, options: ReportOptions): string {
+  return options.uri ?? `code.${FILE_EXTENSIONS[result.language] ?? 'txt'}`
+}
+
+// Results that went through JSON carry createdAt as a string
+function toDate(value: Date | string): Date {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? new Date(0) : date
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
@@ -0,0 +1,61 @@
+import { z } from 'zod'
+import { ErrorSeverity, RuleConfiguration, RuleSetting } from '../../types/debugging'
+
+export const RuleSettingSchema = z.object({
+  enabled: z.boolean().optional(),
+  severity: z.enum(['error', 'warning', 'info']).optional(),
+  options: z.record(z.unknown()).optional()
+})
+
+export const RuleConfigurationSchema = z.object({
+  rules: z.record(RuleSettingSchema)
+})
+
+// Anything a rule can report: validator issues and best practice violations
+export interface RuleIssue {
+  rule: string
+  line: number
+  severity: ErrorSeverity
+}
+
+/**
+ * Looks up the settings of a rule. Rule ids are matched case-insensitively.
+ */
+export function ruleSetting(config: RuleConfiguration | undefined, rule: string): RuleSetting | undefined {
+  if (!config) return undefined
+  const lower = rule.toLowerCase()
+  const key = Object.keys(config.rules).find(candidate => candidate.toLowerCase() === lower)
+  return key === undefined ? undefined : config.rules[key]
+}
+
+export function isRuleEnabled(config: RuleConfiguration | undefined, rule: string): boolean {
+  return ruleSetting(config, rule)?.enabled !== false
+}
+
+/**
+ * Reads a rule option, falling back to the default when the option is
+ * missing or has a different type than the default
+ */
+export function ruleOption<T extends string | number | boolean>(
+  config: RuleConfiguration | undefined,
+  rule: string,
+  name: string,
+  fallback: T
+): T {
+  const value = ruleSetting(config, rule)?.options?.[name]
+  return typeof value === typeof fallback ? value as T : fallback
+}
+
+/**
+ * Drops issues of disabled rules and applies severity overrides. Returns new
+ * issue objects; the input is left untouched.
+ */
+export function applyRuleConfiguration<T extends RuleIssue>(issues: T[], config?: RuleConfiguration): T[] {
+  if (!config) return issues
+
+  return issues.flatMap(issue => {
+    const setting = ruleSetting(config, issue.rule)
+    if (setting?.enabled === false) return []
+    return [setting?.severity ? { ...issue, severity: setting.severity } : issue]
+  })
+}
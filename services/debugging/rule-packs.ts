@@ -0,0 +1,178 @@
+import { z } from 'zod'
+import { parse as parseYaml } from 'yaml'
+import { CodeLanguage, RulePack } from '../../types/debugging'
+import { BestPracticeRule } from './best-practices-enforcer'
+
+const MAX_RULES_PER_PACK = 200
+// Characters of a pack as uploaded or sent with an analysis request
+export const MAX_RULE_PACK_SIZE = 200000
+
+const RuleIdSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Ids may only contain letters, digits, "-" and "_"')
+
+const RulePackRuleSchema = z.object({
+  id: RuleIdSchema,
+  name: z.string().optional(),
+  pattern: z.string().min(1, 'Pattern is required'),
+  flags: z.string().regex(/^[imsu]*$/, 'Flags may only be i, m, s and u').optional(),
+  languages: z.array(z.enum(['ampscript', 'ssjs', 'sql', 'html', 'css', 'javascript', 'all'])).min(1),
+  category: z.enum(['naming', 'structure', 'performance', 'security', 'maintainability', 'documentation', 'error_handling']),
+  severity: z.enum(['error', 'warning', 'info']),
+  message: z.string().min(1, 'Message is required'),
+  suggestion: z.string().optional(),
+  documentation: z.string().url().optional(),
+  fix: z.object({
+    template: z.string(),
+    kind: z.enum(['safe', 'unsafe']).optional(),
+    description: z.string().optional()
+  }).optional()
+}).superRefine((rule, context) => {
+  try {
+    new RegExp(rule.pattern, rule.flags)
+  } catch (error) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pattern'],
+      message: error instanceof Error ? error.message : 'Invalid regular expression'
+    })
+    return
+  }
+  // Patterns run on the server against every analysed line
+  if (hasNestedQuantifier(rule.pattern)) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pattern'],
+      message: 'Repeated groups that contain a quantifier or an alternation, such as (a+)+ or (a|aa)+, can take exponential time'
+    })
+  }
+})
+
+export const RulePackSchema = z.object({
+  id: RuleIdSchema,
+  name: z.string().min(1, 'Pack name is required'),
+  description: z.string().optional(),
+  rules: z.array(RulePackRuleSchema).min(1).max(MAX_RULES_PER_PACK)
+}).superRefine((pack, context) => {
+  const seen = new Set<string>()
+  pack.rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'id'], message: `Duplicate rule id "${rule.id}"` })
+    }
+    seen.add(rule.id)
+  })
+})
+
+/**
+ * Finds a repeated group that itself repeats something or has alternatives,
+ * such as (a+)+, (\w*\s)* or (a|aa)+. Backtracking through such a group can
+ * take exponential time on text that almost matches.
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  // For each open group, whether it contains a quantifier or an alternation;
+  // closedGroup is the group just closed
+  const groups: boolean[] = []
+  let closedGroup: boolean | undefined
+  let inClass = false
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index]
+    const repeatsGroup = closedGroup
+    closedGroup = undefined
+
+    if (char === '\\') {
+      index++
+    } else if (inClass) {
+      inClass = char !== ']'
+    } else if (char === '[') {
+      inClass = true
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1] = true
+    } else if (char === ')') {
+      closedGroup = groups.pop() ?? false
+      if (closedGroup && groups.length > 0) groups[groups.length - 1] = true
+    } else if (char === '*' || char === '+' || /^\{\d+,/.test(pattern.slice(index, index + 12))) {
+      if (repeatsGroup) return true
+      if (groups.length > 0) groups[groups.length - 1] = true
+    }
+  }
+  return false
+}
+
+export type RulePackFormat = 'json' | 'yaml'
+
+export class RulePackError extends Error {
+  constructor(message: string, public errors: Array<{ path: string, message: string }>) {
+    super(message)
+    this.name = 'RulePackError'
+  }
+}
+
+/**
+ * Parses and validates a rule pack authored in JSON or YAML. Without a
+ * format, content starting with "{" is read as JSON and anything else as YAML.
+ */
+export function parseRulePack(content: string, format?: RulePackFormat): { pack: RulePack, format: RulePackFormat } {
+  if (content.length > MAX_RULE_PACK_SIZE) {
+    throw new RulePackError('Rule pack too large', [
+      { path: '', message: `Rule packs may have at most ${MAX_RULE_PACK_SIZE} characters` }
+    ])
+  }
+
+  const detected = format ?? (content.trimStart().startsWith('{') ? 'json' : 'yaml')
+
+  let data: unknown
+  try {
+    data = detected === 'json' ? JSON.parse(content) : parseYaml(content)
+  } catch (error) {
+    throw new RulePackError(`Invalid ${detected.toUpperCase()} format`, [
+      { path: '', message: error instanceof Error ? error.message : 'Unknown error' }
+    ])
+  }
+
+  return { pack: validateRulePack(data), format: detected }
+}
+
+export function validateRulePack(data: unknown): RulePack {
+  const result = RulePackSchema.safeParse(data)
+  if (!result.success) {
+    throw new RulePackError(
+      'Rule pack validation failed',
+      result.error.errors.map(err => ({ path: err.path.join('.'), message: err.message }))
+    )
+  }
+  return result.data
+}
+
+const compiled = new WeakMap<RulePack, BestPracticeRule[]>()
+
+/**
+ * Turns the rules of a pack into enforcer rules. Rule ids are prefixed with
+ * the pack id so they cannot collide with built-in or other packs' rules.
+ */
+export function compileRulePack(pack: RulePack): BestPracticeRule[] {
+  let rules = compiled.get(pack)
+  if (!rules) {
+    rules = pack.rules.map(rule => ({
+      id: `${pack.id}/${rule.id}`,
+      name: rule.name ?? rule.id,
+      category: rule.category,
+      severity: rule.severity,
+      // Global so every match on a line is reported
+      pattern: new RegExp(rule.pattern, 'g' + (rule.flags ?? '')),
+      message: rule.message,
+      suggestion: rule.suggestion ?? rule.message,
+      documentation: rule.documentation,
+      languages: rule.languages as CodeLanguage[],
+      ...(rule.fix && {
+        fix: {
+          template: rule.fix.template,
+          kind: rule.fix.kind ?? 'unsafe',
+          description: rule.fix.description ?? `Apply fix for ${rule.name ?? rule.id}`
+        }
+      })
+    }))
+    compiled.set(pack, rules)
+  }
+  return rules
+}
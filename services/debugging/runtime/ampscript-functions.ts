@@ -0,0 +1,477 @@
+import { createHash, randomUUID } from 'crypto'
+import vm from 'vm'
+import { MockDataExtensionRow } from '../../../types/debugging'
+import {
+  AMPScriptRow,
+  AMPScriptRowset,
+  AMPScriptRuntimeError,
+  AMPScriptScalar,
+  AMPScriptValue,
+  formatDateValue,
+  formatNumberValue,
+  fromMockValue,
+  isRow,
+  isRowset,
+  parseDateValue,
+  sameText,
+  toBoolean,
+  toDate,
+  toMockValue,
+  toNumber,
+  toText
+} from './ampscript-values'
+
+/**
+ * Services the interpreter provides to functions that read the mock context
+ * or produce output
+ */
+export interface AMPScriptFunctionContext {
+  readonly now: Date
+  write(text: string): void
+  attribute(name: string): AMPScriptScalar | undefined
+  requestParameter(name: string): string | undefined
+  // Mutable rows of a mock Data Extension; throws when it is not defined
+  rows(dataExtension: string): MockDataExtensionRow[]
+  renderContent(content: string): string
+  redirect(url: string): never
+  // Milliseconds left of the execution's time budget
+  remainingTime(): number
+  // Longest string a function may build
+  readonly maxStringLength: number
+}
+
+export interface AMPScriptFunction {
+  minArgs: number
+  maxArgs?: number
+  run(args: AMPScriptValue[], context: AMPScriptFunctionContext, name: string): AMPScriptValue
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'en-US': '$', 'en-CA': '$', 'en-AU': '$', 'en-GB': '£', 'de-DE': '€', 'fr-FR': '€',
+  'es-ES': '€', 'it-IT': '€', 'nl-NL': '€', 'ja-JP': '¥', 'en-IN': '₹'
+}
+
+const DATE_PARTS: Record<string, 'year' | 'month' | 'day' | 'hour' | 'minute'> = {
+  y: 'year', year: 'year', m: 'month', month: 'month', d: 'day', day: 'day',
+  h: 'hour', hour: 'hour', mi: 'minute', minute: 'minute'
+}
+
+// Patterns come from the script, so they run in a separate context where a
+// catastrophic backtracking pattern is stopped when the time budget runs out
+const regexContext = vm.createContext({})
+const REGEX_MATCH = new vm.Script('new RegExp(pattern, flags).exec(value)')
+const REGEX_REPLACE = new vm.Script("value.replace(new RegExp(pattern, 'g'), replacement)")
+
+function runRegex<T>(
+  script: vm.Script,
+  values: { value: string, pattern: string, flags?: string, replacement?: string },
+  context: AMPScriptFunctionContext,
+  name: string
+): T {
+  Object.assign(regexContext, values)
+  try {
+    return script.runInContext(regexContext, { timeout: Math.max(1, context.remainingTime()), displayErrors: false })
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new AMPScriptRuntimeError(`${name}: the regular expression '${values.pattern}' ran out of time`, 'ampscript-timeout')
+    }
+    throw new AMPScriptRuntimeError(`${name}: invalid regular expression '${values.pattern}'`)
+  }
+}
+
+function fn(minArgs: number, maxArgs: number | undefined, run: AMPScriptFunction['run']): AMPScriptFunction {
+  return { minArgs, maxArgs, run }
+}
+
+function text(value: AMPScriptValue): string {
+  return toText(value)
+}
+
+function scalar(value: AMPScriptValue, name: string): AMPScriptScalar {
+  if (isRow(value) || isRowset(value)) {
+    throw new AMPScriptRuntimeError(`${name}: a ${value.kind} cannot be used as a value`)
+  }
+  return value
+}
+
+function datePart(value: AMPScriptValue, name: string): 'year' | 'month' | 'day' | 'hour' | 'minute' {
+  const part = DATE_PARTS[text(value).toLowerCase()]
+  if (!part) {
+    throw new AMPScriptRuntimeError(`${name}: '${text(value)}' is not a date part. Use Y, M, D, H or MI`)
+  }
+  return part
+}
+
+function addToDate(date: Date, amount: number, part: ReturnType<typeof datePart>): Date {
+  const result = new Date(date.getTime())
+  switch (part) {
+    case 'year':
+      return addMonths(date, amount * 12)
+    case 'month':
+      return addMonths(date, amount)
+    case 'day':
+      result.setUTCDate(result.getUTCDate() + amount)
+      break
+    case 'hour':
+      result.setTime(result.getTime() + amount * 3600000)
+      break
+    case 'minute':
+      result.setTime(result.getTime() + amount * 60000)
+      break
+  }
+  return result
+}
+
+// Like .NET AddMonths: the day is clamped to the last day of the target month
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime())
+  const day = result.getUTCDate()
+  result.setUTCDate(1)
+  result.setUTCMonth(result.getUTCMonth() + months)
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate()
+  result.setUTCDate(Math.min(day, lastDay))
+  return result
+}
+
+function dateDifference(start: Date, end: Date, part: ReturnType<typeof datePart>): number {
+  switch (part) {
+    case 'year':
+      return end.getUTCFullYear() - start.getUTCFullYear()
+    case 'month':
+      return (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth()
+    case 'day':
+      return Math.floor(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate()) / 86400000) -
+        Math.floor(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()) / 86400000)
+    case 'hour':
+      return Math.trunc((end.getTime() - start.getTime()) / 3600000)
+    case 'minute':
+      return Math.trunc((end.getTime() - start.getTime()) / 60000)
+  }
+}
+
+// Data Extension helpers
+
+function fieldKey(row: MockDataExtensionRow | Record<string, unknown>, name: string): string | undefined {
+  const lower = name.toLowerCase()
+  return Object.keys(row).find(key => key.toLowerCase() === lower)
+}
+
+function toRow(row: MockDataExtensionRow): AMPScriptRow {
+  const values: Record<string, AMPScriptScalar> = {}
+  Object.entries(row).forEach(([key, value]) => {
+    values[key] = fromMockValue(value)
+  })
+  return { kind: 'row', values }
+}
+
+function rowset(rows: MockDataExtensionRow[]): AMPScriptRowset {
+  return { kind: 'rowset', rows: rows.map(toRow) }
+}
+
+function pairs(args: AMPScriptValue[], name: string): Array<[string, AMPScriptScalar]> {
+  if (args.length % 2 !== 0) {
+    throw new AMPScriptRuntimeError(`${name}: field names and values must be passed in pairs`)
+  }
+  const result: Array<[string, AMPScriptScalar]> = []
+  for (let i = 0; i < args.length; i += 2) {
+    result.push([text(args[i]), scalar(args[i + 1], name)])
+  }
+  return result
+}
+
+function checkFields(rows: MockDataExtensionRow[], fields: string[], dataExtension: string, name: string): void {
+  if (rows.length === 0) return
+  fields.forEach(field => {
+    if (!rows.some(row => fieldKey(row, field) !== undefined)) {
+      throw new AMPScriptRuntimeError(`${name}: field ${field} does not exist in Data Extension ${dataExtension}`)
+    }
+  })
+}
+
+function matchRows(
+  rows: MockDataExtensionRow[],
+  filters: Array<[string, AMPScriptScalar]>,
+  dataExtension: string,
+  name: string
+): MockDataExtensionRow[] {
+  checkFields(rows, filters.map(([field]) => field), dataExtension, name)
+  return rows.filter(row => filters.every(([field, value]) => {
+    const key = fieldKey(row, field)
+    return key !== undefined && sameText(fromMockValue(row[key]), value)
+  }))
+}
+
+function assign(row: MockDataExtensionRow, values: Array<[string, AMPScriptScalar]>): void {
+  values.forEach(([field, value]) => {
+    row[fieldKey(row, field) ?? field] = toMockValue(value)
+  })
+}
+
+function keyCount(value: AMPScriptValue, total: number, name: string): number {
+  const count = toNumber(value, name)
+  if (!Number.isInteger(count) || count < 1 || count * 2 > total) {
+    throw new AMPScriptRuntimeError(`${name}: the number of key fields (${text(value)}) does not match the arguments`)
+  }
+  return count
+}
+
+function orderRows(rows: MockDataExtensionRow[], orderBy: string): MockDataExtensionRow[] {
+  const clauses = orderBy.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const [field, direction] = part.split(/\s+/)
+    return { field, descending: direction?.toUpperCase() === 'DESC' }
+  })
+
+  return [...rows].sort((a, b) => {
+    for (const { field, descending } of clauses) {
+      const left = fromMockValue(a[fieldKey(a, field) ?? field])
+      const right = fromMockValue(b[fieldKey(b, field) ?? field])
+      if (left === right) continue
+      if (left === null) return 1
+      if (right === null) return -1
+      const leftDate = parseDateValue(left)
+      const rightDate = parseDateValue(right)
+      const order = leftDate && rightDate
+        ? Math.sign(leftDate.getTime() - rightDate.getTime())
+        : typeof left === 'number' && typeof right === 'number'
+          ? Math.sign(left - right)
+          : text(left).localeCompare(text(right), undefined, { numeric: true, sensitivity: 'base' })
+      if (order !== 0) return descending ? -order : order
+    }
+    return 0
+  })
+}
+
+function rowsetArg(value: AMPScriptValue, name: string): AMPScriptRowset {
+  if (!isRowset(value)) {
+    throw new AMPScriptRuntimeError(`${name} expects a rowset returned by LookupRows or BuildRowsetFromString`)
+  }
+  return value
+}
+
+function pageUrl(kind: string, args: AMPScriptValue[], name: string): string {
+  const query = pairs(args.slice(1), name)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(text(value))}`)
+    .join('&')
+  return `https://${kind}.mock.exacttarget.com/${encodeURIComponent(text(args[0]))}${query ? `?${query}` : ''}`
+}
+
+function hash(algorithm: string, value: AMPScriptValue): string {
+  return createHash(algorithm).update(text(value), 'utf8').digest('hex')
+}
+
+/**
+ * AMPScript functions the offline interpreter can run, keyed by lower-case
+ * name. Functions that call external systems (HTTP, Salesforce, SOAP
+ * objects, content blocks) are reported as unsupported by the interpreter.
+ */
+export const AMPSCRIPT_RUNTIME_FUNCTIONS: Record<string, AMPScriptFunction> = {
+  // Output and variables
+  v: fn(1, 1, ([value]) => value),
+  output: fn(1, 1, ([value], context) => {
+    context.write(text(value))
+    return null
+  }),
+  attributevalue: fn(1, 1, ([name], context) => context.attribute(text(name)) ?? null),
+  treatascontent: fn(1, 1, ([content], context) => context.renderContent(text(content))),
+  treatascontentarea: fn(2, 3, ([, content], context) => context.renderContent(text(content))),
+
+  // Strings
+  concat: fn(1, undefined, args => args.map(text).join('')),
+  length: fn(1, 1, ([value]) => text(value).length),
+  substring: fn(2, 3, ([value, start, length], _context, name) => {
+    const source = text(value)
+    const from = toNumber(start, name) - 1
+    if (from < 0) throw new AMPScriptRuntimeError(`${name}: the start position must be 1 or greater`)
+    return length === undefined ? source.slice(from) : source.substr(from, toNumber(length, name))
+  }),
+  replace: fn(3, 3, ([value, search, replacement]) => text(value).split(text(search)).join(text(replacement))),
+  uppercase: fn(1, 1, ([value]) => text(value).toUpperCase()),
+  lowercase: fn(1, 1, ([value]) => text(value).toLowerCase()),
+  trim: fn(1, 1, ([value]) => text(value).trim()),
+  propercase: fn(1, 1, ([value]) => text(value).toLowerCase().replace(/(^|[^a-z'])([a-z])/g, (_match, before, letter) => before + letter.toUpperCase())),
+  indexof: fn(2, 2, ([value, search]) => text(value).indexOf(text(search)) + 1),
+  char: fn(1, 2, ([code, repeat], context, name) => {
+    const count = repeat === undefined ? 1 : toNumber(repeat, name)
+    if (count > context.maxStringLength) {
+      throw new AMPScriptRuntimeError(`${name}: the result would be longer than ${context.maxStringLength} characters`, 'ampscript-runtime-limit')
+    }
+    return String.fromCharCode(toNumber(code, name)).repeat(count)
+  }),
+  regexmatch: fn(3, 4, ([value, pattern, group, ...options], context, name) => {
+    const flags = options.some(option => /ignorecase/i.test(text(option))) ? 'i' : ''
+    const match = runRegex<RegExpExecArray | null>(REGEX_MATCH, { value: text(value), pattern: text(pattern), flags }, context, name)
+    if (!match) return ''
+    const index = isNaN(Number(group)) ? match.groups?.[text(group)] : match[toNumber(group, name)]
+    return index ?? ''
+  }),
+  regexreplace: fn(3, 3, ([value, pattern, replacement], context, name) =>
+    runRegex<string>(REGEX_REPLACE, { value: text(value), pattern: text(pattern), replacement: text(replacement) }, context, name)),
+  urlencode: fn(1, 3, ([value, spaceAsPlus]) => {
+    const encoded = encodeURIComponent(text(value))
+    return spaceAsPlus !== undefined && toBoolean(spaceAsPlus) ? encoded.replace(/%20/g, '+') : encoded
+  }),
+  htmlencode: fn(1, 1, ([value]) => text(value)
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;')),
+  base64encode: fn(1, 2, ([value]) => Buffer.from(text(value), 'utf8').toString('base64')),
+  base64decode: fn(1, 3, ([value]) => Buffer.from(text(value), 'base64').toString('utf8')),
+  stringtohex: fn(1, 2, ([value]) => Buffer.from(text(value), 'utf8').toString('hex')),
+  md5: fn(1, 2, ([value]) => hash('md5', value)),
+  sha1: fn(1, 2, ([value]) => hash('sha1', value)),
+  sha256: fn(1, 2, ([value]) => hash('sha256', value)),
+  guid: fn(0, 0, () => randomUUID()),
+
+  // Numbers
+  add: fn(2, 2, ([a, b], _context, name) => toNumber(a, name) + toNumber(b, name)),
+  subtract: fn(2, 2, ([a, b], _context, name) => toNumber(a, name) - toNumber(b, name)),
+  multiply: fn(2, 2, ([a, b], _context, name) => toNumber(a, name) * toNumber(b, name)),
+  divide: fn(2, 2, ([a, b], _context, name) => {
+    const divisor = toNumber(b, name)
+    if (divisor === 0) throw new AMPScriptRuntimeError(`${name}: division by zero`)
+    return toNumber(a, name) / divisor
+  }),
+  mod: fn(2, 2, ([a, b], _context, name) => {
+    const divisor = toNumber(b, name)
+    if (divisor === 0) throw new AMPScriptRuntimeError(`${name}: division by zero`)
+    return toNumber(a, name) % divisor
+  }),
+  random: fn(2, 2, ([min, max], _context, name) => {
+    const low = Math.ceil(toNumber(min, name))
+    const high = Math.floor(toNumber(max, name))
+    return low + Math.floor(Math.random() * (high - low + 1))
+  }),
+
+  // Dates
+  now: fn(0, 1, (_args, context) => context.now),
+  stringtodate: fn(1, 1, ([value], _context, name) => toDate(value, name)),
+  systemdatetolocaldate: fn(1, 1, ([value], _context, name) => toDate(value, name)),
+  dateadd: fn(3, 3, ([date, amount, part], _context, name) =>
+    addToDate(toDate(date, name), toNumber(amount, name), datePart(part, name))),
+  datediff: fn(3, 3, ([start, end, part], _context, name) =>
+    dateDifference(toDate(start, name), toDate(end, name), datePart(part, name))),
+  datepart: fn(2, 2, ([date, part], _context, name) => {
+    const value = toDate(date, name)
+    switch (datePart(part, name)) {
+      case 'year': return value.getUTCFullYear()
+      case 'month': return value.getUTCMonth() + 1
+      case 'day': return value.getUTCDate()
+      case 'hour': return value.getUTCHours()
+      case 'minute': return value.getUTCMinutes()
+    }
+  }),
+
+  // Formatting
+  format: fn(2, 4, ([value, format], _context, name) => {
+    const pattern = text(format)
+    if (value instanceof Date || (!/^[NnCcFfPpDd]\d*$|^[#0,.]+$/.test(pattern) && parseDateValue(value))) {
+      return formatDateValue(toDate(value, name), pattern)
+    }
+    return formatNumberValue(toNumber(value, name), pattern)
+  }),
+  formatnumber: fn(2, 3, ([value, format], _context, name) => formatNumberValue(toNumber(value, name), text(format))),
+  formatcurrency: fn(2, 4, ([value, culture, precision, symbol], _context, name) => {
+    const digits = precision === undefined ? 2 : toNumber(precision, name)
+    const currency = symbol !== undefined ? text(symbol) : CURRENCY_SYMBOLS[text(culture)] ?? '$'
+    return formatNumberValue(toNumber(value, name), `C${digits}`, currency)
+  }),
+  formatdate: fn(2, 4, ([value, dateFormat, timeFormat], _context, name) => {
+    const date = toDate(value, name)
+    const formatted = formatDateValue(date, text(dateFormat))
+    return timeFormat !== undefined && text(timeFormat) ? `${formatted} ${formatDateValue(date, text(timeFormat))}` : formatted
+  }),
+
+  // Logic
+  isnull: fn(1, 1, ([value]) => value === null),
+  empty: fn(1, 1, ([value]) => value === null || value === '' || (isRowset(value) && value.rows.length === 0)),
+  iif: fn(3, 3, ([condition, whenTrue, whenFalse]) => (toBoolean(condition) ? whenTrue : whenFalse)),
+  raiseerror: fn(1, 4, ([message]) => {
+    throw new AMPScriptRuntimeError(text(message), 'ampscript-raise-error')
+  }),
+
+  // Data Extensions
+  lookup: fn(4, undefined, ([dataExtension, field, ...filters], context, name) => {
+    const rows = context.rows(text(dataExtension))
+    checkFields(rows, [text(field)], text(dataExtension), name)
+    const [match] = matchRows(rows, pairs(filters, name), text(dataExtension), name)
+    const key = match && fieldKey(match, text(field))
+    return key ? fromMockValue(match[key]) : null
+  }),
+  lookuprows: fn(3, undefined, ([dataExtension, ...filters], context, name) =>
+    rowset(matchRows(context.rows(text(dataExtension)), pairs(filters, name), text(dataExtension), name))),
+  lookuporderedrows: fn(5, undefined, ([dataExtension, count, orderBy, ...filters], context, name) => {
+    const rows = matchRows(context.rows(text(dataExtension)), pairs(filters, name), text(dataExtension), name)
+    const ordered = orderRows(rows, text(orderBy))
+    const limit = toNumber(count, name)
+    return rowset(limit > 0 ? ordered.slice(0, limit) : ordered)
+  }),
+  buildrowsetfromstring: fn(2, 2, ([value, delimiter]) => ({
+    kind: 'rowset',
+    rows: text(value).split(text(delimiter)).map(part => ({ kind: 'row', values: { 1: part } }))
+  })),
+  rowcount: fn(1, 1, ([value], _context, name) => rowsetArg(value, name).rows.length),
+  row: fn(2, 2, ([value, index], _context, name) => {
+    const { rows } = rowsetArg(value, name)
+    const position = toNumber(index, name)
+    if (!Number.isInteger(position) || position < 1 || position > rows.length) {
+      throw new AMPScriptRuntimeError(`${name}: row ${text(index)} is out of range. The rowset has ${rows.length} rows`)
+    }
+    return rows[position - 1]
+  }),
+  field: fn(2, 3, ([value, field, errorIfMissing], _context, name) => {
+    if (!isRow(value)) {
+      throw new AMPScriptRuntimeError(`${name} expects a row returned by Row()`)
+    }
+    const fieldName = text(field)
+    const key = fieldKey(value.values, fieldName)
+    if (key !== undefined) return value.values[key]
+
+    const ordinal = Number(fieldName)
+    const ordered = Object.values(value.values)
+    if (Number.isInteger(ordinal) && ordinal >= 1 && ordinal <= ordered.length) return ordered[ordinal - 1]
+
+    if (errorIfMissing === undefined || toBoolean(errorIfMissing)) {
+      throw new AMPScriptRuntimeError(`${name}: the row has no field named ${fieldName}`)
+    }
+    return null
+  }),
+  insertdata: fn(3, undefined, ([dataExtension, ...values], context, name) => {
+    const row: MockDataExtensionRow = {}
+    assign(row, pairs(values, name))
+    context.rows(text(dataExtension)).push(row)
+    return 1
+  }),
+  updatedata: fn(4, undefined, ([dataExtension, count, ...values], context, name) => {
+    const keys = keyCount(count, values.length, name)
+    const rows = context.rows(text(dataExtension))
+    const matches = matchRows(rows, pairs(values.slice(0, keys * 2), name), text(dataExtension), name)
+    matches.forEach(row => assign(row, pairs(values.slice(keys * 2), name)))
+    return matches.length
+  }),
+  upsertdata: fn(4, undefined, ([dataExtension, count, ...values], context, name) => {
+    const keys = keyCount(count, values.length, name)
+    const rows = context.rows(text(dataExtension))
+    const keyValues = pairs(values.slice(0, keys * 2), name)
+    const matches = matchRows(rows, keyValues, text(dataExtension), name)
+    if (matches.length === 0) {
+      const row: MockDataExtensionRow = {}
+      assign(row, [...keyValues, ...pairs(values.slice(keys * 2), name)])
+      rows.push(row)
+      return 1
+    }
+    matches.forEach(row => assign(row, pairs(values.slice(keys * 2), name)))
+    return matches.length
+  }),
+  deletedata: fn(3, undefined, ([dataExtension, ...filters], context, name) => {
+    const rows = context.rows(text(dataExtension))
+    const matches = matchRows(rows, pairs(filters, name), text(dataExtension), name)
+    matches.forEach(row => rows.splice(rows.indexOf(row), 1))
+    return matches.length
+  }),
+
+  // Pages and requests
+  requestparameter: fn(1, 1, ([name], context) => context.requestParameter(text(name)) ?? ''),
+  queryparameter: fn(1, 1, ([name], context) => context.requestParameter(text(name)) ?? ''),
+  cloudpagesurl: fn(1, undefined, (args, _context, name) => pageUrl('cloud', args, name)),
+  micrositeurl: fn(1, undefined, (args, _context, name) => pageUrl('pages', args, name)),
+  redirectto: fn(1, 1, ([url]) => text(url)),
+  redirect: fn(1, 2, ([url], context) => context.redirect(text(url)))
+}
@@ -0,0 +1,461 @@
+import {
+  CodeInterpreter,
+  DebugError,
+  ErrorSeverity,
+  ExecutionContext,
+  ExecutionResult,
+  MockDataExtensionRow,
+  SourceRange,
+  VariableTraceEntry
+} from '../../../types/debugging'
+import { parseAMPScript } from '../parsers/ampscript-parser'
+import {
+  AMPScriptExpression,
+  AMPScriptStatement,
+  CallExpressionNode,
+  ForStatementNode,
+  IfStatementNode
+} from '../parsers/ampscript-ast'
+import { rangeToLocation } from '../parsers/source-text'
+import { AMPScriptValidator } from '../validators/ampscript-validator'
+import { AMPSCRIPT_RUNTIME_FUNCTIONS, AMPScriptFunctionContext } from './ampscript-functions'
+import {
+  AMPScriptRuntimeError,
+  AMPScriptScalar,
+  AMPScriptValue,
+  compareValues,
+  fromMockValue,
+  isRow,
+  isRowset,
+  parseDateValue,
+  toBoolean,
+  toNumber,
+  toText
+} from './ampscript-values'
+
+export interface AMPScriptInterpreterOptions {
+  // Total FOR loop iterations allowed before execution is stopped
+  maxIterations: number
+  // Nesting allowed for TreatAsContent
+  maxContentDepth: number
+  // Wall-clock budget for running the script, regular expressions included
+  timeoutMs: number
+  // Longest string a function may build
+  maxStringLength: number
+}
+
+const DEFAULT_OPTIONS: AMPScriptInterpreterOptions = {
+  maxIterations: 10000,
+  maxContentDepth: 10,
+  timeoutMs: 1000,
+  maxStringLength: 1000000
+}
+
+/**
+ * Runs AMPScript offline against mock subscriber attributes and in-memory
+ * Data Extension rows, so scripts can be tried without publishing a page
+ */
+export class AMPScriptInterpreter implements CodeInterpreter {
+  private readonly options: AMPScriptInterpreterOptions
+
+  constructor(options: Partial<AMPScriptInterpreterOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  execute(code: string, context: ExecutionContext = {}): ExecutionResult {
+    const startTime = Date.now()
+    const { program, diagnostics } = parseAMPScript(code)
+    const execution = new AMPScriptExecution(context, this.options)
+
+    // SFMC refuses to run scripts that do not parse
+    const syntaxErrors = diagnostics.filter(diagnostic => diagnostic.severity === 'error')
+    if (syntaxErrors.length > 0) {
+      return {
+        ...execution.result(false),
+        errors: syntaxErrors.map(diagnostic => createError(
+          'syntax',
+          diagnostic.range,
+          'error',
+          diagnostic.message,
+          diagnostic.rule,
+          diagnostic.fixSuggestion
+        )),
+        executionTime: Date.now() - startTime
+      }
+    }
+
+    const completed = execution.run(program.body)
+    return { ...execution.result(completed), executionTime: Date.now() - startTime }
+  }
+}
+
+// Raised by Redirect() to stop rendering the rest of the page
+class RedirectSignal {
+  constructor(public readonly url: string) {}
+}
+
+class AMPScriptExecution implements AMPScriptFunctionContext {
+  readonly now: Date
+  readonly maxStringLength: number
+  private readonly deadline: number
+  private readonly output: string[] = []
+  private readonly variables = new Map<string, AMPScriptValue>()
+  private readonly trace: VariableTraceEntry[] = []
+  private readonly errors: DebugError[] = []
+  private readonly dataExtensions: Record<string, MockDataExtensionRow[]>
+  private readonly attributes: Map<string, AMPScriptScalar>
+  private redirectUrl?: string
+  private iterations = 0
+  private contentDepth = 0
+
+  constructor(
+    private readonly context: ExecutionContext,
+    private readonly options: AMPScriptInterpreterOptions
+  ) {
+    this.now = (context.now && parseDateValue(context.now)) || new Date()
+    this.deadline = Date.now() + options.timeoutMs
+    this.maxStringLength = options.maxStringLength
+
+    // Writes must not leak into the caller's mock data
+    this.dataExtensions = {}
+    Object.entries(context.dataExtensions || {}).forEach(([name, rows]) => {
+      this.dataExtensions[name] = rows.map(row => ({ ...row }))
+    })
+
+    // Personalization strings take precedence over attributes of the same name
+    this.attributes = new Map()
+    ;[context.attributes, context.personalizationStrings].forEach(values => {
+      Object.entries(values || {}).forEach(([name, value]) => this.attributes.set(name.toLowerCase(), fromMockValue(value)))
+    })
+  }
+
+  run(statements: AMPScriptStatement[]): boolean {
+    try {
+      this.executeBlock(statements)
+      return true
+    } catch (error) {
+      if (error instanceof RedirectSignal) {
+        this.redirectUrl = error.url
+        return true
+      }
+      const runtimeError = error instanceof AMPScriptRuntimeError
+        ? error
+        : new AMPScriptRuntimeError(error instanceof Error ? error.message : 'Unknown runtime error')
+      this.errors.push(createError(
+        'runtime',
+        runtimeError.range,
+        'error',
+        runtimeError.message,
+        runtimeError.rule,
+        RUNTIME_FIX_SUGGESTIONS[runtimeError.rule]
+      ))
+      return false
+    }
+  }
+
+  result(completed: boolean): ExecutionResult {
+    return {
+      language: 'ampscript',
+      output: this.output.join(''),
+      trace: this.trace,
+      errors: this.errors,
+      dataExtensions: this.dataExtensions,
+      redirectUrl: this.redirectUrl,
+      completed,
+      executionTime: 0
+    }
+  }
+
+  // AMPScriptFunctionContext
+
+  write(text: string): void {
+    this.output.push(text)
+  }
+
+  attribute(name: string): AMPScriptScalar | undefined {
+    return this.attributes.get(name.toLowerCase())
+  }
+
+  requestParameter(name: string): string | undefined {
+    const lower = name.toLowerCase()
+    const key = Object.keys(this.context.requestParameters || {}).find(candidate => candidate.toLowerCase() === lower)
+    return key !== undefined ? this.context.requestParameters![key] : undefined
+  }
+
+  rows(dataExtension: string): MockDataExtensionRow[] {
+    const lower = dataExtension.toLowerCase()
+    const key = Object.keys(this.dataExtensions).find(name => name.toLowerCase() === lower)
+    if (key === undefined) {
+      throw new AMPScriptRuntimeError(
+        `Data Extension ${dataExtension} was not found in the mock data`,
+        'ampscript-runtime-missing-data-extension'
+      )
+    }
+    return this.dataExtensions[key]
+  }
+
+  renderContent(content: string): string {
+    if (this.contentDepth >= this.options.maxContentDepth) {
+      throw new AMPScriptRuntimeError('TreatAsContent is nested too deeply', 'ampscript-runtime-limit')
+    }
+
+    // Content is never a bare script, even without delimiters
+    const { program, diagnostics } = parseAMPScript(content, false)
+    const syntaxError = diagnostics.find(diagnostic => diagnostic.severity === 'error')
+    if (syntaxError) {
+      throw new AMPScriptRuntimeError(`Content passed to TreatAsContent does not parse: ${syntaxError.message}`)
+    }
+
+    // Nested content shares variables but renders into its own buffer
+    const start = this.output.length
+    this.contentDepth++
+    try {
+      this.executeBlock(program.body)
+    } catch (error) {
+      if (error instanceof AMPScriptRuntimeError) {
+        throw new AMPScriptRuntimeError(`In content passed to TreatAsContent: ${error.message}`, error.rule)
+      }
+      throw error
+    } finally {
+      this.contentDepth--
+    }
+    return this.output.splice(start).join('')
+  }
+
+  redirect(url: string): never {
+    throw new RedirectSignal(url)
+  }
+
+  remainingTime(): number {
+    return this.deadline - Date.now()
+  }
+
+  // Statements
+
+  private executeBlock(statements: AMPScriptStatement[]): void {
+    statements.forEach(statement => this.executeStatement(statement))
+  }
+
+  private executeStatement(statement: AMPScriptStatement): void {
+    if (this.remainingTime() <= 0) {
+      throw this.located(new AMPScriptRuntimeError(
+        `Execution stopped after ${this.options.timeoutMs} ms`,
+        'ampscript-timeout'
+      ), statement.range)
+    }
+
+    switch (statement.type) {
+      case 'Content':
+        this.write(statement.text)
+        break
+      case 'Personalization':
+        this.write(toText(this.readAttribute(statement.name, statement.range, `%%${statement.name}%%`)))
+        break
+      case 'InlineOutput':
+        if (statement.expression) {
+          this.write(toText(this.withRange(statement.range, () => this.evaluate(statement.expression!))))
+        }
+        break
+      case 'Var':
+        statement.variables.forEach(variable => {
+          this.variables.set(variable.name.toLowerCase(), null)
+        })
+        break
+      case 'Set':
+        if (statement.value) {
+          const value = this.evaluate(statement.value)
+          this.assign(statement.target.name, value, statement.range)
+        }
+        break
+      case 'If':
+        this.executeIf(statement)
+        break
+      case 'For':
+        this.executeFor(statement)
+        break
+      case 'ExpressionStatement':
+        this.evaluate(statement.expression)
+        break
+    }
+  }
+
+  private executeIf(statement: IfStatementNode): void {
+    if (this.condition(statement.condition, statement.keywordRange)) {
+      this.executeBlock(statement.consequent)
+      return
+    }
+
+    const branch = statement.elseIfs.find(elseIf => this.condition(elseIf.condition, elseIf.range))
+    if (branch) {
+      this.executeBlock(branch.body)
+    } else if (statement.alternate) {
+      this.executeBlock(statement.alternate)
+    }
+  }
+
+  private executeFor(statement: ForStatementNode): void {
+    if (!statement.counter || !statement.start || !statement.end) return
+
+    const start = this.withRange(statement.start.range, () => toNumber(this.evaluate(statement.start!), 'FOR'))
+    const end = this.withRange(statement.end.range, () => toNumber(this.evaluate(statement.end!), 'FOR'))
+    const step = statement.direction === 'TO' ? 1 : -1
+
+    for (let counter = start; step > 0 ? counter <= end : counter >= end; counter += step) {
+      if (++this.iterations > this.options.maxIterations) {
+        throw this.located(new AMPScriptRuntimeError(
+          `Execution stopped after ${this.options.maxIterations} loop iterations`,
+          'ampscript-runtime-limit'
+        ), statement.keywordRange)
+      }
+      this.assign(statement.counter.name, counter, statement.counter.range)
+      this.executeBlock(statement.body)
+    }
+  }
+
+  private condition(expression: AMPScriptExpression | null, range: SourceRange): boolean {
+    return expression ? this.withRange(range, () => toBoolean(this.evaluate(expression))) : false
+  }
+
+  private assign(name: string, value: AMPScriptValue, range: SourceRange): void {
+    this.variables.set(name.toLowerCase(), value)
+    this.trace.push({
+      variable: name,
+      value: describeValue(value),
+      line: range.start.line,
+      column: range.start.column
+    })
+  }
+
+  // Expressions
+
+  private evaluate(expression: AMPScriptExpression): AMPScriptValue {
+    switch (expression.type) {
+      case 'String':
+      case 'Number':
+      case 'Boolean':
+        return expression.value
+      case 'Variable':
+        return this.variables.get(expression.name.toLowerCase()) ?? null
+      case 'Attribute':
+        return this.readAttribute(expression.name, expression.range, expression.bracketed ? `[${expression.name}]` : expression.name)
+      case 'Unary':
+        return !toBoolean(this.evaluate(expression.argument))
+      case 'Binary':
+        return this.withRange(expression.operatorRange, () => {
+          switch (expression.operator) {
+            case 'AND':
+              return toBoolean(this.evaluate(expression.left)) && toBoolean(this.evaluate(expression.right))
+            case 'OR':
+              return toBoolean(this.evaluate(expression.left)) || toBoolean(this.evaluate(expression.right))
+          }
+
+          const order = compareValues(this.evaluate(expression.left), this.evaluate(expression.right))
+          switch (expression.operator) {
+            case '==': return order === 0
+            case '!=': return order !== 0
+            case '<': return order < 0
+            case '>': return order > 0
+            case '<=': return order <= 0
+            case '>=': return order >= 0
+          }
+        })
+      case 'Call':
+        return this.call(expression)
+    }
+  }
+
+  private call(node: CallExpressionNode): AMPScriptValue {
+    const definition = AMPSCRIPT_RUNTIME_FUNCTIONS[node.callee.toLowerCase()]
+
+    if (!definition) {
+      throw this.located(AMPScriptValidator.isKnownFunction(node.callee)
+        ? new AMPScriptRuntimeError(
+          `${node.callee} calls an external system and cannot run offline`,
+          'ampscript-runtime-unsupported'
+        )
+        : new AMPScriptRuntimeError(`Unknown AMPScript function: ${node.callee}`), node.calleeRange)
+    }
+
+    const count = node.args.length
+    if (count < definition.minArgs || (definition.maxArgs !== undefined && count > definition.maxArgs)) {
+      const expected = definition.maxArgs === undefined
+        ? `at least ${definition.minArgs}`
+        : definition.minArgs === definition.maxArgs
+          ? `${definition.minArgs}`
+          : `${definition.minArgs} to ${definition.maxArgs}`
+      throw this.located(
+        new AMPScriptRuntimeError(`${node.callee} expects ${expected} arguments but got ${count}`),
+        node.range
+      )
+    }
+
+    const args = node.args.map(arg => this.evaluate(arg))
+    return this.withRange(node.range, () => definition.run(args, this, node.callee))
+  }
+
+  private readAttribute(name: string, range: SourceRange, reference: string): AMPScriptScalar {
+    const value = this.attribute(name)
+    if (value === undefined) {
+      throw this.located(new AMPScriptRuntimeError(
+        `${reference} is not a subscriber attribute or personalization string in the mock context`,
+        'ampscript-runtime-unknown-attribute'
+      ), range)
+    }
+    return value
+  }
+
+  /**
+   * Runs a step and attaches its range to runtime errors raised without one
+   */
+  private withRange<T>(range: SourceRange, step: () => T): T {
+    try {
+      return step()
+    } catch (error) {
+      if (error instanceof AMPScriptRuntimeError) {
+        throw this.located(error, range)
+      }
+      throw error
+    }
+  }
+
+  private located(error: AMPScriptRuntimeError, range: SourceRange): AMPScriptRuntimeError {
+    if (!error.range) error.range = range
+    return error
+  }
+}
+
+const RUNTIME_FIX_SUGGESTIONS: Record<string, string> = {
+  'ampscript-runtime-unsupported': 'Test this part of the script on a published CloudPage',
+  'ampscript-runtime-unknown-attribute': 'Add the attribute to the mock context, or read it with AttributeValue() to allow empty values',
+  'ampscript-runtime-missing-data-extension': 'Add rows for the Data Extension to the mock context',
+  'ampscript-runtime-limit': 'Check the loop bounds',
+  'ampscript-timeout': 'Avoid nested quantifiers such as (a+)+ in regular expressions and check the loop bounds; SFMC also ends long-running scripts'
+}
+
+function describeValue(value: AMPScriptValue): string {
+  if (isRowset(value)) return `[Rowset: ${value.rows.length} row${value.rows.length === 1 ? '' : 's'}]`
+  if (isRow(value)) {
+    return `[Row: ${Object.entries(value.values).map(([field, fieldValue]) => `${field}=${toText(fieldValue)}`).join(', ')}]`
+  }
+  return toText(value)
+}
+
+function createError(
+  idPrefix: string,
+  range: SourceRange | undefined,
+  severity: ErrorSeverity,
+  message: string,
+  rule: string,
+  fixSuggestion?: string
+): DebugError {
+  const location = range ? rangeToLocation(range) : { line: 1, column: 1 }
+  return {
+    id: `${idPrefix}_${location.line}_${location.column}`,
+    ...location,
+    severity,
+    message,
+    rule,
+    category: 'runtime',
+    fixSuggestion
+  }
+}
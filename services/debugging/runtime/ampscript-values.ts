@@ -0,0 +1,264 @@
+import { MockFieldValue, SourceRange } from '../../../types/debugging'
+
+// Runtime values of the offline AMPScript interpreter. AMPScript is loosely
+// typed: most values travel as strings and are converted where a function
+// or operator needs a number, date or boolean.
+
+export type AMPScriptScalar = string | number | boolean | Date | null
+
+export interface AMPScriptRow {
+  kind: 'row'
+  // Field values in Data Extension column order
+  values: Record<string, AMPScriptScalar>
+}
+
+export interface AMPScriptRowset {
+  kind: 'rowset'
+  rows: AMPScriptRow[]
+}
+
+export type AMPScriptValue = AMPScriptScalar | AMPScriptRow | AMPScriptRowset
+
+/**
+ * Error raised while executing AMPScript. SFMC stops rendering at the first
+ * runtime error, so the interpreter does the same.
+ */
+export class AMPScriptRuntimeError extends Error {
+  // Set by the interpreter to the innermost node that was executing
+  range?: SourceRange
+
+  constructor(message: string, public rule = 'ampscript-runtime-error') {
+    super(message)
+    this.name = 'AMPScriptRuntimeError'
+  }
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const US_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?$/i
+
+export function isRow(value: AMPScriptValue): value is AMPScriptRow {
+  return isObjectValue(value) && value.kind === 'row'
+}
+
+export function isRowset(value: AMPScriptValue): value is AMPScriptRowset {
+  return isObjectValue(value) && value.kind === 'rowset'
+}
+
+function isObjectValue(value: AMPScriptValue): value is AMPScriptRow | AMPScriptRowset {
+  return value !== null && typeof value === 'object' && !(value instanceof Date)
+}
+
+export function fromMockValue(value: MockFieldValue | undefined): AMPScriptScalar {
+  return value === undefined ? null : value
+}
+
+export function toMockValue(value: AMPScriptScalar): MockFieldValue {
+  return value instanceof Date ? formatDateValue(value, 'G') : value
+}
+
+/**
+ * Converts a value the way SFMC prints it into content
+ */
+export function toText(value: AMPScriptValue): string {
+  if (value === null) return ''
+  if (value instanceof Date) return formatDateValue(value, 'G')
+  if (typeof value === 'boolean') return value ? 'True' : 'False'
+  if (typeof value === 'number') return String(value)
+  if (isRowset(value)) throw new AMPScriptRuntimeError('A rowset cannot be used as a string. Use Row() and Field() to read its values')
+  if (isRow(value)) throw new AMPScriptRuntimeError('A row cannot be used as a string. Use Field() to read its values')
+  return value
+}
+
+export function isNumeric(value: AMPScriptValue): boolean {
+  if (typeof value === 'number') return true
+  return typeof value === 'string' && /^\s*-?(\d+\.?\d*|\.\d+)\s*$/.test(value)
+}
+
+export function toNumber(value: AMPScriptValue, functionName?: string): number {
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (isNumeric(value)) return parseFloat(value as string)
+
+  const text = value === null ? 'an empty value' : `'${toText(value)}'`
+  throw new AMPScriptRuntimeError(
+    `${functionName ? `${functionName}: ` : ''}${text} is not a valid number`
+  )
+}
+
+export function toBoolean(value: AMPScriptValue): boolean {
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value !== 0
+  if (value === null || value instanceof Date) return value !== null
+  if (isRowset(value)) return value.rows.length > 0
+  if (isRow(value)) return true
+  return /^\s*(true|1)\s*$/i.test(value)
+}
+
+/**
+ * Parses ISO timestamps and the US M/d/yyyy h:mm:ss tt format SFMC outputs.
+ * Dates without an offset are read as UTC so results do not depend on the
+ * server time zone.
+ */
+export function parseDateValue(value: AMPScriptValue): Date | null {
+  if (value instanceof Date) return value
+  if (typeof value !== 'string' || !value.trim()) return null
+
+  const text = value.trim()
+  const us = US_DATE_PATTERN.exec(text)
+  if (us) {
+    let hours = us[4] ? parseInt(us[4], 10) : 0
+    const meridiem = us[7]?.toUpperCase()
+    if (meridiem === 'PM' && hours < 12) hours += 12
+    if (meridiem === 'AM' && hours === 12) hours = 0
+    return new Date(Date.UTC(
+      parseInt(us[3], 10),
+      parseInt(us[1], 10) - 1,
+      parseInt(us[2], 10),
+      hours,
+      us[5] ? parseInt(us[5], 10) : 0,
+      us[6] ? parseInt(us[6], 10) : 0
+    ))
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}/.test(text)) return null
+  const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(text)
+  const parsed = new Date(hasOffset || text.length === 10 ? text : `${text}Z`)
+  return isNaN(parsed.getTime()) ? null : parsed
+}
+
+export function toDate(value: AMPScriptValue, functionName?: string): Date {
+  const date = parseDateValue(value)
+  if (!date) {
+    const text = value === null ? 'an empty value' : `'${toText(value)}'`
+    throw new AMPScriptRuntimeError(`${functionName ? `${functionName}: ` : ''}${text} is not a valid date`)
+  }
+  return date
+}
+
+/**
+ * Compares two values with AMPScript semantics: numbers numerically, dates
+ * chronologically and everything else as case-insensitive text
+ */
+export function compareValues(left: AMPScriptValue, right: AMPScriptValue): number {
+  if (isNumeric(left) && isNumeric(right)) {
+    return Math.sign(toNumber(left) - toNumber(right))
+  }
+
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return toBoolean(left) === toBoolean(right) ? 0 : toBoolean(left) ? 1 : -1
+  }
+
+  const leftDate = left instanceof Date || right instanceof Date ? parseDateValue(left) : null
+  const rightDate = leftDate ? parseDateValue(right) : null
+  if (leftDate && rightDate) {
+    return Math.sign(leftDate.getTime() - rightDate.getTime())
+  }
+
+  const leftText = toText(left).toLowerCase()
+  const rightText = toText(right).toLowerCase()
+  return leftText === rightText ? 0 : leftText < rightText ? -1 : 1
+}
+
+export function sameText(left: AMPScriptValue, right: AMPScriptValue): boolean {
+  return compareValues(left, right) === 0
+}
+
+/**
+ * Formats a date with .NET standard ('d', 'D', 'G', 'iso', ...) or custom
+ * ('MM/dd/yyyy h:mm tt') format strings
+ */
+export function formatDateValue(date: Date, format: string): string {
+  switch (format) {
+    case 'd':
+      return formatDateValue(date, 'M/d/yyyy')
+    case 's':
+      return formatDateValue(date, 'yyyy-MM-ddTHH:mm:ss')
+    case 'D':
+    case 'l':
+      return formatDateValue(date, 'dddd, MMMM d, yyyy')
+    case 't':
+      return formatDateValue(date, 'h:mm tt')
+    case 'T':
+      return formatDateValue(date, 'h:mm:ss tt')
+    case 'g':
+      return formatDateValue(date, 'M/d/yyyy h:mm tt')
+    case 'G':
+      return formatDateValue(date, 'M/d/yyyy h:mm:ss tt')
+    case 'iso':
+    case 'ISO':
+      return date.toISOString().replace(/\.\d{3}Z$/, '')
+  }
+
+  const hours = date.getUTCHours()
+  const tokens: Record<string, string> = {
+    yyyy: String(date.getUTCFullYear()),
+    yy: String(date.getUTCFullYear()).slice(-2),
+    MMMM: MONTH_NAMES[date.getUTCMonth()],
+    MMM: MONTH_NAMES[date.getUTCMonth()].slice(0, 3),
+    MM: pad(date.getUTCMonth() + 1),
+    M: String(date.getUTCMonth() + 1),
+    dddd: DAY_NAMES[date.getUTCDay()],
+    ddd: DAY_NAMES[date.getUTCDay()].slice(0, 3),
+    dd: pad(date.getUTCDate()),
+    d: String(date.getUTCDate()),
+    HH: pad(hours),
+    H: String(hours),
+    hh: pad(hours % 12 || 12),
+    h: String(hours % 12 || 12),
+    mm: pad(date.getUTCMinutes()),
+    m: String(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+    s: String(date.getUTCSeconds()),
+    tt: hours < 12 ? 'AM' : 'PM'
+  }
+
+  return format.replace(/yyyy|yy|MMMM|MMM|MM|M|dddd|ddd|dd|d|HH|H|hh|h|mm|m|ss|s|tt/g, token => tokens[token])
+}
+
+/**
+ * Formats a number with .NET standard (N2, C2, F0, P1) or simple custom
+ * ('#,##0.00') format strings
+ */
+export function formatNumberValue(value: number, format: string, currencySymbol = '$'): string {
+  const standard = /^([NnCcFfPpDd])(\d*)$/.exec(format)
+  if (standard) {
+    const kind = standard[1].toUpperCase()
+    const digits = standard[2] ? parseInt(standard[2], 10) : kind === 'D' ? 0 : 2
+    switch (kind) {
+      case 'N':
+        return groupDigits(value.toFixed(digits))
+      case 'C':
+        return `${value < 0 ? '-' : ''}${currencySymbol}${groupDigits(Math.abs(value).toFixed(digits))}`
+      case 'P':
+        return `${groupDigits((value * 100).toFixed(digits))} %`
+      case 'D':
+        return Math.trunc(value).toString().padStart(digits, '0')
+      default:
+        return value.toFixed(digits)
+    }
+  }
+
+  if (/^[#0,.]+$/.test(format)) {
+    const decimals = format.includes('.') ? format.split('.')[1].length : 0
+    const fixed = value.toFixed(decimals)
+    return format.includes(',') ? groupDigits(fixed) : fixed
+  }
+
+  throw new AMPScriptRuntimeError(`'${format}' is not a supported number format`)
+}
+
+function groupDigits(fixed: string): string {
+  const [whole, fraction] = fixed.split('.')
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',')
+  return fraction !== undefined ? `${grouped}.${fraction}` : grouped
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
@@ -0,0 +1,289 @@
+import vm from 'vm'
+import { types } from 'util'
+
+/**
+ * An object carrying this key answers unknown members through the function
+ * it holds, which gets the member name and returns the member
+ */
+export const MEMBER_FALLBACK = Symbol('memberFallback')
+
+const BRIDGE_FILENAME = 'ssjs-bridge'
+
+// Wire format shared by both realms: every JSON object is a node tagged with this key
+const TAG = '\u0000'
+
+// Global the host puts a thrown value in while the sandbox describes it
+const THROWN_SLOT = '\u0000thrown'
+
+// Budget for describing a thrown value; its getters are script code
+const DESCRIBE_TIMEOUT_MS = 50
+
+type WireValue = null | boolean | number | string | WireValue[] | { [key: string]: WireValue }
+
+export interface ThrownDetails {
+  name?: string
+  message?: string
+  stack?: string
+  code?: string
+  // The host error behind an error a stub threw into the sandbox
+  raised?: unknown
+}
+
+/**
+ * Sandbox side of the bridge. Platform objects are rebuilt in the sandbox
+ * realm from their wire form, and every stub becomes a sandbox function that
+ * sends its arguments to the host as JSON text. Nothing the host creates
+ * reaches the script, so no prototype chain or constructor leads back to the
+ * host realm.
+ */
+const BRIDGE_SOURCE = `(function (invoke) {
+  'use strict'
+  var TAG = '\\u0000'
+  var parse = JSON.parse
+  var stringify = JSON.stringify
+  var isArray = Array.isArray
+  var keys = Object.keys
+  var defineProperty = Object.defineProperty
+  var hasOwn = Function.prototype.call.bind(Object.prototype.hasOwnProperty)
+  var slice = Function.prototype.call.bind(Array.prototype.slice)
+  var SandboxError = Error
+  var SandboxDate = Date
+  var SandboxProxy = Proxy
+  var functions = new Map()
+
+  function encode(value, depth) {
+    if (depth > 64) throw new TypeError('Argument is nested too deeply or circular')
+    if (value === undefined || typeof value === 'function' || typeof value === 'symbol') return { [TAG]: 'undefined' }
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') return value
+    if (typeof value === 'number') return isFinite(value) ? value : { [TAG]: 'number', text: String(value) }
+    if (typeof value === 'bigint') return String(value)
+    if (value instanceof SandboxDate) return { [TAG]: 'date', time: value.getTime() }
+    if (isArray(value)) {
+      var items = []
+      for (var index = 0; index < value.length; index++) items.push(encode(value[index], depth + 1))
+      return items
+    }
+    var members = {}
+    keys(value).forEach(function (key) { members[key] = encode(value[key], depth + 1) })
+    return { [TAG]: 'object', members: members }
+  }
+
+  function build(node) {
+    if (node === null || typeof node !== 'object') return node
+    if (isArray(node)) return node.map(build)
+    switch (node[TAG]) {
+      case 'undefined': return undefined
+      case 'number': return Number(node.text)
+      case 'date': return new SandboxDate(node.time)
+      case 'function': return stub(node.id)
+      case 'table': return table(buildMembers(node.members), node.fallback)
+      default: return buildMembers(node.members)
+    }
+  }
+
+  function buildMembers(members) {
+    var object = {}
+    keys(members).forEach(function (key) {
+      var member = members[key]
+      if (member !== null && typeof member === 'object' && member[TAG] === 'getter') {
+        defineProperty(object, key, { enumerable: true, get: function () { return call(member.id, undefined, []) } })
+      } else {
+        object[key] = build(member)
+      }
+    })
+    return object
+  }
+
+  function table(members, fallback) {
+    return new SandboxProxy(members, {
+      get: function (target, name) {
+        if (typeof name !== 'string') return undefined
+        return hasOwn(target, name) ? target[name] : call(fallback, undefined, [name])
+      }
+    })
+  }
+
+  function stub(id) {
+    if (!functions.has(id)) {
+      functions.set(id, function () { return call(id, this, slice(arguments)) })
+    }
+    return functions.get(id)
+  }
+
+  function call(id, self, args) {
+    var request = stringify([encode(self, 0), encode(args, 0)])
+    var reply
+    try {
+      reply = parse(invoke(id, request))
+    } catch (error) {
+      throw new SandboxError('The platform call failed')
+    }
+    if (reply.error) {
+      var thrown = new SandboxError(reply.error.message)
+      thrown.name = reply.error.name
+      defineProperty(thrown, TAG, { value: reply.error.token })
+      throw thrown
+    }
+    return build(reply.value)
+  }
+
+  return function install(globals) {
+    var built = buildMembers(parse(globals).members)
+    keys(built).forEach(function (key) {
+      defineProperty(globalThis, key, Object.getOwnPropertyDescriptor(built, key))
+    })
+  }
+})`
+
+// Always evaluates to JSON text; anything else is ignored by the host
+const DESCRIBE_SOURCE = `(function (thrown) {
+  'use strict'
+  try {
+    if (thrown === null || (typeof thrown !== 'object' && typeof thrown !== 'function')) {
+      return JSON.stringify({ message: String(thrown) })
+    }
+    var read = function (key) {
+      try {
+        var value = thrown[key]
+        return typeof value === 'string' ? value : undefined
+      } catch (error) {
+        return undefined
+      }
+    }
+    var token = Object.getOwnPropertyDescriptor(thrown, '\\u0000')
+    return JSON.stringify({
+      name: read('name'),
+      message: read('message'),
+      stack: read('stack'),
+      code: read('code'),
+      token: token && typeof token.value === 'number' ? token.value : undefined
+    })
+  } catch (error) {
+    return '{}'
+  }
+})(globalThis['\\u0000thrown'])`
+
+/**
+ * Connects platform stubs built in this realm to a sandbox context. Each
+ * error a stub throws is kept here and passed to the script as a sandbox
+ * error that refers back to it.
+ */
+export class SSJSBridge {
+  private readonly functions: Function[] = []
+  private readonly functionIds = new Map<Function, number>()
+  private readonly raised: unknown[] = []
+  private readonly describeScript = new vm.Script(DESCRIBE_SOURCE, { filename: BRIDGE_FILENAME })
+
+  constructor(private readonly context: vm.Context, globals: Record<string, unknown>) {
+    const createBridge = vm.runInContext(BRIDGE_SOURCE, context, { filename: BRIDGE_FILENAME })
+    const install = createBridge((id: number, request: string) => this.invoke(id, request))
+    install(JSON.stringify(this.toWire(globals)))
+  }
+
+  /**
+   * Name, message and stack of a value a script run threw. Values from the
+   * sandbox are read inside it under a time budget: reading the stack of a
+   * sandbox error can run its prepareStackTrace, and any property can be a
+   * getter.
+   */
+  describe(thrown: unknown): ThrownDetails {
+    if (isHostError(thrown)) {
+      return describeHostError(thrown)
+    }
+
+    Object.defineProperty(this.context, THROWN_SLOT, { value: thrown, configurable: true })
+    try {
+      const text = this.describeScript.runInContext(this.context, { timeout: DESCRIBE_TIMEOUT_MS, displayErrors: false })
+      if (typeof text !== 'string') return {}
+
+      const { token, ...details } = JSON.parse(text) as ThrownDetails & { token?: number }
+      return { ...details, raised: token === undefined ? undefined : this.raised[token] }
+    } catch (error) {
+      return {}
+    } finally {
+      delete this.context[THROWN_SLOT]
+    }
+  }
+
+  // Always returns JSON text: a host exception must never reach the script
+  private invoke(id: number, request: string): string {
+    try {
+      const [self, args] = this.fromWire(JSON.parse(request)) as [unknown, unknown[]]
+      const value = this.functions[id].apply(self, args)
+      return JSON.stringify({ value: this.toWire(value) })
+    } catch (error) {
+      // Stubs only handle data decoded from the wire, so what they throw is from this realm
+      const token = this.raised.push(error) - 1
+      const { name, message } = describeHostError(error)
+      return JSON.stringify({ error: { name: name ?? 'Error', message: message ?? String(error), token } })
+    }
+  }
+
+  private register(fn: Function): number {
+    let id = this.functionIds.get(fn)
+    if (id === undefined) {
+      id = this.functions.push(fn) - 1
+      this.functionIds.set(fn, id)
+    }
+    return id
+  }
+
+  private toWire(value: unknown): WireValue {
+    if (value === undefined || typeof value === 'symbol') return { [TAG]: 'undefined' }
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') return value
+    if (typeof value === 'number') return isFinite(value) ? value : { [TAG]: 'number', text: String(value) }
+    if (typeof value === 'bigint') return String(value)
+    if (typeof value === 'function') return { [TAG]: 'function', id: this.register(value) }
+    if (value instanceof Date) return { [TAG]: 'date', time: value.getTime() }
+    if (Array.isArray(value)) return value.map(item => this.toWire(item))
+
+    const members: Record<string, WireValue> = {}
+    for (const [key, descriptor] of Object.entries(Object.getOwnPropertyDescriptors(value))) {
+      if (!descriptor.enumerable) continue
+      members[key] = descriptor.get
+        ? { [TAG]: 'getter', id: this.register(descriptor.get.bind(value)) }
+        : this.toWire(descriptor.value)
+    }
+
+    const fallback = (value as { [MEMBER_FALLBACK]?: unknown })[MEMBER_FALLBACK]
+    return typeof fallback === 'function'
+      ? { [TAG]: 'table', members, fallback: this.register(fallback) }
+      : { [TAG]: 'object', members }
+  }
+
+  private fromWire(node: unknown): unknown {
+    if (node === null || typeof node !== 'object') return node
+    if (Array.isArray(node)) return node.map(item => this.fromWire(item))
+
+    const tagged = node as { [TAG]: string, text?: string, time?: number, members?: Record<string, unknown> }
+    switch (tagged[TAG]) {
+      case 'undefined': return undefined
+      case 'number': return Number(tagged.text)
+      case 'date': return new Date(tagged.time!)
+      default: {
+        const object: Record<string, unknown> = {}
+        Object.entries(tagged.members ?? {}).forEach(([key, member]) => {
+          Object.defineProperty(object, key, { value: this.fromWire(member), enumerable: true, writable: true, configurable: true })
+        })
+        return object
+      }
+    }
+  }
+}
+
+function describeHostError(error: unknown): ThrownDetails {
+  if (!(error instanceof Error)) return { message: String(error) }
+  const { name, message, stack } = error
+  return { name, message, stack, code: (error as { code?: unknown }).code as string | undefined }
+}
+
+// Walks the prototype chain without running traps, which a proxy from the sandbox could have
+function isHostError(value: unknown): value is Error {
+  let current: unknown = value
+  while (current !== null && (typeof current === 'object' || typeof current === 'function')) {
+    if (types.isProxy(current)) return false
+    if (current === Error.prototype) return true
+    current = Object.getPrototypeOf(current)
+  }
+  return false
+}
@@ -0,0 +1,436 @@
+import { randomUUID } from 'crypto'
+import { ExecutionContext, MockDataExtensionRow, MockFieldValue, MockHttpResponse } from '../../../types/debugging'
+import { compareValues, fromMockValue, sameText } from './ampscript-values'
+import { AMPScriptInterpreter } from './ampscript-interpreter'
+import { MEMBER_FALLBACK } from './ssjs-bridge'
+
+/**
+ * Error raised by a platform stub. Scripts can catch it like the exceptions
+ * SFMC throws; uncaught ones end the run.
+ */
+export class SSJSStubError extends Error {
+  constructor(message: string, public rule = 'ssjs-runtime-error') {
+    super(message)
+    this.name = 'SSJSStubError'
+  }
+}
+
+/**
+ * Services the sandbox provides to the stubs
+ */
+export interface SSJSPlatformHost {
+  readonly context: ExecutionContext
+  readonly now: Date
+  write(text: string): void
+  // Records a stub call in the call log
+  log(target: string, args: unknown[]): void
+  // Mutable rows of a mock Data Extension; throws when it is not defined
+  rows(dataExtension: string): MockDataExtensionRow[]
+  redirect(url: string): never
+}
+
+interface SimpleFilter {
+  Property: string
+  SimpleOperator: string
+  Value?: unknown
+}
+
+interface ComplexFilter {
+  LeftOperand: RetrieveFilter
+  LogicalOperator: string
+  RightOperand: RetrieveFilter
+}
+
+type RetrieveFilter = SimpleFilter | ComplexFilter
+
+// SSJS functions of the Core library are unavailable until Platform.Load("Core", ...)
+const CORE_GLOBALS = ['DataExtension', 'HTTP', 'Attribute', 'Variable', 'Request']
+
+/**
+ * Builds the globals of the sandbox: Platform, Write, Stringify, the Core
+ * library objects and Script.Util.WSProxy, all backed by fixture data
+ */
+export function createSSJSPlatform(host: SSJSPlatformHost): Record<string, unknown> {
+  let coreLoaded = false
+  const variables = new Map<string, unknown>()
+
+  const stub = <A extends unknown[], R>(target: string, run: (...args: A) => R) => (...args: A): R => {
+    host.log(target, args)
+    return run(...args)
+  }
+
+  // Platform.Function
+
+  const lookupRows = (dataExtension: string, fields: unknown, values: unknown) =>
+    matchRows(host.rows(dataExtension), pairUp(fields, values, 'LookupRows'), dataExtension)
+
+  const platformFunctions: Record<string, (...args: any[]) => unknown> = {
+    Lookup: stub('Platform.Function.Lookup', (dataExtension: string, returnField: string, fields: unknown, values: unknown) => {
+      const [row] = lookupRows(dataExtension, fields, values)
+      const key = row && fieldKey(row, returnField)
+      return key ? row[key] : ''
+    }),
+    LookupRows: stub('Platform.Function.LookupRows', (dataExtension: string, fields: unknown, values: unknown) =>
+      lookupRows(dataExtension, fields, values)),
+    LookupOrderedRows: stub('Platform.Function.LookupOrderedRows', (dataExtension: string, count: number, orderBy: string, fields: unknown, values: unknown) => {
+      const ordered = orderRows(lookupRows(dataExtension, fields, values), orderBy)
+      return count > 0 ? ordered.slice(0, count) : ordered
+    }),
+    InsertData: stub('Platform.Function.InsertData', (dataExtension: string, fields: unknown, values: unknown) => {
+      const row: MockDataExtensionRow = {}
+      assign(row, pairUp(fields, values, 'InsertData'))
+      host.rows(dataExtension).push(row)
+      return 1
+    }),
+    UpdateData: stub('Platform.Function.UpdateData', (dataExtension: string, keyFields: unknown, keyValues: unknown, fields: unknown, values: unknown) => {
+      const matches = lookupRows(dataExtension, keyFields, keyValues)
+      matches.forEach(row => assign(row, pairUp(fields, values, 'UpdateData')))
+      return matches.length
+    }),
+    UpsertData: stub('Platform.Function.UpsertData', (dataExtension: string, keyFields: unknown, keyValues: unknown, fields: unknown, values: unknown) => {
+      const keys = pairUp(keyFields, keyValues, 'UpsertData')
+      const matches = lookupRows(dataExtension, keyFields, keyValues)
+      if (matches.length === 0) {
+        const row: MockDataExtensionRow = {}
+        assign(row, [...keys, ...pairUp(fields, values, 'UpsertData')])
+        host.rows(dataExtension).push(row)
+        return 1
+      }
+      matches.forEach(row => assign(row, pairUp(fields, values, 'UpsertData')))
+      return matches.length
+    }),
+    DeleteData: stub('Platform.Function.DeleteData', (dataExtension: string, fields: unknown, values: unknown) => {
+      const rows = host.rows(dataExtension)
+      const matches = lookupRows(dataExtension, fields, values)
+      matches.forEach(row => rows.splice(rows.indexOf(row), 1))
+      return matches.length
+    }),
+    AttributeValue: stub('Platform.Function.AttributeValue', (name: string) => attributeValue(host.context, name) ?? ''),
+    TreatAsContent: stub('Platform.Function.TreatAsContent', (content: string) => renderAMPScript(host, String(content))),
+    HTTPGet: stub('Platform.Function.HTTPGet', (url: string) => httpResponse(host.context, url, 'GET').content),
+    Now: stub('Platform.Function.Now', () => host.now),
+    SystemDateToLocalDate: stub('Platform.Function.SystemDateToLocalDate', (date: Date) => date),
+    GUID: stub('Platform.Function.GUID', () => randomUUID()),
+    ParseJSON: stub('Platform.Function.ParseJSON', (json: string) => {
+      try {
+        return JSON.parse(String(json))
+      } catch (error) {
+        return null
+      }
+    }),
+    Stringify: stub('Platform.Function.Stringify', (value: unknown) => JSON.stringify(value)),
+    Base64Encode: stub('Platform.Function.Base64Encode', (value: string) => Buffer.from(String(value), 'utf8').toString('base64')),
+    Base64Decode: stub('Platform.Function.Base64Decode', (value: string) => Buffer.from(String(value), 'base64').toString('utf8')),
+    RaiseError: stub('Platform.Function.RaiseError', (message: string) => {
+      throw new SSJSStubError(String(message), 'ssjs-raise-error')
+    }),
+    ContentBlockByName: unsupported('Platform.Function.ContentBlockByName'),
+    ContentBlockByKey: unsupported('Platform.Function.ContentBlockByKey'),
+    ContentBlockById: unsupported('Platform.Function.ContentBlockById'),
+    HTTPPost: unsupported('Platform.Function.HTTPPost')
+  }
+
+  const platform = {
+    Load: stub('Platform.Load', (library: string) => {
+      if (String(library).toLowerCase() !== 'core') {
+        throw new SSJSStubError(`Unknown library '${library}'. Only Core can be loaded`)
+      }
+      coreLoaded = true
+      return true
+    }),
+    // Unknown Platform.Function members fail the way a missing function would
+    Function: {
+      ...platformFunctions,
+      [MEMBER_FALLBACK]: (name: string) => unsupported(`Platform.Function.${name}`)
+    },
+    Variable: {
+      GetValue: stub('Platform.Variable.GetValue', (name: string) => variables.get(String(name).toLowerCase()) ?? null),
+      SetValue: stub('Platform.Variable.SetValue', (name: string, value: unknown) => {
+        variables.set(String(name).toLowerCase(), value)
+      })
+    },
+    Request: {
+      GetQueryStringParameter: stub('Platform.Request.GetQueryStringParameter', (name: string) => requestParameter(host.context, name)),
+      GetFormField: stub('Platform.Request.GetFormField', (name: string) => requestParameter(host.context, name)),
+      Method: 'GET'
+    },
+    Response: {
+      Write: stub('Platform.Response.Write', (value: unknown) => host.write(String(value))),
+      Redirect: stub('Platform.Response.Redirect', (url: string) => host.redirect(String(url)))
+    }
+  }
+
+  // Core library
+
+  const core: Record<string, unknown> = {
+    DataExtension: {
+      Init: stub('DataExtension.Init', (name: string) => {
+        const dataExtension = String(name)
+        host.rows(dataExtension)
+        return {
+          Rows: {
+            Retrieve: stub(`DataExtension[${dataExtension}].Rows.Retrieve`, (filter?: RetrieveFilter) =>
+              host.rows(dataExtension).filter(row => !filter || matchesFilter(row, filter))),
+            Lookup: stub(`DataExtension[${dataExtension}].Rows.Lookup`, (fields: unknown, values: unknown) =>
+              lookupRows(dataExtension, fields, values)),
+            Add: stub(`DataExtension[${dataExtension}].Rows.Add`, (rows: MockDataExtensionRow | MockDataExtensionRow[]) => {
+              const added = Array.isArray(rows) ? rows : [rows]
+              host.rows(dataExtension).push(...added.map(row => ({ ...row })))
+              return added.length
+            }),
+            Update: stub(`DataExtension[${dataExtension}].Rows.Update`, (values: MockDataExtensionRow, keyFields: unknown, keyValues: unknown) => {
+              const matches = lookupRows(dataExtension, keyFields, keyValues)
+              matches.forEach(row => assign(row, Object.entries(values)))
+              return matches.length
+            }),
+            Remove: stub(`DataExtension[${dataExtension}].Rows.Remove`, (keyFields: unknown, keyValues: unknown) => {
+              const rows = host.rows(dataExtension)
+              const matches = lookupRows(dataExtension, keyFields, keyValues)
+              matches.forEach(row => rows.splice(rows.indexOf(row), 1))
+              return matches.length
+            })
+          },
+          Fields: {
+            Retrieve: stub(`DataExtension[${dataExtension}].Fields.Retrieve`, () => {
+              const names = new Set<string>()
+              host.rows(dataExtension).forEach(row => Object.keys(row).forEach(key => names.add(key)))
+              return Array.from(names, Name => ({ Name }))
+            })
+          }
+        }
+      })
+    },
+    HTTP: {
+      Get: stub('HTTP.Get', (url: string) => {
+        const response = httpResponse(host.context, url, 'GET')
+        return { Status: response.statusCode ?? 200, Content: response.content }
+      }),
+      Post: stub('HTTP.Post', (url: string) => {
+        const response = httpResponse(host.context, url, 'POST')
+        return { StatusCode: response.statusCode ?? 200, Response: [response.content] }
+      })
+    },
+    Attribute: {
+      GetValue: stub('Attribute.GetValue', (name: string) => attributeValue(host.context, name) ?? '')
+    },
+    Variable: platform.Variable,
+    Request: {
+      GetQueryStringParameter: platform.Request.GetQueryStringParameter,
+      GetFormField: platform.Request.GetFormField
+    }
+  }
+
+  // Script.Util
+
+  const wsProxy = function WSProxy() {
+    return {
+      retrieve: stub('WSProxy.retrieve', (objectType: string, columns: string[], filter?: RetrieveFilter) => {
+        const objects = soapObjects(host.context, objectType)
+        const results = objects
+          .filter(object => !filter || matchesFilter(object, filter))
+          .map(object => pick(object, columns))
+        return { Status: 'OK', RequestID: requestId(), HasMoreRows: false, Results: results }
+      }),
+      createItem: stub('WSProxy.createItem', (objectType: string, properties: MockDataExtensionRow) =>
+        soapResult(properties)),
+      updateItem: stub('WSProxy.updateItem', (objectType: string, properties: MockDataExtensionRow) =>
+        soapResult(properties)),
+      deleteItem: stub('WSProxy.deleteItem', (objectType: string, properties: MockDataExtensionRow) =>
+        soapResult(properties)),
+      execute: stub('WSProxy.execute', () => ({ Status: 'OK', RequestID: requestId(), Results: [] })),
+      performItem: stub('WSProxy.performItem', () => ({ Status: 'OK', RequestID: requestId(), Results: [] })),
+      setClientId: stub('WSProxy.setClientId', () => undefined),
+      resetClientIds: stub('WSProxy.resetClientIds', () => undefined)
+    }
+  }
+
+  const httpRequest = function HttpRequest(url: string) {
+    const request = { method: 'GET', contentType: '', postData: '', emptyContentHandling: 0, retries: 1 }
+    return {
+      ...request,
+      setHeader: stub('Script.Util.HttpRequest.setHeader', () => undefined),
+      send: stub('Script.Util.HttpRequest.send', function (this: typeof request) {
+        const response = httpResponse(host.context, url, String(this.method || 'GET').toUpperCase())
+        return { statusCode: response.statusCode ?? 200, content: response.content, headers: response.headers ?? {} }
+      })
+    }
+  }
+
+  const globals: Record<string, unknown> = {
+    Platform: platform,
+    Write: stub('Write', (value: unknown) => host.write(String(value))),
+    Stringify: stub('Stringify', (value: unknown) => JSON.stringify(value)),
+    Script: { Util: { WSProxy: wsProxy, HttpRequest: httpRequest } }
+  }
+
+  // Core globals throw until the library is loaded, as they do in SFMC
+  CORE_GLOBALS.forEach(name => {
+    Object.defineProperty(globals, name, {
+      enumerable: true,
+      get: () => {
+        if (!coreLoaded) {
+          throw new SSJSStubError(
+            `${name} is not defined. Load the Core library first with Platform.Load("Core", "1.1.1")`,
+            'ssjs-core-not-loaded'
+          )
+        }
+        return core[name]
+      }
+    })
+  })
+
+  return globals
+
+  function unsupported(target: string) {
+    return (...args: unknown[]) => {
+      host.log(target, args)
+      throw new SSJSStubError(`${target} has no offline stub`, 'ssjs-runtime-unsupported')
+    }
+  }
+}
+
+// Fixture lookups
+
+function attributeValue(context: ExecutionContext, name: string): MockFieldValue | undefined {
+  const lower = String(name).toLowerCase()
+  for (const values of [context.personalizationStrings, context.attributes]) {
+    const key = Object.keys(values || {}).find(candidate => candidate.toLowerCase() === lower)
+    if (key !== undefined) return values![key]
+  }
+  return undefined
+}
+
+function requestParameter(context: ExecutionContext, name: string): string {
+  const lower = String(name).toLowerCase()
+  const key = Object.keys(context.requestParameters || {}).find(candidate => candidate.toLowerCase() === lower)
+  return key !== undefined ? context.requestParameters![key] : ''
+}
+
+function httpResponse(context: ExecutionContext, url: string, method: string): MockHttpResponse {
+  const response = context.httpResponses?.[String(url)]
+  if (!response) {
+    throw new SSJSStubError(`No fixture response for ${method} ${url}`, 'ssjs-missing-fixture')
+  }
+  return response
+}
+
+function soapObjects(context: ExecutionContext, objectType: string): MockDataExtensionRow[] {
+  const lower = String(objectType).toLowerCase()
+  const key = Object.keys(context.soapObjects || {}).find(candidate => candidate.toLowerCase() === lower)
+  if (key === undefined) {
+    throw new SSJSStubError(`No fixture objects for WSProxy retrieve of ${objectType}`, 'ssjs-missing-fixture')
+  }
+  return context.soapObjects![key]
+}
+
+function renderAMPScript(host: SSJSPlatformHost, content: string): string {
+  const result = new AMPScriptInterpreter().execute(content, host.context)
+  if (result.errors.length > 0) {
+    throw new SSJSStubError(`TreatAsContent failed: ${result.errors[0].message}`)
+  }
+  return result.output
+}
+
+// Row helpers
+
+function fieldKey(row: MockDataExtensionRow, name: string): string | undefined {
+  const lower = String(name).toLowerCase()
+  return Object.keys(row).find(key => key.toLowerCase() === lower)
+}
+
+function pairUp(fields: unknown, values: unknown, target: string): Array<[string, MockFieldValue]> {
+  const names = Array.isArray(fields) ? fields : [fields]
+  const list = Array.isArray(values) ? values : [values]
+  if (names.length !== list.length) {
+    throw new SSJSStubError(`${target}: ${names.length} field names were given with ${list.length} values`)
+  }
+  return names.map((name, index) => [String(name), list[index] as MockFieldValue])
+}
+
+function matchRows(rows: MockDataExtensionRow[], filters: Array<[string, MockFieldValue]>, dataExtension: string): MockDataExtensionRow[] {
+  filters.forEach(([field]) => {
+    if (rows.length > 0 && !rows.some(row => fieldKey(row, field) !== undefined)) {
+      throw new SSJSStubError(`Field ${field} does not exist in Data Extension ${dataExtension}`)
+    }
+  })
+  return rows.filter(row => filters.every(([field, value]) => {
+    const key = fieldKey(row, field)
+    return key !== undefined && sameText(fromMockValue(row[key]), fromMockValue(value))
+  }))
+}
+
+function assign(row: MockDataExtensionRow, values: Array<[string, MockFieldValue]>): void {
+  values.forEach(([field, value]) => {
+    row[fieldKey(row, field) ?? field] = value
+  })
+}
+
+function orderRows(rows: MockDataExtensionRow[], orderBy: string): MockDataExtensionRow[] {
+  const clauses = String(orderBy).split(',').map(part => part.trim().split(/\s+/)).filter(([field]) => field)
+  return [...rows].sort((a, b) => {
+    for (const [field, direction] of clauses) {
+      const order = compareValues(fromMockValue(a[fieldKey(a, field) ?? field]), fromMockValue(b[fieldKey(b, field) ?? field]))
+      if (order !== 0) return direction?.toUpperCase() === 'DESC' ? -order : order
+    }
+    return 0
+  })
+}
+
+function matchesFilter(row: MockDataExtensionRow, filter: RetrieveFilter): boolean {
+  if ('LeftOperand' in filter) {
+    const operator = String(filter.LogicalOperator).toUpperCase()
+    if (operator === 'AND') return matchesFilter(row, filter.LeftOperand) && matchesFilter(row, filter.RightOperand)
+    if (operator === 'OR') return matchesFilter(row, filter.LeftOperand) || matchesFilter(row, filter.RightOperand)
+    throw new SSJSStubError(`Unknown LogicalOperator '${filter.LogicalOperator}'. Use AND or OR`)
+  }
+
+  const key = fieldKey(row, filter.Property)
+  const value = key !== undefined ? fromMockValue(row[key]) : null
+  const expected = filter.Value as MockFieldValue
+  const list = (Array.isArray(filter.Value) ? filter.Value : [filter.Value]) as MockFieldValue[]
+
+  switch (filter.SimpleOperator) {
+    case 'equals':
+      return value !== null && compareValues(value, fromMockValue(expected)) === 0
+    case 'notEquals':
+      return value === null || compareValues(value, fromMockValue(expected)) !== 0
+    case 'greaterThan':
+      return value !== null && compareValues(value, fromMockValue(expected)) > 0
+    case 'greaterThanOrEqual':
+      return value !== null && compareValues(value, fromMockValue(expected)) >= 0
+    case 'lessThan':
+      return value !== null && compareValues(value, fromMockValue(expected)) < 0
+    case 'lessThanOrEqual':
+      return value !== null && compareValues(value, fromMockValue(expected)) <= 0
+    case 'like':
+      return value !== null && String(value).toLowerCase().includes(String(expected).replace(/%/g, '').toLowerCase())
+    case 'isNull':
+      return value === null || value === ''
+    case 'isNotNull':
+      return value !== null && value !== ''
+    case 'IN':
+      return value !== null && list.some(item => compareValues(value, fromMockValue(item)) === 0)
+    case 'between':
+      return value !== null && compareValues(value, fromMockValue(list[0])) >= 0 && compareValues(value, fromMockValue(list[1])) <= 0
+    default:
+      throw new SSJSStubError(`Unknown SimpleOperator '${filter.SimpleOperator}'`)
+  }
+}
+
+function pick(object: MockDataExtensionRow, columns: string[]): MockDataExtensionRow {
+  if (!Array.isArray(columns) || columns.length === 0) return { ...object }
+  const picked: MockDataExtensionRow = {}
+  columns.forEach(column => {
+    const key = fieldKey(object, column)
+    picked[column] = key !== undefined ? object[key] : null
+  })
+  return picked
+}
+
+function soapResult(properties: MockDataExtensionRow) {
+  return { Status: 'OK', RequestID: requestId(), Results: [{ StatusCode: 'OK', StatusMessage: 'Created', Object: properties }] }
+}
+
+function requestId(): string {
+  return randomUUID()
+}
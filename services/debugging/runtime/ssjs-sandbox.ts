@@ -0,0 +1,238 @@
+import vm from 'vm'
+import {
+  CodeInterpreter,
+  DebugError,
+  ExecutionCallEntry,
+  ExecutionContext,
+  ExecutionResult,
+  MockDataExtensionRow
+} from '../../../types/debugging'
+import { LineIndex } from '../parsers/source-text'
+import { parseDateValue } from './ampscript-values'
+import { SSJSPlatformHost, SSJSStubError, createSSJSPlatform } from './ssjs-platform'
+import { SSJSBridge, ThrownDetails } from './ssjs-bridge'
+
+export interface SSJSSandboxOptions {
+  // Wall-clock budget for all script blocks together
+  timeoutMs: number
+  // Longest argument text kept in the call log
+  maxLoggedArgLength: number
+}
+
+const DEFAULT_OPTIONS: SSJSSandboxOptions = {
+  timeoutMs: 1000,
+  maxLoggedArgLength: 200
+}
+
+const SCRIPT_FILENAME = 'ssjs'
+
+const SERVER_SCRIPT_PATTERN = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi
+
+interface PageSegment {
+  kind: 'content' | 'script'
+  text: string
+  // Offset of the text in the original code
+  offset: number
+}
+
+// Raised by Platform.Response.Redirect to stop rendering the rest of the page
+class RedirectSignal {
+  constructor(public readonly url: string) {}
+}
+
+/**
+ * Runs SSJS in a separate V8 context whose only globals are stubs of the SFMC
+ * platform backed by fixture data. eval and new Function are disabled, and
+ * nothing from Node (require, process, timers) is reachable from the script:
+ * the stubs are rebuilt in the sandbox realm by SSJSBridge. Promise jobs run
+ * before each block returns, inside its timeout.
+ */
+export class SSJSSandbox implements CodeInterpreter {
+  private readonly options: SSJSSandboxOptions
+
+  constructor(options: Partial<SSJSSandboxOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  execute(code: string, context: ExecutionContext = {}): ExecutionResult {
+    const startTime = Date.now()
+    const lineIndex = new LineIndex(code)
+    const output: string[] = []
+    const callLog: ExecutionCallEntry[] = []
+    const errors: DebugError[] = []
+    let redirectUrl: string | undefined
+    let completed = true
+
+    // Writes must not leak into the caller's fixtures
+    const dataExtensions: Record<string, MockDataExtensionRow[]> = {}
+    Object.entries(context.dataExtensions || {}).forEach(([name, rows]) => {
+      dataExtensions[name] = rows.map(row => ({ ...row }))
+    })
+
+    const sandbox = vm.createContext({}, {
+      name: 'SSJS sandbox',
+      codeGeneration: { strings: false, wasm: false },
+      microtaskMode: 'afterEvaluate'
+    })
+
+    const host: SSJSPlatformHost = {
+      context,
+      now: (context.now && parseDateValue(context.now)) || new Date(),
+      write: text => {
+        output.push(text)
+      },
+      log: (target, args) => {
+        callLog.push({ target, args: args.map(arg => this.describeArg(arg)), ...callSite() })
+      },
+      rows: name => {
+        const lower = name.toLowerCase()
+        const key = Object.keys(dataExtensions).find(candidate => candidate.toLowerCase() === lower)
+        if (key === undefined) {
+          throw new SSJSStubError(`Data Extension ${name} was not found in the fixture data`, 'ssjs-missing-fixture')
+        }
+        return dataExtensions[key]
+      },
+      redirect: url => {
+        throw new RedirectSignal(url)
+      }
+    }
+
+    const bridge = new SSJSBridge(sandbox, createSSJSPlatform(host))
+
+    for (const segment of this.splitPage(code)) {
+      if (segment.kind === 'content') {
+        output.push(segment.text)
+        continue
+      }
+
+      const remaining = this.options.timeoutMs - (Date.now() - startTime)
+      const start = lineIndex.positionAt(segment.offset)
+
+      try {
+        const script = new vm.Script(segment.text, {
+          filename: SCRIPT_FILENAME,
+          lineOffset: start.line - 1,
+          columnOffset: start.column - 1
+        })
+        // Without displayErrors Node would read the stack of a thrown error outside the timeout
+        script.runInContext(sandbox, { timeout: Math.max(1, remaining), displayErrors: false })
+      } catch (error) {
+        const details = bridge.describe(error)
+        if (details.raised instanceof RedirectSignal) {
+          redirectUrl = details.raised.url
+          break
+        }
+        errors.push(this.toDebugError(details, start.line))
+        completed = false
+        break
+      }
+    }
+
+    return {
+      language: 'ssjs',
+      output: output.join(''),
+      trace: [],
+      errors,
+      callLog,
+      dataExtensions,
+      redirectUrl,
+      completed,
+      executionTime: Date.now() - startTime
+    }
+  }
+
+  /**
+   * Splits a page into content and server-side JavaScript blocks. Code
+   * without any <script runat="server"> tag is treated as a single block.
+   */
+  private splitPage(code: string): PageSegment[] {
+    const segments: PageSegment[] = []
+    let last = 0
+
+    for (const match of code.matchAll(SERVER_SCRIPT_PATTERN)) {
+      const attributes = match[1]
+      if (!/runat\s*=\s*["']?server/i.test(attributes)) continue
+      if (/language\s*=\s*["']?ampscript/i.test(attributes)) continue
+
+      const index = match.index ?? 0
+      if (index > last) {
+        segments.push({ kind: 'content', text: code.slice(last, index), offset: last })
+      }
+      segments.push({ kind: 'script', text: match[2], offset: index + match[0].indexOf('>') + 1 })
+      last = index + match[0].length
+    }
+
+    if (segments.length === 0) {
+      return [{ kind: 'script', text: code, offset: 0 }]
+    }
+    if (last < code.length) {
+      segments.push({ kind: 'content', text: code.slice(last), offset: last })
+    }
+    return segments
+  }
+
+  private toDebugError(details: ThrownDetails, blockLine: number): DebugError {
+    const stubError = details.raised instanceof SSJSStubError ? details.raised : undefined
+    const message = details.message ?? 'Uncaught exception'
+    const stack = details.stack ?? ''
+
+    let rule = stubError ? stubError.rule : 'ssjs-runtime-error'
+    let location = parseStackLocation(stack)
+    let fixSuggestion = 'Wrap platform calls in try/catch and check the fixture data'
+
+    if (details.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      rule = 'ssjs-timeout'
+      fixSuggestion = 'Check loop conditions; SFMC also ends long-running scripts'
+    } else if (details.name === 'SyntaxError') {
+      rule = 'ssjs-syntax-error'
+      location = location ?? { line: blockLine, column: 1 }
+      fixSuggestion = 'Fix the syntax error before running the script'
+    } else if (rule === 'ssjs-runtime-unsupported') {
+      fixSuggestion = 'Test this call against a business unit, or stub it out while debugging'
+    } else if (rule === 'ssjs-core-not-loaded') {
+      fixSuggestion = 'Add Platform.Load("Core", "1.1.1") at the top of the script'
+    } else if (rule === 'ssjs-missing-fixture') {
+      fixSuggestion = 'Add the missing Data Extension rows, HTTP response or SOAP objects to the mock context'
+    }
+
+    const line = location?.line ?? blockLine
+    const column = location?.column ?? 1
+    return {
+      id: `runtime_${line}_${column}`,
+      line,
+      column,
+      severity: 'error',
+      message: details.name && details.name !== 'Error' && !stubError ? `${details.name}: ${message}` : message,
+      rule,
+      category: 'runtime',
+      fixSuggestion
+    }
+  }
+
+  private describeArg(arg: unknown): string {
+    let text: string
+    if (typeof arg === 'function') {
+      text = '[Function]'
+    } else {
+      try {
+        text = JSON.stringify(arg) ?? String(arg)
+      } catch (error) {
+        text = String(arg)
+      }
+    }
+    return text.length > this.options.maxLoggedArgLength ? `${text.slice(0, this.options.maxLoggedArgLength)}…` : text
+  }
+}
+
+/**
+ * Location of the innermost script frame of the current call, used to tag
+ * stub calls in the call log
+ */
+function callSite(): { line?: number, column?: number } {
+  return parseStackLocation(new Error().stack ?? '') ?? {}
+}
+
+function parseStackLocation(stack: string): { line: number, column: number } | undefined {
+  const frame = new RegExp(`\\b${SCRIPT_FILENAME}:(\\d+)(?::(\\d+))?`).exec(stack)
+  return frame ? { line: parseInt(frame[1], 10), column: frame[2] ? parseInt(frame[2], 10) : 1 } : undefined
+}
@@ -0,0 +1,193 @@
+import { AnalysisLanguage, SourceRange, SuppressionDirective, SuppressionKind } from '../../types/debugging'
+import { LineIndex } from './parsers/source-text'
+import { tokenizeSql } from './parsers/sql-lexer'
+import { tokenizeAMPScript } from './parsers/ampscript-lexer'
+import { maskSSJS } from './parsers/ssjs-text'
+import { extractEmbeddedSources } from './parsers/document-regions'
+import { RuleIssue } from './rule-config'
+
+const DIRECTIVE_PATTERN = /^\s*sfmc-debug-(disable-next-line|disable-line|disable|enable)(?=\s|$)([^\n]*?)\s*$/
+
+const BLOCK_COMMENT = /\/\*[\s\S]*?\*\//g
+const HTML_COMMENT = /<!--[\s\S]*?-->/g
+
+// Comment delimiters around the text a directive is read from
+const COMMENT_DELIMITERS = /^(?:\/\/|\/\*|--|<!--)|(?:\*\/|-->)$/g
+
+interface CommentSpan {
+  start: number
+  end: number
+}
+
+/**
+ * Comments a directive can be written in. They are found with each
+ * language's tokenizer, so comment markers inside strings and URLs are not
+ * read as comments. AMPScript and SSJS usually sit inside HTML, so HTML
+ * comments work there too.
+ */
+function findComments(code: string, language: AnalysisLanguage): CommentSpan[] {
+  switch (language) {
+    case 'sql':
+      return tokenizeSql(code).comments.map(comment => spanOf(comment.range))
+    case 'ampscript':
+      return ampscriptComments(code)
+    case 'ssjs':
+    case 'javascript': {
+      const { structure, comments } = maskSSJS(code)
+      return language === 'ssjs' ? [...comments, ...matchSpans(structure, HTML_COMMENT)] : comments
+    }
+    case 'css':
+      return matchSpans(code, BLOCK_COMMENT)
+    case 'html':
+      return matchSpans(code, HTML_COMMENT)
+    case 'cloudpage':
+    case 'email':
+      return extractEmbeddedSources(code).flatMap(source => {
+        const comments = source.language === 'ampscript' ? ampscriptComments(source.code, false) : findComments(source.code, source.language)
+        return comments.map(comment => ({
+          start: source.toDocumentOffset(comment.start),
+          end: source.toDocumentOffset(comment.end)
+        }))
+      })
+  }
+}
+
+// Comments inside AMPScript blocks, and HTML comments in the content around them
+function ampscriptComments(code: string, bareScript?: boolean): CommentSpan[] {
+  const { tokens, comments } = tokenizeAMPScript(code, bareScript)
+  return [
+    ...comments.map(comment => spanOf(comment.range)),
+    ...tokens
+      .filter(token => token.type === 'content')
+      .flatMap(token => matchSpans(token.value, HTML_COMMENT).map(span => ({
+        start: token.range.start.offset + span.start,
+        end: token.range.start.offset + span.end
+      })))
+  ]
+}
+
+function matchSpans(text: string, pattern: RegExp): CommentSpan[] {
+  return Array.from(text.matchAll(pattern), match => ({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }))
+}
+
+function spanOf(range: SourceRange): CommentSpan {
+  return { start: range.start.offset, end: range.end.offset }
+}
+
+interface SuppressionEntry {
+  directive: SuppressionDirective
+  // Line a disable-line or disable-next-line directive applies to
+  targetLine: number
+  // Lower-cased rule ids, for matching
+  rules: Set<string>
+}
+
+/**
+ * Finds sfmc-debug-* directives in comments and decides which issues they
+ * silence:
+ *
+ *   disable-next-line [rules]   the line after the comment
+ *   disable-line [rules]        the line the comment starts on
+ *   disable [rules]             every following line, up to a matching enable
+ *   enable [rules]              ends an earlier disable
+ *
+ * Without rule ids a directive applies to every rule. The tracker remembers
+ * which directives silenced something so unused ones can be reported.
+ */
+export class SuppressionTracker {
+  private readonly entries: SuppressionEntry[]
+  private readonly used = new Map<SuppressionEntry, Set<string>>()
+
+  constructor(code: string, language: AnalysisLanguage) {
+    this.entries = parseDirectives(code, language)
+  }
+
+  get directives(): SuppressionDirective[] {
+    return this.entries.map(entry => entry.directive)
+  }
+
+  filter<T extends RuleIssue>(issues: T[]): T[] {
+    if (this.entries.length === 0) return issues
+
+    return issues.filter(issue => {
+      const entry = this.suppressing(issue)
+      if (!entry) return true
+
+      const rules = this.used.get(entry) ?? new Set<string>()
+      rules.add(issue.rule.toLowerCase())
+      this.used.set(entry, rules)
+      return false
+    })
+  }
+
+  /**
+   * Directives that silenced nothing. Directives naming several rules are
+   * listed with only the rules that were never matched.
+   */
+  unused(): SuppressionDirective[] {
+    return this.entries.flatMap(entry => {
+      if (entry.directive.kind === 'enable') return []
+
+      const used = this.used.get(entry)
+      if (entry.rules.size === 0) {
+        return used ? [] : [entry.directive]
+      }
+
+      const unusedRules = entry.directive.rules.filter(rule => !used?.has(rule.toLowerCase()))
+      return unusedRules.length > 0 ? [{ ...entry.directive, rules: unusedRules }] : []
+    })
+  }
+
+  private suppressing(issue: RuleIssue): SuppressionEntry | undefined {
+    const rule = issue.rule.toLowerCase()
+    const matches = (entry: SuppressionEntry) => entry.rules.size === 0 || entry.rules.has(rule)
+
+    const lineDirective = this.entries.find(entry =>
+      (entry.directive.kind === 'disable-line' || entry.directive.kind === 'disable-next-line') &&
+      entry.targetLine === issue.line && matches(entry)
+    )
+    if (lineDirective) return lineDirective
+
+    // Replay disable/enable up to the issue line; the last one that names the rule wins
+    let active: SuppressionEntry | undefined
+    for (const entry of this.entries) {
+      if (entry.directive.line > issue.line) break
+      if (!matches(entry)) continue
+      if (entry.directive.kind === 'disable') active = entry
+      if (entry.directive.kind === 'enable') active = undefined
+    }
+    return active
+  }
+}
+
+function parseDirectives(code: string, language: AnalysisLanguage): SuppressionEntry[] {
+  if (!code.includes('sfmc-debug-')) return []
+
+  const lineIndex = new LineIndex(code)
+  const entries: SuppressionEntry[] = []
+  let scanned = 0
+
+  // A comment can appear inside a comment of another language ("<!-- /* */ -->"); only the outer one counts
+  const comments = findComments(code, language).sort((a, b) => a.start - b.start)
+
+  comments.forEach(comment => {
+    if (comment.start < scanned) return
+    scanned = comment.end
+
+    const directive = DIRECTIVE_PATTERN.exec(code.slice(comment.start, comment.end).replace(COMMENT_DELIMITERS, ''))
+    if (!directive) return
+
+    const start = lineIndex.positionAt(comment.start)
+    const end = lineIndex.positionAt(scanned)
+    const kind = directive[1] as SuppressionKind
+    const rules = directive[2].split(/[\s,]+/).filter(Boolean)
+
+    entries.push({
+      directive: { kind, rules, line: start.line, column: start.column },
+      targetLine: kind === 'disable-next-line' ? end.line + 1 : start.line,
+      rules: new Set(rules.map(rule => rule.toLowerCase()))
+    })
+  })
+
+  return entries
+}
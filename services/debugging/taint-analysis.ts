@@ -0,0 +1,432 @@
+import { AnalysisLanguage, DebugError, ErrorSeverity, TaintStep, TextEdit } from '../../types/debugging'
+import { parseAMPScript } from './parsers/ampscript-parser'
+import { AMPScriptExpression, walkAMPScript } from './parsers/ampscript-ast'
+import { extractEmbeddedSources, isDocumentLanguage } from './parsers/document-regions'
+import { LineIndex } from './parsers/source-text'
+import { argumentsOf, closingParen, enclosingBrace, maskSSJS, readExpression } from './parsers/ssjs-text'
+
+type TaintSink = 'output' | 'redirect' | 'http-post' | 'wsproxy-filter' | 'sql'
+
+interface Taint {
+  // Source and the assignments it went through
+  path: TaintStep[]
+  // Passed through HTMLEncode or URLEncode, which only makes output safe
+  encoded: boolean
+}
+
+// AMPScript variables are keyed by their lowercase name with the @, which is
+// also how SSJS reaches them through Variable.GetValue and SetValue; SSJS
+// variables by their plain name
+type TaintState = Map<string, Taint>
+
+// Statement of the analysed code, applied to the taint state in execution order
+interface FlowEvent {
+  offset: number
+  apply: (state: TaintState) => void
+}
+
+// Wraps the sink argument in an encoding call
+interface WrapFix {
+  start: number
+  end: number
+  prefix: string
+  suffix: string
+}
+
+const SINKS: Record<TaintSink, { severity: ErrorSeverity, message: string, fixSuggestion: string }> = {
+  output: {
+    severity: 'error',
+    message: 'Untrusted input is written to the page without HTMLEncode or URLEncode',
+    fixSuggestion: 'Encode the value with HTMLEncode, or URLEncode inside URLs'
+  },
+  redirect: {
+    severity: 'warning',
+    message: 'Untrusted input decides the redirect target',
+    fixSuggestion: 'Only redirect to URLs from a fixed list, chosen by the input'
+  },
+  'http-post': {
+    severity: 'warning',
+    message: 'Untrusted input is sent in an HTTP POST body',
+    fixSuggestion: 'Validate the input against the expected format before sending it'
+  },
+  'wsproxy-filter': {
+    severity: 'error',
+    message: 'Untrusted input is used as a WSProxy filter value',
+    fixSuggestion: 'Validate the input against the expected format before filtering on it'
+  },
+  sql: {
+    severity: 'error',
+    message: 'Untrusted input is concatenated into a SQL string',
+    fixSuggestion: 'Validate the input, or look rows up with Rows.Lookup instead of building SQL'
+  }
+}
+
+export const TAINT_RULES = [
+  'ampscript-taint-output',
+  'ampscript-taint-redirect',
+  'ampscript-taint-http-post',
+  'ssjs-taint-output',
+  'ssjs-taint-redirect',
+  'ssjs-taint-http-post',
+  'ssjs-taint-wsproxy-filter',
+  'ssjs-taint-sql'
+]
+
+const AMPSCRIPT_SOURCES = new Set(['requestparameter', 'queryparameter', 'attributevalue'])
+const AMPSCRIPT_ENCODERS = new Set(['htmlencode', 'urlencode'])
+// String functions whose result carries the input through
+const AMPSCRIPT_PROPAGATORS = new Set([
+  'concat', 'substring', 'trim', 'lowercase', 'uppercase', 'propercase', 'replace', 'replacelist', 'format', 'v'
+])
+const AMPSCRIPT_OUTPUT = new Set(['output', 'outputline'])
+const AMPSCRIPT_HTTP_POST = new Set(['httppost', 'httppost2'])
+
+const SSJS_SOURCE_PATTERN = /\b(?:Platform\.Request\.|Request\.)(?:GetQueryStringParameter|GetFormField)\s*\(|\b(?:Platform\.Recipient\.GetAttributeValue|Attribute\.GetValue)\s*\(/g
+const SSJS_ENCODER_PATTERN = /\b(?:Platform\.Function\.)?(HTMLEncode|URLEncode)\s*\(|\b(encodeURIComponent)\s*\(/g
+// Data extension reads (Platform.Function.Lookup*, Rows.Lookup): the rows
+// come from the data extension, whatever the filter values were
+const SSJS_LOOKUP_PATTERN = /\b(?:Lookup|LookupRows|LookupOrderedRows)\s*\(/g
+const SSJS_GET_VALUE_PATTERN = /\b(?:Platform\.)?Variable\.GetValue\s*\(\s*(["'])([^"'\n]+)\1\s*\)/g
+const SSJS_SET_VALUE_PATTERN = /\b(?:Platform\.)?Variable\.SetValue\s*\(/g
+const SSJS_OUTPUT_PATTERN = /((?:Platform\.)?Response\.Write|Write)\s*\(/g
+const SSJS_REDIRECT_PATTERN = /((?:Platform\.)?Response\.Redirect|Redirect)\s*\(/g
+const SSJS_HTTP_POST_PATTERN = /(HTTP\.Post|Platform\.Function\.HTTPPost)\s*\(/g
+const SSJS_ASSIGNMENT_PATTERN = /([A-Za-z_$][\w$]*)\s*(\+=|=)(?![=>])/g
+const SSJS_IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/g
+// WSProxy filters are objects with a SimpleOperator and the Value compared against
+const SSJS_FILTER_VALUE_PATTERN = /(["']?)Value\1\s*:/g
+const SSJS_QUERY_TEXT_PATTERN = /(["']?)QueryText\1\s*:/g
+const SQL_LITERAL_PATTERN = /["'`][^"'`]*\b(SELECT|INSERT|UPDATE|DELETE|FROM|WHERE)\b/i
+
+/**
+ * Follows untrusted input (request parameters, form fields and subscriber
+ * attributes) through AMPScript and SSJS variables to the places where it
+ * can do harm: page output that is not encoded, redirects, HTTP POST
+ * bodies, WSProxy filters and SQL strings. Each finding carries the path
+ * from the source to the sink.
+ *
+ * The analysis follows the code in source order. Assignments inside IF and
+ * FOR only add taint, since the branch may not run; loops are not
+ * revisited. In CloudPages and emails AMPScript and SSJS share the
+ * variables exchanged through Variable.GetValue and SetValue.
+ */
+export function analyzeTaint(code: string, language: AnalysisLanguage): DebugError[] {
+  const report = new TaintReport(code, isDocumentLanguage(language))
+  const events: FlowEvent[] = []
+
+  if (language === 'ampscript') events.push(...ampscriptEvents(code, offset => offset, report))
+  if (language === 'ssjs') events.push(...ssjsEvents(code, offset => offset, report))
+  if (isDocumentLanguage(language)) {
+    extractEmbeddedSources(code).forEach(source => {
+      const at = (offset: number) => source.toDocumentOffset(offset)
+      if (source.language === 'ampscript') events.push(...ampscriptEvents(source.code, at, report, false))
+      if (source.language === 'ssjs') events.push(...ssjsEvents(source.code, at, report))
+    })
+  }
+
+  const state: TaintState = new Map()
+  events.sort((a, b) => a.offset - b.offset).forEach(event => event.apply(state))
+  return report.findings
+}
+
+export function isTaintRule(rule: string): boolean {
+  return TAINT_RULES.includes(rule)
+}
+
+class TaintReport {
+  readonly findings: DebugError[] = []
+  private readonly lineIndex: LineIndex
+  private readonly reported = new Set<string>()
+
+  // Findings of composite documents name the language of their sink
+  constructor(code: string, private readonly inDocument: boolean) {
+    this.lineIndex = new LineIndex(code)
+  }
+
+  step(kind: TaintStep['kind'], offset: number, description: string): TaintStep {
+    const { line, column } = this.lineIndex.positionAt(offset)
+    return { kind, line, column, description }
+  }
+
+  report(language: 'ampscript' | 'ssjs', sink: TaintSink, taint: Taint, offset: number, description: string, fix?: WrapFix): void {
+    const rule = `${language}-taint-${sink}`
+    if (this.reported.has(`${rule}:${offset}`)) return
+    this.reported.add(`${rule}:${offset}`)
+
+    const { line, column } = this.lineIndex.positionAt(offset)
+    const path = [...taint.path, this.step('sink', offset, description)]
+    this.findings.push({
+      id: `${rule}_${line}_${column}`,
+      line,
+      column,
+      severity: SINKS[sink].severity,
+      message: `${SINKS[sink].message}: ${path.map(step => step.description).join(' → ')}`,
+      rule,
+      category: 'security',
+      fixSuggestion: SINKS[sink].fixSuggestion,
+      ...(fix && {
+        fix: {
+          kind: 'unsafe' as const,
+          description: `Wrap the value in ${fix.prefix.replace('(', '')}`,
+          edits: [this.insertion(fix.start, fix.prefix), this.insertion(fix.end, fix.suffix)]
+        }
+      }),
+      ...(this.inDocument && { language }),
+      taintPath: path
+    })
+  }
+
+  private insertion(offset: number, text: string): TextEdit {
+    const { line, column } = this.lineIndex.positionAt(offset)
+    return { line, column, endLine: line, endColumn: column, replacement: text }
+  }
+}
+
+function ampscriptEvents(source: string, at: (offset: number) => number, report: TaintReport, bareScript?: boolean): FlowEvent[] {
+  const { program } = parseAMPScript(source, bareScript)
+  const events: FlowEvent[] = []
+  const text = (expression: AMPScriptExpression) => source.slice(expression.range.start.offset, expression.range.end.offset)
+
+  const taintOf = (expression: AMPScriptExpression | null | undefined, state: TaintState): Taint | undefined => {
+    if (!expression) return undefined
+    if (expression.type === 'Variable') return state.get(expression.name.toLowerCase())
+    if (expression.type !== 'Call') return undefined
+
+    const callee = expression.callee.toLowerCase()
+    const start = at(expression.range.start.offset)
+    if (AMPSCRIPT_SOURCES.has(callee)) {
+      return { path: [report.step('source', start, text(expression))], encoded: false }
+    }
+    if (AMPSCRIPT_ENCODERS.has(callee)) {
+      const inner = taintOf(expression.args[0], state)
+      return inner && { path: [...inner.path, report.step('propagation', start, `encoded by ${expression.callee}`)], encoded: true }
+    }
+
+    const args = callee === 'iif' ? expression.args.slice(1) : AMPSCRIPT_PROPAGATORS.has(callee) ? expression.args : []
+    return strongest(args.map(arg => taintOf(arg, state)))
+  }
+
+  const wrap = (expression: AMPScriptExpression): WrapFix => ({
+    start: at(expression.range.start.offset),
+    end: at(expression.range.end.offset),
+    prefix: 'HTMLEncode(',
+    suffix: ')'
+  })
+
+  walkAMPScript(program.body, (node, ancestors) => {
+    if (node.type === 'Set') {
+      const conditional = ancestors.some(ancestor => ancestor.type === 'If' || ancestor.type === 'ElseIf' || ancestor.type === 'For')
+      const key = node.target.name.toLowerCase()
+      events.push({
+        // The variable is written once its value has been evaluated
+        offset: at(node.range.end.offset),
+        apply: state => {
+          const taint = taintOf(node.value, state)
+          if (taint) {
+            state.set(key, { ...taint, path: [...taint.path, report.step('propagation', at(node.target.range.start.offset), `assigned to ${node.target.name}`)] })
+          } else if (!conditional) {
+            state.delete(key)
+          }
+        }
+      })
+    }
+
+    if (node.type === 'InlineOutput' && node.expression) {
+      const expression = node.expression
+      events.push({
+        offset: at(node.range.start.offset),
+        apply: state => {
+          const taint = taintOf(expression, state)
+          if (taint && !taint.encoded) {
+            report.report('ampscript', 'output', taint, at(expression.range.start.offset), '%%= =%% output', wrap(expression))
+          }
+        }
+      })
+    }
+
+    if (node.type === 'Call') {
+      const callee = node.callee.toLowerCase()
+      const offset = at(node.range.start.offset)
+      const sink = (argument: AMPScriptExpression | undefined, apply: (taint: Taint, argument: AMPScriptExpression) => void) => {
+        if (!argument) return
+        events.push({ offset, apply: state => {
+          const taint = taintOf(argument, state)
+          if (taint) apply(taint, argument)
+        } })
+      }
+
+      if (AMPSCRIPT_OUTPUT.has(callee)) {
+        sink(node.args[0], (taint, argument) => {
+          if (!taint.encoded) report.report('ampscript', 'output', taint, offset, `${node.callee}()`, wrap(argument))
+        })
+      }
+      if (callee === 'redirect') {
+        sink(node.args[0], taint => report.report('ampscript', 'redirect', taint, offset, `${node.callee}()`))
+      }
+      if (AMPSCRIPT_HTTP_POST.has(callee)) {
+        sink(node.args[2], taint => report.report('ampscript', 'http-post', taint, offset, `${node.callee}() body`))
+      }
+    }
+  })
+
+  return events
+}
+
+function ssjsEvents(source: string, at: (offset: number) => number, report: TaintReport): FlowEvent[] {
+  // Comments are blanked in code; structure also blanks string contents, so
+  // brackets and keywords inside strings are not mistaken for code
+  const { code, structure } = maskSSJS(source)
+  const events: FlowEvent[] = []
+
+  const taintOf = (start: number, end: number, state: TaintState): Taint | undefined => {
+    const encoders = matchesIn(SSJS_ENCODER_PATTERN, structure, start, end).map(match => ({
+      name: match[1] ?? match[2],
+      start: match.index!,
+      end: closingParen(structure, match.index! + match[0].length - 1)
+    }))
+    const lookups = matchesIn(SSJS_LOOKUP_PATTERN, structure, start, end).map(match => ({
+      start: match.index!,
+      end: closingParen(structure, match.index! + match[0].length - 1)
+    }))
+    const hits: Array<{ offset: number, taint: Taint }> = []
+
+    matchesIn(SSJS_SOURCE_PATTERN, structure, start, end).forEach(match => {
+      const close = closingParen(structure, match.index! + match[0].length - 1)
+      const call = code.slice(match.index!, close + 1).replace(/\s+/g, ' ')
+      hits.push({ offset: match.index!, taint: { path: [report.step('source', at(match.index!), call)], encoded: false } })
+    })
+
+    matchesIn(SSJS_GET_VALUE_PATTERN, code, start, end).forEach(match => {
+      const taint = state.get(match[2].toLowerCase())
+      if (!taint) return
+      const step = report.step('propagation', at(match.index!), `read by Variable.GetValue("${match[2]}")`)
+      hits.push({ offset: match.index!, taint: { ...taint, path: [...taint.path, step] } })
+    })
+
+    matchesIn(SSJS_IDENTIFIER_PATTERN, structure, start, end).forEach(match => {
+      // Properties of other objects are not the variable
+      if (/[\w$.]/.test(structure[match.index! - 1] ?? '')) return
+      const taint = state.get(match[0])
+      if (taint) hits.push({ offset: match.index!, taint })
+    })
+
+    return strongest(hits.filter(hit => !lookups.some(span => hit.offset > span.start && hit.offset < span.end)).map(hit => {
+      const encoder = encoders.find(span => hit.offset > span.start && hit.offset < span.end)
+      if (!encoder) return hit.taint
+      return { path: [...hit.taint.path, report.step('propagation', at(encoder.start), `encoded by ${encoder.name}`)], encoded: true }
+    }))
+  }
+
+  const checkSQL = (start: number, end: number, state: TaintState, description: string) => {
+    if (!SQL_LITERAL_PATTERN.test(code.slice(start, end))) return
+    const taint = taintOf(start, end, state)
+    if (taint) report.report('ssjs', 'sql', { ...taint, encoded: false }, at(start), description)
+  }
+
+  for (const match of structure.matchAll(SSJS_ASSIGNMENT_PATTERN)) {
+    if (/[\w$.]/.test(structure[match.index! - 1] ?? '')) continue
+
+    const name = match[1]
+    const start = match.index! + match[0].length
+    const end = readExpression(structure, start, ';,\n')
+    events.push({
+      offset: at(end),
+      apply: state => {
+        checkSQL(start, end, state, `SQL string assigned to ${name}`)
+        const assigned = taintOf(start, end, state)
+        const taint = match[2] === '+=' ? strongest([state.get(name), assigned]) : assigned
+        if (taint) {
+          state.set(name, { ...taint, path: [...taint.path, report.step('propagation', at(match.index!), `assigned to ${name}`)] })
+        } else {
+          state.delete(name)
+        }
+      }
+    })
+  }
+
+  for (const match of code.matchAll(SSJS_SET_VALUE_PATTERN)) {
+    const [name, value] = argumentsOf(structure, match.index! + match[0].length - 1)
+    const literal = name && /^\s*(["'])([^"'\n]+)\1\s*$/.exec(code.slice(name.start, name.end))
+    if (!literal || !value) continue
+
+    const key = literal[2].toLowerCase()
+    events.push({
+      offset: at(value.end),
+      apply: state => {
+        const taint = taintOf(value.start, value.end, state)
+        if (taint) {
+          state.set(key, { ...taint, path: [...taint.path, report.step('propagation', at(match.index!), `assigned to ${literal[2]} by Variable.SetValue`)] })
+        } else {
+          state.delete(key)
+        }
+      }
+    })
+  }
+
+  const callSinks: Array<[RegExp, number, (taint: Taint, offset: number, callee: string, argument: { start: number, end: number }) => void]> = [
+    [SSJS_OUTPUT_PATTERN, 0, (taint, offset, callee, argument) => {
+      if (taint.encoded) return
+      report.report('ssjs', 'output', taint, offset, `${callee}()`, {
+        start: at(argument.start), end: at(argument.end), prefix: 'Platform.Function.HTMLEncode(', suffix: ')'
+      })
+    }],
+    [SSJS_REDIRECT_PATTERN, 0, (taint, offset, callee) => report.report('ssjs', 'redirect', taint, offset, `${callee}()`)],
+    [SSJS_HTTP_POST_PATTERN, 2, (taint, offset, callee) => report.report('ssjs', 'http-post', taint, offset, `${callee}() body`)]
+  ]
+
+  callSinks.forEach(([pattern, index, apply]) => {
+    for (const match of structure.matchAll(pattern)) {
+      if (/[\w$.]/.test(structure[match.index! - 1] ?? '')) continue
+
+      const argument = argumentsOf(structure, match.index! + match[0].length - 1)[index]
+      if (!argument) continue
+      const offset = at(match.index!)
+      events.push({
+        offset,
+        apply: state => {
+          const taint = taintOf(argument.start, argument.end, state)
+          if (taint) apply(taint, offset, match[1], trimmed(code, argument))
+        }
+      })
+    }
+  })
+
+  for (const match of code.matchAll(SSJS_FILTER_VALUE_PATTERN)) {
+    if (/[\w$]/.test(code[match.index! - 1] ?? '')) continue
+
+    const start = match.index! + match[0].length
+    const end = readExpression(structure, start, ',;')
+    if (!/SimpleOperator/.test(code.slice(enclosingBrace(structure, match.index!), end + 1))) continue
+
+    events.push({
+      offset: at(start),
+      apply: state => {
+        const taint = taintOf(start, end, state)
+        if (taint) report.report('ssjs', 'wsproxy-filter', { ...taint, encoded: false }, at(start), 'WSProxy filter Value')
+      }
+    })
+  }
+
+  for (const match of code.matchAll(SSJS_QUERY_TEXT_PATTERN)) {
+    const start = match.index! + match[0].length
+    const end = readExpression(structure, start, ',;')
+    events.push({ offset: at(start), apply: state => checkSQL(start, end, state, 'QueryText of a query definition') })
+  }
+
+  return events
+}
+
+// Prefers taint that was not encoded, since it is unsafe in every sink
+function strongest(taints: Array<Taint | undefined>): Taint | undefined {
+  return taints.find(taint => taint && !taint.encoded) ?? taints.find(taint => taint !== undefined)
+}
+
+function matchesIn(pattern: RegExp, text: string, start: number, end: number): RegExpMatchArray[] {
+  return Array.from(text.slice(0, end).matchAll(pattern)).filter(match => match.index! >= start)
+}
+
+function trimmed(code: string, range: { start: number, end: number }): { start: number, end: number } {
+  const text = code.slice(range.start, range.end)
+  const start = range.start + (text.length - text.trimStart().length)
+  return { start, end: start + text.trim().length }
+}
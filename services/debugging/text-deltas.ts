@@ -0,0 +1,47 @@
+import { z } from 'zod'
+import { TextDelta } from '../../types/debugging'
+
+// Deltas as clients send them; offsets are checked against the text when applied
+export const TextDeltasSchema = z.array(z.object({
+  start: z.number().int().nonnegative(),
+  end: z.number().int().nonnegative(),
+  text: z.string()
+}))
+
+/**
+ * Applies deltas in order, each to the text the previous one produced, as
+ * editors report their content changes
+ */
+export function applyTextDeltas(text: string, deltas: TextDelta[]): string {
+  return deltas.reduce((current, delta) => {
+    if (typeof delta?.text !== 'string') {
+      throw new TypeError('Every delta needs the text that replaces its range')
+    }
+    if (!Number.isInteger(delta.start) || !Number.isInteger(delta.end) || delta.start < 0 || delta.start > delta.end || delta.end > current.length) {
+      throw new RangeError(`Delta ${delta.start}-${delta.end} is outside a text of length ${current.length}`)
+    }
+    return current.slice(0, delta.start) + delta.text + current.slice(delta.end)
+  }, text)
+}
+
+/**
+ * Describes the change from one text to the next as a single delta covering
+ * everything between their common prefix and suffix; no deltas when the
+ * texts are equal
+ */
+export function computeTextDelta(previous: string, next: string): TextDelta[] {
+  if (previous === next) return []
+
+  const maxPrefix = Math.min(previous.length, next.length)
+  let prefix = 0
+  while (prefix < maxPrefix && previous.charCodeAt(prefix) === next.charCodeAt(prefix)) prefix++
+
+  const maxSuffix = maxPrefix - prefix
+  let suffix = 0
+  while (
+    suffix < maxSuffix &&
+    previous.charCodeAt(previous.length - 1 - suffix) === next.charCodeAt(next.length - 1 - suffix)
+  ) suffix++
+
+  return [{ start: prefix, end: previous.length - suffix, text: next.slice(prefix, next.length - suffix) }]
+}
@@ -1,7 +1,41 @@
-import { LanguageValidator, DebugError, OptimizationSuggestion, ErrorSeverity } from '../../../types/debugging'
+import {
+  LanguageValidator,
+  DebugError,
+  OptimizationSuggestion,
+  ErrorSeverity,
+  ErrorCategory,
+  SourceRange,
+  CodeFix
+} from '../../../types/debugging'
+import { parseAMPScript, AMPScriptParseResult } from '../parsers/ampscript-parser'
+import {
+  AMPScriptNode,
+  AMPScriptProgram,
+  AMPScriptStatement,
+  CallExpressionNode,
+  IfStatementNode,
+  VariableNode,
+  walkAMPScript,
+  isLoopNode
+} from '../parsers/ampscript-ast'
+import { LineIndex, rangeEdit, rangeToLocation, sliceRange } from '../parsers/source-text'
+import { FixEngine } from '../fix-engine'
+import { analyzeTaint } from '../taint-analysis'
+
+interface CallSite {
+  node: CallExpressionNode
+  ancestors: AMPScriptNode[]
+  loopDepth: number
+}
+
+interface VariableEvent {
+  kind: 'declare' | 'assign' | 'read'
+  variable: VariableNode
+  ancestors: AMPScriptNode[]
+}
 
 export class AMPScriptValidator implements LanguageValidator {
-  private readonly AMPSCRIPT_FUNCTIONS = [
+  static readonly AMPSCRIPT_FUNCTIONS = [
     'AttributeValue', 'Concat', 'Length', 'Substring', 'Replace', 'Uppercase', 'Lowercase',
     'Trim', 'Format', 'FormatCurrency', 'FormatNumber', 'Now', 'DateAdd', 'DateDiff',
     'DatePart', 'IsNull', 'Empty', 'IIF', 'Lookup', 'LookupRows', 'LookupOrderedRows',
@@ -13,10 +47,12 @@ export class AMPScriptValidator implements LanguageValidator {
     'CreateObject', 'InvokeCreate', 'InvokeDelete', 'InvokeExecute', 'InvokePerform',
     'InvokeRetrieve', 'InvokeUpdate', 'ProperCase', 'RegExMatch', 'RegExReplace',
     'StringToDate', 'StringToHex', 'SystemDateToLocalDate', 'TreatAsContent',
-    'TreatAsContentArea', 'UnclaimRow', 'URLEncode', 'v', 'Output'
+    'TreatAsContentArea', 'UnclaimRow', 'URLEncode', 'v', 'Output',
+    'Add', 'Subtract', 'Multiply', 'Divide', 'Mod', 'IndexOf', 'Char', 'FormatDate',
+    'HTMLEncode', 'Redirect', 'ContentBlockByKey', 'ContentBlockById', 'ContentBlockByName'
   ]
 
-  private readonly SFMC_SYSTEM_FUNCTIONS = [
+  static readonly SFMC_SYSTEM_FUNCTIONS = [
     'CloudPagesURL', 'MicrositeURL', 'RequestParameter', 'QueryParameter',
     'HTTPRequestHeader', 'HTTPResponseHeader', 'GetPortfolioItem', 'SetPortfolioItem'
   ]
@@ -27,773 +63,741 @@ export class AMPScriptValidator implements LanguageValidator {
     'UpdateSingleSalesforceObject', 'RetrieveSalesforceObjects'
   ]
 
-  private readonly AMPSCRIPT_KEYWORDS = [
-    'VAR', 'SET', 'IF', 'ELSEIF', 'ELSE', 'ENDIF', 'FOR', 'NEXT', 'DO', 'WHILE'
-  ]
+  private static readonly KNOWN_FUNCTIONS = new Set(
+    [...AMPScriptValidator.AMPSCRIPT_FUNCTIONS, ...AMPScriptValidator.SFMC_SYSTEM_FUNCTIONS].map(name => name.toLowerCase())
+  )
+
+  private readonly fixEngine = new FixEngine()
+
+  private lastParse?: { code: string, result: AMPScriptParseResult }
+
+  static isKnownFunction(name: string): boolean {
+    return AMPScriptValidator.KNOWN_FUNCTIONS.has(name.toLowerCase())
+  }
 
   async validateSyntax(code: string): Promise<DebugError[]> {
     const errors: DebugError[] = []
-    const lines = code.split('\n')
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      const lineNumber = i + 1
-
-      // Check for proper AMPScript delimiters
-      errors.push(...this.validateDelimiters(line, lineNumber))
-      
-      // Check for variable declarations
-      errors.push(...this.validateVariableDeclarations(line, lineNumber))
-      
-      // Check for function usage
-      errors.push(...this.validateFunctionUsage(line, lineNumber))
-      
-      // Check for conditional logic
-      errors.push(...this.validateConditionalLogic(line, lineNumber))
-      
-      // Check for string concatenation
-      errors.push(...this.validateStringOperations(line, lineNumber))
-      
-      // Check for common syntax errors
-      errors.push(...this.validateCommonSyntaxErrors(line, lineNumber))
-    }
+    const { program, diagnostics, lineIndex } = this.parse(code)
+
+    // Tokenizer and parser diagnostics (delimiters, block structure, comparisons)
+    diagnostics.forEach(diagnostic => {
+      errors.push(this.createError(
+        diagnostic.rule.replace(/^ampscript-/, '').replace(/-/g, '_'),
+        diagnostic.range,
+        diagnostic.severity,
+        diagnostic.message,
+        diagnostic.rule,
+        'syntax',
+        diagnostic.fixSuggestion,
+        diagnostic.fix
+      ))
+    })
+
+    // Check for output delimiters
+    errors.push(...this.validateInlineOutput(program))
+
+    // Check for variable declarations
+    errors.push(...this.validateVariableDeclarations(program))
+
+    // Check for function usage
+    errors.push(...this.validateFunctionUsage(program))
+
+    // Check for string concatenation
+    errors.push(...this.validateStringOperations(program))
 
-    // Check for block-level issues
-    errors.push(...this.validateBlockStructure(code))
+    // Check for common syntax errors
+    errors.push(...this.validateCommonSyntaxErrors(program, lineIndex))
 
     return errors
   }
 
   async validateSemantics(code: string): Promise<DebugError[]> {
     const errors: DebugError[] = []
-    const lines = code.split('\n')
-
-    // Track declared variables
-    const declaredVariables = new Set<string>()
-    const usedVariables = new Set<string>()
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      const lineNumber = i + 1
-
-      // Track variable declarations and usage
-      this.trackVariables(line, declaredVariables, usedVariables)
-      
-      // Check for undefined variables
-      errors.push(...this.validateVariableUsage(line, lineNumber, declaredVariables))
-      
-      // Check for data extension operations
-      errors.push(...this.validateDataExtensionOperations(line, lineNumber))
-      
-      // Check for Salesforce operations
-      errors.push(...this.validateSalesforceOperations(line, lineNumber))
-      
-      // Validate SFMC system functions
-      errors.push(...this.validateSFMCSystemFunctions(line, lineNumber))
-    }
+    const { program } = this.parse(code)
+    const events = this.collectVariableEvents(program)
+    const calls = this.collectCalls(program)
+
+    // Check for undefined variables
+    errors.push(...this.validateVariableUsage(events))
+
+    // Check for data extension operations
+    errors.push(...this.validateDataExtensionOperations(calls))
+
+    // Check for Salesforce operations
+    errors.push(...this.validateSalesforceOperations(calls))
+
+    // Validate SFMC system functions
+    errors.push(...this.validateSFMCSystemFunctions(calls))
 
     // Check for unused variables
-    errors.push(...this.validateUnusedVariables(declaredVariables, usedVariables))
+    errors.push(...this.validateUnusedVariables(program, events))
+
+    // Follow request parameters and attributes to unsafe output, redirects and HTTP posts
+    errors.push(...analyzeTaint(code, 'ampscript'))
 
     return errors
   }
 
   async analyzePerformance(code: string): Promise<DebugError[]> {
     const issues: DebugError[] = []
-    const lines = code.split('\n')
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      const lineNumber = i + 1
-
-      // Check for inefficient operations
-      issues.push(...this.analyzeInefficiencies(line, lineNumber))
-      
-      // Check for excessive API calls
-      issues.push(...this.analyzeAPIUsage(line, lineNumber))
-      
-      // Check for loop performance
-      issues.push(...this.analyzeLoopPerformance(line, lineNumber))
-      
-      // Check for string concatenation performance
-      issues.push(...this.analyzeStringPerformance(line, lineNumber))
-      
-      // Analyze SFMC data extension performance
-      issues.push(...this.analyzeSFMCDataExtensionPerformance(line, lineNumber))
-    }
+    const { program } = this.parse(code)
+    const calls = this.collectCalls(program)
+
+    // Check for nested loops
+    issues.push(...this.analyzeInefficiencies(program))
+
+    // Check for excessive API calls
+    issues.push(...this.analyzeAPIUsage(calls))
+
+    // Check for loop performance
+    issues.push(...this.analyzeLoopPerformance(calls))
+
+    // Check for string concatenation performance
+    issues.push(...this.analyzeStringPerformance(program))
+
+    // Analyze SFMC data extension performance
+    issues.push(...this.analyzeSFMCDataExtensionPerformance(calls))
 
     return issues
   }
 
   async getOptimizationSuggestions(code: string): Promise<OptimizationSuggestion[]> {
     const suggestions: OptimizationSuggestion[] = []
-    const lines = code.split('\n')
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      const lineNumber = i + 1
-
-      // Suggest performance improvements
-      suggestions.push(...this.suggestPerformanceImprovements(line, lineNumber))
-      
-      // Suggest code simplifications
-      suggestions.push(...this.suggestCodeSimplifications(line, lineNumber))
-      
-      // Suggest best practices
-      suggestions.push(...this.suggestBestPractices(line, lineNumber))
-    }
+    const { program } = this.parse(code)
+
+    // Suggest performance improvements
+    suggestions.push(...this.suggestPerformanceImprovements(program, code))
+
+    // Suggest code simplifications
+    suggestions.push(...this.suggestCodeSimplifications(program, code))
+
+    // Suggest best practices
+    suggestions.push(...this.suggestBestPractices(this.collectCalls(program), code))
 
     return suggestions
   }
 
   async generateFixedCode(code: string, errors: DebugError[]): Promise<string> {
-    let fixedCode = code
-    const lines = fixedCode.split('\n')
-
-    // Sort errors by line number in descending order to avoid line number shifts
-    const sortedErrors = errors.sort((a, b) => b.line - a.line)
+    const result = await this.fixEngine.fixCode(code, errors, this)
+    return result.code
+  }
 
-    for (const error of sortedErrors) {
-      if (error.fixSuggestion && error.line <= lines.length) {
-        const lineIndex = error.line - 1
-        lines[lineIndex] = this.applyFix(lines[lineIndex], error)
-      }
+  /**
+   * Parses code once per distinct input; the four analysis passes share the tree
+   */
+  parse(code: string): AMPScriptParseResult {
+    if (this.lastParse?.code !== code) {
+      this.lastParse = { code, result: parseAMPScript(code) }
     }
-
-    return lines.join('\n')
+    return this.lastParse.result
   }
 
-  private validateDelimiters(line: string, lineNumber: number): DebugError[] {
+  private validateInlineOutput(program: AMPScriptProgram): DebugError[] {
     const errors: DebugError[] = []
-    
-    // Check for unmatched AMPScript delimiters
-    const openDelimiters = (line.match(/%%\[/g) || []).length
-    const closeDelimiters = (line.match(/\]%%/g) || []).length
-    
-    if (openDelimiters !== closeDelimiters) {
-      errors.push({
-        id: `delimiter_${lineNumber}`,
-        line: lineNumber,
-        column: line.indexOf('%%[') + 1,
-        severity: 'error' as ErrorSeverity,
-        message: 'Unmatched AMPScript delimiters. Each %%[ must have a corresponding ]%%',
-        rule: 'ampscript-delimiters',
-        category: 'syntax',
-        fixSuggestion: openDelimiters > closeDelimiters ? 'Add ]%% at the end' : 'Add %%[ at the beginning'
-      })
-    }
 
-    // Check for output delimiters
-    const outputPattern = /%%=.*?=%% /g
-    const matches = line.match(outputPattern)
-    if (matches) {
-      matches.forEach(match => {
-        if (!match.includes('v(') && !match.includes('AttributeValue')) {
-          const column = line.indexOf(match) + 1
-          errors.push({
-            id: `output_${lineNumber}_${column}`,
-            line: lineNumber,
-            column,
-            severity: 'warning' as ErrorSeverity,
-            message: 'Consider using v() function for variable output',
-            rule: 'ampscript-output',
-            category: 'syntax',
-            fixSuggestion: 'Use %%=v(@variableName)=%% for variable output'
-          })
-        }
-      })
-    }
+    walkAMPScript(program.body, node => {
+      if (node.type === 'InlineOutput' && node.expression?.type === 'Variable') {
+        errors.push(this.createError(
+          'output',
+          node.range,
+          'warning',
+          'Consider using v() function for variable output',
+          'ampscript-output',
+          'syntax',
+          `Use %%=v(${node.expression.name})=%% for variable output`,
+          {
+            kind: 'safe',
+            description: `Wrap ${node.expression.name} in v()`,
+            edits: [rangeEdit(node.expression.range, `v(${node.expression.name})`)]
+          }
+        ))
+      }
+    })
 
     return errors
   }
 
-  private validateVariableDeclarations(line: string, lineNumber: number): DebugError[] {
+  private validateVariableDeclarations(program: AMPScriptProgram): DebugError[] {
     const errors: DebugError[] = []
-    
-    // Check for VAR declarations without SET
-    const varMatch = line.match(/VAR\s+(@\w+)/gi)
-    if (varMatch) {
-      varMatch.forEach(match => {
-        const varName = match.split(/\s+/)[1]
-        if (!line.includes('SET ' + varName)) {
-          errors.push({
-            id: `var_declaration_${lineNumber}`,
-            line: lineNumber,
-            column: line.indexOf(match) + 1,
-            severity: 'warning' as ErrorSeverity,
-            message: `Variable ${varName} declared but not initialized`,
-            rule: 'ampscript-var-init',
-            category: 'semantic',
-            fixSuggestion: `Add SET ${varName} = [initial_value] after declaration`
-          })
-        }
-      })
-    }
-
-    // Check for SET without VAR
-    const setMatch = line.match(/SET\s+(@\w+)/gi)
-    if (setMatch) {
-      setMatch.forEach(match => {
-        const varName = match.split(/\s+/)[1]
-        // This would need context from previous lines to be fully accurate
-        // For now, we'll flag potential issues
+    const events = this.collectVariableEvents(program)
+    const assigned = new Set(events.filter(e => e.kind === 'assign').map(e => this.key(e.variable)))
+
+    // Check for VAR declarations that are never initialized with SET
+    events
+      .filter(e => e.kind === 'declare' && !assigned.has(this.key(e.variable)))
+      .forEach(e => {
+        errors.push(this.createError(
+          'var_declaration',
+          e.variable.range,
+          'warning',
+          `Variable ${e.variable.name} declared but not initialized`,
+          'ampscript-var-init',
+          'semantic',
+          `Add SET ${e.variable.name} = [initial_value] after declaration`
+        ))
       })
-    }
 
     return errors
   }
 
-  private validateFunctionUsage(line: string, lineNumber: number): DebugError[] {
+  private validateFunctionUsage(program: AMPScriptProgram): DebugError[] {
     const errors: DebugError[] = []
-    
-    // Check for unknown functions
-    const functionPattern = /(\w+)\s*\(/g
-    let match
-    
-    while ((match = functionPattern.exec(line)) !== null) {
-      const functionName = match[1]
-      if (!this.AMPSCRIPT_FUNCTIONS.includes(functionName) && 
-          !this.AMPSCRIPT_KEYWORDS.includes(functionName.toUpperCase())) {
-        errors.push({
-          id: `unknown_function_${lineNumber}_${match.index}`,
-          line: lineNumber,
-          column: match.index + 1,
-          severity: 'error' as ErrorSeverity,
-          message: `Unknown AMPScript function: ${functionName}`,
-          rule: 'ampscript-unknown-function',
-          category: 'semantic',
-          fixSuggestion: `Check function name spelling or refer to AMPScript documentation`
-        })
+
+    this.collectCalls(program).forEach(({ node }) => {
+      // Check for unknown functions
+      if (!AMPScriptValidator.isKnownFunction(node.callee)) {
+        errors.push(this.createError(
+          'unknown_function',
+          node.calleeRange,
+          'error',
+          `Unknown AMPScript function: ${node.callee}`,
+          'ampscript-unknown-function',
+          'semantic',
+          'Check function name spelling or refer to AMPScript documentation'
+        ))
       }
-    }
 
-    // Check for common function parameter errors
-    if (line.includes('AttributeValue(')) {
-      const attrMatch = line.match(/AttributeValue\(\s*"([^"]+)"\s*\)/g)
-      if (attrMatch) {
-        attrMatch.forEach(match => {
-          const fieldName = match.match(/"([^"]+)"/)?.[1]
-          if (fieldName && fieldName.includes(' ')) {
-            errors.push({
-              id: `attr_space_${lineNumber}`,
-              line: lineNumber,
-              column: line.indexOf(match) + 1,
-              severity: 'warning' as ErrorSeverity,
-              message: 'Attribute names with spaces may cause issues',
-              rule: 'ampscript-attr-spaces',
-              category: 'semantic',
-              fixSuggestion: 'Use field names without spaces or use proper escaping'
-            })
-          }
-        })
+      // Check for common function parameter errors
+      const fieldName = node.args[0]
+      if (this.isCall(node, 'AttributeValue') && fieldName?.type === 'String' && fieldName.value.includes(' ')) {
+        errors.push(this.createError(
+          'attr_space',
+          node.range,
+          'warning',
+          'Attribute names with spaces may cause issues',
+          'ampscript-attr-spaces',
+          'semantic',
+          'Use field names without spaces or use proper escaping'
+        ))
       }
-    }
+    })
 
     return errors
   }
 
-  private validateConditionalLogic(line: string, lineNumber: number): DebugError[] {
+  private validateStringOperations(program: AMPScriptProgram): DebugError[] {
     const errors: DebugError[] = []
-    
-    // Check for assignment in conditions (= instead of ==)
-    const ifPattern = /IF\s+.*?=\s*[^=]/gi
-    if (ifPattern.test(line) && !line.includes('==')) {
-      errors.push({
-        id: `assignment_in_condition_${lineNumber}`,
-        line: lineNumber,
-        column: line.search(ifPattern) + 1,
-        severity: 'error' as ErrorSeverity,
-        message: 'Use == for comparison, not = (assignment)',
-        rule: 'ampscript-comparison',
-        category: 'syntax',
-        fixSuggestion: 'Replace = with == for comparison'
-      })
-    }
-
-    return errors
-  }
 
-  private validateStringOperations(line: string, lineNumber: number): DebugError[] {
-    const errors: DebugError[] = []
-    
     // Check for inefficient string concatenation
-    const concatCount = (line.match(/Concat\(/g) || []).length
-    if (concatCount > 3) {
-      errors.push({
-        id: `excessive_concat_${lineNumber}`,
-        line: lineNumber,
-        column: 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Multiple Concat functions may impact performance',
-        rule: 'ampscript-concat-performance',
-        category: 'performance',
-        fixSuggestion: 'Consider combining multiple Concat operations or using Format function'
-      })
-    }
+    this.forEachStatement(program, statement => {
+      if (this.countCalls(statement, 'Concat') > 3) {
+        errors.push(this.createError(
+          'excessive_concat',
+          statement.range,
+          'warning',
+          'Multiple Concat functions may impact performance',
+          'ampscript-concat-performance',
+          'performance',
+          'Consider combining multiple Concat operations or using Format function'
+        ))
+      }
+    })
 
     return errors
   }
 
-  private validateCommonSyntaxErrors(line: string, lineNumber: number): DebugError[] {
+  private validateCommonSyntaxErrors(program: AMPScriptProgram, lineIndex: LineIndex): DebugError[] {
     const errors: DebugError[] = []
-    
-    // Check for missing semicolons in SSJS blocks
-    if (line.includes('<script runat="server">') || line.includes('</script>')) {
-      // This is likely SSJS mixed with AMPScript
-      errors.push({
-        id: `mixed_languages_${lineNumber}`,
-        line: lineNumber,
-        column: 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Mixing AMPScript with SSJS - ensure proper syntax for each language',
-        rule: 'ampscript-mixed-languages',
-        category: 'syntax',
-        fixSuggestion: 'Separate AMPScript and SSJS blocks clearly'
-      })
-    }
 
-    return errors
-  }
+    // Check for SSJS mixed into AMPScript content
+    walkAMPScript(program.body, node => {
+      if (node.type !== 'Content') return
+      const pattern = /<script\b[^>]*runat\s*=\s*["']?server["']?[^>]*>|<\/script\s*>/gi
+      let match
+      while ((match = pattern.exec(node.text)) !== null) {
+        if (/language\s*=\s*["']?ampscript/i.test(match[0])) continue
+        const start = node.range.start.offset + match.index
+        errors.push(this.createError(
+          'mixed_languages',
+          lineIndex.rangeOf(start, start + match[0].length),
+          'warning',
+          'Mixing AMPScript with SSJS - ensure proper syntax for each language',
+          'ampscript-mixed-languages',
+          'syntax',
+          'Separate AMPScript and SSJS blocks clearly'
+        ))
+      }
+    })
 
-  private validateBlockStructure(code: string): DebugError[] {
-    const errors: DebugError[] = []
-    const lines = code.split('\n')
-    
-    let ifCount = 0
-    let endifCount = 0
-    let forCount = 0
-    let nextCount = 0
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].toUpperCase()
-      const lineNumber = i + 1
-      
-      if (line.includes('IF ')) ifCount++
-      if (line.includes('ENDIF')) endifCount++
-      if (line.includes('FOR ')) forCount++
-      if (line.includes('NEXT ')) nextCount++
-    }
-    
-    if (ifCount !== endifCount) {
-      errors.push({
-        id: 'unmatched_if_endif',
-        line: 1,
-        column: 1,
-        severity: 'error' as ErrorSeverity,
-        message: `Unmatched IF/ENDIF blocks: ${ifCount} IF statements, ${endifCount} ENDIF statements`,
-        rule: 'ampscript-block-structure',
-        category: 'syntax',
-        fixSuggestion: ifCount > endifCount ? 'Add missing ENDIF statements' : 'Remove extra ENDIF statements'
-      })
-    }
-    
-    if (forCount !== nextCount) {
-      errors.push({
-        id: 'unmatched_for_next',
-        line: 1,
-        column: 1,
-        severity: 'error' as ErrorSeverity,
-        message: `Unmatched FOR/NEXT blocks: ${forCount} FOR statements, ${nextCount} NEXT statements`,
-        rule: 'ampscript-loop-structure',
-        category: 'syntax',
-        fixSuggestion: forCount > nextCount ? 'Add missing NEXT statements' : 'Remove extra NEXT statements'
-      })
-    }
-    
     return errors
   }
 
-  private trackVariables(line: string, declared: Set<string>, used: Set<string>): void {
-    // Track VAR declarations
-    const varMatches = line.match(/VAR\s+(@\w+)/gi)
-    if (varMatches) {
-      varMatches.forEach(match => {
-        const varName = match.split(/\s+/)[1]
-        declared.add(varName)
-      })
-    }
-
-    // Track SET declarations
-    const setMatches = line.match(/SET\s+(@\w+)/gi)
-    if (setMatches) {
-      setMatches.forEach(match => {
-        const varName = match.split(/\s+/)[1]
-        declared.add(varName)
-      })
-    }
-
-    // Track variable usage
-    const usageMatches = line.match(/@\w+/g)
-    if (usageMatches) {
-      usageMatches.forEach(varName => {
-        if (!line.includes('VAR ' + varName) && !line.includes('SET ' + varName)) {
-          used.add(varName)
-        }
-      })
-    }
-  }
-
-  private validateVariableUsage(line: string, lineNumber: number, declared: Set<string>): DebugError[] {
+  private validateVariableUsage(events: VariableEvent[]): DebugError[] {
     const errors: DebugError[] = []
-    
-    const usageMatches = line.match(/@\w+/g)
-    if (usageMatches) {
-      usageMatches.forEach(varName => {
-        if (!declared.has(varName) && 
-            !line.includes('VAR ' + varName) && 
-            !line.includes('SET ' + varName)) {
-          errors.push({
-            id: `undefined_variable_${lineNumber}_${varName}`,
-            line: lineNumber,
-            column: line.indexOf(varName) + 1,
-            severity: 'error' as ErrorSeverity,
-            message: `Variable ${varName} used before declaration`,
-            rule: 'ampscript-undefined-variable',
-            category: 'semantic',
-            fixSuggestion: `Declare ${varName} with VAR or SET before using`
-          })
-        }
-      })
-    }
+    const known = new Set<string>()
+    const reported = new Set<string>()
+
+    events.forEach(event => {
+      const name = this.key(event.variable)
+      if (event.kind !== 'read') {
+        known.add(name)
+        return
+      }
+      if (!known.has(name) && !reported.has(name)) {
+        reported.add(name)
+        errors.push(this.createError(
+          `undefined_variable_${event.variable.name}`,
+          event.variable.range,
+          'error',
+          `Variable ${event.variable.name} used before declaration`,
+          'ampscript-undefined-variable',
+          'semantic',
+          `Declare ${event.variable.name} with VAR or SET before using`
+        ))
+      }
+    })
 
     return errors
   }
 
-  private validateDataExtensionOperations(line: string, lineNumber: number): DebugError[] {
+  private validateDataExtensionOperations(calls: CallSite[]): DebugError[] {
     const errors: DebugError[] = []
-    
-    // Check for data extension operations
     const deOperations = ['InsertData', 'UpdateData', 'UpsertData', 'DeleteData']
-    
-    deOperations.forEach(operation => {
-      if (line.includes(operation + '(')) {
-        // Basic validation - would need more context for full validation
-        if (!line.includes('"')) {
-          errors.push({
-            id: `de_operation_${lineNumber}`,
-            line: lineNumber,
-            column: line.indexOf(operation) + 1,
-            severity: 'warning' as ErrorSeverity,
-            message: `${operation} operation should specify data extension name`,
-            rule: 'ampscript-de-operation',
-            category: 'semantic',
-            fixSuggestion: `Ensure ${operation} includes proper data extension name and field mappings`
-          })
-        }
+
+    calls.forEach(({ node }) => {
+      const operation = deOperations.find(op => this.isCall(node, op))
+      if (!operation) return
+
+      const deName = node.args[0]
+      if (!deName || (deName.type !== 'String' && deName.type !== 'Variable')) {
+        errors.push(this.createError(
+          'de_operation',
+          node.range,
+          'warning',
+          `${operation} operation should specify data extension name`,
+          'ampscript-de-operation',
+          'semantic',
+          `Ensure ${operation} includes proper data extension name and field mappings`
+        ))
       }
     })
 
     return errors
   }
 
-  private validateSalesforceOperations(line: string, lineNumber: number): DebugError[] {
+  private validateSalesforceOperations(calls: CallSite[]): DebugError[] {
     const errors: DebugError[] = []
-    
-    // Check for Salesforce API operations
     const sfOperations = ['CreateSalesforceObject', 'UpdateSingleSalesforceObject', 'RetrieveSalesforceObjects']
-    
-    sfOperations.forEach(operation => {
-      if (line.includes(operation + '(')) {
-        // Basic validation
-        errors.push({
-          id: `sf_operation_${lineNumber}`,
-          line: lineNumber,
-          column: line.indexOf(operation) + 1,
-          severity: 'info' as ErrorSeverity,
-          message: `${operation} requires proper Salesforce connection and object permissions`,
-          rule: 'ampscript-sf-operation',
-          category: 'semantic',
-          fixSuggestion: 'Ensure Salesforce connection is configured and object permissions are set'
-        })
-      }
+
+    calls.forEach(({ node }) => {
+      const operation = sfOperations.find(op => this.isCall(node, op))
+      if (!operation) return
+
+      errors.push(this.createError(
+        'sf_operation',
+        node.calleeRange,
+        'info',
+        `${operation} requires proper Salesforce connection and object permissions`,
+        'ampscript-sf-operation',
+        'semantic',
+        'Ensure Salesforce connection is configured and object permissions are set'
+      ))
     })
 
     return errors
   }
 
-  private validateUnusedVariables(declared: Set<string>, used: Set<string>): DebugError[] {
+  private validateUnusedVariables(program: AMPScriptProgram, events: VariableEvent[]): DebugError[] {
     const errors: DebugError[] = []
-    
-    declared.forEach(varName => {
-      if (!used.has(varName)) {
-        errors.push({
-          id: `unused_variable_${varName}`,
-          line: 1, // Would need to track declaration line
-          column: 1,
-          severity: 'warning' as ErrorSeverity,
-          message: `Variable ${varName} declared but never used`,
-          rule: 'ampscript-unused-variable',
-          category: 'semantic',
-          fixSuggestion: `Remove unused variable ${varName} or use it in the code`
-        })
-      }
+    const read = new Set(events.filter(e => e.kind === 'read').map(e => this.key(e.variable)))
+    const counters = new Set<string>()
+    walkAMPScript(program.body, node => {
+      if (node.type === 'For' && node.counter) counters.add(this.key(node.counter))
+    })
+
+    const reported = new Set<string>()
+    events.forEach(event => {
+      const name = this.key(event.variable)
+      if (event.kind === 'read' || read.has(name) || counters.has(name) || reported.has(name)) return
+      reported.add(name)
+      errors.push(this.createError(
+        `unused_variable_${event.variable.name}`,
+        event.variable.range,
+        'warning',
+        `Variable ${event.variable.name} declared but never used`,
+        'ampscript-unused-variable',
+        'semantic',
+        `Remove unused variable ${event.variable.name} or use it in the code`
+      ))
     })
 
     return errors
   }
 
-  private analyzeInefficiencies(line: string, lineNumber: number): DebugError[] {
+  private analyzeInefficiencies(program: AMPScriptProgram): DebugError[] {
     const issues: DebugError[] = []
-    
+
     // Check for nested loops
-    if (line.includes('FOR ') && line.includes('FOR ')) {
-      issues.push({
-        id: `nested_loops_${lineNumber}`,
-        line: lineNumber,
-        column: 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Nested loops can impact performance significantly',
-        rule: 'ampscript-nested-loops',
-        category: 'performance',
-        fixSuggestion: 'Consider optimizing nested loops or using more efficient data structures'
-      })
-    }
+    walkAMPScript(program.body, (node, ancestors) => {
+      if (node.type === 'For' && ancestors.some(isLoopNode)) {
+        issues.push(this.createError(
+          'nested_loops',
+          node.keywordRange,
+          'warning',
+          'Nested loops can impact performance significantly',
+          'ampscript-nested-loops',
+          'performance',
+          'Consider optimizing nested loops or using more efficient data structures'
+        ))
+      }
+    })
 
     return issues
   }
 
-  private analyzeAPIUsage(line: string, lineNumber: number): DebugError[] {
+  private analyzeAPIUsage(calls: CallSite[]): DebugError[] {
     const issues: DebugError[] = []
-    
     const apiCalls = ['HTTPGet', 'HTTPPost', 'HTTPPut', 'HTTPDelete', 'RetrieveSalesforceObjects']
-    
-    apiCalls.forEach(apiCall => {
-      if (line.includes(apiCall + '(')) {
-        issues.push({
-          id: `api_call_${lineNumber}`,
-          line: lineNumber,
-          column: line.indexOf(apiCall) + 1,
-          severity: 'info' as ErrorSeverity,
-          message: `API call detected: ${apiCall} - consider caching results if called multiple times`,
-          rule: 'ampscript-api-performance',
-          category: 'performance',
-          fixSuggestion: 'Cache API results when possible to improve performance'
-        })
-      }
+
+    calls.forEach(({ node }) => {
+      const apiCall = apiCalls.find(name => this.isCall(node, name))
+      if (!apiCall) return
+
+      issues.push(this.createError(
+        'api_call',
+        node.calleeRange,
+        'info',
+        `API call detected: ${apiCall} - consider caching results if called multiple times`,
+        'ampscript-api-performance',
+        'performance',
+        'Cache API results when possible to improve performance'
+      ))
     })
 
     return issues
   }
 
-  private analyzeLoopPerformance(line: string, lineNumber: number): DebugError[] {
+  private analyzeLoopPerformance(calls: CallSite[]): DebugError[] {
     const issues: DebugError[] = []
-    
-    if (line.includes('FOR ') || line.includes('WHILE ')) {
-      // Check for operations inside loops that could be optimized
-      if (line.includes('Lookup') || line.includes('AttributeValue')) {
-        issues.push({
-          id: `loop_optimization_${lineNumber}`,
-          line: lineNumber,
-          column: 1,
-          severity: 'warning' as ErrorSeverity,
-          message: 'Data operations inside loops can be expensive',
-          rule: 'ampscript-loop-optimization',
-          category: 'performance',
-          fixSuggestion: 'Consider moving data operations outside loops or batch processing'
-        })
+
+    // Check for operations inside loops that could be optimized
+    calls.forEach(({ node, loopDepth }) => {
+      if (loopDepth === 0 || this.isCall(node, 'Lookup')) return
+      if (['LookupRows', 'LookupOrderedRows', 'AttributeValue'].some(name => this.isCall(node, name))) {
+        issues.push(this.createError(
+          'loop_optimization',
+          node.calleeRange,
+          'warning',
+          'Data operations inside loops can be expensive',
+          'ampscript-loop-optimization',
+          'performance',
+          'Consider moving data operations outside loops or batch processing'
+        ))
       }
-    }
+    })
 
     return issues
   }
 
-  private analyzeStringPerformance(line: string, lineNumber: number): DebugError[] {
+  private analyzeStringPerformance(program: AMPScriptProgram): DebugError[] {
     const issues: DebugError[] = []
-    
-    // Count string concatenations
-    const concatCount = (line.match(/Concat\(/g) || []).length
-    if (concatCount > 5) {
-      issues.push({
-        id: `string_performance_${lineNumber}`,
-        line: lineNumber,
-        column: 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Excessive string concatenations may impact performance',
-        rule: 'ampscript-string-performance',
-        category: 'performance',
-        fixSuggestion: 'Consider using Format function or reducing concatenation operations'
-      })
-    }
+
+    // Count string concatenations per statement
+    this.forEachStatement(program, statement => {
+      if (this.countCalls(statement, 'Concat') > 5) {
+        issues.push(this.createError(
+          'string_performance',
+          statement.range,
+          'warning',
+          'Excessive string concatenations may impact performance',
+          'ampscript-string-performance',
+          'performance',
+          'Consider using Format function or reducing concatenation operations'
+        ))
+      }
+    })
 
     return issues
   }
 
-  private analyzeSFMCDataExtensionPerformance(line: string, lineNumber: number): DebugError[] {
+  private analyzeSFMCDataExtensionPerformance(calls: CallSite[]): DebugError[] {
     const issues: DebugError[] = []
-    
-    // Check for inefficient Lookup operations
-    if (line.includes('Lookup(') && line.includes('FOR')) {
-      issues.push({
-        id: `lookup_in_loop_${lineNumber}`,
-        line: lineNumber,
-        column: line.indexOf('Lookup(') + 1,
-        severity: 'error' as ErrorSeverity,
-        message: 'Lookup() in loops causes severe performance degradation',
-        rule: 'ampscript-lookup-loop-performance',
-        category: 'performance',
-        fixSuggestion: 'Use LookupRows() before loop and iterate through results'
-      })
-    }
+    const dataModOps = ['InsertData', 'UpdateData', 'UpsertData', 'DeleteData']
 
-    // Check for LookupRows without proper filtering
-    if (line.includes('LookupRows(') && !line.includes('"')) {
-      issues.push({
-        id: `lookuprows_no_filter_${lineNumber}`,
-        line: lineNumber,
-        column: line.indexOf('LookupRows(') + 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'LookupRows without proper filtering can return large datasets',
-        rule: 'ampscript-lookuprows-filtering',
-        category: 'performance',
-        fixSuggestion: 'Add specific filter criteria to LookupRows function'
-      })
-    }
+    calls.forEach(({ node, loopDepth }) => {
+      // Check for inefficient Lookup operations
+      if (this.isCall(node, 'Lookup') && loopDepth > 0) {
+        issues.push(this.createError(
+          'lookup_in_loop',
+          node.calleeRange,
+          'error',
+          'Lookup() in loops causes severe performance degradation',
+          'ampscript-lookup-loop-performance',
+          'performance',
+          'Use LookupRows() before loop and iterate through results'
+        ))
+      }
 
-    // Check for data modification operations in loops
-    const dataModOps = ['InsertData', 'UpdateData', 'UpsertData', 'DeleteData']
-    dataModOps.forEach(op => {
-      if (line.includes(op + '(') && line.includes('FOR')) {
-        issues.push({
-          id: `data_mod_in_loop_${lineNumber}`,
-          line: lineNumber,
-          column: line.indexOf(op) + 1,
-          severity: 'error' as ErrorSeverity,
-          message: `${op} in loops can cause timeout and performance issues`,
-          rule: 'ampscript-data-modification-loop',
-          category: 'performance',
-          fixSuggestion: `Batch ${op} operations outside loops when possible`
-        })
+      // Check for LookupRows without proper filtering
+      if (this.isCall(node, 'LookupRows') && node.args.length < 3) {
+        issues.push(this.createError(
+          'lookuprows_no_filter',
+          node.calleeRange,
+          'warning',
+          'LookupRows without proper filtering can return large datasets',
+          'ampscript-lookuprows-filtering',
+          'performance',
+          'Add specific filter criteria to LookupRows function'
+        ))
+      }
+
+      // Check for data modification operations in loops
+      const op = dataModOps.find(name => this.isCall(node, name))
+      if (op && loopDepth > 0) {
+        issues.push(this.createError(
+          'data_mod_in_loop',
+          node.calleeRange,
+          'error',
+          `${op} in loops can cause timeout and performance issues`,
+          'ampscript-data-modification-loop',
+          'performance',
+          `Batch ${op} operations outside loops when possible`
+        ))
       }
     })
 
     return issues
   }
 
-  private validateSFMCSystemFunctions(line: string, lineNumber: number): DebugError[] {
+  private validateSFMCSystemFunctions(calls: CallSite[]): DebugError[] {
     const errors: DebugError[] = []
-    
-    // Check for proper CloudPagesURL usage
-    if (line.includes('CloudPagesURL(') && !line.includes('https://')) {
-      errors.push({
-        id: `cloudpages_url_${lineNumber}`,
-        line: lineNumber,
-        column: line.indexOf('CloudPagesURL') + 1,
-        severity: 'info' as ErrorSeverity,
-        message: 'CloudPagesURL function generates secure HTTPS URLs',
-        rule: 'ampscript-cloudpages-url',
-        category: 'semantic',
-        fixSuggestion: 'CloudPagesURL automatically provides HTTPS protocol'
-      })
-    }
 
-    // Check for RequestParameter usage without validation
-    if (line.includes('RequestParameter(') && !line.includes('Empty(') && !line.includes('IsNull(')) {
-      errors.push({
-        id: `request_parameter_validation_${lineNumber}`,
-        line: lineNumber,
-        column: line.indexOf('RequestParameter') + 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'RequestParameter values should be validated before use',
-        rule: 'ampscript-request-parameter-validation',
-        category: 'security',
-        fixSuggestion: 'Validate RequestParameter with Empty() or IsNull() checks'
-      })
-    }
+    // Variables that are checked with Empty() or IsNull() somewhere in the document
+    const validated = new Set<string>()
+    calls.forEach(({ node }) => {
+      if (this.isCall(node, 'Empty') || this.isCall(node, 'IsNull')) {
+        node.args.forEach(arg => {
+          if (arg.type === 'Variable') validated.add(this.key(arg))
+        })
+      }
+    })
 
-    // Check for AttributeValue with dynamic field names
-    if (line.includes('AttributeValue(') && line.includes('Concat(')) {
-      errors.push({
-        id: `dynamic_attribute_value_${lineNumber}`,
-        line: lineNumber,
-        column: line.indexOf('AttributeValue') + 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Dynamic AttributeValue field names can impact performance',
-        rule: 'ampscript-dynamic-attribute-value',
-        category: 'performance',
-        fixSuggestion: 'Use static field names when possible for better performance'
-      })
-    }
+    calls.forEach(({ node, ancestors }) => {
+      // Check for proper CloudPagesURL usage
+      if (this.isCall(node, 'CloudPagesURL')) {
+        errors.push(this.createError(
+          'cloudpages_url',
+          node.calleeRange,
+          'info',
+          'CloudPagesURL function generates secure HTTPS URLs',
+          'ampscript-cloudpages-url',
+          'semantic',
+          'CloudPagesURL automatically provides HTTPS protocol'
+        ))
+      }
+
+      // Check for RequestParameter usage without validation
+      if (this.isCall(node, 'RequestParameter')) {
+        const parent = ancestors[ancestors.length - 1]
+        const wrappedInCheck = ancestors.some(a => a.type === 'Call' && (this.isCall(a, 'Empty') || this.isCall(a, 'IsNull')))
+        const assignedAndChecked = parent?.type === 'Set' && validated.has(this.key(parent.target))
+
+        if (!wrappedInCheck && !assignedAndChecked) {
+          errors.push(this.createError(
+            'request_parameter_validation',
+            node.calleeRange,
+            'warning',
+            'RequestParameter values should be validated before use',
+            'ampscript-request-parameter-validation',
+            'security',
+            'Validate RequestParameter with Empty() or IsNull() checks'
+          ))
+        }
+      }
+
+      // Check for AttributeValue with dynamic field names
+      if (this.isCall(node, 'AttributeValue') && node.args[0]?.type === 'Call' && this.isCall(node.args[0], 'Concat')) {
+        errors.push(this.createError(
+          'dynamic_attribute_value',
+          node.calleeRange,
+          'warning',
+          'Dynamic AttributeValue field names can impact performance',
+          'ampscript-dynamic-attribute-value',
+          'performance',
+          'Use static field names when possible for better performance'
+        ))
+      }
+    })
 
     return errors
   }
 
-  private suggestPerformanceImprovements(line: string, lineNumber: number): OptimizationSuggestion[] {
+  private suggestPerformanceImprovements(program: AMPScriptProgram, code: string): OptimizationSuggestion[] {
     const suggestions: OptimizationSuggestion[] = []
-    
+
     // Suggest Format over multiple Concat
-    if ((line.match(/Concat\(/g) || []).length > 2) {
-      suggestions.push({
-        id: `format_suggestion_${lineNumber}`,
-        type: 'performance',
-        title: 'Use Format function instead of multiple Concat',
-        description: 'Format function is more efficient for complex string formatting',
-        impact: 'medium',
-        effort: 'low',
-        beforeCode: line.trim(),
-        afterCode: '/* Use Format function: Format("{0} {1}", @firstName, @lastName) */',
-        estimatedImprovement: '20-30% faster execution'
-      })
-    }
+    this.forEachStatement(program, statement => {
+      if (this.countCalls(statement, 'Concat') > 2) {
+        suggestions.push({
+          id: `format_suggestion_${statement.range.start.line}`,
+          type: 'performance',
+          title: 'Use Format function instead of multiple Concat',
+          description: 'Format function is more efficient for complex string formatting',
+          impact: 'medium',
+          effort: 'low',
+          beforeCode: sliceRange(code, statement.range).trim(),
+          afterCode: '/* Use Format function: Format("{0} {1}", @firstName, @lastName) */',
+          estimatedImprovement: '20-30% faster execution'
+        })
+      }
+    })
 
     return suggestions
   }
 
-  private suggestCodeSimplifications(line: string, lineNumber: number): OptimizationSuggestion[] {
+  private suggestCodeSimplifications(program: AMPScriptProgram, code: string): OptimizationSuggestion[] {
     const suggestions: OptimizationSuggestion[] = []
-    
-    // Suggest IIF for simple conditions
-    if (line.includes('IF ') && !line.includes('ELSEIF') && !line.includes('ELSE')) {
-      suggestions.push({
-        id: `iif_suggestion_${lineNumber}`,
-        type: 'readability',
-        title: 'Consider using IIF for simple conditions',
-        description: 'IIF function can simplify single-condition logic',
-        impact: 'low',
-        effort: 'low',
-        beforeCode: line.trim(),
-        afterCode: '/* Use IIF: SET @result = IIF(@condition, @trueValue, @falseValue) */',
-        estimatedImprovement: 'Improved readability'
-      })
-    }
+
+    // Suggest IIF for IF/ELSE blocks that only assign one variable
+    walkAMPScript(program.body, node => {
+      if (node.type === 'If' && this.isSimpleAssignmentIf(node)) {
+        suggestions.push({
+          id: `iif_suggestion_${node.range.start.line}`,
+          type: 'readability',
+          title: 'Consider using IIF for simple conditions',
+          description: 'IIF function can simplify single-condition logic',
+          impact: 'low',
+          effort: 'low',
+          beforeCode: sliceRange(code, node.range).trim(),
+          afterCode: '/* Use IIF: SET @result = IIF(@condition, @trueValue, @falseValue) */',
+          estimatedImprovement: 'Improved readability'
+        })
+      }
+    })
 
     return suggestions
   }
 
-  private suggestBestPractices(line: string, lineNumber: number): OptimizationSuggestion[] {
+  private suggestBestPractices(calls: CallSite[], code: string): OptimizationSuggestion[] {
     const suggestions: OptimizationSuggestion[] = []
-    
+
     // Suggest error handling
-    if (line.includes('HTTPGet') || line.includes('HTTPPost')) {
-      suggestions.push({
-        id: `error_handling_${lineNumber}`,
-        type: 'maintainability',
-        title: 'Add error handling for HTTP operations',
-        description: 'HTTP operations should include error handling for robustness',
-        impact: 'high',
-        effort: 'medium',
-        beforeCode: line.trim(),
-        afterCode: '/* Add error handling and response validation */',
-        estimatedImprovement: 'Improved reliability'
-      })
-    }
+    calls.forEach(({ node }) => {
+      if (this.isCall(node, 'HTTPGet') || this.isCall(node, 'HTTPPost')) {
+        suggestions.push({
+          id: `error_handling_${node.range.start.line}`,
+          type: 'maintainability',
+          title: 'Add error handling for HTTP operations',
+          description: 'HTTP operations should include error handling for robustness',
+          impact: 'high',
+          effort: 'medium',
+          beforeCode: sliceRange(code, node.range).trim(),
+          afterCode: '/* Add error handling and response validation */',
+          estimatedImprovement: 'Improved reliability'
+        })
+      }
+    })
 
     return suggestions
   }
 
-  private applyFix(line: string, error: DebugError): string {
-    switch (error.rule) {
-      case 'ampscript-comparison':
-        return line.replace(/=\s*([^=])/g, '== $1')
-      case 'ampscript-delimiters':
-        if (error.fixSuggestion?.includes('Add ]%%')) {
-          return line + ' ]%%'
-        } else if (error.fixSuggestion?.includes('Add %%[')) {
-          return '%%[ ' + line
+  private collectCalls(program: AMPScriptProgram): CallSite[] {
+    const calls: CallSite[] = []
+
+    walkAMPScript(program.body, (node, ancestors) => {
+      if (node.type === 'Call') {
+        calls.push({ node, ancestors, loopDepth: ancestors.filter(isLoopNode).length })
+      }
+    })
+
+    return calls
+  }
+
+  /**
+   * Lists variable declarations, assignments and reads in evaluation order.
+   * SET values are read before the target is assigned, so SET @a = Concat(@a, 'x')
+   * is a use of @a before it has a value.
+   */
+  private collectVariableEvents(program: AMPScriptProgram): VariableEvent[] {
+    const events: VariableEvent[] = []
+
+    const visit = (node: AMPScriptNode, ancestors: AMPScriptNode[]): boolean | void => {
+      switch (node.type) {
+        case 'Var':
+          node.variables.forEach(variable => events.push({ kind: 'declare', variable, ancestors }))
+          return false
+        case 'Set':
+          if (node.value) walkAMPScript([node.value], visit, [...ancestors, node])
+          events.push({ kind: 'assign', variable: node.target, ancestors })
+          return false
+        case 'For': {
+          const header: AMPScriptNode[] = []
+          if (node.start) header.push(node.start)
+          if (node.end) header.push(node.end)
+          walkAMPScript(header, visit, [...ancestors, node])
+          if (node.counter) events.push({ kind: 'assign', variable: node.counter, ancestors })
+          walkAMPScript(node.body, visit, [...ancestors, node])
+          return false
         }
-        break
-      default:
-        return line
+        case 'Variable':
+          events.push({ kind: 'read', variable: node, ancestors })
+          return false
+      }
+    }
+
+    walkAMPScript(program.body, visit)
+    return events
+  }
+
+  private forEachStatement(program: AMPScriptProgram, callback: (statement: AMPScriptStatement) => void): void {
+    walkAMPScript(program.body, node => {
+      if (node.type === 'Set' || node.type === 'ExpressionStatement' || node.type === 'InlineOutput') {
+        callback(node)
+        return false
+      }
+    })
+  }
+
+  private countCalls(root: AMPScriptNode, name: string): number {
+    let count = 0
+    walkAMPScript([root], node => {
+      if (node.type === 'Call' && this.isCall(node, name)) count++
+    })
+    return count
+  }
+
+  private isSimpleAssignmentIf(node: IfStatementNode): boolean {
+    if (node.elseIfs.length > 0 || !node.alternate) return false
+
+    const assignments = (body: AMPScriptStatement[]) =>
+      body.filter(statement => statement.type !== 'Content' || statement.text.trim() !== '')
+
+    const consequent = assignments(node.consequent)
+    const alternate = assignments(node.alternate)
+    if (consequent.length !== 1 || alternate.length !== 1) return false
+
+    const [first, second] = [consequent[0], alternate[0]]
+    return first.type === 'Set' && second.type === 'Set' && this.key(first.target) === this.key(second.target)
+  }
+
+  private isCall(node: CallExpressionNode, name: string): boolean {
+    return node.callee.toLowerCase() === name.toLowerCase()
+  }
+
+  private key(variable: VariableNode): string {
+    // AMPScript variable names are case-insensitive
+    return variable.name.toLowerCase()
+  }
+
+  private createError(
+    idPrefix: string,
+    range: SourceRange,
+    severity: ErrorSeverity,
+    message: string,
+    rule: string,
+    category: ErrorCategory,
+    fixSuggestion?: string,
+    fix?: CodeFix
+  ): DebugError {
+    return {
+      id: `${idPrefix}_${range.start.line}_${range.start.column}`,
+      ...rangeToLocation(range),
+      severity,
+      message,
+      rule,
+      category,
+      fixSuggestion,
+      fix
     }
-    return line
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,14 @@
-import { LanguageValidator, DebugError, OptimizationSuggestion, ErrorSeverity } from '../../../types/debugging'
+import {
+  LanguageValidator,
+  DebugError,
+  OptimizationSuggestion,
+  ErrorSeverity,
+  SFMCContext,
+  ValidationProfile
+} from '../../../types/debugging'
+import { lineEdit } from '../parsers/source-text'
+import { FixEngine } from '../fix-engine'
+import { EmailCompatibilityChecker, ValidationProfileOptions } from '../email-compatibility'
 
 export class CSSValidator implements LanguageValidator {
   private readonly CSS_PROPERTIES = [
@@ -11,6 +21,19 @@ export class CSSValidator implements LanguageValidator {
 
   private readonly VENDOR_PREFIXES = ['-webkit-', '-moz-', '-ms-', '-o-']
 
+  private readonly fixEngine = new FixEngine()
+
+  private readonly profile: ValidationProfile
+
+  private readonly emailCompatibility: EmailCompatibilityChecker
+
+  readonly structureRules = ['css-balanced-braces']
+
+  constructor(options: ValidationProfileOptions = {}) {
+    this.profile = options.profile ?? 'web'
+    this.emailCompatibility = new EmailCompatibilityChecker(options.supportMatrix)
+  }
+
   async validateSyntax(code: string): Promise<DebugError[]> {
     const errors: DebugError[] = []
     const lines = code.split('\n')
@@ -41,7 +64,11 @@ export class CSSValidator implements LanguageValidator {
     return errors
   }
 
-  async validateSemantics(code: string): Promise<DebugError[]> {
+  async validateStructure(code: string): Promise<DebugError[]> {
+    return this.validateOverallStructure(code)
+  }
+
+  async validateSemantics(code: string, context?: SFMCContext): Promise<DebugError[]> {
     const errors: DebugError[] = []
     const lines = code.split('\n')
 
@@ -62,6 +89,11 @@ export class CSSValidator implements LanguageValidator {
       errors.push(...this.validateBestPractices(line, lineNumber))
     }
 
+    // Check for properties, selectors and at-rules email clients drop
+    if (this.profile === 'email' || context?.emailContext) {
+      errors.push(...this.emailCompatibility.checkStylesheet(code))
+    }
+
     return errors
   }
 
@@ -114,19 +146,8 @@ export class CSSValidator implements LanguageValidator {
   }
 
   async generateFixedCode(code: string, errors: DebugError[]): Promise<string> {
-    let fixedCode = code
-    const lines = fixedCode.split('\n')
-
-    const sortedErrors = errors.sort((a, b) => b.line - a.line)
-
-    for (const error of sortedErrors) {
-      if (error.fixSuggestion && error.line <= lines.length) {
-        const lineIndex = error.line - 1
-        lines[lineIndex] = this.applyFix(lines[lineIndex], error)
-      }
-    }
-
-    return lines.join('\n')
+    const result = await this.fixEngine.fixCode(code, errors, this)
+    return result.code
   }
 
   private validateSemicolons(line: string, lineNumber: number): DebugError[] {
@@ -151,7 +172,12 @@ export class CSSValidator implements LanguageValidator {
         message: 'Missing semicolon after CSS property declaration',
         rule: 'css-missing-semicolon',
         category: 'syntax',
-        fixSuggestion: 'Add semicolon at end of property declaration'
+        fixSuggestion: 'Add semicolon at end of property declaration',
+        fix: {
+          kind: 'safe',
+          description: 'Add a semicolon',
+          edits: [lineEdit(lineNumber, line.trimEnd().length + 1, line.trimEnd().length + 1, ';')]
+        }
       })
     }
 
@@ -340,15 +366,22 @@ export class CSSValidator implements LanguageValidator {
 
     // Check for focus indicators
     if (line.includes(':focus') && line.includes('outline: none')) {
+      const column = line.indexOf('outline: none') + 1
       errors.push({
         id: `focus_outline_${lineNumber}`,
         line: lineNumber,
-        column: line.indexOf('outline: none') + 1,
+        column,
         severity: 'error' as ErrorSeverity,
         message: 'Removing focus outline harms accessibility',
         rule: 'css-focus-outline',
         category: 'accessibility',
-        fixSuggestion: 'Provide alternative focus indicator instead of removing outline'
+        fixSuggestion: 'Provide alternative focus indicator instead of removing outline',
+        fix: {
+          // The indicator style is a placeholder that should match the design
+          kind: 'unsafe',
+          description: 'Replace outline: none with a visible outline',
+          edits: [lineEdit(lineNumber, column, column + 'outline: none'.length, 'outline: 2px solid')]
+        }
       })
     }
 
@@ -578,17 +611,4 @@ export class CSSValidator implements LanguageValidator {
 
     return suggestions
   }
-
-  private applyFix(line: string, error: DebugError): string {
-    switch (error.rule) {
-      case 'css-missing-semicolon':
-        return line.trim() + ';'
-      case 'css-invalid-color':
-        return line.replace(/#[^;]+/, '#000000 /* Fix color format */')
-      case 'css-focus-outline':
-        return line.replace('outline: none', 'outline: 2px solid blue /* Provide focus indicator */')
-      default:
-        return line
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,215 @@
+import {
+  LanguageValidator,
+  DebugError,
+  DocumentLanguage,
+  EmailClientSupportMatrix,
+  OptimizationSuggestion,
+  SFMCContext,
+  TextEdit
+} from '../../../types/debugging'
+import { EmbeddedLanguage, EmbeddedSource, extractEmbeddedSources, splitDocument } from '../parsers/document-regions'
+import { LineIndex, lineEdit } from '../parsers/source-text'
+import { FixEngine } from '../fix-engine'
+import { VariableAccess, collectContentEvents, isVariableAccess } from '../content-events'
+import { analyzeTaint, isTaintRule } from '../taint-analysis'
+import { EmailCompatibilityChecker } from '../email-compatibility'
+import { AMPScriptValidator } from './ampscript-validator'
+import { SSJSValidator } from './ssjs-validator'
+import { HTMLValidator } from './html-validator'
+import { CSSValidator } from './css-validator'
+import { JavaScriptValidator } from './javascript-validator'
+
+// The document is split by language, so script tags in the AMPScript content are expected
+const DOCUMENT_RULES_SUPPRESSED = ['ampscript-mixed-languages']
+
+/**
+ * Validates CloudPages and emails that mix HTML, CSS, client JavaScript,
+ * SSJS and AMPScript. Each embedded language is cut out of the document and
+ * checked by its own validator; issue positions and fix edits are mapped
+ * back to the document. Cross-language checks cover AMPScript variables
+ * that SSJS reads or writes through Variable.GetValue/SetValue, and taint
+ * analysis follows untrusted input across both languages. Emails are also
+ * checked for HTML and CSS that email clients do not render.
+ */
+export class DocumentValidator implements LanguageValidator {
+  private readonly validators: Record<EmbeddedLanguage, LanguageValidator>
+
+  private readonly fixEngine = new FixEngine()
+
+  private readonly emailCompatibility: EmailCompatibilityChecker
+
+  readonly structureRules: string[]
+
+  // Emails check their HTML and CSS against the email client support matrix
+  constructor(private readonly mode: DocumentLanguage, supportMatrix?: EmailClientSupportMatrix) {
+    const profile = { profile: mode === 'email' ? 'email' as const : 'web' as const, supportMatrix }
+    this.validators = {
+      ampscript: new AMPScriptValidator(),
+      ssjs: new SSJSValidator(),
+      html: new HTMLValidator(profile),
+      css: new CSSValidator(profile),
+      javascript: new JavaScriptValidator()
+    }
+    this.emailCompatibility = new EmailCompatibilityChecker(supportMatrix)
+    this.structureRules = Object.values(this.validators).flatMap(validator => validator.structureRules ?? [])
+  }
+
+  async validateSyntax(code: string): Promise<DebugError[]> {
+    return this.validateSources(code, (validator, source) => validator.validateSyntax(source.code))
+  }
+
+  async validateStructure(code: string): Promise<DebugError[]> {
+    return this.validateSources(code, async (validator, source) => validator.validateStructure?.(source.code) ?? [])
+  }
+
+  async validateSemantics(code: string, context?: SFMCContext): Promise<DebugError[]> {
+    const issues = await this.validateSources(code, (validator, source) => validator.validateSemantics(source.code, context))
+    const accesses = collectContentEvents(code, this.mode).filter(isVariableAccess)
+
+    return [
+      // Taint is followed through the whole document instead of each language on its own
+      ...issues.filter(issue => !this.isResolvedBySSJS(issue, accesses) && !isTaintRule(issue.rule)),
+      ...analyzeTaint(code, this.mode),
+      ...this.validateVariableExchange(accesses),
+      ...(this.mode === 'email' ? this.validateEmailScripts(code) : []),
+      // The HTML validator only sees empty <style> elements, so their size is checked here
+      ...(this.mode === 'email'
+        ? this.emailCompatibility.checkStyleSizes(code).map(issue => ({ ...issue, language: 'html' as const }))
+        : [])
+    ]
+  }
+
+  async analyzePerformance(code: string): Promise<DebugError[]> {
+    return this.validateSources(code, (validator, source) => validator.analyzePerformance(source.code))
+  }
+
+  async getOptimizationSuggestions(code: string): Promise<OptimizationSuggestion[]> {
+    const suggestions = await Promise.all(
+      extractEmbeddedSources(code).map(source => this.validators[source.language].getOptimizationSuggestions(source.code))
+    )
+    return suggestions.flat()
+  }
+
+  async generateFixedCode(code: string, errors: DebugError[]): Promise<string> {
+    return (await this.fixEngine.fixCode(code, errors, this)).code
+  }
+
+  private async validateSources(
+    code: string,
+    validate: (validator: LanguageValidator, source: EmbeddedSource) => Promise<DebugError[]>
+  ): Promise<DebugError[]> {
+    const results = await Promise.all(
+      extractEmbeddedSources(code).map(async source =>
+        (await validate(this.validators[source.language], source))
+          .filter(issue => !DOCUMENT_RULES_SUPPRESSED.includes(issue.rule))
+          .map(issue => this.toDocumentIssue(source, issue))
+      )
+    )
+    return results.flat()
+  }
+
+  private toDocumentIssue(source: EmbeddedSource, issue: DebugError): DebugError {
+    const start = source.toDocumentPosition(issue.line, issue.column)
+    const end = issue.endLine !== undefined && issue.endColumn !== undefined
+      ? source.toDocumentPosition(issue.endLine, issue.endColumn)
+      : undefined
+
+    return {
+      ...issue,
+      id: `${source.language}_${issue.id}`,
+      line: start.line,
+      column: start.column,
+      ...(end && { endLine: end.line, endColumn: end.column }),
+      fix: issue.fix && { ...issue.fix, edits: issue.fix.edits.map(edit => this.toDocumentEdit(source, edit)) },
+      language: source.language
+    }
+  }
+
+  private toDocumentEdit(source: EmbeddedSource, edit: TextEdit): TextEdit {
+    const start = source.toDocumentPosition(edit.line, edit.column)
+    const end = source.toDocumentPosition(edit.endLine, edit.endColumn)
+    return { line: start.line, column: start.column, endLine: end.line, endColumn: end.column, replacement: edit.replacement }
+  }
+
+  /**
+   * AMPScript variables that look undefined or unused to the AMPScript
+   * validator can be set or read by SSJS elsewhere in the document
+   */
+  private isResolvedBySSJS(issue: DebugError, accesses: VariableAccess[]): boolean {
+    if (issue.rule !== 'ampscript-undefined-variable' && issue.rule !== 'ampscript-unused-variable') return false
+
+    const access = accesses.find(a => a.language === 'ampscript' && a.line === issue.line && a.column === issue.column)
+    if (!access) return false
+
+    const ssjs = accesses.filter(a => a.language === 'ssjs' && a.key === access.key)
+    return issue.rule === 'ampscript-undefined-variable'
+      ? ssjs.some(a => a.kind === 'write' && a.offset < access.offset)
+      : ssjs.some(a => a.kind === 'read')
+  }
+
+  private validateVariableExchange(accesses: VariableAccess[]): DebugError[] {
+    const errors: DebugError[] = []
+
+    accesses.filter(access => access.language === 'ssjs').forEach(access => {
+      if (!access.name.startsWith('@')) {
+        errors.push({
+          id: `variable_prefix_${access.line}_${access.column}`,
+          line: access.line,
+          column: access.column,
+          severity: 'warning',
+          message: `AMPScript variable names passed to Variable.${access.kind === 'read' ? 'GetValue' : 'SetValue'} need the @ prefix`,
+          rule: 'document-variable-prefix',
+          category: 'semantic',
+          fixSuggestion: `Use "@${access.name}"`,
+          fix: { kind: 'safe', description: 'Add the @ prefix', edits: [lineEdit(access.line, access.column, access.column, '@')] },
+          language: 'ssjs'
+        })
+        return
+      }
+
+      if (access.kind !== 'read') return
+
+      const writes = accesses.filter(a => a.key === access.key && a.kind === 'write')
+      if (writes.some(write => write.offset < access.offset)) return
+
+      errors.push({
+        id: `undefined_variable_${access.line}_${access.column}`,
+        line: access.line,
+        column: access.column,
+        severity: 'warning',
+        message: writes.length > 0
+          ? `AMPScript variable ${access.name} is only set after this SSJS runs`
+          : `AMPScript variable ${access.name} is read from SSJS but never set`,
+        rule: 'document-undefined-variable',
+        category: 'semantic',
+        fixSuggestion: `SET ${access.name} in an AMPScript block before the SSJS that reads it`,
+        language: 'ssjs'
+      })
+    })
+
+    return errors
+  }
+
+  private validateEmailScripts(code: string): DebugError[] {
+    const lineIndex = new LineIndex(code)
+    const reported = new Set<number>()
+
+    return splitDocument(code).flatMap(region => {
+      if (region.language !== 'javascript' || reported.has(region.group)) return []
+      reported.add(region.group)
+
+      const { line, column } = lineIndex.positionAt(code.lastIndexOf('<script', region.start))
+      return [{
+        id: `email_script_${line}_${column}`,
+        line,
+        column,
+        severity: 'warning' as const,
+        message: 'Email clients do not run JavaScript and may strip the script or flag the message',
+        rule: 'document-email-script',
+        category: 'compatibility' as const,
+        fixSuggestion: 'Remove client-side scripts from the email; use AMPScript or SSJS for dynamic content',
+        language: 'javascript' as const
+      }]
+    })
+  }
+}
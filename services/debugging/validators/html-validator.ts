@@ -1,4 +1,14 @@
-import { LanguageValidator, DebugError, OptimizationSuggestion, ErrorSeverity } from '../../../types/debugging'
+import {
+  LanguageValidator,
+  DebugError,
+  OptimizationSuggestion,
+  ErrorSeverity,
+  SFMCContext,
+  ValidationProfile
+} from '../../../types/debugging'
+import { lineEdit } from '../parsers/source-text'
+import { FixEngine } from '../fix-engine'
+import { EmailCompatibilityChecker, ValidationProfileOptions } from '../email-compatibility'
 
 export class HTMLValidator implements LanguageValidator {
   private readonly HTML_TAGS = [
@@ -13,24 +23,40 @@ export class HTMLValidator implements LanguageValidator {
     'link', 'meta', 'param', 'source', 'track', 'wbr'
   ]
 
-  private readonly REQUIRED_ATTRIBUTES = {
-    'img': ['src', 'alt'],
-    'a': ['href'],
-    'input': ['type'],
-    'form': ['action'],
-    'meta': ['content']
+  // Attributes the element is not valid without. HTML5 gives a link, form
+  // and input defaults, and a meta element only has content when it names
+  // a value (name, http-equiv, itemprop); <meta charset> has none.
+  private readonly REQUIRED_ATTRIBUTES: Record<string, { attributes: string[]; when?: string[] }> = {
+    'img': { attributes: ['src', 'alt'] },
+    'meta': { attributes: ['content'], when: ['name', 'http-equiv', 'itemprop', 'property'] }
+  }
+
+  private readonly fixEngine = new FixEngine()
+
+  private readonly profile: ValidationProfile
+
+  private readonly emailCompatibility: EmailCompatibilityChecker
+
+  readonly structureRules = ['html-doctype', 'html-required-structure', 'html-unclosed-tag']
+
+  constructor(options: ValidationProfileOptions = {}) {
+    this.profile = options.profile ?? 'web'
+    this.emailCompatibility = new EmailCompatibilityChecker(options.supportMatrix)
   }
 
   async validateSyntax(code: string): Promise<DebugError[]> {
     const errors: DebugError[] = []
     const lines = code.split('\n')
 
+    // Check for unclosed tags
+    errors.push(...this.validateTagClosure(lines))
+
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i]
       const lineNumber = i + 1
 
-      // Check for unclosed tags
-      errors.push(...this.validateTagClosure(line, lineNumber))
+      // Check for closing tags of void elements
+      errors.push(...this.validateVoidElements(line, lineNumber))
       
       // Check for malformed attributes
       errors.push(...this.validateAttributes(line, lineNumber))
@@ -48,7 +74,15 @@ export class HTMLValidator implements LanguageValidator {
     return errors
   }
 
-  async validateSemantics(code: string): Promise<DebugError[]> {
+  async validateStructure(code: string): Promise<DebugError[]> {
+    return [
+      ...this.validateDocumentStructure(code.split('\n', 1)[0], 1),
+      ...this.validateTagClosure(code.split('\n')),
+      ...this.validateOverallStructure(code)
+    ]
+  }
+
+  async validateSemantics(code: string, context?: SFMCContext): Promise<DebugError[]> {
     const errors: DebugError[] = []
     const lines = code.split('\n')
 
@@ -69,6 +103,11 @@ export class HTMLValidator implements LanguageValidator {
       errors.push(...this.validateDeprecatedElements(line, lineNumber))
     }
 
+    // Check elements and styles against the email client support matrix
+    if (this.profile === 'email' || context?.emailContext) {
+      errors.push(...this.emailCompatibility.checkHTML(code))
+    }
+
     return errors
   }
 
@@ -121,50 +160,60 @@ export class HTMLValidator implements LanguageValidator {
   }
 
   async generateFixedCode(code: string, errors: DebugError[]): Promise<string> {
-    let fixedCode = code
-    const lines = fixedCode.split('\n')
-
-    const sortedErrors = errors.sort((a, b) => b.line - a.line)
+    const result = await this.fixEngine.fixCode(code, errors, this)
+    return result.code
+  }
 
-    for (const error of sortedErrors) {
-      if (error.fixSuggestion && error.line <= lines.length) {
-        const lineIndex = error.line - 1
-        lines[lineIndex] = this.applyFix(lines[lineIndex], error)
+  /**
+   * Opening tags that no later closing tag matches. Elements such as html,
+   * head and body span several lines, so tags are matched over the whole
+   * document rather than line by line.
+   */
+  private validateTagClosure(lines: string[]): DebugError[] {
+    const open = new Map<string, Array<{ lineNumber: number; column: number }>>()
+
+    lines.forEach((line, index) => {
+      for (const match of line.matchAll(/<(\/?)(\w+)(?:\s[^>]*)?>/g)) {
+        const tagName = match[2].toLowerCase()
+        if (this.SELF_CLOSING_TAGS.includes(tagName) || match[0].endsWith('/>')) continue
+
+        const positions = open.get(tagName) ?? []
+        if (match[1]) {
+          positions.pop()
+        } else {
+          positions.push({ lineNumber: index + 1, column: match.index! + 1 })
+        }
+        open.set(tagName, positions)
       }
-    }
+    })
 
-    return lines.join('\n')
+    return Array.from(open.entries()).flatMap(([tagName, positions]) => positions.map(({ lineNumber, column }): DebugError => {
+      const closingTag = `</${tagName}>`
+      const end = lines[lineNumber - 1].trimEnd().length + 1
+      return {
+        id: `unclosed_tag_${lineNumber}_${tagName}`,
+        line: lineNumber,
+        column,
+        severity: 'error' as ErrorSeverity,
+        message: `Unclosed tag: ${tagName}`,
+        rule: 'html-unclosed-tag',
+        category: 'syntax',
+        fixSuggestion: `Add closing tag: ${closingTag}`,
+        fix: {
+          // The element may be meant to span several lines
+          kind: 'unsafe',
+          description: `Add ${closingTag} at the end of the line`,
+          edits: [lineEdit(lineNumber, end, end, closingTag)]
+        }
+      }
+    }))
   }
 
-  private validateTagClosure(line: string, lineNumber: number): DebugError[] {
+  private validateVoidElements(line: string, lineNumber: number): DebugError[] {
     const errors: DebugError[] = []
-    
-    // Find opening tags
-    const openingTags = line.match(/<(\w+)(?:\s[^>]*)?>/g)
-    const closingTags = line.match(/<\/(\w+)>/g)
-    
-    if (openingTags) {
-      openingTags.forEach(tag => {
-        const tagName = tag.match(/<(\w+)/)?.[1]?.toLowerCase()
-        if (tagName && !this.SELF_CLOSING_TAGS.includes(tagName)) {
-          const closingTag = `</${tagName}>`
-          if (!line.includes(closingTag) && !tag.endsWith('/>')) {
-            errors.push({
-              id: `unclosed_tag_${lineNumber}_${tagName}`,
-              line: lineNumber,
-              column: line.indexOf(tag) + 1,
-              severity: 'error' as ErrorSeverity,
-              message: `Unclosed tag: ${tagName}`,
-              rule: 'html-unclosed-tag',
-              category: 'syntax',
-              fixSuggestion: `Add closing tag: ${closingTag}`
-            })
-          }
-        }
-      })
-    }
 
     // Check for self-closing tags with closing tags
+    const closingTags = line.match(/<\/(\w+)>/g)
     if (closingTags) {
       closingTags.forEach(tag => {
         const tagName = tag.match(/<\/(\w+)>/)?.[1]?.toLowerCase()
@@ -193,15 +242,22 @@ export class HTMLValidator implements LanguageValidator {
     const malformedAttrs = line.match(/\w+=[^"'\s>]+(?=\s|>)/g)
     if (malformedAttrs) {
       malformedAttrs.forEach(attr => {
+        const column = line.indexOf(attr) + 1
+        const [name, ...value] = attr.split('=')
         errors.push({
           id: `malformed_attribute_${lineNumber}`,
           line: lineNumber,
-          column: line.indexOf(attr) + 1,
+          column,
           severity: 'warning' as ErrorSeverity,
           message: 'Attribute values should be quoted',
           rule: 'html-quoted-attributes',
           category: 'syntax',
-          fixSuggestion: 'Wrap attribute value in quotes'
+          fixSuggestion: 'Wrap attribute value in quotes',
+          fix: {
+            kind: 'safe',
+            description: `Quote the ${name} value`,
+            edits: [lineEdit(lineNumber, column, column + attr.length, `${name}="${value.join('=')}"`)]
+          }
         })
       })
     }
@@ -262,7 +318,12 @@ export class HTMLValidator implements LanguageValidator {
         message: 'Document should start with DOCTYPE declaration',
         rule: 'html-doctype',
         category: 'syntax',
-        fixSuggestion: 'Add <!DOCTYPE html> at the beginning of the document'
+        fixSuggestion: 'Add <!DOCTYPE html> at the beginning of the document',
+        fix: {
+          kind: 'safe',
+          description: 'Add <!DOCTYPE html>',
+          edits: [lineEdit(1, 1, 1, '<!DOCTYPE html>\n')]
+        }
       })
     }
 
@@ -321,15 +382,22 @@ export class HTMLValidator implements LanguageValidator {
     
     // Check for missing alt attributes on images
     if (line.includes('<img') && !line.includes('alt=')) {
+      const column = line.indexOf('<img') + 1
       errors.push({
         id: `missing_alt_${lineNumber}`,
         line: lineNumber,
-        column: line.indexOf('<img') + 1,
+        column,
         severity: 'error' as ErrorSeverity,
         message: 'Image missing alt attribute for accessibility',
         rule: 'html-accessibility-alt',
         category: 'accessibility',
-        fixSuggestion: 'Add alt attribute with descriptive text'
+        fixSuggestion: 'Add alt attribute with descriptive text',
+        fix: {
+          // An empty alt marks the image as decorative; content images need a description
+          kind: 'unsafe',
+          description: 'Add an empty alt attribute',
+          edits: [lineEdit(lineNumber, column + 4, column + 4, ' alt=""')]
+        }
       })
     }
 
@@ -386,25 +454,29 @@ export class HTMLValidator implements LanguageValidator {
 
   private validateRequiredAttributes(line: string, lineNumber: number): DebugError[] {
     const errors: DebugError[] = []
-    
-    Object.entries(this.REQUIRED_ATTRIBUTES).forEach(([tag, requiredAttrs]) => {
-      if (line.includes(`<${tag}`)) {
-        requiredAttrs.forEach(attr => {
-          if (!line.includes(`${attr}=`)) {
-            errors.push({
-              id: `missing_required_attr_${lineNumber}_${tag}_${attr}`,
-              line: lineNumber,
-              column: line.indexOf(`<${tag}`) + 1,
-              severity: 'error' as ErrorSeverity,
-              message: `${tag} element missing required ${attr} attribute`,
-              rule: 'html-required-attributes',
-              category: 'semantic',
-              fixSuggestion: `Add ${attr} attribute to ${tag} element`
-            })
-          }
+
+    // Only tags that end on this line; the others may have their attributes on the next lines
+    for (const match of line.matchAll(/<(\w+)((?:\s[^>]*)?)>/g)) {
+      const tag = match[1].toLowerCase()
+      const required = this.REQUIRED_ATTRIBUTES[tag]
+      if (!required) continue
+
+      const hasAttribute = (attr: string) => new RegExp(`(?:^|\\s)${attr}(?=[\\s=/>]|$)`, 'i').test(match[2])
+      if (required.when && !required.when.some(hasAttribute)) continue
+
+      required.attributes.filter(attr => !hasAttribute(attr)).forEach(attr => {
+        errors.push({
+          id: `missing_required_attr_${lineNumber}_${tag}_${attr}`,
+          line: lineNumber,
+          column: match.index! + 1,
+          severity: 'error' as ErrorSeverity,
+          message: `${tag} element missing required ${attr} attribute`,
+          rule: 'html-required-attributes',
+          category: 'semantic',
+          fixSuggestion: `Add ${attr} attribute to ${tag} element`
         })
-      }
-    })
+      })
+    }
 
     return errors
   }
@@ -594,25 +666,4 @@ export class HTMLValidator implements LanguageValidator {
 
     return suggestions
   }
-
-  private applyFix(line: string, error: DebugError): string {
-    switch (error.rule) {
-      case 'html-unclosed-tag':
-        const tagMatch = line.match(/<(\w+)/)
-        if (tagMatch) {
-          const tagName = tagMatch[1]
-          return line + `</${tagName}>`
-        }
-        break
-      case 'html-quoted-attributes':
-        return line.replace(/(\w+)=([^"'\s>]+)/g, '$1="$2"')
-      case 'html-accessibility-alt':
-        return line.replace(/<img([^>]*?)>/g, '<img$1 alt="Description needed">')
-      case 'html-doctype':
-        return '<!DOCTYPE html>\n' + line
-      default:
-        return line
-    }
-    return line
-  }
 }
\ No newline at end of file
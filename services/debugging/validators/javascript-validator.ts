@@ -1,4 +1,6 @@
 import { LanguageValidator, DebugError, OptimizationSuggestion, ErrorSeverity } from '../../../types/debugging'
+import { lineEdit } from '../parsers/source-text'
+import { FixEngine } from '../fix-engine'
 
 export class JavaScriptValidator implements LanguageValidator {
   private readonly JS_KEYWORDS = [
@@ -13,6 +15,10 @@ export class JavaScriptValidator implements LanguageValidator {
     'setInterval', 'clearTimeout', 'clearInterval'
   ]
 
+  private readonly fixEngine = new FixEngine()
+
+  readonly structureRules = ['js-balanced-braces']
+
   async validateSyntax(code: string): Promise<DebugError[]> {
     const errors: DebugError[] = []
     const lines = code.split('\n')
@@ -43,6 +49,10 @@ export class JavaScriptValidator implements LanguageValidator {
     return errors
   }
 
+  async validateStructure(code: string): Promise<DebugError[]> {
+    return this.validateOverallStructure(code)
+  }
+
   async validateSemantics(code: string): Promise<DebugError[]> {
     const errors: DebugError[] = []
     const lines = code.split('\n')
@@ -139,19 +149,8 @@ export class JavaScriptValidator implements LanguageValidator {
   }
 
   async generateFixedCode(code: string, errors: DebugError[]): Promise<string> {
-    let fixedCode = code
-    const lines = fixedCode.split('\n')
-
-    const sortedErrors = errors.sort((a, b) => b.line - a.line)
-
-    for (const error of sortedErrors) {
-      if (error.fixSuggestion && error.line <= lines.length) {
-        const lineIndex = error.line - 1
-        lines[lineIndex] = this.applyFix(lines[lineIndex], error)
-      }
-    }
-
-    return lines.join('\n')
+    const result = await this.fixEngine.fixCode(code, errors, this)
+    return result.code
   }
 
   private validateSemicolons(line: string, lineNumber: number): DebugError[] {
@@ -182,7 +181,12 @@ export class JavaScriptValidator implements LanguageValidator {
         message: 'Missing semicolon at end of statement',
         rule: 'js-semicolon',
         category: 'syntax',
-        fixSuggestion: 'Add semicolon at end of statement'
+        fixSuggestion: 'Add semicolon at end of statement',
+        fix: {
+          kind: 'safe',
+          description: 'Add a semicolon',
+          edits: [lineEdit(lineNumber, line.trimEnd().length + 1, line.trimEnd().length + 1, ';')]
+        }
       })
     }
 
@@ -234,15 +238,22 @@ export class JavaScriptValidator implements LanguageValidator {
     
     // Check for var usage (suggest let/const)
     if (line.includes('var ')) {
+      const column = line.indexOf('var ') + 1
       errors.push({
         id: `var_usage_${lineNumber}`,
         line: lineNumber,
-        column: line.indexOf('var ') + 1,
+        column,
         severity: 'warning' as ErrorSeverity,
         message: 'Consider using let or const instead of var',
         rule: 'js-var-usage',
         category: 'semantic',
-        fixSuggestion: 'Replace var with let (for mutable) or const (for immutable) variables'
+        fixSuggestion: 'Replace var with let (for mutable) or const (for immutable) variables',
+        fix: {
+          // let is block scoped, so reads outside the declaring block break
+          kind: 'unsafe',
+          description: 'Replace var with let',
+          edits: [lineEdit(lineNumber, column, column + 3, 'let')]
+        }
       })
     }
 
@@ -303,7 +314,9 @@ export class JavaScriptValidator implements LanguageValidator {
     
     // Check for assignment in conditions
     const ifPattern = /if\s*\(\s*\w+\s*=\s*[^=]/
-    if (ifPattern.test(line)) {
+    const assignment = ifPattern.exec(line)
+    if (assignment) {
+      const operator = assignment.index + assignment[0].indexOf('=') + 1
       errors.push({
         id: `assignment_in_condition_${lineNumber}`,
         line: lineNumber,
@@ -312,21 +325,34 @@ export class JavaScriptValidator implements LanguageValidator {
         message: 'Use === for comparison, not = (assignment) in conditions',
         rule: 'js-assignment-in-condition',
         category: 'syntax',
-        fixSuggestion: 'Replace = with === for strict equality comparison'
+        fixSuggestion: 'Replace = with === for strict equality comparison',
+        fix: {
+          // Turns an assignment into a comparison, which changes what the code does
+          kind: 'unsafe',
+          description: 'Replace = with ===',
+          edits: [lineEdit(lineNumber, operator, operator + 1, '===')]
+        }
       })
     }
 
     // Check for == instead of ===
     if (line.includes('==') && !line.includes('===') && !line.includes('!==')) {
+      const column = line.indexOf('==') + 1
       errors.push({
         id: `loose_equality_${lineNumber}`,
         line: lineNumber,
-        column: line.indexOf('==') + 1,
+        column,
         severity: 'warning' as ErrorSeverity,
         message: 'Use strict equality (===) instead of loose equality (==)',
         rule: 'js-strict-equality',
         category: 'semantic',
-        fixSuggestion: 'Replace == with === for strict equality comparison'
+        fixSuggestion: 'Replace == with === for strict equality comparison',
+        fix: {
+          // Strict equality no longer converts types before comparing
+          kind: 'unsafe',
+          description: 'Replace == with ===',
+          edits: [lineEdit(lineNumber, column, column + 2, '===')]
+        }
       })
     }
 
@@ -683,21 +709,6 @@ export class JavaScriptValidator implements LanguageValidator {
     return suggestions
   }
 
-  private applyFix(line: string, error: DebugError): string {
-    switch (error.rule) {
-      case 'js-semicolon':
-        return line.trim() + ';'
-      case 'js-strict-equality':
-        return line.replace(/==/g, '===').replace(/!=/g, '!==')
-      case 'js-var-usage':
-        return line.replace(/var /g, 'let ')
-      case 'js-assignment-in-condition':
-        return line.replace(/=\s*([^=])/g, '=== $1')
-      default:
-        return line
-    }
-  }
-
   private isKeywordOrGlobal(name: string): boolean {
     return this.JS_KEYWORDS.includes(name) || this.GLOBAL_OBJECTS.includes(name)
   }
@@ -0,0 +1,390 @@
+import { DataExtension, DataExtensionField } from '../../../types/sfmc'
+import { DataExtensionCatalog } from '../data-extension-schema'
+import {
+  SqlColumnRef,
+  SqlExpression,
+  SqlQuery,
+  SqlSelectCore,
+  SqlSelectItem,
+  SqlTableSource,
+  sqlFlattenSources,
+  sqlSelectCores
+} from '../parsers/sql-ast'
+import { QueryScope, ScopeSource, SqlScopeAnalysis, findScopeSource, resolveScopeQualifier } from '../parsers/sql-scope'
+
+export type SqlFieldType = DataExtensionField['fieldType']
+
+export interface SqlColumnInfo {
+  name: string
+  fieldType?: SqlFieldType
+  maxLength?: number
+  // Stored field the column reads, when it maps straight to a Data Extension
+  field?: DataExtensionField
+  dataExtension?: DataExtension
+}
+
+export type SqlColumnResolution =
+  | { status: 'resolved', source: ScopeSource, column: SqlColumnInfo }
+  | { status: 'unknownField', source?: ScopeSource }
+  | { status: 'ambiguous', sources: ScopeSource[] }
+  | { status: 'unknown' }
+
+export interface SqlOutputColumn {
+  name?: string
+  item: SqlSelectItem
+  info?: SqlColumnInfo
+}
+
+type ColumnMap = Map<string, SqlColumnInfo>
+
+const FUNCTION_RESULT_TYPES: Record<string, SqlFieldType> = {
+  GETDATE: 'Date', GETUTCDATE: 'Date', SYSDATETIME: 'Date', SYSUTCDATETIME: 'Date', DATEADD: 'Date',
+  EOMONTH: 'Date', DATEFROMPARTS: 'Date', TODATETIMEOFFSET: 'Date', SWITCHOFFSET: 'Date',
+  COUNT: 'Number', COUNT_BIG: 'Number', DATEDIFF: 'Number', LEN: 'Number', CHARINDEX: 'Number',
+  PATINDEX: 'Number', ROW_NUMBER: 'Number', RANK: 'Number', DENSE_RANK: 'Number', NTILE: 'Number',
+  DATEPART: 'Number', YEAR: 'Number', MONTH: 'Number', DAY: 'Number', AVG: 'Decimal',
+  FORMAT: 'Text', DATENAME: 'Text', CONCAT: 'Text', CONCAT_WS: 'Text', NEWID: 'Text'
+}
+
+// Functions whose result has the type of their first argument
+const PASSTHROUGH_FUNCTIONS = ['SUM', 'MIN', 'MAX', 'ISNULL', 'COALESCE', 'ABS', 'ROUND', 'FLOOR', 'CEILING', 'NULLIF']
+
+// Text functions that keep the type but may change the length
+const TEXT_FUNCTIONS = ['UPPER', 'LOWER', 'LTRIM', 'RTRIM', 'TRIM', 'REPLACE', 'REVERSE', 'STUFF']
+
+/**
+ * Resolves query columns against Data Extension schemas: which source a column
+ * reads, what type it has, and which output columns identify a row.
+ */
+export class SqlSchemaResolver {
+  private readonly sourceColumnCache = new Map<ScopeSource, ColumnMap | null>()
+  private readonly scopesByCore = new Map<SqlSelectCore, QueryScope>()
+
+  constructor(
+    private readonly analysis: SqlScopeAnalysis,
+    readonly catalog: DataExtensionCatalog
+  ) {
+    analysis.scopes.forEach(scope => this.scopesByCore.set(scope.core, scope))
+  }
+
+  /**
+   * Data Extension a FROM source reads, when it is a stored table in the catalog
+   */
+  dataExtensionOf(source: ScopeSource): DataExtension | undefined {
+    if (source.node.type !== 'Table' || source.node.temporary || source.cte) return undefined
+    return this.catalog.find(source.node.name)
+  }
+
+  /**
+   * Columns a source exposes, or undefined when they cannot be known
+   */
+  sourceColumns(source: ScopeSource): ColumnMap | undefined {
+    if (!this.sourceColumnCache.has(source)) {
+      // Mark as in progress so self-referencing sources resolve as unknown
+      this.sourceColumnCache.set(source, null)
+      this.sourceColumnCache.set(source, this.computeSourceColumns(source) || null)
+    }
+    return this.sourceColumnCache.get(source) || undefined
+  }
+
+  resolveColumn(column: SqlColumnRef, scope: QueryScope): SqlColumnResolution {
+    const name = column.name.toLowerCase()
+
+    if (column.qualifier) {
+      const source = resolveScopeQualifier(scope, column.qualifier)
+      if (!source) return { status: 'unknown' }
+      const columns = this.sourceColumns(source)
+      if (!columns) return { status: 'unknown' }
+      const info = columns.get(name)
+      return info ? { status: 'resolved', source, column: info } : { status: 'unknownField', source }
+    }
+
+    for (let current: QueryScope | undefined = scope; current; current = current.parent) {
+      const candidates: Array<{ source: ScopeSource, info: SqlColumnInfo }> = []
+      for (const source of current.sources) {
+        const columns = this.sourceColumns(source)
+        if (!columns) return { status: 'unknown' }
+        const info = columns.get(name)
+        if (info) candidates.push({ source, info })
+      }
+
+      if (candidates.length === 1) {
+        return { status: 'resolved', source: candidates[0].source, column: candidates[0].info }
+      }
+      if (candidates.length > 1) {
+        return { status: 'ambiguous', sources: candidates.map(candidate => candidate.source) }
+      }
+    }
+
+    return { status: 'unknownField' }
+  }
+
+  /**
+   * Infers the type of an expression evaluated in a scope
+   */
+  typeOf(expression: SqlExpression, scope?: QueryScope): SqlColumnInfo | undefined {
+    switch (expression.type) {
+      case 'Column': {
+        if (!scope) return undefined
+        const resolution = this.resolveColumn(expression, scope)
+        return resolution.status === 'resolved' ? resolution.column : undefined
+      }
+      case 'Literal':
+        if (expression.kind === 'string') return { name: '', fieldType: 'Text', maxLength: expression.value.length }
+        if (expression.kind === 'number') return { name: '', fieldType: expression.value.includes('.') ? 'Decimal' : 'Number' }
+        return undefined
+      case 'Function':
+        return this.functionType(expression, scope)
+      case 'Binary': {
+        if (!['+', '-', '*', '/', '%'].includes(expression.operator)) return { name: '', fieldType: 'Boolean' }
+        const left = this.typeOf(expression.left, scope)
+        const right = this.typeOf(expression.right, scope)
+        if (expression.operator === '+' && (this.isText(left) || this.isText(right))) {
+          const length = left?.maxLength !== undefined && right?.maxLength !== undefined
+            ? left.maxLength + right.maxLength
+            : undefined
+          return { name: '', fieldType: 'Text', maxLength: length }
+        }
+        if (left?.fieldType === 'Date') return { name: '', fieldType: 'Date' }
+        if (left?.fieldType === 'Decimal' || right?.fieldType === 'Decimal') return { name: '', fieldType: 'Decimal' }
+        return left?.fieldType || right?.fieldType ? { name: '', fieldType: 'Number' } : undefined
+      }
+      case 'Case': {
+        const first = expression.whens[0]?.then || expression.elseResult
+        const type = first ? this.typeOf(first, scope) : undefined
+        return type ? { name: '', fieldType: type.fieldType, maxLength: type.maxLength } : undefined
+      }
+      case 'Subquery': {
+        const core = sqlSelectCores(expression.query)[0]
+        const item = core?.columns[0]
+        return item ? this.typeOf(item.expression, this.scopesByCore.get(core)) : undefined
+      }
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * Lists the columns a query returns, expanding * from known sources.
+   * Returns undefined when a * reads a source whose columns are unknown.
+   */
+  outputColumns(core: SqlSelectCore): SqlOutputColumn[] | undefined {
+    const scope = this.scopesByCore.get(core)
+    const output: SqlOutputColumn[] = []
+
+    for (const item of core.columns) {
+      const { expression } = item
+      if (expression.type === 'Star') {
+        const sources = expression.qualifier
+          ? [scope && findScopeSource(scope, expression.qualifier)].filter((source): source is ScopeSource => !!source)
+          : scope?.sources || []
+        for (const source of sources) {
+          const columns = this.sourceColumns(source)
+          if (!columns) return undefined
+          columns.forEach(info => output.push({ name: info.name, item, info }))
+        }
+        if (sources.length === 0) return undefined
+        continue
+      }
+
+      const name = item.alias || (expression.type === 'Column' ? expression.name : undefined)
+      const info = this.typeOf(expression, scope)
+      output.push({ name, item, info: info && name ? { ...info, name } : info })
+    }
+
+    return output
+  }
+
+  /**
+   * Whether no two rows of the query can share values for the named output columns
+   */
+  isUniqueOn(query: SqlQuery, names: string[]): boolean {
+    if (query.type !== 'SelectCore') return false
+    const lower = names.map(name => name.toLowerCase())
+    return this.coreKeys(query).some(key => key.every(name => lower.includes(name)))
+  }
+
+  private computeSourceColumns(source: ScopeSource): ColumnMap | undefined {
+    const dataExtension = this.dataExtensionOf(source)
+    if (dataExtension) {
+      const columns: ColumnMap = new Map()
+      dataExtension.fields.forEach(field => columns.set(field.name.toLowerCase(), {
+        name: field.name,
+        fieldType: field.fieldType,
+        maxLength: DataExtensionCatalog.fieldLength(field),
+        field,
+        dataExtension
+      }))
+      return columns
+    }
+
+    const query = source.node.type === 'Derived' ? source.node.query : source.cte?.query
+    if (!query) return undefined
+
+    const output = this.outputColumns(sqlSelectCores(query)[0])
+    if (!output) return undefined
+
+    const renamed = source.cte?.columns || []
+    const columns: ColumnMap = new Map()
+    output.forEach((column, index) => {
+      const name = renamed[index] || column.name
+      if (name) columns.set(name.toLowerCase(), { ...column.info, name })
+    })
+    return columns
+  }
+
+  private functionType(expression: Extract<SqlExpression, { type: 'Function' }>, scope?: QueryScope): SqlColumnInfo | undefined {
+    const { name, args } = expression
+
+    if (expression.dataType) return this.dataTypeInfo(expression.dataType)
+    if (FUNCTION_RESULT_TYPES[name]) return { name: '', fieldType: FUNCTION_RESULT_TYPES[name] }
+
+    const first = args[0] ? this.typeOf(args[0], scope) : undefined
+    if (PASSTHROUGH_FUNCTIONS.includes(name)) return first && { name: '', fieldType: first.fieldType, maxLength: first.maxLength }
+    if (TEXT_FUNCTIONS.includes(name)) {
+      return { name: '', fieldType: 'Text', maxLength: name === 'REPLACE' || name === 'STUFF' ? undefined : first?.maxLength }
+    }
+
+    const lengthArg = name === 'LEFT' || name === 'RIGHT' ? args[1] : name === 'SUBSTRING' ? args[2] : undefined
+    if (lengthArg) {
+      const length = lengthArg.type === 'Literal' && lengthArg.kind === 'number' ? Number(lengthArg.value) : undefined
+      return { name: '', fieldType: 'Text', maxLength: length }
+    }
+
+    return undefined
+  }
+
+  private dataTypeInfo(dataType: string): SqlColumnInfo | undefined {
+    const match = /^(\w+)(?:\(([^)]*)\))?$/.exec(dataType)
+    if (!match) return undefined
+    const [, base, size] = match
+
+    if (/^N?(VAR)?CHAR$/.test(base)) {
+      const length = size && size !== 'MAX' ? Number(size) : base.includes('VAR') ? undefined : 1
+      return { name: '', fieldType: 'Text', maxLength: length }
+    }
+    if (/^(BIG|SMALL|TINY)?INT$/.test(base)) return { name: '', fieldType: 'Number' }
+    if (/^(DECIMAL|NUMERIC|FLOAT|REAL|MONEY|SMALLMONEY)$/.test(base)) return { name: '', fieldType: 'Decimal' }
+    if (/^(DATE|DATETIME|DATETIME2|SMALLDATETIME|DATETIMEOFFSET)$/.test(base)) return { name: '', fieldType: 'Date' }
+    if (base === 'BIT') return { name: '', fieldType: 'Boolean' }
+    return undefined
+  }
+
+  /**
+   * Sets of output column names (lower case) that identify a row of a SELECT
+   */
+  private coreKeys(core: SqlSelectCore): string[][] {
+    const scope = this.scopesByCore.get(core)
+    const keys: string[][] = []
+    const outputName = (predicate: (expression: SqlExpression) => boolean) => {
+      const item = core.columns.find(column => predicate(column.expression))
+      const name = item && (item.alias || (item.expression.type === 'Column' ? item.expression.name : undefined))
+      return name?.toLowerCase()
+    }
+
+    if (core.groupBy.length > 0) {
+      const names = core.groupBy.map(group => group.type === 'Column'
+        ? outputName(expression => expression.type === 'Column' && this.sameName(expression.name, group.name))
+        : undefined)
+      if (names.every(name => name)) keys.push(names as string[])
+      return keys
+    }
+
+    if (core.distinct) {
+      const names = (this.outputColumns(core) || []).map(column => column.name?.toLowerCase())
+      if (names.length > 0 && names.every(name => name)) keys.push(names as string[])
+    }
+
+    if (!scope || core.from.length !== 1) return keys
+
+    // Keys of the leftmost source survive when every join matches at most one row
+    const driving = scope.sources[0]
+    if (!driving || !this.joinsAreToOne(core.from[0], scope)) return keys
+
+    this.sourceKeys(driving, core, scope).forEach(sourceKey => {
+      const names = sourceKey.map(field => outputName(expression =>
+        expression.type === 'Column' && this.sameName(expression.name, field) &&
+        (!expression.qualifier || this.sameName(expression.qualifier, driving.name))
+      ))
+      if (names.every(name => name)) keys.push(names as string[])
+    })
+
+    return keys
+  }
+
+  /**
+   * Column names of a source that identify its rows
+   */
+  private sourceKeys(source: ScopeSource, core: SqlSelectCore, scope: QueryScope): string[][] {
+    const dataExtension = this.dataExtensionOf(source)
+    if (dataExtension) {
+      const primaryKey = this.catalog.primaryKey(dataExtension).map(field => field.name.toLowerCase())
+      return primaryKey.length > 0 ? [primaryKey] : []
+    }
+
+    const query = source.node.type === 'Derived' ? source.node.query : source.cte?.query
+    if (!query || query.type !== 'SelectCore') return []
+
+    const keys = this.coreKeys(query)
+
+    // WHERE rn = 1 over ROW_NUMBER() OVER (PARTITION BY ...) keeps one row per partition
+    const conditions = core.where ? this.conjuncts(core.where) : []
+    conditions.forEach(condition => {
+      if (condition.type !== 'Binary' || condition.operator !== '=') return
+      const [column, literal] = condition.left.type === 'Column' ? [condition.left, condition.right] : [condition.right, condition.left]
+      if (column.type !== 'Column' || literal.type !== 'Literal' || literal.value !== '1') return
+      if (column.qualifier ? !this.sameName(column.qualifier, source.name) : scope.sources.length > 1) return
+
+      const item = query.columns.find(candidate => candidate.alias && this.sameName(candidate.alias, column.name))
+      const rowNumber = item?.expression
+      if (rowNumber?.type !== 'Function' || rowNumber.name !== 'ROW_NUMBER' || !rowNumber.over) return
+
+      const names = rowNumber.over.partitionBy.map(partition => {
+        if (partition.type !== 'Column') return undefined
+        const output = query.columns.find(candidate =>
+          candidate.expression.type === 'Column' && this.sameName(candidate.expression.name, partition.name))
+        return (output?.alias || partition.name).toLowerCase()
+      })
+      if (names.length > 0 && names.every(name => name)) keys.push(names as string[])
+    })
+
+    return keys
+  }
+
+  private joinsAreToOne(source: SqlTableSource, scope: QueryScope): boolean {
+    if (source.type !== 'Join') return true
+    if (source.joinType === 'CROSS' || source.joinType === 'RIGHT' || source.joinType === 'FULL') return false
+    if (!this.joinsAreToOne(source.left, scope) || source.right.type === 'Join' || !source.on) return false
+
+    const right = sqlFlattenSources([source.right])[0]
+    const rightSource = scope.sources.find(candidate => candidate.node === right)
+    if (!rightSource) return false
+
+    const matched = new Set<string>()
+    this.conjuncts(source.on).forEach(condition => {
+      if (condition.type !== 'Binary' || condition.operator !== '=') return
+      ;[condition.left, condition.right].forEach(side => {
+        if (side.type === 'Column' && side.qualifier && this.sameName(side.qualifier, rightSource.name)) {
+          matched.add(side.name.toLowerCase())
+        }
+      })
+    })
+
+    return this.sourceKeys(rightSource, scope.core, scope).some(key => key.every(name => matched.has(name)))
+  }
+
+  private conjuncts(expression: SqlExpression): SqlExpression[] {
+    if (expression.type === 'Binary' && expression.operator === 'AND') {
+      return [...this.conjuncts(expression.left), ...this.conjuncts(expression.right)]
+    }
+    return [expression]
+  }
+
+  private isText(info?: SqlColumnInfo): boolean {
+    return info?.fieldType === 'Text' || info?.fieldType === 'EmailAddress' || info?.fieldType === 'Phone'
+  }
+
+  private sameName(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase()
+  }
+}
@@ -1,22 +1,47 @@
-import { LanguageValidator, DebugError, OptimizationSuggestion, ErrorSeverity } from '../../../types/debugging'
+import {
+  LanguageValidator,
+  DebugError,
+  OptimizationSuggestion,
+  ErrorSeverity,
+  ErrorCategory,
+  SourceRange,
+  SFMCContext,
+  QueryActivityTarget,
+  CodeFix
+} from '../../../types/debugging'
+import { parseSql, SqlParseResult } from '../parsers/sql-parser'
+import {
+  SqlColumnRef,
+  SqlExpression,
+  SqlFunctionCall,
+  SqlTableReference,
+  sqlExpressionChildren,
+  sqlJoins,
+  sqlSelectCores,
+  walkSqlExpression
+} from '../parsers/sql-ast'
+import {
+  SqlScopeAnalysis,
+  analyzeSqlScopes,
+  findScopeSource,
+  resolveScopeQualifier,
+  sqlScopeExpressions
+} from '../parsers/sql-scope'
+import { LineIndex, rangeEdit, rangeToLocation, sliceRange } from '../parsers/source-text'
+import { DataExtensionCatalog } from '../data-extension-schema'
+import { FixEngine } from '../fix-engine'
+import { SqlColumnInfo, SqlFieldType, SqlSchemaResolver } from './sql-schema'
+
+interface SqlAnalysis extends SqlScopeAnalysis {
+  code: string
+  parse: SqlParseResult
+}
+
+const COMPARISON_OPERATORS = ['=', '<>', '<', '>', '<=', '>=', '!<', '!>']
 
 export class SQLValidator implements LanguageValidator {
-  private readonly SQL_KEYWORDS = [
-    'SELECT', 'FROM', 'WHERE', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER',
-    'GROUP', 'BY', 'HAVING', 'ORDER', 'INSERT', 'UPDATE', 'DELETE', 'CREATE',
-    'ALTER', 'DROP', 'INDEX', 'TABLE', 'VIEW', 'PROCEDURE', 'FUNCTION',
-    'UNION', 'INTERSECT', 'EXCEPT', 'WITH', 'AS', 'DISTINCT', 'TOP', 'LIMIT'
-  ]
-
   private readonly AGGREGATE_FUNCTIONS = [
-    'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'STDEV', 'VAR'
-  ]
-
-  private readonly SFMC_SPECIFIC_FUNCTIONS = [
-    'DATEADD', 'DATEDIFF', 'DATEPART', 'GETDATE', 'CONVERT', 'CAST',
-    'ISNULL', 'COALESCE', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END',
-    'CHARINDEX', 'PATINDEX', 'STUFF', 'REVERSE', 'REPLICATE', 'SPACE',
-    'LTRIM', 'RTRIM', 'UPPER', 'LOWER', 'SUBSTRING', 'LEN', 'REPLACE'
+    'COUNT', 'COUNT_BIG', 'SUM', 'AVG', 'MIN', 'MAX', 'STDEV', 'STDEVP', 'VAR', 'VARP', 'STRING_AGG'
   ]
 
   private readonly SFMC_SYSTEM_TABLES = [
@@ -27,72 +52,75 @@ export class SQLValidator implements LanguageValidator {
     '_Journey', '_JourneyActivity', '_EnterpriseAttribute'
   ]
 
-  private readonly PERFORMANCE_ANTI_PATTERNS = [
-    'SELECT *', 'LIKE \'%', 'NOT IN', 'OR ', 'UNION ', 'DISTINCT'
-  ]
+  private readonly SYSTEM_TABLES = new Set(this.SFMC_SYSTEM_TABLES.map(name => name.toLowerCase()))
+
+  private readonly fixEngine = new FixEngine()
+
+  private lastAnalysis?: SqlAnalysis
 
   async validateSyntax(code: string): Promise<DebugError[]> {
     const errors: DebugError[] = []
-    const lines = code.split('\n')
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      const lineNumber = i + 1
-
-      // Check for basic SQL syntax
-      errors.push(...this.validateBasicSyntax(line, lineNumber))
-      
-      // Check for SELECT statement structure
-      errors.push(...this.validateSelectStructure(line, lineNumber))
-      
-      // Check for JOIN syntax
-      errors.push(...this.validateJoinSyntax(line, lineNumber))
-      
-      // Check for WHERE clause syntax
-      errors.push(...this.validateWhereClause(line, lineNumber))
-      
-      // Check for GROUP BY and HAVING
-      errors.push(...this.validateGroupByHaving(line, lineNumber))
-      
-      // Check for common syntax errors
-      errors.push(...this.validateCommonSyntaxErrors(line, lineNumber))
-      
-      // Check SFMC-specific rules
-      errors.push(...this.validateSFMCSpecificRules(line, lineNumber))
-    }
+    const analysis = this.analyze(code)
+
+    // Tokenizer and parser diagnostics
+    analysis.parse.diagnostics.forEach(diagnostic => {
+      errors.push(this.createError(
+        diagnostic.rule.replace(/^(sfmc-)?sql-/, '').replace(/-/g, '_'),
+        diagnostic.range,
+        diagnostic.severity,
+        diagnostic.message,
+        diagnostic.rule,
+        'syntax',
+        diagnostic.fixSuggestion,
+        diagnostic.fix
+      ))
+    })
+
+    // Check for statements and syntax that query activities reject
+    errors.push(...this.validateDialect(analysis))
+
+    // Check for SELECT statement structure
+    errors.push(...this.validateSelectStructure(analysis))
+
+    // Check for JOIN syntax
+    errors.push(...this.validateJoinSyntax(analysis))
 
-    // Check for statement-level issues
-    errors.push(...this.validateStatementStructure(code))
+    // Check for WHERE clause syntax
+    errors.push(...this.validateWhereClause(analysis))
+
+    // Check for GROUP BY and HAVING
+    errors.push(...this.validateGroupByHaving(analysis))
 
     return errors
   }
 
-  async validateSemantics(code: string): Promise<DebugError[]> {
+  async validateSemantics(code: string, context?: SFMCContext): Promise<DebugError[]> {
     const errors: DebugError[] = []
-    const lines = code.split('\n')
-
-    // Track table aliases and column references
-    const tableAliases = new Map<string, string>()
-    const columnReferences = new Set<string>()
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      const lineNumber = i + 1
-
-      // Track table aliases
-      this.trackTableAliases(line, tableAliases)
-      
-      // Check for column references
-      errors.push(...this.validateColumnReferences(line, lineNumber, tableAliases))
-      
-      // Check for aggregate function usage
-      errors.push(...this.validateAggregateFunctions(line, lineNumber))
-      
-      // Check for subquery usage
-      errors.push(...this.validateSubqueries(line, lineNumber))
-      
-      // Check for data type compatibility
-      errors.push(...this.validateDataTypes(line, lineNumber))
+    const analysis = this.analyze(code)
+    const schema = context?.dataExtensions?.length
+      ? new SqlSchemaResolver(analysis, new DataExtensionCatalog(context.dataExtensions))
+      : undefined
+
+    // Check column qualifiers against the FROM/JOIN scope
+    errors.push(...this.validateColumnReferences(analysis, schema))
+
+    // Check for aggregate function usage
+    errors.push(...this.validateAggregateFunctions(analysis))
+
+    // Check for correlated subqueries
+    errors.push(...this.validateSubqueries(analysis))
+
+    // Check for data type compatibility
+    errors.push(...this.validateDataTypes(analysis, schema))
+
+    if (schema) {
+      // Check tables against the Data Extension schemas
+      errors.push(...this.validateDataExtensionReferences(analysis, schema))
+
+      // Check the query output against the target Data Extension
+      if (context?.queryTarget) {
+        errors.push(...this.validateQueryTarget(analysis, schema, context.queryTarget))
+      }
     }
 
     return errors
@@ -100,773 +128,1210 @@ export class SQLValidator implements LanguageValidator {
 
   async analyzePerformance(code: string): Promise<DebugError[]> {
     const issues: DebugError[] = []
-    const lines = code.split('\n')
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      const lineNumber = i + 1
-
-      // Analyze SELECT performance
-      issues.push(...this.analyzeSelectPerformance(line, lineNumber))
-      
-      // Analyze JOIN performance
-      issues.push(...this.analyzeJoinPerformance(line, lineNumber))
-      
-      // Analyze WHERE clause performance
-      issues.push(...this.analyzeWherePerformance(line, lineNumber))
-      
-      // Analyze indexing opportunities
-      issues.push(...this.analyzeIndexingOpportunities(line, lineNumber))
-      
-      // Analyze query complexity
-      issues.push(...this.analyzeQueryComplexity(line, lineNumber))
-      
-      // Analyze SFMC-specific performance
-      issues.push(...this.analyzeSFMCPerformance(line, lineNumber))
-    }
+    const analysis = this.analyze(code)
+
+    // Analyze SELECT performance
+    issues.push(...this.analyzeSelectPerformance(analysis))
+
+    // Analyze JOIN performance
+    issues.push(...this.analyzeJoinPerformance(analysis))
+
+    // Analyze WHERE clause performance
+    issues.push(...this.analyzeWherePerformance(analysis))
 
-    // Analyze overall query structure
-    issues.push(...this.analyzeOverallPerformance(code))
+    // Analyze query complexity
+    issues.push(...this.analyzeQueryComplexity(analysis))
+
+    // Analyze SFMC-specific performance
+    issues.push(...this.analyzeSFMCPerformance(analysis))
 
     return issues
   }
 
   async getOptimizationSuggestions(code: string): Promise<OptimizationSuggestion[]> {
     const suggestions: OptimizationSuggestion[] = []
-    const lines = code.split('\n')
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      const lineNumber = i + 1
-
-      // Suggest query optimizations
-      suggestions.push(...this.suggestQueryOptimizations(line, lineNumber))
-      
-      // Suggest indexing strategies
-      suggestions.push(...this.suggestIndexingStrategies(line, lineNumber))
-      
-      // Suggest rewrite opportunities
-      suggestions.push(...this.suggestQueryRewrites(line, lineNumber))
-      
-      // Suggest performance improvements
-      suggestions.push(...this.suggestPerformanceImprovements(line, lineNumber))
-    }
+    const analysis = this.analyze(code)
+
+    // Suggest query optimizations
+    suggestions.push(...this.suggestQueryOptimizations(analysis))
+
+    // Suggest indexing strategies
+    suggestions.push(...this.suggestIndexingStrategies(analysis))
+
+    // Suggest rewrite opportunities
+    suggestions.push(...this.suggestQueryRewrites(analysis))
+
+    // Suggest performance improvements
+    suggestions.push(...this.suggestPerformanceImprovements(analysis))
 
     return suggestions
   }
 
   async generateFixedCode(code: string, errors: DebugError[]): Promise<string> {
-    let fixedCode = code
-    const lines = fixedCode.split('\n')
+    const result = await this.fixEngine.fixCode(code, errors, this)
+    return result.code
+  }
 
-    // Sort errors by line number in descending order
-    const sortedErrors = errors.sort((a, b) => b.line - a.line)
+  /**
+   * Parses code once per distinct input; the analysis passes share the tree
+   */
+  parse(code: string): SqlParseResult {
+    return this.analyze(code).parse
+  }
 
-    for (const error of sortedErrors) {
-      if (error.fixSuggestion && error.line <= lines.length) {
-        const lineIndex = error.line - 1
-        lines[lineIndex] = this.applyFix(lines[lineIndex], error)
-      }
+  private analyze(code: string): SqlAnalysis {
+    if (this.lastAnalysis?.code !== code) {
+      const parse = parseSql(code)
+      this.lastAnalysis = { code, parse, ...analyzeSqlScopes(parse) }
     }
-
-    return lines.join('\n')
+    return this.lastAnalysis
   }
 
-  private validateBasicSyntax(line: string, lineNumber: number): DebugError[] {
+  private validateDialect(analysis: SqlAnalysis): DebugError[] {
     const errors: DebugError[] = []
-    const upperLine = line.toUpperCase().trim()
-
-    // Check for missing semicolons at end of statements
-    if (upperLine && 
-        !upperLine.endsWith(';') && 
-        !upperLine.endsWith(',') &&
-        !line.trim().startsWith('--') &&
-        (upperLine.includes('SELECT') || upperLine.includes('INSERT') || 
-         upperLine.includes('UPDATE') || upperLine.includes('DELETE')) &&
-        !upperLine.includes('(') && !upperLine.includes(')')) {
-      
-      errors.push({
-        id: `missing_semicolon_${lineNumber}`,
-        line: lineNumber,
-        column: line.length,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Consider adding semicolon at end of SQL statement',
-        rule: 'sql-semicolon',
-        category: 'syntax',
-        fixSuggestion: 'Add semicolon at end of statement'
-      })
-    }
+    const { statements } = analysis.parse.script
+
+    statements.forEach(statement => {
+      if (statement.type === 'Unsupported') {
+        errors.push(this.createError(
+          'unsupported_statement',
+          statement.range,
+          'error',
+          `${statement.keyword} statements are not supported in SFMC query activities - only SELECT is allowed`,
+          'sfmc-sql-unsupported-statement',
+          'syntax',
+          'Select the rows to write and let the query activity data action (Overwrite, Update or Append) update the target Data Extension'
+        ))
+      }
+    })
 
-    // Check for unmatched parentheses
-    const openParens = (line.match(/\(/g) || []).length
-    const closeParens = (line.match(/\)/g) || []).length
-    
-    if (openParens !== closeParens) {
-      errors.push({
-        id: `unmatched_parens_${lineNumber}`,
-        line: lineNumber,
-        column: 1,
-        severity: 'error' as ErrorSeverity,
-        message: 'Unmatched parentheses in SQL statement',
-        rule: 'sql-parentheses',
-        category: 'syntax',
-        fixSuggestion: openParens > closeParens ? 'Add missing closing parentheses' : 'Remove extra closing parentheses'
-      })
+    if (statements.length > 1) {
+      errors.push(this.createError(
+        'multiple_statements',
+        statements[1].range,
+        'error',
+        'SFMC query activities run a single SELECT statement',
+        'sfmc-sql-multiple-statements',
+        'syntax',
+        'Split each statement into its own query activity'
+      ))
     }
 
-    return errors
-  }
+    analysis.scopes.forEach(scope => {
+      const { core } = scope
+
+      if (core.into) {
+        errors.push(this.createError(
+          'select_into',
+          core.into.range,
+          'error',
+          'SELECT INTO is not supported - results are written to the query activity target Data Extension',
+          'sfmc-sql-select-into',
+          'syntax',
+          'Remove the INTO clause and set the target Data Extension on the query activity',
+          this.removeIntoFix(analysis.code, core.into.range)
+        ))
+      }
 
-  private validateSelectStructure(line: string, lineNumber: number): DebugError[] {
-    const errors: DebugError[] = []
-    const upperLine = line.toUpperCase().trim()
-
-    // Check for SELECT without FROM (except for constants)
-    if (upperLine.startsWith('SELECT') && !upperLine.includes('FROM') && 
-        !upperLine.includes('GETDATE()') && !upperLine.includes('@@')) {
-      errors.push({
-        id: `select_without_from_${lineNumber}`,
-        line: lineNumber,
-        column: 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'SELECT statement without FROM clause - ensure this is intentional',
-        rule: 'sql-select-from',
-        category: 'semantic',
-        fixSuggestion: 'Add FROM clause or verify if selecting constants'
+      scope.sources.forEach(source => {
+        if (source.node.type === 'Table' && source.node.temporary) {
+          errors.push(this.createError(
+            'temp_tables',
+            source.node.range,
+            'error',
+            `Temporary table ${source.node.name} is not supported in SFMC query activities`,
+            'sfmc-sql-temp-tables',
+            'syntax',
+            'Stage intermediate results in a Data Extension from a separate query activity'
+          ))
+        }
+
+        if (scope.withinCte && source.node.type === 'Table' && source.node.parts.length === 1 &&
+            this.sameName(source.node.name, scope.withinCte.name)) {
+          errors.push(this.createError(
+            'recursive_cte',
+            source.node.range,
+            'error',
+            `Recursive common table expression ${scope.withinCte.name} is not supported in SFMC query activities`,
+            'sfmc-sql-recursive-cte',
+            'syntax',
+            'Flatten the hierarchy into a Data Extension with separate query activities'
+          ))
+        }
       })
-    }
 
-    // Check for SELECT *
-    if (upperLine.includes('SELECT *')) {
-      errors.push({
-        id: `select_star_${lineNumber}`,
-        line: lineNumber,
-        column: upperLine.indexOf('SELECT *') + 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'SELECT * can impact performance - specify columns explicitly',
-        rule: 'sql-select-star',
-        category: 'performance',
-        fixSuggestion: 'Replace SELECT * with specific column names'
+      if (core.orderBy.length > 0 && !core.top) {
+        errors.push(this.createError(
+          'order_by_without_top',
+          this.spanOf(core.orderBy),
+          'error',
+          'ORDER BY is only allowed together with TOP in SFMC query activities',
+          'sfmc-sql-order-by-without-top',
+          'syntax',
+          'Add TOP to the SELECT or remove ORDER BY - the target Data Extension does not keep row order'
+        ))
+      }
+
+      sqlScopeExpressions(scope).forEach(({ expression }) => {
+        walkSqlExpression(expression, node => {
+          if (node.type === 'Variable') {
+            errors.push(this.createError(
+              'variables',
+              node.range,
+              'error',
+              `Variables such as ${node.name} are not supported in SFMC query activities`,
+              'sfmc-sql-variables',
+              'syntax',
+              'Replace the variable with a literal value or a join to a Data Extension'
+            ))
+          }
+        })
       })
-    }
+    })
+
+    analysis.setOperations.forEach(operation => {
+      if (operation.orderBy.length > 0) {
+        errors.push(this.createError(
+          'order_by_without_top',
+          this.spanOf(operation.orderBy),
+          'error',
+          `ORDER BY on a ${operation.operator} result is not supported in SFMC query activities`,
+          'sfmc-sql-order-by-without-top',
+          'syntax',
+          'Remove ORDER BY - the target Data Extension does not keep row order'
+        ))
+      }
+    })
 
     return errors
   }
 
-  private validateJoinSyntax(line: string, lineNumber: number): DebugError[] {
+  private validateSelectStructure(analysis: SqlAnalysis): DebugError[] {
     const errors: DebugError[] = []
-    const upperLine = line.toUpperCase().trim()
-
-    // Check for JOIN without ON clause
-    if ((upperLine.includes('JOIN') || upperLine.includes('INNER JOIN') || 
-         upperLine.includes('LEFT JOIN') || upperLine.includes('RIGHT JOIN')) &&
-        !upperLine.includes('ON') && !upperLine.includes('USING')) {
-      
-      errors.push({
-        id: `join_without_on_${lineNumber}`,
-        line: lineNumber,
-        column: upperLine.indexOf('JOIN') + 1,
-        severity: 'error' as ErrorSeverity,
-        message: 'JOIN statement missing ON clause',
-        rule: 'sql-join-on',
-        category: 'syntax',
-        fixSuggestion: 'Add ON clause to specify join condition'
-      })
-    }
 
-    // Check for old-style joins (comma-separated tables)
-    if (upperLine.includes('FROM') && upperLine.includes(',') && 
-        upperLine.includes('WHERE') && !upperLine.includes('JOIN')) {
-      
-      errors.push({
-        id: `old_style_join_${lineNumber}`,
-        line: lineNumber,
-        column: 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Consider using explicit JOIN syntax instead of comma-separated tables',
-        rule: 'sql-explicit-join',
-        category: 'syntax',
-        fixSuggestion: 'Replace comma-separated tables with explicit JOIN syntax'
-      })
-    }
+    analysis.scopes.forEach(scope => {
+      const { core } = scope
+
+      // Check for SELECT without FROM (except for constants)
+      if (core.from.length === 0 && core.columns.some(item => this.containsColumn(item.expression))) {
+        errors.push(this.createError(
+          'select_without_from',
+          core.keywordRange,
+          'warning',
+          'SELECT statement without FROM clause - ensure this is intentional',
+          'sql-select-from',
+          'semantic',
+          'Add FROM clause or verify if selecting constants'
+        ))
+      }
+
+      // Check for SELECT * outside EXISTS, where the column list is irrelevant
+      if (scope.kind !== 'exists') {
+        core.columns.forEach(item => {
+          if (item.expression.type === 'Star') {
+            errors.push(this.createError(
+              'select_star',
+              item.expression.range,
+              'warning',
+              'SELECT * can impact performance - specify columns explicitly',
+              'sql-select-star',
+              'performance',
+              'Replace SELECT * with specific column names'
+            ))
+          }
+        })
+      }
+    })
 
     return errors
   }
 
-  private validateWhereClause(line: string, lineNumber: number): DebugError[] {
+  private validateJoinSyntax(analysis: SqlAnalysis): DebugError[] {
     const errors: DebugError[] = []
-    const upperLine = line.toUpperCase().trim()
-
-    // Check for WHERE 1=1 (often indicates dynamic SQL issues)
-    if (upperLine.includes('WHERE 1=1') || upperLine.includes('WHERE 1 = 1')) {
-      errors.push({
-        id: `where_one_equals_one_${lineNumber}`,
-        line: lineNumber,
-        column: upperLine.indexOf('WHERE') + 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'WHERE 1=1 may indicate dynamic SQL construction - review for necessity',
-        rule: 'sql-where-one-equals-one',
-        category: 'semantic',
-        fixSuggestion: 'Remove WHERE 1=1 if not needed for dynamic SQL'
-      })
-    }
 
-    // Check for potential SQL injection patterns
-    if (line.includes("'") && line.includes('+') && line.includes('WHERE')) {
-      errors.push({
-        id: `potential_sql_injection_${lineNumber}`,
-        line: lineNumber,
-        column: 1,
-        severity: 'error' as ErrorSeverity,
-        message: 'Potential SQL injection vulnerability - use parameterized queries',
-        rule: 'sql-injection-risk',
-        category: 'security',
-        fixSuggestion: 'Use parameterized queries instead of string concatenation'
+    analysis.scopes.forEach(({ core }) => {
+      // Check for JOIN without ON clause
+      sqlJoins(core.from).forEach(join => {
+        if (join.joinType !== 'CROSS' && !join.on) {
+          errors.push(this.createError(
+            'join_without_on',
+            join.keywordRange,
+            'error',
+            'JOIN statement missing ON clause',
+            'sql-join-on',
+            'syntax',
+            'Add ON clause to specify join condition'
+          ))
+        }
       })
-    }
+
+      // Check for old-style joins (comma-separated tables)
+      if (core.from.length > 1) {
+        errors.push(this.createError(
+          'old_style_join',
+          core.from[1].range,
+          'warning',
+          'Consider using explicit JOIN syntax instead of comma-separated tables',
+          'sql-explicit-join',
+          'syntax',
+          'Replace comma-separated tables with explicit JOIN syntax'
+        ))
+      }
+    })
 
     return errors
   }
 
-  private validateGroupByHaving(line: string, lineNumber: number): DebugError[] {
+  private validateWhereClause(analysis: SqlAnalysis): DebugError[] {
     const errors: DebugError[] = []
-    const upperLine = line.toUpperCase().trim()
-
-    // Check for HAVING without GROUP BY
-    if (upperLine.includes('HAVING') && !upperLine.includes('GROUP BY')) {
-      // This would need more context to be fully accurate
-      errors.push({
-        id: `having_without_group_by_${lineNumber}`,
-        line: lineNumber,
-        column: upperLine.indexOf('HAVING') + 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'HAVING clause typically requires GROUP BY clause',
-        rule: 'sql-having-group-by',
-        category: 'semantic',
-        fixSuggestion: 'Add GROUP BY clause or use WHERE instead of HAVING'
+
+    analysis.scopes.forEach(({ core }) => {
+      if (!core.where) return
+
+      // Check for WHERE 1=1 (often indicates dynamic SQL issues)
+      this.conjuncts(core.where).forEach(condition => {
+        if (condition.type === 'Binary' && condition.operator === '=' &&
+            condition.left.type === 'Literal' && condition.right.type === 'Literal' &&
+            condition.left.value === condition.right.value) {
+          errors.push(this.createError(
+            'where_one_equals_one',
+            condition.range,
+            'warning',
+            'WHERE 1=1 may indicate dynamic SQL construction - review for necessity',
+            'sql-where-one-equals-one',
+            'semantic',
+            'Remove WHERE 1=1 if not needed for dynamic SQL'
+          ))
+        }
       })
-    }
+    })
 
     return errors
   }
 
-  private validateCommonSyntaxErrors(line: string, lineNumber: number): DebugError[] {
+  private validateGroupByHaving(analysis: SqlAnalysis): DebugError[] {
     const errors: DebugError[] = []
-    const upperLine = line.toUpperCase().trim()
-
-    // Check for assignment in WHERE clause (= instead of ==)
-    if (upperLine.includes('WHERE') && line.includes('=') && !line.includes('==') && 
-        !line.includes('!=') && !line.includes('<>') && !line.includes('<=') && !line.includes('>=')) {
-      
-      // This is actually correct in SQL, but flag if it looks like a comparison issue
-      if (line.match(/=\s*[a-zA-Z]/)) {
-        errors.push({
-          id: `assignment_style_${lineNumber}`,
-          line: lineNumber,
-          column: line.indexOf('=') + 1,
-          severity: 'info' as ErrorSeverity,
-          message: 'SQL uses single = for comparison (unlike some programming languages)',
-          rule: 'sql-comparison-operator',
-          category: 'syntax',
-          fixSuggestion: 'Single = is correct for SQL comparisons'
+    const { code } = analysis
+
+    analysis.scopes.forEach(({ core }) => {
+      // Check for HAVING without GROUP BY
+      if (core.having && core.groupBy.length === 0) {
+        errors.push(this.createError(
+          'having_without_group_by',
+          core.having.range,
+          'warning',
+          'HAVING clause typically requires GROUP BY clause',
+          'sql-having-group-by',
+          'semantic',
+          'Add GROUP BY clause or use WHERE instead of HAVING'
+        ))
+      }
+
+      // Check that non-aggregated columns are grouped
+      const hasAggregates = core.columns.some(item => this.containsAggregate(item.expression))
+      if (!hasAggregates && core.groupBy.length === 0) return
+
+      const grouped = new Set(core.groupBy.map(expression => this.normalize(code, expression.range)))
+      const groupedNames = new Set(core.groupBy
+        .filter((expression): expression is SqlColumnRef => expression.type === 'Column')
+        .map(expression => expression.name.toLowerCase()))
+      const ungrouped = core.columns.flatMap(item => this.ungroupedColumns(item.expression, grouped, groupedNames, code))
+
+      if (core.groupBy.length === 0 && ungrouped.length > 0) {
+        errors.push(this.createError(
+          'missing_group_by',
+          ungrouped[0].range,
+          'error',
+          'Query with aggregate functions and non-aggregate columns requires GROUP BY',
+          'sql-aggregate-group-by',
+          'semantic',
+          'Add GROUP BY clause for non-aggregate columns'
+        ))
+      } else if (core.groupBy.length > 0) {
+        ungrouped.forEach(column => {
+          errors.push(this.createError(
+            'missing_group_by',
+            column.range,
+            'error',
+            `Column ${sliceRange(code, column.range)} must appear in GROUP BY or inside an aggregate function`,
+            'sql-aggregate-group-by',
+            'semantic',
+            `Add ${sliceRange(code, column.range)} to the GROUP BY clause`
+          ))
         })
       }
-    }
+    })
 
     return errors
   }
 
-  private validateStatementStructure(code: string): DebugError[] {
+  private validateColumnReferences(analysis: SqlAnalysis, schema?: SqlSchemaResolver): DebugError[] {
     const errors: DebugError[] = []
-    const upperCode = code.toUpperCase()
-
-    // Check for aggregate functions without GROUP BY
-    const hasAggregates = this.AGGREGATE_FUNCTIONS.some(func => upperCode.includes(func + '('))
-    const hasGroupBy = upperCode.includes('GROUP BY')
-    const hasNonAggregateColumns = this.hasNonAggregateColumnsInSelect(code)
-
-    if (hasAggregates && hasNonAggregateColumns && !hasGroupBy) {
-      errors.push({
-        id: 'missing_group_by',
-        line: 1,
-        column: 1,
-        severity: 'error' as ErrorSeverity,
-        message: 'Query with aggregate functions and non-aggregate columns requires GROUP BY',
-        rule: 'sql-aggregate-group-by',
-        category: 'semantic',
-        fixSuggestion: 'Add GROUP BY clause for non-aggregate columns'
+    const reportedUnqualified = new Set<string>()
+
+    analysis.columns.forEach(({ column, scope, clause }) => {
+      if (column.qualifier && !resolveScopeQualifier(scope, column.qualifier)) {
+        errors.push(this.createError(
+          'unknown_table_alias',
+          column.qualifierRange || column.range,
+          'error',
+          `Unknown table alias or table name: ${column.qualifier}`,
+          'sql-unknown-table-alias',
+          'semantic',
+          `Verify table alias '${column.qualifier}' is defined in the FROM clause`
+        ))
+        return
+      }
+
+      // ORDER BY may name a SELECT alias instead of a column
+      if (clause === 'orderBy' && !column.qualifier &&
+          scope.core.columns.some(item => item.alias && this.sameName(item.alias, column.name))) {
+        return
+      }
+
+      const resolution = schema?.resolveColumn(column, scope)
+
+      if (resolution?.status === 'unknownField') {
+        const dataExtension = resolution.source && schema!.dataExtensionOf(resolution.source)
+        errors.push(this.createError(
+          'unknown_field',
+          column.range,
+          'error',
+          dataExtension
+            ? `Field ${column.name} does not exist in Data Extension ${dataExtension.name}`
+            : resolution.source
+              ? `Column ${column.name} is not returned by ${resolution.source.name}`
+              : `Field ${column.name} does not exist in any table of the FROM clause`,
+          'sql-unknown-field',
+          'semantic',
+          'Check the field name against the Data Extension schema'
+        ))
+        return
+      }
+
+      if (resolution?.status === 'ambiguous') {
+        errors.push(this.createError(
+          'ambiguous_column',
+          column.range,
+          'error',
+          `Ambiguous column name ${column.name} - it exists in ${resolution.sources.map(source => source.name).join(' and ')}`,
+          'sql-ambiguous-column',
+          'semantic',
+          `Prefix ${column.name} with the alias of the table it belongs to`
+        ))
+        return
+      }
+
+      if (column.qualifier || resolution?.status === 'resolved' || scope.sources.length < 2 || clause === 'orderBy') return
+
+      const key = `${analysis.scopes.indexOf(scope)}:${column.name.toLowerCase()}`
+      if (reportedUnqualified.has(key)) return
+      reportedUnqualified.add(key)
+
+      errors.push(this.createError(
+        'ambiguous_column',
+        column.range,
+        'info',
+        `Column ${column.name} is not qualified while the query reads from ${scope.sources.length} tables`,
+        'sql-ambiguous-column',
+        'semantic',
+        `Prefix ${column.name} with the alias of the table it belongs to`
+      ))
+    })
+
+    // Star qualifiers resolve the same way as column qualifiers
+    analysis.scopes.forEach(scope => {
+      scope.core.columns.forEach(({ expression }) => {
+        if (expression.type === 'Star' && expression.qualifier && !resolveScopeQualifier(scope, expression.qualifier)) {
+          errors.push(this.createError(
+            'unknown_table_alias',
+            expression.range,
+            'error',
+            `Unknown table alias or table name: ${expression.qualifier}`,
+            'sql-unknown-table-alias',
+            'semantic',
+            `Verify table alias '${expression.qualifier}' is defined in the FROM clause`
+          ))
+        }
       })
-    }
+    })
 
     return errors
   }
 
-  private trackTableAliases(line: string, aliases: Map<string, string>): void {
-    const upperLine = line.toUpperCase()
-    
-    // Simple alias detection (table AS alias or table alias)
-    const aliasMatch = upperLine.match(/(\w+)\s+(?:AS\s+)?(\w+)(?:\s|$|,)/g)
-    if (aliasMatch) {
-      aliasMatch.forEach(match => {
-        const parts = match.trim().split(/\s+/)
-        if (parts.length >= 2) {
-          const table = parts[0]
-          const alias = parts[parts.length - 1]
-          if (alias !== 'AS') {
-            aliases.set(alias, table)
-          }
-        }
-      })
-    }
+  private validateAggregateFunctions(analysis: SqlAnalysis): DebugError[] {
+    const errors: DebugError[] = []
+
+    // Check for COUNT(*) vs COUNT(column)
+    this.forEachExpression(analysis, node => {
+      if (node.type === 'Function' && node.name === 'COUNT' && node.args[0]?.type === 'Star') {
+        errors.push(this.createError(
+          'count_star',
+          node.range,
+          'info',
+          'COUNT(*) counts all rows including NULLs - use COUNT(column) to exclude NULLs',
+          'sql-count-star',
+          'semantic',
+          'Consider using COUNT(specific_column) if NULL exclusion is needed'
+        ))
+      }
+    })
+
+    return errors
   }
 
-  private validateColumnReferences(line: string, lineNumber: number, aliases: Map<string, string>): DebugError[] {
+  private validateSubqueries(analysis: SqlAnalysis): DebugError[] {
     const errors: DebugError[] = []
-    
-    // Check for ambiguous column references
-    const columnRefs = line.match(/\b\w+\.\w+/g)
-    if (columnRefs) {
-      columnRefs.forEach(ref => {
-        const [tableRef, column] = ref.split('.')
-        if (!aliases.has(tableRef) && !this.isKnownTable(tableRef)) {
-          errors.push({
-            id: `unknown_table_alias_${lineNumber}`,
-            line: lineNumber,
-            column: line.indexOf(ref) + 1,
-            severity: 'warning' as ErrorSeverity,
-            message: `Unknown table alias or table name: ${tableRef}`,
-            rule: 'sql-unknown-table-alias',
-            category: 'semantic',
-            fixSuggestion: `Verify table alias '${tableRef}' is defined`
-          })
-        }
-      })
-    }
+
+    // Correlated scalar and IN subqueries run once per outer row; EXISTS is the cheap form
+    analysis.scopes.forEach(scope => {
+      if (scope.kind !== 'subquery') return
+
+      const correlated = analysis.columns.some(use =>
+        use.scope === scope && use.column.qualifier && !findScopeSource(scope, use.column.qualifier) &&
+        resolveScopeQualifier(scope, use.column.qualifier)
+      )
+
+      if (correlated) {
+        errors.push(this.createError(
+          'subquery_performance',
+          scope.core.keywordRange,
+          'warning',
+          'Correlated subquery is evaluated once per outer row - consider a JOIN alternative',
+          'sql-subquery-performance',
+          'performance',
+          'Consider rewriting subquery as JOIN for better performance'
+        ))
+      }
+    })
 
     return errors
   }
 
-  private validateAggregateFunctions(line: string, lineNumber: number): DebugError[] {
+  private validateDataTypes(analysis: SqlAnalysis, schema?: SqlSchemaResolver): DebugError[] {
     const errors: DebugError[] = []
-    const upperLine = line.toUpperCase()
 
-    // Check for COUNT(*) vs COUNT(column)
-    if (upperLine.includes('COUNT(*)')) {
-      errors.push({
-        id: `count_star_${lineNumber}`,
-        line: lineNumber,
-        column: upperLine.indexOf('COUNT(*)') + 1,
-        severity: 'info' as ErrorSeverity,
-        message: 'COUNT(*) counts all rows including NULLs - use COUNT(column) to exclude NULLs',
-        rule: 'sql-count-star',
-        category: 'semantic',
-        fixSuggestion: 'Consider using COUNT(specific_column) if NULL exclusion is needed'
+    analysis.scopes.forEach(scope => {
+      sqlScopeExpressions(scope).forEach(({ expression }) => {
+        walkSqlExpression(expression, node => {
+          this.comparedPairs(node).forEach(([left, right]) => {
+            const leftType = schema?.typeOf(left, scope)
+            const rightType = schema?.typeOf(right, scope)
+
+            // Check for implicit type conversions
+            const pairs: Array<[SqlExpression, SqlExpression, SqlColumnInfo | undefined]> = [[left, right, leftType], [right, left, rightType]]
+            if (pairs.some(([column, literal, columnType]) =>
+              column.type === 'Column' && literal.type === 'Literal' && literal.kind === 'string' &&
+              /^\d+$/.test(literal.value) && (!columnType || this.typeFamily(columnType.fieldType) === 'number')
+            )) {
+              errors.push(this.createError(
+                'implicit_conversion',
+                node.type === 'Binary' ? node.operatorRange : right.range,
+                'warning',
+                'Comparing numeric column with string literal may cause implicit conversion',
+                'sql-implicit-conversion',
+                'performance',
+                'Use numeric literal without quotes for numeric comparisons'
+              ))
+            }
+
+            // Check for comparisons between incompatible field types
+            const mismatch = leftType && rightType && this.typeMismatch(left, leftType, right, rightType)
+            if (mismatch) {
+              errors.push(this.createError(
+                'type_mismatch',
+                node.type === 'Binary' ? node.operatorRange : right.range,
+                mismatch.severity,
+                mismatch.message,
+                'sql-type-mismatch',
+                'semantic',
+                'Compare values of the same type or convert explicitly with CAST or CONVERT'
+              ))
+            }
+          })
+        })
       })
-    }
+    })
 
     return errors
   }
 
-  private validateSubqueries(line: string, lineNumber: number): DebugError[] {
+  private validateDataExtensionReferences(analysis: SqlAnalysis, schema: SqlSchemaResolver): DebugError[] {
     const errors: DebugError[] = []
-    
-    // Check for correlated subqueries (performance concern)
-    if (line.includes('(SELECT') && line.includes('WHERE')) {
-      errors.push({
-        id: `subquery_performance_${lineNumber}`,
-        line: lineNumber,
-        column: line.indexOf('(SELECT') + 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Subqueries can impact performance - consider JOIN alternatives',
-        rule: 'sql-subquery-performance',
-        category: 'performance',
-        fixSuggestion: 'Consider rewriting subquery as JOIN for better performance'
+
+    analysis.scopes.forEach(scope => {
+      scope.sources.forEach(source => {
+        const { node } = source
+        if (node.type !== 'Table' || node.temporary || source.cte || this.isSystemTable(node.name)) return
+        if (schema.catalog.find(node.name)) return
+
+        errors.push(this.createError(
+          'unknown_data_extension',
+          node.range,
+          'error',
+          `Data Extension ${node.name} was not found in the provided schema`,
+          'sql-unknown-data-extension',
+          'semantic',
+          'Check the Data Extension name, or prefix shared Data Extensions with ENT.'
+        ))
       })
-    }
+    })
 
     return errors
   }
 
-  private validateDataTypes(line: string, lineNumber: number): DebugError[] {
+  private validateQueryTarget(analysis: SqlAnalysis, schema: SqlSchemaResolver, target: QueryActivityTarget): DebugError[] {
     const errors: DebugError[] = []
-    
-    // Check for implicit type conversions
-    if (line.includes('=') && line.match(/=\s*'\d+'/)) {
-      errors.push({
-        id: `implicit_conversion_${lineNumber}`,
-        line: lineNumber,
-        column: line.indexOf('=') + 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Comparing numeric column with string literal may cause implicit conversion',
-        rule: 'sql-implicit-conversion',
-        category: 'performance',
-        fixSuggestion: 'Use numeric literal without quotes for numeric comparisons'
+    const statement = analysis.parse.script.statements.find(candidate => candidate.type === 'Select')
+    if (!statement || statement.type !== 'Select') return errors
+
+    const targetExtension = schema.catalog.find(target.dataExtension)
+    if (!targetExtension) {
+      errors.push(this.createError(
+        'unknown_target',
+        statement.range,
+        'error',
+        `Target Data Extension ${target.dataExtension} was not found in the provided schema`,
+        'sql-unknown-data-extension',
+        'semantic',
+        'Check the target Data Extension name of the query activity'
+      ))
+      return errors
+    }
+
+    const cores = sqlSelectCores(statement.query)
+    const outputs = cores.map(core => schema.outputColumns(core))
+    const columns = outputs[0]
+    if (!columns) return errors
+
+    columns.forEach((column, index) => {
+      if (!column.name) {
+        errors.push(this.createError(
+          'unnamed_column',
+          column.item.range,
+          'error',
+          `Column ${index + 1} has no name and cannot be mapped to ${targetExtension.name}`,
+          'sfmc-sql-target-field',
+          'semantic',
+          'Alias the expression with the name of a target field'
+        ))
+        return
+      }
+
+      const targetField = schema.catalog.field(targetExtension, column.name)
+      if (!targetField) {
+        errors.push(this.createError(
+          'target_field',
+          column.item.range,
+          'error',
+          `Column ${column.name} does not exist in target Data Extension ${targetExtension.name}`,
+          'sfmc-sql-target-field',
+          'semantic',
+          `Alias the column to a field of ${targetExtension.name} or add the field`
+        ))
+        return
+      }
+
+      // Check Text values that may not fit the target field
+      const targetLength = DataExtensionCatalog.fieldLength(targetField)
+      if (targetLength === undefined || this.typeFamily(targetField.fieldType) !== 'text') return
+
+      outputs.forEach(output => {
+        const source = output?.[index]
+        const sourceLength = source?.info?.maxLength
+        if (!source?.info?.fieldType || this.typeFamily(source.info.fieldType) !== 'text' || sourceLength === undefined) return
+        if (sourceLength <= targetLength) return
+
+        errors.push(this.createError(
+          'target_length',
+          source.item.range,
+          'warning',
+          `${column.name} can hold ${sourceLength} characters but ${targetExtension.name}.${targetField.name} allows ${targetLength} - longer values fail the query`,
+          'sfmc-sql-target-length',
+          'semantic',
+          `Use LEFT(${column.name}, ${targetLength}) or increase the length of ${targetField.name}`
+        ))
       })
+    })
+
+    // Check that the primary key is populated and unique
+    const primaryKey = schema.catalog.primaryKey(targetExtension)
+    if (primaryKey.length === 0) return errors
+
+    const outputNames = columns.map(column => column.name?.toLowerCase())
+    const missing = primaryKey.filter(field => !outputNames.includes(field.name.toLowerCase()))
+
+    if (missing.length > 0) {
+      errors.push(this.createError(
+        'target_primary_key',
+        cores[0].keywordRange,
+        'error',
+        `Primary key field${missing.length > 1 ? 's' : ''} ${missing.map(field => field.name).join(', ')} of ${targetExtension.name} ${missing.length > 1 ? 'are' : 'is'} not populated by the query`,
+        'sfmc-sql-target-primary-key',
+        'semantic',
+        'Select a value for every primary key field of the target Data Extension'
+      ))
+    } else if (!schema.isUniqueOn(statement.query, primaryKey.map(field => field.name))) {
+      const keyColumn = columns.find(column => column.name && this.sameName(column.name, primaryKey[0].name))!
+      errors.push(this.createError(
+        'target_primary_key',
+        keyColumn.item.range,
+        'warning',
+        `Rows may share the same primary key (${primaryKey.map(field => field.name).join(', ')}) in ${targetExtension.name} - duplicate keys fail the query`,
+        'sfmc-sql-target-primary-key',
+        'semantic',
+        `Deduplicate with GROUP BY or ROW_NUMBER() OVER (PARTITION BY ${primaryKey.map(field => field.name).join(', ')} ORDER BY ...) = 1`
+      ))
     }
 
     return errors
   }
 
-  private analyzeSelectPerformance(line: string, lineNumber: number): DebugError[] {
+  private analyzeSelectPerformance(analysis: SqlAnalysis): DebugError[] {
     const issues: DebugError[] = []
-    const upperLine = line.toUpperCase()
 
     // Check for DISTINCT usage
-    if (upperLine.includes('SELECT DISTINCT')) {
-      issues.push({
-        id: `distinct_performance_${lineNumber}`,
-        line: lineNumber,
-        column: upperLine.indexOf('DISTINCT') + 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'DISTINCT can be expensive - ensure it\'s necessary',
-        rule: 'sql-distinct-performance',
-        category: 'performance',
-        fixSuggestion: 'Verify DISTINCT is necessary or use GROUP BY if appropriate'
-      })
-    }
+    analysis.scopes.forEach(({ core, kind }) => {
+      if (core.distinct && kind !== 'exists') {
+        issues.push(this.createError(
+          'distinct_performance',
+          core.keywordRange,
+          'warning',
+          'DISTINCT can be expensive - ensure it\'s necessary',
+          'sql-distinct-performance',
+          'performance',
+          'Verify DISTINCT is necessary or use GROUP BY if appropriate'
+        ))
+      }
+    })
 
     return issues
   }
 
-  private analyzeJoinPerformance(line: string, lineNumber: number): DebugError[] {
+  private analyzeJoinPerformance(analysis: SqlAnalysis): DebugError[] {
     const issues: DebugError[] = []
-    const upperLine = line.toUpperCase()
 
     // Check for Cartesian products
-    if (upperLine.includes('CROSS JOIN')) {
-      issues.push({
-        id: `cartesian_product_${lineNumber}`,
-        line: lineNumber,
-        column: upperLine.indexOf('CROSS JOIN') + 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'CROSS JOIN creates Cartesian product - ensure this is intentional',
-        rule: 'sql-cartesian-product',
-        category: 'performance',
-        fixSuggestion: 'Verify CROSS JOIN is intentional or add proper JOIN conditions'
+    analysis.scopes.forEach(({ core }) => {
+      sqlJoins(core.from).forEach(join => {
+        if (join.joinType === 'CROSS') {
+          issues.push(this.createError(
+            'cartesian_product',
+            join.keywordRange,
+            'warning',
+            'CROSS JOIN creates Cartesian product - ensure this is intentional',
+            'sql-cartesian-product',
+            'performance',
+            'Verify CROSS JOIN is intentional or add proper JOIN conditions'
+          ))
+        }
       })
-    }
+    })
 
     return issues
   }
 
-  private analyzeWherePerformance(line: string, lineNumber: number): DebugError[] {
+  private analyzeWherePerformance(analysis: SqlAnalysis): DebugError[] {
     const issues: DebugError[] = []
-    const upperLine = line.toUpperCase()
-
-    // Check for functions in WHERE clause
-    if (upperLine.includes('WHERE') && 
-        (upperLine.includes('UPPER(') || upperLine.includes('LOWER(') || 
-         upperLine.includes('SUBSTRING(') || upperLine.includes('LEFT('))) {
-      
-      issues.push({
-        id: `function_in_where_${lineNumber}`,
-        line: lineNumber,
-        column: 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Functions in WHERE clause can prevent index usage',
-        rule: 'sql-function-in-where',
-        category: 'performance',
-        fixSuggestion: 'Consider restructuring to avoid functions on indexed columns'
-      })
-    }
 
-    // Check for LIKE with leading wildcard
-    if (upperLine.includes('LIKE') && line.includes("'%")) {
-      issues.push({
-        id: `leading_wildcard_${lineNumber}`,
-        line: lineNumber,
-        column: line.indexOf("'%") + 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'LIKE with leading wildcard cannot use indexes efficiently',
-        rule: 'sql-leading-wildcard',
-        category: 'performance',
-        fixSuggestion: 'Avoid leading wildcards in LIKE patterns when possible'
-      })
-    }
+    analysis.scopes.forEach(scope => {
+      const filters = sqlScopeExpressions(scope).filter(({ clause }) => clause === 'where' || clause === 'join')
+
+      filters.forEach(({ expression }) => {
+        walkSqlExpression(expression, (node, parents) => {
+          // Check for functions wrapping a column in a predicate
+          this.predicateOperands(node).forEach(operand => {
+            if (operand.type === 'Function' && this.containsColumn(operand)) {
+              issues.push(this.createError(
+                'function_in_where',
+                operand.range,
+                'warning',
+                'Functions in WHERE clause can prevent index usage',
+                'sql-function-in-where',
+                'performance',
+                'Consider restructuring to avoid functions on indexed columns'
+              ))
+            }
+          })
 
-    return issues
-  }
+          // Check for LIKE with leading wildcard
+          if (node.type === 'Binary' && node.operator.endsWith('LIKE') &&
+              node.right.type === 'Literal' && node.right.value.startsWith('%')) {
+            issues.push(this.createError(
+              'leading_wildcard',
+              node.right.range,
+              'warning',
+              'LIKE with leading wildcard cannot use indexes efficiently',
+              'sql-leading-wildcard',
+              'performance',
+              'Avoid leading wildcards in LIKE patterns when possible'
+            ))
+          }
 
-  private analyzeIndexingOpportunities(line: string, lineNumber: number): DebugError[] {
-    const issues: DebugError[] = []
-    const upperLine = line.toUpperCase()
-
-    // Check for WHERE clauses that could benefit from indexes
-    if (upperLine.includes('WHERE') && !upperLine.includes('INDEX')) {
-      issues.push({
-        id: `indexing_opportunity_${lineNumber}`,
-        line: lineNumber,
-        column: 1,
-        severity: 'info' as ErrorSeverity,
-        message: 'Consider indexing columns used in WHERE clause for better performance',
-        rule: 'sql-indexing-opportunity',
-        category: 'performance',
-        fixSuggestion: 'Create indexes on frequently queried columns'
+          // Check for NOT IN
+          if (node.type === 'In' && node.negated) {
+            issues.push(this.createError(
+              'sfmc_performance_not_in',
+              node.range,
+              'warning',
+              'NOT IN can be inefficient with large datasets',
+              'sfmc-performance-optimization',
+              'performance',
+              'Consider using NOT EXISTS or LEFT JOIN with NULL check'
+            ))
+          }
+
+          // Check for OR conditions, once per chain
+          const parent = parents[parents.length - 1]
+          if (node.type === 'Binary' && node.operator === 'OR' && !(parent?.type === 'Binary' && parent.operator === 'OR')) {
+            issues.push(this.createError(
+              'sfmc_performance_or',
+              node.operatorRange,
+              'warning',
+              'OR conditions can prevent index usage',
+              'sfmc-performance-optimization',
+              'performance',
+              'Consider using IN, UNION ALL or restructuring the query'
+            ))
+          }
+        })
       })
-    }
+
+      // Check for WHERE clauses that could benefit from indexes
+      if (scope.core.where) {
+        issues.push(this.createError(
+          'indexing_opportunity',
+          scope.core.where.range,
+          'info',
+          'Consider indexing columns used in WHERE clause for better performance',
+          'sql-indexing-opportunity',
+          'performance',
+          'Make frequently filtered columns part of the Data Extension primary key'
+        ))
+      }
+    })
 
     return issues
   }
 
-  private analyzeQueryComplexity(line: string, lineNumber: number): DebugError[] {
+  private analyzeQueryComplexity(analysis: SqlAnalysis): DebugError[] {
     const issues: DebugError[] = []
-    
+    const reported = new Set<number>()
+
     // Count nested subqueries
-    const subqueryCount = (line.match(/\(SELECT/gi) || []).length
-    if (subqueryCount > 2) {
-      issues.push({
-        id: `complex_query_${lineNumber}`,
-        line: lineNumber,
-        column: 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Complex nested queries can be hard to maintain and optimize',
-        rule: 'sql-query-complexity',
-        category: 'performance',
-        fixSuggestion: 'Consider breaking complex query into simpler parts or using CTEs'
-      })
-    }
+    analysis.scopes.forEach(scope => {
+      if (scope.depth > 2 && !reported.has(scope.statementIndex)) {
+        reported.add(scope.statementIndex)
+        issues.push(this.createError(
+          'complex_query',
+          scope.core.keywordRange,
+          'warning',
+          'Complex nested queries can be hard to maintain and optimize',
+          'sql-query-complexity',
+          'performance',
+          'Consider breaking complex query into simpler parts or using CTEs'
+        ))
+      }
+    })
 
     return issues
   }
 
-  private analyzeOverallPerformance(code: string): DebugError[] {
+  private analyzeSFMCPerformance(analysis: SqlAnalysis): DebugError[] {
     const issues: DebugError[] = []
-    const upperCode = code.toUpperCase()
-
-    // Check for missing LIMIT/TOP in potentially large result sets
-    if (upperCode.includes('SELECT') && !upperCode.includes('LIMIT') && 
-        !upperCode.includes('TOP') && !upperCode.includes('WHERE')) {
-      
-      issues.push({
-        id: 'missing_limit',
-        line: 1,
-        column: 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Query without WHERE clause or LIMIT may return large result sets',
-        rule: 'sql-missing-limit',
-        category: 'performance',
-        fixSuggestion: 'Add WHERE clause or LIMIT to control result set size'
+
+    analysis.scopes.forEach(scope => {
+      const { core } = scope
+      const systemTables = scope.sources.filter(source =>
+        source.node.type === 'Table' && this.isSystemTable(source.node.name)
+      )
+
+      // Check for missing TOP/WHERE in potentially large result sets
+      if (scope.kind === 'statement' && core.from.length > 0 && !core.where && !core.top) {
+        issues.push(this.createError(
+          'missing_limit',
+          core.keywordRange,
+          'warning',
+          'Query without WHERE clause or TOP may return large result sets',
+          'sql-missing-limit',
+          'performance',
+          'Add WHERE clause or TOP to control result set size'
+        ))
+      }
+
+      // Check for system table usage without proper filtering
+      if (!core.where && !core.top) {
+        systemTables.forEach(source => {
+          issues.push(this.createError(
+            'system_table_no_filter',
+            source.node.range,
+            'warning',
+            `System table ${(source.node as SqlTableReference).name} should include WHERE clause or TOP to limit results`,
+            'sfmc-system-table-filtering',
+            'performance',
+            `Add WHERE clause or TOP clause when querying ${(source.node as SqlTableReference).name}`
+          ))
+        })
+      }
+
+      if (!core.where) return
+
+      const filterColumns: SqlColumnRef[] = []
+      let usesDateAdd = false
+      walkSqlExpression(core.where, node => {
+        if (node.type === 'Column') filterColumns.push(node)
+        if (node.type === 'Function' && node.name === 'DATEADD') usesDateAdd = true
       })
-    }
+
+      // Check for inefficient date filtering on system tables
+      const eventDate = filterColumns.find(column => this.sameName(column.name, 'EventDate'))
+      if (systemTables.length > 0 && eventDate && !usesDateAdd) {
+        issues.push(this.createError(
+          'inefficient_date_filter',
+          eventDate.range,
+          'warning',
+          'Consider using DATEADD for date range filtering on system tables',
+          'sfmc-date-filtering',
+          'performance',
+          'Use DATEADD(DAY, -30, GETDATE()) for relative date filtering'
+        ))
+      }
+
+      // Check for subscriber key vs email address usage
+      const emailAddress = filterColumns.find(column => this.sameName(column.name, 'EmailAddress'))
+      if (emailAddress && !filterColumns.some(column => this.sameName(column.name, 'SubscriberKey'))) {
+        issues.push(this.createError(
+          'email_vs_subscriber_key',
+          emailAddress.range,
+          'info',
+          'Consider using SubscriberKey instead of EmailAddress for better performance',
+          'sfmc-subscriber-key-usage',
+          'performance',
+          'Use SubscriberKey when possible as it is the primary key'
+        ))
+      }
+    })
+
+    // Check for UNION where UNION ALL would avoid the duplicate sort
+    analysis.setOperations.forEach(operation => {
+      if (operation.operator === 'UNION') {
+        issues.push(this.createError(
+          'sfmc_performance_union',
+          operation.operatorRange,
+          'warning',
+          'UNION removes duplicates with an extra sort step',
+          'sfmc-performance-optimization',
+          'performance',
+          'Use UNION ALL when the combined rows cannot overlap or duplicates are acceptable'
+        ))
+      }
+    })
 
     return issues
   }
 
-  private suggestQueryOptimizations(line: string, lineNumber: number): OptimizationSuggestion[] {
+  private suggestQueryOptimizations(analysis: SqlAnalysis): OptimizationSuggestion[] {
     const suggestions: OptimizationSuggestion[] = []
-    const upperLine = line.toUpperCase()
+    const { code } = analysis
 
     // Suggest EXISTS instead of IN with subquery
-    if (upperLine.includes('IN (SELECT')) {
+    this.forEachExpression(analysis, node => {
+      if (node.type !== 'In' || !node.query || node.negated || node.query.type !== 'SelectCore') return
+
+      const inner = node.query
+      if (inner.columns.length !== 1 || inner.from.length === 0) return
+
+      const conditions = [
+        ...(inner.where ? [sliceRange(code, inner.where.range)] : []),
+        `${sliceRange(code, inner.columns[0].expression.range)} = ${sliceRange(code, node.expression.range)}`
+      ]
+
       suggestions.push({
-        id: `exists_instead_of_in_${lineNumber}`,
+        id: `exists_instead_of_in_${node.range.start.line}`,
         type: 'performance',
         title: 'Use EXISTS instead of IN with subquery',
         description: 'EXISTS can be more efficient than IN with subqueries',
         impact: 'medium',
         effort: 'low',
-        beforeCode: line.trim(),
-        afterCode: line.replace(/IN \(SELECT/gi, 'EXISTS (SELECT 1 FROM'),
+        beforeCode: sliceRange(code, node.range),
+        afterCode: `EXISTS (SELECT 1 FROM ${sliceRange(code, this.spanOf(inner.from))} WHERE ${conditions.join(' AND ')})`,
         estimatedImprovement: '10-30% performance improvement'
       })
-    }
+    })
 
     return suggestions
   }
 
-  private suggestIndexingStrategies(line: string, lineNumber: number): OptimizationSuggestion[] {
+  private suggestIndexingStrategies(analysis: SqlAnalysis): OptimizationSuggestion[] {
     const suggestions: OptimizationSuggestion[] = []
-    const upperLine = line.toUpperCase()
+    const { code } = analysis
 
     // Suggest composite indexes for multi-column WHERE clauses
-    if (upperLine.includes('WHERE') && (line.match(/AND/gi) || []).length > 1) {
-      suggestions.push({
-        id: `composite_index_${lineNumber}`,
-        type: 'performance',
-        title: 'Consider composite index for multi-column WHERE clause',
-        description: 'Composite indexes can improve performance for multi-column filters',
-        impact: 'high',
-        effort: 'medium',
-        beforeCode: line.trim(),
-        afterCode: '-- CREATE INDEX idx_composite ON table (col1, col2, col3)',
-        estimatedImprovement: '50-80% query performance improvement'
+    analysis.scopes.forEach(({ core }) => {
+      if (!core.where) return
+
+      const columns = new Set<string>()
+      this.conjuncts(core.where).forEach(condition => {
+        this.predicateOperands(condition).forEach(operand => {
+          if (operand.type === 'Column') columns.add(operand.name)
+        })
       })
-    }
+
+      if (columns.size > 2) {
+        suggestions.push({
+          id: `composite_index_${core.where.range.start.line}`,
+          type: 'performance',
+          title: 'Consider composite index for multi-column WHERE clause',
+          description: 'Composite indexes can improve performance for multi-column filters',
+          impact: 'high',
+          effort: 'medium',
+          beforeCode: sliceRange(code, core.where.range),
+          afterCode: `-- Make (${Array.from(columns).join(', ')}) part of the Data Extension primary key`,
+          estimatedImprovement: '50-80% query performance improvement'
+        })
+      }
+    })
 
     return suggestions
   }
 
-  private suggestQueryRewrites(line: string, lineNumber: number): OptimizationSuggestion[] {
+  private suggestQueryRewrites(analysis: SqlAnalysis): OptimizationSuggestion[] {
     const suggestions: OptimizationSuggestion[] = []
-    const upperLine = line.toUpperCase()
+    const { code } = analysis
 
     // Suggest CTE for complex subqueries
-    if ((line.match(/\(SELECT/gi) || []).length > 1) {
-      suggestions.push({
-        id: `cte_suggestion_${lineNumber}`,
-        type: 'readability',
-        title: 'Consider using Common Table Expression (CTE)',
-        description: 'CTEs can improve readability and maintainability of complex queries',
-        impact: 'medium',
-        effort: 'medium',
-        beforeCode: line.trim(),
-        afterCode: 'WITH cte_name AS (SELECT ...) SELECT ... FROM cte_name',
-        estimatedImprovement: 'Improved query readability and maintainability'
-      })
-    }
+    analysis.parse.script.statements.forEach((statement, index) => {
+      const nested = analysis.scopes.filter(scope =>
+        scope.statementIndex === index && (scope.kind === 'subquery' || scope.kind === 'derived')
+      )
+
+      if (nested.length > 1) {
+        suggestions.push({
+          id: `cte_suggestion_${statement.range.start.line}`,
+          type: 'readability',
+          title: 'Consider using Common Table Expression (CTE)',
+          description: 'CTEs can improve readability and maintainability of complex queries',
+          impact: 'medium',
+          effort: 'medium',
+          beforeCode: sliceRange(code, statement.range),
+          afterCode: 'WITH cte_name AS (SELECT ...) SELECT ... FROM cte_name',
+          estimatedImprovement: 'Improved query readability and maintainability'
+        })
+      }
+    })
 
     return suggestions
   }
 
-  private suggestPerformanceImprovements(line: string, lineNumber: number): OptimizationSuggestion[] {
+  private suggestPerformanceImprovements(analysis: SqlAnalysis): OptimizationSuggestion[] {
     const suggestions: OptimizationSuggestion[] = []
-    
+    const { code } = analysis
+
     // Suggest specific column selection instead of SELECT *
-    if (line.toUpperCase().includes('SELECT *')) {
+    analysis.scopes.forEach(({ core, kind }) => {
+      if (kind === 'exists' || !core.columns.some(item => item.expression.type === 'Star')) return
+
       suggestions.push({
-        id: `specific_columns_${lineNumber}`,
+        id: `specific_columns_${core.range.start.line}`,
         type: 'performance',
         title: 'Select specific columns instead of SELECT *',
         description: 'Selecting only needed columns reduces data transfer and improves performance',
         impact: 'medium',
         effort: 'low',
-        beforeCode: line.trim(),
+        beforeCode: sliceRange(code, core.range),
         afterCode: 'SELECT col1, col2, col3 FROM table',
         estimatedImprovement: '20-40% performance improvement'
       })
-    }
+    })
 
     return suggestions
   }
 
-  private applyFix(line: string, error: DebugError): string {
-    switch (error.rule) {
-      case 'sql-semicolon':
-        return line.trim() + ';'
-      case 'sql-select-star':
-        return line.replace(/SELECT \*/gi, 'SELECT col1, col2 /* specify columns */')
-      case 'sql-injection-risk':
-        return '-- ' + line + ' -- SECURITY: Use parameterized queries'
-      default:
-        return line
+  private removeIntoFix(code: string, target: SourceRange): CodeFix | undefined {
+    const keyword = /\bINTO\s+$/i.exec(code.slice(0, target.start.offset))
+    if (!keyword) return undefined
+
+    const lineIndex = new LineIndex(code)
+    return {
+      // The rows go to the query activity target instead, which has to be set up
+      kind: 'unsafe',
+      description: 'Remove the INTO clause',
+      edits: [rangeEdit(lineIndex.rangeOf(keyword.index, target.end.offset), '')]
     }
   }
 
-  private hasNonAggregateColumnsInSelect(code: string): boolean {
-    // Simplified check - would need more sophisticated parsing for accuracy
-    const selectMatch = code.match(/SELECT\s+(.*?)\s+FROM/i)
-    if (!selectMatch) return false
-    
-    const selectClause = selectMatch[1]
-    const hasNonAggregate = !this.AGGREGATE_FUNCTIONS.every(func => 
-      !selectClause.toUpperCase().includes(func + '(')
-    )
-    
-    return hasNonAggregate && selectClause.includes(',')
+  private forEachExpression(analysis: SqlAnalysis, visit: (node: SqlExpression) => void): void {
+    analysis.scopes.forEach(scope => {
+      sqlScopeExpressions(scope).forEach(({ expression }) => walkSqlExpression(expression, visit))
+    })
   }
 
-  private isKnownTable(tableName: string): boolean {
-    return this.SFMC_SYSTEM_TABLES.includes(tableName)
+  private ungroupedColumns(
+    expression: SqlExpression,
+    grouped: Set<string>,
+    groupedNames: Set<string>,
+    code: string
+  ): SqlColumnRef[] {
+    if (grouped.has(this.normalize(code, expression.range))) return []
+    if (expression.type === 'Function' && this.isAggregate(expression)) return []
+    if (expression.type === 'Column') {
+      return groupedNames.has(expression.name.toLowerCase()) ? [] : [expression]
+    }
+    return sqlExpressionChildren(expression).flatMap(child => this.ungroupedColumns(child, grouped, groupedNames, code))
   }
 
-  private validateSFMCSpecificRules(line: string, lineNumber: number): DebugError[] {
-    const errors: DebugError[] = []
-    const upperLine = line.toUpperCase()
-
-    // Check for system table usage without proper filtering
-    this.SFMC_SYSTEM_TABLES.forEach(table => {
-      if (upperLine.includes(table.toUpperCase()) && upperLine.includes('SELECT') && 
-          !upperLine.includes('WHERE') && !upperLine.includes('TOP')) {
-        errors.push({
-          id: `system_table_no_filter_${lineNumber}`,
-          line: lineNumber,
-          column: upperLine.indexOf(table.toUpperCase()) + 1,
-          severity: 'warning' as ErrorSeverity,
-          message: `System table ${table} should include WHERE clause or TOP to limit results`,
-          rule: 'sfmc-system-table-filtering',
-          category: 'performance',
-          fixSuggestion: `Add WHERE clause or TOP clause when querying ${table}`
-        })
-      }
+  private containsAggregate(expression: SqlExpression): boolean {
+    let found = false
+    walkSqlExpression(expression, node => {
+      if (node.type === 'Function' && this.isAggregate(node)) found = true
     })
+    return found
+  }
 
-    // Check for inefficient date filtering on system tables
-    if (upperLine.includes('_') && upperLine.includes('WHERE') && 
-        upperLine.includes('EVENTDATE') && !upperLine.includes('DATEADD')) {
-      errors.push({
-        id: `inefficient_date_filter_${lineNumber}`,
-        line: lineNumber,
-        column: 1,
-        severity: 'warning' as ErrorSeverity,
-        message: 'Consider using DATEADD for date range filtering on system tables',
-        rule: 'sfmc-date-filtering',
-        category: 'performance',
-        fixSuggestion: 'Use DATEADD(DAY, -30, GETDATE()) for relative date filtering'
-      })
-    }
+  private containsColumn(expression: SqlExpression): boolean {
+    let found = false
+    walkSqlExpression(expression, node => {
+      if (node.type === 'Column') found = true
+    })
+    return found
+  }
 
-    // Check for subscriber key vs email address usage
-    if (upperLine.includes('EMAILADDRESS') && upperLine.includes('WHERE') && 
-        !upperLine.includes('SUBSCRIBERKEY')) {
-      errors.push({
-        id: `email_vs_subscriber_key_${lineNumber}`,
-        line: lineNumber,
-        column: upperLine.indexOf('EMAILADDRESS') + 1,
-        severity: 'info' as ErrorSeverity,
-        message: 'Consider using SubscriberKey instead of EmailAddress for better performance',
-        rule: 'sfmc-subscriber-key-usage',
-        category: 'performance',
-        fixSuggestion: 'Use SubscriberKey when possible as it is the primary key'
-      })
+  private isAggregate(node: SqlFunctionCall): boolean {
+    return this.AGGREGATE_FUNCTIONS.includes(node.name) && !node.over
+  }
+
+  private isSystemTable(name: string): boolean {
+    return this.SYSTEM_TABLES.has(name.toLowerCase())
+  }
+
+  /**
+   * Splits a condition on its top-level ANDs
+   */
+  private conjuncts(expression: SqlExpression): SqlExpression[] {
+    if (expression.type === 'Binary' && expression.operator === 'AND') {
+      return [...this.conjuncts(expression.left), ...this.conjuncts(expression.right)]
     }
+    return [expression]
+  }
 
-    return errors
+  /**
+   * Returns the operands compared by a predicate node, or nothing for other nodes
+   */
+  private predicateOperands(node: SqlExpression): SqlExpression[] {
+    switch (node.type) {
+      case 'Binary':
+        return COMPARISON_OPERATORS.includes(node.operator) || node.operator.endsWith('LIKE') ? [node.left, node.right] : []
+      case 'In':
+        return [node.expression]
+      case 'Between':
+        return [node.expression]
+      case 'IsNull':
+        return [node.expression]
+      default:
+        return []
+    }
   }
 
-  private analyzeSFMCPerformance(line: string, lineNumber: number): DebugError[] {
-    const issues: DebugError[] = []
-    const upperLine = line.toUpperCase()
-
-    // Check for performance anti-patterns
-    this.PERFORMANCE_ANTI_PATTERNS.forEach(pattern => {
-      if (upperLine.includes(pattern)) {
-        let severity: ErrorSeverity = 'warning'
-        let message = `Performance concern: ${pattern} detected`
-        let suggestion = 'Consider alternative approaches'
-
-        switch (pattern) {
-          case 'SELECT *':
-            message = 'SELECT * can impact performance in SFMC'
-            suggestion = 'Specify only needed columns'
-            break
-          case 'LIKE \'%':
-            message = 'Leading wildcard LIKE patterns cannot use indexes'
-            suggestion = 'Avoid leading wildcards when possible'
-            severity = 'error'
-            break
-          case 'NOT IN':
-            message = 'NOT IN can be inefficient with large datasets'
-            suggestion = 'Consider using NOT EXISTS or LEFT JOIN with NULL check'
-            break
-          case 'OR ':
-            message = 'OR conditions can prevent index usage'
-            suggestion = 'Consider using UNION or restructuring the query'
-            break
-        }
+  /**
+   * Lists the value pairs a predicate compares, or nothing for other nodes
+   */
+  private comparedPairs(node: SqlExpression): Array<[SqlExpression, SqlExpression]> {
+    switch (node.type) {
+      case 'Binary':
+        return COMPARISON_OPERATORS.includes(node.operator) ? [[node.left, node.right]] : []
+      case 'In':
+        return node.values.map(value => [node.expression, value] as [SqlExpression, SqlExpression])
+      case 'Between':
+        return [[node.expression, node.low], [node.expression, node.high]]
+      default:
+        return []
+    }
+  }
 
-        issues.push({
-          id: `sfmc_performance_${lineNumber}_${pattern.replace(/[^a-zA-Z0-9]/g, '_')}`,
-          line: lineNumber,
-          column: upperLine.indexOf(pattern) + 1,
-          severity,
-          message,
-          rule: 'sfmc-performance-optimization',
-          category: 'performance',
-          fixSuggestion: suggestion
-        })
+  private typeMismatch(
+    left: SqlExpression,
+    leftType: SqlColumnInfo,
+    right: SqlExpression,
+    rightType: SqlColumnInfo
+  ): { severity: ErrorSeverity, message: string } | undefined {
+    const leftFamily = this.typeFamily(leftType.fieldType)
+    const rightFamily = this.typeFamily(rightType.fieldType)
+    if (!leftFamily || !rightFamily || leftFamily === rightFamily) return undefined
+
+    const [literal, other, otherType] = right.type === 'Literal' ? [right, left, leftType] : [left, right, rightType]
+    const described = other.type === 'Column' ? other.name : 'the expression'
+
+    if (literal.type === 'Literal' && literal.kind === 'string') {
+      const convertible =
+        (this.typeFamily(otherType.fieldType) === 'number' && /^-?\d+(\.\d+)?$/.test(literal.value.trim())) ||
+        (otherType.fieldType === 'Date' && !isNaN(Date.parse(literal.value))) ||
+        (otherType.fieldType === 'Boolean' && /^(true|false|1|0)$/i.test(literal.value))
+      if (convertible) return undefined
+      return {
+        severity: 'error',
+        message: `'${literal.value}' cannot be converted to ${otherType.fieldType} to compare with ${described}`
       }
-    })
+    }
 
-    return issues
+    if (literal.type === 'Literal' && otherType.fieldType === 'Boolean' && /^[01]$/.test(literal.value)) {
+      return undefined
+    }
+
+    return {
+      severity: 'warning',
+      message: `Comparing ${leftType.fieldType} with ${rightType.fieldType} relies on implicit conversion`
+    }
+  }
+
+  private typeFamily(fieldType?: SqlFieldType): 'text' | 'number' | 'date' | 'boolean' | undefined {
+    switch (fieldType) {
+      case 'Text':
+      case 'EmailAddress':
+      case 'Phone':
+        return 'text'
+      case 'Number':
+      case 'Decimal':
+        return 'number'
+      case 'Date':
+        return 'date'
+      case 'Boolean':
+        return 'boolean'
+      default:
+        return undefined
+    }
+  }
+
+  private spanOf(nodes: Array<{ range: SourceRange }>): SourceRange {
+    return { start: nodes[0].range.start, end: nodes[nodes.length - 1].range.end }
+  }
+
+  private normalize(code: string, range: SourceRange): string {
+    return sliceRange(code, range).replace(/\s+/g, '').toLowerCase()
+  }
+
+  private sameName(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase()
+  }
+
+  private createError(
+    idPrefix: string,
+    range: SourceRange,
+    severity: ErrorSeverity,
+    message: string,
+    rule: string,
+    category: ErrorCategory,
+    fixSuggestion?: string,
+    fix?: CodeFix
+  ): DebugError {
+    return {
+      id: `${idPrefix}_${range.start.line}_${range.start.column}`,
+      ...rangeToLocation(range),
+      severity,
+      message,
+      rule,
+      category,
+      fixSuggestion,
+      fix
+    }
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,7 @@
 import { LanguageValidator, DebugError, OptimizationSuggestion, ErrorSeverity } from '../../../types/debugging'
+import { lineEdit } from '../parsers/source-text'
+import { FixEngine } from '../fix-engine'
+import { analyzeTaint } from '../taint-analysis'
 
 export class SSJSValidator implements LanguageValidator {
   private readonly SSJS_CORE_FUNCTIONS = [
@@ -25,6 +28,10 @@ export class SSJSValidator implements LanguageValidator {
     'Rows.Retrieve', 'WSProxy.retrieve', 'HTTP.Get', 'Platform.Function.ContentBlockByName'
   ]
 
+  private readonly fixEngine = new FixEngine()
+
+  readonly structureRules = ['ssjs-brace-matching', 'ssjs-paren-matching']
+
   async validateSyntax(code: string): Promise<DebugError[]> {
     const errors: DebugError[] = []
     const lines = code.split('\n')
@@ -58,6 +65,10 @@ export class SSJSValidator implements LanguageValidator {
     return errors
   }
 
+  async validateStructure(code: string): Promise<DebugError[]> {
+    return this.validateBlockStructure(code)
+  }
+
   async validateSemantics(code: string): Promise<DebugError[]> {
     const errors: DebugError[] = []
     const lines = code.split('\n')
@@ -95,6 +106,9 @@ export class SSJSValidator implements LanguageValidator {
     // Check for unused variables
     errors.push(...this.validateUnusedVariables(declaredVariables, usedVariables))
 
+    // Follow request parameters and attributes to unsafe output, redirects, HTTP posts, filters and SQL
+    errors.push(...analyzeTaint(code, 'ssjs'))
+
     return errors
   }
 
@@ -167,20 +181,8 @@ export class SSJSValidator implements LanguageValidator {
   }
 
   async generateFixedCode(code: string, errors: DebugError[]): Promise<string> {
-    let fixedCode = code
-    const lines = fixedCode.split('\n')
-
-    // Sort errors by line number in descending order
-    const sortedErrors = errors.sort((a, b) => b.line - a.line)
-
-    for (const error of sortedErrors) {
-      if (error.fixSuggestion && error.line <= lines.length) {
-        const lineIndex = error.line - 1
-        lines[lineIndex] = this.applyFix(lines[lineIndex], error)
-      }
-    }
-
-    return lines.join('\n')
+    const result = await this.fixEngine.fixCode(code, errors, this)
+    return result.code
   }
 
   private validateScriptTags(line: string, lineNumber: number): DebugError[] {
@@ -188,15 +190,21 @@ export class SSJSValidator implements LanguageValidator {
     
     // Check for proper script tag
     if (line.includes('<script') && !line.includes('runat="server"')) {
+      const column = line.indexOf('<script') + 1
       errors.push({
         id: `script_tag_${lineNumber}`,
         line: lineNumber,
-        column: line.indexOf('<script') + 1,
+        column,
         severity: 'error' as ErrorSeverity,
         message: 'SSJS requires runat="server" attribute in script tag',
         rule: 'ssjs-script-tag',
         category: 'syntax',
-        fixSuggestion: 'Add runat="server" to script tag'
+        fixSuggestion: 'Add runat="server" to script tag',
+        fix: {
+          kind: 'safe',
+          description: 'Add runat="server"',
+          edits: [lineEdit(lineNumber, column + 7, column + 7, ' runat="server"')]
+        }
       })
     }
 
@@ -229,7 +237,12 @@ export class SSJSValidator implements LanguageValidator {
         message: 'Missing semicolon at end of statement',
         rule: 'ssjs-semicolon',
         category: 'syntax',
-        fixSuggestion: 'Add semicolon at end of line'
+        fixSuggestion: 'Add semicolon at end of line',
+        fix: {
+          kind: 'safe',
+          description: 'Add a semicolon',
+          edits: [lineEdit(lineNumber, line.trimEnd().length + 1, line.trimEnd().length + 1, ';')]
+        }
       })
     }
 
@@ -323,15 +336,21 @@ export class SSJSValidator implements LanguageValidator {
     
     // Check for proper object initialization
     if (line.includes('new DataExtension(')) {
+      const column = line.indexOf('new DataExtension(') + 1
       errors.push({
         id: `de_constructor_${lineNumber}`,
         line: lineNumber,
-        column: line.indexOf('new DataExtension') + 1,
+        column,
         severity: 'error' as ErrorSeverity,
         message: 'Use DataExtension.Init() instead of new DataExtension()',
         rule: 'ssjs-de-constructor',
         category: 'semantic',
-        fixSuggestion: 'Replace with DataExtension.Init("DataExtensionName");'
+        fixSuggestion: 'Replace with DataExtension.Init("DataExtensionName");',
+        fix: {
+          kind: 'safe',
+          description: 'Use DataExtension.Init()',
+          edits: [lineEdit(lineNumber, column, column + 'new DataExtension('.length, 'DataExtension.Init(')]
+        }
       })
     }
 
@@ -343,7 +362,9 @@ export class SSJSValidator implements LanguageValidator {
     
     // Check for assignment in conditions
     const ifPattern = /if\s*\(\s*\w+\s*=\s*[^=]/i
-    if (ifPattern.test(line)) {
+    const assignment = ifPattern.exec(line)
+    if (assignment) {
+      const operator = assignment.index + assignment[0].indexOf('=') + 1
       errors.push({
         id: `assignment_in_condition_${lineNumber}`,
         line: lineNumber,
@@ -352,7 +373,13 @@ export class SSJSValidator implements LanguageValidator {
         message: 'Use == for comparison, not = (assignment) in if conditions',
         rule: 'ssjs-comparison',
         category: 'syntax',
-        fixSuggestion: 'Replace = with == for comparison'
+        fixSuggestion: 'Replace = with == for comparison',
+        fix: {
+          // Turns an assignment into a comparison, which changes what the code does
+          kind: 'unsafe',
+          description: 'Replace = with ==',
+          edits: [lineEdit(lineNumber, operator, operator + 1, '==')]
+        }
       })
     }
 
@@ -901,21 +928,6 @@ export class SSJSValidator implements LanguageValidator {
     return suggestions
   }
 
-  private applyFix(line: string, error: DebugError): string {
-    switch (error.rule) {
-      case 'ssjs-semicolon':
-        return line.trim() + ';'
-      case 'ssjs-comparison':
-        return line.replace(/=\s*([^=])/g, '== $1')
-      case 'ssjs-script-tag':
-        return line.replace('<script', '<script runat="server"')
-      case 'ssjs-de-constructor':
-        return line.replace(/new DataExtension\(/g, 'DataExtension.Init(')
-      default:
-        return line
-    }
-  }
-
   private isKnownObject(name: string): boolean {
     return this.SSJS_OBJECTS.some(obj => name.startsWith(obj))
   }
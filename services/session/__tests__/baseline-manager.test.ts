@@ -0,0 +1,65 @@
+import { BaselineManager, baselineOwner } from '../baseline-manager';
+import { AnalysisBaseline } from '../../../types/debugging';
+import { UserSession } from '../../../types/session';
+
+jest.mock('redis', () => require('./in-memory-redis'), { virtual: true });
+
+// Mock logger
+jest.mock('../../../utils/logging/logger', () => ({
+  Logger: jest.fn(() => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }))
+}));
+
+const baseline = (analysisId: string): AnalysisBaseline => ({
+  assetKey: 'asset-42',
+  language: 'cloudpage',
+  analysisId,
+  createdAt: '2026-10-01T00:00:00.000Z',
+  entries: [{ fingerprint: 'a1b2c3d4e5f60718', kind: 'best_practice', rule: 'ssjs-try-catch', message: 'Wrap in try/catch', line: 12 }]
+});
+
+describe('BaselineManager', () => {
+  let manager: BaselineManager;
+  let mockRedisClient: any;
+
+  beforeEach(() => {
+    const { createClient } = require('redis');
+    mockRedisClient = createClient();
+    mockRedisClient.store.clear();
+    manager = new BaselineManager();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should replace the baseline of an asset when it is captured again', async () => {
+    await manager.saveBaseline('user:user_1', baseline('first'));
+    await manager.saveBaseline('user:user_1', baseline('second'));
+
+    expect(await manager.getBaseline('user:user_1', 'asset-42')).toMatchObject({ analysisId: 'second', entries: [{ rule: 'ssjs-try-catch' }] });
+    expect(mockRedisClient.setEx).toHaveBeenCalledWith('analysis_baseline:user:user_1:asset-42', 365 * 24 * 60 * 60, expect.any(String));
+    expect(await manager.getBaseline('user:user_1', 'asset-7')).toBeNull();
+  });
+
+  it('should keep the baselines of different owners apart', async () => {
+    await manager.saveBaseline('user:user_1', baseline('first'));
+
+    expect(await manager.getBaseline('session:sess_2', 'asset-42')).toBeNull();
+    expect(await manager.deleteBaseline('session:sess_2', 'asset-42')).toBe(false);
+    expect(baselineOwner({ sessionId: 'sess_2', userId: 'user_1' } as UserSession)).toBe('user:user_1');
+    expect(baselineOwner({ sessionId: 'sess_2' } as UserSession)).toBe('session:sess_2');
+  });
+
+  it('should delete a baseline', async () => {
+    await manager.saveBaseline('user:user_1', baseline('first'));
+
+    expect(await manager.deleteBaseline('user:user_1', 'asset-42')).toBe(true);
+    expect(await manager.deleteBaseline('user:user_1', 'asset-42')).toBe(false);
+    expect(await manager.getBaseline('user:user_1', 'asset-42')).toBeNull();
+  });
+});
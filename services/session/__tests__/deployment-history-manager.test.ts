@@ -0,0 +1,107 @@
+import { DeploymentHistoryManager } from '../deployment-history-manager';
+import { DeploymentRecord } from '../../../types/sfmc';
+
+jest.mock('redis', () => require('./in-memory-redis'), { virtual: true });
+
+// Mock logger
+jest.mock('../../../utils/logging/logger', () => ({
+  Logger: jest.fn(() => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }))
+}));
+
+const deployment = (deploymentId: string, content: string, connectionId = 'conn-1'): Omit<DeploymentRecord, 'version'> => ({
+  deploymentId,
+  assetKey: 'landing',
+  kind: 'deploy',
+  connectionId,
+  deployedAt: '2026-10-01T00:00:00.000Z',
+  previous: { assetId: '301', customerKey: 'landing', content: '<p>before</p>', metadata: { name: 'Landing' } },
+  deployed: { assetId: '301', customerKey: 'landing', content, metadata: { name: 'Landing' } }
+});
+
+describe('DeploymentHistoryManager', () => {
+  let manager: DeploymentHistoryManager;
+  let mockRedisClient: any;
+
+  beforeEach(() => {
+    const { createClient } = require('redis');
+    mockRedisClient = createClient();
+    mockRedisClient.store.clear();
+    manager = new DeploymentHistoryManager();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should number the deployments of an asset in order', async () => {
+    const first = await manager.recordDeployment(deployment('deploy_1', '<p>one</p>'));
+    const second = await manager.recordDeployment(deployment('deploy_2', '<p>two</p>'));
+
+    expect([first.version, second.version]).toEqual([1, 2]);
+    expect((await manager.getHistory('conn-1', 'landing')).map(record => record.deploymentId)).toEqual(['deploy_1', 'deploy_2']);
+    expect(mockRedisClient.setEx).toHaveBeenCalledWith('deployment_history:conn-1:landing', 365 * 24 * 60 * 60, expect.any(String));
+    expect(await manager.getHistory('conn-1', 'other')).toEqual([]);
+  });
+
+  it('should keep separate histories for the same key on other connections', async () => {
+    await manager.recordDeployment(deployment('deploy_1', '<p>one</p>'));
+    const other = await manager.recordDeployment(deployment('deploy_2', '<p>two</p>', 'conn-2'));
+
+    expect(other.version).toBe(1);
+    expect((await manager.getHistory('conn-1', 'landing')).map(record => record.deploymentId)).toEqual(['deploy_1']);
+    expect(await manager.getDeployment('deploy_2')).toMatchObject({ connectionId: 'conn-2', version: 1 });
+  });
+
+  it('should discard a deployment from the history', async () => {
+    await manager.recordDeployment(deployment('deploy_1', '<p>one</p>'));
+    await manager.recordDeployment(deployment('deploy_2', '<p>two</p>'));
+
+    await manager.discardDeployment('deploy_2');
+
+    expect((await manager.getHistory('conn-1', 'landing')).map(record => record.deploymentId)).toEqual(['deploy_1']);
+    expect(await manager.getDeployment('deploy_2')).toBeNull();
+  });
+
+  it('should look up a deployment by id and mark it as rolled back', async () => {
+    await manager.recordDeployment(deployment('deploy_1', '<p>one</p>'));
+
+    expect(await manager.getDeployment('deploy_1')).toMatchObject({ version: 1, deployed: { content: '<p>one</p>' } });
+    expect(await manager.getDeployment('deploy_9')).toBeNull();
+
+    const rolledBack = { at: '2026-10-02T00:00:00.000Z', reason: 'Broken layout', deploymentId: 'rollback_1' };
+    await manager.markRolledBack('deploy_1', rolledBack);
+
+    expect(await manager.getDeployment('deploy_1')).toMatchObject({ rolledBack });
+  });
+
+  it('should keep only the most recent deployments of an asset', async () => {
+    for (let index = 1; index <= 52; index++) {
+      await manager.recordDeployment(deployment(`deploy_${index}`, `<p>${index}</p>`));
+    }
+
+    const history = await manager.getHistory('conn-1', 'landing');
+    expect(history).toHaveLength(50);
+    expect(history[0].version).toBe(3);
+    expect(history[49].version).toBe(52);
+  });
+
+  it('should number deployments recorded at the same time one after another', async () => {
+    const records = await Promise.all([1, 2, 3].map(index => manager.recordDeployment(deployment(`deploy_${index}`, `<p>${index}</p>`))));
+
+    expect(records.map(record => record.version).sort()).toEqual([1, 2, 3]);
+    expect(await manager.getHistory('conn-1', 'landing')).toHaveLength(3);
+  });
+
+  it('should surface storage failures when recording', async () => {
+    mockRedisClient.setEx.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+    await expect(manager.recordDeployment(deployment('deploy_1', '<p>one</p>'))).rejects.toMatchObject({
+      code: 'DEPLOYMENT_HISTORY_STORAGE_FAILED'
+    });
+  });
+});
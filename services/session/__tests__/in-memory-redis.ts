@@ -0,0 +1,65 @@
+// In-memory Redis client shared by the session manager tests. The redis
+// package is not installed with the project, so the tests mock it as a
+// virtual module:
+//
+//   jest.mock('redis', () => require('./in-memory-redis'), { virtual: true });
+
+const store = new Map<string, string>();
+// Bumped on every write, so a transaction can tell whether a watched key changed
+const writes = new Map<string, number>();
+
+export class WatchError extends Error {}
+
+const client = {
+  store,
+  connect: jest.fn(),
+  get: jest.fn(async (key: string) => store.get(key) ?? null),
+  setEx: jest.fn(async (key: string, _ttl: number, value: string) => {
+    store.set(key, value);
+    writes.set(key, (writes.get(key) ?? 0) + 1);
+    return 'OK';
+  }),
+  del: jest.fn(async (key: string) => {
+    writes.set(key, (writes.get(key) ?? 0) + 1);
+    return Number(store.delete(key));
+  }),
+  mGet: jest.fn(async (keys: string[]) => keys.map(key => store.get(key) ?? null)),
+  executeIsolated: jest.fn(async <T>(run: (isolatedClient: any) => Promise<T>) => run(isolatedClient())),
+  quit: jest.fn()
+};
+
+// WATCH and MULTI on a connection of its own
+function isolatedClient() {
+  const watched = new Map<string, number>();
+
+  return {
+    get: client.get,
+    watch: jest.fn(async (key: string) => {
+      watched.set(key, writes.get(key) ?? 0);
+      return 'OK';
+    }),
+    multi: () => {
+      const queued: Array<() => Promise<unknown>> = [];
+      const transaction = {
+        setEx: (key: string, ttl: number, value: string) => {
+          queued.push(() => client.setEx(key, ttl, value));
+          return transaction;
+        },
+        del: (key: string) => {
+          queued.push(() => client.del(key));
+          return transaction;
+        },
+        exec: async () => {
+          if (Array.from(watched).some(([key, version]) => (writes.get(key) ?? 0) !== version)) {
+            throw new WatchError('One (or more) of the watched keys has been changed');
+          }
+          // The commands write synchronously, so nothing runs in between
+          return Promise.all(queued.map(command => command()));
+        }
+      };
+      return transaction;
+    }
+  };
+}
+
+export const createClient = jest.fn(() => client);
@@ -0,0 +1,95 @@
+import { RulePackManager } from '../rule-pack-manager';
+import { RulePackError } from '../../debugging/rule-packs';
+
+jest.mock('redis', () => require('./in-memory-redis'), { virtual: true });
+
+// Mock logger
+jest.mock('../../../utils/logging/logger', () => ({
+  Logger: jest.fn(() => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }))
+}));
+
+const pack = (message: string, id = 'acme') => JSON.stringify({
+  id,
+  name: 'ACME conventions',
+  rules: [{ id: 'no-eval', pattern: 'eval\\(', languages: ['ssjs'], category: 'security', severity: 'error', message }]
+});
+
+const yamlPack = `id: acme
+name: ACME conventions
+rules:
+  - id: no-eval
+    pattern: eval\\(
+    languages: [ssjs]
+    category: security
+    severity: warning
+    message: From the user pack
+`;
+
+describe('RulePackManager', () => {
+  let manager: RulePackManager;
+  let mockRedisClient: any;
+
+  beforeEach(() => {
+    const { createClient } = require('redis');
+    mockRedisClient = createClient();
+    mockRedisClient.store.clear();
+    manager = new RulePackManager();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should add a version for every upload of a pack and activate it', async () => {
+    await manager.uploadRulePack('session', 'sess_1', pack('First'));
+    const stored = await manager.uploadRulePack('session', 'sess_1', pack('Second'));
+
+    expect(stored.activeVersion).toBe(2);
+    expect(stored.versions.map(version => version.format)).toEqual(['json', 'json']);
+    expect((await manager.getActiveRulePacks('sess_1'))[0].rules[0].message).toBe('Second');
+    expect(mockRedisClient.setEx).toHaveBeenCalledWith('rule_packs:sess_1', 30 * 24 * 60 * 60, expect.any(String));
+  });
+
+  it('should roll back to an earlier version', async () => {
+    await manager.uploadRulePack('session', 'sess_1', pack('First'));
+    await manager.uploadRulePack('session', 'sess_1', pack('Second'));
+
+    expect(await manager.activateVersion('session', 'sess_1', 'acme', 1)).toMatchObject({ activeVersion: 1 });
+    expect((await manager.getActiveRulePacks('sess_1'))[0].rules[0].message).toBe('First');
+    expect(await manager.activateVersion('session', 'sess_1', 'acme', 5)).toBeNull();
+  });
+
+  it('should prefer the user pack over the session pack with the same id', async () => {
+    await manager.uploadRulePack('session', 'sess_1', pack('From the session pack'));
+    await manager.uploadRulePack('session', 'sess_1', pack('Other pack', 'other'));
+    const stored = await manager.uploadRulePack('user', 'user_1', yamlPack);
+
+    expect(stored.versions[0].format).toBe('yaml');
+    expect(mockRedisClient.setEx).toHaveBeenCalledWith('user_rule_packs:user_1', 3 * 30 * 24 * 60 * 60, expect.any(String));
+
+    const active = await manager.getActiveRulePacks('sess_1', 'user_1');
+    expect(active.map(rulePack => [rulePack.id, rulePack.rules[0].message])).toEqual([
+      ['acme', 'From the user pack'],
+      ['other', 'Other pack']
+    ]);
+    expect(await manager.getActiveRulePacks('sess_2')).toEqual([]);
+  });
+
+  it('should reject invalid packs without storing them', async () => {
+    await expect(manager.uploadRulePack('session', 'sess_1', '{ "id": "acme" }')).rejects.toThrow(RulePackError);
+    expect(await manager.listRulePacks('session', 'sess_1')).toEqual([]);
+  });
+
+  it('should delete a pack with all its versions', async () => {
+    await manager.uploadRulePack('session', 'sess_1', pack('First'));
+
+    expect(await manager.deleteRulePack('session', 'sess_1', 'acme')).toBe(true);
+    expect(await manager.deleteRulePack('session', 'sess_1', 'acme')).toBe(false);
+    expect(mockRedisClient.del).toHaveBeenCalledWith('rule_packs:sess_1');
+  });
+});
@@ -0,0 +1,89 @@
+import { createClient, RedisClientType } from 'redis';
+import { AnalysisBaseline } from '../../types/debugging';
+import { UserSession } from '../../types/session';
+import { ErrorType } from '../../types/errors';
+import { ErrorFactory } from '../../utils/errors/error-factory';
+import { Logger } from '../../utils/logging/logger';
+
+/**
+ * Owner of the baselines a session reads and writes: its user when signed
+ * in, since baselines outlive sessions, and otherwise the session itself
+ */
+export function baselineOwner(session: UserSession): string {
+  return session.userId ? `user:${session.userId}` : `session:${session.sessionId}`;
+}
+
+/**
+ * Stores the analysis baseline of each asset of an owner. Capturing a
+ * baseline again replaces the previous one.
+ */
+export class BaselineManager {
+  private redisClient: RedisClientType;
+  private logger: Logger;
+  private readonly BASELINE_PREFIX = 'analysis_baseline:';
+  // Baselines describe legacy code that may not be touched for months
+  private readonly BASELINE_TTL = 365 * 24 * 60 * 60; // 1 year in seconds
+
+  constructor() {
+    this.redisClient = createClient({
+      url: process.env.REDIS_URL || 'redis://localhost:6379'
+    });
+    this.logger = new Logger('BaselineManager');
+    this.initializeRedisConnection();
+  }
+
+  private async initializeRedisConnection(): Promise<void> {
+    try {
+      await this.redisClient.connect();
+      this.logger.info('Redis connection established for BaselineManager');
+    } catch (error) {
+      this.logger.error('Failed to connect to Redis', error);
+    }
+  }
+
+  async saveBaseline(ownerId: string, baseline: AnalysisBaseline): Promise<void> {
+    try {
+      await this.redisClient.setEx(this.key(ownerId, baseline.assetKey), this.BASELINE_TTL, JSON.stringify(baseline));
+      this.logger.info(`Baseline with ${baseline.entries.length} issues saved for asset: ${baseline.assetKey}`);
+    } catch (error) {
+      this.logger.error(`Failed to store baseline for asset: ${baseline.assetKey}`, error);
+      throw ErrorFactory.createApplicationError(
+        ErrorType.DATABASE_ERROR,
+        'Baseline storage failed',
+        'BASELINE_STORAGE_FAILED'
+      );
+    }
+  }
+
+  async getBaseline(ownerId: string, assetKey: string): Promise<AnalysisBaseline | null> {
+    try {
+      const data = await this.redisClient.get(this.key(ownerId, assetKey));
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      this.logger.error(`Failed to get baseline for asset: ${assetKey}`, error);
+      return null;
+    }
+  }
+
+  async deleteBaseline(ownerId: string, assetKey: string): Promise<boolean> {
+    try {
+      return (await this.redisClient.del(this.key(ownerId, assetKey))) > 0;
+    } catch (error) {
+      this.logger.error(`Failed to delete baseline for asset: ${assetKey}`, error);
+      return false;
+    }
+  }
+
+  private key(ownerId: string, assetKey: string): string {
+    return `${this.BASELINE_PREFIX}${ownerId}:${assetKey}`;
+  }
+
+  async cleanup(): Promise<void> {
+    try {
+      await this.redisClient.quit();
+      this.logger.info('Redis connection closed for BaselineManager');
+    } catch (error) {
+      this.logger.error('Failed to close Redis connection', error);
+    }
+  }
+}
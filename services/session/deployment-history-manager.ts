@@ -0,0 +1,174 @@
+import { createClient, RedisClientType, WatchError } from 'redis';
+import { DeploymentRecord } from '../../types/sfmc';
+import { ErrorType } from '../../types/errors';
+import { ErrorFactory } from '../../utils/errors/error-factory';
+import { Logger } from '../../utils/logging/logger';
+
+/**
+ * Stores the deployments of each asset with the content they replaced,
+ * so a deployment can be rolled back to exactly what was there before.
+ * Histories are kept per connection, as customer keys are only unique
+ * within one account.
+ */
+export class DeploymentHistoryManager {
+  private redisClient: RedisClientType;
+  private logger: Logger;
+  private readonly HISTORY_PREFIX = 'deployment_history:';
+  private readonly DEPLOYMENT_PREFIX = 'deployment_asset:';
+  private readonly HISTORY_TTL = 365 * 24 * 60 * 60; // 1 year in seconds
+  // Older deployments are dropped; their versions can no longer be restored
+  private readonly MAX_DEPLOYMENTS_PER_ASSET = 50;
+  // Concurrent writes to the same history are retried this often
+  private readonly MAX_UPDATE_ATTEMPTS = 5;
+
+  constructor() {
+    this.redisClient = createClient({
+      url: process.env.REDIS_URL || 'redis://localhost:6379'
+    });
+    this.logger = new Logger('DeploymentHistoryManager');
+    this.initializeRedisConnection();
+  }
+
+  private async initializeRedisConnection(): Promise<void> {
+    try {
+      await this.redisClient.connect();
+      this.logger.info('Redis connection established for DeploymentHistoryManager');
+    } catch (error) {
+      this.logger.error('Failed to connect to Redis', error);
+    }
+  }
+
+  /**
+   * Append a deployment to the history of its asset as the next version
+   */
+  async recordDeployment(deployment: Omit<DeploymentRecord, 'version'>): Promise<DeploymentRecord> {
+    try {
+      let record!: DeploymentRecord;
+      await this.updateHistory(deployment, (history, transaction) => {
+        record = {
+          ...deployment,
+          version: (history[history.length - 1]?.version ?? 0) + 1
+        };
+        transaction.setEx(
+          this.deploymentKey(record.deploymentId),
+          this.HISTORY_TTL,
+          JSON.stringify({ connectionId: record.connectionId, assetKey: record.assetKey })
+        );
+        return [...history, record].slice(-this.MAX_DEPLOYMENTS_PER_ASSET);
+      });
+
+      this.logger.info(`Deployment ${record.deploymentId} recorded as version ${record.version} of asset: ${record.assetKey}`);
+      return record;
+    } catch (error) {
+      this.logger.error(`Failed to record deployment for asset: ${deployment.assetKey}`, error);
+      throw ErrorFactory.createApplicationError(
+        ErrorType.DATABASE_ERROR,
+        'Deployment history storage failed',
+        'DEPLOYMENT_HISTORY_STORAGE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Deployments of an asset through a connection, oldest first
+   */
+  async getHistory(connectionId: string, assetKey: string): Promise<DeploymentRecord[]> {
+    try {
+      const data = await this.redisClient.get(this.historyKey(connectionId, assetKey));
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      this.logger.error(`Failed to get deployment history for asset: ${assetKey}`, error);
+      return [];
+    }
+  }
+
+  async getDeployment(deploymentId: string): Promise<DeploymentRecord | null> {
+    try {
+      const data = await this.redisClient.get(this.deploymentKey(deploymentId));
+      if (!data) return null;
+
+      const { connectionId, assetKey } = JSON.parse(data);
+      const history = await this.getHistory(connectionId, assetKey);
+      return history.find(record => record.deploymentId === deploymentId) ?? null;
+    } catch (error) {
+      this.logger.error(`Failed to get deployment: ${deploymentId}`, error);
+      return null;
+    }
+  }
+
+  async markRolledBack(deploymentId: string, rolledBack: NonNullable<DeploymentRecord['rolledBack']>): Promise<void> {
+    const deployment = await this.getDeployment(deploymentId);
+    if (!deployment) return;
+
+    try {
+      await this.updateHistory(deployment, history =>
+        history.map(record => record.deploymentId === deploymentId ? { ...record, rolledBack } : record)
+      );
+    } catch (error) {
+      this.logger.error(`Failed to mark deployment as rolled back: ${deploymentId}`, error);
+    }
+  }
+
+  /**
+   * Remove a deployment whose write to SFMC failed after it was recorded
+   */
+  async discardDeployment(deploymentId: string): Promise<void> {
+    const deployment = await this.getDeployment(deploymentId);
+    if (!deployment) return;
+
+    try {
+      await this.updateHistory(deployment, (history, transaction) => {
+        transaction.del(this.deploymentKey(deploymentId));
+        return history.filter(record => record.deploymentId !== deploymentId);
+      });
+    } catch (error) {
+      this.logger.error(`Failed to discard deployment: ${deploymentId}`, error);
+    }
+  }
+
+  /**
+   * Read, change and write the history of an asset in one transaction.
+   * The history key is watched, so a write by another deployment in
+   * between aborts the transaction and the update runs again on the
+   * history that deployment left.
+   */
+  private async updateHistory(
+    { connectionId, assetKey }: Pick<DeploymentRecord, 'connectionId' | 'assetKey'>,
+    update: (history: DeploymentRecord[], transaction: ReturnType<RedisClientType['multi']>) => DeploymentRecord[]
+  ): Promise<void> {
+    const key = this.historyKey(connectionId, assetKey);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.redisClient.executeIsolated(async isolatedClient => {
+          await isolatedClient.watch(key);
+          const data = await isolatedClient.get(key);
+          const transaction = isolatedClient.multi();
+          const history = update(data ? JSON.parse(data) : [], transaction);
+          await transaction.setEx(key, this.HISTORY_TTL, JSON.stringify(history)).exec();
+        });
+        return;
+      } catch (error) {
+        if (!(error instanceof WatchError) || attempt >= this.MAX_UPDATE_ATTEMPTS) throw error;
+        this.logger.warn(`Deployment history of asset ${assetKey} changed during an update, retrying`);
+      }
+    }
+  }
+
+  private historyKey(connectionId: string, assetKey: string): string {
+    return `${this.HISTORY_PREFIX}${connectionId}:${assetKey}`;
+  }
+
+  private deploymentKey(deploymentId: string): string {
+    return `${this.DEPLOYMENT_PREFIX}${deploymentId}`;
+  }
+
+  async cleanup(): Promise<void> {
+    try {
+      await this.redisClient.quit();
+      this.logger.info('Redis connection closed for DeploymentHistoryManager');
+    } catch (error) {
+      this.logger.error('Failed to close Redis connection', error);
+    }
+  }
+}
@@ -2,6 +2,8 @@ import { createClient, RedisClientType } from 'redis';
 import { UserPreferences, FormattingOptions } from '../../types/session';
 import { ErrorFactory } from '../../utils/errors/error-factory';
 import { Logger } from '../../utils/logging/logger';
+import { RuleConfigurationSchema } from '../debugging/rule-config';
+import { FormattingOptionsSchema } from '../debugging/code-formatter';
 
 export class PreferencesManager {
   private redisClient: RedisClientType;
@@ -209,6 +211,14 @@ export class PreferencesManager {
     if (preferences.codeFormatting) {
       this.validateFormattingOptions(preferences.codeFormatting);
     }
+
+    if (preferences.ruleConfig !== undefined) {
+      const ruleConfig = RuleConfigurationSchema.safeParse(preferences.ruleConfig);
+      if (!ruleConfig.success) {
+        const issue = ruleConfig.error.issues[0];
+        throw ErrorFactory.createValidationError(`Invalid rule configuration at ${issue.path.join('.')}: ${issue.message}`);
+      }
+    }
   }
 
   private validateFormattingOptions(formatting: FormattingOptions): void {
@@ -223,6 +233,12 @@ export class PreferencesManager {
     if (formatting.trimTrailingWhitespace !== undefined && typeof formatting.trimTrailingWhitespace !== 'boolean') {
       throw ErrorFactory.createValidationError('trimTrailingWhitespace must be a boolean');
     }
+
+    const styles = FormattingOptionsSchema.safeParse(formatting);
+    if (!styles.success) {
+      const issue = styles.error.issues[0];
+      throw ErrorFactory.createValidationError(`Invalid formatting options at ${issue.path.join('.')}: ${issue.message}`);
+    }
   }
 
   private getDefaultPreferences(): UserPreferences {
@@ -0,0 +1,153 @@
+import { createClient, RedisClientType } from 'redis';
+import { RulePack, RulePackScope, StoredRulePack } from '../../types/debugging';
+import { ErrorType } from '../../types/errors';
+import { ErrorFactory } from '../../utils/errors/error-factory';
+import { Logger } from '../../utils/logging/logger';
+import { parseRulePack, RulePackFormat } from '../debugging/rule-packs';
+
+/**
+ * Stores the custom best practice rule packs of a session or a user. Every
+ * upload of a pack adds a version and makes it the active one; earlier
+ * versions can be activated again.
+ */
+export class RulePackManager {
+  private redisClient: RedisClientType;
+  private logger: Logger;
+  private readonly RULE_PACKS_PREFIX = 'rule_packs:';
+  private readonly USER_RULE_PACKS_PREFIX = 'user_rule_packs:';
+  private readonly DEFAULT_TTL = 30 * 24 * 60 * 60; // 30 days in seconds
+  private readonly MAX_VERSIONS = 20;
+
+  constructor() {
+    this.redisClient = createClient({
+      url: process.env.REDIS_URL || 'redis://localhost:6379'
+    });
+    this.logger = new Logger('RulePackManager');
+    this.initializeRedisConnection();
+  }
+
+  private async initializeRedisConnection(): Promise<void> {
+    try {
+      await this.redisClient.connect();
+      this.logger.info('Redis connection established for RulePackManager');
+    } catch (error) {
+      this.logger.error('Failed to connect to Redis', error);
+    }
+  }
+
+  /**
+   * Parses an uploaded pack and stores it as the newest version of the pack
+   * with the same id. Throws RulePackError when the pack is invalid.
+   */
+  async uploadRulePack(scope: RulePackScope, ownerId: string, content: string, format?: RulePackFormat): Promise<StoredRulePack> {
+    const parsed = parseRulePack(content, format);
+    const packs = await this.loadRulePacks(scope, ownerId);
+
+    let stored = packs.find(pack => pack.id === parsed.pack.id);
+    if (!stored) {
+      stored = { id: parsed.pack.id, scope, activeVersion: 0, versions: [] };
+      packs.push(stored);
+    }
+
+    const version = Math.max(0, ...stored.versions.map(entry => entry.version)) + 1;
+    stored.versions = [
+      ...stored.versions,
+      { version, uploadedAt: new Date().toISOString(), format: parsed.format, pack: parsed.pack }
+    ].slice(-this.MAX_VERSIONS);
+    stored.activeVersion = version;
+
+    await this.storeRulePacks(scope, ownerId, packs);
+    this.logger.info(`Rule pack ${stored.id} version ${version} uploaded for ${scope}: ${ownerId}`);
+    return stored;
+  }
+
+  async listRulePacks(scope: RulePackScope, ownerId: string): Promise<StoredRulePack[]> {
+    return this.loadRulePacks(scope, ownerId);
+  }
+
+  // Returns null when the pack or version does not exist
+  async activateVersion(scope: RulePackScope, ownerId: string, id: string, version: number): Promise<StoredRulePack | null> {
+    const packs = await this.loadRulePacks(scope, ownerId);
+    const stored = packs.find(pack => pack.id === id);
+    if (!stored || !stored.versions.some(entry => entry.version === version)) {
+      return null;
+    }
+
+    stored.activeVersion = version;
+    await this.storeRulePacks(scope, ownerId, packs);
+    return stored;
+  }
+
+  async deleteRulePack(scope: RulePackScope, ownerId: string, id: string): Promise<boolean> {
+    const packs = await this.loadRulePacks(scope, ownerId);
+    const remaining = packs.filter(pack => pack.id !== id);
+    if (remaining.length === packs.length) {
+      return false;
+    }
+
+    await this.storeRulePacks(scope, ownerId, remaining);
+    return true;
+  }
+
+  /**
+   * Active versions of the session's and the user's packs. A user pack
+   * replaces the session pack with the same id.
+   */
+  async getActiveRulePacks(sessionId: string, userId?: string): Promise<RulePack[]> {
+    const sessionPacks = await this.loadRulePacks('session', sessionId);
+    const userPacks = userId ? await this.loadRulePacks('user', userId) : [];
+
+    const active = new Map<string, RulePack>();
+    [...sessionPacks, ...userPacks].forEach(stored => {
+      const entry = stored.versions.find(version => version.version === stored.activeVersion);
+      if (entry) {
+        active.set(stored.id, entry.pack);
+      }
+    });
+    return Array.from(active.values());
+  }
+
+  private key(scope: RulePackScope, ownerId: string): string {
+    return scope === 'user' ? `${this.USER_RULE_PACKS_PREFIX}${ownerId}` : `${this.RULE_PACKS_PREFIX}${ownerId}`;
+  }
+
+  private async loadRulePacks(scope: RulePackScope, ownerId: string): Promise<StoredRulePack[]> {
+    try {
+      const data = await this.redisClient.get(this.key(scope, ownerId));
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      this.logger.error(`Failed to get rule packs for ${scope}: ${ownerId}`, error);
+      return [];
+    }
+  }
+
+  private async storeRulePacks(scope: RulePackScope, ownerId: string, packs: StoredRulePack[]): Promise<void> {
+    try {
+      const key = this.key(scope, ownerId);
+      if (packs.length === 0) {
+        await this.redisClient.del(key);
+        return;
+      }
+
+      // User rule packs have longer TTL
+      const ttl = scope === 'user' ? this.DEFAULT_TTL * 3 : this.DEFAULT_TTL;
+      await this.redisClient.setEx(key, ttl, JSON.stringify(packs));
+    } catch (error) {
+      this.logger.error(`Failed to store rule packs for ${scope}: ${ownerId}`, error);
+      throw ErrorFactory.createApplicationError(
+        ErrorType.DATABASE_ERROR,
+        'Rule pack storage failed',
+        'RULE_PACK_STORAGE_FAILED'
+      );
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    try {
+      await this.redisClient.quit();
+      this.logger.info('Redis connection closed for RulePackManager');
+    } catch (error) {
+      this.logger.error('Failed to close Redis connection', error);
+    }
+  }
+}
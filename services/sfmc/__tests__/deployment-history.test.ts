@@ -0,0 +1,96 @@
+// Deployment history tests
+
+import { assetVersions, diffDeploymentVersions, diffLines } from '../deployment-history'
+import { AssetSnapshot, DeploymentRecord } from '../../../types/sfmc'
+
+const snapshot = (content: string, name = 'Landing'): AssetSnapshot => ({
+  assetId: '301',
+  customerKey: 'landing',
+  content,
+  metadata: { name, assetType: { id: 205, name: 'webpage' } }
+})
+
+const history: DeploymentRecord[] = [
+  {
+    deploymentId: 'deploy_1_301',
+    assetKey: 'landing',
+    version: 1,
+    kind: 'deploy',
+    connectionId: 'c1',
+    deployedAt: '2026-10-01T08:00:00.000Z',
+    previous: snapshot('<h1>Hello</h1>\n<p>Old</p>'),
+    deployed: snapshot('<h1>Hello</h1>\n<p>New</p>\n<footer/>')
+  },
+  {
+    deploymentId: 'deploy_2_301',
+    assetKey: 'landing',
+    version: 2,
+    kind: 'deploy',
+    connectionId: 'c1',
+    deployedAt: '2026-10-02T08:00:00.000Z',
+    previous: snapshot('<h1>Hello</h1>\n<p>New</p>\n<footer/>'),
+    deployed: snapshot('<h1>Hi</h1>\n<p>New</p>\n<footer/>', 'Landing page')
+  }
+]
+
+describe('diffLines', () => {
+  it('should number the lines of both sides', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nc\nx\nd')).toEqual([
+      { type: 'unchanged', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'removed', text: 'b', oldLine: 2 },
+      { type: 'unchanged', text: 'c', oldLine: 3, newLine: 2 },
+      { type: 'added', text: 'x', newLine: 3 },
+      { type: 'unchanged', text: 'd', oldLine: 4, newLine: 4 }
+    ])
+  })
+
+  it('should find a minimal edit between unrelated texts', () => {
+    const lines = diffLines('a\nb\nc\na\nb\nb\na', 'c\nb\na\nb\na\nc')
+
+    expect(lines.filter(line => line.type !== 'unchanged')).toHaveLength(5)
+    expect(lines.filter(line => line.type !== 'added').map(line => line.text).join('\n')).toBe('a\nb\nc\na\nb\nb\na')
+    expect(lines.filter(line => line.type !== 'removed').map(line => line.text).join('\n')).toBe('c\nb\na\nb\na\nc')
+    expect(diffLines('same', 'same')).toEqual([{ type: 'unchanged', text: 'same', oldLine: 1, newLine: 1 }])
+  })
+
+  it('should show texts that differ in too many lines as replaced between their common lines', () => {
+    const page = (prefix: string) => ['<html>', ...Array.from({ length: 5000 }, (_, index) => `<p>${prefix}${index}</p>`), '</html>'].join('\n')
+
+    const lines = diffLines(page('old'), page('new'))
+
+    expect(lines).toHaveLength(10002)
+    expect(lines.map(line => line.type).filter((type, index, types) => type !== types[index - 1]))
+      .toEqual(['unchanged', 'removed', 'added', 'unchanged'])
+    expect(lines[lines.length - 1]).toEqual({ type: 'unchanged', text: '</html>', oldLine: 5002, newLine: 5002 })
+  })
+})
+
+describe('assetVersions', () => {
+  it('should list the content found before the first deployment as its own version', () => {
+    expect(assetVersions(history).map(version => [version.version, version.deploymentId, version.snapshot.content.split('\n')[0]])).toEqual([
+      [0, undefined, '<h1>Hello</h1>'],
+      [1, 'deploy_1_301', '<h1>Hello</h1>'],
+      [2, 'deploy_2_301', '<h1>Hi</h1>']
+    ])
+  })
+})
+
+describe('diffDeploymentVersions', () => {
+  it('should diff the content and metadata of two versions', () => {
+    const diff = diffDeploymentVersions(history, 0, 2)
+
+    expect(diff).toMatchObject({ assetKey: 'landing', fromVersion: 0, toVersion: 2, added: 3, removed: 2 })
+    expect(diff.lines.filter(line => line.type !== 'unchanged').map(line => `${line.type === 'added' ? '+' : '-'}${line.text}`)).toEqual([
+      '-<h1>Hello</h1>',
+      '-<p>Old</p>',
+      '+<h1>Hi</h1>',
+      '+<p>New</p>',
+      '+<footer/>'
+    ])
+    expect(diff.metadataChanges).toEqual([{ field: 'name', from: 'Landing', to: 'Landing page' }])
+  })
+
+  it('should reject versions the history does not have', () => {
+    expect(() => diffDeploymentVersions(history, 1, 5)).toThrow(expect.objectContaining({ message: 'Version 5 is not in the deployment history' }))
+  })
+})
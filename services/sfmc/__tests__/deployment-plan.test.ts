@@ -0,0 +1,77 @@
+// Deployment plan tests
+
+import { analysisLanguage, planDeployment, summarizePlan } from '../deployment-plan'
+import { AssetSnapshot, DeploymentPlanItem } from '../../../types/sfmc'
+import { DebugError } from '../../../types/debugging'
+
+const snapshot = (content: string, metadata: Record<string, any> = {}): AssetSnapshot => ({
+  assetId: '301',
+  customerKey: 'landing',
+  content,
+  metadata: { name: 'Landing', assetType: { id: 205, name: 'webpage' }, ...metadata }
+})
+
+const analysisError: DebugError = {
+  id: 'e1',
+  line: 2,
+  column: 1,
+  severity: 'error',
+  message: 'Unclosed AMPscript block',
+  rule: 'ampscript-syntax',
+  category: 'syntax'
+}
+
+describe('planDeployment', () => {
+  it('should plan a create with the whole content as additions', () => {
+    const item = planDeployment(0, snapshot('<h1>Hi</h1>\n<p>New</p>'), undefined, undefined, false)
+
+    expect(item).toMatchObject({ index: 0, assetKey: 'landing', name: 'Landing', assetType: 'webpage', action: 'create', blocked: false })
+    expect(item.assetId).toBeUndefined()
+    expect(item.diff).toMatchObject({ added: 2, removed: 0, metadataChanges: [] })
+    expect(item.diff.lines[1]).toEqual({ type: 'added', text: '<p>New</p>', newLine: 2 })
+  })
+
+  it('should plan an update with the diff against the live asset', () => {
+    const live = snapshot('<h1>Hi</h1>\n<p>Old</p>', { name: 'Old landing', description: 'Kept' })
+    const item = planDeployment(1, snapshot('<h1>Hi</h1>\n<p>New</p>'), live, undefined, false)
+
+    expect(item).toMatchObject({ action: 'update', assetId: '301', diff: { added: 1, removed: 1 } })
+    expect(item.diff.metadataChanges).toEqual([{ field: 'name', from: 'Old landing', to: 'Landing' }])
+  })
+
+  it('should plan unchanged when the live asset holds the same content and metadata', () => {
+    const live = snapshot('<h1>Hi</h1>', { assetType: { id: 205, name: 'webpage', displayName: 'Web Page' } })
+    const item = planDeployment(0, snapshot('<h1>Hi</h1>'), live, undefined, false)
+
+    expect(item.action).toBe('unchanged')
+    expect(item.diff).toMatchObject({ added: 0, removed: 0, metadataChanges: [] })
+  })
+
+  it('should block deployments with analysis errors unless overridden', () => {
+    const analysis = { language: 'cloudpage' as const, errors: [analysisError], warnings: [] }
+
+    expect(planDeployment(0, snapshot('%%[ SET @a = 1'), undefined, analysis, false).blocked).toBe(true)
+    expect(planDeployment(0, snapshot('%%[ SET @a = 1'), undefined, analysis, true).blocked).toBe(false)
+  })
+})
+
+describe('summarizePlan', () => {
+  const item = (action: DeploymentPlanItem['action'], blocked: boolean): DeploymentPlanItem =>
+    ({ ...planDeployment(0, snapshot(''), undefined, undefined, false), action, blocked })
+
+  it('should count the actions and only allow deploying without blocked items', () => {
+    const plan = summarizePlan('conn-1', [item('create', false), item('update', true), item('unchanged', false)], false)
+
+    expect(plan.summary).toEqual({ create: 1, update: 1, unchanged: 1, blocked: 1 })
+    expect(plan.canDeploy).toBe(false)
+    expect(summarizePlan('conn-1', [item('update', false)], true)).toMatchObject({ canDeploy: true, overrideErrors: true })
+  })
+})
+
+describe('analysisLanguage', () => {
+  it('should analyse cloud pages as documents and skip plain text', () => {
+    expect(analysisLanguage('webpage')).toBe('cloudpage')
+    expect(analysisLanguage('css')).toBe('css')
+    expect(analysisLanguage('text')).toBeUndefined()
+  })
+})
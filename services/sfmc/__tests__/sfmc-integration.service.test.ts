@@ -1,7 +1,10 @@
 // SFMC Integration Service tests
 
 import { SFMCIntegrationService } from '../sfmc-integration.service'
-import { SFMCCredentials } from '../../../types/sfmc'
+import { HttpClient } from '../../../utils/http/client'
+import type { DeploymentHistoryManager } from '../../session/deployment-history-manager'
+import type { SFMCDataCache } from '../../cache/sfmc-data-cache'
+import { DeploymentRecord, SFMCCredentials } from '../../../types/sfmc'
 
 describe('SFMCIntegrationService', () => {
   let service: SFMCIntegrationService
@@ -99,4 +102,321 @@ describe('SFMCIntegrationService', () => {
       expect(healthStatus.responseTime).toBeGreaterThanOrEqual(0)
     })
   })
+
+  describe('SOAP paging', () => {
+    let post: jest.SpyInstance
+
+    const page = (status: string, requestId: string, keys: string[]) => ({
+      data: `<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><soap:Body>
+        <RetrieveResponseMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+          <OverallStatus>${status}</OverallStatus>
+          <RequestID>${requestId}</RequestID>
+          ${keys.map(key => `<Results xsi:type="DataExtensionObject"><Properties><Property><Name>Key</Name><Value>${key}</Value></Property></Properties></Results>`).join('')}
+        </RetrieveResponseMsg></soap:Body></soap:Envelope>`,
+      status: 200,
+      statusText: 'OK',
+      headers: {}
+    })
+
+    beforeEach(async () => {
+      post = jest.spyOn(HttpClient.prototype, 'post')
+        .mockResolvedValueOnce({ data: { accessToken: 'token', expiresIn: 1200, tokenType: 'Bearer' }, status: 200, statusText: 'OK', headers: {} })
+      await service.initialize()
+      await service.authenticate({ clientId: 'client', clientSecret: 'secret', subdomain: 'mc123' })
+    })
+
+    afterEach(() => {
+      post.mockRestore()
+    })
+
+    it('should retrieve every page through the rate limit', async () => {
+      post
+        .mockResolvedValueOnce(page('MoreDataAvailable', 'page-1', ['a', 'b']))
+        .mockResolvedValueOnce(page('OK', 'page-2', ['c']))
+      const remaining = service.getRateLimitStatus().remaining
+
+      const keys: string[] = []
+      for await (const row of service.soapRetrieveAll({ action: 'Retrieve', objectType: 'DataExtensionObject[Members]', properties: { Key: true } })) {
+        keys.push(row.properties.Key)
+      }
+
+      expect(keys).toEqual(['a', 'b', 'c'])
+      expect(post.mock.calls[2][1]).toContain('<ContinueRequest>page-1</ContinueRequest>')
+      expect(service.getRateLimitStatus().remaining).toBe(remaining - 2)
+    })
+
+    it('should pass the abort signal to the page request', async () => {
+      const controller = new AbortController()
+      post.mockImplementationOnce(async (_url: string, _data: string, config: { signal: AbortSignal }) => {
+        expect(config.signal).toBe(controller.signal)
+        controller.abort()
+        throw new DOMException('This operation was aborted', 'AbortError')
+      })
+
+      const rows: unknown[] = []
+      for await (const row of service.soapRetrieveAll({ action: 'Retrieve', objectType: 'Subscriber' }, { signal: controller.signal })) {
+        rows.push(row)
+      }
+
+      expect(rows).toHaveLength(0)
+      expect(post).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('data extension schemas', () => {
+    const dataCache = {
+      getDataExtensions: jest.fn(),
+      cacheDataExtensions: jest.fn()
+    }
+    const dataExtension = (name: string) => ({ objectID: name, name, fields: [{ name: 'Email', fieldType: 'EmailAddress' }], rowCount: 10 })
+    const reply = (data: unknown) => ({ data, status: 200, statusText: 'OK', headers: {} })
+    let connectionId: string
+    let get: jest.SpyInstance
+
+    beforeEach(async () => {
+      service = new SFMCIntegrationService({}, { dataCache: dataCache as unknown as SFMCDataCache })
+      jest.spyOn(HttpClient.prototype, 'post')
+        .mockResolvedValueOnce(reply({ accessToken: 'token', expiresIn: 1200, tokenType: 'Bearer' }))
+      get = jest.spyOn(HttpClient.prototype, 'get')
+        .mockResolvedValueOnce(reply({ items: [dataExtension('Orders'), dataExtension('Subscribers')], count: 3 }))
+        .mockResolvedValueOnce(reply({ items: [dataExtension('Products')], count: 3 }))
+
+      await service.initialize()
+      connectionId = (await service.authenticate({ clientId: 'client', clientSecret: 'secret', subdomain: 'mc123' })).connectionId
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+      jest.resetAllMocks()
+    })
+
+    it('should load every page and cache the Data Extensions for the tenant', async () => {
+      dataCache.getDataExtensions.mockResolvedValueOnce(null)
+
+      const dataExtensions = await service.getDataExtensionSchemas(connectionId)
+
+      expect(dataExtensions.map(de => de.name)).toEqual(['Orders', 'Subscribers', 'Products'])
+      expect(get).toHaveBeenCalledTimes(2)
+      expect(dataCache.cacheDataExtensions).toHaveBeenCalledWith('mc123', dataExtensions)
+    })
+
+    it('should answer from the cache', async () => {
+      dataCache.getDataExtensions.mockResolvedValueOnce([dataExtension('Orders')])
+
+      expect(await service.getDataExtensionSchemas(connectionId)).toEqual([dataExtension('Orders')])
+      expect(get).not.toHaveBeenCalled()
+    })
+
+    it('should refuse connections other than the authenticated one', async () => {
+      await expect(service.getDataExtensionSchemas('other-connection'))
+        .rejects.toMatchObject({ code: 'AUTHORIZATION_FAILED' })
+      expect(dataCache.getDataExtensions).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deployments', () => {
+    const history = {
+      recordDeployment: jest.fn(),
+      discardDeployment: jest.fn(),
+      getDeployment: jest.fn(),
+      getHistory: jest.fn(),
+      markRolledBack: jest.fn()
+    }
+    const live = { id: 301, customerKey: "it's", name: 'Landing', content: '<p>live</p>' }
+    const cloudPage = { name: 'Landing', customerKey: "it's", content: { html: '<p>new</p>' } }
+    const reply = (data: unknown) => ({ data, status: 200, statusText: 'OK', headers: {} })
+    let connectionId: string
+    let get: jest.SpyInstance
+    let patch: jest.SpyInstance
+    let post: jest.SpyInstance
+
+    beforeEach(async () => {
+      service = new SFMCIntegrationService({}, { deploymentHistory: history as unknown as DeploymentHistoryManager })
+      post = jest.spyOn(HttpClient.prototype, 'post')
+        .mockResolvedValueOnce(reply({ accessToken: 'token', expiresIn: 1200, tokenType: 'Bearer' }))
+      get = jest.spyOn(HttpClient.prototype, 'get').mockResolvedValue(reply({ items: [live] }))
+      patch = jest.spyOn(HttpClient.prototype, 'patch').mockResolvedValue(reply({ id: 301 }))
+      history.recordDeployment.mockImplementation(async (deployment: Omit<DeploymentRecord, 'version'>) => ({ ...deployment, version: 2 }))
+
+      await service.initialize()
+      connectionId = (await service.authenticate({ clientId: 'client', clientSecret: 'secret', subdomain: 'mc123' })).connectionId
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+      jest.resetAllMocks()
+    })
+
+    it('should record the content it replaces before updating the asset', async () => {
+      const result = await service.deployCloudPage({ connectionId, cloudPage })
+
+      expect(result).toMatchObject({ success: true, version: 2 })
+      expect(get.mock.calls[0][0]).toContain("$filter=customerKey eq 'it''s'")
+      expect(history.recordDeployment).toHaveBeenCalledWith(expect.objectContaining({
+        deploymentId: expect.stringMatching(/^deploy_[0-9a-f-]{36}_301$/),
+        connectionId,
+        previous: expect.objectContaining({ assetId: '301', content: '<p>live</p>' }),
+        deployed: expect.objectContaining({ assetId: '301', content: '<p>new</p>' })
+      }))
+      expect(history.recordDeployment.mock.invocationCallOrder[0]).toBeLessThan(patch.mock.invocationCallOrder[0])
+    })
+
+    it('should leave the asset unchanged when its content cannot be recorded', async () => {
+      history.recordDeployment.mockRejectedValueOnce(new Error('Redis unavailable'))
+
+      const result = await service.deployCloudPage({ connectionId, cloudPage })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('the asset was not changed')
+      expect(patch).not.toHaveBeenCalled()
+    })
+
+    it('should discard the record when the update fails', async () => {
+      patch.mockRejectedValueOnce(new Error('HTTP 500: Internal Server Error'))
+
+      const result = await service.deployCloudPage({ connectionId, cloudPage })
+
+      expect(result).toMatchObject({ success: false, error: 'HTTP 500: Internal Server Error' })
+      expect(history.discardDeployment).toHaveBeenCalledWith(history.recordDeployment.mock.calls[0][0].deploymentId)
+    })
+
+    const deployed = (overrides: Partial<DeploymentRecord> = {}): DeploymentRecord => ({
+      deploymentId: 'deploy_1_301',
+      assetKey: "it's",
+      version: 2,
+      kind: 'deploy',
+      connectionId,
+      deployedAt: '2026-10-01T00:00:00.000Z',
+      previous: { assetId: '301', customerKey: "it's", content: '<p>old</p>', metadata: {} },
+      deployed: { assetId: '301', customerKey: "it's", content: '<p>live</p>', metadata: {} },
+      ...overrides
+    })
+
+    it('should only roll back deployments made through the same connection', async () => {
+      history.getDeployment.mockResolvedValueOnce(deployed({ connectionId: 'other-connection' }))
+
+      await expect(service.rollbackDeployment({ connectionId, deploymentId: 'deploy_1_301' }))
+        .rejects.toMatchObject({ code: 'DEPLOYMENT_NOT_FOUND' })
+      expect(patch).not.toHaveBeenCalled()
+    })
+
+    it('should restore the content the deployment replaced', async () => {
+      history.getDeployment.mockResolvedValueOnce(deployed())
+      history.getHistory.mockResolvedValueOnce([deployed()])
+
+      const result = await service.rollbackDeployment({ connectionId, deploymentId: 'deploy_1_301' })
+
+      expect(result).toMatchObject({ success: true, restoredVersion: 1 })
+      expect(patch).toHaveBeenCalledWith(expect.stringMatching(/\/301$/), expect.objectContaining({ content: '<p>old</p>' }))
+    })
+
+    it('should not roll back a deployment that a later deployment replaced', async () => {
+      history.getDeployment.mockResolvedValueOnce(deployed())
+      history.getHistory.mockResolvedValueOnce([
+        deployed(),
+        deployed({ deploymentId: 'deploy_2_301', version: 3 })
+      ])
+
+      await expect(service.rollbackDeployment({ connectionId, deploymentId: 'deploy_1_301' }))
+        .rejects.toMatchObject({ code: 'NEWER_DEPLOYMENT_EXISTS', type: 'CONFLICT_ERROR' })
+      expect(history.recordDeployment).not.toHaveBeenCalled()
+      expect(patch).not.toHaveBeenCalled()
+    })
+
+    it('should not roll back when the live content was changed after the deployment', async () => {
+      history.getDeployment.mockResolvedValueOnce(deployed({ deployed: { assetId: '301', customerKey: "it's", content: '<p>deployed</p>', metadata: {} } }))
+      history.getHistory.mockResolvedValueOnce([])
+
+      await expect(service.rollbackDeployment({ connectionId, deploymentId: 'deploy_1_301' }))
+        .rejects.toMatchObject({ code: 'LIVE_CONTENT_CHANGED', type: 'CONFLICT_ERROR' })
+      expect(history.recordDeployment).not.toHaveBeenCalled()
+      expect(patch).not.toHaveBeenCalled()
+    })
+
+    it('should only show the deployment history to the authenticated connection', async () => {
+      history.getHistory.mockResolvedValueOnce([])
+
+      await expect(service.getDeploymentHistory('other-connection', "it's"))
+        .rejects.toMatchObject({ code: 'AUTHORIZATION_FAILED' })
+      expect(await service.getDeploymentHistory(connectionId, "it's")).toEqual([])
+      expect(history.getHistory).toHaveBeenCalledTimes(1)
+    })
+
+    describe('batches', () => {
+      const landing = {
+        name: 'Landing',
+        customerKey: "it's",
+        content: {
+          html: [
+            '<!DOCTYPE html>',
+            '<html>',
+            '<head>',
+            '<title>Welcome</title>',
+            '</head>',
+            '<body>',
+            '%%[ SET @name = AttributeValue("FirstName") ]%%',
+            '<h1>Hello %%=HTMLEncode(@name)=%%</h1>',
+            '</body>',
+            '</html>'
+          ].join('\n')
+        }
+      }
+      const script = { name: 'Tracking', customerKey: 'tracking', content: 'var tracked = true;', resourceType: 'javascript' }
+
+      it('should plan each deployment against its live asset and analyse multi-line pages without errors', async () => {
+        get.mockResolvedValueOnce(reply({ items: [live] })).mockResolvedValueOnce(reply({ items: [] }))
+
+        const plan = await service.planBatchDeploy({ connectionId, deployments: [{ cloudPage: landing }, { codeResource: script }] })
+
+        expect(plan).toMatchObject({ canDeploy: true, summary: { create: 1, update: 1, blocked: 0 } })
+        expect(plan.items.map(item => [item.assetKey, item.action])).toEqual([["it's", 'update'], ['tracking', 'create']])
+        expect(plan.items[0].analysis).toMatchObject({ language: 'cloudpage', errors: [] })
+        expect(plan.items[1].analysis!.warnings.map(warning => warning.rule)).toContain('js-var-usage')
+      })
+
+      it('should deploy a batch whose plan has no blocked deployments', async () => {
+        const result = await service.batchDeploy({ connectionId, deployments: [{ cloudPage: landing }] })
+
+        expect(result).toMatchObject({ totalDeployments: 1, successfulDeployments: 1, failedDeployments: 0 })
+        expect(patch).toHaveBeenCalledTimes(1)
+      })
+
+      it('should skip deployments whose content the live asset already has', async () => {
+        await service.batchDeploy({ connectionId, deployments: [{ cloudPage: landing }] })
+        get.mockResolvedValue(reply({ items: [{ id: 301, ...patch.mock.calls[0][1] }] }))
+
+        const result = await service.batchDeploy({ connectionId, deployments: [{ cloudPage: landing }] })
+
+        expect(result).toMatchObject({ totalDeployments: 1, successfulDeployments: 0, unchangedDeployments: 1 })
+        expect(patch).toHaveBeenCalledTimes(1)
+        expect(history.recordDeployment).toHaveBeenCalledTimes(1)
+      })
+
+      it('should not block valid HTML5 that has no required attributes to check', async () => {
+        const html = landing.content.html
+          .replace('<title>', '<meta charset="utf-8">\n<meta name="viewport"\n  content="width=device-width">\n<title>')
+          .replace('<h1>', '<article><aside>Note</aside></article>\n<form method="post"><input name="email"></form>\n<h1>')
+        const plan = await service.planBatchDeploy({ connectionId, deployments: [{ cloudPage: { ...landing, content: { html } } }] })
+
+        expect(plan.items[0].analysis!.errors).toEqual([])
+        expect(plan.canDeploy).toBe(true)
+      })
+
+      it('should block images without alternative text', async () => {
+        const html = landing.content.html.replace('<h1>', '<img src="logo.png">\n<h1>')
+        const plan = await service.planBatchDeploy({ connectionId, deployments: [{ cloudPage: { ...landing, content: { html } } }] })
+
+        expect(plan.items[0].analysis!.errors.map(error => error.rule)).toContain('html-required-attributes')
+        expect(plan.canDeploy).toBe(false)
+      })
+
+      it('should deploy nothing when the content of a deployment has errors', async () => {
+        const broken = { ...landing, content: { html: landing.content.html.replace('<body>', '<body>\n<div class="card">') } }
+
+        await expect(service.batchDeploy({ connectionId, deployments: [{ cloudPage: landing }, { cloudPage: broken }] }))
+          .rejects.toMatchObject({ code: 'DEPLOYMENT_BLOCKED', details: { blocked: ["it's"] } })
+        expect(patch).not.toHaveBeenCalled()
+      })
+    })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,185 @@
+// SFMC SOAP client tests
+
+import { HttpClient } from '../../../utils/http/client'
+import { SFMCSoapClient, SoapRequest, combineFilters } from '../sfmc-soap-client'
+
+function retrievePage(status: string, requestId: string, keys: string[]): string {
+  const results = keys
+    .map(key => `<Results xsi:type="DataExtensionObject"><Properties><Property><Name>Key</Name><Value>${key}</Value></Property></Properties></Results>`)
+    .join('')
+  return `<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <soap:Body>
+    <RetrieveResponseMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+      <OverallStatus>${status}</OverallStatus>
+      <RequestID>${requestId}</RequestID>
+      ${results}
+    </RetrieveResponseMsg>
+  </soap:Body>
+</soap:Envelope>`
+}
+
+describe('SFMCSoapClient', () => {
+  let client: SFMCSoapClient
+  let post: jest.SpyInstance
+
+  beforeEach(() => {
+    client = new SFMCSoapClient('https://mc.example.com/Service.asmx', 'token')
+    post = jest.spyOn(HttpClient.prototype, 'post')
+  })
+
+  afterEach(() => {
+    post.mockRestore()
+  })
+
+  function respondWith(...pages: string[]) {
+    for (const page of pages) {
+      post.mockResolvedValueOnce({ data: page, status: 200, statusText: 'OK', headers: {} })
+    }
+  }
+
+  const sentEnvelopes = () => post.mock.calls.map((call: unknown[]) => call[1] as string)
+  const request: SoapRequest = { action: 'Retrieve', objectType: 'DataExtensionObject[Members]', properties: { Key: true } }
+
+  describe('filters', () => {
+    it('should nest complex filters and send every value of between and IN', async () => {
+      respondWith(retrievePage('OK', 'r1', []))
+
+      await client.retrieve({
+        ...request,
+        filter: combineFilters('OR', [
+          { property: 'Status', simpleOperator: 'IN', value: ['Active', 'Held'] },
+          {
+            leftOperand: { property: 'Created', simpleOperator: 'between', value: [new Date('2024-01-01T00:00:00Z'), new Date('2024-02-01T00:00:00Z')] },
+            logicalOperator: 'AND',
+            rightOperand: { property: 'Email', simpleOperator: 'isNotNull' }
+          }
+        ])
+      })
+
+      const envelope = sentEnvelopes()[0].replace(/\s+/g, ' ')
+      expect(envelope).toContain('<Filter xsi:type="ComplexFilterPart"> <LeftOperand xsi:type="SimpleFilterPart"> <Property>Status</Property> <SimpleOperator>IN</SimpleOperator> <Value>Active</Value> <Value>Held</Value> </LeftOperand> <LogicalOperator>OR</LogicalOperator> <RightOperand xsi:type="ComplexFilterPart">')
+      expect(envelope).toContain('<SimpleOperator>between</SimpleOperator> <DateValue>2024-01-01T00:00:00.000Z</DateValue> <DateValue>2024-02-01T00:00:00.000Z</DateValue>')
+      expect(envelope).toContain('<Property>Email</Property> <SimpleOperator>isNotNull</SimpleOperator> </RightOperand>')
+    })
+
+    it('should reject values that do not fit the operator', async () => {
+      await expect(client.retrieve({ ...request, filter: { property: 'Age', simpleOperator: 'between', value: 18 } }))
+        .rejects.toMatchObject({ message: 'The between filter on Age takes exactly two values' })
+      await expect(client.retrieve({ ...request, filter: { property: 'Email', simpleOperator: 'isNull', value: '' } }))
+        .rejects.toMatchObject({ message: 'The isNull filter on Email takes no value' })
+      expect(() => combineFilters('AND', [])).toThrow()
+      expect(post).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('perform, schedule and describe', () => {
+    const statusPage = (action: string) => `<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Body><${action}ResponseMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+    <Results><Result><StatusCode>OK</StatusCode><StatusMessage>OK</StatusMessage></Result></Results>
+    <OverallStatus>OK</OverallStatus>
+  </${action}ResponseMsg></soap:Body>
+</soap:Envelope>`
+
+    it('should start definitions by either key', async () => {
+      respondWith(statusPage('Perform'))
+
+      const response = await client.perform({
+        action: 'start',
+        objectType: 'QueryDefinition',
+        definitions: [{ customerKey: 'daily_members' }, { objectID: '5c1e-77' }]
+      })
+
+      const envelope = sentEnvelopes()[0].replace(/\s+/g, ' ')
+      expect(post.mock.calls[0][2].headers.SOAPAction).toBe('Perform')
+      expect(envelope).toContain('<Action>start</Action> <Definitions> <Definition xsi:type="QueryDefinition"> <CustomerKey>daily_members</CustomerKey> </Definition> <Definition xsi:type="QueryDefinition"> <ObjectID>5c1e-77</ObjectID> </Definition>')
+      expect(response.statuses).toHaveLength(1)
+      await expect(client.perform({ action: 'start', objectType: 'Automation', definitions: [{}] }))
+        .rejects.toMatchObject({ message: 'An ObjectID or CustomerKey is required' })
+    })
+
+    it('should send a weekly schedule with its days and end date', async () => {
+      respondWith(statusPage('Schedule'))
+
+      await client.schedule({
+        action: 'start',
+        objectType: 'Automation',
+        interactions: [{ objectID: 'a-1' }],
+        schedule: {
+          startDateTime: new Date('2024-05-01T06:00:00Z'),
+          recurrenceType: 'Weekly',
+          interval: 2,
+          days: ['Monday', 'Thursday'],
+          endDateTime: new Date('2024-12-31T06:00:00Z')
+        }
+      })
+
+      const envelope = sentEnvelopes()[0].replace(/\s+/g, ' ')
+      expect(envelope).toContain('<Recurrence xsi:type="WeeklyRecurrence"> <WeeklyRecurrencePatternType>ByWeek</WeeklyRecurrencePatternType> <WeekInterval>2</WeekInterval> <Monday>true</Monday> <Thursday>true</Thursday> </Recurrence>')
+      expect(envelope).toContain('<RecurrenceRangeType>EndOn</RecurrenceRangeType> <EndDateTime>2024-12-31T06:00:00.000Z</EndDateTime> <StartDateTime>2024-05-01T06:00:00.000Z</StartDateTime>')
+      expect(envelope).toContain('<Interactions> <Interaction xsi:type="Automation"> <ObjectID>a-1</ObjectID> </Interaction> </Interactions>')
+    })
+
+    it('should describe object types', async () => {
+      respondWith(`<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body>
+        <DefinitionResponseMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+          <ObjectDefinition><Name>Send</Name><Properties><Name>ID</Name></Properties></ObjectDefinition>
+        </DefinitionResponseMsg></soap:Body></soap:Envelope>`)
+
+      const response = await client.describe(['Send'])
+
+      expect(sentEnvelopes()[0]).toContain('<ObjectDefinitionRequest><ObjectType>Send</ObjectType></ObjectDefinitionRequest>')
+      expect(response.results).toEqual([{ name: 'Send', properties: [{ name: 'ID' }], extendedProperties: [] }])
+    })
+  })
+
+  describe('retrieveAll', () => {
+    it('should follow ContinueRequest until SFMC has no more data', async () => {
+      respondWith(retrievePage('MoreDataAvailable', 'page-1', ['a', 'b']), retrievePage('OK', 'page-2', ['c']))
+
+      const keys: string[] = []
+      for await (const row of client.retrieveAll(request)) {
+        keys.push(row.properties.Key)
+      }
+
+      expect(keys).toEqual(['a', 'b', 'c'])
+      expect(sentEnvelopes()[1]).toContain('<ContinueRequest>page-1</ContinueRequest>')
+      expect(sentEnvelopes()[1]).not.toContain('<ObjectType>')
+    })
+
+    it('should stop at the row cap without requesting another page', async () => {
+      respondWith(retrievePage('MoreDataAvailable', 'page-1', ['a', 'b']))
+
+      const rows = []
+      for await (const row of client.retrieveAll(request, { maxRows: 2 })) {
+        rows.push(row)
+      }
+
+      expect(rows).toHaveLength(2)
+      expect(post).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop when the signal aborts', async () => {
+      respondWith(retrievePage('MoreDataAvailable', 'page-1', ['a', 'b']))
+      const controller = new AbortController()
+
+      const rows = []
+      for await (const row of client.retrieveAll(request, { signal: controller.signal })) {
+        rows.push(row)
+        controller.abort()
+      }
+
+      expect(rows).toHaveLength(1)
+      expect(post).toHaveBeenCalledTimes(1)
+    })
+
+    it('should fail when a page reports an error', async () => {
+      respondWith(retrievePage('MoreDataAvailable', 'page-1', ['a']), retrievePage('Error: Invalid continue request', 'page-2', []))
+
+      const rows: unknown[] = []
+      await expect((async () => {
+        for await (const row of client.retrieveAll(request)) rows.push(row)
+      })()).rejects.toMatchObject({ sfmcMessage: 'Invalid continue request' })
+      expect(rows).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,275 @@
+// SOAP response parsing tests
+
+import { SoapObjectDefinition, findInvalidProperties, parseSoapResponse } from '../soap-response'
+import { parseXml } from '../soap-xml'
+
+function envelope(body: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <soap:Header><wsa:Action xmlns:wsa="http://schemas.xmlsoap.org/ws/2004/08/addressing">RetrieveResponse</wsa:Action></soap:Header>
+  <soap:Body>${body}</soap:Body>
+</soap:Envelope>`
+}
+
+describe('parseSoapResponse', () => {
+  it('should read retrieved Data Extensions and their fields', () => {
+    const response = parseSoapResponse(envelope(`
+      <RetrieveResponseMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+        <OverallStatus>OK</OverallStatus>
+        <RequestID>f1b3c2d4</RequestID>
+        <Results xsi:type="DataExtension">
+          <ObjectID>9b2e</ObjectID>
+          <CustomerKey>members</CustomerKey>
+          <Name>Members &amp; Guests</Name>
+          <CategoryID>1042</CategoryID>
+          <IsSendable>true</IsSendable>
+          <IsTestable>false</IsTestable>
+          <SendableSubscriberField><Name>Subscriber Key</Name></SendableSubscriberField>
+          <CreatedDate>2024-03-01T09:15:00.000Z</CreatedDate>
+        </Results>
+        <Results xsi:type="DataExtensionField">
+          <Name>Email</Name>
+          <FieldType>EmailAddress</FieldType>
+          <MaxLength>254</MaxLength>
+          <IsPrimaryKey>false</IsPrimaryKey>
+          <IsRequired>true</IsRequired>
+          <DataExtension><CustomerKey>members</CustomerKey></DataExtension>
+        </Results>
+      </RetrieveResponseMsg>`))
+
+    expect(response).toMatchObject({ overallStatus: 'OK', requestId: 'f1b3c2d4' })
+    expect(response.errors).toBeUndefined()
+    expect(response.results).toEqual([
+      {
+        objectType: 'DataExtension',
+        objectID: '9b2e',
+        customerKey: 'members',
+        name: 'Members & Guests',
+        categoryID: 1042,
+        isSendable: true,
+        isTestable: false,
+        sendableSubscriberField: 'Subscriber Key',
+        createdDate: new Date('2024-03-01T09:15:00.000Z')
+      },
+      {
+        objectType: 'DataExtensionField',
+        name: 'Email',
+        fieldType: 'EmailAddress',
+        maxLength: 254,
+        isPrimaryKey: false,
+        isRequired: true,
+        dataExtension: { customerKey: 'members' }
+      }
+    ])
+  })
+
+  it('should read Data Extension rows, subscribers and automations', () => {
+    const response = parseSoapResponse(envelope(`
+      <RetrieveResponseMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+        <OverallStatus>MoreDataAvailable</OverallStatus>
+        <RequestID>r2</RequestID>
+        <Results xsi:type="DataExtensionObject">
+          <Properties>
+            <Property><Name>SubscriberKey</Name><Value>A-100</Value></Property>
+            <Property><Name>Note</Name><Value><![CDATA[<b>VIP</b>]]></Value></Property>
+          </Properties>
+        </Results>
+        <Results xsi:type="Subscriber">
+          <ID>42</ID>
+          <EmailAddress>ana@example.com</EmailAddress>
+          <SubscriberKey>A-100</SubscriberKey>
+          <Status>Active</Status>
+          <Attributes><Name>First Name</Name><Value>Ana</Value></Attributes>
+          <Lists><ID>7</ID><Status>Active</Status></Lists>
+        </Results>
+        <Results xsi:type="Automation">
+          <Name>Nightly import</Name>
+          <CustomerKey>nightly</CustomerKey>
+          <Status>-1</Status>
+        </Results>
+      </RetrieveResponseMsg>`))
+
+    expect(response.overallStatus).toBe('MoreDataAvailable')
+    expect(response.results).toEqual([
+      { objectType: 'DataExtensionObject', properties: { SubscriberKey: 'A-100', Note: '<b>VIP</b>' } },
+      {
+        objectType: 'Subscriber',
+        id: 42,
+        subscriberKey: 'A-100',
+        emailAddress: 'ana@example.com',
+        status: 'Active',
+        attributes: { 'First Name': 'Ana' },
+        lists: [{ id: 7, status: 'Active' }]
+      },
+      { objectType: 'Automation', name: 'Nightly import', customerKey: 'nightly', status: 'Error' }
+    ])
+  })
+
+  it('should keep the status of every object of a create', () => {
+    const response = parseSoapResponse(envelope(`
+      <CreateResponse xmlns="http://exacttarget.com/wsdl/partnerAPI">
+        <Results>
+          <StatusCode>OK</StatusCode>
+          <StatusMessage>QueryDefinition created</StatusMessage>
+          <OrdinalID>0</OrdinalID>
+          <NewID>0</NewID>
+          <NewObjectID>5c1e-77</NewObjectID>
+          <Object xsi:type="QueryDefinition">
+            <CustomerKey>daily_members</CustomerKey>
+            <Name>Daily members</Name>
+            <QueryText>SELECT SubscriberKey FROM Members WHERE Active = 1</QueryText>
+            <TargetType>DE</TargetType>
+            <TargetUpdateType>Overwrite</TargetUpdateType>
+            <DataExtensionTarget><Name>Active Members</Name></DataExtensionTarget>
+          </Object>
+        </Results>
+        <Results>
+          <StatusCode>Error</StatusCode>
+          <StatusMessage>The Name is already in use</StatusMessage>
+          <OrdinalID>1</OrdinalID>
+          <ErrorCode>2</ErrorCode>
+        </Results>
+        <RequestID>c3</RequestID>
+        <OverallStatus>Has Errors</OverallStatus>
+      </CreateResponse>`))
+
+    expect(response.overallStatus).toBe('Has Errors')
+    expect(response.statuses).toMatchObject([
+      { statusCode: 'OK', statusMessage: 'QueryDefinition created', ordinalID: 0, newObjectID: '5c1e-77' },
+      { statusCode: 'Error', statusMessage: 'The Name is already in use', ordinalID: 1, errorCode: '2' }
+    ])
+    expect(response.results).toEqual([{
+      objectType: 'QueryDefinition',
+      customerKey: 'daily_members',
+      name: 'Daily members',
+      queryText: 'SELECT SubscriberKey FROM Members WHERE Active = 1',
+      targetType: 'DE',
+      targetUpdateType: 'Overwrite',
+      dataExtensionTarget: { name: 'Active Members' }
+    }])
+    expect(response.errors).toEqual([
+      { errorCode: '2', statusCode: 'Error', statusMessage: 'The Name is already in use', ordinalID: 1 }
+    ])
+  })
+
+  it('should report each failed delete with its own message', () => {
+    const response = parseSoapResponse(envelope(`
+      <DeleteResponse xmlns="http://exacttarget.com/wsdl/partnerAPI">
+        <Results><StatusCode>Error</StatusCode><StatusMessage>Send 1 not found</StatusMessage><OrdinalID>0</OrdinalID></Results>
+        <Results><StatusCode>Error</StatusCode><StatusMessage>Send 2 is in progress</StatusMessage><OrdinalID>1</OrdinalID></Results>
+        <OverallStatus>Error</OverallStatus>
+      </DeleteResponse>`))
+
+    expect(response.errors?.map(error => [error.ordinalID, error.statusMessage])).toEqual([
+      [0, 'Send 1 not found'],
+      [1, 'Send 2 is in progress']
+    ])
+  })
+
+  it('should turn a failed retrieve and a SOAP fault into errors', () => {
+    const failed = parseSoapResponse(envelope(`
+      <RetrieveResponseMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+        <OverallStatus>Error: The Request Property(s) Foo do not match with the fields of Send retrieve</OverallStatus>
+        <RequestID>r4</RequestID>
+      </RetrieveResponseMsg>`))
+    const fault = parseSoapResponse(envelope(`
+      <soap:Fault><faultcode>soap:Client</faultcode><faultstring>Login failed</faultstring></soap:Fault>`))
+
+    expect(failed.results).toEqual([])
+    expect(failed.errors).toEqual([{
+      errorCode: 'Error',
+      statusCode: 'Error',
+      statusMessage: 'The Request Property(s) Foo do not match with the fields of Send retrieve'
+    }])
+    expect(fault.errors).toEqual([{ errorCode: 'soap:Client', statusCode: 'Error', statusMessage: 'Login failed' }])
+  })
+
+  it('should read the task a perform queued', () => {
+    const response = parseSoapResponse(envelope(`
+      <PerformResponseMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+        <Results>
+          <Result>
+            <StatusCode>OK</StatusCode>
+            <StatusMessage>QueryDefinition started</StatusMessage>
+            <Task><StatusCode>OK</StatusCode><ID>8a7f-task</ID></Task>
+          </Result>
+        </Results>
+        <OverallStatus>OK</OverallStatus>
+        <RequestID>p1</RequestID>
+      </PerformResponseMsg>`))
+
+    expect(response.statuses).toEqual([{ statusCode: 'OK', statusMessage: 'QueryDefinition started', taskID: '8a7f-task' }])
+    expect(response.errors).toBeUndefined()
+  })
+
+  it('should read the object definitions of a describe', () => {
+    const response = parseSoapResponse<SoapObjectDefinition>(envelope(`
+      <DefinitionResponseMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+        <ObjectDefinition>
+          <ObjectType>Subscriber</ObjectType>
+          <Name>Subscriber</Name>
+          <IsCreatable>true</IsCreatable>
+          <IsRetrievable>true</IsRetrievable>
+          <Properties><Name>ID</Name><DataType>Int32</DataType><IsUpdatable>false</IsUpdatable><IsRetrievable>true</IsRetrievable></Properties>
+          <Properties><Name>EmailAddress</Name><DataType>String</DataType><IsFilterable>true</IsFilterable></Properties>
+          <ExtendedProperties>
+            <ExtendedProperty><Name>First Name</Name><DataType>String</DataType><MaxLength>100</MaxLength></ExtendedProperty>
+          </ExtendedProperties>
+        </ObjectDefinition>
+        <RequestID>d1</RequestID>
+      </DefinitionResponseMsg>`))
+
+    expect(response.results).toEqual([{
+      name: 'Subscriber',
+      isCreatable: true,
+      isRetrievable: true,
+      properties: [
+        { name: 'ID', dataType: 'Int32', isUpdatable: false, isRetrievable: true },
+        { name: 'EmailAddress', dataType: 'String', isFilterable: true }
+      ],
+      extendedProperties: [{ name: 'First Name', dataType: 'String', maxLength: 100 }]
+    }])
+  })
+
+  it('should read object types without a reader as plain properties', () => {
+    const response = parseSoapResponse(envelope(`
+      <RetrieveResponseMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+        <OverallStatus>OK</OverallStatus>
+        <Results xsi:type="List">
+          <ID>7</ID>
+          <ListName>Newsletter</ListName>
+          <HTMLFooter>Unsubscribe</HTMLFooter>
+          <Client><ID>100</ID></Client>
+        </Results>
+      </RetrieveResponseMsg>`))
+
+    expect(response.results).toEqual([{ objectType: 'List', id: '7', listName: 'Newsletter', htmlFooter: 'Unsubscribe', client: { id: '100' } }])
+  })
+})
+
+describe('findInvalidProperties', () => {
+  const definition: SoapObjectDefinition = {
+    name: 'Subscriber',
+    properties: [
+      { name: 'ID', isUpdatable: false, isRetrievable: true },
+      { name: 'EmailAddress' },
+      { name: 'Client' }
+    ],
+    extendedProperties: [{ name: 'First Name' }]
+  }
+
+  it('should flag unknown properties and ones the usage does not allow', () => {
+    expect(findInvalidProperties(definition, ['ID', 'EmailAddress', 'First Name', 'Client.ID', 'Emial'], 'update')).toEqual([
+      { property: 'ID', reason: 'unsupported', message: 'Subscriber.ID is not updatable' },
+      { property: 'Emial', reason: 'unknown', message: 'Subscriber has no property Emial' }
+    ])
+    expect(findInvalidProperties(definition, ['ID'], 'retrieve')).toEqual([])
+  })
+})
+
+describe('parseXml', () => {
+  it('should reject malformed documents', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow('Unexpected closing tag </a>')
+    expect(() => parseXml('<a><b/>')).toThrow('Unclosed element <a>')
+  })
+})
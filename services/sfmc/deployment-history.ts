@@ -0,0 +1,166 @@
+// Versions and diffs of the assets in the deployment history
+
+import { AssetVersion, ContentDiffLine, DeploymentDiff, DeploymentRecord } from '../../types/sfmc'
+import { ErrorFactory } from '../../utils/errors/error-factory'
+
+/**
+ * Every version of an asset the history knows, oldest first. A deployment
+ * writes version N; the content it replaced is version N - 1.
+ */
+export function assetVersions(history: DeploymentRecord[]): AssetVersion[] {
+  const versions = new Map<number, AssetVersion>()
+
+  for (const record of history) {
+    if (record.previous && !versions.has(record.version - 1)) {
+      versions.set(record.version - 1, { version: record.version - 1, snapshot: record.previous })
+    }
+    versions.set(record.version, {
+      version: record.version,
+      deploymentId: record.deploymentId,
+      kind: record.kind,
+      deployedAt: record.deployedAt,
+      snapshot: record.deployed
+    })
+  }
+
+  return Array.from(versions.values()).sort((a, b) => a.version - b.version)
+}
+
+export function diffDeploymentVersions(
+  history: DeploymentRecord[],
+  fromVersion: number,
+  toVersion: number
+): DeploymentDiff {
+  const versions = assetVersions(history)
+  const find = (version: number) => {
+    const found = versions.find(candidate => candidate.version === version)
+    if (!found) {
+      throw ErrorFactory.createValidationError(`Version ${version} is not in the deployment history`, 'version', version)
+    }
+    return found.snapshot
+  }
+  const from = find(fromVersion)
+  const to = find(toVersion)
+  const lines = diffLines(from.content, to.content)
+
+  const fields = new Set([...Object.keys(from.metadata), ...Object.keys(to.metadata)])
+  const metadataChanges = Array.from(fields)
+    .filter(field => JSON.stringify(from.metadata[field]) !== JSON.stringify(to.metadata[field]))
+    .map(field => ({ field, from: from.metadata[field], to: to.metadata[field] }))
+
+  return {
+    assetKey: history[0]?.assetKey ?? '',
+    fromVersion,
+    toVersion,
+    lines,
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length,
+    metadataChanges
+  }
+}
+
+// The search keeps a row per edit step, so its memory grows with the square
+// of the edit distance. Past this many edits the changed part is shown as
+// replaced as a whole.
+const MAX_EDIT_DISTANCE = 1000
+
+/**
+ * Line diff of two texts (Myers), with line numbers on both sides
+ */
+export function diffLines(before: string, after: string): ContentDiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // Only the part between the common prefix and suffix needs the search
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const changed = shortestEdit(a.slice(start, endA), b.slice(start, endB)) ?? [
+    ...Array<'removed'>(endA - start).fill('removed'),
+    ...Array<'added'>(endB - start).fill('added')
+  ]
+  const operations = [
+    ...Array<'unchanged'>(start).fill('unchanged'),
+    ...changed,
+    ...Array<'unchanged'>(a.length - endA).fill('unchanged')
+  ]
+
+  const lines: ContentDiffLine[] = []
+  let oldIndex = 0
+  let newIndex = 0
+  for (const type of operations) {
+    if (type === 'unchanged') {
+      lines.push({ type, text: a[oldIndex], oldLine: ++oldIndex, newLine: ++newIndex })
+    } else if (type === 'removed') {
+      lines.push({ type, text: a[oldIndex], oldLine: ++oldIndex })
+    } else {
+      lines.push({ type, text: b[newIndex], newLine: ++newIndex })
+    }
+  }
+  return lines
+}
+
+type EditOperation = ContentDiffLine['type']
+
+// Null when the texts differ in more than MAX_EDIT_DISTANCE lines
+function shortestEdit(a: string[], b: string[]): EditOperation[] | null {
+  const max = Math.min(a.length + b.length, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const furthest = new Int32Array(2 * max + 3)
+  // Each step keeps only the diagonals it can reach, so memory grows with the edit distance
+  const trace: Int32Array[] = []
+  const previousDiagonal = (row: (k: number) => number, k: number, d: number) =>
+    k === -d || (k !== d && row(k - 1) < row(k + 1)) ? k + 1 : k - 1
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(furthest.slice(offset - d - 1, offset + d + 2))
+    for (let k = -d; k <= d; k += 2) {
+      const from = previousDiagonal(diagonal => furthest[diagonal + offset], k, d)
+      let x = from === k + 1 ? furthest[from + offset] : furthest[from + offset] + 1
+      let y = x - k
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++
+        y++
+      }
+      furthest[k + offset] = x
+      if (x >= a.length && y >= b.length) return backtrack(trace, a.length, b.length, previousDiagonal)
+    }
+  }
+  return null
+}
+
+function backtrack(
+  trace: Int32Array[],
+  endX: number,
+  endY: number,
+  previousDiagonal: (row: (k: number) => number, k: number, d: number) => number
+): EditOperation[] {
+  const operations: EditOperation[] = []
+  let x = endX
+  let y = endY
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d]
+    const row = (k: number) => snapshot[k + d + 1]
+    const k = x - y
+    const from = previousDiagonal(row, k, d)
+    const fromX = row(from)
+    const fromY = fromX - from
+
+    while (x > fromX && y > fromY) {
+      operations.push('unchanged')
+      x--
+      y--
+    }
+    if (d > 0) operations.push(x === fromX ? 'added' : 'removed')
+    x = fromX
+    y = fromY
+  }
+  return operations.reverse()
+}
@@ -0,0 +1,101 @@
+// Dry-run plans: what a batch deployment would do to the live assets
+
+import { AnalysisLanguage } from '../../types/debugging'
+import {
+  AssetSnapshot,
+  ContentDiffLine,
+  DeploymentPlan,
+  DeploymentPlanAction,
+  DeploymentPlanItem
+} from '../../types/sfmc'
+import { diffLines } from './deployment-history'
+
+// Asset type names the code analysis has a language for; plain text is not analysed
+const ANALYSIS_LANGUAGES: Record<string, AnalysisLanguage> = {
+  webpage: 'cloudpage',
+  html: 'html',
+  css: 'css',
+  javascript: 'javascript'
+}
+
+export function analysisLanguage(assetTypeName: string): AnalysisLanguage | undefined {
+  return ANALYSIS_LANGUAGES[assetTypeName]
+}
+
+/**
+ * Plan one deployment against the live asset with its customer key.
+ * Only the metadata the deployment sets is compared: a PATCH leaves the
+ * other fields of the live asset as they are.
+ */
+export function planDeployment(
+  index: number,
+  deployed: AssetSnapshot,
+  live: AssetSnapshot | undefined,
+  analysis: DeploymentPlanItem['analysis'],
+  overrideErrors: boolean
+): DeploymentPlanItem {
+  const lines: ContentDiffLine[] = live
+    ? diffLines(live.content, deployed.content)
+    : deployed.content.split('\n').map((text, line) => ({ type: 'added', text, newLine: line + 1 }))
+
+  const metadataChanges = live
+    ? Object.keys(deployed.metadata)
+        .filter(field => !containsValue(live.metadata[field], deployed.metadata[field]))
+        .map(field => ({ field, from: live.metadata[field], to: deployed.metadata[field] }))
+    : []
+
+  const added = lines.filter(line => line.type === 'added').length
+  const removed = lines.filter(line => line.type === 'removed').length
+  let action: DeploymentPlanAction = 'create'
+  if (live) {
+    action = added === 0 && removed === 0 && metadataChanges.length === 0 ? 'unchanged' : 'update'
+  }
+
+  return {
+    index,
+    assetKey: deployed.customerKey,
+    name: deployed.metadata.name,
+    assetType: deployed.metadata.assetType?.name,
+    action,
+    assetId: live?.assetId,
+    diff: { lines, added, removed, metadataChanges },
+    analysis,
+    blocked: !overrideErrors && (analysis?.errors.length ?? 0) > 0
+  }
+}
+
+export function summarizePlan(
+  connectionId: string,
+  items: DeploymentPlanItem[],
+  overrideErrors: boolean
+): DeploymentPlan {
+  const count = (matches: (item: DeploymentPlanItem) => boolean) => items.filter(matches).length
+  const blocked = count(item => item.blocked)
+
+  return {
+    connectionId,
+    createdAt: new Date().toISOString(),
+    items,
+    summary: {
+      create: count(item => item.action === 'create'),
+      update: count(item => item.action === 'update'),
+      unchanged: count(item => item.action === 'unchanged'),
+      blocked
+    },
+    overrideErrors,
+    canDeploy: blocked === 0
+  }
+}
+
+// SFMC returns more than was sent, e.g. the display name of an asset type
+function containsValue(actual: unknown, expected: unknown): boolean {
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object') return false
+    if (Array.isArray(expected)) {
+      return Array.isArray(actual) && actual.length === expected.length &&
+        expected.every((value, index) => containsValue(actual[index], value))
+    }
+    return Object.entries(expected).every(([key, value]) => containsValue((actual as Record<string, unknown>)[key], value))
+  }
+  return actual === expected
+}
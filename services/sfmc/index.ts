@@ -1,7 +1,7 @@
 // SFMC services exports
 
 export { SFMCIntegrationService } from './sfmc-integration.service'
-export { SFMCSoapClient } from './sfmc-soap-client'
+export { SFMCSoapClient, combineFilters } from './sfmc-soap-client'
 
 export type {
   SFMCAuthConfig,
@@ -14,7 +14,37 @@ export type {
 export type {
   SoapRequest,
   SoapFilter,
+  SoapSimpleFilter,
+  SoapComplexFilter,
+  SoapSimpleOperator,
+  SoapFilterValue,
+  SoapPagingOptions,
+  SoapObjectKey,
+  SoapPerformRequest,
+  SoapSchedule,
+  SoapScheduleRequest,
+  SoapConfigureRequest,
   SoapOptions,
   SoapResponse,
+  SoapObjectStatus,
   SoapError
-} from './sfmc-soap-client'
\ No newline at end of file
+} from './sfmc-soap-client'
+
+export { parseSoapResponse, readSoapObject, findInvalidProperties } from './soap-response'
+export type {
+  SoapObject,
+  SoapObjectReference,
+  SoapDataExtension,
+  SoapDataExtensionField,
+  SoapDataExtensionObject,
+  SoapSubscriber,
+  SoapSend,
+  SoapQueryDefinition,
+  SoapAutomation,
+  SoapAutomationStatus,
+  SoapGenericObject,
+  SoapObjectDefinition,
+  SoapPropertyDefinition,
+  SoapPropertyUsage,
+  SoapPropertyIssue
+} from './soap-response'
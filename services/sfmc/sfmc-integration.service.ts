@@ -1,8 +1,22 @@
 // SFMC Integration Service with OAuth 2.0 authentication and secure credential management
 
+import { randomUUID } from 'crypto'
 import { AbstractBaseService } from '../base/base-service'
 import { HttpClient, SFMCHttpClient } from '../../utils/http/client'
-import { SFMCSoapClient, SoapRequest, SoapResponse } from './sfmc-soap-client'
+import {
+  SFMCSoapClient,
+  SoapRequest,
+  SoapPagingOptions,
+  SoapResponse,
+  SoapPerformRequest,
+  SoapScheduleRequest,
+  SoapConfigureRequest
+} from './sfmc-soap-client'
+import { SoapObjectDefinition, SoapPropertyIssue, SoapPropertyUsage, findInvalidProperties } from './soap-response'
+import type { SFMCDataCache } from '../cache/sfmc-data-cache'
+import type { DeploymentHistoryManager } from '../session/deployment-history-manager'
+import type { CodeAnalysisService } from '../debugging/code-analysis.service'
+import { analysisLanguage, planDeployment, summarizePlan } from './deployment-plan'
 import { EncryptionUtils } from '../../utils/crypto/encryption'
 import { RetryManager, retryUtils } from '../../utils/errors/retry'
 import { ErrorFactory } from '../../utils/errors/error-factory'
@@ -19,7 +33,11 @@ import {
   CloudPageDeployment,
   RateLimitInfo,
   BusinessUnit,
-  ContentAsset
+  ContentAsset,
+  AssetSnapshot,
+  DeploymentRecord,
+  DeploymentPlan,
+  DeploymentPlanItem
 } from '../../types/sfmc'
 import { ApplicationError, ErrorType } from '../../types/errors'
 import { CircuitBreaker, globalCircuitBreakerRegistry, defaultCircuitBreakerConfigs } from '../../utils/errors/circuit-breaker'
@@ -71,6 +89,13 @@ export interface SFMCApiEndpoints {
   }
 }
 
+// Stores the service uses, created on first use when not passed in
+export interface SFMCServiceDependencies {
+  dataCache?: SFMCDataCache
+  deploymentHistory?: DeploymentHistoryManager
+  codeAnalysis?: CodeAnalysisService
+}
+
 export class SFMCIntegrationService extends AbstractBaseService {
   private httpClient: HttpClient
   private sfmcClient?: SFMCHttpClient
@@ -81,9 +106,16 @@ export class SFMCIntegrationService extends AbstractBaseService {
   private circuitBreaker: CircuitBreaker
   private rateLimitState: RateLimitState
   private apiEndpoints?: SFMCApiEndpoints
+  private dataCache?: SFMCDataCache
+  private deploymentHistory?: DeploymentHistoryManager
+  private codeAnalysis?: CodeAnalysisService
 
-  constructor(config: SFMCAuthConfig = {}) {
+  constructor(config: SFMCAuthConfig = {}, dependencies: SFMCServiceDependencies = {}) {
     super('SFMCIntegrationService')
+
+    this.dataCache = dependencies.dataCache
+    this.deploymentHistory = dependencies.deploymentHistory
+    this.codeAnalysis = dependencies.codeAnalysis
     
     this.config = {
       authUrl: 'https://{subdomain}.auth.marketingcloudapis.com/v2/token',
@@ -451,6 +483,31 @@ export class SFMCIntegrationService extends AbstractBaseService {
     })
   }
 
+  /**
+   * Data Extensions of the connected account, for validating code against
+   * their fields. Cached per tenant, like object definitions.
+   */
+  async getDataExtensionSchemas(connectionId: string, forceRefresh: boolean = false): Promise<DataExtension[]> {
+    this.ensureConnection(connectionId)
+    const instanceId = this.currentConnection!.subdomain
+    const cache = await this.sfmcDataCache()
+
+    if (!forceRefresh) {
+      const cached = await cache.getDataExtensions(instanceId)
+      if (cached) return cached
+    }
+
+    const dataExtensions: DataExtension[] = []
+    for (let page = 1; ; page++) {
+      const response = await this.getDataExtensions({ connectionId, page, pageSize: 100, includeFields: true })
+      dataExtensions.push(...response.dataExtensions)
+      if (response.dataExtensions.length === 0 || dataExtensions.length >= response.totalCount) break
+    }
+
+    await cache.cacheDataExtensions(instanceId, dataExtensions)
+    return dataExtensions
+  }
+
   /**
    * Create data extension
    */
@@ -550,36 +607,16 @@ export class SFMCIntegrationService extends AbstractBaseService {
       await this.checkRateLimit()
 
       try {
-        const assetPayload = {
-          name: options.cloudPage.name,
-          customerKey: options.cloudPage.customerKey,
-          assetType: {
-            id: 205, // Cloud Page asset type ID
-            name: 'webpage'
-          },
-          content: options.cloudPage.content.html,
-          data: {
-            email: {
-              options: {
-                generateFrom: 'content'
-              }
-            }
-          }
-        }
-
-        const response = await this.sfmcClient!.post<{
-          id: number
-          name: string
-          publishedURL?: string
-        }>(`${this.apiEndpoints!.rest.assets}`, assetPayload)
-
-        this.updateRateLimitFromResponse(response.headers)
+        const assetPayload = this.cloudPageAssetPayload(options.cloudPage)
+        const { asset, record, warnings } = await this.writeVersionedAsset(options.connectionId, assetPayload)
 
         return {
           success: true,
-          pageId: response.data.id.toString(),
-          url: response.data.publishedURL,
-          deploymentId: `deploy_${Date.now()}_${response.data.id}`
+          pageId: asset.id.toString(),
+          url: asset.publishedURL,
+          deploymentId: record?.deploymentId ?? this.newDeploymentId('deploy', asset.id),
+          version: record?.version,
+          warnings
         }
       } catch (error) {
         this.logger.error('Cloud page deployment failed', { error, pageName: options.cloudPage.name })
@@ -611,27 +648,15 @@ export class SFMCIntegrationService extends AbstractBaseService {
       await this.checkRateLimit()
 
       try {
-        const assetPayload = {
-          name: options.codeResource.name,
-          customerKey: options.codeResource.customerKey,
-          assetType: {
-            id: this.getCodeResourceTypeId(options.codeResource.resourceType),
-            name: options.codeResource.resourceType
-          },
-          content: options.codeResource.content
-        }
-
-        const response = await this.sfmcClient!.post<{
-          id: number
-          name: string
-        }>(`${this.apiEndpoints!.rest.assets}`, assetPayload)
-
-        this.updateRateLimitFromResponse(response.headers)
+        const assetPayload = this.codeResourceAssetPayload(options.codeResource)
+        const { asset, record, warnings } = await this.writeVersionedAsset(options.connectionId, assetPayload)
 
         return {
           success: true,
-          pageId: response.data.id.toString(),
-          deploymentId: `deploy_${Date.now()}_${response.data.id}`
+          pageId: asset.id.toString(),
+          deploymentId: record?.deploymentId ?? this.newDeploymentId('deploy', asset.id),
+          version: record?.version,
+          warnings
         }
       } catch (error) {
         this.logger.error('Code resource deployment failed', { error, resourceName: options.codeResource.name })
@@ -680,7 +705,10 @@ export class SFMCIntegrationService extends AbstractBaseService {
   }
 
   /**
-   * Rollback deployment
+   * Roll a deployment back to the content and metadata the asset had
+   * before it. The rollback is itself recorded, so it can be undone.
+   * Only the latest deployment of an asset can be rolled back, and only
+   * while the live asset still has the content it deployed.
    */
   async rollbackDeployment(options: {
     connectionId: string
@@ -690,39 +718,152 @@ export class SFMCIntegrationService extends AbstractBaseService {
     await this.ensureValidToken()
     this.ensureInitialized()
 
-    // Extract asset ID from deployment ID
-    const assetId = options.deploymentId.split('_').pop()
-    
-    if (!assetId || !this.apiEndpoints) {
-      throw ErrorFactory.createSFMCError('Invalid deployment ID or API endpoints not initialized', 'INVALID_DEPLOYMENT_ID')
+    if (!this.apiEndpoints) {
+      throw ErrorFactory.createSFMCApiError('API endpoints not initialized', 'NO_ENDPOINTS')
+    }
+
+    const history = await this.deploymentHistoryStore()
+    const deployment = await history.getDeployment(options.deploymentId)
+
+    // A deployment made through another connection may target another account
+    if (!deployment || deployment.connectionId !== options.connectionId) {
+      throw ErrorFactory.createApplicationError(
+        ErrorType.NOT_FOUND_ERROR,
+        `Deployment ${options.deploymentId} is not in the deployment history of this connection`,
+        'DEPLOYMENT_NOT_FOUND'
+      )
+    }
+    if (deployment.rolledBack) {
+      throw ErrorFactory.createApplicationError(
+        ErrorType.CONFLICT_ERROR,
+        `Deployment ${options.deploymentId} was already rolled back by ${deployment.rolledBack.deploymentId}`,
+        'DEPLOYMENT_ALREADY_ROLLED_BACK'
+      )
+    }
+    if (!deployment.previous) {
+      throw ErrorFactory.createApplicationError(
+        ErrorType.CONFLICT_ERROR,
+        `Deployment ${options.deploymentId} created the asset, so there is no earlier content to restore`,
+        'NO_PREVIOUS_VERSION'
+      )
+    }
+    const previous = deployment.previous
+
+    // Restoring an older version would silently undo the deployments after it
+    const newer = (await history.getHistory(deployment.connectionId, deployment.assetKey))
+      .find(record => record.version > deployment.version && !record.rolledBack)
+    if (newer) {
+      throw ErrorFactory.createApplicationError(
+        ErrorType.CONFLICT_ERROR,
+        `Deployment ${options.deploymentId} was followed by ${newer.deploymentId}; roll that back first`,
+        'NEWER_DEPLOYMENT_EXISTS',
+        { newerDeploymentId: newer.deploymentId }
+      )
+    }
+
+    // Changes made to the asset outside of deployments would be lost
+    const current = await this.circuitBreaker.execute(async () => {
+      await this.checkRateLimit()
+      return this.findAssetByCustomerKey(deployment.assetKey)
+    })
+    if (!current || this.snapshotAsset(current).content !== deployment.deployed.content) {
+      throw ErrorFactory.createApplicationError(
+        ErrorType.CONFLICT_ERROR,
+        `The live asset ${deployment.assetKey} no longer has the content deployment ${options.deploymentId} deployed`,
+        'LIVE_CONTENT_CHANGED'
+      )
     }
 
     return this.circuitBreaker.execute(async () => {
       await this.checkRateLimit()
 
-      // In a real implementation, this would restore from backup
-      // For now, we'll just mark the asset as inactive
-      const response = await this.sfmcClient!.put<any>(
-        `${this.apiEndpoints!.rest.assets}/${assetId}`,
-        {
-          status: 'inactive',
-          rollbackReason: options.reason || 'Manual rollback'
-        }
-      )
+      // Recorded first, like a deploy, so the content it replaces is kept
+      const rolledBackAt = new Date().toISOString()
+      const rollback = await history.recordDeployment({
+        deploymentId: this.newDeploymentId('rollback', previous.assetId),
+        assetKey: deployment.assetKey,
+        kind: 'rollback',
+        connectionId: options.connectionId,
+        deployedAt: rolledBackAt,
+        previous: this.snapshotAsset(current),
+        deployed: previous
+      })
+
+      try {
+        const response = await this.sfmcClient!.patch<any>(
+          `${this.apiEndpoints!.rest.assets}/${previous.assetId}`,
+          { ...previous.metadata, customerKey: previous.customerKey, content: previous.content }
+        )
+        this.updateRateLimitFromResponse(response.headers)
+      } catch (error) {
+        await history.discardDeployment(rollback.deploymentId)
+        throw error
+      }
+
+      await history.markRolledBack(options.deploymentId, {
+        at: rolledBackAt,
+        reason: options.reason,
+        deploymentId: rollback.deploymentId
+      })
 
-      this.updateRateLimitFromResponse(response.headers)
-      
       return {
         success: true,
         deploymentId: options.deploymentId,
-        rolledBackAt: new Date().toISOString(),
+        rollbackDeploymentId: rollback.deploymentId,
+        restoredVersion: deployment.version - 1,
+        version: rollback.version,
+        rolledBackAt,
         reason: options.reason
       }
     })
   }
 
   /**
-   * Batch deployment
+   * Dry run of a batch deployment: compares each deployment with the live
+   * asset with its customer key and analyses the content to deploy.
+   * Deployments whose content has errors are blocked unless
+   * batchOptions.overrideErrors is set.
+   */
+  async planBatchDeploy(options: {
+    connectionId: string
+    deployments: any[]
+    batchOptions?: any
+  }): Promise<DeploymentPlan> {
+    await this.ensureValidToken()
+    this.ensureInitialized()
+
+    if (!this.apiEndpoints) {
+      throw ErrorFactory.createSFMCApiError('API endpoints not initialized', 'NO_ENDPOINTS')
+    }
+
+    const overrideErrors = options.batchOptions?.overrideErrors === true
+    const items: DeploymentPlanItem[] = []
+
+    for (const [index, deployment] of options.deployments.entries()) {
+      const assetPayload = deployment.cloudPage
+        ? this.cloudPageAssetPayload(deployment.cloudPage)
+        : this.codeResourceAssetPayload(deployment.codeResource)
+
+      const live = await this.circuitBreaker.execute(async () => {
+        await this.checkRateLimit()
+        return this.findAssetByCustomerKey(assetPayload.customerKey)
+      })
+
+      items.push(planDeployment(
+        index,
+        this.snapshotAsset({ ...assetPayload, id: live?.id ?? '' }),
+        live ? this.snapshotAsset(live) : undefined,
+        await this.analyzeDeploymentContent(assetPayload),
+        overrideErrors
+      ))
+    }
+
+    return summarizePlan(options.connectionId, items, overrideErrors)
+  }
+
+  /**
+   * Batch deployment. Nothing is deployed when the plan for the batch has
+   * blocked deployments; deployments the plan finds unchanged are skipped.
    */
   async batchDeploy(options: {
     connectionId: string
@@ -732,12 +873,25 @@ export class SFMCIntegrationService extends AbstractBaseService {
     await this.ensureValidToken()
     this.ensureInitialized()
 
+    const plan = await this.planBatchDeploy(options)
+    if (!plan.canDeploy) {
+      throw ErrorFactory.createApplicationError(
+        ErrorType.VALIDATION_ERROR,
+        `${plan.summary.blocked} deployment(s) have code analysis errors; fix them or set overrideErrors to deploy anyway`,
+        'DEPLOYMENT_BLOCKED',
+        { blocked: plan.items.filter(item => item.blocked).map(item => item.assetKey) }
+      )
+    }
+
+    // Deploying content the live asset already has would only add a version to its history
+    const deployments = options.deployments.filter((_, index) => plan.items[index].action !== 'unchanged')
+
     const results = []
     const { continueOnError = false, parallelExecution = true, maxConcurrency = 3 } = options.batchOptions || {}
 
     if (parallelExecution) {
       // Execute deployments in parallel with concurrency limit
-      const chunks = this.chunkArray(options.deployments, maxConcurrency)
+      const chunks = this.chunkArray(deployments, maxConcurrency)
       
       for (const chunk of chunks) {
         const chunkPromises = chunk.map(async (deployment) => {
@@ -771,7 +925,7 @@ export class SFMCIntegrationService extends AbstractBaseService {
       }
     } else {
       // Execute deployments sequentially
-      for (const deployment of options.deployments) {
+      for (const deployment of deployments) {
         try {
           let result
           if (deployment.cloudPage) {
@@ -805,10 +959,65 @@ export class SFMCIntegrationService extends AbstractBaseService {
       totalDeployments: options.deployments.length,
       successfulDeployments: results.filter(r => r?.success).length,
       failedDeployments: results.filter(r => !r?.success).length,
+      unchangedDeployments: plan.summary.unchanged,
       results
     }
   }
 
+  private cloudPageAssetPayload(cloudPage: any): Record<string, any> {
+    return {
+      name: cloudPage.name,
+      customerKey: cloudPage.customerKey,
+      assetType: {
+        id: 205, // Cloud Page asset type ID
+        name: 'webpage'
+      },
+      content: cloudPage.content.html,
+      data: {
+        email: {
+          options: {
+            generateFrom: 'content'
+          }
+        }
+      }
+    }
+  }
+
+  private codeResourceAssetPayload(codeResource: any): Record<string, any> {
+    return {
+      name: codeResource.name,
+      customerKey: codeResource.customerKey,
+      assetType: {
+        id: this.getCodeResourceTypeId(codeResource.resourceType),
+        name: codeResource.resourceType
+      },
+      content: codeResource.content
+    }
+  }
+
+  private async analyzeDeploymentContent(assetPayload: Record<string, any>): Promise<DeploymentPlanItem['analysis']> {
+    const language = analysisLanguage(assetPayload.assetType.name)
+    if (!language) return undefined
+
+    const codeAnalysis = await this.codeAnalysisService()
+    const result = await codeAnalysis.analyzeCode({ code: assetPayload.content, language, analysisLevel: 'syntax' })
+    // Syntax warnings are reported with the errors; only errors block a deployment
+    return {
+      language,
+      errors: result.errors.filter(issue => issue.severity === 'error'),
+      warnings: [...result.errors.filter(issue => issue.severity !== 'error'), ...result.warnings]
+    }
+  }
+
+  // Loaded on first use, like the deployment history store
+  private async codeAnalysisService(): Promise<CodeAnalysisService> {
+    if (!this.codeAnalysis) {
+      const { CodeAnalysisService } = await import('../debugging/code-analysis.service')
+      this.codeAnalysis = new CodeAnalysisService()
+    }
+    return this.codeAnalysis
+  }
+
   /**
    * Get code resource type ID for SFMC asset type
    */
@@ -916,6 +1125,120 @@ export class SFMCIntegrationService extends AbstractBaseService {
     })
   }
 
+  // ===== DEPLOYMENT HISTORY =====
+
+  /**
+   * Deployments of an asset through the authenticated connection, oldest
+   * first. The records hold the content, so other connections get none.
+   */
+  async getDeploymentHistory(connectionId: string, assetKey: string): Promise<DeploymentRecord[]> {
+    this.ensureConnection(connectionId)
+    const history = await this.deploymentHistoryStore()
+    return history.getHistory(connectionId, assetKey)
+  }
+
+  /**
+   * Create or update the asset with the payload's customer key, recording
+   * the content it replaces. An update is recorded before the asset is
+   * written, so content that could not be saved is never overwritten.
+   * Call inside the circuit breaker.
+   */
+  private async writeVersionedAsset(connectionId: string, assetPayload: Record<string, any>): Promise<{
+    asset: { id: number; publishedURL?: string }
+    record?: DeploymentRecord
+    warnings?: string[]
+  }> {
+    const history = await this.deploymentHistoryStore()
+    const existing = await this.findAssetByCustomerKey(assetPayload.customerKey)
+
+    if (existing) {
+      let record: DeploymentRecord
+      try {
+        record = await history.recordDeployment({
+          deploymentId: this.newDeploymentId('deploy', existing.id),
+          assetKey: assetPayload.customerKey,
+          kind: 'deploy',
+          connectionId,
+          deployedAt: new Date().toISOString(),
+          previous: this.snapshotAsset(existing),
+          deployed: this.snapshotAsset({ ...existing, ...assetPayload })
+        })
+      } catch (error) {
+        this.logger.error('Asset snapshot could not be recorded', { error, customerKey: assetPayload.customerKey })
+        throw new Error('The current content could not be saved to the deployment history, so the asset was not changed')
+      }
+
+      try {
+        const response = await this.sfmcClient!.patch<any>(`${this.apiEndpoints!.rest.assets}/${existing.id}`, assetPayload)
+        this.updateRateLimitFromResponse(response.headers)
+        return { asset: response.data, record }
+      } catch (error) {
+        await history.discardDeployment(record.deploymentId)
+        throw error
+      }
+    }
+
+    const response = await this.sfmcClient!.post<any>(`${this.apiEndpoints!.rest.assets}`, assetPayload)
+    this.updateRateLimitFromResponse(response.headers)
+
+    try {
+      const record = await history.recordDeployment({
+        deploymentId: this.newDeploymentId('deploy', response.data.id),
+        assetKey: assetPayload.customerKey,
+        kind: 'deploy',
+        connectionId,
+        deployedAt: new Date().toISOString(),
+        deployed: this.snapshotAsset({ ...assetPayload, ...response.data })
+      })
+      return { asset: response.data, record }
+    } catch (error) {
+      // Nothing was overwritten; report the new asset but say the deploy was not recorded
+      this.logger.error('Deployment could not be recorded', { error, customerKey: assetPayload.customerKey })
+      return {
+        asset: response.data,
+        warnings: ['The deployment was not recorded in the deployment history']
+      }
+    }
+  }
+
+  private async findAssetByCustomerKey(customerKey: string): Promise<any | undefined> {
+    const response = await this.sfmcClient!.get<{ items?: any[] }>(
+      // OData string literals escape a quote by doubling it
+      `${this.apiEndpoints!.rest.assets}?$filter=customerKey eq '${encodeURIComponent(customerKey.replace(/'/g, "''"))}'`
+    )
+
+    this.updateRateLimitFromResponse(response.headers)
+    return response.data.items?.[0]
+  }
+
+  private snapshotAsset(asset: Record<string, any>): AssetSnapshot {
+    const metadata: Record<string, any> = {}
+    for (const field of ['name', 'description', 'assetType', 'category', 'data']) {
+      if (asset[field] !== undefined) metadata[field] = asset[field]
+    }
+
+    return {
+      assetId: String(asset.id),
+      customerKey: asset.customerKey,
+      content: asset.content ?? '',
+      metadata
+    }
+  }
+
+  // The asset id stays last, where getDeploymentStatus reads it
+  private newDeploymentId(kind: DeploymentRecord['kind'], assetId: string | number): string {
+    return `${kind}_${randomUUID()}_${assetId}`
+  }
+
+  // Loaded on first use so the Redis-backed store is only created when deploying
+  private async deploymentHistoryStore(): Promise<DeploymentHistoryManager> {
+    if (!this.deploymentHistory) {
+      const { DeploymentHistoryManager } = await import('../session/deployment-history-manager')
+      this.deploymentHistory = new DeploymentHistoryManager()
+    }
+    return this.deploymentHistory
+  }
+
   // ===== RATE LIMITING METHODS =====
 
   /**
@@ -1082,6 +1405,26 @@ export class SFMCIntegrationService extends AbstractBaseService {
     })
   }
 
+  /**
+   * Retrieve every matching object rather than the first 2,500. Each page
+   * refreshes the token if needed and goes through the circuit breaker and
+   * rate limit, like a single retrieve.
+   */
+  async *soapRetrieveAll<T = any>(request: SoapRequest, options: SoapPagingOptions = {}): AsyncGenerator<T, void, undefined> {
+    const soapClient = await this.connectedSoapClient()
+
+    yield* soapClient.retrieveAll<T>(request, {
+      ...options,
+      runPage: async pageRequest => {
+        await this.ensureValidToken()
+        return this.circuitBreaker.execute(async () => {
+          await this.checkRateLimit()
+          return pageRequest()
+        })
+      }
+    })
+  }
+
   /**
    * Execute SOAP create operation
    */
@@ -1150,6 +1493,115 @@ export class SFMCIntegrationService extends AbstractBaseService {
     })
   }
 
+  /**
+   * Start, stop, pause or resume a QueryDefinition, ImportDefinition or Automation
+   */
+  async soapPerform(request: SoapPerformRequest): Promise<SoapResponse> {
+    const soapClient = await this.connectedSoapClient()
+
+    return this.circuitBreaker.execute(async () => {
+      await this.checkRateLimit()
+      return soapClient.perform(request)
+    })
+  }
+
+  /**
+   * Execute SOAP schedule operation
+   */
+  async soapSchedule(request: SoapScheduleRequest): Promise<SoapResponse> {
+    const soapClient = await this.connectedSoapClient()
+
+    return this.circuitBreaker.execute(async () => {
+      await this.checkRateLimit()
+      return soapClient.schedule(request)
+    })
+  }
+
+  /**
+   * Execute SOAP configure operation
+   */
+  async soapConfigure(request: SoapConfigureRequest): Promise<SoapResponse> {
+    const soapClient = await this.connectedSoapClient()
+
+    return this.circuitBreaker.execute(async () => {
+      await this.checkRateLimit()
+      return soapClient.configure(request)
+    })
+  }
+
+  /**
+   * Describe an object type. Definitions are cached per tenant, so
+   * checking property names rarely costs a request.
+   */
+  async soapDescribe(objectType: string, forceRefresh: boolean = false): Promise<SoapObjectDefinition> {
+    const soapClient = await this.connectedSoapClient()
+    const instanceId = this.currentConnection!.subdomain
+    const cache = await this.sfmcDataCache()
+
+    if (!forceRefresh) {
+      const cached = await cache.getObjectDefinition(instanceId, objectType)
+      if (cached) return cached
+    }
+
+    const response = await this.circuitBreaker.execute(async () => {
+      await this.checkRateLimit()
+      return soapClient.describe([objectType])
+    })
+
+    const definition = response.results[0]
+    if (response.errors || !definition) {
+      throw ErrorFactory.createSFMCApiError(
+        `Failed to describe ${objectType}`,
+        response.errors?.[0].errorCode,
+        response.errors?.[0].statusMessage
+      )
+    }
+
+    await cache.cacheObjectDefinition(instanceId, objectType, definition)
+    return definition
+  }
+
+  /**
+   * Check property names against the described object type before
+   * sending them in a retrieve, create, update or filter
+   */
+  async validateSoapProperties(
+    objectType: string,
+    properties: string[],
+    usage: SoapPropertyUsage
+  ): Promise<SoapPropertyIssue[]> {
+    return findInvalidProperties(await this.soapDescribe(objectType), properties, usage)
+  }
+
+  // Requests for another connection than the authenticated one would read another account's data
+  private ensureConnection(connectionId: string): void {
+    if (!this.tokenInfo || !this.currentConnection) {
+      throw ErrorFactory.createAuthenticationError('No active authentication session')
+    }
+    if (this.currentConnection.connectionId !== connectionId) {
+      throw ErrorFactory.createAuthorizationError(`Connection ${connectionId} is not the authenticated connection`)
+    }
+  }
+
+  private async connectedSoapClient(): Promise<SFMCSoapClient> {
+    await this.ensureValidToken()
+    this.ensureInitialized()
+
+    if (!this.soapClient) {
+      throw ErrorFactory.createSFMCApiError('SOAP client not initialized', 'NO_SOAP_CLIENT')
+    }
+    return this.soapClient
+  }
+
+  // Loaded on first use so the Redis-backed cache is only created when it is read
+  private async sfmcDataCache(): Promise<SFMCDataCache> {
+    if (!this.dataCache) {
+      const { SFMCDataCache } = await import('../cache/sfmc-data-cache')
+      this.dataCache = new SFMCDataCache()
+    }
+    return this.dataCache
+  }
+
   /**
    * Store encrypted connection details
    */
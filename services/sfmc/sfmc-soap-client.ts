@@ -4,6 +4,7 @@ import { HttpClient } from '../../utils/http/client'
 import { RetryManager } from '../../utils/errors/retry'
 import { ErrorFactory } from '../../utils/errors/error-factory'
 import { ErrorType } from '../../types/errors'
+import { parseSoapResponse, SoapObjectDefinition } from './soap-response'
 
 export interface SoapRequest {
   action: string
@@ -13,10 +14,76 @@ export interface SoapRequest {
   options?: SoapOptions
 }
 
-export interface SoapFilter {
+export type SoapSimpleOperator =
+  | 'equals' | 'notEquals'
+  | 'greaterThan' | 'greaterThanOrEqual' | 'lessThan' | 'lessThanOrEqual'
+  | 'like' | 'between' | 'IN' | 'isNull' | 'isNotNull'
+
+// Dates are sent as DateValue, everything else as Value
+export type SoapFilterValue = string | number | boolean | Date
+
+export interface SoapSimpleFilter {
   property: string
-  simpleOperator: 'equals' | 'notEquals' | 'greaterThan' | 'lessThan' | 'like'
-  value: string | number | boolean
+  simpleOperator: SoapSimpleOperator
+  // Two values for between, one or more for IN, none for isNull and isNotNull
+  value?: SoapFilterValue | SoapFilterValue[]
+}
+
+export interface SoapComplexFilter {
+  leftOperand: SoapFilter
+  logicalOperator: 'AND' | 'OR'
+  rightOperand: SoapFilter
+}
+
+export type SoapFilter = SoapSimpleFilter | SoapComplexFilter
+
+export interface SoapPagingOptions {
+  // Stop after this many rows, even when SFMC has more
+  maxRows?: number
+  // Ends the iteration, cancelling the page request in flight
+  signal?: AbortSignal
+  // Runs each page request, for example behind a circuit breaker. The
+  // envelope is built when the request runs, so it carries the current token.
+  runPage?: <R>(request: () => Promise<R>) => Promise<R>
+}
+
+// Identifies an existing object by either key
+export interface SoapObjectKey {
+  objectID?: string
+  customerKey?: string
+}
+
+export interface SoapPerformRequest {
+  action: 'start' | 'stop' | 'pause' | 'resume'
+  // QueryDefinition, ImportDefinition and Automation are the usual ones
+  objectType: string
+  definitions: SoapObjectKey[]
+}
+
+export interface SoapSchedule {
+  startDateTime: Date
+  recurrenceType: 'Minutely' | 'Hourly' | 'Daily' | 'Weekly'
+  // Every n minutes, hours, days or weeks; 1 when omitted
+  interval?: number
+  // Weekly only
+  days?: Array<'Sunday' | 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday'>
+  // At most one of these; without either the schedule never ends
+  endDateTime?: Date
+  occurrences?: number
+}
+
+export interface SoapScheduleRequest {
+  action: 'start' | 'stop'
+  objectType: string
+  interactions: SoapObjectKey[]
+  schedule: SoapSchedule
+}
+
+export interface SoapConfigureRequest {
+  action: 'create' | 'update' | 'delete'
+  // For example PropertyDefinition, to manage profile attributes
+  objectType: string
+  configurations: Record<string, any>[]
 }
 
 export interface SoapOptions {
@@ -31,9 +98,24 @@ export interface SoapResponse<T = any> {
   overallStatus: string
   requestId: string
   results: T[]
+  // Create, Update and Delete: one status per object sent, in request order
+  statuses?: SoapObjectStatus<T>[]
   errors?: SoapError[]
 }
 
+export interface SoapObjectStatus<T = any> {
+  statusCode: string
+  statusMessage: string
+  ordinalID?: number
+  errorCode?: string
+  newID?: number
+  newObjectID?: string
+  // Perform: the queued task
+  taskID?: string
+  // The object as SFMC echoed it back
+  object?: T
+}
+
 export interface SoapError {
   errorCode: string
   statusCode: string
@@ -41,6 +123,16 @@ export interface SoapError {
   ordinalID?: number
 }
 
+/**
+ * Join filters into a left-leaning ComplexFilterPart tree
+ */
+export function combineFilters(logicalOperator: 'AND' | 'OR', filters: SoapFilter[]): SoapFilter {
+  if (filters.length === 0) {
+    throw ErrorFactory.createValidationError('At least one filter is required', 'filters')
+  }
+  return filters.reduce((leftOperand, rightOperand) => ({ leftOperand, logicalOperator, rightOperand }))
+}
+
 export class SFMCSoapClient {
   private httpClient: HttpClient
   private soapEndpoint: string
@@ -71,22 +163,50 @@ export class SFMCSoapClient {
    * Retrieve objects from SFMC via SOAP
    */
   async retrieve<T = any>(request: SoapRequest): Promise<SoapResponse<T>> {
-    const soapEnvelope = this.buildRetrieveEnvelope(request)
-    
-    return RetryManager.execute(async () => {
-      const response = await this.httpClient.post<string>(
-        this.soapEndpoint,
-        soapEnvelope,
-        {
-          headers: {
-            'Content-Type': 'text/xml; charset=utf-8',
-            'SOAPAction': 'Retrieve'
-          }
-        }
-      )
+    return this.send<T>('Retrieve', this.buildRetrieveEnvelope(request))
+  }
 
-      return this.parseSoapResponse<T>(response.data)
-    })
+  /**
+   * Retrieve every matching object, following ContinueRequest while SFMC
+   * reports MoreDataAvailable (a page holds at most 2,500 rows)
+   */
+  async *retrieveAll<T = any>(request: SoapRequest, options: SoapPagingOptions = {}): AsyncGenerator<T, void, undefined> {
+    const maxRows = options.maxRows ?? Infinity
+    const runPage = options.runPage ?? (<R>(pageRequest: () => Promise<R>) => pageRequest())
+    let continueRequestId: string | undefined
+    let rows = 0
+
+    while (rows < maxRows && !options.signal?.aborted) {
+      let page: SoapResponse<T>
+      try {
+        page = await runPage(() => this.send<T>(
+          'Retrieve',
+          continueRequestId ? this.buildContinueEnvelope(continueRequestId) : this.buildRetrieveEnvelope(request),
+          options.signal
+        ))
+      } catch (error) {
+        if (options.signal?.aborted) return
+        throw error
+      }
+
+      if (page.errors) {
+        throw ErrorFactory.createSFMCApiError(
+          `SOAP retrieve of ${request.objectType} failed`,
+          page.errors[0].errorCode,
+          page.errors[0].statusMessage,
+          this.soapEndpoint
+        )
+      }
+
+      for (const result of page.results) {
+        if (rows >= maxRows || options.signal?.aborted) return
+        rows++
+        yield result
+      }
+
+      if (page.overallStatus !== 'MoreDataAvailable' || !page.requestId) return
+      continueRequestId = page.requestId
+    }
   }
 
   /**
@@ -177,6 +297,89 @@ export class SFMCSoapClient {
     })
   }
 
+  /**
+   * Start, stop, pause or resume definitions such as a QueryDefinition,
+   * ImportDefinition or Automation
+   */
+  async perform(request: SoapPerformRequest): Promise<SoapResponse> {
+    const definitions = request.definitions
+      .map(key => this.buildObjectXml('Definition', request.objectType, this.keyProperties(key)))
+      .join('\n')
+
+    return this.send('Perform', this.wrapEnvelope(`<PerformRequestMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+      <Action>${request.action}</Action>
+      <Definitions>
+        ${definitions}
+      </Definitions>
+    </PerformRequestMsg>`))
+  }
+
+  /**
+   * Describe object types: their properties and what each can be used for
+   */
+  async describe(objectTypes: string[]): Promise<SoapResponse<SoapObjectDefinition>> {
+    const requests = objectTypes
+      .map(objectType => `<ObjectDefinitionRequest><ObjectType>${this.escapeXml(objectType)}</ObjectType></ObjectDefinitionRequest>`)
+      .join('\n')
+
+    return this.send('Describe', this.wrapEnvelope(`<DefinitionRequestMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+      <DescribeRequests>
+        ${requests}
+      </DescribeRequests>
+    </DefinitionRequestMsg>`))
+  }
+
+  /**
+   * Start or stop a recurring schedule on objects such as an Automation
+   */
+  async schedule(request: SoapScheduleRequest): Promise<SoapResponse> {
+    const interactions = request.interactions
+      .map(key => this.buildObjectXml('Interaction', request.objectType, this.keyProperties(key)))
+      .join('\n')
+
+    return this.send('Schedule', this.wrapEnvelope(`<ScheduleRequestMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+      <Action>${request.action}</Action>
+      ${this.buildScheduleXml(request.schedule)}
+      <Interactions>
+        ${interactions}
+      </Interactions>
+    </ScheduleRequestMsg>`))
+  }
+
+  /**
+   * Create, update or delete account configuration objects
+   */
+  async configure(request: SoapConfigureRequest): Promise<SoapResponse> {
+    const configurations = request.configurations
+      .map(configuration => this.buildObjectXml('Configuration', request.objectType, configuration))
+      .join('\n')
+
+    return this.send('Configure', this.wrapEnvelope(`<ConfigureRequestMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+      <Action>${request.action}</Action>
+      <Configurations>
+        ${configurations}
+      </Configurations>
+    </ConfigureRequestMsg>`))
+  }
+
+  private async send<T = any>(soapAction: string, soapEnvelope: string, signal?: AbortSignal): Promise<SoapResponse<T>> {
+    return RetryManager.execute(async () => {
+      const response = await this.httpClient.post<string>(
+        this.soapEndpoint,
+        soapEnvelope,
+        {
+          headers: {
+            'Content-Type': 'text/xml; charset=utf-8',
+            'SOAPAction': soapAction
+          },
+          signal
+        }
+      )
+
+      return this.parseSoapResponse<T>(response.data)
+    })
+  }
+
   // ===== SOAP ENVELOPE BUILDERS =====
 
   private buildRetrieveEnvelope(request: SoapRequest): string {
@@ -202,6 +405,28 @@ export class SFMCSoapClient {
 </soap:Envelope>`
   }
 
+  private buildContinueEnvelope(requestId: string): string {
+    return this.wrapEnvelope(`<RetrieveRequestMsg xmlns="http://exacttarget.com/wsdl/partnerAPI">
+      <RetrieveRequest>
+        <ContinueRequest>${this.escapeXml(requestId)}</ContinueRequest>
+      </RetrieveRequest>
+    </RetrieveRequestMsg>`)
+  }
+
+  private wrapEnvelope(body: string): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:tns="http://exacttarget.com/wsdl/partnerAPI" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <soap:Header>
+    <tns:fuelOAuth xmlns:tns="http://exacttarget.com/wsdl/partnerAPI">
+      <tns:token>${this.accessToken}</tns:token>
+    </tns:fuelOAuth>
+  </soap:Header>
+  <soap:Body>
+    ${body}
+  </soap:Body>
+</soap:Envelope>`
+  }
+
   private buildCreateEnvelope(request: SoapRequest): string {
     const objects = this.buildObjectsXml(request.objectType, request.properties)
     const options = request.options ? this.buildOptionsXml(request.options) : ''
@@ -295,22 +520,93 @@ export class SFMCSoapClient {
 
   private buildObjectsXml(objectType: string, properties?: Record<string, any>): string {
     if (!properties) return ''
+    return this.buildObjectXml('Objects', objectType, properties)
+  }
 
+  private buildObjectXml(element: string, objectType: string, properties: Record<string, any>): string {
     const propertiesXml = Object.entries(properties)
       .map(([key, value]) => `<${key}>${this.escapeXml(String(value))}</${key}>`)
       .join('\n')
 
-    return `<Objects xsi:type="${objectType}">
+    return `<${element} xsi:type="${objectType}">
       ${propertiesXml}
-    </Objects>`
+    </${element}>`
+  }
+
+  private keyProperties(key: SoapObjectKey): Record<string, string> {
+    if (key.objectID) return { ObjectID: key.objectID }
+    if (key.customerKey) return { CustomerKey: key.customerKey }
+    throw ErrorFactory.createValidationError('An ObjectID or CustomerKey is required', 'objectID', key)
   }
 
-  private buildFilterXml(filter: SoapFilter): string {
-    return `<Filter xsi:type="SimpleFilterPart">
+  private buildScheduleXml(schedule: SoapSchedule): string {
+    const type = schedule.recurrenceType
+    const unit = { Minutely: 'Minute', Hourly: 'Hour', Daily: 'Day', Weekly: 'Week' }[type]
+    const pattern = type === 'Weekly' ? 'ByWeek' : 'Interval'
+    const days = type === 'Weekly'
+      ? (schedule.days ?? []).map(day => `<${day}>true</${day}>`).join('\n')
+      : ''
+    const range = schedule.endDateTime
+      ? `<RecurrenceRangeType>EndOn</RecurrenceRangeType>
+      <EndDateTime>${schedule.endDateTime.toISOString()}</EndDateTime>`
+      : schedule.occurrences
+        ? `<RecurrenceRangeType>EndAfter</RecurrenceRangeType>
+      <Occurrences>${schedule.occurrences}</Occurrences>`
+        : ''
+
+    return `<Schedule>
+      <Recurrence xsi:type="${type}Recurrence">
+        <${type}RecurrencePatternType>${pattern}</${type}RecurrencePatternType>
+        <${unit}Interval>${schedule.interval ?? 1}</${unit}Interval>
+        ${days}
+      </Recurrence>
+      <RecurrenceType>${type}</RecurrenceType>
+      ${range}
+      <StartDateTime>${schedule.startDateTime.toISOString()}</StartDateTime>
+    </Schedule>`
+  }
+
+  private buildFilterXml(filter: SoapFilter, element = 'Filter'): string {
+    if ('logicalOperator' in filter) {
+      return `<${element} xsi:type="ComplexFilterPart">
+      ${this.buildFilterXml(filter.leftOperand, 'LeftOperand')}
+      <LogicalOperator>${filter.logicalOperator}</LogicalOperator>
+      ${this.buildFilterXml(filter.rightOperand, 'RightOperand')}
+    </${element}>`
+    }
+
+    const values = this.filterValues(filter)
+      .map(value => value instanceof Date
+        ? `<DateValue>${value.toISOString()}</DateValue>`
+        : `<Value>${this.escapeXml(String(value))}</Value>`)
+      .join('\n')
+
+    return `<${element} xsi:type="SimpleFilterPart">
       <Property>${this.escapeXml(filter.property)}</Property>
       <SimpleOperator>${filter.simpleOperator}</SimpleOperator>
-      <Value>${this.escapeXml(String(filter.value))}</Value>
-    </Filter>`
+      ${values}
+    </${element}>`
+  }
+
+  // The values an operator takes, checked against its arity
+  private filterValues(filter: SoapSimpleFilter): SoapFilterValue[] {
+    const values = filter.value === undefined ? [] : Array.isArray(filter.value) ? filter.value : [filter.value]
+    const [expected, valid] = filter.simpleOperator === 'between'
+      ? ['exactly two values', values.length === 2]
+      : filter.simpleOperator === 'IN'
+        ? ['at least one value', values.length > 0]
+        : filter.simpleOperator === 'isNull' || filter.simpleOperator === 'isNotNull'
+          ? ['no value', values.length === 0]
+          : ['exactly one value', values.length === 1]
+
+    if (!valid) {
+      throw ErrorFactory.createValidationError(
+        `The ${filter.simpleOperator} filter on ${filter.property} takes ${expected}`,
+        'filter.value',
+        filter.value
+      )
+    }
+    return values
   }
 
   private buildOptionsXml(options: SoapOptions): string {
@@ -337,35 +633,7 @@ export class SFMCSoapClient {
 
   private parseSoapResponse<T>(xmlResponse: string): SoapResponse<T> {
     try {
-      // This is a simplified XML parser - in production, use a proper XML parser
-      const overallStatus = this.extractXmlValue(xmlResponse, 'OverallStatus') || 'Unknown'
-      const requestId = this.extractXmlValue(xmlResponse, 'RequestID') || ''
-      
-      // Extract results (simplified)
-      const results: T[] = []
-      
-      // Extract errors if any
-      const errors: SoapError[] = []
-      const errorMatches = xmlResponse.match(/<StatusCode>([^<]+)<\/StatusCode>/g)
-      if (errorMatches) {
-        errorMatches.forEach(match => {
-          const statusCode = this.extractXmlValue(match, 'StatusCode')
-          if (statusCode && statusCode !== 'OK') {
-            errors.push({
-              errorCode: statusCode,
-              statusCode,
-              statusMessage: this.extractXmlValue(xmlResponse, 'StatusMessage') || 'Unknown error'
-            })
-          }
-        })
-      }
-
-      return {
-        overallStatus,
-        requestId,
-        results,
-        errors: errors.length > 0 ? errors : undefined
-      }
+      return parseSoapResponse<T>(xmlResponse)
     } catch (error) {
       throw ErrorFactory.createSFMCError(
         'Failed to parse SOAP response',
@@ -375,12 +643,6 @@ export class SFMCSoapClient {
     }
   }
 
-  private extractXmlValue(xml: string, tagName: string): string | null {
-    const regex = new RegExp(`<${tagName}>([^<]+)<\/${tagName}>`)
-    const match = xml.match(regex)
-    return match ? match[1] : null
-  }
-
   private escapeXml(text: string): string {
     return text
       .replace(/&/g, '&amp;')
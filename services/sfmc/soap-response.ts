@@ -0,0 +1,522 @@
+// Typed reading of SFMC SOAP responses
+
+import type { SoapError, SoapObjectStatus, SoapResponse } from './sfmc-soap-client'
+import { XmlElement, childElement, childElements, childText, parseXml, xsiType } from './soap-xml'
+
+export interface SoapObjectReference {
+  customerKey?: string
+  name?: string
+}
+
+export interface SoapDataExtension {
+  objectType: 'DataExtension'
+  objectID?: string
+  customerKey?: string
+  name: string
+  description?: string
+  categoryID?: number
+  isSendable?: boolean
+  isTestable?: boolean
+  sendableSubscriberField?: string
+  // Only present when the fields were retrieved with the Data Extension
+  fields?: SoapDataExtensionField[]
+  createdDate?: Date
+  modifiedDate?: Date
+}
+
+export interface SoapDataExtensionField {
+  objectType: 'DataExtensionField'
+  objectID?: string
+  customerKey?: string
+  name: string
+  fieldType?: string
+  maxLength?: number
+  scale?: number
+  isPrimaryKey?: boolean
+  isRequired?: boolean
+  defaultValue?: string
+  ordinal?: number
+  dataExtension?: SoapObjectReference
+}
+
+// A row of a Data Extension; values stay strings as SFMC returns them
+export interface SoapDataExtensionObject {
+  objectType: 'DataExtensionObject'
+  name?: string
+  customerKey?: string
+  properties: Record<string, string>
+}
+
+export interface SoapSubscriber {
+  objectType: 'Subscriber'
+  id?: number
+  subscriberKey: string
+  emailAddress?: string
+  status?: string
+  emailTypePreference?: string
+  createdDate?: Date
+  attributes: Record<string, string>
+  lists: Array<{ id: number; status?: string }>
+}
+
+export interface SoapSend {
+  objectType: 'Send'
+  id: number
+  emailID?: number
+  emailName?: string
+  subject?: string
+  fromName?: string
+  fromAddress?: string
+  status?: string
+  sendDate?: Date
+  createdDate?: Date
+  numberSent?: number
+  numberDelivered?: number
+  numberErrored?: number
+  uniqueOpens?: number
+  uniqueClicks?: number
+}
+
+export interface SoapQueryDefinition {
+  objectType: 'QueryDefinition'
+  objectID?: string
+  customerKey?: string
+  name: string
+  description?: string
+  queryText?: string
+  targetType?: string
+  targetUpdateType?: string
+  dataExtensionTarget?: SoapObjectReference
+  categoryID?: number
+  createdDate?: Date
+  modifiedDate?: Date
+}
+
+export type SoapAutomationStatus =
+  | 'Error' | 'BuildError' | 'Building' | 'Ready' | 'Running'
+  | 'Paused' | 'Stopped' | 'Scheduled' | 'AwaitingTrigger' | 'InactiveTrigger'
+
+export interface SoapAutomation {
+  objectType: 'Automation'
+  objectID?: string
+  customerKey?: string
+  name: string
+  description?: string
+  status?: SoapAutomationStatus
+  isActive?: boolean
+  categoryID?: number
+  createdDate?: Date
+  modifiedDate?: Date
+  lastRunTime?: Date
+}
+
+// Any other object type, read as nested properties; repeated elements become arrays
+export interface SoapGenericObject {
+  objectType: string
+  [property: string]: unknown
+}
+
+export type SoapObject =
+  | SoapDataExtension
+  | SoapDataExtensionField
+  | SoapDataExtensionObject
+  | SoapSubscriber
+  | SoapSend
+  | SoapQueryDefinition
+  | SoapAutomation
+  | SoapGenericObject
+
+export interface SoapPropertyDefinition {
+  name: string
+  dataType?: string
+  maxLength?: number
+  isRequired?: boolean
+  isRetrievable?: boolean
+  isCreatable?: boolean
+  isUpdatable?: boolean
+  isFilterable?: boolean
+  isNillable?: boolean
+}
+
+// What Describe reports about an object type
+export interface SoapObjectDefinition {
+  name: string
+  isCreatable?: boolean
+  isUpdatable?: boolean
+  isRetrievable?: boolean
+  properties: SoapPropertyDefinition[]
+  // Account-specific properties, such as the profile attributes of Subscriber
+  extendedProperties: SoapPropertyDefinition[]
+}
+
+export type SoapPropertyUsage = 'retrieve' | 'create' | 'update' | 'filter'
+
+export interface SoapPropertyIssue {
+  property: string
+  reason: 'unknown' | 'unsupported'
+  message: string
+}
+
+// Automation.Status is numeric on the wire, starting at -1
+const AUTOMATION_STATUSES: SoapAutomationStatus[] = [
+  'Error', 'BuildError', 'Building', 'Ready', 'Running', 'Paused', 'Stopped', 'Scheduled', 'AwaitingTrigger', 'InactiveTrigger'
+]
+
+const OBJECT_READERS: Record<string, (element: XmlElement) => SoapObject> = {
+  DataExtension: readDataExtension,
+  DataExtensionField: readDataExtensionField,
+  DataExtensionObject: readDataExtensionObject,
+  Subscriber: readSubscriber,
+  Send: readSend,
+  QueryDefinition: readQueryDefinition,
+  Automation: readAutomation
+}
+
+/**
+ * Parse the envelope of any SOAP response. Retrieve results are the
+ * objects themselves and Describe results their definitions; the other
+ * actions return one status per object sent, with the echoed object as
+ * the result.
+ */
+export function parseSoapResponse<T = SoapObject>(xml: string): SoapResponse<T> {
+  const envelope = parseXml(xml)
+  const body = childElement(envelope, 'Body')
+  if (!body) {
+    throw new Error('SOAP envelope has no Body')
+  }
+
+  const fault = childElement(body, 'Fault')
+  if (fault) {
+    const message = childText(fault, 'faultstring') ?? 'SOAP fault'
+    return {
+      overallStatus: 'Error',
+      requestId: '',
+      results: [],
+      errors: [{ errorCode: childText(fault, 'faultcode') ?? 'Fault', statusCode: 'Error', statusMessage: message }]
+    }
+  }
+
+  const message = body.children[0]
+  if (!message) {
+    throw new Error('SOAP Body is empty')
+  }
+
+  const overallStatus = childText(message, 'OverallStatus') ?? 'Unknown'
+  const requestId = childText(message, 'RequestID') ?? ''
+  const errors: SoapError[] = []
+
+  // Describe answers with the definitions alone, without a status
+  if (message.name === 'DefinitionResponseMsg') {
+    return {
+      overallStatus: 'OK',
+      requestId,
+      results: childElements(message, 'ObjectDefinition').map(entry => readObjectDefinition(entry) as T)
+    }
+  }
+
+  // Perform, Schedule and Configure wrap each status in Results/Result
+  const entries = childElements(message, 'Results').flatMap(entry => {
+    const nested = childElements(entry, 'Result')
+    return nested.length > 0 ? nested : [entry]
+  })
+
+  // Statuses come with Create, Update and Delete; Retrieve only has an overall status
+  if (entries.some(entry => childElement(entry, 'StatusCode'))) {
+    const statuses = entries.map(entry => readStatus<T>(entry))
+    for (const status of statuses) {
+      if (status.statusCode !== 'OK') {
+        errors.push({
+          errorCode: status.errorCode ?? status.statusCode,
+          statusCode: status.statusCode,
+          statusMessage: status.statusMessage,
+          ordinalID: status.ordinalID
+        })
+      }
+    }
+    return {
+      overallStatus,
+      requestId,
+      results: statuses.flatMap(status => status.object === undefined ? [] : [status.object]),
+      statuses,
+      errors: errors.length > 0 ? errors : undefined
+    }
+  }
+
+  // Retrieve reports failures as "Error: <message>" in place of the status
+  if (/^error/i.test(overallStatus)) {
+    const statusMessage = overallStatus.replace(/^error:?\s*/i, '') || overallStatus
+    errors.push({ errorCode: 'Error', statusCode: 'Error', statusMessage })
+  }
+
+  return {
+    overallStatus,
+    requestId,
+    results: entries.map(entry => readSoapObject(entry) as T),
+    errors: errors.length > 0 ? errors : undefined
+  }
+}
+
+/**
+ * Read an object by its xsi:type, falling back to its plain properties
+ */
+export function readSoapObject(element: XmlElement): SoapObject {
+  const objectType = xsiType(element) ?? element.name
+  const reader = OBJECT_READERS[objectType]
+  if (reader) return reader(element)
+
+  const properties = toPlainValue(element)
+  return { ...(typeof properties === 'object' ? properties : {}), objectType }
+}
+
+/**
+ * Check property names against a Describe result before sending them.
+ * Only the first segment of a dotted path such as Client.ID is checked.
+ */
+export function findInvalidProperties(
+  definition: SoapObjectDefinition,
+  properties: string[],
+  usage: SoapPropertyUsage
+): SoapPropertyIssue[] {
+  const known = new Map([...definition.properties, ...definition.extendedProperties].map(property => [property.name, property]))
+  const capability = { retrieve: 'isRetrievable', create: 'isCreatable', update: 'isUpdatable', filter: 'isFilterable' } as const
+  const issues: SoapPropertyIssue[] = []
+
+  for (const property of properties) {
+    const name = property.split('.')[0]
+    const described = known.get(name)
+    if (!described) {
+      issues.push({ property, reason: 'unknown', message: `${definition.name} has no property ${name}` })
+    } else if (described[capability[usage]] === false) {
+      issues.push({ property, reason: 'unsupported', message: `${definition.name}.${name} is not ${capability[usage].slice(2).toLowerCase()}` })
+    }
+  }
+  return issues
+}
+
+function readStatus<T>(element: XmlElement): SoapObjectStatus<T> {
+  const object = childElement(element, 'Object')
+  // Perform returns the task it queued, whose ID can be polled
+  const task = childElement(element, 'Task')
+  return withoutUndefined({
+    statusCode: childText(element, 'StatusCode') ?? 'Unknown',
+    statusMessage: childText(element, 'StatusMessage') ?? '',
+    ordinalID: readNumber(element, 'OrdinalID'),
+    errorCode: childText(element, 'ErrorCode'),
+    newID: readNumber(element, 'NewID'),
+    newObjectID: childText(element, 'NewObjectID'),
+    taskID: task ? childText(task, 'ID') : undefined,
+    object: object ? readSoapObject(object) as T : undefined
+  })
+}
+
+function readObjectDefinition(element: XmlElement): SoapObjectDefinition {
+  const extended = childElement(element, 'ExtendedProperties')
+  return withoutUndefined({
+    name: childText(element, 'Name') ?? childText(element, 'ObjectType') ?? '',
+    isCreatable: readBoolean(element, 'IsCreatable'),
+    isUpdatable: readBoolean(element, 'IsUpdatable'),
+    isRetrievable: readBoolean(element, 'IsRetrievable'),
+    properties: childElements(element, 'Properties').map(readPropertyDefinition),
+    extendedProperties: extended ? childElements(extended, 'ExtendedProperty').map(readPropertyDefinition) : []
+  })
+}
+
+function readPropertyDefinition(element: XmlElement): SoapPropertyDefinition {
+  return withoutUndefined({
+    name: childText(element, 'Name') ?? '',
+    dataType: childText(element, 'DataType'),
+    maxLength: readNumber(element, 'MaxLength'),
+    isRequired: readBoolean(element, 'IsRequired'),
+    isRetrievable: readBoolean(element, 'IsRetrievable'),
+    isCreatable: readBoolean(element, 'IsCreatable'),
+    isUpdatable: readBoolean(element, 'IsUpdatable'),
+    isFilterable: readBoolean(element, 'IsFilterable'),
+    isNillable: readBoolean(element, 'IsNillable')
+  })
+}
+
+function readDataExtension(element: XmlElement): SoapDataExtension {
+  const fields = childElement(element, 'Fields')
+  const subscriberField = childElement(element, 'SendableSubscriberField')
+  return withoutUndefined({
+    objectType: 'DataExtension' as const,
+    objectID: childText(element, 'ObjectID'),
+    customerKey: childText(element, 'CustomerKey'),
+    name: childText(element, 'Name') ?? '',
+    description: childText(element, 'Description'),
+    categoryID: readNumber(element, 'CategoryID'),
+    isSendable: readBoolean(element, 'IsSendable'),
+    isTestable: readBoolean(element, 'IsTestable'),
+    sendableSubscriberField: subscriberField ? childText(subscriberField, 'Name') : undefined,
+    fields: fields ? childElements(fields, 'Field').map(readDataExtensionField) : undefined,
+    createdDate: readDate(element, 'CreatedDate'),
+    modifiedDate: readDate(element, 'ModifiedDate')
+  })
+}
+
+function readDataExtensionField(element: XmlElement): SoapDataExtensionField {
+  const dataExtension = childElement(element, 'DataExtension')
+  return withoutUndefined({
+    objectType: 'DataExtensionField' as const,
+    objectID: childText(element, 'ObjectID'),
+    customerKey: childText(element, 'CustomerKey'),
+    name: childText(element, 'Name') ?? '',
+    fieldType: childText(element, 'FieldType'),
+    maxLength: readNumber(element, 'MaxLength'),
+    scale: readNumber(element, 'Scale'),
+    isPrimaryKey: readBoolean(element, 'IsPrimaryKey'),
+    isRequired: readBoolean(element, 'IsRequired'),
+    defaultValue: childText(element, 'DefaultValue'),
+    ordinal: readNumber(element, 'Ordinal'),
+    dataExtension: dataExtension ? readReference(dataExtension) : undefined
+  })
+}
+
+function readDataExtensionObject(element: XmlElement): SoapDataExtensionObject {
+  return withoutUndefined({
+    objectType: 'DataExtensionObject' as const,
+    name: childText(element, 'Name'),
+    customerKey: childText(element, 'CustomerKey'),
+    properties: readNameValues(childElement(element, 'Properties'), 'Property')
+  })
+}
+
+function readSubscriber(element: XmlElement): SoapSubscriber {
+  return withoutUndefined({
+    objectType: 'Subscriber' as const,
+    id: readNumber(element, 'ID'),
+    subscriberKey: childText(element, 'SubscriberKey') ?? '',
+    emailAddress: childText(element, 'EmailAddress'),
+    status: childText(element, 'Status'),
+    emailTypePreference: childText(element, 'EmailTypePreference'),
+    createdDate: readDate(element, 'CreatedDate'),
+    attributes: readNameValues(element, 'Attributes'),
+    lists: childElements(element, 'Lists').map(list => withoutUndefined({
+      id: readNumber(list, 'ID') ?? 0,
+      status: childText(list, 'Status')
+    }))
+  })
+}
+
+function readSend(element: XmlElement): SoapSend {
+  const email = childElement(element, 'Email')
+  return withoutUndefined({
+    objectType: 'Send' as const,
+    id: readNumber(element, 'ID') ?? 0,
+    emailID: email ? readNumber(email, 'ID') : undefined,
+    emailName: childText(element, 'EmailName'),
+    subject: childText(element, 'Subject'),
+    fromName: childText(element, 'FromName'),
+    fromAddress: childText(element, 'FromAddress'),
+    status: childText(element, 'Status'),
+    sendDate: readDate(element, 'SendDate'),
+    createdDate: readDate(element, 'CreatedDate'),
+    numberSent: readNumber(element, 'NumberSent'),
+    numberDelivered: readNumber(element, 'NumberDelivered'),
+    numberErrored: readNumber(element, 'NumberErrored'),
+    uniqueOpens: readNumber(element, 'UniqueOpens'),
+    uniqueClicks: readNumber(element, 'UniqueClicks')
+  })
+}
+
+function readQueryDefinition(element: XmlElement): SoapQueryDefinition {
+  const target = childElement(element, 'DataExtensionTarget')
+  return withoutUndefined({
+    objectType: 'QueryDefinition' as const,
+    objectID: childText(element, 'ObjectID'),
+    customerKey: childText(element, 'CustomerKey'),
+    name: childText(element, 'Name') ?? '',
+    description: childText(element, 'Description'),
+    queryText: childText(element, 'QueryText'),
+    targetType: childText(element, 'TargetType'),
+    targetUpdateType: childText(element, 'TargetUpdateType'),
+    dataExtensionTarget: target ? readReference(target) : undefined,
+    categoryID: readNumber(element, 'CategoryID'),
+    createdDate: readDate(element, 'CreatedDate'),
+    modifiedDate: readDate(element, 'ModifiedDate')
+  })
+}
+
+function readAutomation(element: XmlElement): SoapAutomation {
+  const status = readNumber(element, 'Status')
+  return withoutUndefined({
+    objectType: 'Automation' as const,
+    objectID: childText(element, 'ObjectID'),
+    customerKey: childText(element, 'CustomerKey'),
+    name: childText(element, 'Name') ?? '',
+    description: childText(element, 'Description'),
+    status: status === undefined ? undefined : AUTOMATION_STATUSES[status + 1],
+    isActive: readBoolean(element, 'IsActive'),
+    categoryID: readNumber(element, 'CategoryID'),
+    createdDate: readDate(element, 'CreatedDate'),
+    modifiedDate: readDate(element, 'ModifiedDate'),
+    lastRunTime: readDate(element, 'LastRunTime')
+  })
+}
+
+function readReference(element: XmlElement): SoapObjectReference {
+  return withoutUndefined({
+    customerKey: childText(element, 'CustomerKey'),
+    name: childText(element, 'Name')
+  })
+}
+
+// <Property><Name>..</Name><Value>..</Value></Property> pairs under a parent
+function readNameValues(parent: XmlElement | undefined, name: string): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const pair of parent ? childElements(parent, name) : []) {
+    const key = childText(pair, 'Name')
+    if (key !== undefined) values[key] = childText(pair, 'Value') ?? ''
+  }
+  return values
+}
+
+function readNumber(element: XmlElement, name: string): number | undefined {
+  const text = childText(element, name)?.trim()
+  if (!text) return undefined
+  const value = Number(text)
+  return Number.isNaN(value) ? undefined : value
+}
+
+function readBoolean(element: XmlElement, name: string): boolean | undefined {
+  const text = childText(element, name)?.trim().toLowerCase()
+  return text === 'true' ? true : text === 'false' ? false : undefined
+}
+
+function readDate(element: XmlElement, name: string): Date | undefined {
+  const text = childText(element, name)?.trim()
+  if (!text) return undefined
+  const date = new Date(text)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+function toPlainValue(element: XmlElement): unknown {
+  if (element.children.length === 0) return element.text
+
+  const value: Record<string, unknown> = {}
+  for (const child of element.children) {
+    const key = propertyName(child.name)
+    const childValue = toPlainValue(child)
+    const existing = value[key]
+    if (existing === undefined) {
+      value[key] = childValue
+    } else if (Array.isArray(existing)) {
+      existing.push(childValue)
+    } else {
+      value[key] = [existing, childValue]
+    }
+  }
+  return value
+}
+
+// ObjectID -> objectID, ID -> id, HTMLBody -> htmlBody
+function propertyName(name: string): string {
+  return name.replace(/^[A-Z]+(?=[A-Z][a-z]|$)|^[A-Z]/, initial => initial.toLowerCase())
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+  for (const key of Object.keys(value) as Array<keyof T>) {
+    if (value[key] === undefined) delete value[key]
+  }
+  return value
+}
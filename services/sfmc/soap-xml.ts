@@ -0,0 +1,106 @@
+// Minimal XML reader for SFMC SOAP responses
+
+export interface XmlElement {
+  // Local name, without the namespace prefix
+  name: string
+  // Keyed by local name; namespace declarations are dropped
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string
+}
+
+const TOKEN_PATTERN = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+
+/**
+ * Parse an XML document into its root element. Text is entity-decoded;
+ * mixed content is concatenated into the element's text.
+ */
+export function parseXml(xml: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [], text: '' }
+  const stack = [document]
+  let offset = 0
+
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    const top = stack[stack.length - 1]
+    top.text += decodeEntities(xml.slice(offset, match.index))
+    offset = match.index! + match[0].length
+
+    if (match[1] !== undefined) {
+      top.text += match[1]
+    } else if (match[2] !== undefined) {
+      const name = localName(match[2])
+      if (stack.length === 1 || top.name !== name) {
+        throw new Error(`Unexpected closing tag </${match[2]}>`)
+      }
+      stack.pop()
+    } else if (match[3] !== undefined) {
+      const element: XmlElement = { name: localName(match[3]), attributes: readAttributes(match[4]), children: [], text: '' }
+      top.children.push(element)
+      if (!match[5]) stack.push(element)
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`)
+  }
+  if (document.children.length !== 1) {
+    throw new Error('Expected a single root element')
+  }
+  return document.children[0]
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(child => child.name === name)
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.name === name)
+}
+
+export function childText(element: XmlElement, name: string): string | undefined {
+  return childElement(element, name)?.text
+}
+
+/**
+ * First descendant with the given name, depth first
+ */
+export function findElement(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of element.children) {
+    if (child.name === name) return child
+    const found = findElement(child, name)
+    if (found) return found
+  }
+  return undefined
+}
+
+// The xsi:type an SFMC result or object is tagged with
+export function xsiType(element: XmlElement): string | undefined {
+  const type = element.attributes.type
+  return type === undefined ? undefined : localName(type)
+}
+
+function readAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const [, name, doubleQuoted, singleQuoted] of source.matchAll(ATTRIBUTE_PATTERN)) {
+    if (name === 'xmlns' || name.startsWith('xmlns:')) continue
+    attributes[localName(name)] = decodeEntities(doubleQuoted ?? singleQuoted)
+  }
+  return attributes
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1)
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10)
+      return String.fromCodePoint(code)
+    }
+    return ENTITIES[body] ?? entity
+  })
+}
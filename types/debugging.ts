@@ -1,20 +1,31 @@
+import { DataExtension } from './sfmc'
+
 export type CodeLanguage = 'ampscript' | 'ssjs' | 'sql' | 'html' | 'css' | 'javascript'
 
+// Composite documents that mix HTML, CSS, client JavaScript, SSJS and
+// AMPScript. Each embedded region is analysed with its own validator.
+export type DocumentLanguage = 'cloudpage' | 'email'
+
+export type AnalysisLanguage = CodeLanguage | DocumentLanguage
+
 export type AnalysisLevel = 'syntax' | 'performance' | 'best_practices' | 'comprehensive'
 
 export type ErrorSeverity = 'error' | 'warning' | 'info'
 
 export interface CodeAnalysisRequest {
   code: string
-  language: CodeLanguage
+  language: AnalysisLanguage
   analysisLevel: AnalysisLevel
   context?: SFMCContext
+  ruleConfig?: RuleConfiguration
+  // Custom best practice rules checked alongside the built-in ones
+  rulePacks?: RulePack[]
 }
 
 export interface CodeAnalysisResult {
   id: string
   code: string
-  language: CodeLanguage
+  language: AnalysisLanguage
   analysisLevel: AnalysisLevel
   errors: DebugError[]
   warnings: DebugError[]
@@ -23,11 +34,260 @@ export interface CodeAnalysisResult {
   optimizationSuggestions: OptimizationSuggestion[]
   performanceMetrics?: PerformanceMetrics
   fixedCode?: string
+  // Inline suppression directives that did not silence any issue
+  unusedSuppressions?: SuppressionDirective[]
+  // Set when the result was compared with the baseline of its asset
+  baseline?: BaselineComparison
   confidence: number
   processingTime: number
   createdAt: Date
 }
 
+// Workspace analysis: several files that render each other through
+// ContentBlockByKey, ContentBlockById, ContentBlockByName and TreatAsContent
+export interface WorkspaceFile {
+  name: string
+  code: string
+  language: AnalysisLanguage
+  // Content Builder identity, for resolving ContentBlockByKey and ContentBlockById
+  customerKey?: string
+  assetId?: number
+}
+
+export interface WorkspaceAnalysisRequest {
+  files: WorkspaceFile[]
+  analysisLevel: AnalysisLevel
+  context?: SFMCContext
+  ruleConfig?: RuleConfiguration
+}
+
+export interface WorkspaceInclude {
+  file: string
+  line: number
+  column: number
+  function: string
+  // Literal block key, id, name or content; undefined when chosen at runtime
+  value?: string
+  // Workspace file the call resolves to
+  target?: string
+}
+
+export interface WorkspaceFileResult {
+  name: string
+  result: CodeAnalysisResult
+}
+
+export interface WorkspaceAnalysisResult {
+  id: string
+  files: WorkspaceFileResult[]
+  includes: WorkspaceInclude[]
+  processingTime: number
+  createdAt: Date
+}
+
+// Per-project rule configuration, keyed by rule id. Applies to validator
+// rules and best practice rules alike.
+export interface RuleSetting {
+  enabled?: boolean
+  severity?: ErrorSeverity
+  options?: Record<string, unknown>
+}
+
+export interface RuleConfiguration {
+  rules: Record<string, RuleSetting>
+}
+
+// Best practice rules authored in JSON or YAML. Violations are reported
+// with the rule id "<pack id>/<rule id>".
+export interface RulePack {
+  id: string
+  name: string
+  description?: string
+  rules: RulePackRule[]
+}
+
+export interface RulePackRule {
+  id: string
+  name?: string
+  // Regular expression matched against each line
+  pattern: string
+  flags?: string
+  languages: Array<CodeLanguage | 'all'>
+  category: BestPracticeCategory
+  severity: ErrorSeverity
+  message: string
+  suggestion?: string
+  documentation?: string
+  // Replacement for the matched text; $& and $1, $2, ... refer to the match
+  fix?: {
+    template: string
+    kind?: FixKind
+    description?: string
+  }
+}
+
+export type RulePackScope = 'session' | 'user'
+
+export interface RulePackVersion {
+  version: number
+  uploadedAt: string
+  format: 'json' | 'yaml'
+  pack: RulePack
+}
+
+// Uploaded versions of a pack; activeVersion is the one analyses use
+export interface StoredRulePack {
+  id: string
+  scope: RulePackScope
+  activeVersion: number
+  versions: RulePackVersion[]
+}
+
+// Email HTML with its <style> rules moved into style attributes, ready to
+// paste into Content Builder
+export interface EmailBuildResult {
+  html: string
+  // Selectors whose declarations were inlined
+  inlinedRules: number
+  // Media queries, other at-rules and selectors such as :hover, kept in a
+  // <style> element in <head>
+  headRules: number
+  styledElements: number
+  size: EmailSizeReport
+  issues: DebugError[]
+}
+
+export interface EmailSizeReport {
+  bytes: number
+  originalBytes: number
+  // Gmail clips messages above this size
+  limit: number
+  clipped: boolean
+}
+
+export type FormattableLanguage = 'ampscript' | 'ssjs' | 'sql' | 'html' | DocumentLanguage
+
+export type KeywordCase = 'upper' | 'lower'
+
+export interface AMPScriptFormatOptions {
+  indentSize: number
+  keywordCase: KeywordCase
+  // 'canonical' rewrites known functions to their documented casing, e.g. lookuprows → LookupRows
+  functionCase: 'canonical' | 'preserve'
+  // Indent statements one level inside %%[ ]%% relative to the delimiters
+  indentBlockContent: boolean
+}
+
+export interface SSJSFormatOptions {
+  indentSize: number
+  quotes: 'single' | 'double' | 'preserve'
+}
+
+export interface SqlFormatOptions {
+  indentSize: number
+  keywordCase: KeywordCase
+  // Start JOIN clauses at the column of FROM instead of one level inside it
+  alignJoins: boolean
+  commaPosition: 'trailing' | 'leading'
+}
+
+export interface FormatResult {
+  language: FormattableLanguage
+  code: string
+  changed: boolean
+  // Set when the code could not be tokenized and was returned unchanged
+  skipped?: string
+}
+
+// Rendering target of the HTML and CSS validators. The email profile adds
+// checks against the email client support matrix.
+export type ValidationProfile = 'web' | 'email'
+
+export type EmailClientSupport = 'none' | 'partial'
+
+export type EmailFeatureKind = 'css-property' | 'css-value' | 'css-selector' | 'css-at-rule' | 'html-element'
+
+export interface EmailClient {
+  id: string
+  name: string
+}
+
+// A CSS or HTML feature that some email clients drop or only partly render.
+// Clients missing from support render the feature.
+export interface EmailClientFeature {
+  id: string
+  kind: EmailFeatureKind
+  title: string
+  // Property, at-rule or element name; unused for selectors
+  name?: string
+  // Regular expression matched against the property value, the at-rule
+  // prelude or the selector
+  pattern?: string
+  support: Record<string, EmailClientSupport>
+  notes?: Record<string, string>
+  fixSuggestion?: string
+  // Overrides the severity derived from the support levels
+  severity?: ErrorSeverity
+}
+
+export interface EmailClientSupportMatrix {
+  version: string
+  clients: EmailClient[]
+  features: EmailClientFeature[]
+  limits: {
+    // Gmail ignores <style> elements larger than this
+    gmailStyleBytes: number
+    // Class names Gmail keeps in <style> rules
+    gmailClassNamePattern: string
+  }
+}
+
+// Baselines record the issues legacy code already has, so later analyses of
+// the same asset can tell the issues introduced since apart from them
+export type BaselineStatus = 'new' | 'existing' | 'fixed'
+
+export type BaselineIssueKind = 'error' | 'warning' | 'performance' | 'best_practice'
+
+export interface BaselineEntry {
+  // Hash of the kind, rule id, enclosing block and normalised snippet; the
+  // line is left out so the entry survives code added above the issue
+  fingerprint: string
+  kind: BaselineIssueKind
+  rule: string
+  message: string
+  // Position when the baseline was captured, for display only
+  line: number
+}
+
+export interface AnalysisBaseline {
+  // Content Builder asset id, customer key or file path of the analysed code
+  assetKey: string
+  language: AnalysisLanguage
+  analysisId: string
+  createdAt: string
+  entries: BaselineEntry[]
+}
+
+export interface BaselineComparison {
+  assetKey: string
+  baselineCreatedAt: string
+  newCount: number
+  existingCount: number
+  // Baseline issues the analysis no longer reports
+  fixed: BaselineEntry[]
+}
+
+// Inline directives such as /* sfmc-debug-disable-next-line ssjs-semicolon */
+export type SuppressionKind = 'disable' | 'enable' | 'disable-line' | 'disable-next-line'
+
+export interface SuppressionDirective {
+  kind: SuppressionKind
+  // Rule ids the directive names; empty for all rules
+  rules: string[]
+  line: number
+  column: number
+}
+
 export interface DebugError {
   id: string
   line: number
@@ -38,6 +298,54 @@ export interface DebugError {
   category: ErrorCategory
   fixSuggestion?: string
   codeSnippet?: string
+  endLine?: number
+  endColumn?: number
+  fix?: CodeFix
+  // Embedded language the issue was found in, for composite documents
+  language?: CodeLanguage
+  // Security findings: how untrusted input got from its source to the sink
+  taintPath?: TaintStep[]
+  baselineStatus?: BaselineStatus
+}
+
+export interface TaintStep {
+  kind: 'source' | 'propagation' | 'sink'
+  line: number
+  column: number
+  description: string
+}
+
+// Automatic fixes. Safe fixes keep the behaviour the author intended and can
+// be applied without review; unsafe fixes change behaviour or insert
+// placeholder text and are only applied on request.
+export type FixKind = 'safe' | 'unsafe'
+
+// Replaces the text between two 1-based positions (end exclusive). An empty
+// range inserts, an empty replacement deletes.
+export interface TextEdit {
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+  replacement: string
+}
+
+export interface CodeFix {
+  kind: FixKind
+  description: string
+  edits: TextEdit[]
+}
+
+// Source location types shared by the language parsers
+export interface SourcePosition {
+  offset: number
+  line: number
+  column: number
+}
+
+export interface SourceRange {
+  start: SourcePosition
+  end: SourcePosition
 }
 
 export interface DebugWarning extends DebugError {
@@ -63,6 +371,8 @@ export interface PerformanceMetrics {
   apiCallCount: number
   loopComplexity: number
   recommendations: PerformanceRecommendation[]
+  // Set when the row counts of the Data Extensions the code reads are known
+  dataVolume?: DataVolumeEstimate
 }
 
 export interface ComplexityMetrics {
@@ -70,6 +380,36 @@ export interface ComplexityMetrics {
   cognitiveComplexity: number
   nestingDepth: number
   linesOfCode: number
+  // AMPScript and SSJS: one graph per SSJS function and one for the top-level code
+  controlFlow?: ControlFlowGraph[]
+}
+
+export type ControlFlowBlockKind = 'entry' | 'exit' | 'statements' | 'branch' | 'loop' | 'case' | 'catch'
+
+export interface ControlFlowBlock {
+  id: number
+  kind: ControlFlowBlockKind
+  // First line of the code of the block
+  label: string
+  line: number
+  endLine: number
+  successors: number[]
+  // Branches and loops around the block
+  nesting: number
+  // Cognitive complexity added by the block
+  complexity: number
+}
+
+export interface ControlFlowGraph {
+  // Function name, or (top level)
+  name: string
+  language: 'ampscript' | 'ssjs'
+  line: number
+  endLine: number
+  blocks: ControlFlowBlock[]
+  cyclomaticComplexity: number
+  cognitiveComplexity: number
+  nestingDepth: number
 }
 
 export interface MemoryMetrics {
@@ -86,6 +426,33 @@ export interface PerformanceRecommendation {
   line?: number
 }
 
+// Where the code runs, which decides the time it has to finish in
+export type DataVolumeRuntime = 'cloudpage' | 'email' | 'query-activity'
+
+export type DataAccessStrategy = 'index' | 'scan' | 'hash-join' | 'nested-loop'
+
+// Estimated cost of one Data Extension read: a lookup function, a Rows call,
+// or a table or join of a query
+export interface DataAccessCost {
+  operation: string
+  dataExtension: string
+  line: number
+  column: number
+  strategy: DataAccessStrategy
+  rowCount: number
+  // Times the read runs per execution of the code, from the loops around it
+  executions: number
+  estimatedTimeMs: number
+}
+
+export interface DataVolumeEstimate {
+  runtime: DataVolumeRuntime
+  calls: DataAccessCost[]
+  estimatedTimeMs: number
+  // Data Extensions read without a known row count; their reads are not costed
+  unknownDataExtensions: string[]
+}
+
 export interface BestPracticeViolation {
   id: string
   rule: string
@@ -96,6 +463,8 @@ export interface BestPracticeViolation {
   column?: number
   suggestion: string
   documentation?: string
+  fix?: CodeFix
+  baselineStatus?: BaselineStatus
 }
 
 export type ErrorCategory = 
@@ -105,6 +474,7 @@ export type ErrorCategory =
   | 'security'
   | 'accessibility'
   | 'compatibility'
+  | 'runtime'
 
 export type OptimizationType = 
   | 'performance'
@@ -124,24 +494,18 @@ export type BestPracticeCategory =
   | 'error_handling'
 
 export interface SFMCContext {
-  dataExtensions?: DataExtensionInfo[]
+  dataExtensions?: DataExtension[]
+  // Row counts by Data Extension name; they take precedence over DataExtension.rowCount
+  rowCounts?: Record<string, number>
+  queryTarget?: QueryActivityTarget
   cloudPageContext?: CloudPageContext
   emailContext?: EmailContext
   journeyContext?: JourneyContext
 }
 
-export interface DataExtensionInfo {
-  name: string
-  fields: DataExtensionField[]
-  primaryKey?: string[]
-}
-
-export interface DataExtensionField {
-  name: string
-  type: 'Text' | 'Number' | 'Date' | 'Boolean' | 'EmailAddress' | 'Phone' | 'Decimal'
-  length?: number
-  isRequired: boolean
-  isPrimaryKey: boolean
+// Target Data Extension a query activity writes its results into
+export interface QueryActivityTarget {
+  dataExtension: string
 }
 
 export interface CloudPageContext {
@@ -161,13 +525,84 @@ export interface JourneyContext {
   hasPersonalization: boolean
 }
 
+// Offline execution types
+export type MockFieldValue = string | number | boolean | null
+
+export type MockDataExtensionRow = Record<string, MockFieldValue>
+
+export interface ExecutionContext {
+  // Subscriber and sendable Data Extension attributes
+  attributes?: Record<string, MockFieldValue>
+  // System personalization strings such as emailaddr or _subscriberkey
+  personalizationStrings?: Record<string, MockFieldValue>
+  // Data Extension rows keyed by Data Extension name
+  dataExtensions?: Record<string, MockDataExtensionRow[]>
+  // Query string and form values returned by RequestParameter
+  requestParameters?: Record<string, string>
+  // Fixed time returned by Now(), as an ISO timestamp
+  now?: string
+  // Responses returned by HTTP stubs, keyed by URL
+  httpResponses?: Record<string, MockHttpResponse>
+  // Objects returned by WSProxy retrieve, keyed by SOAP object type
+  soapObjects?: Record<string, MockDataExtensionRow[]>
+}
+
+export interface MockHttpResponse {
+  statusCode?: number
+  content: string
+  headers?: Record<string, string>
+}
+
+export interface CodeExecutionRequest {
+  code: string
+  language: CodeLanguage
+  context?: ExecutionContext
+}
+
+export interface VariableTraceEntry {
+  variable: string
+  value: string
+  line: number
+  column: number
+}
+
+// Call to a platform stub made while running SSJS
+export interface ExecutionCallEntry {
+  target: string
+  args: string[]
+  line?: number
+  column?: number
+}
+
+export interface ExecutionResult {
+  language: CodeLanguage
+  output: string
+  trace: VariableTraceEntry[]
+  errors: DebugError[]
+  callLog?: ExecutionCallEntry[]
+  // Data Extension rows after InsertData/UpdateData/UpsertData/DeleteData
+  dataExtensions: Record<string, MockDataExtensionRow[]>
+  redirectUrl?: string
+  completed: boolean
+  executionTime: number
+}
+
 // Validator interface that all language validators must implement
 export interface LanguageValidator {
   validateSyntax(code: string): Promise<DebugError[]>
-  validateSemantics(code: string): Promise<DebugError[]>
+  validateSemantics(code: string, context?: SFMCContext): Promise<DebugError[]>
   analyzePerformance(code: string): Promise<DebugError[]>
   getOptimizationSuggestions(code: string): Promise<OptimizationSuggestion[]>
   generateFixedCode(code: string, errors: DebugError[]): Promise<string>
+  // Rules of validateSyntax that look at the code as a whole rather than at
+  // single lines; incremental analysis re-runs them with validateStructure
+  structureRules?: readonly string[]
+  validateStructure?(code: string): Promise<DebugError[]>
+}
+
+// Interpreter interface for languages that can run offline
+export interface CodeInterpreter {
+  execute(code: string, context?: ExecutionContext): ExecutionResult
 }
 
 // Real-time analysis types
@@ -184,4 +619,14 @@ export interface LiveAnalysisResult {
   suggestions: OptimizationSuggestion[]
   isValid: boolean
   lastUpdated: Date
+  // Version of the session document the result was computed for
+  version?: number
+}
+
+// Replaces the text between two offsets (end exclusive) of the previous
+// version of a document
+export interface TextDelta {
+  start: number
+  end: number
+  text: string
 }
\ No newline at end of file
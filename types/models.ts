@@ -1,5 +1,7 @@
 // Core data models and interfaces
 
+import { RuleConfiguration } from './debugging'
+
 export type CodeLanguage = 'sql' | 'ampscript' | 'ssjs' | 'css' | 'html' | 'javascript' | 'typescript'
 export type DebugLanguage = CodeLanguage
 export type PageType = 'landing' | 'preference' | 'profile' | 'custom'
@@ -23,6 +25,7 @@ export interface UserPreferences {
   theme: 'light' | 'dark' | 'system'
   autoSave: boolean
   codeFormatting: FormattingOptions
+  ruleConfig?: RuleConfiguration
 }
 
 export interface FormattingOptions {
@@ -1,3 +1,5 @@
+import { AMPScriptFormatOptions, RuleConfiguration, SSJSFormatOptions, SqlFormatOptions } from './debugging';
+
 export interface UserSession {
   sessionId: string;
   userId?: string;
@@ -22,12 +24,18 @@ export interface UserPreferences {
   theme: 'light' | 'dark' | 'system';
   autoSave: boolean;
   codeFormatting: FormattingOptions;
+  ruleConfig?: RuleConfiguration;
 }
 
 export interface FormattingOptions {
   indentSize: number;
   insertFinalNewline: boolean;
   trimTrailingWhitespace: boolean;
+  // Per-language formatter styles; indentSize above is used when a language
+  // does not set its own
+  ampscript?: Partial<AMPScriptFormatOptions>;
+  ssjs?: Partial<SSJSFormatOptions>;
+  sql?: Partial<SqlFormatOptions>;
 }
 
 export interface ConversationHistory {
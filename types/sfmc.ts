@@ -1,5 +1,7 @@
 // SFMC-specific types and interfaces
 
+import { AnalysisLanguage, DebugError } from './debugging'
+
 // SFMC Authentication
 export interface SFMCCredentials {
   clientId: string
@@ -104,10 +106,101 @@ export interface DeploymentResult {
   success: boolean
   pageId?: string
   url?: string
+  deploymentId?: string
+  // Version of the asset in the deployment history
+  version?: number
   error?: string
   warnings?: string[]
 }
 
+// Deployment history: what an asset held before and after each deploy
+export interface AssetSnapshot {
+  assetId: string
+  customerKey: string
+  content: string
+  // Name, description, asset type, category and data, as SFMC returned them
+  metadata: Record<string, any>
+}
+
+export interface DeploymentRecord {
+  deploymentId: string
+  // Customer key of the asset
+  assetKey: string
+  // Increments with every deploy and rollback of the asset
+  version: number
+  kind: 'deploy' | 'rollback'
+  connectionId: string
+  deployedAt: string
+  // Absent when the deploy created the asset
+  previous?: AssetSnapshot
+  deployed: AssetSnapshot
+  rolledBack?: {
+    at: string
+    reason?: string
+    // The rollback, recorded as a deployment of its own
+    deploymentId: string
+  }
+}
+
+export interface AssetVersion {
+  version: number
+  // The deployment that wrote this version; absent for the content found before the first one
+  deploymentId?: string
+  kind?: DeploymentRecord['kind']
+  deployedAt?: string
+  snapshot: AssetSnapshot
+}
+
+export interface ContentDiffLine {
+  type: 'unchanged' | 'added' | 'removed'
+  text: string
+  oldLine?: number
+  newLine?: number
+}
+
+export interface DeploymentDiff {
+  assetKey: string
+  fromVersion: number
+  toVersion: number
+  lines: ContentDiffLine[]
+  added: number
+  removed: number
+  metadataChanges: Array<{ field: string; from: unknown; to: unknown }>
+}
+
+// Dry-run deployment plans: what a batch deploy would do to each live asset
+export type DeploymentPlanAction = 'create' | 'update' | 'unchanged'
+
+export interface DeploymentPlanItem {
+  // Position of the deployment in the batch
+  index: number
+  assetKey: string
+  name: string
+  assetType: string
+  action: DeploymentPlanAction
+  // The live asset an update would overwrite
+  assetId?: string
+  // Live content against the content to deploy; a new asset is all additions
+  diff: Pick<DeploymentDiff, 'lines' | 'added' | 'removed' | 'metadataChanges'>
+  // Absent for resource types the code analysis has no language for
+  analysis?: {
+    language: AnalysisLanguage
+    errors: DebugError[]
+    warnings: DebugError[]
+  }
+  // Set when the analysis found errors and the plan was not overridden
+  blocked: boolean
+}
+
+export interface DeploymentPlan {
+  connectionId: string
+  createdAt: string
+  items: DeploymentPlanItem[]
+  summary: Record<DeploymentPlanAction, number> & { blocked: number }
+  overrideErrors: boolean
+  canDeploy: boolean
+}
+
 // AMPScript Validation
 export interface ValidationResult {
   isValid: boolean
@@ -175,6 +268,7 @@ export interface Journey {
 // Content Builder Assets
 export interface ContentAsset {
   id: number
+  customerKey?: string
   name: string
   assetType: {
     id: number
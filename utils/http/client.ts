@@ -9,6 +9,8 @@ export interface HttpClientConfig {
   retries?: number
   headers?: Record<string, string>
   validateStatus?: (status: number) => boolean
+  // Cancels the request; an aborted request is not retried
+  signal?: AbortSignal
 }
 
 export interface HttpResponse<T = any> {
@@ -60,10 +62,13 @@ export class HttpClient {
     const fullUrl = finalConfig.baseURL ? `${finalConfig.baseURL}${url}` : url
 
     return RetryManager.execute(async () => {
-      try {
-        const controller = new AbortController()
-        const timeoutId = setTimeout(() => controller.abort(), finalConfig.timeout)
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), finalConfig.timeout)
+      const cancel = () => controller.abort()
+      if (finalConfig.signal?.aborted) cancel()
+      finalConfig.signal?.addEventListener('abort', cancel)
 
+      try {
         const requestInit: RequestInit = {
           method,
           headers: {
@@ -78,7 +83,6 @@ export class HttpClient {
         }
 
         const response = await fetch(fullUrl, requestInit)
-        clearTimeout(timeoutId)
 
         if (!finalConfig.validateStatus!(response.status)) {
           throw this.createHttpError(response, method, fullUrl)
@@ -94,6 +98,11 @@ export class HttpClient {
         }
       } catch (error) {
         if (error instanceof Error) {
+          // Aborted by the caller rather than by the timeout
+          if (error.name === 'AbortError' && finalConfig.signal?.aborted) {
+            throw error
+          }
+
           if (error.name === 'AbortError') {
             throw ErrorFactory.createNetworkError(
               'Request timeout',
@@ -114,6 +123,9 @@ export class HttpClient {
         }
         
         throw error
+      } finally {
+        clearTimeout(timeoutId)
+        finalConfig.signal?.removeEventListener('abort', cancel)
       }
     }, {
       maxAttempts: finalConfig.retries,